@@ -0,0 +1,165 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { createCitizenshipService, createCitizenshipRouter } from '../src/citizenship.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+const KEY = 'test-nullifier-key'
+const AZAD = `0x${'a1'.repeat(32)}`
+const BERIVAN = `0x${'b2'.repeat(32)}`
+
+let applicant
+let other
+
+// identityKyc.kycStatuses; missing wallets have not applied
+function createFakeApi (statuses = {}) {
+  return {
+    query: {
+      identityKyc: {
+        kycStatuses: async (address) => ({ toString: () => statuses[address] ?? 'NotStarted' })
+      }
+    }
+  }
+}
+
+function setup ({ statuses, bindings = [], nullifierKey = KEY } = {}) {
+  const { client, db } = createFakeSupabase({ tables: { citizenship_nullifiers: bindings } })
+  const service = createCitizenshipService({
+    supabase: client,
+    getApi: () => createFakeApi(statuses),
+    nullifierKey,
+    logger
+  })
+  return { service, db }
+}
+
+function signedRegistration (pair, identityDigest) {
+  const nonce = u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+  const message = `registerNullifier:${identityDigest}:${Date.now()}:${nonce}`
+  return { identityDigest, signerAddress: pair.address, message, signature: u8aToHex(pair.sign(message)) }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  applicant = keyring.addFromUri('//Applicant')
+  other = keyring.addFromUri('//Other')
+})
+
+// ========================================
+// NULLIFIERS
+// ========================================
+
+describe('Citizenship nullifiers', () => {
+  it('should key the identity digest with the backend secret and bind it to the wallet', async () => {
+    const { service, db } = setup()
+    const otherKey = setup({ nullifierKey: 'another-key' })
+
+    const first = await service.registerNullifier(AZAD, applicant.address)
+    const retry = await service.registerNullifier(AZAD, applicant.address)
+    const rekeyed = await otherKey.service.registerNullifier(AZAD, applicant.address)
+
+    expect(first.nullifierHash).toMatch(/^0x[0-9a-f]{64}$/)
+    expect(first.nullifierHash).not.toBe(AZAD)
+    expect(retry.nullifierHash).toBe(first.nullifierHash)
+    expect(rekeyed.nullifierHash).not.toBe(first.nullifierHash)
+    expect(db.tables.citizenship_nullifiers).toEqual([
+      expect.objectContaining({ nullifier_hash: first.nullifierHash, wallet_address: applicant.address })
+    ])
+  })
+
+  it('should refuse an identity held by a pending or approved citizen', async () => {
+    for (const status of ['Pending', 'Approved']) {
+      const { service, db } = setup({ statuses: { [other.address]: status } })
+      const { nullifierHash } = await service.registerNullifier(AZAD, other.address)
+
+      const result = await service.registerNullifier(AZAD, applicant.address)
+
+      expect(result).toMatchObject({ ok: false, status: 409, key: 'errors.citizenship.identity_registered' })
+      expect(db.tables.citizenship_nullifiers).toEqual([
+        expect.objectContaining({ nullifier_hash: nullifierHash, wallet_address: other.address })
+      ])
+    }
+  })
+
+  it('should release the identity of a rejected applicant to the next wallet', async () => {
+    const { service, db } = setup({ statuses: { [other.address]: 'Rejected' } })
+    await service.registerNullifier(AZAD, other.address)
+
+    const result = await service.registerNullifier(AZAD, applicant.address)
+
+    expect(result.ok).toBe(true)
+    expect(db.tables.citizenship_nullifiers).toEqual([
+      expect.objectContaining({ nullifier_hash: result.nullifierHash, wallet_address: applicant.address })
+    ])
+  })
+
+  it('should keep a pending wallet from applying as someone else', async () => {
+    const statuses = {}
+    const { service, db } = setup({ statuses })
+    const azad = await service.registerNullifier(AZAD, applicant.address)
+
+    statuses[applicant.address] = 'Pending'
+    const pending = await service.registerNullifier(BERIVAN, applicant.address)
+
+    statuses[applicant.address] = 'Rejected'
+    const corrected = await service.registerNullifier(BERIVAN, applicant.address)
+
+    expect(pending).toMatchObject({ ok: false, status: 409, key: 'errors.citizenship.wallet_registered' })
+    expect(corrected.ok).toBe(true)
+    expect(db.tables.citizenship_nullifiers.map((row) => row.nullifier_hash)).toEqual([corrected.nullifierHash])
+    expect(corrected.nullifierHash).not.toBe(azad.nullifierHash)
+  })
+
+  it('should refuse malformed digests and work only with a key', async () => {
+    const { service } = setup()
+    const keyless = setup({ nullifierKey: '' })
+
+    expect(await service.registerNullifier('Azad Rojhilati', applicant.address)).toMatchObject({ status: 400, key: 'errors.citizenship.invalid_identity' })
+    expect(await keyless.service.registerNullifier(AZAD, applicant.address)).toMatchObject({ status: 503, key: 'errors.citizenship.nullifier_unavailable' })
+  })
+})
+
+// ========================================
+// ROUTES
+// ========================================
+
+describe('Citizenship routes', () => {
+  function createApp () {
+    const { service, db } = setup()
+    const app = express()
+    app.use(express.json())
+    app.use('/api/citizenship', createCitizenshipRouter(service, { logger }))
+    return { app, db }
+  }
+
+  it('should bind the nullifier to the wallet that signed for the digest', async () => {
+    const { app, db } = createApp()
+
+    const res = await request(app).post('/api/citizenship/nullifier').send(signedRegistration(applicant, AZAD))
+
+    expect(res.status).toBe(200)
+    expect(db.tables.citizenship_nullifiers[0].wallet_address).toBe(applicant.address)
+  })
+
+  it('should refuse signatures for another digest or wallet', async () => {
+    const { app, db } = createApp()
+    const forged = { ...signedRegistration(other, AZAD), signerAddress: applicant.address }
+
+    const swapped = await request(app).post('/api/citizenship/nullifier').send({ ...signedRegistration(applicant, AZAD), identityDigest: BERIVAN })
+    const impersonated = await request(app).post('/api/citizenship/nullifier').send(forged)
+
+    expect(swapped.status).toBe(400)
+    expect(impersonated.status).toBe(401)
+    expect(db.tables.citizenship_nullifiers).toHaveLength(0)
+  })
+})
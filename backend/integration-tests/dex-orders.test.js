@@ -0,0 +1,279 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { createDexOrderService, createDexOrderRouter, checkKeeperProxyType } from '../src/dex-orders.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+const CHAIN_PROXY_TYPES = ['Any', 'NonTransfer', 'Governance', 'AssetConversion']
+
+let owner
+let keeper
+
+const codec = (value) => ({ toString: () => String(value), toHex: () => String(value) })
+
+// Minimal ApiPromise: the owner's proxies are configurable, quotes are fixed
+// and `status` is the pool status reported for every submitted swap
+function createFakeApi ({ proxies = [], status = { isInBlock: true } } = {}) {
+  const sent = []
+  let quotes = 0
+
+  return {
+    sent,
+    get quotes () { return quotes },
+    createType: (type, value) => {
+      if (!CHAIN_PROXY_TYPES.includes(value)) throw new Error(`Unknown ${type} variant ${value}`)
+      return value
+    },
+    query: {
+      proxy: {
+        proxies: async () => [proxies.map(({ delegate, proxyType }) => ({
+          delegate: codec(delegate),
+          proxyType: codec(proxyType),
+          delay: { isZero: () => true }
+        }))]
+      }
+    },
+    call: {
+      assetConversionApi: {
+        quotePriceExactTokensForTokens: async () => {
+          quotes++
+          return { isNone: false, unwrap: () => ({ toBigInt: () => 80n }) }
+        }
+      }
+    },
+    events: {
+      proxy: { ProxyExecuted: { is: (e) => e.name === 'ProxyExecuted' } },
+      assetConversion: { SwapExecuted: { is: (e) => e.name === 'SwapExecuted' } }
+    },
+    tx: {
+      assetConversion: { swapExactTokensForTokens: (...args) => ({ args }) },
+      proxy: {
+        proxy: (real, type, call) => {
+          const tx = {
+            call,
+            hash: codec(`0xswap-${sent.length}`),
+            signAsync: async () => tx,
+            send: async (callback) => {
+              sent.push(tx)
+              callback({
+                status: { ...status, asInBlock: codec('0xblock') },
+                events: [
+                  { event: { name: 'ProxyExecuted', data: [{ isErr: false }] } },
+                  { event: { name: 'SwapExecuted', data: [null, null, null, codec('80')] } }
+                ]
+              })
+              return () => {}
+            }
+          }
+          return tx
+        }
+      }
+    }
+  }
+}
+
+const order = (fields = {}) => ({
+  id: 'order-1',
+  owner: owner.address,
+  kind: 'limit',
+  path: [1, 1000],
+  amount_in: '100',
+  min_amount_out: '75',
+  max_slippage_bps: 100,
+  interval_seconds: null,
+  executions_done: 0,
+  executions_total: 1,
+  failure_count: 0,
+  status: 'open',
+  expires_at: null,
+  next_run_at: '2026-01-01T00:00:00Z',
+  updated_at: new Date().toISOString(),
+  ...fields
+})
+
+function setup ({ proxyType = 'AssetConversion', proxies, status, orders = [order()] } = {}) {
+  const api = createFakeApi({
+    proxies: proxies ?? [{ delegate: keeper.address, proxyType: 'AssetConversion' }],
+    status
+  })
+  const { client, db } = createFakeSupabase({ tables: { dex_orders: orders, dex_order_fills: [] } })
+  const service = createDexOrderService({
+    supabase: client,
+    getApi: () => api,
+    getKeeperAccount: () => keeper,
+    proxyType,
+    logger
+  })
+  return { service, db, api }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  owner = keyring.addFromUri('//Owner')
+  keeper = keyring.addFromUri('//Keeper')
+})
+
+// ========================================
+// KEEPER PROXY
+// ========================================
+
+describe('Keeper proxy type', () => {
+  it('should only accept a swap-only type that exists on the chain', () => {
+    const api = createFakeApi()
+
+    expect(checkKeeperProxyType(api, 'AssetConversion')).toBeNull()
+    expect(checkKeeperProxyType(api, undefined)).toMatch(/not set/)
+    expect(checkKeeperProxyType(api, 'Any')).toMatch(/more than swaps/)
+    expect(checkKeeperProxyType(api, 'NonTransfer')).toMatch(/more than swaps/)
+    expect(checkKeeperProxyType(api, 'Swap')).toMatch(/does not exist/)
+  })
+
+  it('should keep the keeper off with a broad proxy type', async () => {
+    for (const proxyType of [null, 'Any', 'NonTransfer']) {
+      const { service, db, api } = setup({ proxyType, proxies: [{ delegate: keeper.address, proxyType: 'Any' }] })
+
+      await service.runOnce()
+
+      expect(service.getKeeper()).toBeNull()
+      expect(api.sent).toHaveLength(0)
+      expect(db.tables.dex_orders[0]).not.toHaveProperty('last_error')
+    }
+  })
+
+  it('should not execute through an Any proxy', async () => {
+    const { service, db, api } = setup({ proxies: [{ delegate: keeper.address, proxyType: 'Any' }] })
+
+    await service.runOnce()
+
+    expect(api.sent).toHaveLength(0)
+    expect(db.tables.dex_orders[0]).toMatchObject({ status: 'open', last_error: 'proxy_missing' })
+  })
+})
+
+// ========================================
+// EXECUTION
+// ========================================
+
+describe('Order execution', () => {
+  it('should fill a due order at its limit price', async () => {
+    const { service, db, api } = setup()
+
+    await service.runOnce()
+
+    expect(api.sent).toHaveLength(1)
+    expect(api.sent[0].call.args).toEqual([[1, 1000], 100n, 75n, owner.address, true])
+    expect(db.tables.dex_orders[0]).toMatchObject({ status: 'filled', executions_done: 1 })
+    expect(db.tables.dex_order_fills[0]).toMatchObject({ status: 'filled', amount_out: '80', block_hash: '0xblock' })
+  })
+
+  it('should fail the attempt when the pool drops or rejects the swap', async () => {
+    for (const [status, error] of [
+      [{ isDropped: true, type: 'Dropped' }, 'Transaction dropped'],
+      [{ isInvalid: true, type: 'Invalid' }, 'Transaction invalid']
+    ]) {
+      const { service, db } = setup({ status })
+
+      await service.runOnce()
+
+      expect(db.tables.dex_order_fills[0]).toMatchObject({ status: 'failed', error })
+      expect(db.tables.dex_orders[0]).toMatchObject({ status: 'open', failure_count: 1, last_error: error })
+    }
+  })
+
+  it('should skip a pass while the previous one is still running', async () => {
+    const { service, api } = setup()
+
+    await Promise.all([service.runOnce(), service.runOnce()])
+
+    expect(api.quotes).toBe(1)
+    expect(api.sent).toHaveLength(1)
+  })
+})
+
+// ========================================
+// ROUTES
+// ========================================
+
+describe('Order routes', () => {
+  const createApp = (orders) => {
+    const { service, db } = setup({ orders })
+    return { app: express().use(express.json()).use('/orders', createDexOrderRouter(service, { logger })), db }
+  }
+
+  const signedCancel = (pair, orderId) => {
+    const nonce = u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+    const message = `cancelDexOrder:${orderId}:${Date.now()}:${nonce}`
+    return { owner: pair.address, message, signature: u8aToHex(pair.sign(message)) }
+  }
+
+  it('should cancel with the owner signature and refuse its replay', async () => {
+    const { app, db } = createApp([order(), order({ id: 'order-2' })])
+    const body = signedCancel(owner, 'order-1')
+
+    const first = await request(app).post('/orders/order-1/cancel').send(body)
+    const replay = await request(app).post('/orders/order-1/cancel').send(body)
+    const other = await request(app).post('/orders/order-2/cancel').send(body)
+
+    expect(first.statusCode).toBe(200)
+    expect(db.tables.dex_orders[0].status).toBe('cancelled')
+    expect(replay.body.error.key).toBe('errors.auth.signature_replayed')
+    expect(other.body.error.key).toBe('errors.request.message_mismatch')
+    expect(db.tables.dex_orders[1].status).toBe('open')
+  })
+
+  it('should refuse order intents not signed by their owner', async () => {
+    const { app, db } = createApp([])
+    const message = `dexOrder:${JSON.stringify({
+      owner: owner.address,
+      kind: 'limit',
+      path: [1, 1000],
+      amountIn: '100',
+      minAmountOut: '75',
+      maxSlippageBps: 100,
+      nonce: Date.now()
+    })}`
+
+    const forged = await request(app).post('/orders').send({ message, signature: u8aToHex(keeper.sign(message)) })
+    const malformed = await request(app).post('/orders').send({ message, signature: '0x00' })
+    const signed = await request(app).post('/orders').send({ message, signature: u8aToHex(owner.sign(message)) })
+
+    expect(forged.statusCode).toBe(401)
+    expect(malformed.statusCode).toBe(401)
+    expect(signed.statusCode).toBe(201)
+    expect(db.tables.dex_orders).toHaveLength(1)
+  })
+
+  it('should store an intent once however its signature is encoded', async () => {
+    const { app, db } = createApp([])
+    const message = `dexOrder:${JSON.stringify({
+      owner: owner.address,
+      kind: 'dca',
+      path: [1, 1000],
+      amountIn: '100',
+      minAmountOut: '0',
+      maxSlippageBps: 100,
+      intervalSeconds: 3600,
+      executions: 10,
+      nonce: Date.now()
+    })}`
+    const signature = u8aToHex(owner.sign(message))
+
+    const first = await request(app).post('/orders').send({ message, signature: '0x' + signature.slice(2).toUpperCase() })
+    const replay = await request(app).post('/orders').send({ message, signature })
+
+    expect(first.statusCode).toBe(201)
+    expect(db.tables.dex_orders[0].signature).toBe(signature)
+    expect(replay.statusCode).toBe(409)
+    expect(replay.body.error.key).toBe('errors.dex_orders.duplicate_intent')
+    expect(db.tables.dex_orders).toHaveLength(1)
+  })
+})
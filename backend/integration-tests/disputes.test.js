@@ -0,0 +1,193 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { createDisputeService, createDisputeRouter } from '../src/disputes.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+let moderator
+let buyer
+let seller
+
+const nonce = () => u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+
+function signed (pair, action, timestamp = Date.now()) {
+  const message = `${action}:${timestamp}:${nonce()}`
+  return { moderatorAddress: pair.address, message, signature: u8aToHex(pair.sign(message)) }
+}
+
+// Every address passed in holds the ModeratorêCivakê Tiki
+const moderatorApi = {
+  query: {
+    tiki: {
+      userTikis: async () => ({ isEmpty: false, toJSON: () => ['ModeratorêCivakê'] })
+    }
+  }
+}
+
+function setup ({ wallets, trade = {} } = {}) {
+  const { client, db } = createFakeSupabase({
+    tables: {
+      wallets: wallets ?? [{ user_id: 'mod', address: moderator.address }],
+      p2p_fiat_offers: [{ id: 'offer-1', seller_wallet: seller.address }],
+      p2p_fiat_trades: [{
+        id: 'trade-1',
+        offer_id: 'offer-1',
+        seller_id: 'seller',
+        buyer_id: 'buyer',
+        buyer_wallet: buyer.address,
+        status: 'disputed',
+        ...trade
+      }],
+      p2p_fiat_disputes: [{ id: 'dispute-1', trade_id: 'trade-1', status: 'open', assigned_moderator_id: null }]
+    },
+    users: {
+      'mod-token': { id: 'mod' },
+      'alt-token': { id: 'alt' }
+    }
+  })
+
+  const settlements = []
+  const escrowService = {
+    settleTrade: async (tradeId, type, context) => {
+      settlements.push({ tradeId, type, context })
+      return { ok: true, txHash: '0xsettled' }
+    }
+  }
+
+  const getApi = () => moderatorApi
+  const service = createDisputeService({ supabase: client, getApi, escrowService, logger })
+  const app = express()
+    .use(express.json())
+    .use('/disputes', createDisputeRouter(service, { supabase: client, getApi, logger }))
+
+  return { app, db, settlements }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  moderator = keyring.addFromUri('//Moderator')
+  buyer = keyring.addFromUri('//Buyer')
+  seller = keyring.addFromUri('//Seller')
+})
+
+// ========================================
+// AUTHENTICATION
+// ========================================
+
+describe('Moderator authentication', () => {
+  it('should accept a signed request once and reject its replay', async () => {
+    const { app } = setup()
+    const body = signed(moderator, 'listDisputes')
+
+    const first = await request(app).post('/disputes/queue').set('Authorization', 'Bearer mod-token').send(body)
+    const replay = await request(app).post('/disputes/queue').set('Authorization', 'Bearer mod-token').send(body)
+
+    expect(first.statusCode).toBe(200)
+    expect(first.body.disputes).toHaveLength(1)
+    expect(replay.statusCode).toBe(401)
+    expect(replay.body.error.key).toBe('errors.auth.signature_replayed')
+  })
+
+  it('should reject expired, forged and mismatched messages', async () => {
+    const { app } = setup()
+    const post = (body) => request(app).post('/disputes/queue').set('Authorization', 'Bearer mod-token').send(body)
+
+    const expired = await post(signed(moderator, 'listDisputes', Date.now() - 10 * 60 * 1000))
+    const forged = await post({ ...signed(buyer, 'listDisputes'), moderatorAddress: moderator.address })
+    const mismatch = await post(signed(moderator, 'assignDispute:dispute-1'))
+    const malformed = await post({ ...signed(moderator, 'listDisputes'), signature: '0x00' })
+
+    expect(expired.body.error.key).toBe('errors.auth.signature_expired')
+    expect(forged.body.error.key).toBe('errors.auth.invalid_signature')
+    expect(mismatch.body.error.key).toBe('errors.request.message_mismatch')
+    expect(malformed.statusCode).toBe(401)
+  })
+
+  it('should reject a moderator wallet not linked to the session user', async () => {
+    const { app } = setup()
+
+    const res = await request(app)
+      .post('/disputes/queue')
+      .set('Authorization', 'Bearer alt-token')
+      .send(signed(moderator, 'listDisputes'))
+
+    expect(res.statusCode).toBe(403)
+    expect(res.body.error.key).toBe('errors.auth.wallet_not_linked')
+  })
+})
+
+// ========================================
+// ARBITRATION
+// ========================================
+
+describe('Dispute arbitration', () => {
+  it('should not let a moderator take a trade they trade in from another account', async () => {
+    const { app, db } = setup({ trade: { buyer_wallet: moderator.address } })
+
+    const res = await request(app)
+      .post('/disputes/dispute-1/assign')
+      .set('Authorization', 'Bearer mod-token')
+      .send(signed(moderator, 'assignDispute:dispute-1'))
+
+    expect(res.statusCode).toBe(403)
+    expect(res.body.error.key).toBe('errors.dispute.moderator_is_party')
+    expect(db.tables.p2p_fiat_disputes[0].status).toBe('open')
+  })
+
+  it('should not let a moderator take a trade whose party account holds their wallet', async () => {
+    const { app } = setup({
+      wallets: [
+        { user_id: 'mod', address: moderator.address },
+        { user_id: 'seller', address: moderator.address }
+      ]
+    })
+
+    const res = await request(app)
+      .post('/disputes/dispute-1/assign')
+      .set('Authorization', 'Bearer mod-token')
+      .send(signed(moderator, 'assignDispute:dispute-1'))
+
+    expect(res.body.error.key).toBe('errors.dispute.moderator_is_party')
+  })
+
+  it('should assign, then settle the escrow and apply the outcome on resolution', async () => {
+    const { app, db, settlements } = setup()
+
+    const assigned = await request(app)
+      .post('/disputes/dispute-1/assign')
+      .set('Authorization', 'Bearer mod-token')
+      .send(signed(moderator, 'assignDispute:dispute-1'))
+
+    const resolved = await request(app)
+      .post('/disputes/dispute-1/resolve')
+      .set('Authorization', 'Bearer mod-token')
+      .send({
+        decision: 'refund_to_seller',
+        reasoning: 'Buyer never sent the bank transfer shown in the evidence.',
+        ...signed(moderator, 'resolveDispute:dispute-1:refund_to_seller')
+      })
+
+    expect(assigned.statusCode).toBe(200)
+    expect(resolved.statusCode).toBe(200)
+    expect(settlements).toEqual([{
+      tradeId: 'trade-1',
+      type: 'refund',
+      context: { dispute_id: 'dispute-1', moderator_id: 'mod' }
+    }])
+    expect(db.tables.p2p_fiat_disputes[0]).toMatchObject({ status: 'resolved', decision: 'refund_to_seller' })
+    expect(db.rpcCalls).toContainEqual({
+      name: 'apply_p2p_dispute_outcome',
+      args: { p_trade_id: 'trade-1', p_winner_id: 'seller', p_loser_id: 'buyer' }
+    })
+  })
+})
@@ -0,0 +1,466 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+import { createEscrowService, createEscrowRouter, fromPlanck, toPlanck } from '../src/escrow.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+let escrow
+let seller
+let stranger
+
+const codec = (value) => ({ toString: () => String(value), toNumber: () => Number(value), toBigInt: () => BigInt(value) })
+const eventType = (method) => ({ is: (event) => event.method === method })
+
+// The seller's deposit extrinsic 0x deposit in block 0xdeposit-block,
+// emitting `events` (PEZ transfers are assets.Transferred of asset 1)
+function depositOf (amount, { token = 'PEZ', success = true } = {}) {
+  const transfer = token === 'HEZ'
+    ? { method: 'Transfer', data: [codec(seller.address), codec(escrow.address), codec(amount)] }
+    : { method: 'Transferred', data: [codec(1), codec(seller.address), codec(escrow.address), codec(amount)] }
+  return { txHash: '0xdeposit', events: success ? [transfer, { method: 'ExtrinsicSuccess' }] : [transfer] }
+}
+
+// Minimal ApiPromise: transfers are recorded and land in a block unless
+// `failWith` names a dispatch error or `dropped` drops them from the pool.
+// Every block holds `deposit` and then the extrinsics in `landed`; the
+// deposit block 0xdeposit-block is canonical at height `depositHeight`.
+function createFakeApi ({ failWith, dropped, deposit } = {}) {
+  const sent = []
+  const landed = []
+
+  const makeTx = (section, args) => {
+    const hash = `0x${section}-${sent.length}`
+    const tx = {
+      section,
+      args,
+      hash: { toHex: () => hash },
+      signAsync: async () => tx,
+      send: async (callback) => {
+        sent.push(tx)
+        if (dropped) {
+          callback({ status: { isDropped: true, type: 'Dropped' } })
+        } else {
+          callback(failWith
+            ? { status: {}, dispatchError: { isModule: false, toString: () => failWith } }
+            : { status: { isInBlock: true, asInBlock: { toHex: () => '0xblock' } } })
+        }
+        return () => {}
+      }
+    }
+    return tx
+  }
+
+  const api = {
+    sent,
+    landed,
+    finalized: 100,
+    depositHeight: 50,
+    tx: {
+      balances: { transferKeepAlive: (dest, amount) => makeTx('balances', [dest, amount]) },
+      assets: { transferKeepAlive: (assetId, dest, amount) => makeTx('assets', [assetId, dest, amount]) }
+    },
+    rpc: {
+      chain: {
+        getFinalizedHead: async () => '0xfinalized',
+        getHeader: async (hash) => ({ number: codec(hash === '0xdeposit-block' ? api.depositHeight : api.finalized) }),
+        getBlockHash: async (number) => ({
+          toHex: () => number === api.depositHeight ? '0xdeposit-block' : `0xblock-${number}`
+        }),
+        getBlock: async () => ({
+          block: {
+            extrinsics: [
+              ...(deposit ? [{ hash: { toHex: () => deposit.txHash }, isSigned: true, signer: codec(seller.address) }] : []),
+              ...landed
+            ]
+          }
+        })
+      }
+    },
+    at: async () => ({
+      query: {
+        system: {
+          events: async () => (deposit?.events ?? []).map((event) => ({
+            phase: { isApplyExtrinsic: true, asApplyExtrinsic: { eqn: (index) => index === 0 } },
+            event
+          }))
+        }
+      }
+    }),
+    events: {
+      system: { ExtrinsicSuccess: eventType('ExtrinsicSuccess'), ExtrinsicFailed: eventType('ExtrinsicFailed') },
+      balances: { Transfer: eventType('Transfer') },
+      assets: { Transferred: eventType('Transferred') }
+    }
+  }
+  return api
+}
+
+function setup ({ trade = {}, offer = {}, offers = [], api = createFakeApi() } = {}) {
+  const { client, db } = createFakeSupabase({
+    tables: {
+      p2p_fiat_offers: [{
+        id: 'offer-1',
+        token: 'PEZ',
+        seller_wallet: seller.address,
+        escrow_verified_at: '2026-01-01T00:00:00Z',
+        ...offer
+      }, ...offers],
+      p2p_fiat_trades: [{
+        id: 'trade-1',
+        offer_id: 'offer-1',
+        seller_id: 'seller',
+        buyer_id: 'buyer',
+        buyer_wallet: '5Buyer',
+        crypto_amount: '2.5',
+        escrow_locked_amount: '2.5',
+        status: 'payment_sent',
+        escrow_release_tx_hash: null,
+        escrow_settlement_status: null,
+        ...trade
+      }]
+    }
+  })
+
+  const service = createEscrowService({
+    supabase: client,
+    getApi: () => api,
+    getEscrowAccount: () => escrow,
+    logger
+  })
+
+  return { service, db, api }
+}
+
+// Offer 1 waits for its 10 PEZ deposit
+function setupDeposit ({ deposit, offer = {}, offers = [] } = {}) {
+  return setup({
+    offer: {
+      status: 'pending_escrow',
+      amount_crypto: '10',
+      remaining_amount: '10',
+      escrow_tx_hash: '0xdeposit',
+      escrow_block_hash: '0xdeposit-block',
+      escrow_verified_at: null,
+      escrow_refund_status: null,
+      ...offer
+    },
+    offers,
+    api: createFakeApi({ deposit })
+  })
+}
+
+function signedRefund (pair, offerId = 'offer-1') {
+  const nonce = u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+  const message = `refundDeposit:${offerId}:${Date.now()}:${nonce}`
+  return { offerId, signerAddress: pair.address, message, signature: u8aToHex(pair.sign(message)) }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  escrow = keyring.addFromUri('//Escrow')
+  seller = keyring.addFromUri('//Seller')
+  stranger = keyring.addFromUri('//Stranger')
+})
+
+// ========================================
+// SETTLEMENT
+// ========================================
+
+describe('Escrow settlement', () => {
+  it('should pay the locked amount to the buyer wallet and complete the trade', async () => {
+    const { service, db, api } = setup()
+
+    const result = await service.settleTrade('trade-1', 'release')
+
+    expect(result).toMatchObject({ ok: true, blockHash: '0xblock' })
+    expect(api.sent).toHaveLength(1)
+    expect(api.sent[0].args).toEqual([1, '5Buyer', 2500000000000n])
+
+    const trade = db.tables.p2p_fiat_trades[0]
+    expect(trade.status).toBe('completed')
+    expect(trade.escrow_settlement_status).toBe('included')
+    expect(trade.escrow_release_tx_hash).toBe(result.txHash)
+    expect(db.rpcCalls.map(call => call.name)).toEqual(['decrement_escrow_balance', 'update_p2p_reputation'])
+  })
+
+  it('should return the recorded transfer on retry instead of signing again', async () => {
+    const { service, api } = setup()
+
+    const first = await service.settleTrade('trade-1', 'release')
+    const retry = await service.settleTrade('trade-1', 'release')
+    const other = await service.settleTrade('trade-1', 'refund')
+
+    expect(retry).toMatchObject({ ok: true, txHash: first.txHash, alreadySettled: true })
+    expect(other).toMatchObject({ ok: false, status: 409, key: 'errors.escrow.already_settled' })
+    expect(api.sent).toHaveLength(1)
+  })
+
+  it('should refuse trades whose offer deposit was never verified', async () => {
+    const { service, api } = setup({ offer: { escrow_verified_at: null } })
+
+    const result = await service.settleTrade('trade-1', 'release')
+
+    expect(result).toMatchObject({ ok: false, status: 409, key: 'errors.escrow.deposit_not_verified' })
+    expect(api.sent).toHaveLength(0)
+  })
+
+  it('should refuse statuses the settlement cannot start from', async () => {
+    const { service, api } = setup({ trade: { status: 'pending' } })
+
+    const release = await service.settleTrade('trade-1', 'release')
+
+    expect(release).toMatchObject({ ok: false, key: 'errors.escrow.invalid_trade_status' })
+    expect(api.sent).toHaveLength(0)
+  })
+
+  it('should not sign while another settlement holds the claim', async () => {
+    const { service, api } = setup({ trade: { escrow_settlement_status: 'signing' } })
+
+    const result = await service.settleTrade('trade-1', 'release')
+
+    expect(result).toMatchObject({ ok: false, key: 'errors.escrow.settlement_in_progress' })
+    expect(api.sent).toHaveLength(0)
+  })
+
+  it('should mark a rejected transfer as failed and clear its hash', async () => {
+    const { service, db } = setup({ api: createFakeApi({ failWith: 'BadOrigin' }) })
+
+    const result = await service.settleTrade('trade-1', 'refund')
+
+    expect(result).toMatchObject({ ok: false, status: 502, key: 'errors.escrow.tx_failed' })
+    const trade = db.tables.p2p_fiat_trades[0]
+    expect(trade.status).toBe('payment_sent')
+    expect(trade.escrow_settlement_status).toBe('failed')
+    expect(trade.escrow_release_tx_hash).toBeNull()
+  })
+
+  it('should keep a dropped transfer submitted instead of signing another', async () => {
+    const { service, db, api } = setup({ api: createFakeApi({ dropped: true }) })
+
+    const result = await service.settleTrade('trade-1', 'release')
+    const retry = await service.settleTrade('trade-1', 'release')
+
+    expect(result).toMatchObject({ ok: true, pending: true })
+    expect(retry).toMatchObject({ ok: true, txHash: result.txHash, alreadySettled: true, pending: true })
+    expect(db.tables.p2p_fiat_trades[0]).toMatchObject({
+      status: 'payment_sent',
+      escrow_settlement_status: 'submitted',
+      escrow_release_tx_hash: result.txHash
+    })
+    expect(db.tables.p2p_escrow_submissions[0]).toMatchObject({ tx_hash: result.txHash, kind: 'settle_trade', from_block: 100 })
+    expect(db.tables.p2p_escrow_submissions[0].resolved_at).toBeUndefined()
+    expect(api.sent).toHaveLength(1)
+    expect(db.rpcCalls).toHaveLength(0)
+  })
+
+  it('should complete a dropped transfer once reconciliation finds it finalized', async () => {
+    const { service, db, api } = setup({ api: createFakeApi({ dropped: true }) })
+
+    const result = await service.settleTrade('trade-1', 'release')
+    expect(await service.reconcileSubmissions()).toEqual([])
+
+    api.landed.push(api.sent[0])
+    api.finalized = 101
+    const reconciled = await service.reconcileSubmissions()
+    const again = await service.reconcileSubmissions()
+
+    expect(reconciled).toEqual([{ txHash: result.txHash, kind: 'settle_trade', outcome: 'included' }])
+    expect(again).toEqual([])
+    expect(db.tables.p2p_fiat_trades[0]).toMatchObject({
+      status: 'completed',
+      escrow_settlement_status: 'included',
+      escrow_release_tx_hash: result.txHash
+    })
+    expect(db.rpcCalls.map(call => call.name)).toEqual(['decrement_escrow_balance', 'update_p2p_reputation'])
+  })
+
+  it('should fail a dropped transfer only once it has expired', async () => {
+    const { service, db, api } = setup({ api: createFakeApi({ dropped: true }) })
+
+    await service.settleTrade('trade-1', 'refund')
+    api.finalized = 227
+    expect(await service.reconcileSubmissions()).toEqual([])
+
+    api.finalized = 228
+    const [reconciled] = await service.reconcileSubmissions()
+
+    expect(reconciled).toMatchObject({ kind: 'settle_trade', outcome: 'failed' })
+    expect(db.tables.p2p_fiat_trades[0]).toMatchObject({
+      status: 'payment_sent',
+      escrow_settlement_status: 'failed',
+      escrow_settlement_error: 'Transaction expired',
+      escrow_release_tx_hash: null
+    })
+    expect(db.rpcCalls).toHaveLength(0)
+  })
+})
+
+// ========================================
+// UNVERIFIED DEPOSITS
+// ========================================
+
+describe('Unverified deposit refunds', () => {
+  it('should return what a mismatched deposit moved and cancel the offer', async () => {
+    const { service, db, api } = setupDeposit({ deposit: depositOf(9_000_000_000_000n) })
+
+    const result = await service.refundDeposit('offer-1')
+
+    expect(result).toMatchObject({ ok: true, blockHash: '0xblock' })
+    expect(api.sent).toHaveLength(1)
+    expect(api.sent[0].args).toEqual([1, seller.address, 9_000_000_000_000n])
+    expect(db.tables.p2p_fiat_offers[0]).toMatchObject({
+      status: 'cancelled',
+      remaining_amount: 0,
+      escrow_refund_status: 'included',
+      escrow_refund_tx_hash: result.txHash
+    })
+    // Never counted in the escrow balance
+    expect(db.rpcCalls).toHaveLength(0)
+  })
+
+  it('should refund a cancelled offer\'s deposit even when it matched', async () => {
+    const { service, api } = setupDeposit({ deposit: depositOf(10_000_000_000_000n), offer: { status: 'cancelled' } })
+
+    const result = await service.refundDeposit('offer-1')
+
+    expect(result.ok).toBe(true)
+    expect(api.sent[0].args).toEqual([1, seller.address, 10_000_000_000_000n])
+  })
+
+  it('should send a pending deposit that verifies to verification instead', async () => {
+    const { service, api } = setupDeposit({ deposit: depositOf(10_000_000_000_000n) })
+
+    const result = await service.refundDeposit('offer-1')
+
+    expect(result).toMatchObject({ ok: false, status: 409, key: 'errors.escrow.deposit_verifiable' })
+    expect(api.sent).toHaveLength(0)
+  })
+
+  it('should refuse deposits that back a verified offer or moved nothing', async () => {
+    const used = setupDeposit({
+      deposit: depositOf(9_000_000_000_000n),
+      offers: [{ id: 'offer-2', escrow_tx_hash: '0xdeposit', escrow_verified_at: '2026-01-01T00:00:00Z' }]
+    })
+    const failed = setupDeposit({ deposit: depositOf(9_000_000_000_000n, { success: false }) })
+    const missing = setupDeposit()
+
+    expect(await used.service.refundDeposit('offer-1')).toMatchObject({ key: 'errors.escrow.deposit_already_used' })
+    expect(await failed.service.refundDeposit('offer-1')).toMatchObject({ key: 'errors.escrow.deposit_failed' })
+    expect(await missing.service.refundDeposit('offer-1')).toMatchObject({ key: 'errors.escrow.deposit_not_found' })
+    expect([...used.api.sent, ...failed.api.sent, ...missing.api.sent]).toHaveLength(0)
+  })
+
+  it('should only trust deposits in finalized blocks of the canonical chain', async () => {
+    const unfinalized = setupDeposit({ deposit: depositOf(9_000_000_000_000n) })
+    unfinalized.api.depositHeight = 101
+    const fork = setupDeposit({ deposit: depositOf(10_000_000_000_000n) })
+    fork.api.rpc.chain.getBlockHash = async () => ({ toHex: () => '0xcanonical' })
+
+    expect(await unfinalized.service.refundDeposit('offer-1')).toMatchObject({ key: 'errors.escrow.deposit_not_finalized' })
+    expect(await fork.service.verifyOfferEscrow('offer-1')).toMatchObject({ key: 'errors.escrow.deposit_not_finalized' })
+    expect(fork.db.tables.p2p_fiat_offers[0].status).toBe('pending_escrow')
+    expect([...unfinalized.api.sent, ...fork.api.sent]).toHaveLength(0)
+  })
+
+  it('should not refund twice or verify a deposit that was refunded', async () => {
+    const { service, db, api } = setupDeposit({
+      deposit: depositOf(10_000_000_000_000n),
+      offer: { status: 'cancelled' },
+      offers: [{
+        id: 'offer-2',
+        seller_wallet: seller.address,
+        token: 'PEZ',
+        status: 'pending_escrow',
+        amount_crypto: '10',
+        escrow_tx_hash: '0xdeposit',
+        escrow_block_hash: '0xdeposit-block',
+        escrow_verified_at: null,
+        escrow_refund_status: null
+      }]
+    })
+
+    await service.refundDeposit('offer-1')
+    const retry = await service.refundDeposit('offer-1')
+    const verify = await service.verifyOfferEscrow('offer-2')
+
+    expect(retry).toMatchObject({ ok: false, status: 409 })
+    expect(verify).toMatchObject({ ok: false, status: 409, key: 'errors.escrow.deposit_refunded' })
+    expect(db.tables.p2p_fiat_offers[1].status).toBe('pending_escrow')
+    expect(api.sent).toHaveLength(1)
+  })
+})
+
+// ========================================
+// AMOUNTS
+// ========================================
+
+describe('toPlanck', () => {
+  it('should convert NUMERIC strings exactly', () => {
+    expect(toPlanck('123456789.123456789012')).toBe(123456789123456789012n)
+    expect(toPlanck('90071992547409.93')).toBe(90071992547409930000000000n)
+    expect(fromPlanck(toPlanck('0.000000000001'))).toBe('0.000000000001')
+  })
+
+  it('should accept numbers in exponent notation', () => {
+    expect(toPlanck(1e-7)).toBe(100000n)
+    expect(toPlanck(2.5)).toBe(2500000000000n)
+  })
+
+  it('should reject amounts finer than one planck or not a number', () => {
+    expect(() => toPlanck('0.0000000000001')).toThrow()
+    expect(() => toPlanck('-1')).toThrow()
+    expect(() => toPlanck('abc')).toThrow()
+  })
+})
+
+// ========================================
+// ROUTES
+// ========================================
+
+describe('Escrow routes', () => {
+  it('should reject requests without a signed message', async () => {
+    const { service, api } = setup()
+    const app = express().use(express.json()).use('/escrow', createEscrowRouter(service, { logger }))
+
+    const res = await request(app)
+      .post('/escrow/release')
+      .send({ tradeId: 'trade-1', signerAddress: '5Seller' })
+
+    expect(res.statusCode).toBe(400)
+    expect(res.body.error.key).toBe('errors.request.missing_fields')
+    expect(api.sent).toHaveLength(0)
+  })
+
+  it('should refund a deposit only to its seller', async () => {
+    const { service, api } = setupDeposit({ deposit: depositOf(9_000_000_000_000n) })
+    const app = express().use(express.json()).use('/escrow', createEscrowRouter(service, { logger }))
+
+    const stolen = await request(app).post('/escrow/refund-deposit').send(signedRefund(stranger))
+    const forged = await request(app).post('/escrow/refund-deposit').send({ ...signedRefund(stranger), signerAddress: seller.address })
+    const res = await request(app).post('/escrow/refund-deposit').send(signedRefund(seller))
+
+    expect(stolen.body.error.key).toBe('errors.auth.not_offer_seller')
+    expect(forged.body.error.key).toBe('errors.auth.invalid_signature')
+    expect(res.statusCode).toBe(200)
+    expect(api.sent).toHaveLength(1)
+  })
+
+  it('should publish the escrow signer address', async () => {
+    const { service } = setup()
+    const app = express().use(express.json()).use('/escrow', createEscrowRouter(service, { logger }))
+
+    const res = await request(app).get('/escrow/address')
+
+    expect(res.body).toEqual({ address: escrow.address })
+  })
+})
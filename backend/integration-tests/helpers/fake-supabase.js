@@ -0,0 +1,272 @@
+import { randomUUID } from 'node:crypto'
+
+// ========================================
+// IN-MEMORY SUPABASE CLIENT
+// ========================================
+// Enough of the supabase-js query builder for the backend services:
+// filters (including `or` strings), ordering, limits, single rows,
+// counts, to-one / to-many embeds, mutations returning rows, RPC stubs
+// and auth.getUser. Rows live in `db.tables` so tests can seed and
+// inspect them directly.
+
+const compare = (a, b) => {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b)
+  return String(a).localeCompare(String(b))
+}
+
+function parseValue (value) {
+  if (value === 'null') return null
+  if (value === 'true') return true
+  if (value === 'false') return false
+  return value
+}
+
+// Split on commas outside parentheses
+function splitTopLevel (text) {
+  const parts = []
+  let depth = 0
+  let current = ''
+  for (const char of text) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+  return parts.map(part => part.trim())
+}
+
+function matches (row, column, op, value) {
+  const actual = row[column]
+  switch (op) {
+    case 'eq': return actual !== null && actual !== undefined && compare(actual, value) === 0
+    case 'neq': return actual === null || actual === undefined || compare(actual, value) !== 0
+    case 'is': return value === null ? actual === null || actual === undefined : actual === value
+    case 'in': return value.some(v => actual !== null && actual !== undefined && compare(actual, v) === 0)
+    case 'gt': return actual !== null && actual !== undefined && compare(actual, value) > 0
+    case 'gte': return actual !== null && actual !== undefined && compare(actual, value) >= 0
+    case 'lt': return actual !== null && actual !== undefined && compare(actual, value) < 0
+    case 'lte': return actual !== null && actual !== undefined && compare(actual, value) <= 0
+    case 'contains': return Array.isArray(actual) && value.every(v => actual.includes(v))
+    default: throw new Error(`Unsupported filter operator: ${op}`)
+  }
+}
+
+function parseOrCondition (condition) {
+  const group = condition.match(/^(and|or)\((.*)\)$/)
+  if (group) {
+    const parts = splitTopLevel(group[2]).map(parseOrCondition)
+    return group[1] === 'and'
+      ? row => parts.every(test => test(row))
+      : row => parts.some(test => test(row))
+  }
+
+  const [column, op, ...rest] = condition.split('.')
+  const raw = rest.join('.')
+  const value = op === 'in'
+    ? raw.replace(/^\(|\)$/g, '').split(',').map(parseValue)
+    : parseValue(raw)
+  return row => matches(row, column, op, value)
+}
+
+// "*, offer:p2p_fiat_offers ( token, trade:x ( * ) )" -> [{ alias, table, columns }]
+function parseEmbeds (columns) {
+  const embeds = []
+  for (const part of splitTopLevel(columns || '*')) {
+    const embed = part.match(/^(\w+):(\w+)\s*\(([\s\S]*)\)$/)
+    if (embed) embeds.push({ alias: embed[1], table: embed[2], columns: embed[3] })
+  }
+  return embeds
+}
+
+// dex_orders -> order_id, p2p_fiat_trades -> trade_id
+const foreignKeyOf = (table) => `${table.split('_').pop().replace(/s$/, '')}_id`
+
+export function createFakeSupabase ({ tables = {}, rpc = {}, users = {} } = {}) {
+  const db = {
+    tables: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.map(row => ({ ...row }))])),
+    rpcCalls: []
+  }
+
+  const tableRows = (name) => {
+    if (!db.tables[name]) db.tables[name] = []
+    return db.tables[name]
+  }
+
+  function embed (table, row, columns) {
+    const result = { ...row }
+    for (const { alias, table: target, columns: inner } of parseEmbeds(columns)) {
+      const targetRows = tableRows(target)
+      if (`${alias}_id` in row) {
+        const related = targetRows.find(other => other.id === row[`${alias}_id`])
+        result[alias] = related ? embed(target, related, inner) : null
+      } else {
+        const key = foreignKeyOf(table)
+        result[alias] = targetRows.filter(other => other[key] === row.id).map(other => embed(target, other, inner))
+      }
+    }
+    return result
+  }
+
+  class Query {
+    constructor (table) {
+      this.table = table
+      this.action = 'select'
+      this.filters = []
+      this.orders = []
+      this.columns = null
+      this.returning = false
+    }
+
+    select (columns = '*', options = {}) {
+      this.columns = columns
+      this.returning = true
+      this.count = options.count
+      this.head = options.head
+      return this
+    }
+
+    insert (values) {
+      this.action = 'insert'
+      this.values = values
+      return this
+    }
+
+    upsert (values, options = {}) {
+      this.action = 'upsert'
+      this.values = values
+      this.onConflict = options.onConflict || 'id'
+      return this
+    }
+
+    update (values) {
+      this.action = 'update'
+      this.values = values
+      return this
+    }
+
+    delete () {
+      this.action = 'delete'
+      return this
+    }
+
+    filter (column, op, value) {
+      this.filters.push(row => matches(row, column, op, value))
+      return this
+    }
+
+    eq (column, value) { return this.filter(column, 'eq', value) }
+    neq (column, value) { return this.filter(column, 'neq', value) }
+    in (column, values) { return this.filter(column, 'in', values) }
+    is (column, value) { return this.filter(column, 'is', value) }
+    gt (column, value) { return this.filter(column, 'gt', value) }
+    gte (column, value) { return this.filter(column, 'gte', value) }
+    lt (column, value) { return this.filter(column, 'lt', value) }
+    lte (column, value) { return this.filter(column, 'lte', value) }
+    contains (column, value) { return this.filter(column, 'contains', value) }
+
+    not (column, op, value) {
+      this.filters.push(row => !matches(row, column, op, value))
+      return this
+    }
+
+    or (conditions) {
+      const tests = splitTopLevel(conditions).map(parseOrCondition)
+      this.filters.push(row => tests.some(test => test(row)))
+      return this
+    }
+
+    order (column, { ascending = true, referencedTable } = {}) {
+      if (!referencedTable) this.orders.push({ column, ascending })
+      return this
+    }
+
+    limit (count) {
+      this.limitCount = count
+      return this
+    }
+
+    single () {
+      this.cardinality = 'single'
+      return this
+    }
+
+    maybeSingle () {
+      this.cardinality = 'maybeSingle'
+      return this
+    }
+
+    then (resolve, reject) {
+      return Promise.resolve().then(() => this.execute()).then(resolve, reject)
+    }
+
+    execute () {
+      const rows = tableRows(this.table)
+      const selected = () => rows.filter(row => this.filters.every(test => test(row)))
+      let data
+
+      if (this.action === 'insert' || this.action === 'upsert') {
+        const values = Array.isArray(this.values) ? this.values : [this.values]
+        data = values.map(value => {
+          const existing = this.action === 'upsert' && rows.find(row => row[this.onConflict] === value[this.onConflict])
+          if (existing) return Object.assign(existing, value)
+          const row = { id: randomUUID(), created_at: new Date().toISOString(), ...value }
+          rows.push(row)
+          return row
+        })
+      } else if (this.action === 'update') {
+        data = selected().map(row => Object.assign(row, this.values))
+      } else if (this.action === 'delete') {
+        data = selected()
+        db.tables[this.table] = rows.filter(row => !data.includes(row))
+      } else {
+        data = selected()
+      }
+
+      if (this.action !== 'select' && !this.returning) return { data: null, error: null }
+      if (this.head) return { data: null, count: data.length, error: null }
+
+      for (const { column, ascending } of [...this.orders].reverse()) {
+        data = [...data].sort((a, b) => (ascending ? 1 : -1) * compare(a[column] ?? '', b[column] ?? ''))
+      }
+      if (this.limitCount !== undefined) data = data.slice(0, this.limitCount)
+      data = data.map(row => embed(this.table, row, this.columns))
+
+      if (this.cardinality === 'single') {
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: { code: 'PGRST116', message: `Expected 1 row, got ${data.length}` } }
+      }
+      if (this.cardinality === 'maybeSingle') {
+        return data.length <= 1
+          ? { data: data[0] ?? null, error: null }
+          : { data: null, error: { code: 'PGRST116', message: `Expected at most 1 row, got ${data.length}` } }
+      }
+      return { data, count: this.count ? data.length : undefined, error: null }
+    }
+  }
+
+  const client = {
+    from: (table) => new Query(table),
+    rpc: async (name, args) => {
+      db.rpcCalls.push({ name, args })
+      if (!rpc[name]) return { data: null, error: null }
+      try {
+        return { data: await rpc[name](args, db), error: null }
+      } catch (error) {
+        return { data: null, error }
+      }
+    },
+    auth: {
+      getUser: async (token) => users[token]
+        ? { data: { user: users[token] }, error: null }
+        : { data: { user: null }, error: { message: 'Invalid token' } }
+    }
+  }
+
+  return { client, db }
+}
@@ -0,0 +1,156 @@
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { cryptoWaitReady, encodeAddress, decodeAddress } from '@polkadot/util-crypto'
+import { createIndexerService, parseTransactionQuery } from '../src/indexer.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+const CHAIN_SS58 = 0
+const BLOCK = 12
+
+let alice
+let bob
+const onChain = (address) => encodeAddress(decodeAddress(address), CHAIN_SS58)
+
+const codec = (value) => ({ toString: () => String(value), toHex: () => String(value), toNumber: () => Number(value) })
+
+const extrinsic = ({ section, method, signer, args = [] }) => ({
+  isSigned: Boolean(signer),
+  signer: codec(signer),
+  hash: codec(`0x${section}-${method}`),
+  method: { section, method, args: args.map(codec) }
+})
+
+const record = (phase, section, method, data) => ({
+  phase: {
+    isApplyExtrinsic: typeof phase === 'number',
+    asApplyExtrinsic: { eq: (i) => i === phase },
+    isInitialization: phase === 'init',
+    isFinalization: phase === 'final'
+  },
+  event: { section, method, data: data.map(codec) }
+})
+
+// One finalized block: timestamp inherent, an XCM mint applied by the
+// parachain inherent, a signed transfer, and a mint during initialization.
+// Signers and event accounts come in the generic (42) format.
+function createFakeApi () {
+  const extrinsics = [
+    extrinsic({ section: 'timestamp', method: 'set', args: [Date.parse('2026-03-01T00:00:00Z')] }),
+    extrinsic({ section: 'parachainSystem', method: 'setValidationData' }),
+    extrinsic({ section: 'balances', method: 'transferKeepAlive', signer: alice.address })
+  ]
+  const records = [
+    record('init', 'assets', 'Issued', [1000, bob.address, 500]),
+    record(0, 'system', 'ExtrinsicSuccess', []),
+    record(1, 'assets', 'Issued', [1000, alice.address, 2500000]),
+    record(1, 'system', 'ExtrinsicSuccess', []),
+    record(2, 'balances', 'Transfer', [alice.address, bob.address, 7]),
+    record(2, 'system', 'ExtrinsicSuccess', []),
+    record('final', 'system', 'Remarked', [])
+  ]
+
+  const events = async () => records
+  events.at = async () => records
+
+  return {
+    registry: { chainSS58: CHAIN_SS58 },
+    events: { system: { ExtrinsicFailed: { is: (event) => event.method === 'ExtrinsicFailed' } } },
+    query: { system: { events } },
+    rpc: {
+      chain: {
+        getFinalizedHead: async () => codec('0xhead'),
+        getHeader: async () => ({ number: codec(BLOCK) }),
+        getBlockHash: async (n) => codec(`0xblock-${n}`),
+        getBlock: async () => ({ block: { extrinsics } })
+      }
+    }
+  }
+}
+
+function setup () {
+  const { client, db } = createFakeSupabase({
+    tables: { indexed_transactions: [], indexer_state: [], dex_swaps: [], liquidity_events: [] }
+  })
+  const api = createFakeApi()
+  const service = createIndexerService({ supabase: client, getApi: () => api, startBlock: BLOCK, logger })
+  return { service, db }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  alice = keyring.addFromUri('//Alice')
+  bob = keyring.addFromUri('//Bob')
+})
+
+// ========================================
+// BLOCK READING
+// ========================================
+
+describe('Indexer block reading', () => {
+  it('should index unsigned and block-level mints alongside signed extrinsics', async () => {
+    const { service, db } = setup()
+
+    expect(await service.catchUp()).toBe(3)
+
+    const rows = Object.fromEntries(db.tables.indexed_transactions.map(row => [row.id, row]))
+    expect(Object.keys(rows).sort()).toEqual(['12-1', '12-2', '12-init'])
+
+    expect(rows['12-init']).toMatchObject({
+      phase: 'initialization',
+      extrinsic_index: -1,
+      hash: '0xblock-12',
+      section: 'assets',
+      method: 'Issued',
+      signer: null,
+      accounts: [onChain(bob.address)]
+    })
+    expect(rows['12-1']).toMatchObject({
+      phase: 'apply_extrinsic',
+      section: 'parachainSystem',
+      signer: null,
+      transfers: [{ asset: '1000', from: null, to: onChain(alice.address), amount: '2500000' }]
+    })
+    expect(rows['12-2']).toMatchObject({
+      signer: onChain(alice.address),
+      accounts: [onChain(alice.address), onChain(bob.address)]
+    })
+  })
+})
+
+// ========================================
+// QUERIES
+// ========================================
+
+describe('Indexer queries', () => {
+  it('should find an account given in any SS58 format', async () => {
+    const { service } = setup()
+    await service.catchUp()
+
+    const generic = await service.query({ account: bob.address })
+    const chain = await service.query({ account: onChain(bob.address) })
+
+    expect(generic.transactions.map(tx => tx.id)).toEqual(['12-2', '12-init'])
+    expect(chain.transactions.map(tx => tx.id)).toEqual(['12-2', '12-init'])
+  })
+
+  it('should page past block initialization rows', async () => {
+    const { service } = setup()
+    await service.catchUp()
+
+    const first = await service.query({ limit: 2 })
+    const second = await service.query({ limit: 2, cursor: first.nextCursor })
+
+    expect(first.transactions.map(tx => tx.id)).toEqual(['12-2', '12-1'])
+    expect(first.nextCursor).toBe('12-1')
+    expect(second.transactions.map(tx => tx.id)).toEqual(['12-init'])
+    expect(second.nextCursor).toBeNull()
+    expect(parseTransactionQuery({ cursor: '12--1' }).ok).toBe(true)
+    expect(parseTransactionQuery({ cursor: '12-x' }).ok).toBe(false)
+  })
+})
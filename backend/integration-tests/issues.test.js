@@ -0,0 +1,202 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { stringToU8a, u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady, encodeAddress } from '@polkadot/util-crypto'
+import { createIssueService, createIssueRouter } from '../src/issues.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+let healthMinister
+let financeMinister
+let supporter
+let opponent
+
+const codec = (value) => ({ toString: () => String(value) })
+
+function signedRegion (pair, issueId, region, address = pair.address) {
+  const nonce = u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+  const message = `setIssueRegion:${issueId}:${region}:${Date.now()}:${nonce}`
+  return { region, address, message, signature: u8aToHex(pair.sign(message)) }
+}
+
+// Issue 0 is a healthcare issue submitted by the supporter, issue 1 one
+// submitted by the opponent. The supporter voted for issue 0, the opponent
+// against it.
+function createFakeApi () {
+  const issues = {
+    0: { submitter: supporter.address, category: 'Healthcare' },
+    1: { submitter: opponent.address, category: 'Healthcare' }
+  }
+  const tikis = {
+    [healthMinister.address]: ['WezireTend'],
+    [financeMinister.address]: [37]
+  }
+  const votes = [[supporter.address, 0, true], [opponent.address, 0, false], [opponent.address, 1, true]]
+
+  const query = {
+    welati: {
+      issues: async (id) => ({ isEmpty: !issues[id], unwrap: () => ({ toJSON: () => issues[id] }) }),
+      issueVotes: {
+        entries: async () => votes.map(([who, id, support]) => [{ args: [codec(who), codec(id)] }, { toJSON: () => support }])
+      }
+    },
+    tiki: {
+      userTikis: async (address) => ({ isEmpty: !tikis[address], toJSON: () => tikis[address] ?? [] })
+    }
+  }
+
+  return {
+    query,
+    rpc: {
+      chain: {
+        getFinalizedHead: async () => ({ toHex: () => '0xfinalized' }),
+        getHeader: async () => ({ number: { toNumber: () => 40 } })
+      }
+    },
+    at: async () => ({ query })
+  }
+}
+
+function signedUpdate (pair, fields = {}) {
+  const update = { issueId: 0, kind: 'status', status: 'InProgress', note: 'Clinic visit scheduled', issuedAt: Date.now(), ...fields }
+  const message = 'pezkuwi-issue-update:v1:' + JSON.stringify([
+    update.issueId, update.kind, update.status ?? null, update.mergedInto ?? null, update.note, update.issuedAt
+  ])
+  return { ...update, actorAddress: pair.address, signature: u8aToHex(pair.sign(stringToU8a(message))) }
+}
+
+function setup () {
+  const { client, db } = createFakeSupabase({
+    tables: { citizen_issue_updates: [], citizen_issue_regions: [] },
+    rpc: { notify_issue_supporters: ({ p_supporters: supporters }) => supporters.length }
+  })
+  const service = createIssueService({ supabase: client, getApi: createFakeApi, logger })
+  const app = express().use(express.json()).use('/issues', createIssueRouter(service, { logger }))
+  return { app, db }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  healthMinister = keyring.addFromUri('//HealthMinister')
+  financeMinister = keyring.addFromUri('//FinanceMinister')
+  supporter = keyring.addFromUri('//Supporter')
+  opponent = keyring.addFromUri('//Opponent')
+})
+
+// ========================================
+// PUBLISHING
+// ========================================
+
+describe('Issue update publishing', () => {
+  it('should store a responsible minister\'s update and notify the chain supporters only', async () => {
+    const { app, db } = setup()
+
+    const res = await request(app)
+      .post('/issues/updates')
+      .send({ ...signedUpdate(healthMinister), supporters: [opponent.address] })
+
+    expect(res.statusCode).toBe(201)
+    expect(res.body.notified).toBe(1)
+    expect(db.tables.citizen_issue_updates).toHaveLength(1)
+    expect(db.tables.citizen_issue_updates[0]).toMatchObject({
+      issue_id: 0,
+      status: 'InProgress',
+      actor_address: healthMinister.address,
+      block_number: 40,
+      block_hash: '0xfinalized'
+    })
+    expect(db.rpcCalls).toEqual([{
+      name: 'notify_issue_supporters',
+      args: { p_update_id: res.body.update.id, p_supporters: [supporter.address] }
+    }])
+  })
+
+  it('should not notify anyone of a response', async () => {
+    const { app, db } = setup()
+
+    const res = await request(app)
+      .post('/issues/updates')
+      .send(signedUpdate(healthMinister, { kind: 'response', status: undefined, note: 'We are on it' }))
+
+    expect(res.statusCode).toBe(201)
+    expect(db.rpcCalls).toHaveLength(0)
+  })
+
+  it('should refuse updates from other ministries and forged or stale signatures', async () => {
+    const { app, db } = setup()
+    const update = signedUpdate(healthMinister)
+
+    const otherMinistry = await request(app).post('/issues/updates').send(signedUpdate(financeMinister))
+    const citizen = await request(app).post('/issues/updates').send(signedUpdate(supporter))
+    const forged = await request(app).post('/issues/updates').send({ ...update, status: 'Resolved' })
+    const stale = await request(app).post('/issues/updates').send(signedUpdate(healthMinister, { issuedAt: Date.now() - 60 * 60 * 1000 }))
+    const unknownIssue = await request(app).post('/issues/updates').send(signedUpdate(healthMinister, { kind: 'merge', status: undefined, mergedInto: 7 }))
+
+    expect(otherMinistry.statusCode).toBe(403)
+    expect(citizen.statusCode).toBe(403)
+    expect(forged.body.error.key).toBe('errors.auth.invalid_signature')
+    expect(stale.body.error.key).toBe('errors.auth.signature_expired')
+    expect(unknownIssue.statusCode).toBe(404)
+    expect(db.tables.citizen_issue_updates).toHaveLength(0)
+    expect(db.rpcCalls).toHaveLength(0)
+  })
+
+  it('should refuse a replayed update however its signature is encoded', async () => {
+    const { app, db } = setup()
+    const update = signedUpdate(healthMinister)
+    const upperCased = { ...update, signature: '0x' + update.signature.slice(2).toUpperCase() }
+
+    const first = await request(app).post('/issues/updates').send(update)
+    const replay = await request(app).post('/issues/updates').send(upperCased)
+    const otherFormat = await request(app)
+      .post('/issues/updates')
+      .send({ ...update, actorAddress: encodeAddress(healthMinister.publicKey, 0) })
+
+    expect(first.statusCode).toBe(201)
+    expect(replay.statusCode).toBe(409)
+    expect(otherFormat.body.error.key).toBe('errors.issues.duplicate_update')
+    expect(db.tables.citizen_issue_updates).toHaveLength(1)
+    expect(db.rpcCalls).toHaveLength(1)
+  })
+})
+
+// ========================================
+// REGIONS
+// ========================================
+
+describe('Issue region tags', () => {
+  it('should let the on-chain submitter tag their issue in any address format', async () => {
+    const { app, db } = setup()
+    const chainFormat = encodeAddress(supporter.publicKey, 0)
+
+    const res = await request(app).post('/issues/0/region').send(signedRegion(supporter, 0, 'rojava', chainFormat))
+
+    expect(res.statusCode).toBe(201)
+    expect(db.tables.citizen_issue_regions).toEqual([
+      expect.objectContaining({ issue_id: 0, region: 'rojava', submitter_address: chainFormat })
+    ])
+  })
+
+  it('should refuse tags from anyone but the submitter', async () => {
+    const { app, db } = setup()
+
+    const other = await request(app).post('/issues/1/region').send(signedRegion(supporter, 1, 'rojava'))
+    const mismatch = await request(app).post('/issues/0/region').send({ ...signedRegion(supporter, 0, 'rojava'), region: 'bakur' })
+    const forged = await request(app).post('/issues/0/region').send(signedRegion(opponent, 0, 'rojava', supporter.address))
+    const unknown = await request(app).post('/issues/0/region').send(signedRegion(supporter, 0, 'atlantis'))
+
+    expect(other.body.error.key).toBe('errors.issues.not_submitter')
+    expect(mismatch.body.error.key).toBe('errors.request.message_mismatch')
+    expect(forged.body.error.key).toBe('errors.auth.invalid_signature')
+    expect(unknown.body.error.key).toBe('errors.issues.invalid_region')
+    expect(db.tables.citizen_issue_regions).toHaveLength(0)
+  })
+})
@@ -0,0 +1,151 @@
+import pino from 'pino'
+import { createExpiryWorker } from '../src/p2p-expiry.js'
+import { createEscrowService } from '../src/escrow.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+function createFakeApi () {
+  const sent = []
+  const transfer = (args) => {
+    const tx = {
+      args,
+      hash: { toHex: () => `0xrefund-${sent.length}` },
+      signAsync: async () => tx,
+      send: async (callback) => {
+        sent.push(tx)
+        callback({ status: { isInBlock: true, asInBlock: { toHex: () => '0xblock' } } })
+        return () => {}
+      }
+    }
+    return tx
+  }
+
+  return {
+    sent,
+    tx: {
+      balances: { transferKeepAlive: (dest, amount) => transfer([dest, amount]) },
+      assets: { transferKeepAlive: (assetId, dest, amount) => transfer([assetId, dest, amount]) }
+    },
+    rpc: {
+      chain: {
+        getFinalizedHead: async () => '0xfinalized',
+        getHeader: async () => ({ number: { toNumber: () => 100 } })
+      }
+    }
+  }
+}
+
+const offer = (id, fields = {}) => ({
+  id,
+  token: 'HEZ',
+  seller_wallet: `5Seller-${id}`,
+  status: 'cancelled',
+  remaining_amount: '10',
+  escrow_verified_at: '2026-01-01T00:00:00Z',
+  escrow_refund_status: null,
+  escrow_refund_tx_hash: null,
+  updated_at: new Date().toISOString(),
+  ...fields
+})
+
+function setup ({ offers = [], trades = { cancelled: 0, escalated: 0 }, expiredOffers = 0, failTrades = false } = {}) {
+  const api = createFakeApi()
+  const { client, db } = createFakeSupabase({
+    tables: { p2p_fiat_offers: offers },
+    rpc: {
+      cancel_expired_trades: () => {
+        if (failTrades) throw new Error('statement timeout')
+        return trades
+      },
+      cancel_expired_offers: () => expiredOffers,
+      complete_p2p_offer_refund: ({ p_offer_id: offerId }, db) => {
+        const row = db.tables.p2p_fiat_offers.find(o => o.id === offerId)
+        Object.assign(row, { remaining_amount: '0', escrow_refund_status: 'included' })
+      }
+    }
+  })
+
+  const escrowService = createEscrowService({
+    supabase: client,
+    getApi: () => api,
+    getEscrowAccount: () => ({ address: '5EscrowAccount' }),
+    logger
+  })
+  const worker = createExpiryWorker({ supabase: client, escrowService, logger })
+
+  return { worker, db, api }
+}
+
+// ========================================
+// EXPIRY PASS
+// ========================================
+
+describe('P2P expiry worker', () => {
+  it('should cancel expired trades and offers before refunding', async () => {
+    const { worker, db } = setup({ trades: { cancelled: 2, escalated: 1 }, expiredOffers: 1 })
+
+    const summary = await worker.runOnce()
+
+    expect(summary).toEqual({ cancelled: 2, escalated: 1, expiredOffers: 1, refundedOffers: 0 })
+    expect(db.rpcCalls.map(call => call.name)).toEqual(['cancel_expired_trades', 'cancel_expired_offers'])
+  })
+
+  it('should refund only cancelled offers with a verified deposit still held', async () => {
+    const { worker, db, api } = setup({
+      offers: [
+        offer('refund-me'),
+        offer('retry-failed', { escrow_refund_status: 'failed' }),
+        offer('unverified', { escrow_verified_at: null }),
+        offer('still-open', { status: 'open' }),
+        offer('empty', { remaining_amount: '0' }),
+        offer('in-flight', { escrow_refund_status: 'submitted', escrow_refund_tx_hash: '0xpending' })
+      ]
+    })
+
+    const summary = await worker.runOnce()
+
+    expect(summary.refundedOffers).toBe(2)
+    expect(api.sent.map(tx => tx.args)).toEqual([
+      ['5Seller-refund-me', 10000000000000n],
+      ['5Seller-retry-failed', 10000000000000n]
+    ])
+
+    const byId = Object.fromEntries(db.tables.p2p_fiat_offers.map(o => [o.id, o]))
+    expect(byId['refund-me']).toMatchObject({ remaining_amount: '0', escrow_refund_status: 'included' })
+    expect(byId['in-flight'].escrow_refund_status).toBe('submitted')
+    expect(byId.unverified.escrow_refund_status).toBeNull()
+  })
+
+  it('should not refund an offer twice across passes', async () => {
+    const { worker, api } = setup({ offers: [offer('refund-me')] })
+
+    await worker.runOnce()
+    const second = await worker.runOnce()
+
+    expect(second.refundedOffers).toBe(0)
+    expect(api.sent).toHaveLength(1)
+  })
+
+  it('should skip a pass while the previous one is still running', async () => {
+    const { worker, db } = setup()
+
+    const [first, overlapping] = await Promise.all([worker.runOnce(), worker.runOnce()])
+
+    expect(first).not.toBeNull()
+    expect(overlapping).toBeNull()
+    expect(db.rpcCalls.filter(call => call.name === 'cancel_expired_trades')).toHaveLength(1)
+  })
+
+  it('should release the run lock when a pass fails', async () => {
+    const { worker, db } = setup({ failTrades: true })
+
+    await expect(worker.runOnce()).rejects.toThrow('statement timeout')
+    await expect(worker.runOnce()).rejects.toThrow('statement timeout')
+    expect(db.rpcCalls).toHaveLength(2)
+  })
+})
@@ -0,0 +1,56 @@
+import pino from 'pino'
+import { createReserveService } from '../src/reserves.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+
+const codec = (value) => ({ toHex: () => String(value), toNumber: () => Number(value) })
+
+// Finalized head at block 50 whose wUSDT asset has `supply` units, or
+// does not exist at all when supply is null
+function createFakeApi (supply) {
+  const asset = supply === null
+    ? { isSome: false }
+    : { isSome: true, unwrap: () => ({ supply: { toString: () => String(supply) } }) }
+
+  return {
+    rpc: { chain: { getHeader: async () => ({ number: codec(50), hash: codec('0xhead') }) } },
+    at: async () => ({ query: { assets: { asset: async () => asset } } })
+  }
+}
+
+function setup (supply) {
+  const { client, db } = createFakeSupabase({ tables: { reserve_attestations: [], reserve_ratio_history: [] } })
+  const api = createFakeApi(supply)
+  const service = createReserveService({ supabase: client, getApi: () => api, custodians: [], logger })
+  return { service, db }
+}
+
+// ========================================
+// RATIO SNAPSHOTS
+// ========================================
+
+describe('Reserve ratio snapshots', () => {
+  it('should record an unminted asset as healthy without a ratio', async () => {
+    for (const supply of [null, 0]) {
+      const { service, db } = setup(supply)
+
+      const snapshot = await service.runOnce()
+
+      expect(snapshot).toMatchObject({ wusdt_supply: '0', collateral_ratio: null, is_healthy: true })
+      expect(db.tables.reserve_ratio_history).toHaveLength(1)
+    }
+  })
+
+  it('should record unbacked supply as unhealthy', async () => {
+    const { service } = setup(1000)
+
+    const snapshot = await service.runOnce()
+
+    expect(snapshot).toMatchObject({ wusdt_supply: '1000', collateral_ratio: 0, is_healthy: false })
+  })
+})
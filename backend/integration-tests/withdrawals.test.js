@@ -0,0 +1,389 @@
+import express from 'express'
+import request from 'supertest'
+import pino from 'pino'
+import { Keyring } from '@polkadot/keyring'
+import { u8aToHex, stringToU8a } from '@polkadot/util'
+import { cryptoWaitReady, encodeMultiAddress } from '@polkadot/util-crypto'
+import { createWithdrawalService, createWithdrawalRouter, withdrawalMemo, payoutMemo } from '../src/withdrawals.js'
+import { createFakeSupabase } from './helpers/fake-supabase.js'
+
+// ========================================
+// TEST SETUP
+// ========================================
+
+const logger = pino({ level: 'silent' })
+const WUSDT = 1000
+
+let members
+let user
+let outsider
+let multisig
+
+const codec = (value) => ({
+  toNumber: () => Number(value),
+  toBigInt: () => BigInt(value),
+  toString: () => String(value),
+  toHex: () => String(value)
+})
+
+// Plain values become codecs; objects (e.g. a DispatchResult) pass through
+const event = (name, ...data) => ({
+  name,
+  data: data.map((value) => typeof value === 'object' ? value : codec(value))
+})
+
+// Minimal ApiPromise: blocks hold a single extrinsic with its events, call
+// hashes are readable strings and event matchers compare by name. Blocks up
+// to `finalized` are canonical unless marked as a fork.
+function createFakeApi () {
+  const blocks = {}
+  const matcher = (name) => ({ is: (e) => e.name === name })
+
+  const api = {
+    blocks,
+    finalized: 1000,
+    query: {
+      tiki: {
+        tikiHolder: async (tiki) => {
+          const holder = { Serok: members[0], SerokiMeclise: members[1], Xezinedar: members[2] }[tiki]
+          return { isSome: true, unwrap: () => holder.address }
+        }
+      }
+    },
+    rpc: {
+      chain: {
+        getFinalizedHead: async () => '0xfinalized',
+        getHeader: async (hash) => ({
+          number: codec(hash === '0xfinalized' ? api.finalized : blocks[hash]?.height ?? 1)
+        }),
+        getBlockHash: async (number) => codec(
+          Object.keys(blocks).find((hash) => blocks[hash].height === number && !blocks[hash].fork) ?? '0xcanonical'
+        ),
+        getBlock: async (hash) => ({
+          block: {
+            header: { number: codec(blocks[hash]?.height ?? 1) },
+            extrinsics: blocks[hash] ? [blocks[hash].extrinsic] : []
+          }
+        })
+      }
+    },
+    at: async (hash) => ({
+      query: {
+        system: {
+          events: async () => (blocks[hash]?.events || []).map((e) => ({
+            phase: { isApplyExtrinsic: true, asApplyExtrinsic: { eqn: (i) => i === 0 } },
+            event: e
+          }))
+        }
+      }
+    }),
+    events: {
+      system: { ExtrinsicSuccess: matcher('ExtrinsicSuccess') },
+      assets: { Burned: matcher('Burned') },
+      multisig: {
+        NewMultisig: matcher('NewMultisig'),
+        MultisigApproval: matcher('MultisigApproval'),
+        MultisigExecuted: matcher('MultisigExecuted')
+      }
+    },
+    tx: {
+      system: { remarkWithEvent: (memo) => ({ method: { hash: codec(`remark:${memo}`) } }) },
+      assets: { mint: (assetId, who, amount) => ({ method: { hash: codec(`mint:${assetId}:${who}:${amount}`) } }) }
+    }
+  }
+  return api
+}
+
+function addBlock (api, hash, { txHash, signer, memo = '', events = [], success = true, height, fork = false }) {
+  api.blocks[hash] = {
+    height: height ?? api.blocks[hash]?.height ?? Object.keys(api.blocks).length + 1,
+    fork,
+    extrinsic: {
+      hash: codec(txHash),
+      isSigned: true,
+      signer: codec(signer),
+      method: { toHex: () => u8aToHex(stringToU8a(memo)) }
+    },
+    events: success ? [...events, event('ExtrinsicSuccess')] : events
+  }
+}
+
+const withdrawal = (fields = {}) => ({
+  id: 'w-1',
+  user_id: 'user',
+  wallet_address: user.address,
+  amount: '250.5',
+  tier: 'instant',
+  status: 'awaiting_burn',
+  burn_tx_hash: '0xburn',
+  burn_block_hash: '0xburn-block',
+  burned_at: null,
+  unlock_at: null,
+  approvals: [],
+  payout_timepoint: null,
+  refund_tx_hash: null,
+  ...fields
+})
+
+const queued = (fields = {}) => withdrawal({
+  status: 'queued',
+  burned_at: '2026-01-01T00:00:00Z',
+  unlock_at: '2026-01-01T00:00:00Z',
+  ...fields
+})
+
+function setup (row = withdrawal()) {
+  const api = createFakeApi()
+  const { client, db } = createFakeSupabase({ tables: { wusdt_withdrawals: [row] } })
+  const service = createWithdrawalService({
+    supabase: client,
+    getApi: () => api,
+    extraMembers: members.slice(3).map((pair) => pair.address),
+    logger
+  })
+  return { service, db, api }
+}
+
+const burnOf = (units, { owner = user.address, memo = withdrawalMemo('w-1') } = {}) => ({
+  txHash: '0xburn',
+  signer: user.address,
+  memo,
+  events: [event('Burned', WUSDT, owner, units)]
+})
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const keyring = new Keyring({ type: 'sr25519' })
+  members = ['//Serok', '//Speaker', '//Treasurer', '//Noter', '//Berdevk'].map((uri) => keyring.addFromUri(uri))
+  user = keyring.addFromUri('//User')
+  outsider = keyring.addFromUri('//Outsider')
+  multisig = encodeMultiAddress(members.map((pair) => pair.address), 3)
+})
+
+// ========================================
+// BURN
+// ========================================
+
+describe('Withdrawal burn verification', () => {
+  it('should queue the request and start the tier delay', async () => {
+    const { service, api } = setup(withdrawal({ tier: 'standard' }))
+    addBlock(api, '0xburn-block', burnOf(250500000))
+
+    const result = await service.verifyBurn('w-1')
+
+    expect(result.ok).toBe(true)
+    expect(result.withdrawal.status).toBe('queued')
+    const delay = new Date(result.withdrawal.unlock_at) - new Date(result.withdrawal.burned_at)
+    expect(delay).toBe(3600 * 1000)
+  })
+
+  it('should accept a burn that lands after the request expired, once', async () => {
+    const { service, api } = setup(withdrawal({ status: 'expired' }))
+    addBlock(api, '0xburn-block', burnOf(250500000))
+
+    const first = await service.verifyBurn('w-1')
+    const retry = await service.verifyBurn('w-1')
+
+    expect(first.withdrawal.status).toBe('queued')
+    expect(retry).toMatchObject({ ok: true, alreadyVerified: true })
+  })
+
+  it('should reject burns that do not back this request', async () => {
+    const cases = [
+      [{ ...burnOf(250500000), signer: outsider.address }, 'errors.withdrawals.burn_wrong_sender'],
+      [burnOf(250500000, { memo: withdrawalMemo('w-2') }), 'errors.withdrawals.burn_memo_mismatch'],
+      [burnOf(250499999), 'errors.withdrawals.burn_mismatch'],
+      [burnOf(250500000, { owner: outsider.address }), 'errors.withdrawals.burn_mismatch'],
+      [{ ...burnOf(250500000), success: false }, 'errors.withdrawals.burn_failed']
+    ]
+
+    for (const [block, key] of cases) {
+      const { service, api, db } = setup()
+      addBlock(api, '0xburn-block', block)
+
+      expect(await service.verifyBurn('w-1')).toMatchObject({ ok: false, key })
+      expect(db.tables.wusdt_withdrawals[0].status).toBe('awaiting_burn')
+    }
+  })
+
+  it('should only trust burns in finalized blocks of the canonical chain', async () => {
+    const fork = setup()
+    addBlock(fork.api, '0xburn-block', { ...burnOf(250500000), fork: true })
+    const unfinalized = setup()
+    addBlock(unfinalized.api, '0xburn-block', { ...burnOf(250500000), height: 1001 })
+
+    expect(await fork.service.verifyBurn('w-1')).toMatchObject({ ok: false, key: 'errors.withdrawals.burn_not_found' })
+    expect(await unfinalized.service.verifyBurn('w-1')).toMatchObject({ ok: false, key: 'errors.withdrawals.burn_not_found' })
+
+    unfinalized.api.finalized = 1001
+    expect(await unfinalized.service.verifyBurn('w-1')).toMatchObject({ ok: true })
+  })
+
+  it('should not verify cancelled requests', async () => {
+    const { service } = setup(withdrawal({ status: 'cancelled' }))
+
+    expect(await service.verifyBurn('w-1')).toMatchObject({ ok: false, status: 409 })
+  })
+})
+
+// ========================================
+// PAYOUT
+// ========================================
+
+describe('Withdrawal payout', () => {
+  const approval = (name, txHash = '0xapprove') => ({
+    txHash,
+    signer: members[0].address,
+    events: name === 'NewMultisig'
+      ? [event('NewMultisig', members[0].address, multisig, 'remark:wusdt-payout:w-1')]
+      : [event('MultisigExecuted', members[0].address, 1, multisig, 'remark:wusdt-payout:w-1', { isOk: true })]
+  })
+
+  it('should not record approvals before the unlock time', async () => {
+    const { service, api } = setup(queued({ unlock_at: new Date(Date.now() + 60000).toISOString() }))
+    addBlock(api, '0xblock', approval('NewMultisig'))
+
+    const result = await service.recordApproval('w-1', members[0].address, { blockHash: '0xblock', txHash: '0xapprove' })
+
+    expect(result).toMatchObject({ ok: false, key: 'errors.withdrawals.still_locked' })
+  })
+
+  it('should move through approving and approved to paid', async () => {
+    const { service, api } = setup(queued())
+    addBlock(api, '0xopen', approval('NewMultisig', '0xopen-tx'))
+    addBlock(api, '0xexec', approval('MultisigExecuted', '0xexec-tx'))
+
+    const opened = await service.recordApproval('w-1', members[0].address, { blockHash: '0xopen', txHash: '0xopen-tx' })
+    const early = await service.markPaid('w-1', members[2].address, 'BANK-REF-1')
+    const executed = await service.recordApproval('w-1', members[0].address, { blockHash: '0xexec', txHash: '0xexec-tx' })
+    const paid = await service.markPaid('w-1', members[2].address, 'BANK-REF-1')
+
+    expect(opened.withdrawal).toMatchObject({ status: 'approving', payout_call_hash: `remark:${payoutMemo('w-1')}` })
+    expect(early).toMatchObject({ ok: false, key: 'errors.withdrawals.invalid_status' })
+    expect(executed.withdrawal.status).toBe('approved')
+    expect(paid.withdrawal).toMatchObject({ status: 'paid', payout_reference: 'BANK-REF-1' })
+  })
+
+  it('should reject approvals of another call', async () => {
+    const { service, api } = setup(queued())
+    addBlock(api, '0xblock', {
+      txHash: '0xapprove',
+      signer: members[0].address,
+      events: [event('NewMultisig', members[0].address, multisig, 'remark:wusdt-payout:w-2')]
+    })
+
+    const result = await service.recordApproval('w-1', members[0].address, { blockHash: '0xblock', txHash: '0xapprove' })
+
+    expect(result).toMatchObject({ ok: false, key: 'errors.withdrawals.approval_mismatch' })
+  })
+})
+
+// ========================================
+// CANCELLATION
+// ========================================
+
+describe('Withdrawal cancellation', () => {
+  const refund = (callHash) => ({
+    txHash: '0xrefund',
+    signer: members[1].address,
+    events: [event('NewMultisig', members[1].address, multisig, callHash)]
+  })
+
+  it('should require the re-mint transaction', async () => {
+    const { service, db } = setup(queued())
+
+    const result = await service.cancel('w-1', members[1].address, { reason: 'Destination flagged' })
+
+    expect(result).toMatchObject({ ok: false, status: 400, key: 'errors.request.missing_fields' })
+    expect(db.tables.wusdt_withdrawals[0].status).toBe('queued')
+  })
+
+  it('should reject a re-mint of another amount or beneficiary', async () => {
+    for (const callHash of [`mint:${WUSDT}:${user.address}:1`, `mint:${WUSDT}:${outsider.address}:250500000`]) {
+      const { service, api, db } = setup(queued())
+      addBlock(api, '0xrefund-block', refund(callHash))
+
+      const result = await service.cancel('w-1', members[1].address, {
+        reason: 'Destination flagged',
+        refundTxHash: '0xrefund',
+        refundBlockHash: '0xrefund-block'
+      })
+
+      expect(result).toMatchObject({ ok: false, key: 'errors.withdrawals.refund_mismatch' })
+      expect(db.tables.wusdt_withdrawals[0].status).toBe('queued')
+    }
+  })
+
+  it('should cancel once the member opened the matching re-mint', async () => {
+    const { service, api } = setup(queued())
+    addBlock(api, '0xrefund-block', refund(`mint:${WUSDT}:${user.address}:250500000`))
+
+    const result = await service.cancel('w-1', members[1].address, {
+      reason: 'Destination flagged',
+      refundTxHash: '0xrefund',
+      refundBlockHash: '0xrefund-block'
+    })
+
+    expect(result.withdrawal).toMatchObject({
+      status: 'cancelled',
+      cancelled_by: members[1].address,
+      refund_tx_hash: '0xrefund'
+    })
+  })
+
+  it('should reject a re-mint sent by another member', async () => {
+    const { service, api } = setup(queued())
+    addBlock(api, '0xrefund-block', refund(`mint:${WUSDT}:${user.address}:250500000`))
+
+    const result = await service.cancel('w-1', members[2].address, {
+      reason: 'Destination flagged',
+      refundTxHash: '0xrefund',
+      refundBlockHash: '0xrefund-block'
+    })
+
+    expect(result).toMatchObject({ ok: false, key: 'errors.withdrawals.refund_wrong_sender' })
+  })
+})
+
+// ========================================
+// ROUTES
+// ========================================
+
+describe('Withdrawal routes', () => {
+  const signed = (pair, action) => {
+    const message = `${action}:${Date.now()}:${u8aToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)}`
+    return { memberAddress: pair.address, message, signature: u8aToHex(pair.sign(message)) }
+  }
+
+  function createApp () {
+    const { service, db } = setup(queued())
+    const app = express().use(express.json()).use('/withdrawals', createWithdrawalRouter(service, { logger }))
+    return { app, db }
+  }
+
+  it('should list the queue for a member once per signature', async () => {
+    const { app } = createApp()
+    const body = signed(members[3], 'listWithdrawals')
+
+    const first = await request(app).post('/withdrawals/queue').send(body)
+    const replay = await request(app).post('/withdrawals/queue').send(body)
+
+    expect(first.statusCode).toBe(200)
+    expect(first.body.withdrawals).toHaveLength(1)
+    expect(replay.body.error.key).toBe('errors.auth.signature_replayed')
+  })
+
+  it('should reject non-members and signatures for another action', async () => {
+    const { app, db } = createApp()
+
+    const outsiderRes = await request(app).post('/withdrawals/queue').send(signed(outsider, 'listWithdrawals'))
+    const wrongAction = await request(app)
+      .post('/withdrawals/w-1/cancel')
+      .send({ reason: 'x', ...signed(members[0], 'markWithdrawalPaid:w-1') })
+
+    expect(outsiderRes.statusCode).toBe(403)
+    expect(outsiderRes.body.error.key).toBe('errors.auth.not_multisig_member')
+    expect(wrongAction.body.error.key).toBe('errors.request.message_mismatch')
+    expect(db.tables.wusdt_withdrawals[0].status).toBe('queued')
+  })
+})
@@ -0,0 +1,135 @@
+import express from 'express'
+import { createHmac } from 'node:crypto'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { fail, sameAddress } from './common.js'
+
+// ========================================
+// CITIZENSHIP NULLIFIERS
+// ========================================
+// Applications carry a nullifier so one person cannot hold two citizenships.
+// The applicant sends a digest of their normalized identity (never the data
+// itself) and the backend keys it with CITIZENSHIP_NULLIFIER_KEY. The
+// nullifier recorded on-chain can therefore not be tested against guessed
+// identities by anyone without the key. Each nullifier is bound to one
+// wallet; another wallet may only take it over once the first is neither
+// pending nor approved (e.g. rejected, or renounced).
+
+const DIGEST_PATTERN = /^0x[0-9a-f]{64}$/
+// KYC statuses that keep an identity bound to its wallet
+const ACTIVE_STATUSES = ['Pending', 'Approved']
+
+/**
+ * Create the citizenship nullifier service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {string | undefined} deps.nullifierKey - HMAC key; nullifiers are unavailable without it
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createCitizenshipService ({ supabase, getApi, nullifierKey, logger }) {
+  function deriveNullifier (identityDigest) {
+    return '0x' + createHmac('sha256', nullifierKey).update(identityDigest).digest('hex')
+  }
+
+  async function isActive (api, address) {
+    const status = await api.query.identityKyc.kycStatuses(address)
+    return ACTIVE_STATUSES.includes(status.toString())
+  }
+
+  /**
+   * Issue the nullifier for an identity digest and bind it to `walletAddress`.
+   * The caller has already verified the wallet's signature.
+   * @param {string} identityDigest - blake2_256 of the normalized identity (hashIdentity in shared/lib/citizenship-workflow.ts)
+   * @param {string} walletAddress
+   * @returns {Promise<{ ok: true, nullifierHash: string } | { ok: false, status: number, key: string }>}
+   */
+  async function registerNullifier (identityDigest, walletAddress) {
+    if (!DIGEST_PATTERN.test(identityDigest ?? '')) return fail(400, 'errors.citizenship.invalid_identity')
+    if (!nullifierKey) return fail(503, 'errors.citizenship.nullifier_unavailable')
+
+    const api = getApi()
+    if (!api?.query?.identityKyc) return fail(503, 'errors.citizenship.chain_unavailable')
+
+    const nullifierHash = deriveNullifier(identityDigest)
+
+    const { data: bindings, error } = await supabase
+      .from('citizenship_nullifiers')
+      .select('nullifier_hash, wallet_address')
+      .or(`nullifier_hash.eq.${nullifierHash},wallet_address.eq.${walletAddress}`)
+
+    if (error) throw error
+
+    const identity = bindings.find((row) => row.nullifier_hash === nullifierHash)
+    const wallet = bindings.find((row) => row.nullifier_hash !== nullifierHash && sameAddress(row.wallet_address, walletAddress))
+
+    if (identity && sameAddress(identity.wallet_address, walletAddress)) {
+      return { ok: true, nullifierHash }
+    }
+
+    // One identity per citizen, and one citizen per wallet
+    if (identity && await isActive(api, identity.wallet_address)) {
+      logger.warn({ walletAddress, nullifierHash }, 'Identity already registered to another wallet')
+      return fail(409, 'errors.citizenship.identity_registered')
+    }
+    if (wallet && await isActive(api, walletAddress)) {
+      return fail(409, 'errors.citizenship.wallet_registered')
+    }
+
+    if (wallet) {
+      const { error: releaseError } = await supabase
+        .from('citizenship_nullifiers')
+        .delete()
+        .eq('nullifier_hash', wallet.nullifier_hash)
+      if (releaseError) throw releaseError
+    }
+
+    const now = new Date().toISOString()
+    const { error: bindError } = identity
+      ? await supabase
+        .from('citizenship_nullifiers')
+        .update({ wallet_address: walletAddress, updated_at: now })
+        .eq('nullifier_hash', nullifierHash)
+        .eq('wallet_address', identity.wallet_address)
+      : await supabase
+        .from('citizenship_nullifiers')
+        .insert({ nullifier_hash: nullifierHash, wallet_address: walletAddress })
+
+    if (bindError?.code === '23505') return fail(409, 'errors.citizenship.identity_registered')
+    if (bindError) throw bindError
+
+    return { ok: true, nullifierHash }
+  }
+
+  return { registerNullifier }
+}
+
+/**
+ * HTTP routes for citizenship applications
+ * - nullifier: signed by the applicant's wallet before applying
+ */
+export function createCitizenshipRouter (service, { logger }) {
+  const router = express.Router()
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  router.post('/nullifier', async (req, res) => {
+    const { identityDigest, signerAddress, signature, message } = req.body
+
+    try {
+      const verifyError = verifySignedRequest({ address: signerAddress, message, signature, action: `registerNullifier:${identityDigest}` })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+
+      const result = await service.registerNullifier(identityDigest, signerAddress)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(200).json(result)
+    } catch (error) {
+      logger.error({ err: error, signerAddress }, 'Error registering citizenship nullifier')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
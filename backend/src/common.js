@@ -0,0 +1,133 @@
+import { u8aEq } from '@polkadot/util'
+import { decodeAddress } from '@polkadot/util-crypto'
+
+// ========================================
+// SHARED SERVICE HELPERS
+// ========================================
+// Used by every backend service: failure results, address comparison and
+// extrinsic submission.
+
+/**
+ * Failure result returned by services and turned into
+ * `res.status(status).json({ error: { key } })` by their routers
+ */
+export function fail (status, key) {
+  return { ok: false, status, key }
+}
+
+/**
+ * Compare two addresses by public key, whatever their SS58 format
+ */
+export function sameAddress (a, b) {
+  try {
+    return u8aEq(decodeAddress(a), decodeAddress(b))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Readable name of a dispatch error ('section.Name' for module errors)
+ */
+export function describeError (api, dispatchError) {
+  if (!dispatchError.isModule) return dispatchError.toString()
+  const decoded = api.registry.findMetaError(dispatchError.asModule)
+  return `${decoded.section}.${decoded.name}`
+}
+
+// Signed transfers are mortal: valid for this many blocks after the block
+// they were signed at, so one that was never included provably expires
+export const TX_MORTALITY = 64
+
+// Submissions without a status from the node for this long are left to
+// reconciliation
+const SUBMIT_TIMEOUT_MS = 2 * 60 * 1000
+
+/**
+ * Thrown by submit when the extrinsic provably did not apply (it failed at
+ * inclusion or the pool rejected it as invalid), so it is safe to sign a
+ * new one. Any other submission error leaves the outcome unknown.
+ */
+export class TxFailedError extends Error {}
+
+/**
+ * Submit a signed extrinsic and wait until it is in a block
+ * @returns {Promise<{ blockHash: string, events: object[] }>} the block and the extrinsic's events
+ * @throws {TxFailedError} when the extrinsic fails at inclusion or is invalid;
+ *   other errors (dropped, usurped, no answer, connection lost) mean it may still land
+ */
+export function submit (api, tx, { timeoutMs = SUBMIT_TIMEOUT_MS } = {}) {
+  return new Promise((resolve, reject) => {
+    let unsub
+    const settle = (callback, value) => {
+      clearTimeout(timer)
+      if (unsub) unsub()
+      callback(value)
+    }
+    const timer = setTimeout(() => settle(reject, new Error('Transaction status unknown')), timeoutMs)
+
+    tx.send(({ status, dispatchError, events = [] }) => {
+      if (dispatchError) {
+        settle(reject, new TxFailedError(describeError(api, dispatchError)))
+      } else if (status.isInBlock) {
+        settle(resolve, { blockHash: status.asInBlock.toHex(), events: events.map(({ event }) => event) })
+      } else if (status.isInvalid) {
+        settle(reject, new TxFailedError('Transaction invalid'))
+      } else if (status.isDropped || status.isUsurped) {
+        settle(reject, new Error(`Transaction ${status.type.toLowerCase()}`))
+      }
+    }).then((unsubscribe) => { unsub = unsubscribe }).catch((error) => settle(reject, error))
+  })
+}
+
+export async function getFinalizedNumber (api) {
+  const header = await api.rpc.chain.getHeader(await api.rpc.chain.getFinalizedHead())
+  return header.number.toNumber()
+}
+
+/**
+ * Whether `blockHash` is a finalized block of the canonical chain. A block
+ * hash alone may name a fork that was never finalized, so client-supplied
+ * hashes are checked before their extrinsics are trusted.
+ */
+export async function isFinalizedBlock (api, blockHash) {
+  const [header, finalized] = await Promise.all([
+    api.rpc.chain.getHeader(blockHash),
+    getFinalizedNumber(api)
+  ])
+  const number = header.number.toNumber()
+  if (number > finalized) return false
+
+  const canonical = await api.rpc.chain.getBlockHash(number)
+  return canonical.toHex() === String(blockHash).toLowerCase()
+}
+
+/**
+ * Look up a mortal extrinsic (signed with era TX_MORTALITY no earlier than
+ * finalized block `fromBlock`) in the finalized chain
+ * @returns {Promise<{ status: 'included', blockHash: string } | { status: 'failed', error: string } | { status: 'expired' } | { status: 'pending' }>}
+ *   'expired' once it can no longer be included; 'pending' while it still can
+ */
+export async function findExtrinsic (api, txHash, fromBlock) {
+  const finalized = await getFinalizedNumber(api)
+  // The signing checkpoint may be ahead of the finalized block read before
+  // signing, so allow a second period
+  const lastValid = fromBlock + 2 * TX_MORTALITY
+
+  for (let number = fromBlock; number <= Math.min(finalized, lastValid); number++) {
+    const blockHash = await api.rpc.chain.getBlockHash(number)
+    const { block } = await api.rpc.chain.getBlock(blockHash)
+    const index = block.extrinsics.findIndex((ext) => ext.hash.toHex() === txHash)
+    if (index === -1) continue
+
+    const apiAt = await api.at(blockHash)
+    const failed = (await apiAt.query.system.events()).find(({ phase, event }) =>
+      phase.isApplyExtrinsic && phase.asApplyExtrinsic.eqn(index) && api.events.system.ExtrinsicFailed.is(event))
+
+    return failed
+      ? { status: 'failed', error: describeError(api, failed.event.data[0]) }
+      : { status: 'included', blockHash: blockHash.toHex() }
+  }
+
+  return finalized >= lastValid ? { status: 'expired' } : { status: 'pending' }
+}
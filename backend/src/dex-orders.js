@@ -0,0 +1,508 @@
+import express from 'express'
+import { hexToU8a, u8aToHex } from '@polkadot/util'
+import { isAddress, signatureVerify } from '@polkadot/util-crypto'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { describeError, fail, sameAddress, submit } from './common.js'
+
+// ========================================
+// DEX ORDER KEEPER
+// ========================================
+// Limit orders and DCA schedules are signed swap intents stored in
+// dex_orders. Owners grant the keeper account a proxy (KEEPER_PROXY_TYPE, a
+// runtime ProxyType whose filter only allows assetConversion.swap* calls);
+// when an order is due and the quote meets its price, the keeper submits
+// proxy.proxy(owner, assetConversion.swapExactTokensForTokens) with the
+// owner as recipient and min_amount_out as the price floor, so the chain
+// refuses any fill worse than the order.
+//
+// Orders are claimed with a conditional update before signing and the tx
+// hash is recorded before submission. An order left 'executing' (crash
+// mid-submission) is failed rather than retried, as its swap may have
+// gone through.
+
+// Mirrors ORDER_INTENT_PREFIX and the limits in shared/lib/dex-orders.ts
+const ORDER_INTENT_PREFIX = 'dexOrder:'
+const INTENT_MAX_AGE_MS = 10 * 60 * 1000
+const MAX_HOPS = 3
+const MIN_DCA_INTERVAL_SECONDS = 300
+const MAX_DCA_EXECUTIONS = 365
+const MAX_SLIPPAGE_BPS = 5000
+
+const MAX_FAILURES = 3
+const RETRY_DELAY_MS = 5 * 60 * 1000
+const STUCK_AFTER_MS = 10 * 60 * 1000
+const BATCH_SIZE = 25
+
+// Proxy types that allow far more than swaps. The keeper never runs with
+// one, as a leaked keeper key could then move the owners' funds.
+const BROAD_PROXY_TYPES = [
+  'Any', 'NonTransfer', 'Governance', 'Staking', 'NominationPools', 'CancelProxy',
+  'Auction', 'IdentityJudgement', 'Assets', 'AssetOwner', 'AssetManager', 'Collator'
+]
+
+const isAmount = (value) => typeof value === 'string' && /^\d+$/.test(value)
+
+/**
+ * Parse and validate a signed order intent ('dexOrder:' + JSON, built by
+ * buildOrderIntent in shared/lib/dex-orders.ts). Returns { ok: true, intent }
+ * or a failure. The nonce is the signing time and must be recent.
+ */
+export function parseOrderIntent (message, now = Date.now()) {
+  if (typeof message !== 'string' || !message.startsWith(ORDER_INTENT_PREFIX)) {
+    return fail(400, 'errors.dex_orders.invalid_intent')
+  }
+
+  let intent
+  try {
+    intent = JSON.parse(message.slice(ORDER_INTENT_PREFIX.length))
+  } catch {
+    return fail(400, 'errors.dex_orders.invalid_intent')
+  }
+
+  const { owner, kind, path, amountIn, minAmountOut, maxSlippageBps, intervalSeconds, executions, expiresAt, nonce } = intent ?? {}
+
+  if (!owner || !isAddress(owner)) return fail(400, 'errors.request.invalid_address')
+  if (!['limit', 'dca'].includes(kind)) return fail(400, 'errors.dex_orders.invalid_intent')
+  if (!Array.isArray(path) || path.length < 2 || path.length > MAX_HOPS + 1 ||
+      !path.every(id => Number.isInteger(id) && id >= 0) || new Set(path).size !== path.length) {
+    return fail(400, 'errors.dex_orders.invalid_path')
+  }
+  if (!isAmount(amountIn) || BigInt(amountIn) === 0n || !isAmount(minAmountOut)) {
+    return fail(400, 'errors.dex_orders.invalid_amount')
+  }
+  if (kind === 'limit' && BigInt(minAmountOut) === 0n) return fail(400, 'errors.dex_orders.invalid_price')
+  if (!Number.isInteger(maxSlippageBps) || maxSlippageBps < 0 || maxSlippageBps > MAX_SLIPPAGE_BPS) {
+    return fail(400, 'errors.dex_orders.invalid_slippage')
+  }
+  if (kind === 'dca' && (!Number.isInteger(intervalSeconds) || intervalSeconds < MIN_DCA_INTERVAL_SECONDS ||
+      !Number.isInteger(executions) || executions < 1 || executions > MAX_DCA_EXECUTIONS)) {
+    return fail(400, 'errors.dex_orders.invalid_schedule')
+  }
+  if (expiresAt != null && (Number.isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= now)) {
+    return fail(400, 'errors.dex_orders.invalid_expiry')
+  }
+  if (!Number.isInteger(nonce) || Math.abs(now - nonce) > INTENT_MAX_AGE_MS) {
+    return fail(400, 'errors.dex_orders.stale_intent')
+  }
+
+  return { ok: true, intent }
+}
+
+/**
+ * Why `proxyType` can't be the keeper's proxy type, or null if it can:
+ * it must be set, not a broad type, and a variant of the chain's ProxyType
+ */
+export function checkKeeperProxyType (api, proxyType) {
+  if (!proxyType) return 'KEEPER_PROXY_TYPE is not set'
+  if (BROAD_PROXY_TYPES.includes(proxyType)) return `Proxy type ${proxyType} allows more than swaps`
+  try {
+    api.createType('ProxyType', proxyType)
+  } catch {
+    return `Proxy type ${proxyType} does not exist on this chain`
+  }
+  return null
+}
+
+/**
+ * Create the order keeper
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {() => import('@polkadot/keyring/types').KeyringPair | null} deps.getKeeperAccount
+ * @param {string} deps.proxyType - Swap-only proxy type owners grant the keeper
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createDexOrderService ({ supabase, getApi, getKeeperAccount, proxyType, logger }) {
+  let running = false
+  let checkedApi = null
+  let reportedProblem = null
+
+  /**
+   * Whether the keeper may run on this API connection. It stays off
+   * (reporting why once) while the proxy type is unusable.
+   */
+  function proxyTypeUsable (api) {
+    if (checkedApi === api) return true
+
+    const problem = checkKeeperProxyType(api, proxyType)
+    if (problem) {
+      if (problem !== reportedProblem) logger.error(`${problem} - DEX order keeper disabled`)
+      reportedProblem = problem
+      return false
+    }
+
+    checkedApi = api
+    return true
+  }
+
+  function getKeeper () {
+    const api = getApi()
+    const keeper = getKeeperAccount()
+    if (!api || !keeper || !proxyTypeUsable(api)) return null
+    return { address: keeper.address, proxyType }
+  }
+
+  /**
+   * Whether the owner has granted the keeper a usable proxy
+   */
+  async function hasProxy (api, owner, keeperAddress) {
+    const [proxies] = await api.query.proxy.proxies(owner)
+    return proxies.some(({ delegate, proxyType: type, delay }) =>
+      sameAddress(delegate.toString(), keeperAddress) &&
+      type.toString() === proxyType &&
+      delay.isZero())
+  }
+
+  /**
+   * Output of swapping amountIn along path at current reserves, fees
+   * included, or null if a pool is missing
+   */
+  async function quote (api, path, amountIn) {
+    let amount = amountIn
+    for (let i = 0; i < path.length - 1; i++) {
+      const out = await api.call.assetConversionApi.quotePriceExactTokensForTokens(path[i], path[i + 1], amount, true)
+      if (out.isNone) return null
+      amount = out.unwrap().toBigInt()
+    }
+    return amount
+  }
+
+  async function loadOrder (id) {
+    const { data, error } = await supabase.from('dex_orders').select('*').eq('id', id).maybeSingle()
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Store a signed order intent
+   */
+  async function createOrder ({ message, signature }) {
+    const parsed = parseOrderIntent(message)
+    if (!parsed.ok) return parsed
+    const { intent } = parsed
+
+    let isValid = false
+    try {
+      isValid = signatureVerify(message, signature, intent.owner).isValid
+    } catch {
+      // Malformed signature
+    }
+    if (!isValid) return fail(401, 'errors.auth.invalid_signature')
+
+    // The message names the owner and nonce, so an intent is stored once
+    // however its signature is encoded (signatureVerify accepts any hex case)
+    const { count, error: countError } = await supabase
+      .from('dex_orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('message', message)
+
+    if (countError) throw countError
+    if (count > 0) return fail(409, 'errors.dex_orders.duplicate_intent')
+
+    const { data: order, error } = await supabase
+      .from('dex_orders')
+      .insert({
+        owner: intent.owner,
+        kind: intent.kind,
+        path: intent.path,
+        amount_in: intent.amountIn,
+        min_amount_out: intent.minAmountOut,
+        max_slippage_bps: intent.maxSlippageBps,
+        interval_seconds: intent.kind === 'dca' ? intent.intervalSeconds : null,
+        executions_total: intent.kind === 'dca' ? intent.executions : 1,
+        expires_at: intent.expiresAt ?? null,
+        message,
+        signature: u8aToHex(hexToU8a(signature))
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') return fail(409, 'errors.dex_orders.duplicate_intent')
+      throw error
+    }
+
+    logger.info({ orderId: order.id, owner: order.owner, kind: order.kind }, 'DEX order created')
+    return { ok: true, order }
+  }
+
+  /**
+   * An owner's orders with their fills, newest first
+   */
+  async function listOrders (owner) {
+    const { data, error } = await supabase
+      .from('dex_orders')
+      .select('*, fills:dex_order_fills(*)')
+      .eq('owner', owner)
+      .order('created_at', { ascending: false })
+      .order('created_at', { referencedTable: 'dex_order_fills', ascending: false })
+
+    if (error) throw error
+    return data
+  }
+
+  async function cancelOrder (id, owner) {
+    const order = await loadOrder(id)
+    if (!order) return fail(404, 'errors.dex_orders.not_found')
+    if (!sameAddress(order.owner, owner)) return fail(403, 'errors.dex_orders.not_owner')
+
+    const now = new Date().toISOString()
+    const { data: updated, error } = await supabase
+      .from('dex_orders')
+      .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+      .eq('id', id)
+      .eq('status', 'open')
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!updated) return fail(409, 'errors.dex_orders.invalid_status')
+
+    logger.info({ orderId: id, owner }, 'DEX order cancelled')
+    return { ok: true, order: updated }
+  }
+
+  /**
+   * Run one due order if its price is met. Returns true if it filled.
+   */
+  async function executeOrder (api, keeper, order) {
+    // Orders that can't run yet go to the back of the queue
+    const postpone = (lastError) => supabase
+      .from('dex_orders')
+      .update({ next_run_at: new Date().toISOString(), last_error: lastError })
+      .eq('id', order.id)
+      .eq('status', 'open')
+
+    if (!await hasProxy(api, order.owner, keeper.address)) {
+      await postpone('proxy_missing')
+      return false
+    }
+
+    const amountIn = BigInt(order.amount_in)
+    const expected = await quote(api, order.path, amountIn)
+    if (expected === null) {
+      await postpone('no_pool')
+      return false
+    }
+
+    // Limit orders wait for their price; DCA buys at market within its slippage
+    const floor = BigInt(order.min_amount_out)
+    if (expected < floor) {
+      await postpone(null)
+      return false
+    }
+    const withSlippage = expected * BigInt(10000 - order.max_slippage_bps) / 10000n
+    const minAmountOut = order.kind === 'limit' ? floor : (withSlippage > floor ? withSlippage : floor)
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('dex_orders')
+      .update({ status: 'executing', updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('status', 'open')
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) return false
+
+    const swap = api.tx.assetConversion.swapExactTokensForTokens(order.path, amountIn, minAmountOut, order.owner, true)
+    const tx = api.tx.proxy.proxy(order.owner, null, swap)
+    await tx.signAsync(keeper, { nonce: -1 })
+
+    // Record before submission so a crash never leads to a second swap
+    const { data: fill, error: fillError } = await supabase
+      .from('dex_order_fills')
+      .insert({
+        order_id: order.id,
+        status: 'submitted',
+        tx_hash: tx.hash.toHex(),
+        amount_in: amountIn.toString(),
+        min_amount_out: minAmountOut.toString()
+      })
+      .select('id')
+      .single()
+    if (fillError) throw fillError
+
+    let outcome
+    try {
+      const { blockHash, events } = await submit(api, tx)
+      const executed = events.find(event => api.events.proxy.ProxyExecuted.is(event))
+      const swapped = events.find(event => api.events.assetConversion.SwapExecuted.is(event))
+
+      if (executed?.data[0].isErr) {
+        outcome = { blockHash, error: describeError(api, executed.data[0].asErr) }
+      } else if (!swapped) {
+        outcome = { blockHash, error: 'swap_not_executed' }
+      } else {
+        outcome = { blockHash, amountOut: swapped.data[3].toString() }
+      }
+    } catch (error) {
+      outcome = { error: error.message }
+    }
+
+    return recordOutcome(order, fill.id, outcome)
+  }
+
+  async function recordOutcome (order, fillId, { blockHash = null, amountOut, error }) {
+    const now = new Date()
+    const filled = error === undefined
+
+    await supabase
+      .from('dex_order_fills')
+      .update({
+        status: filled ? 'filled' : 'failed',
+        block_hash: blockHash,
+        amount_out: filled ? amountOut : null,
+        error: error ?? null
+      })
+      .eq('id', fillId)
+
+    let update
+    if (filled) {
+      const executionsDone = order.executions_done + 1
+      const done = executionsDone >= order.executions_total
+      update = {
+        status: done ? 'filled' : 'open',
+        executions_done: executionsDone,
+        failure_count: 0,
+        last_error: null,
+        ...(!done && { next_run_at: new Date(now.getTime() + order.interval_seconds * 1000).toISOString() })
+      }
+      logger.info({ orderId: order.id, amountOut, blockHash }, 'DEX order executed')
+    } else {
+      const failureCount = order.failure_count + 1
+      update = {
+        status: failureCount >= MAX_FAILURES ? 'failed' : 'open',
+        failure_count: failureCount,
+        last_error: error,
+        next_run_at: new Date(now.getTime() + RETRY_DELAY_MS).toISOString()
+      }
+      logger.warn({ orderId: order.id, error, failureCount }, 'DEX order execution failed')
+    }
+
+    await supabase
+      .from('dex_orders')
+      .update({ ...update, updated_at: now.toISOString() })
+      .eq('id', order.id)
+
+    return filled
+  }
+
+  /**
+   * Expire old orders, fail stuck ones and execute those that are due.
+   * Overlapping runs are skipped.
+   */
+  async function runOnce () {
+    const api = getApi()
+    const keeper = getKeeperAccount()
+    if (!api || !keeper || !proxyTypeUsable(api) || running) return
+    running = true
+
+    try {
+      await runDueOrders(api, keeper)
+    } finally {
+      running = false
+    }
+  }
+
+  async function runDueOrders (api, keeper) {
+    const now = new Date()
+    const { error: expireError } = await supabase
+      .from('dex_orders')
+      .update({ status: 'expired', updated_at: now.toISOString() })
+      .eq('status', 'open')
+      .lt('expires_at', now.toISOString())
+    if (expireError) throw expireError
+
+    const { data: stuck, error: stuckError } = await supabase
+      .from('dex_orders')
+      .update({ status: 'failed', last_error: 'outcome_unknown', updated_at: now.toISOString() })
+      .eq('status', 'executing')
+      .lt('updated_at', new Date(now.getTime() - STUCK_AFTER_MS).toISOString())
+      .select('id')
+    if (stuckError) throw stuckError
+    if (stuck.length > 0) logger.error({ orderIds: stuck.map(o => o.id) }, 'DEX orders stuck executing; check their submitted fills')
+
+    const { data: due, error } = await supabase
+      .from('dex_orders')
+      .select('*')
+      .eq('status', 'open')
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(BATCH_SIZE)
+    if (error) throw error
+
+    // Sequential: the keeper signs with one nonce sequence
+    for (const order of due) {
+      try {
+        await executeOrder(api, keeper, order)
+      } catch (err) {
+        logger.error({ err, orderId: order.id }, 'Error executing DEX order')
+      }
+    }
+  }
+
+  return { getKeeper, createOrder, listOrders, cancelOrder, runOnce }
+}
+
+export function createDexOrderRouter (service, { logger }) {
+  const router = express.Router()
+
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  router.get('/keeper', (req, res) => {
+    const keeper = service.getKeeper()
+    if (!keeper) {
+      return res.status(503).json({ error: { key: 'errors.dex_orders.keeper_unavailable' } })
+    }
+    res.json(keeper)
+  })
+
+  router.get('/', async (req, res) => {
+    const { owner } = req.query
+    if (!owner || !isAddress(owner)) {
+      return res.status(400).json({ error: { key: 'errors.request.invalid_address' } })
+    }
+
+    try {
+      res.json({ orders: await service.listOrders(owner) })
+    } catch (error) {
+      logger.error({ err: error, owner }, 'Error fetching DEX orders')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/', async (req, res) => {
+    try {
+      const result = await service.createOrder(req.body)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(201).json(result)
+    } catch (error) {
+      logger.error({ err: error }, 'Error creating DEX order')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/:id/cancel', async (req, res) => {
+    const { owner, signature, message } = req.body
+
+    try {
+      const verifyError = verifySignedRequest({ address: owner, message, signature, action: `cancelDexOrder:${req.params.id}` })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+
+      const result = await service.cancelOrder(req.params.id, owner)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.json(result)
+    } catch (error) {
+      logger.error({ err: error, orderId: req.params.id }, 'Error cancelling DEX order')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
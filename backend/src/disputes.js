@@ -0,0 +1,308 @@
+import express from 'express'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { sameAddress } from './common.js'
+
+// ========================================
+// P2P DISPUTE ARBITRATION
+// ========================================
+// Moderator side of the P2P dispute workflow. Parties open disputes and
+// attach evidence directly through Supabase; claiming and ruling go through
+// here because they need an on-chain Tiki check and the escrow signer.
+
+// Tiki roles allowed to arbitrate.
+// Mirrors checkModeratorRole in shared/lib/guards.ts (indices from pallet-tiki)
+const MODERATOR_TIKIS = {
+  Serok: 3,
+  Berdevk: 16,
+  ModeratorêCivakê: 29,
+  SerokWeziran: 36
+}
+
+const DECISIONS = ['release_to_buyer', 'refund_to_seller', 'escalate']
+
+/**
+ * Check whether an address holds one of the moderator Tikis
+ */
+export async function hasModeratorTiki (api, address) {
+  if (!api?.query?.tiki?.userTikis) return false
+
+  const tikis = await api.query.tiki.userTikis(address)
+  if (tikis.isEmpty) return false
+
+  // userTikis may serialise as enum indices or names depending on metadata
+  return tikis.toJSON().some((tiki) =>
+    Object.entries(MODERATOR_TIKIS).some(([name, index]) => tiki === index || tiki === name)
+  )
+}
+
+/**
+ * Create the dispute arbitration service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {ReturnType<import('./escrow.js').createEscrowService>} deps.escrowService
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createDisputeService ({ supabase, getApi, escrowService, logger }) {
+  async function logAction (userId, disputeId, action, details) {
+    await supabase.from('p2p_audit_log').insert({
+      user_id: userId,
+      action,
+      entity_type: 'dispute',
+      entity_id: disputeId,
+      details
+    })
+  }
+
+  async function loadDispute (disputeId) {
+    const { data, error } = await supabase
+      .from('p2p_fiat_disputes')
+      .select('*, trade:p2p_fiat_trades ( *, offer:p2p_fiat_offers ( seller_wallet ) )')
+      .eq('id', disputeId)
+      .single()
+
+    if (error) return null
+    return data
+  }
+
+  /**
+   * Whether the moderator is a party to the trade: by account, by the
+   * trade's wallets, or by a wallet linked to either party's account
+   */
+  async function isTradeParty (trade, moderator) {
+    if (trade.seller_id === moderator.id || trade.buyer_id === moderator.id) return true
+    if ([trade.buyer_wallet, trade.offer?.seller_wallet].some((wallet) => wallet && sameAddress(wallet, moderator.address))) {
+      return true
+    }
+
+    const { data: partyWallets, error } = await supabase
+      .from('wallets')
+      .select('address')
+      .in('user_id', [trade.seller_id, trade.buyer_id])
+
+    if (error) throw error
+    return partyWallets.some(({ address }) => sameAddress(address, moderator.address))
+  }
+
+  /**
+   * Disputes waiting for or under review, oldest first
+   */
+  async function listQueue () {
+    const { data, error } = await supabase
+      .from('p2p_fiat_disputes')
+      .select('*, trade:p2p_fiat_trades ( *, offer:p2p_fiat_offers ( token, fiat_currency, seller_wallet ) )')
+      .in('status', ['open', 'under_review', 'escalated'])
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Assign an open dispute to a moderator
+   * @param {string} disputeId
+   * @param {{ id: string, address: string }} moderator - Session user and signing wallet
+   */
+  async function assign (disputeId, moderator) {
+    const moderatorId = moderator.id
+    const dispute = await loadDispute(disputeId)
+    if (!dispute) return { ok: false, status: 404, key: 'errors.dispute.not_found' }
+
+    if (await isTradeParty(dispute.trade, moderator)) {
+      return { ok: false, status: 403, key: 'errors.dispute.moderator_is_party' }
+    }
+
+    const { data: claimed, error } = await supabase
+      .from('p2p_fiat_disputes')
+      .update({
+        assigned_moderator_id: moderatorId,
+        assigned_at: new Date().toISOString(),
+        status: 'under_review'
+      })
+      .eq('id', disputeId)
+      .in('status', ['open', 'escalated'])
+      .select('id')
+
+    if (error) throw error
+    if (!claimed || claimed.length === 0) {
+      return { ok: false, status: 409, key: 'errors.dispute.already_assigned' }
+    }
+
+    await logAction(moderatorId, disputeId, 'assign_dispute', { trade_id: dispute.trade_id })
+    return { ok: true }
+  }
+
+  /**
+   * Rule on a dispute: settle escrow, record the decision, update reputation
+   */
+  async function resolve (disputeId, moderator, decision, reasoning) {
+    const moderatorId = moderator.id
+    if (!DECISIONS.includes(decision)) {
+      return { ok: false, status: 400, key: 'errors.dispute.invalid_decision' }
+    }
+
+    const dispute = await loadDispute(disputeId)
+    if (!dispute) return { ok: false, status: 404, key: 'errors.dispute.not_found' }
+    if (dispute.status !== 'under_review') {
+      return { ok: false, status: 409, key: 'errors.dispute.not_under_review' }
+    }
+    if (dispute.assigned_moderator_id !== moderatorId) {
+      return { ok: false, status: 403, key: 'errors.dispute.not_assigned_moderator' }
+    }
+    if (await isTradeParty(dispute.trade, moderator)) {
+      return { ok: false, status: 403, key: 'errors.dispute.moderator_is_party' }
+    }
+
+    const { trade } = dispute
+
+    if (decision === 'escalate') {
+      await supabase
+        .from('p2p_fiat_disputes')
+        .update({ decision, decision_reasoning: reasoning, status: 'escalated', assigned_moderator_id: null })
+        .eq('id', disputeId)
+
+      await logAction(moderatorId, disputeId, 'escalate_dispute', { trade_id: trade.id, reasoning })
+      return { ok: true }
+    }
+
+    const settlementType = decision === 'release_to_buyer' ? 'release' : 'refund'
+    const settlement = await escrowService.settleTrade(trade.id, settlementType, {
+      dispute_id: disputeId,
+      moderator_id: moderatorId
+    })
+
+    if (!settlement.ok) return settlement
+
+    await supabase
+      .from('p2p_fiat_disputes')
+      .update({
+        decision,
+        decision_reasoning: reasoning,
+        status: 'resolved',
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', disputeId)
+
+    const [winnerId, loserId] = decision === 'release_to_buyer'
+      ? [trade.buyer_id, trade.seller_id]
+      : [trade.seller_id, trade.buyer_id]
+
+    await supabase.rpc('apply_p2p_dispute_outcome', {
+      p_trade_id: trade.id,
+      p_winner_id: winnerId,
+      p_loser_id: loserId
+    })
+
+    await logAction(moderatorId, disputeId, 'resolve_dispute', {
+      trade_id: trade.id,
+      decision,
+      reasoning,
+      tx_hash: settlement.txHash
+    })
+
+    logger.info({ disputeId, decision, txHash: settlement.txHash }, 'Dispute resolved')
+    return { ok: true, txHash: settlement.txHash }
+  }
+
+  return { listQueue, assign, resolve }
+}
+
+/**
+ * HTTP routes for moderators. Every request carries:
+ * - Authorization: Bearer <supabase access token> (moderator's user id)
+ * - moderatorAddress, message, signature (wallet holding a moderator Tiki,
+ *   linked to the session user; message from buildSignedRequestMessage)
+ */
+export function createDisputeRouter (service, { supabase, getApi, logger }) {
+  const router = express.Router()
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  async function isLinkedWallet (userId, address) {
+    const { data, error } = await supabase
+      .from('wallets')
+      .select('address')
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return data.some((wallet) => sameAddress(wallet.address, address))
+  }
+
+  // Authenticates the moderator and attaches req.moderator = { id, address }
+  const requireModerator = (action) => async (req, res, next) => {
+    const { moderatorAddress, signature, message } = req.body
+    const token = req.headers.authorization?.replace(/^Bearer /, '')
+
+    if (!moderatorAddress || !token) {
+      return res.status(400).json({ error: { key: 'errors.request.missing_fields' } })
+    }
+
+    try {
+      const { data: { user }, error } = await supabase.auth.getUser(token)
+      if (error || !user) {
+        return res.status(401).json({ error: { key: 'errors.auth.invalid_session' } })
+      }
+
+      const verifyError = verifySignedRequest({ address: moderatorAddress, message, signature, action: action(req) })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+      if (!await isLinkedWallet(user.id, moderatorAddress)) {
+        return res.status(403).json({ error: { key: 'errors.auth.wallet_not_linked' } })
+      }
+      if (!await hasModeratorTiki(getApi(), moderatorAddress)) {
+        return res.status(403).json({ error: { key: 'errors.auth.not_moderator' } })
+      }
+
+      req.moderator = { id: user.id, address: moderatorAddress }
+      next()
+    } catch (error) {
+      logger.error({ err: error }, 'Error authenticating moderator')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  }
+
+  const sendResult = (res, result) => {
+    if (!result.ok) {
+      return res.status(result.status).json({ error: { key: result.key } })
+    }
+    res.status(200).json(result)
+  }
+
+  router.post('/queue', requireModerator(() => 'listDisputes'), async (req, res) => {
+    try {
+      res.json({ disputes: await service.listQueue() })
+    } catch (error) {
+      logger.error({ err: error }, 'Error fetching dispute queue')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/:disputeId/assign', requireModerator((req) => `assignDispute:${req.params.disputeId}`), async (req, res) => {
+    try {
+      sendResult(res, await service.assign(req.params.disputeId, req.moderator))
+    } catch (error) {
+      logger.error({ err: error, disputeId: req.params.disputeId }, 'Error assigning dispute')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post(
+    '/:disputeId/resolve',
+    requireModerator((req) => `resolveDispute:${req.params.disputeId}:${req.body.decision}`),
+    async (req, res) => {
+      const { decision, reasoning } = req.body
+      if (!reasoning || reasoning.trim().length < 20) {
+        return res.status(400).json({ error: { key: 'errors.dispute.reasoning_required' } })
+      }
+
+      try {
+        sendResult(res, await service.resolve(req.params.disputeId, req.moderator, decision, reasoning.trim()))
+      } catch (error) {
+        logger.error({ err: error, disputeId: req.params.disputeId }, 'Error resolving dispute')
+        res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+      }
+    }
+  )
+
+  return router
+}
@@ -0,0 +1,900 @@
+import express from 'express'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { fail, findExtrinsic, getFinalizedNumber, isFinalizedBlock, sameAddress, submit, TxFailedError, TX_MORTALITY } from './common.js'
+
+// ========================================
+// P2P ESCROW SIGNER
+// ========================================
+// Holds the platform escrow key and settles P2P fiat trades on-chain.
+// Also verifies seller deposits before offers open, returns deposits that
+// never verify, and reconciles the escrow bookkeeping with the escrow
+// account's on-chain balance.
+//
+// Settlement is idempotent: a trade is claimed with a conditional update
+// before signing, the signed extrinsic hash is recorded before submission,
+// and retries for an already settled trade return the recorded hash.
+// Transfers are only marked failed when they provably did not apply; one
+// whose outcome is unknown stays submitted until reconcileSubmissions finds
+// it in a finalized block or it expires.
+
+const DECIMALS = 12
+const ASSET_IDS = {
+  HEZ: null, // Native token
+  PEZ: 1
+}
+
+// Trade statuses each settlement type may start from
+// (cancelled trades are not refundable: their amount returns to the offer)
+const SETTLEABLE_STATUSES = {
+  release: ['payment_sent', 'disputed'],
+  refund: ['pending', 'payment_sent', 'disputed']
+}
+
+const FINAL_STATUS = {
+  release: 'completed',
+  refund: 'refunded'
+}
+
+/**
+ * Convert a decimal token amount (NUMERIC string, or a number as PostgREST
+ * may return it) to planck with integer arithmetic only. Amounts finer than
+ * one planck are rejected rather than rounded.
+ */
+export function toPlanck (amount) {
+  const match = String(amount).trim().match(/^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i)
+  if (!match) throw new Error(`Invalid token amount: ${amount}`)
+
+  const [, whole, fraction = '', exponent = '0'] = match
+  const digits = BigInt(whole + fraction)
+  const shift = DECIMALS + Number(exponent) - fraction.length
+
+  if (shift >= 0) return digits * 10n ** BigInt(shift)
+
+  const divisor = 10n ** BigInt(-shift)
+  if (digits % divisor !== 0n) throw new Error(`Token amount has more than ${DECIMALS} decimals: ${amount}`)
+  return digits / divisor
+}
+
+/**
+ * Convert planck to a decimal string (exact, suitable for NUMERIC columns)
+ */
+export function fromPlanck (planck) {
+  const value = BigInt(planck)
+  const base = 10n ** BigInt(DECIMALS)
+  const fraction = (value % base).toString().padStart(DECIMALS, '0').replace(/0+$/, '')
+  return fraction ? `${value / base}.${fraction}` : `${value / base}`
+}
+
+const TOKENS_BY_ASSET_ID = Object.fromEntries(
+  Object.entries(ASSET_IDS).filter(([, id]) => id !== null).map(([token, id]) => [id, token])
+)
+
+// Refund claims that keep a deposit from being refunded again
+const ACTIVE_REFUND_STATUSES = ['signing', 'submitted', 'included']
+
+/**
+ * Create the escrow settlement service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {() => import('@polkadot/keyring/types').KeyringPair | null} deps.getEscrowAccount
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createEscrowService ({ supabase, getApi, getEscrowAccount, logger }) {
+  async function loadTrade (tradeId) {
+    const { data, error } = await supabase
+      .from('p2p_fiat_trades')
+      .select('*, offer:p2p_fiat_offers ( token, seller_wallet, escrow_verified_at )')
+      .eq('id', tradeId)
+      .single()
+
+    if (error) return null
+    return data
+  }
+
+  function buildTransfer (api, token, dest, amount) {
+    if (token === 'HEZ') {
+      return api.tx.balances.transferKeepAlive(dest, amount)
+    }
+    return api.tx.assets.transferKeepAlive(ASSET_IDS[token], dest, amount)
+  }
+
+  async function logAction (tradeId, action, details) {
+    await supabase.from('p2p_audit_log').insert({
+      action,
+      entity_type: 'trade',
+      entity_id: tradeId,
+      details
+    })
+  }
+
+  // ========================================
+  // ESCROW TRANSFERS
+  // ========================================
+
+  // Applied once per transfer, by whoever resolves its submission
+  const OUTCOME_HANDLERS = {
+    settle_trade: { included: completeSettlement, failed: failSettlement },
+    refund_deposit: { included: completeDepositRefund, failed: failRefund },
+    refund_offer: { included: completeOfferRefund, failed: failRefund }
+  }
+
+  /**
+   * Mark a recorded transfer resolved
+   * @returns {Promise<boolean>} false when it was already resolved elsewhere
+   */
+  async function resolveSubmission (txHash, outcome) {
+    const { data, error } = await supabase
+      .from('p2p_escrow_submissions')
+      .update({ outcome, resolved_at: new Date().toISOString() })
+      .eq('tx_hash', txHash)
+      .is('resolved_at', null)
+      .select('tx_hash')
+
+    if (error) throw error
+    return Boolean(data && data.length > 0)
+  }
+
+  async function applyOutcome (submission, outcome, result) {
+    if (!(await resolveSubmission(submission.tx_hash, outcome))) return false
+    await OUTCOME_HANDLERS[submission.kind][outcome](submission, result)
+    return true
+  }
+
+  /**
+   * Sign a transfer from the escrow account, record it and submit it
+   * @param {{ token: string, dest: string, amount: string }} transfer - amount in tokens
+   * @param {{ kind: string, entity_id: string, details: object }} submission - p2p_escrow_submissions row
+   * @param {(txHash: string) => PromiseLike<{ error: object | null }>} record - marks the entity submitted with the hash
+   * @returns {Promise<{ outcome: 'included' | 'failed' | 'unknown', txHash?: string, blockHash?: string }>}
+   *   'unknown' transfers stay submitted until reconcileSubmissions resolves them
+   */
+  async function sendTransfer (api, escrowAccount, { token, dest, amount }, submission, record) {
+    let tx
+    let txHash
+    try {
+      const fromBlock = await getFinalizedNumber(api)
+      tx = buildTransfer(api, token, dest, toPlanck(amount))
+      await tx.signAsync(escrowAccount, { nonce: -1, era: TX_MORTALITY })
+      txHash = tx.hash.toHex()
+
+      // Record before submission so a crash never leads to a second transfer
+      const { error: insertError } = await supabase
+        .from('p2p_escrow_submissions')
+        .insert({ ...submission, tx_hash: txHash, from_block: fromBlock })
+      if (insertError) throw insertError
+
+      const { error: recordError } = await record(txHash)
+      if (recordError) throw recordError
+    } catch (error) {
+      // Never broadcast, so signing a new transfer is safe
+      if (txHash) await resolveSubmission(txHash, 'failed').catch(() => {})
+      await OUTCOME_HANDLERS[submission.kind].failed({ ...submission, tx_hash: txHash }, { error: error.message })
+      return { outcome: 'failed', txHash }
+    }
+
+    const recorded = { ...submission, tx_hash: txHash }
+    let blockHash
+    try {
+      ({ blockHash } = await submit(api, tx))
+    } catch (error) {
+      if (!(error instanceof TxFailedError)) {
+        logger.warn({ err: error, kind: submission.kind, entityId: submission.entity_id, txHash }, 'Escrow transfer outcome unknown, left for reconciliation')
+        return { outcome: 'unknown', txHash }
+      }
+      await applyOutcome(recorded, 'failed', { error: error.message })
+      return { outcome: 'failed', txHash }
+    }
+
+    try {
+      await applyOutcome(recorded, 'included', { blockHash })
+    } catch (err) {
+      logger.error({ err, kind: submission.kind, entityId: submission.entity_id, txHash, blockHash }, 'Escrow transfer included but not recorded')
+    }
+    return { outcome: 'included', txHash, blockHash }
+  }
+
+  function transferResult ({ outcome, txHash, blockHash }) {
+    if (outcome === 'failed') return fail(502, 'errors.escrow.tx_failed')
+    if (outcome === 'unknown') return { ok: true, txHash, pending: true }
+    return { ok: true, txHash, blockHash }
+  }
+
+  async function completeSettlement ({ entity_id: tradeId, tx_hash: txHash, details }, { blockHash }) {
+    const { type, context = {} } = details
+    const trade = await loadTrade(tradeId)
+    if (!trade) throw new Error(`Trade ${tradeId} not found`)
+
+    const now = new Date().toISOString()
+
+    await supabase
+      .from('p2p_fiat_trades')
+      .update({
+        status: FINAL_STATUS[type],
+        escrow_settlement_status: 'included',
+        escrow_released_at: now,
+        ...(type === 'release' && { seller_confirmed_at: trade.seller_confirmed_at || now }),
+        completed_at: now
+      })
+      .eq('id', tradeId)
+
+    await supabase.rpc('decrement_escrow_balance', {
+      p_token: trade.offer.token,
+      p_amount: trade.escrow_locked_amount
+    })
+
+    if (type === 'release' && trade.status === 'payment_sent') {
+      await supabase.rpc('update_p2p_reputation', {
+        p_seller_id: trade.seller_id,
+        p_buyer_id: trade.buyer_id,
+        p_trade_id: tradeId
+      })
+    }
+
+    // A party settling a disputed trade themselves concedes the dispute
+    if (trade.status === 'disputed' && !context.dispute_id) {
+      await supabase
+        .from('p2p_fiat_disputes')
+        .update({ status: 'closed', resolved_at: now })
+        .eq('trade_id', tradeId)
+        .in('status', ['open', 'under_review', 'escalated'])
+    }
+
+    await logAction(tradeId, `escrow_${type}`, { tx_hash: txHash, block_hash: blockHash, ...context })
+
+    logger.info({ tradeId, type, txHash, blockHash }, 'Escrow settled')
+  }
+
+  async function failSettlement ({ entity_id: tradeId, tx_hash: txHash }, { error }) {
+    logger.error({ tradeId, txHash, error }, 'Escrow settlement failed')
+
+    await supabase
+      .from('p2p_fiat_trades')
+      .update({
+        escrow_settlement_status: 'failed',
+        escrow_settlement_error: error,
+        escrow_release_tx_hash: null
+      })
+      .eq('id', tradeId)
+      .in('escrow_settlement_status', ['signing', 'submitted'])
+  }
+
+  async function completeDepositRefund ({ entity_id: offerId, tx_hash: txHash, details }, { blockHash }) {
+    // Never counted in the escrow balance, so there is nothing to decrement
+    await supabase
+      .from('p2p_fiat_offers')
+      .update({
+        status: 'cancelled',
+        remaining_amount: 0,
+        escrow_refund_status: 'included',
+        escrow_refunded_at: new Date().toISOString()
+      })
+      .eq('id', offerId)
+
+    await supabase.from('p2p_audit_log').insert({
+      action: 'refund_escrow_deposit',
+      entity_type: 'offer',
+      entity_id: offerId,
+      details: { ...details, tx_hash: txHash }
+    })
+
+    logger.info({ offerId, ...details, txHash, blockHash }, 'Unverified escrow deposit refunded')
+  }
+
+  async function completeOfferRefund ({ entity_id: offerId, tx_hash: txHash, details }, { blockHash }) {
+    const { error } = await supabase.rpc('complete_p2p_offer_refund', {
+      p_offer_id: offerId,
+      p_amount: details.amount,
+      p_tx_hash: txHash
+    })
+    if (error) throw error
+
+    logger.info({ offerId, amount: details.amount, txHash, blockHash }, 'Offer escrow refunded')
+  }
+
+  async function failRefund ({ entity_id: offerId, tx_hash: txHash }, { error }) {
+    logger.error({ offerId, txHash, error }, 'Escrow refund failed')
+
+    await supabase
+      .from('p2p_fiat_offers')
+      .update({ escrow_refund_status: 'failed', escrow_refund_tx_hash: null })
+      .eq('id', offerId)
+      .in('escrow_refund_status', ['signing', 'submitted'])
+  }
+
+  /**
+   * Resolve transfers whose outcome the node never reported (dropped,
+   * usurped, timed out, connection lost) by looking them up in finalized
+   * blocks. Still-valid transfers are left for the next run.
+   */
+  async function reconcileSubmissions () {
+    const api = getApi()
+    if (!api) return []
+
+    const { data: unresolved, error } = await supabase
+      .from('p2p_escrow_submissions')
+      .select('*')
+      .is('resolved_at', null)
+      .order('created_at')
+
+    if (error) throw error
+
+    const results = []
+    for (const submission of unresolved) {
+      const found = await findExtrinsic(api, submission.tx_hash, Number(submission.from_block))
+      if (found.status === 'pending') continue
+
+      const outcome = found.status === 'included' ? 'included' : 'failed'
+      const resolved = await applyOutcome(submission, outcome, {
+        blockHash: found.blockHash,
+        error: found.status === 'expired' ? 'Transaction expired' : found.error
+      })
+      if (resolved) results.push({ txHash: submission.tx_hash, kind: submission.kind, outcome })
+    }
+
+    return results
+  }
+
+  /**
+   * Look up a deposit extrinsic in its block and list what it moved from
+   * `from` to the escrow account. The block must be finalized and canonical.
+   * @returns {Promise<{ errorKey: string } | { transfers: { token: string, amount: bigint }[] }>}
+   */
+  async function readDeposit (api, { blockHash, txHash, from, escrowAddress }) {
+    if (!(await isFinalizedBlock(api, blockHash))) {
+      return { errorKey: 'errors.escrow.deposit_not_finalized' }
+    }
+
+    const [signedBlock, apiAt] = await Promise.all([
+      api.rpc.chain.getBlock(blockHash),
+      api.at(blockHash)
+    ])
+    const index = signedBlock.block.extrinsics.findIndex((ext) => ext.hash.toHex() === txHash)
+    if (index === -1) return { errorKey: 'errors.escrow.deposit_not_found' }
+
+    const extrinsic = signedBlock.block.extrinsics[index]
+    if (!extrinsic.isSigned || !sameAddress(extrinsic.signer.toString(), from)) {
+      return { errorKey: 'errors.escrow.deposit_wrong_sender' }
+    }
+
+    const events = (await apiAt.query.system.events())
+      .filter(({ phase }) => phase.isApplyExtrinsic && phase.asApplyExtrinsic.eqn(index))
+      .map(({ event }) => event)
+
+    if (!events.some((event) => api.events.system.ExtrinsicSuccess.is(event))) {
+      return { errorKey: 'errors.escrow.deposit_failed' }
+    }
+
+    const transfers = events.flatMap((event) => {
+      if (api.events.balances.Transfer.is(event)) {
+        const [sender, dest, value] = event.data
+        return sameAddress(sender.toString(), from) && sameAddress(dest.toString(), escrowAddress)
+          ? [{ token: 'HEZ', amount: value.toBigInt() }]
+          : []
+      }
+      if (api.events.assets.Transferred.is(event)) {
+        const [assetId, sender, dest, value] = event.data
+        const token = TOKENS_BY_ASSET_ID[assetId.toNumber()]
+        return token && sameAddress(sender.toString(), from) && sameAddress(dest.toString(), escrowAddress)
+          ? [{ token, amount: value.toBigInt() }]
+          : []
+      }
+      return []
+    })
+
+    return { transfers }
+  }
+
+  /**
+   * Check that a deposit moved exactly `amount` of `token` from `from` to
+   * the escrow account
+   * @returns null when valid, otherwise an error key
+   */
+  async function checkDeposit (api, { blockHash, txHash, from, token, amount, escrowAddress }) {
+    const deposit = await readDeposit(api, { blockHash, txHash, from, escrowAddress })
+    if (deposit.errorKey) return deposit.errorKey
+
+    const transferred = deposit.transfers.some((transfer) => transfer.token === token && transfer.amount === amount)
+    return transferred ? null : 'errors.escrow.deposit_mismatch'
+  }
+
+  async function loadOffer (offerId) {
+    const { data, error } = await supabase
+      .from('p2p_fiat_offers')
+      .select('*')
+      .eq('id', offerId)
+      .single()
+
+    if (error) return null
+    return data
+  }
+
+  /**
+   * Verify an offer's escrow deposit on-chain and open the offer
+   * @param {string} offerId
+   * @returns {Promise<{ ok: true, alreadyVerified?: boolean } | { ok: false, status: number, key: string }>}
+   */
+  async function verifyOfferEscrow (offerId) {
+    const api = getApi()
+    const escrowAccount = getEscrowAccount()
+
+    if (!api || !escrowAccount) {
+      return fail(503, 'errors.escrow.signer_unavailable')
+    }
+
+    const offer = await loadOffer(offerId)
+
+    if (!offer) return fail(404, 'errors.escrow.offer_not_found')
+    if (offer.escrow_verified_at) return { ok: true, alreadyVerified: true }
+    if (offer.status !== 'pending_escrow') return fail(409, 'errors.escrow.invalid_offer_status')
+    if (!offer.escrow_tx_hash || !offer.escrow_block_hash) {
+      return fail(400, 'errors.escrow.deposit_not_found')
+    }
+
+    // The same deposit can only back one offer
+    const { count } = await supabase
+      .from('p2p_fiat_offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('escrow_tx_hash', offer.escrow_tx_hash)
+      .not('escrow_verified_at', 'is', null)
+
+    if (count > 0) return fail(409, 'errors.escrow.deposit_already_used')
+
+    // ... and a deposit being returned backs none
+    const { count: refunds } = await supabase
+      .from('p2p_fiat_offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('escrow_tx_hash', offer.escrow_tx_hash)
+      .is('escrow_verified_at', null)
+      .in('escrow_refund_status', ACTIVE_REFUND_STATUSES)
+
+    if (refunds > 0) return fail(409, 'errors.escrow.deposit_refunded')
+
+    let errorKey
+    try {
+      errorKey = await checkDeposit(api, {
+        blockHash: offer.escrow_block_hash,
+        txHash: offer.escrow_tx_hash,
+        from: offer.seller_wallet,
+        token: offer.token,
+        amount: toPlanck(offer.amount_crypto),
+        escrowAddress: escrowAccount.address
+      })
+    } catch (err) {
+      logger.error({ err, offerId }, 'Escrow deposit lookup failed')
+      errorKey = 'errors.escrow.deposit_not_found'
+    }
+
+    if (errorKey) {
+      await supabase
+        .from('p2p_fiat_offers')
+        .update({ escrow_verification_error: errorKey })
+        .eq('id', offerId)
+
+      logger.warn({ offerId, txHash: offer.escrow_tx_hash, errorKey }, 'Escrow deposit rejected')
+      return fail(422, errorKey)
+    }
+
+    const { data: opened } = await supabase
+      .from('p2p_fiat_offers')
+      .update({
+        status: 'open',
+        escrow_verified_at: new Date().toISOString(),
+        escrow_verification_error: null
+      })
+      .eq('id', offerId)
+      .eq('status', 'pending_escrow')
+      .select('id')
+
+    // Lost a race with a concurrent verification: bookkeeping already done
+    if (!opened || opened.length === 0) return { ok: true, alreadyVerified: true }
+
+    await supabase.rpc('increment_escrow_balance', {
+      p_token: offer.token,
+      p_amount: offer.amount_crypto
+    })
+
+    await supabase.from('p2p_audit_log').insert({
+      action: 'verify_escrow',
+      entity_type: 'offer',
+      entity_id: offerId,
+      details: { tx_hash: offer.escrow_tx_hash, block_hash: offer.escrow_block_hash }
+    })
+
+    logger.info({ offerId, txHash: offer.escrow_tx_hash }, 'Escrow deposit verified')
+    return { ok: true }
+  }
+
+  /**
+   * Return a deposit that never verified to the seller: one whose offer was
+   * cancelled before verification, or that does not match its offer (wrong
+   * amount or token). What the deposit extrinsic actually moved to the
+   * escrow account is returned; a pending offer whose deposit does verify
+   * must be verified instead.
+   * @param {string} offerId
+   */
+  async function refundDeposit (offerId) {
+    const api = getApi()
+    const escrowAccount = getEscrowAccount()
+
+    if (!api || !escrowAccount) {
+      return fail(503, 'errors.escrow.signer_unavailable')
+    }
+
+    const offer = await loadOffer(offerId)
+    if (!offer) return fail(404, 'errors.escrow.offer_not_found')
+    if (offer.escrow_verified_at) return fail(409, 'errors.escrow.deposit_verified')
+    if (!['pending_escrow', 'cancelled'].includes(offer.status)) {
+      return fail(409, 'errors.escrow.invalid_offer_status')
+    }
+    if (!offer.escrow_tx_hash || !offer.escrow_block_hash) {
+      return fail(400, 'errors.escrow.deposit_not_found')
+    }
+
+    const { count } = await supabase
+      .from('p2p_fiat_offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('escrow_tx_hash', offer.escrow_tx_hash)
+      .not('escrow_verified_at', 'is', null)
+
+    if (count > 0) return fail(409, 'errors.escrow.deposit_already_used')
+
+    let deposit
+    try {
+      deposit = await readDeposit(api, {
+        blockHash: offer.escrow_block_hash,
+        txHash: offer.escrow_tx_hash,
+        from: offer.seller_wallet,
+        escrowAddress: escrowAccount.address
+      })
+    } catch (err) {
+      logger.error({ err, offerId }, 'Escrow deposit lookup failed')
+      return fail(422, 'errors.escrow.deposit_not_found')
+    }
+
+    if (deposit.errorKey) return fail(422, deposit.errorKey)
+    if (deposit.transfers.length !== 1) return fail(422, 'errors.escrow.nothing_to_refund')
+
+    const [{ token, amount }] = deposit.transfers
+    if (offer.status === 'pending_escrow' && token === offer.token && amount === toPlanck(offer.amount_crypto)) {
+      return fail(409, 'errors.escrow.deposit_verifiable')
+    }
+
+    // Claim the deposit; the unique index on active refunds stops a second
+    // offer naming the same deposit from claiming it too
+    const { data: claimed, error: claimError } = await supabase
+      .from('p2p_fiat_offers')
+      .update({ escrow_refund_status: 'signing' })
+      .eq('id', offerId)
+      .in('status', ['pending_escrow', 'cancelled'])
+      .is('escrow_verified_at', null)
+      .or('escrow_refund_status.is.null,escrow_refund_status.eq.failed')
+      .select('id')
+
+    if (claimError?.code === '23505') return fail(409, 'errors.escrow.deposit_refunded')
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+      return fail(409, 'errors.escrow.nothing_to_refund')
+    }
+
+    const sent = await sendTransfer(
+      api,
+      escrowAccount,
+      { token, dest: offer.seller_wallet, amount: fromPlanck(amount) },
+      {
+        kind: 'refund_deposit',
+        entity_id: offerId,
+        details: { token, amount: fromPlanck(amount), deposit_tx_hash: offer.escrow_tx_hash }
+      },
+      (txHash) => supabase
+        .from('p2p_fiat_offers')
+        .update({ escrow_refund_tx_hash: txHash, escrow_refund_status: 'submitted' })
+        .eq('id', offerId)
+    )
+
+    return transferResult(sent)
+  }
+
+  /**
+   * Return the unsold remainder of a cancelled offer to the seller.
+   * `remaining_amount` is reduced by the refunded amount, so crypto returned
+   * to the offer later (cancelled trades) is picked up by the next refund.
+   * @param {string} offerId
+   */
+  async function refundOffer (offerId) {
+    const api = getApi()
+    const escrowAccount = getEscrowAccount()
+
+    if (!api || !escrowAccount) {
+      return fail(503, 'errors.escrow.signer_unavailable')
+    }
+
+    // Claim the offer so concurrent runs cannot double-sign
+    const { data: claimed, error: claimError } = await supabase
+      .from('p2p_fiat_offers')
+      .update({ escrow_refund_status: 'signing' })
+      .eq('id', offerId)
+      .eq('status', 'cancelled')
+      .gt('remaining_amount', 0)
+      .not('escrow_verified_at', 'is', null)
+      .or('escrow_refund_status.is.null,escrow_refund_status.in.(included,failed)')
+      .select('token, seller_wallet, remaining_amount')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+      return fail(409, 'errors.escrow.nothing_to_refund')
+    }
+
+    const { token, seller_wallet: sellerWallet, remaining_amount: amount } = claimed[0]
+
+    const sent = await sendTransfer(
+      api,
+      escrowAccount,
+      { token, dest: sellerWallet, amount },
+      { kind: 'refund_offer', entity_id: offerId, details: { amount } },
+      (txHash) => supabase
+        .from('p2p_fiat_offers')
+        .update({ escrow_refund_tx_hash: txHash, escrow_refund_status: 'submitted' })
+        .eq('id', offerId)
+    )
+
+    return transferResult(sent)
+  }
+
+  /**
+   * Compare `platform_escrow_balance.total_locked` with the escrow account's
+   * on-chain balance and record the result (discrepancy is a generated column).
+   * HEZ discrepancies include transaction fees paid by the escrow account.
+   */
+  async function reconcileBalances () {
+    const api = getApi()
+    if (!api) return []
+
+    const { data: rows, error } = await supabase
+      .from('platform_escrow_balance')
+      .select('token, total_locked, hot_wallet_address')
+
+    if (error) throw error
+
+    const results = []
+    for (const row of rows) {
+      let planck
+      if (row.token === 'HEZ') {
+        const { data } = await api.query.system.account(row.hot_wallet_address)
+        planck = data.free.toBigInt()
+      } else {
+        const account = await api.query.assets.account(ASSET_IDS[row.token], row.hot_wallet_address)
+        planck = account.isSome ? account.unwrap().balance.toBigInt() : 0n
+      }
+
+      const onChain = fromPlanck(planck)
+      await supabase
+        .from('platform_escrow_balance')
+        .update({
+          last_audit_at: new Date().toISOString(),
+          last_audit_blockchain_balance: onChain
+        })
+        .eq('token', row.token)
+
+      const discrepancy = planck - toPlanck(row.total_locked)
+      if (discrepancy < 0n) {
+        logger.error({ token: row.token, onChain, totalLocked: row.total_locked }, 'Escrow shortfall: on-chain balance below locked total')
+      } else if (discrepancy > 0n) {
+        logger.warn({ token: row.token, onChain, totalLocked: row.total_locked }, 'Escrow surplus: on-chain balance above locked total')
+      }
+
+      results.push({ token: row.token, onChain, totalLocked: row.total_locked })
+    }
+
+    return results
+  }
+
+  /**
+   * Release escrow to the buyer or refund it to the seller
+   * @param {string} tradeId
+   * @param {'release' | 'refund'} type
+   * @param {object} context - Who requested the settlement and why (audit log)
+   * @returns {Promise<{ ok: true, txHash: string, blockHash?: string, alreadySettled?: boolean, pending?: boolean } | { ok: false, status: number, key: string }>}
+   */
+  async function settleTrade (tradeId, type, context = {}) {
+    const api = getApi()
+    const escrowAccount = getEscrowAccount()
+
+    if (!api || !escrowAccount) {
+      return fail(503, 'errors.escrow.signer_unavailable')
+    }
+
+    const trade = await loadTrade(tradeId)
+    if (!trade) return fail(404, 'errors.escrow.trade_not_found')
+
+    // Idempotency: a recorded settlement is returned as-is
+    if (trade.escrow_release_tx_hash) {
+      if (trade.escrow_settlement_type !== type) {
+        return fail(409, 'errors.escrow.already_settled')
+      }
+      return {
+        ok: true,
+        txHash: trade.escrow_release_tx_hash,
+        alreadySettled: true,
+        pending: trade.escrow_settlement_status === 'submitted'
+      }
+    }
+
+    if (!SETTLEABLE_STATUSES[type].includes(trade.status)) {
+      return fail(409, 'errors.escrow.invalid_trade_status')
+    }
+
+    // Trades only ever pay out of a deposit verified on-chain
+    if (!trade.offer?.escrow_verified_at) {
+      return fail(409, 'errors.escrow.deposit_not_verified')
+    }
+
+    // Claim the trade so concurrent requests cannot double-sign
+    const { data: claimed, error: claimError } = await supabase
+      .from('p2p_fiat_trades')
+      .update({ escrow_settlement_status: 'signing', escrow_settlement_type: type })
+      .eq('id', tradeId)
+      .or('escrow_settlement_status.is.null,escrow_settlement_status.eq.failed')
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+      return fail(409, 'errors.escrow.settlement_in_progress')
+    }
+
+    // escrow_locked_amount and buyer_wallet are fixed when the trade is
+    // opened (protect_trade_escrow trigger); parties cannot change them
+    const token = trade.offer.token
+    const dest = type === 'release' ? trade.buyer_wallet : trade.offer.seller_wallet
+
+    const sent = await sendTransfer(
+      api,
+      escrowAccount,
+      { token, dest, amount: trade.escrow_locked_amount },
+      { kind: 'settle_trade', entity_id: tradeId, details: { type, context } },
+      (txHash) => supabase
+        .from('p2p_fiat_trades')
+        .update({ escrow_release_tx_hash: txHash, escrow_settlement_status: 'submitted' })
+        .eq('id', tradeId)
+    )
+
+    return transferResult(sent)
+  }
+
+  return {
+    loadTrade,
+    loadOffer,
+    settleTrade,
+    refundOffer,
+    refundDeposit,
+    verifyOfferEscrow,
+    reconcileBalances,
+    reconcileSubmissions,
+    getEscrowAddress: () => getEscrowAccount()?.address ?? null
+  }
+}
+
+/**
+ * HTTP routes for escrow settlement
+ * - release: signed by the seller once fiat payment is received
+ * - refund: signed by the buyer to abandon a trade and return funds to the seller
+ * - verify-offer: checks an offer's deposit on-chain (unauthenticated, idempotent)
+ * - refund-deposit: signed by the seller to get back a deposit that never verified
+ * - address: the escrow signer's address, which deposits must be sent to
+ */
+export function createEscrowRouter (service, { logger }) {
+  const router = express.Router()
+
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  const handle = (type, action, authorizedSigner) => async (req, res) => {
+    const { tradeId, signerAddress, signature, message } = req.body
+    if (!tradeId) {
+      return res.status(400).json({ error: { key: 'errors.request.missing_fields' } })
+    }
+
+    try {
+      const verifyError = verifySignedRequest({ address: signerAddress, message, signature, action: `${action}:${tradeId}` })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+
+      const trade = await service.loadTrade(tradeId)
+      if (!trade) {
+        return res.status(404).json({ error: { key: 'errors.escrow.trade_not_found' } })
+      }
+      if (authorizedSigner(trade) !== signerAddress) {
+        return res.status(403).json({ error: { key: 'errors.auth.not_trade_party' } })
+      }
+
+      const result = await service.settleTrade(tradeId, type, { requested_by: signerAddress })
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(200).json(result)
+    } catch (error) {
+      logger.error({ err: error, tradeId, type }, 'Error settling escrow')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  }
+
+  router.post('/release', handle('release', 'releaseEscrow', (trade) => trade.offer?.seller_wallet))
+  router.post('/refund', handle('refund', 'refundEscrow', (trade) => trade.buyer_wallet))
+
+  router.post('/verify-offer', async (req, res) => {
+    const { offerId } = req.body
+    if (!offerId) {
+      return res.status(400).json({ error: { key: 'errors.request.missing_fields' } })
+    }
+
+    try {
+      const result = await service.verifyOfferEscrow(offerId)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(200).json(result)
+    } catch (error) {
+      logger.error({ err: error, offerId }, 'Error verifying escrow deposit')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/refund-deposit', async (req, res) => {
+    const { offerId, signerAddress, signature, message } = req.body
+    if (!offerId) {
+      return res.status(400).json({ error: { key: 'errors.request.missing_fields' } })
+    }
+
+    try {
+      const verifyError = verifySignedRequest({ address: signerAddress, message, signature, action: `refundDeposit:${offerId}` })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+
+      const offer = await service.loadOffer(offerId)
+      if (!offer) {
+        return res.status(404).json({ error: { key: 'errors.escrow.offer_not_found' } })
+      }
+      if (!sameAddress(offer.seller_wallet, signerAddress)) {
+        return res.status(403).json({ error: { key: 'errors.auth.not_offer_seller' } })
+      }
+
+      const result = await service.refundDeposit(offerId)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(200).json(result)
+    } catch (error) {
+      logger.error({ err: error, offerId }, 'Error refunding escrow deposit')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.get('/address', (req, res) => {
+    const address = service.getEscrowAddress()
+    if (!address) {
+      return res.status(503).json({ error: { key: 'errors.escrow.signer_unavailable' } })
+    }
+    res.json({ address })
+  })
+
+  router.get('/trade/:tradeId', async (req, res) => {
+    try {
+      const trade = await service.loadTrade(req.params.tradeId)
+      if (!trade) {
+        return res.status(404).json({ error: { key: 'errors.escrow.trade_not_found' } })
+      }
+      res.json({
+        status: trade.status,
+        settlementType: trade.escrow_settlement_type,
+        settlementStatus: trade.escrow_settlement_status,
+        txHash: trade.escrow_release_tx_hash
+      })
+    } catch (error) {
+      logger.error({ err: error }, 'Error fetching escrow status')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,574 @@
+import express from 'express'
+import { decodeAddress, encodeAddress, isAddress } from '@polkadot/util-crypto'
+import { describeError, fail, getFinalizedNumber } from './common.js'
+
+// ========================================
+// TRANSACTION INDEXER
+// ========================================
+// Follows finalized blocks and stores every signed extrinsic with its events
+// and the transfers it caused in indexed_transactions, so wallet history no
+// longer depends on scanning recent blocks from the browser. Unsigned
+// extrinsics and block initialization/finalization events are stored too
+// when they move funds (XCM deposits and other runtime mints arrive there).
+// Addresses are stored in the chain's SS58 format. DEX swaps are also
+// written to dex_swaps for price candles (see prices.js), and liquidity
+// changes to liquidity_events for LP cost basis.
+// Backfilling from INDEXER_START_BLOCK needs an archive node (events are read
+// from block state).
+
+const DEFAULT_BATCH_SIZE = 100
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+const MAX_CSV_ROWS = 10000
+
+// Block-level events sort before and after the block's extrinsics
+const INITIALIZATION_INDEX = -1
+
+const CSV_COLUMNS = [
+  'block_time', 'block_number', 'extrinsic_index', 'hash', 'pallet', 'call',
+  'signer', 'success', 'asset', 'from', 'to', 'amount', 'fee'
+]
+
+/**
+ * Re-encode an address in the given SS58 format; other values are returned as is
+ */
+export function normalizeAddress (address, ss58Format) {
+  try {
+    return encodeAddress(decodeAddress(address), ss58Format)
+  } catch {
+    return address
+  }
+}
+
+/**
+ * Transfers described by an extrinsic's events. Native HEZ is asset 'native';
+ * mints have no sender and burns no recipient. Event data is stringified.
+ */
+export function extractTransfers (events) {
+  const transfers = []
+
+  for (const { section, method, data } of events) {
+    if (section === 'balances' && method === 'Transfer') {
+      transfers.push({ asset: 'native', from: data[0], to: data[1], amount: data[2] })
+    } else if (section === 'assets' && method === 'Transferred') {
+      transfers.push({ asset: data[0], from: data[1], to: data[2], amount: data[3] })
+    } else if (section === 'assets' && method === 'Issued') {
+      transfers.push({ asset: data[0], from: null, to: data[1], amount: data[2] })
+    } else if (section === 'assets' && method === 'Burned') {
+      transfers.push({ asset: data[0], from: data[1], to: null, amount: data[2] })
+    }
+  }
+
+  return transfers
+}
+
+/**
+ * 'native' or the asset id for an assetConversion asset kind as rendered by
+ * toString (a plain id, or { native } / { withId } for NativeOrAssetId).
+ */
+function toAssetKey (kind) {
+  if (kind !== null && typeof kind === 'object') {
+    const [variant, value] = Object.entries(kind)[0]
+    return variant.toLowerCase() === 'native' ? 'native' : toAssetKey(value)
+  }
+  return String(kind)
+}
+
+/**
+ * Swap hops described by an extrinsic's assetConversion.SwapExecuted events
+ * (who, send_to, amount_in, amount_out, path). Paths that carry per-hop
+ * balances yield one hop per pool; older runtimes only report the ends, so
+ * multi-hop swaps there are recorded as a single hop across the route.
+ */
+export function extractSwaps (events) {
+  const swaps = []
+
+  for (const { section, method, data } of events) {
+    if (section !== 'assetConversion' || method !== 'SwapExecuted') continue
+
+    const path = JSON.parse(data[4])
+    if (path.every(step => Array.isArray(step))) {
+      for (let i = 0; i < path.length - 1; i++) {
+        swaps.push({
+          who: data[0],
+          assetIn: toAssetKey(path[i][0]),
+          assetOut: toAssetKey(path[i + 1][0]),
+          amountIn: BigInt(path[i][1]).toString(),
+          amountOut: BigInt(path[i + 1][1]).toString()
+        })
+      }
+    } else {
+      swaps.push({
+        who: data[0],
+        assetIn: toAssetKey(path[0]),
+        assetOut: toAssetKey(path[path.length - 1]),
+        amountIn: data[2],
+        amountOut: data[3]
+      })
+    }
+  }
+
+  return swaps
+}
+
+/**
+ * Liquidity changes described by an extrinsic's assetConversion events.
+ * LiquidityAdded (who, mint_to, pool_id, amount1, amount2, lp_token, minted)
+ * is attributed to mint_to, which receives the LP tokens; LiquidityRemoved
+ * (who, withdraw_to, pool_id, amount1, amount2, lp_token, burned, fee) to
+ * who, whose LP tokens were burned.
+ */
+export function extractLiquidityEvents (events) {
+  const changes = []
+
+  for (const { section, method, data } of events) {
+    if (section !== 'assetConversion') continue
+    if (method !== 'LiquidityAdded' && method !== 'LiquidityRemoved') continue
+
+    const [asset1, asset2] = JSON.parse(data[2]).map(toAssetKey)
+    changes.push({
+      kind: method === 'LiquidityAdded' ? 'add' : 'remove',
+      account: method === 'LiquidityAdded' ? data[1] : data[0],
+      asset1,
+      asset2,
+      amount1: data[3],
+      amount2: data[4],
+      lpToken: data[5],
+      lpAmount: data[6]
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Validate query-string filters. Returns { ok: true, filters } or a failure.
+ */
+export function parseTransactionQuery (query) {
+  const { account, asset, pallet, from, to, cursor } = query
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit)
+
+  if (account && !isAddress(account)) return fail(400, 'errors.request.invalid_address')
+  if (asset && !/^(native|\d+)$/.test(asset)) return fail(400, 'errors.indexer.invalid_asset')
+  if (pallet && !/^[a-zA-Z]+$/.test(pallet)) return fail(400, 'errors.indexer.invalid_pallet')
+  if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+    return fail(400, 'errors.indexer.invalid_date')
+  }
+  if (cursor && !/^\d+--?\d+$/.test(cursor)) return fail(400, 'errors.indexer.invalid_cursor')
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return fail(400, 'errors.indexer.invalid_limit')
+  }
+
+  return {
+    ok: true,
+    filters: {
+      account,
+      asset,
+      pallet,
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString(),
+      cursor,
+      limit
+    }
+  }
+}
+
+function csvField (value) {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One CSV row per transfer; extrinsics without transfers get a single row.
+ * Amounts and fees are raw chain units.
+ */
+export function toCsv (transactions) {
+  const rows = [CSV_COLUMNS.join(',')]
+
+  for (const tx of transactions) {
+    const base = [tx.block_time, tx.block_number, tx.extrinsic_index, tx.hash, tx.section, tx.method, tx.signer, tx.success]
+    const transfers = tx.transfers.length > 0 ? tx.transfers : [{}]
+
+    transfers.forEach((transfer, i) => {
+      rows.push([...base, transfer.asset, transfer.from, transfer.to, transfer.amount, i === 0 ? tx.fee : '']
+        .map(csvField)
+        .join(','))
+    })
+  }
+
+  return rows.join('\n') + '\n'
+}
+
+/**
+ * Create the indexer
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {number} [deps.startBlock] - First block to index when there is no cursor yet (default: finalized head)
+ * @param {number} [deps.batchSize] - Blocks indexed per catch-up round
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createIndexerService ({ supabase, getApi, startBlock, batchSize = DEFAULT_BATCH_SIZE, logger }) {
+  let running = false
+  let pending = false
+
+  /**
+   * Accounts are stored in the chain's SS58 format; lookups may use any
+   */
+  function toChainAddress (address) {
+    const api = getApi()
+    return api ? normalizeAddress(address, api.registry.chainSS58) : address
+  }
+
+  async function getCursor () {
+    const { data, error } = await supabase
+      .from('indexer_state')
+      .select('last_block')
+      .eq('id', 'chain')
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? Number(data.last_block) : null
+  }
+
+  /**
+   * Build the rows for one block: signed extrinsics always, unsigned ones
+   * (inherents) and block initialization/finalization events only when they
+   * move funds
+   */
+  async function readBlock (api, blockNumber) {
+    const blockHash = await api.rpc.chain.getBlockHash(blockNumber)
+    const [{ block }, records] = await Promise.all([
+      api.rpc.chain.getBlock(blockHash),
+      api.query.system.events.at(blockHash)
+    ])
+
+    const timestampCall = block.extrinsics.find(ex => ex.method.section === 'timestamp' && ex.method.method === 'set')
+    const blockTime = new Date(timestampCall ? Number(timestampCall.method.args[0].toString()) : Date.now()).toISOString()
+    const ss58Format = api.registry.chainSS58
+    const normalize = (address) => address && normalizeAddress(address, ss58Format)
+
+    const toEvents = (eventRecords) => eventRecords.map(({ event }) => ({
+      section: event.section,
+      method: event.method,
+      // toString keeps u128 amounts decimal (toJSON turns large ones into hex)
+      data: event.data.map(value => value.toString())
+    }))
+
+    const toTransfers = (events) => extractTransfers(events)
+      .map(transfer => ({ ...transfer, from: normalize(transfer.from), to: normalize(transfer.to) }))
+
+    const baseRow = (id, index, transfers, signer) => ({
+      id,
+      block_number: blockNumber,
+      block_hash: blockHash.toHex(),
+      extrinsic_index: index,
+      transfers,
+      accounts: [...new Set([signer, ...transfers.flatMap(t => [t.from, t.to])].filter(Boolean))],
+      assets: [...new Set(transfers.map(t => t.asset))],
+      block_time: blockTime
+    })
+
+    const rows = []
+    const swaps = []
+    const liquidity = []
+    block.extrinsics.forEach((extrinsic, index) => {
+      const extrinsicRecords = records.filter(({ phase }) =>
+        phase.isApplyExtrinsic && phase.asApplyExtrinsic.eq(index))
+      const events = toEvents(extrinsicRecords)
+      const transfers = toTransfers(events)
+      if (!extrinsic.isSigned && transfers.length === 0) return
+
+      const failed = extrinsicRecords.find(({ event }) => api.events.system.ExtrinsicFailed.is(event))
+      const feePaid = events.find(e => e.section === 'transactionPayment' && e.method === 'TransactionFeePaid')
+      const signer = extrinsic.isSigned ? normalize(extrinsic.signer.toString()) : null
+
+      rows.push({
+        ...baseRow(`${blockNumber}-${index}`, index, transfers, signer),
+        phase: 'apply_extrinsic',
+        hash: extrinsic.hash.toHex(),
+        section: extrinsic.method.section,
+        method: extrinsic.method.method,
+        signer,
+        success: !failed,
+        error: failed ? describeError(api, failed.event.data[0]) : null,
+        fee: feePaid ? feePaid.data[1] : null,
+        args: extrinsic.method.args.map(arg => arg.toString()),
+        events
+      })
+
+      extractSwaps(events).forEach((swap, seq) => {
+        swaps.push({
+          id: `${blockNumber}-${index}-${seq}`,
+          block_number: blockNumber,
+          extrinsic_index: index,
+          seq,
+          hash: extrinsic.hash.toHex(),
+          who: swap.who,
+          asset_in: swap.assetIn,
+          asset_out: swap.assetOut,
+          amount_in: swap.amountIn,
+          amount_out: swap.amountOut,
+          block_time: blockTime
+        })
+      })
+
+      extractLiquidityEvents(events).forEach((change, seq) => {
+        liquidity.push({
+          id: `${blockNumber}-${index}-${seq}`,
+          block_number: blockNumber,
+          extrinsic_index: index,
+          seq,
+          hash: extrinsic.hash.toHex(),
+          kind: change.kind,
+          account: normalize(change.account),
+          asset1: change.asset1,
+          asset2: change.asset2,
+          amount1: change.amount1,
+          amount2: change.amount2,
+          lp_token: change.lpToken,
+          lp_amount: change.lpAmount,
+          block_time: blockTime
+        })
+      })
+    })
+
+    // Block-level rows carry the block hash and are named after their
+    // first fund-moving event
+    const blockPhases = [
+      { phase: 'initialization', suffix: 'init', index: INITIALIZATION_INDEX, is: (phase) => phase.isInitialization },
+      { phase: 'finalization', suffix: 'final', index: block.extrinsics.length, is: (phase) => phase.isFinalization }
+    ]
+    for (const { phase, suffix, index, is } of blockPhases) {
+      const events = toEvents(records.filter(record => is(record.phase)))
+      const transfers = toTransfers(events)
+      if (transfers.length === 0) continue
+
+      const first = events.find(event => extractTransfers([event]).length > 0)
+      rows.push({
+        ...baseRow(`${blockNumber}-${suffix}`, index, transfers, null),
+        phase,
+        hash: blockHash.toHex(),
+        section: first.section,
+        method: first.method,
+        signer: null,
+        success: true,
+        error: null,
+        fee: null,
+        args: [],
+        events
+      })
+    }
+
+    return { blockHash: blockHash.toHex(), rows, swaps, liquidity }
+  }
+
+  async function indexBlock (api, blockNumber) {
+    const { blockHash, rows, swaps, liquidity } = await readBlock(api, blockNumber)
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('indexed_transactions').upsert(rows, { onConflict: 'id' })
+      if (error) throw error
+    }
+    if (swaps.length > 0) {
+      const { error } = await supabase.from('dex_swaps').upsert(swaps, { onConflict: 'id' })
+      if (error) throw error
+    }
+    if (liquidity.length > 0) {
+      const { error } = await supabase.from('liquidity_events').upsert(liquidity, { onConflict: 'id' })
+      if (error) throw error
+    }
+
+    const { error } = await supabase.from('indexer_state').upsert({
+      id: 'chain',
+      last_block: blockNumber,
+      last_block_hash: blockHash,
+      updated_at: new Date().toISOString()
+    })
+    if (error) throw error
+
+    return rows.length
+  }
+
+  /**
+   * Index finalized blocks past the cursor. Calls made while a pass is
+   * running are folded into one more round instead of overlapping.
+   */
+  async function catchUp () {
+    if (running) {
+      pending = true
+      return null
+    }
+    running = true
+
+    try {
+      let indexed = 0
+      do {
+        pending = false
+        const api = getApi()
+        if (!api) return null
+
+        const finalized = await getFinalizedNumber(api)
+        const cursor = (await getCursor()) ?? (startBlock ?? finalized) - 1
+        const target = Math.min(finalized, cursor + batchSize)
+
+        for (let n = cursor + 1; n <= target; n++) {
+          indexed += await indexBlock(api, n)
+        }
+        if (target < finalized) pending = true
+      } while (pending)
+
+      return indexed
+    } finally {
+      running = false
+    }
+  }
+
+  /**
+   * Subscribe to finalized heads. Resolves to the unsubscribe function.
+   */
+  async function start () {
+    const api = getApi()
+    if (!api) throw new Error('Blockchain API not connected')
+
+    return api.rpc.chain.subscribeFinalizedHeads(() => {
+      catchUp().catch(error => logger.error({ err: error }, 'Transaction indexer failed'))
+    })
+  }
+
+  /**
+   * Newest-first page of transactions. nextCursor is null on the last page.
+   */
+  async function query ({ account, asset, pallet, from, to, cursor, limit = DEFAULT_PAGE_SIZE }) {
+    let request = supabase.from('indexed_transactions').select('*')
+
+    if (account) request = request.contains('accounts', [toChainAddress(account)])
+    if (asset) request = request.contains('assets', [asset])
+    if (pallet) request = request.eq('section', pallet)
+    if (from) request = request.gte('block_time', from)
+    if (to) request = request.lte('block_time', to)
+    if (cursor) {
+      const [, block, index] = cursor.match(/^(\d+)-(-?\d+)$/)
+      request = request.or(`block_number.lt.${block},and(block_number.eq.${block},extrinsic_index.lt.${index})`)
+    }
+
+    const { data, error } = await request
+      .order('block_number', { ascending: false })
+      .order('extrinsic_index', { ascending: false })
+      .limit(limit + 1)
+
+    if (error) throw error
+
+    const transactions = data.slice(0, limit)
+    const last = transactions[transactions.length - 1]
+    return {
+      transactions,
+      nextCursor: data.length > limit ? `${last.block_number}-${last.extrinsic_index}` : null
+    }
+  }
+
+  /**
+   * Every transaction matching the filters, capped at MAX_CSV_ROWS
+   */
+  async function queryAll (filters) {
+    const transactions = []
+    let cursor = null
+
+    do {
+      const page = await query({ ...filters, cursor, limit: MAX_PAGE_SIZE })
+      transactions.push(...page.transactions)
+      cursor = page.nextCursor
+    } while (cursor && transactions.length < MAX_CSV_ROWS)
+
+    return transactions.slice(0, MAX_CSV_ROWS)
+  }
+
+  /**
+   * An account's liquidity changes, oldest first (for cost basis)
+   */
+  async function liquidityEvents ({ account, pool }) {
+    let request = supabase.from('liquidity_events').select('*').eq('account', toChainAddress(account))
+
+    if (pool) {
+      const [asset1, asset2] = pool.split('-')
+      request = request.eq('asset1', asset1).eq('asset2', asset2)
+    }
+
+    const { data, error } = await request
+      .order('block_number', { ascending: true })
+      .order('extrinsic_index', { ascending: true })
+      .order('seq', { ascending: true })
+      .limit(MAX_CSV_ROWS)
+
+    if (error) throw error
+    return data
+  }
+
+  async function status () {
+    const api = getApi()
+    return {
+      lastBlock: await getCursor(),
+      finalizedBlock: api ? await getFinalizedNumber(api) : null
+    }
+  }
+
+  return { catchUp, start, query, queryAll, liquidityEvents, status }
+}
+
+export function createIndexerRouter (service, { logger }) {
+  const router = express.Router()
+
+  const withFilters = (label, run) => async (req, res) => {
+    const parsed = parseTransactionQuery(req.query)
+    if (!parsed.ok) {
+      return res.status(parsed.status).json({ error: { key: parsed.key } })
+    }
+
+    try {
+      await run(parsed.filters, res)
+    } catch (error) {
+      logger.error({ err: error, query: req.query }, label)
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  }
+
+  router.get('/transactions', withFilters('Error querying transactions', async (filters, res) => {
+    res.json(await service.query(filters))
+  }))
+
+  router.get('/transactions.csv', withFilters('Error exporting transactions', async (filters, res) => {
+    const transactions = await service.queryAll(filters)
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', 'attachment; filename="transactions.csv"')
+    res.send(toCsv(transactions))
+  }))
+
+  router.get('/liquidity', async (req, res) => {
+    const { account, pool } = req.query
+    if (!account || !isAddress(account)) {
+      return res.status(400).json({ error: { key: 'errors.request.invalid_address' } })
+    }
+    if (pool && !/^(native|\d+)-(native|\d+)$/.test(pool)) {
+      return res.status(400).json({ error: { key: 'errors.indexer.invalid_pool' } })
+    }
+
+    try {
+      res.json({ events: await service.liquidityEvents({ account, pool }) })
+    } catch (error) {
+      logger.error({ err: error, query: req.query }, 'Error querying liquidity events')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.get('/status', async (req, res) => {
+    try {
+      res.json(await service.status())
+    } catch (error) {
+      logger.error({ err: error }, 'Error fetching indexer status')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,276 @@
+import express from 'express'
+import { hexToU8a, u8aToHex } from '@polkadot/util'
+import { signatureVerify } from '@polkadot/util-crypto'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { fail, sameAddress } from './common.js'
+
+// ========================================
+// CITIZEN ISSUE UPDATES
+// ========================================
+// Officials handle on-chain citizen issues (welati.submitIssue) with signed
+// status changes, responses and merges. Updates are published through here
+// so the signature and the official's Tiki are checked before the row is
+// stored, and supporters are notified from the chain's vote list rather
+// than one supplied by the caller. Region tags go through here too, as only
+// the issue's on-chain submitter may set one.
+
+// Mirrors ISSUE_UPDATE_MESSAGE_PREFIX in shared/lib/issues.ts
+const ISSUE_UPDATE_MESSAGE_PREFIX = 'pezkuwi-issue-update:v1:'
+const UPDATE_MAX_AGE_MS = 10 * 60 * 1000
+const CLOCK_SKEW_MS = 60 * 1000
+const MAX_NOTE_LENGTH = 4000
+
+const KINDS = ['status', 'response', 'merge']
+const STATUSES = ['Pending', 'InProgress', 'Resolved', 'Closed']
+// Mirrors ISSUE_REGIONS in shared/lib/issues.ts
+const REGIONS = ['bakur', 'basur', 'rojava', 'rojhelat', 'diaspora', 'kurdistan_a_sor']
+
+// Tiki roles of the ministry responsible for each category; the prime
+// minister handles every category.
+// Mirrors ISSUE_CATEGORY_MINISTRIES in shared/lib/issues.ts (indices from pallet-tiki)
+const SEROK_WEZIRAN = { SerokWeziran: 36 }
+const CATEGORY_TIKIS = {
+  Governance: {},
+  Security: { WezireParez: 38 },
+  Economy: { WezireDarayiye: 37 },
+  Infrastructure: { WezireAva: 42 },
+  Education: { WezireBelaw: 40 },
+  Healthcare: { WezireTend: 41 },
+  Environment: { WezireAva: 42 },
+  Other: {}
+}
+
+const UPDATE_COLUMNS = 'id, issue_id, kind, status, merged_into, note, actor_address, issued_at, signature, block_number, block_hash, created_at'
+
+function buildIssueUpdateMessage (update) {
+  return ISSUE_UPDATE_MESSAGE_PREFIX + JSON.stringify([
+    update.issueId,
+    update.kind,
+    update.status ?? null,
+    update.mergedInto ?? null,
+    update.note,
+    update.issuedAt
+  ])
+}
+
+/**
+ * Check the shape, freshness and signature of an update. Returns an error
+ * key or null.
+ */
+export function validateIssueUpdate (update, now = Date.now()) {
+  const { issueId, kind, status, mergedInto, note, issuedAt, actorAddress, signature } = update || {}
+
+  if (!Number.isInteger(issueId) || issueId < 0 || !KINDS.includes(kind) || typeof note !== 'string' ||
+      !Number.isInteger(issuedAt) || !actorAddress || !signature) {
+    return 'errors.request.missing_fields'
+  }
+  if ((kind === 'status') !== STATUSES.includes(status) ||
+      (kind === 'merge') !== (Number.isInteger(mergedInto) && mergedInto >= 0 && mergedInto !== issueId) ||
+      (kind === 'response' && !note) || note.length > MAX_NOTE_LENGTH) {
+    return 'errors.issues.invalid_update'
+  }
+  if (issuedAt > now + CLOCK_SKEW_MS || now - issuedAt > UPDATE_MAX_AGE_MS) {
+    return 'errors.auth.signature_expired'
+  }
+
+  try {
+    if (!signatureVerify(buildIssueUpdateMessage(update), signature, actorAddress).isValid) {
+      return 'errors.auth.invalid_signature'
+    }
+  } catch {
+    return 'errors.auth.invalid_signature'
+  }
+
+  return null
+}
+
+/**
+ * Check whether an address holds a Tiki responsible for the category
+ */
+export async function hasResponsibleTiki (api, address, category) {
+  if (!api?.query?.tiki?.userTikis) return false
+
+  const tikis = await api.query.tiki.userTikis(address)
+  if (tikis.isEmpty) return false
+
+  const roles = Object.entries({ ...CATEGORY_TIKIS[category], ...SEROK_WEZIRAN })
+  // userTikis may serialise as enum indices or names depending on metadata
+  return tikis.toJSON().some((tiki) => roles.some(([name, index]) => tiki === index || tiki === name))
+}
+
+/**
+ * Create the issue update service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createIssueService ({ supabase, getApi, logger }) {
+  async function loadIssue (api, issueId) {
+    const option = await api.query.welati.issues(issueId)
+    if (option.isEmpty) return null
+    return option.unwrap().toJSON()
+  }
+
+  /**
+   * Accounts that voted in support of an issue
+   */
+  async function loadSupporters (api, issueId) {
+    const entries = await api.query.welati.issueVotes.entries()
+    return entries
+      .filter(([key, value]) => Number(key.args[1].toString()) === issueId && value.toJSON() === true)
+      .map(([key]) => key.args[0].toString())
+  }
+
+  /**
+   * Store a signed official update and notify the issue's supporters of
+   * status changes and merges
+   */
+  async function publishUpdate (update) {
+    const errorKey = validateIssueUpdate(update)
+    if (errorKey) {
+      const status = errorKey.startsWith('errors.auth.') ? 401 : 400
+      return fail(status, errorKey)
+    }
+
+    const api = getApi()
+    if (!api?.query?.welati) return fail(503, 'errors.issues.chain_unavailable')
+
+    const issue = await loadIssue(api, update.issueId)
+    if (!issue) return fail(404, 'errors.issues.not_found')
+    if (update.kind === 'merge' && !await loadIssue(api, update.mergedInto)) {
+      return fail(404, 'errors.issues.not_found')
+    }
+
+    // A signed update is stored once, whatever the case of its signature
+    // hex or the format of its actor address; a replay would otherwise undo
+    // later status changes and notify the supporters again
+    const { count, error: countError } = await supabase
+      .from('citizen_issue_updates')
+      .select('id', { count: 'exact', head: true })
+      .eq('issue_id', update.issueId)
+      .eq('issued_at', update.issuedAt)
+
+    if (countError) throw countError
+    if (count > 0) return fail(409, 'errors.issues.duplicate_update')
+
+    // Recorded with the update so clients can check the role as it was
+    // when the update was published
+    const blockHash = await api.rpc.chain.getFinalizedHead()
+    const [header, apiAt] = await Promise.all([api.rpc.chain.getHeader(blockHash), api.at(blockHash)])
+    if (!await hasResponsibleTiki(apiAt, update.actorAddress, issue.category)) {
+      return fail(403, 'errors.issues.not_responsible')
+    }
+
+    const { data, error } = await supabase
+      .from('citizen_issue_updates')
+      .insert({
+        issue_id: update.issueId,
+        kind: update.kind,
+        status: update.status ?? null,
+        merged_into: update.mergedInto ?? null,
+        note: update.note,
+        actor_address: update.actorAddress,
+        issued_at: update.issuedAt,
+        signature: u8aToHex(hexToU8a(update.signature)),
+        block_number: header.number.toNumber(),
+        block_hash: blockHash.toHex()
+      })
+      .select(UPDATE_COLUMNS)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') return fail(409, 'errors.issues.duplicate_update')
+      throw error
+    }
+
+    let notified = 0
+    if (update.kind !== 'response') {
+      try {
+        const { data: count, error: notifyError } = await supabase.rpc('notify_issue_supporters', {
+          p_update_id: data.id,
+          p_supporters: await loadSupporters(api, update.issueId)
+        })
+        if (notifyError) throw notifyError
+        notified = count ?? 0
+      } catch (notifyError) {
+        logger.error({ err: notifyError, updateId: data.id }, 'Failed to notify issue supporters')
+      }
+    }
+
+    logger.info({ issueId: update.issueId, kind: update.kind, actor: update.actorAddress, notified }, 'Issue update published')
+    return { ok: true, update: data, notified }
+  }
+
+  /**
+   * Tag an issue with its region on behalf of its on-chain submitter.
+   * The caller has already verified the submitter's signature.
+   */
+  async function setRegion (issueId, region, submitterAddress) {
+    if (!REGIONS.includes(region)) return fail(400, 'errors.issues.invalid_region')
+
+    const api = getApi()
+    if (!api?.query?.welati) return fail(503, 'errors.issues.chain_unavailable')
+
+    const issue = await loadIssue(api, issueId)
+    if (!issue) return fail(404, 'errors.issues.not_found')
+    if (!sameAddress(issue.submitter, submitterAddress)) return fail(403, 'errors.issues.not_submitter')
+
+    const { error } = await supabase
+      .from('citizen_issue_regions')
+      .insert({ issue_id: issueId, region, submitter_address: submitterAddress })
+
+    if (error) {
+      if (error.code === '23505') return fail(409, 'errors.issues.region_already_set')
+      throw error
+    }
+
+    return { ok: true, issueId, region }
+  }
+
+  return { publishUpdate, setRegion }
+}
+
+export function createIssueRouter (service, { logger }) {
+  const router = express.Router()
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  router.post('/updates', async (req, res) => {
+    try {
+      const result = await service.publishUpdate(req.body)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(201).json(result)
+    } catch (error) {
+      logger.error({ err: error }, 'Error publishing issue update')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/:id/region', async (req, res) => {
+    const { region, address, signature, message } = req.body
+    const issueId = Number(req.params.id)
+    if (!Number.isInteger(issueId) || issueId < 0) {
+      return res.status(400).json({ error: { key: 'errors.request.missing_fields' } })
+    }
+
+    try {
+      const verifyError = verifySignedRequest({ address, message, signature, action: `setIssueRegion:${issueId}:${region}` })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+
+      const result = await service.setRegion(issueId, region, address)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(201).json(result)
+    } catch (error) {
+      logger.error({ err: error, issueId }, 'Error tagging issue region')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,81 @@
+// ========================================
+// P2P EXPIRY WORKER
+// ========================================
+// Enforces P2P deadlines on a schedule:
+// - unpaid trades past payment_deadline are cancelled (crypto back to the offer)
+// - payment_sent trades past confirmation_deadline are escalated to a dispute
+// - offers past expires_at are cancelled and their escrow refunded to the seller
+
+// Refunds stuck in 'submitted' longer than this need manual review
+const STUCK_REFUND_MS = 30 * 60 * 1000
+
+/**
+ * Create the expiry worker
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {ReturnType<import('./escrow.js').createEscrowService>} deps.escrowService
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createExpiryWorker ({ supabase, escrowService, logger }) {
+  let running = false
+
+  async function refundCancelledOffers () {
+    const { data: offers, error } = await supabase
+      .from('p2p_fiat_offers')
+      .select('id')
+      .eq('status', 'cancelled')
+      .gt('remaining_amount', 0)
+      .not('escrow_verified_at', 'is', null)
+      .or('escrow_refund_status.is.null,escrow_refund_status.in.(included,failed)')
+
+    if (error) throw error
+
+    let refunded = 0
+    for (const offer of offers) {
+      const result = await escrowService.refundOffer(offer.id)
+      if (result.ok) refunded++
+    }
+    return refunded
+  }
+
+  async function reportStuckRefunds () {
+    const { data: stuck } = await supabase
+      .from('p2p_fiat_offers')
+      .select('id, escrow_refund_tx_hash')
+      .eq('escrow_refund_status', 'submitted')
+      .lt('updated_at', new Date(Date.now() - STUCK_REFUND_MS).toISOString())
+
+    for (const offer of stuck || []) {
+      logger.warn({ offerId: offer.id, txHash: offer.escrow_refund_tx_hash }, 'Offer refund stuck in submitted state')
+    }
+  }
+
+  /**
+   * Run one expiry pass. Overlapping runs are skipped.
+   */
+  async function runOnce () {
+    if (running) return null
+    running = true
+
+    try {
+      const { data: trades, error: tradesError } = await supabase.rpc('cancel_expired_trades')
+      if (tradesError) throw tradesError
+
+      const { data: expiredOffers, error: offersError } = await supabase.rpc('cancel_expired_offers')
+      if (offersError) throw offersError
+
+      const refundedOffers = await refundCancelledOffers()
+      await reportStuckRefunds()
+
+      const summary = { ...trades, expiredOffers, refundedOffers }
+      if (trades.cancelled || trades.escalated || expiredOffers || refundedOffers) {
+        logger.info(summary, 'P2P expiry pass')
+      }
+      return summary
+    } finally {
+      running = false
+    }
+  }
+
+  return { runOnce }
+}
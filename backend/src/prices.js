@@ -0,0 +1,328 @@
+import express from 'express'
+import { stringToU8a } from '@polkadot/util'
+import { blake2AsU8a } from '@polkadot/util-crypto'
+import { fail } from './common.js'
+
+// ========================================
+// PRICE ORACLE
+// ========================================
+// Spot prices are time-weighted averages of assetConversion pool prices,
+// sampled from finalized reserves into pool_price_samples. Candles come from
+// the swaps the indexer writes to dex_swaps. Everything is valued in USD
+// through wUSDT (1 wUSDT = 1 USD); fiat_rates converts USD for display.
+
+// Mirrors ASSET_IDS in shared/lib/wallet.ts
+const WHEZ_ASSET_ID = Number(process.env.WHEZ_ASSET_ID) || 0
+const WUSDT_ASSET_ID = Number(process.env.WUSDT_ASSET_ID) || 1000
+
+// Mirrors FIAT_CURRENCIES in shared/lib/prices.ts (USD is the base)
+const FIAT_CURRENCIES = ['EUR', 'TRY', 'IQD', 'IRR']
+
+const DEFAULT_TWAP_BLOCKS = 600
+const SAMPLE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const DEFAULT_DECIMALS = 12
+const MAX_CANDLES = 1000
+
+const CANDLE_INTERVALS = {
+  '1m': { sql: '1 minute', ms: 60 * 1000, span: 60 * 60 * 1000 },
+  '1h': { sql: '1 hour', ms: 60 * 60 * 1000, span: 24 * 60 * 60 * 1000 },
+  '1d': { sql: '1 day', ms: 24 * 60 * 60 * 1000, span: 30 * 24 * 60 * 60 * 1000 }
+}
+
+const POOL_PALLET_ID = stringToU8a('py/ascon')
+
+/**
+ * Time-weighted average of block-ordered price samples. Each sample counts
+ * for the blocks until the next one; the last counts until headBlock.
+ */
+export function computeTwap (samples, headBlock) {
+  let weighted = 0
+  let blocks = 0
+
+  samples.forEach((sample, i) => {
+    const until = i + 1 < samples.length ? samples[i + 1].blockNumber : headBlock
+    const weight = Math.max(until - sample.blockNumber, 1)
+    weighted += sample.price * weight
+    blocks += weight
+  })
+
+  return blocks > 0 ? weighted / blocks : null
+}
+
+/**
+ * USD price per asset from pair prices (price = asset1 in asset2), walking
+ * outwards from wUSDT so the shortest route to the dollar wins.
+ * Mirrors deriveUsdPrices in shared/lib/prices.ts.
+ */
+export function deriveUsdPrices (pairs, usdAsset = String(WUSDT_ASSET_ID)) {
+  const prices = { [usdAsset]: 1 }
+  const queue = [usdAsset]
+
+  while (queue.length > 0) {
+    const known = queue.shift()
+    for (const { asset1, asset2, price } of pairs) {
+      if (!(price > 0)) continue
+      if (asset2 === known && prices[asset1] === undefined) {
+        prices[asset1] = price * prices[known]
+        queue.push(asset1)
+      } else if (asset1 === known && prices[asset2] === undefined) {
+        prices[asset2] = prices[known] / price
+        queue.push(asset2)
+      }
+    }
+  }
+
+  return prices
+}
+
+/**
+ * Validate candle query-string parameters. Returns { ok: true, params } or a failure.
+ */
+export function parseCandleQuery (query, now = Date.now()) {
+  const { base, quote, interval = '1h' } = query
+  const candle = CANDLE_INTERVALS[interval]
+
+  if (!/^\d+$/.test(base || '') || !/^\d+$/.test(quote || '') || base === quote) {
+    return fail(400, 'errors.prices.invalid_pair')
+  }
+  if (!candle) return fail(400, 'errors.prices.invalid_interval')
+
+  const to = query.to ? Date.parse(query.to) : now
+  const from = query.from ? Date.parse(query.from) : to - candle.span
+  if (Number.isNaN(from) || Number.isNaN(to) || from >= to) return fail(400, 'errors.indexer.invalid_date')
+  if ((to - from) / candle.ms > MAX_CANDLES) return fail(400, 'errors.prices.range_too_large')
+
+  return {
+    ok: true,
+    params: { base, quote, interval, from: new Date(from).toISOString(), to: new Date(to).toISOString() }
+  }
+}
+
+/**
+ * Create the price oracle
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {string} [deps.fxRatesUrl] - Endpoint returning { rates: { EUR: 0.92, ... } } per USD
+ * @param {number} [deps.twapBlocks] - Averaging window for spot prices
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createPriceService ({ supabase, getApi, fxRatesUrl, twapBlocks = DEFAULT_TWAP_BLOCKS, logger }) {
+  const decimalsCache = new Map()
+
+  async function getDecimals (api, assetId) {
+    if (!decimalsCache.has(assetId)) {
+      const metadata = await api.query.assets.metadata(assetId)
+      // Assets without metadata fall back like KNOWN_TOKENS in shared/types/dex.ts
+      decimalsCache.set(assetId, metadata.deposit.isZero() ? DEFAULT_DECIMALS : metadata.decimals.toNumber())
+    }
+    return decimalsCache.get(assetId)
+  }
+
+  async function getFinalized (api) {
+    const hash = await api.rpc.chain.getFinalizedHead()
+    const header = await api.rpc.chain.getHeader(hash)
+    return { hash, number: header.number.toNumber() }
+  }
+
+  function poolAccount (api, asset1, asset2) {
+    const pair = api.createType('(u32, u32)', [asset1, asset2])
+    const tuple = api.createType('([u8; 8], (u32, u32))', [api.createType('[u8; 8]', POOL_PALLET_ID), pair])
+    return api.createType('AccountId32', blake2AsU8a(tuple.toU8a(), 256))
+  }
+
+  /**
+   * Record the reserves of every pool at the finalized head and prune old samples
+   */
+  async function samplePools () {
+    const api = getApi()
+    if (!api) return
+
+    const { hash, number } = await getFinalized(api)
+    const apiAt = await api.at(hash)
+    const keys = await apiAt.query.assetConversion.pools.keys()
+
+    const rows = []
+    for (const key of keys) {
+      const ids = key.args.length === 1 ? key.args[0] : key.args
+      const asset1 = Number(ids[0].toString())
+      const asset2 = Number(ids[1].toString())
+      const account = poolAccount(api, asset1, asset2)
+
+      const [reserve1, reserve2] = await Promise.all([
+        apiAt.query.assets.account(asset1, account),
+        apiAt.query.assets.account(asset2, account)
+      ])
+      if (reserve1.isNone || reserve2.isNone) continue
+
+      rows.push({
+        asset1: String(asset1),
+        asset2: String(asset2),
+        reserve1: reserve1.unwrap().balance.toString(),
+        reserve2: reserve2.unwrap().balance.toString(),
+        block_number: number
+      })
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('pool_price_samples')
+        .upsert(rows, { onConflict: 'asset1,asset2,block_number', ignoreDuplicates: true })
+      if (error) throw error
+    }
+
+    const { error } = await supabase
+      .from('pool_price_samples')
+      .delete()
+      .lt('sampled_at', new Date(Date.now() - SAMPLE_RETENTION_MS).toISOString())
+    if (error) throw error
+  }
+
+  /**
+   * Pull USD exchange rates for the display currencies
+   */
+  async function refreshFiatRates () {
+    if (!fxRatesUrl) return
+
+    const response = await fetch(fxRatesUrl)
+    if (!response.ok) throw new Error(`FX rates request failed with ${response.status}`)
+    const { rates } = await response.json()
+
+    const rows = FIAT_CURRENCIES
+      .filter(currency => Number(rates?.[currency]) > 0)
+      .map(currency => ({
+        currency,
+        per_usd: Number(rates[currency]),
+        source: new URL(fxRatesUrl).host,
+        updated_at: new Date().toISOString()
+      }))
+
+    const missing = FIAT_CURRENCIES.filter(currency => !rows.some(row => row.currency === currency))
+    if (missing.length > 0) logger.warn({ missing }, 'FX rates missing currencies')
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('fiat_rates').upsert(rows)
+      if (error) throw error
+    }
+  }
+
+  /**
+   * USD prices from the TWAP of every sampled pool, plus fiat rates.
+   * HEZ is priced as wHEZ and reported under 'native'.
+   */
+  async function getPrices () {
+    const api = getApi()
+    if (!api) throw new Error('Blockchain API not connected')
+
+    const { number: head } = await getFinalized(api)
+    const [samplesResult, ratesResult] = await Promise.all([
+      supabase
+        .from('pool_price_samples')
+        .select('asset1, asset2, reserve1, reserve2, block_number')
+        .gte('block_number', head - twapBlocks)
+        .order('block_number', { ascending: true }),
+      supabase.from('fiat_rates').select('currency, per_usd, updated_at')
+    ])
+    if (samplesResult.error) throw samplesResult.error
+    if (ratesResult.error) throw ratesResult.error
+
+    const byPair = new Map()
+    for (const row of samplesResult.data) {
+      const reserve1 = Number(row.reserve1)
+      const reserve2 = Number(row.reserve2)
+      if (reserve1 === 0 || reserve2 === 0) continue
+
+      const [decimals1, decimals2] = await Promise.all([
+        getDecimals(api, Number(row.asset1)),
+        getDecimals(api, Number(row.asset2))
+      ])
+      const key = `${row.asset1}-${row.asset2}`
+      if (!byPair.has(key)) byPair.set(key, { asset1: row.asset1, asset2: row.asset2, samples: [] })
+      byPair.get(key).samples.push({
+        blockNumber: Number(row.block_number),
+        price: (reserve2 / 10 ** decimals2) / (reserve1 / 10 ** decimals1)
+      })
+    }
+
+    const pairs = [...byPair.values()].map(({ asset1, asset2, samples }) => ({
+      asset1,
+      asset2,
+      price: computeTwap(samples, head)
+    }))
+    const prices = deriveUsdPrices(pairs)
+    if (prices[String(WHEZ_ASSET_ID)] !== undefined) prices.native = prices[String(WHEZ_ASSET_ID)]
+
+    return {
+      prices,
+      fiat: Object.fromEntries(ratesResult.data.map(row => [row.currency, Number(row.per_usd)])),
+      blockNumber: head,
+      twapBlocks,
+      updatedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * OHLC candles for base priced in quote, oldest first
+   */
+  async function getCandles ({ base, quote, interval, from, to }) {
+    const api = getApi()
+    if (!api) throw new Error('Blockchain API not connected')
+
+    const [baseDecimals, quoteDecimals] = await Promise.all([
+      getDecimals(api, Number(base)),
+      getDecimals(api, Number(quote))
+    ])
+
+    const { data, error } = await supabase.rpc('get_price_candles', {
+      p_base: base,
+      p_quote: quote,
+      p_interval: CANDLE_INTERVALS[interval].sql,
+      p_from: from,
+      p_to: to,
+      p_base_decimals: baseDecimals,
+      p_quote_decimals: quoteDecimals
+    })
+    if (error) throw error
+
+    return data.map(row => ({
+      time: new Date(row.bucket_start).toISOString(),
+      open: Number(row.open_price),
+      high: Number(row.high_price),
+      low: Number(row.low_price),
+      close: Number(row.close_price),
+      volume: Number(row.base_volume),
+      trades: Number(row.trade_count)
+    }))
+  }
+
+  return { samplePools, refreshFiatRates, getPrices, getCandles }
+}
+
+export function createPriceRouter (service, { logger }) {
+  const router = express.Router()
+
+  router.get('/', async (req, res) => {
+    try {
+      res.json(await service.getPrices())
+    } catch (error) {
+      logger.error({ err: error }, 'Error computing prices')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.get('/candles', async (req, res) => {
+    const parsed = parseCandleQuery(req.query)
+    if (!parsed.ok) {
+      return res.status(parsed.status).json({ error: { key: parsed.key } })
+    }
+
+    try {
+      res.json({ candles: await service.getCandles(parsed.params) })
+    } catch (error) {
+      logger.error({ err: error, query: req.query }, 'Error fetching candles')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
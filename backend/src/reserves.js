@@ -0,0 +1,252 @@
+import express from 'express'
+import { hexToU8a, stringToU8a, u8aConcat } from '@polkadot/util'
+import { blake2AsHex, signatureVerify } from '@polkadot/util-crypto'
+
+// ========================================
+// wUSDT PROOF OF RESERVES
+// ========================================
+// Custodians publish signed reserve attestations through here; the monitor
+// compares the verified reserve with on-chain wUSDT supply, records the
+// collateral ratio history and alerts when the peg is under-collateralized.
+// Clients re-verify everything themselves (shared/lib/proof-of-reserves.ts).
+
+// Mirrors shared/lib/proof-of-reserves.ts (scheme pezkuwi-por-v1)
+const SCHEME = 'pezkuwi-por-v1'
+const LEAF_DOMAIN = 'pezkuwi/reserve-account/v1'
+const NODE_PREFIX = new Uint8Array([1])
+const MAX_ATTESTATION_AGE_MS = 24 * 60 * 60 * 1000
+const ALERT_THRESHOLD = 100
+
+// Mirrors ASSET_IDS.WUSDT in shared/lib/wallet.ts
+const WUSDT_ASSET_ID = Number(process.env.WUSDT_ASSET_ID) || 1000
+
+// Attestations may be signed slightly ahead of our clock
+const CLOCK_SKEW_MS = 5 * 60 * 1000
+
+/**
+ * Parse "Name=address,Name2=address2" into a custodian list
+ */
+export function parseCustodians (value) {
+  if (!value) return []
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [name, address] = entry.includes('=') ? entry.split('=') : [entry, entry]
+    return { name: name.trim(), address: address.trim() }
+  })
+}
+
+function hashLeaf ({ account, amount }) {
+  return blake2AsHex(stringToU8a(JSON.stringify([LEAF_DOMAIN, account, amount])))
+}
+
+function merkleRoot (leaves) {
+  let layer = leaves
+  while (layer.length > 1) {
+    const next = []
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length
+        ? blake2AsHex(u8aConcat(NODE_PREFIX, hexToU8a(layer[i]), hexToU8a(layer[i + 1])))
+        : layer[i])
+    }
+    layer = next
+  }
+  return layer[0]
+}
+
+function attestationMessage (a) {
+  return JSON.stringify([a.scheme, a.custodian, a.timestamp, a.amount, a.accountsRoot])
+}
+
+/**
+ * Check an attestation before accepting it. Returns an error key or null.
+ */
+export function validateAttestation (attestation, custodians, now = Date.now()) {
+  const { scheme, custodian, timestamp, amount, accountsRoot, accounts, signature } = attestation || {}
+
+  if (!custodian || !signature || !accountsRoot || typeof timestamp !== 'number' || !/^\d+$/.test(amount || '')) {
+    return 'errors.request.missing_fields'
+  }
+  if (scheme !== SCHEME) return 'errors.reserves.unsupported_scheme'
+  if (!custodians.some(c => c.address === custodian)) return 'errors.reserves.untrusted_custodian'
+  if (timestamp > now + CLOCK_SKEW_MS || now - timestamp > MAX_ATTESTATION_AGE_MS) {
+    return 'errors.reserves.stale_attestation'
+  }
+
+  try {
+    if (!signatureVerify(attestationMessage(attestation), signature, custodian).isValid) {
+      return 'errors.auth.invalid_signature'
+    }
+  } catch {
+    return 'errors.auth.invalid_signature'
+  }
+
+  if (accounts) {
+    try {
+      const total = accounts.reduce((sum, a) => sum + BigInt(a.amount), 0n)
+      if (!accounts.length || total.toString() !== amount ||
+          merkleRoot(accounts.map(hashLeaf)) !== accountsRoot.toLowerCase()) {
+        return 'errors.reserves.accounts_mismatch'
+      }
+    } catch {
+      return 'errors.reserves.accounts_mismatch'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Create the proof-of-reserves service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {{ name: string, address: string }[]} deps.custodians - Trusted custodian keys
+ * @param {string} [deps.alertWebhookUrl] - POSTed to when the ratio crosses the threshold
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createReserveService ({ supabase, getApi, custodians, alertWebhookUrl, logger }) {
+  let running = false
+  let lastHealthy = null
+
+  async function publish (attestation) {
+    const errorKey = validateAttestation(attestation, custodians)
+    if (errorKey) {
+      const status = errorKey === 'errors.auth.invalid_signature' ? 401 : errorKey === 'errors.reserves.untrusted_custodian' ? 403 : 400
+      return { ok: false, status, key: errorKey }
+    }
+
+    const { data, error } = await supabase
+      .from('reserve_attestations')
+      .insert({
+        scheme: attestation.scheme,
+        custodian: attestation.custodian,
+        attested_at: attestation.timestamp,
+        amount: attestation.amount,
+        accounts_root: attestation.accountsRoot,
+        accounts: attestation.accounts || null,
+        signature: attestation.signature
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') return { ok: false, status: 409, key: 'errors.reserves.duplicate_attestation' }
+      throw error
+    }
+
+    logger.info({ custodian: attestation.custodian, amount: attestation.amount }, 'Reserve attestation published')
+    return { ok: true, id: data.id }
+  }
+
+  async function latestAttestations () {
+    const since = Date.now() - MAX_ATTESTATION_AGE_MS
+    const { data, error } = await supabase
+      .from('reserve_attestations')
+      .select('*')
+      .gte('attested_at', since)
+      .order('attested_at', { ascending: false })
+
+    if (error) throw error
+
+    // Latest one per trusted custodian; rows were validated on insert but
+    // the signature is cheap to re-check
+    const latest = new Map()
+    for (const row of data) {
+      if (latest.has(row.custodian)) continue
+      const attestation = {
+        scheme: row.scheme,
+        custodian: row.custodian,
+        timestamp: Number(row.attested_at),
+        amount: row.amount,
+        accountsRoot: row.accounts_root,
+        accounts: row.accounts || undefined,
+        signature: row.signature
+      }
+      if (!validateAttestation(attestation, custodians)) latest.set(row.custodian, row)
+    }
+    return [...latest.values()]
+  }
+
+  async function alert (snapshot) {
+    const healthy = snapshot.is_healthy
+    const level = healthy ? 'info' : 'error'
+    logger[level](snapshot, healthy ? 'wUSDT reserves recovered' : '🚨 wUSDT is under-collateralized')
+
+    if (!alertWebhookUrl) return
+    try {
+      await fetch(alertWebhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: healthy ? 'reserves.recovered' : 'reserves.undercollateralized', ...snapshot })
+      })
+    } catch (error) {
+      logger.error({ err: error }, 'Reserve alert webhook failed')
+    }
+  }
+
+  /**
+   * Record one collateral ratio snapshot. Overlapping runs are skipped.
+   */
+  async function runOnce () {
+    const api = getApi()
+    if (running || !api) return null
+    running = true
+
+    try {
+      const header = await api.rpc.chain.getHeader()
+      const apiAt = await api.at(header.hash)
+      const asset = await apiAt.query.assets.asset(WUSDT_ASSET_ID)
+      const supply = asset.isSome ? BigInt(asset.unwrap().supply.toString()) : 0n
+
+      const attestations = await latestAttestations()
+      const reserve = attestations.reduce((sum, row) => sum + BigInt(row.amount), 0n)
+
+      // Basis points keep the division in integers. With nothing minted
+      // there is nothing to back: no ratio, and healthy.
+      const ratio = supply > 0n ? Number((reserve * 1000000n) / supply) / 10000 : null
+
+      const snapshot = {
+        block_number: header.number.toNumber(),
+        block_hash: header.hash.toHex(),
+        wusdt_supply: supply.toString(),
+        verified_reserve: reserve.toString(),
+        collateral_ratio: ratio,
+        is_healthy: ratio === null || ratio >= ALERT_THRESHOLD,
+        attestation_ids: attestations.map(row => row.id)
+      }
+
+      const { error } = await supabase.from('reserve_ratio_history').insert(snapshot)
+      if (error) throw error
+
+      // Alert on every crossing, and on startup if already under-collateralized
+      const crossed = lastHealthy === null ? !snapshot.is_healthy : lastHealthy !== snapshot.is_healthy
+      if (crossed) await alert(snapshot)
+      lastHealthy = snapshot.is_healthy
+
+      return snapshot
+    } finally {
+      running = false
+    }
+  }
+
+  return { publish, runOnce }
+}
+
+export function createReserveRouter (service, { logger }) {
+  const router = express.Router()
+
+  // The attestation carries its own custodian signature, so no session is needed
+  router.post('/attestations', async (req, res) => {
+    try {
+      const result = await service.publish(req.body)
+      if (!result.ok) {
+        return res.status(result.status).json({ error: { key: result.key } })
+      }
+      res.status(201).json(result)
+    } catch (error) {
+      logger.error({ err: error }, 'Error publishing reserve attestation')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  return router
+}
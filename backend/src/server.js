@@ -6,6 +6,16 @@ import pinoHttp from 'pino-http'
 import { createClient } from '@supabase/supabase-js'
 import { ApiPromise, WsProvider, Keyring } from '@polkadot/api'
 import { cryptoWaitReady, signatureVerify } from '@polkadot/util-crypto'
+import { createEscrowService, createEscrowRouter } from './escrow.js'
+import { createDisputeService, createDisputeRouter } from './disputes.js'
+import { createExpiryWorker } from './p2p-expiry.js'
+import { createReserveService, createReserveRouter, parseCustodians } from './reserves.js'
+import { createWithdrawalService, createWithdrawalRouter } from './withdrawals.js'
+import { createIndexerService, createIndexerRouter } from './indexer.js'
+import { createPriceService, createPriceRouter } from './prices.js'
+import { createDexOrderService, createDexOrderRouter } from './dex-orders.js'
+import { createIssueService, createIssueRouter } from './issues.js'
+import { createCitizenshipService, createCitizenshipRouter } from './citizenship.js'
 
 dotenv.config()
 
@@ -34,6 +44,11 @@ if (!supabaseUrl || !supabaseKey) {
 }
 const supabase = createClient(supabaseUrl, supabaseKey)
 
+// Escrow settlement writes trade state that RLS hides from the anon key
+const supabaseAdmin = process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(supabaseUrl, process.env.SUPABASE_SERVICE_ROLE_KEY)
+  : supabase
+
 const app = express()
 app.use(cors())
 app.use(express.json())
@@ -41,6 +56,8 @@ app.use(pinoHttp({ logger }))
 
 const THRESHOLD_PERCENT = 0.6
 let sudoAccount = null
+let escrowAccount = null
+let keeperAccount = null
 let api = null
 
 // ========================================
@@ -61,6 +78,22 @@ async function initBlockchain () {
   } else {
     logger.warn('⚠️ No SUDO_SEED found - auto-approval disabled')
   }
+
+  if (process.env.ESCROW_SEED) {
+    const keyring = new Keyring({ type: 'sr25519' })
+    escrowAccount = keyring.addFromUri(process.env.ESCROW_SEED)
+    logger.info('✅ Escrow account loaded: %s', escrowAccount.address)
+  } else {
+    logger.warn('⚠️ No ESCROW_SEED found - P2P escrow settlement disabled')
+  }
+
+  if (process.env.KEEPER_SEED) {
+    const keyring = new Keyring({ type: 'sr25519' })
+    keeperAccount = keyring.addFromUri(process.env.KEEPER_SEED)
+    logger.info('✅ DEX order keeper loaded: %s', keeperAccount.address)
+  } else {
+    logger.warn('⚠️ No KEEPER_SEED found - DEX limit orders and DCA disabled')
+  }
 }
 
 // ========================================
@@ -210,6 +243,157 @@ async function checkAndExecute (userAddress) {
   }
 }
 
+// ========================================
+// P2P ESCROW SETTLEMENT
+// ========================================
+
+const escrowService = createEscrowService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  getEscrowAccount: () => escrowAccount,
+  logger
+})
+
+app.use('/api/p2p/escrow', createEscrowRouter(escrowService, { logger }))
+
+const disputeService = createDisputeService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  escrowService,
+  logger
+})
+
+app.use('/api/p2p/disputes', createDisputeRouter(disputeService, {
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  logger
+}))
+
+const expiryWorker = createExpiryWorker({ supabase: supabaseAdmin, escrowService, logger })
+
+// ========================================
+// wUSDT PROOF OF RESERVES
+// ========================================
+
+const reserveService = createReserveService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  custodians: parseCustodians(process.env.RESERVE_CUSTODIANS),
+  alertWebhookUrl: process.env.RESERVE_ALERT_WEBHOOK_URL,
+  logger
+})
+
+app.use('/api/reserves', createReserveRouter(reserveService, { logger }))
+
+// ========================================
+// wUSDT WITHDRAWAL QUEUE
+// ========================================
+
+const withdrawalService = createWithdrawalService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  extraMembers: (process.env.USDT_MULTISIG_EXTRA_MEMBERS || '').split(',').map(a => a.trim()).filter(Boolean),
+  logger
+})
+
+app.use('/api/usdt/withdrawals', createWithdrawalRouter(withdrawalService, { logger }))
+
+// ========================================
+// TRANSACTION INDEXER
+// ========================================
+
+const indexerService = createIndexerService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  startBlock: process.env.INDEXER_START_BLOCK ? Number(process.env.INDEXER_START_BLOCK) : undefined,
+  logger
+})
+
+app.use('/api/indexer', createIndexerRouter(indexerService, { logger }))
+
+// ========================================
+// PRICE ORACLE
+// ========================================
+
+const priceService = createPriceService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  fxRatesUrl: process.env.FX_RATES_URL ?? 'https://open.er-api.com/v6/latest/USD',
+  twapBlocks: Number(process.env.PRICE_TWAP_BLOCKS) || undefined,
+  logger
+})
+
+app.use('/api/prices', createPriceRouter(priceService, { logger }))
+
+// ========================================
+// DEX LIMIT ORDERS AND DCA
+// ========================================
+
+const dexOrderService = createDexOrderService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  getKeeperAccount: () => keeperAccount,
+  proxyType: process.env.KEEPER_PROXY_TYPE,
+  logger
+})
+
+app.use('/api/dex/orders', createDexOrderRouter(dexOrderService, { logger }))
+
+// ========================================
+// CITIZEN ISSUE UPDATES
+// ========================================
+
+const issueService = createIssueService({ supabase: supabaseAdmin, getApi: () => api, logger })
+
+app.use('/api/issues', createIssueRouter(issueService, { logger }))
+
+// ========================================
+// CITIZENSHIP NULLIFIERS
+// ========================================
+
+const citizenshipService = createCitizenshipService({
+  supabase: supabaseAdmin,
+  getApi: () => api,
+  nullifierKey: process.env.CITIZENSHIP_NULLIFIER_KEY,
+  logger
+})
+
+if (!process.env.CITIZENSHIP_NULLIFIER_KEY) {
+  logger.warn('⚠️ No CITIZENSHIP_NULLIFIER_KEY found - citizenship applications disabled')
+}
+
+app.use('/api/citizenship', createCitizenshipRouter(citizenshipService, { logger }))
+
+const ESCROW_RECONCILE_INTERVAL_MS = Number(process.env.ESCROW_RECONCILE_INTERVAL_MS) || 15 * 60 * 1000
+const P2P_EXPIRY_INTERVAL_MS = Number(process.env.P2P_EXPIRY_INTERVAL_MS) || 60 * 1000
+const RESERVE_MONITOR_INTERVAL_MS = Number(process.env.RESERVE_MONITOR_INTERVAL_MS) || 60 * 60 * 1000
+const PRICE_SAMPLE_INTERVAL_MS = Number(process.env.PRICE_SAMPLE_INTERVAL_MS) || 60 * 1000
+const FX_REFRESH_INTERVAL_MS = Number(process.env.FX_REFRESH_INTERVAL_MS) || 60 * 60 * 1000
+const ORDER_KEEPER_INTERVAL_MS = Number(process.env.ORDER_KEEPER_INTERVAL_MS) || 30 * 1000
+
+function scheduleJob (name, intervalMs, job) {
+  const run = () => job().catch(error => {
+    logger.error({ err: error }, `${name} failed`)
+  })
+  run()
+  setInterval(run, intervalMs).unref()
+}
+
+function startBackgroundJobs () {
+  scheduleJob('Escrow reconciliation', ESCROW_RECONCILE_INTERVAL_MS, escrowService.reconcileBalances)
+  scheduleJob('P2P expiry', P2P_EXPIRY_INTERVAL_MS, expiryWorker.runOnce)
+  scheduleJob('Escrow transfer reconciliation', P2P_EXPIRY_INTERVAL_MS, escrowService.reconcileSubmissions)
+  scheduleJob('Reserve monitor', RESERVE_MONITOR_INTERVAL_MS, reserveService.runOnce)
+  scheduleJob('wUSDT withdrawal expiry', P2P_EXPIRY_INTERVAL_MS, withdrawalService.expireStale)
+  scheduleJob('Pool price sampling', PRICE_SAMPLE_INTERVAL_MS, priceService.samplePools)
+  scheduleJob('FX rate refresh', FX_REFRESH_INTERVAL_MS, priceService.refreshFiatRates)
+  scheduleJob('DEX order keeper', ORDER_KEEPER_INTERVAL_MS, dexOrderService.runOnce)
+
+  indexerService.start().catch(error => {
+    logger.error({ err: error }, 'Transaction indexer failed to start')
+  })
+}
+
 // ========================================
 // OTHER ENDPOINTS (GETTERS)
 // ========================================
@@ -243,7 +427,9 @@ app.get('/health', async (req, res) => {
 // START & EXPORT
 // ========================================
 
-initBlockchain().catch(error => {
+initBlockchain().then(() => {
+  if (process.env.NODE_ENV !== 'test') startBackgroundJobs()
+}).catch(error => {
   logger.fatal({ err: error }, '❌ Failed to initialize blockchain')
   process.exit(1)
 })
@@ -0,0 +1,61 @@
+import { signatureVerify } from '@polkadot/util-crypto'
+import { fail } from './common.js'
+
+// ========================================
+// SIGNED REQUESTS
+// ========================================
+// Wallet-authenticated routes take a message of the form
+// `<action>:<timestamp>:<nonce>` signed by the acting wallet (built by
+// buildSignedRequestMessage in shared/utils/auth.ts). The action must match
+// the route exactly, the timestamp must be recent and each nonce is only
+// accepted once, so a captured signature cannot be replayed.
+
+const MAX_AGE_MS = 5 * 60 * 1000
+const CLOCK_SKEW_MS = 60 * 1000
+const MESSAGE_PATTERN = /^(.+):(\d{13}):([0-9a-f]{32})$/
+
+/**
+ * Create a verifier with its own nonce store
+ * @param {object} [options]
+ * @param {number} [options.maxAgeMs] - How long a signature stays usable
+ * @param {() => number} [options.now]
+ * @returns {(request: { address: string, message: string, signature: string, action: string }) => null | { ok: false, status: number, key: string }}
+ */
+export function createSignedRequestVerifier ({ maxAgeMs = MAX_AGE_MS, now = Date.now } = {}) {
+  // `${address}:${nonce}` -> time after which the nonce can be forgotten
+  const usedNonces = new Map()
+
+  return function verifySignedRequest ({ address, message, signature, action }) {
+    if (!address || !signature || typeof message !== 'string') {
+      return fail(400, 'errors.request.missing_fields')
+    }
+
+    const match = message.match(MESSAGE_PATTERN)
+    if (!match || match[1] !== action) return fail(400, 'errors.request.message_mismatch')
+
+    const current = now()
+    const timestamp = Number(match[2])
+    if (timestamp > current + CLOCK_SKEW_MS || current - timestamp > maxAgeMs) {
+      return fail(401, 'errors.auth.signature_expired')
+    }
+
+    try {
+      if (!signatureVerify(message, signature, address).isValid) {
+        return fail(401, 'errors.auth.invalid_signature')
+      }
+    } catch {
+      // Malformed address or signature
+      return fail(401, 'errors.auth.invalid_signature')
+    }
+
+    for (const [key, expiresAt] of usedNonces) {
+      if (expiresAt < current) usedNonces.delete(key)
+    }
+
+    const nonceKey = `${address}:${match[3]}`
+    if (usedNonces.has(nonceKey)) return fail(401, 'errors.auth.signature_replayed')
+    usedNonces.set(nonceKey, timestamp + maxAgeMs + CLOCK_SKEW_MS)
+
+    return null
+  }
+}
@@ -0,0 +1,415 @@
+import express from 'express'
+import { u8aToHex, stringToU8a } from '@polkadot/util'
+import { encodeMultiAddress } from '@polkadot/util-crypto'
+import { createSignedRequestVerifier } from './signed-requests.js'
+import { fail, isFinalizedBlock, sameAddress } from './common.js'
+
+// ========================================
+// wUSDT WITHDRAWAL QUEUE
+// ========================================
+// Users request a withdrawal (Supabase RPC, velocity limits enforced there),
+// then burn wUSDT in a batch tagged with the request id. This service checks
+// the burn on-chain and starts the tier delay. Once unlocked, the USDT
+// multisig approves the payout with multisig.asMulti; each approval (and
+// the re-mint behind a cancellation) is verified here against the expected
+// call hash and multisig account.
+
+const WUSDT_DECIMALS = 6
+
+// Mirrors ASSET_IDS.WUSDT in shared/lib/wallet.ts
+const WUSDT_ASSET_ID = Number(process.env.WUSDT_ASSET_ID) || 1000
+
+// Mirrors WITHDRAWAL_LIMITS in shared/lib/usdt.ts (seconds)
+const TIER_DELAYS = {
+  instant: 0,
+  standard: 3600,
+  large: 86400
+}
+
+// Mirrors USDT_MULTISIG_CONFIG in shared/lib/multisig.ts
+const MULTISIG_THRESHOLD = 3
+const UNIQUE_MEMBER_TIKIS = ['Serok', 'SerokiMeclise', 'Xezinedar']
+
+// Mirrors getWithdrawalMemo / getPayoutMemo in shared/lib/usdt-withdrawals.ts
+export const withdrawalMemo = (id) => `wusdt-withdrawal:${id}`
+export const payoutMemo = (id) => `wusdt-payout:${id}`
+
+/**
+ * Convert a decimal USDT amount to 6-decimal units without floating point drift
+ */
+export function toUnits (amount) {
+  const [whole, fraction = ''] = String(amount).split('.')
+  return BigInt(whole) * 10n ** BigInt(WUSDT_DECIMALS) +
+    BigInt(fraction.slice(0, WUSDT_DECIMALS).padEnd(WUSDT_DECIMALS, '0'))
+}
+
+/**
+ * Create the withdrawal queue service
+ * @param {object} deps
+ * @param {import('@supabase/supabase-js').SupabaseClient} deps.supabase - Service-role client
+ * @param {() => import('@polkadot/api').ApiPromise | null} deps.getApi
+ * @param {string[]} deps.extraMembers - Non-unique multisig members (Noter, Berdevk)
+ * @param {import('pino').Logger} deps.logger
+ */
+export function createWithdrawalService ({ supabase, getApi, extraMembers = [], logger }) {
+  async function loadWithdrawal (id) {
+    const { data, error } = await supabase
+      .from('wusdt_withdrawals')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) return null
+    return data
+  }
+
+  /**
+   * Current multisig signatories: unique roles from Tiki holders plus the
+   * configured non-unique members
+   */
+  async function getMembers (api) {
+    const holders = await Promise.all(
+      UNIQUE_MEMBER_TIKIS.map(async (tiki) => {
+        const holder = await api.query.tiki.tikiHolder(tiki)
+        return holder.isSome ? holder.unwrap().toString() : null
+      })
+    )
+    return [...holders.filter(Boolean), ...extraMembers]
+  }
+
+  async function isMember (address) {
+    const api = getApi()
+    if (!api) return false
+    return (await getMembers(api)).some((member) => sameAddress(member, address))
+  }
+
+  /**
+   * Load an extrinsic with the events it emitted. Block hashes come from
+   * clients, so extrinsics outside finalized canonical blocks are not found.
+   */
+  async function loadExtrinsic (api, blockHash, txHash) {
+    if (!(await isFinalizedBlock(api, blockHash))) return null
+
+    const [signedBlock, apiAt] = await Promise.all([
+      api.rpc.chain.getBlock(blockHash),
+      api.at(blockHash)
+    ])
+    const index = signedBlock.block.extrinsics.findIndex((ext) => ext.hash.toHex() === txHash)
+    if (index === -1) return null
+
+    const events = (await apiAt.query.system.events())
+      .filter(({ phase }) => phase.isApplyExtrinsic && phase.asApplyExtrinsic.eqn(index))
+      .map(({ event }) => event)
+
+    return {
+      extrinsic: signedBlock.block.extrinsics[index],
+      index,
+      height: signedBlock.block.header.number.toNumber(),
+      events,
+      success: events.some((event) => api.events.system.ExtrinsicSuccess.is(event))
+    }
+  }
+
+  /**
+   * Whether the events open, approve or execute `callHash` on the USDT multisig
+   */
+  async function findMultisigCall (api, events, callHash) {
+    const multisig = encodeMultiAddress(await getMembers(api), MULTISIG_THRESHOLD)
+    const matches = (account, hash) => sameAddress(account.toString(), multisig) && hash.toHex() === callHash
+
+    let created = false
+    let executed = false
+    for (const event of events) {
+      if (api.events.multisig.NewMultisig.is(event)) {
+        created = created || matches(event.data[1], event.data[2])
+      } else if (api.events.multisig.MultisigApproval.is(event)) {
+        created = created || matches(event.data[2], event.data[3])
+      } else if (api.events.multisig.MultisigExecuted.is(event)) {
+        executed = executed || (matches(event.data[2], event.data[3]) && event.data[4].isOk)
+      }
+    }
+    return { created, executed }
+  }
+
+  /**
+   * Verify the burn for a withdrawal and start its unlock timer.
+   * Safe to retry.
+   */
+  async function verifyBurn (id) {
+    const api = getApi()
+    if (!api) return fail(503, 'errors.withdrawals.chain_unavailable')
+
+    const withdrawal = await loadWithdrawal(id)
+    if (!withdrawal) return fail(404, 'errors.withdrawals.not_found')
+    if (withdrawal.burned_at) return { ok: true, alreadyVerified: true, withdrawal }
+    if (!['awaiting_burn', 'expired'].includes(withdrawal.status)) {
+      return fail(409, 'errors.withdrawals.invalid_status')
+    }
+    if (!withdrawal.burn_tx_hash || !withdrawal.burn_block_hash) {
+      return fail(400, 'errors.withdrawals.burn_not_found')
+    }
+
+    const found = await loadExtrinsic(api, withdrawal.burn_block_hash, withdrawal.burn_tx_hash)
+    if (!found) return fail(400, 'errors.withdrawals.burn_not_found')
+
+    const { extrinsic, events, success } = found
+    if (!extrinsic.isSigned || !sameAddress(extrinsic.signer.toString(), withdrawal.wallet_address)) {
+      return fail(400, 'errors.withdrawals.burn_wrong_sender')
+    }
+    if (!success) return fail(400, 'errors.withdrawals.burn_failed')
+
+    // The batch must carry this request's memo so one burn can't back two requests
+    const memoHex = u8aToHex(stringToU8a(withdrawalMemo(id))).slice(2)
+    if (!extrinsic.method.toHex().includes(memoHex)) {
+      return fail(400, 'errors.withdrawals.burn_memo_mismatch')
+    }
+
+    const amount = toUnits(withdrawal.amount)
+    const burned = events.some((event) => {
+      if (!api.events.assets.Burned.is(event)) return false
+      const [assetId, owner, balance] = event.data
+      return assetId.toNumber() === WUSDT_ASSET_ID &&
+        sameAddress(owner.toString(), withdrawal.wallet_address) &&
+        balance.toBigInt() === amount
+    })
+    if (!burned) return fail(400, 'errors.withdrawals.burn_mismatch')
+
+    const burnedAt = new Date()
+    const unlockAt = new Date(burnedAt.getTime() + TIER_DELAYS[withdrawal.tier] * 1000)
+
+    const { data: updated, error } = await supabase
+      .from('wusdt_withdrawals')
+      .update({
+        status: 'queued',
+        burned_at: burnedAt.toISOString(),
+        unlock_at: unlockAt.toISOString(),
+        updated_at: burnedAt.toISOString()
+      })
+      .eq('id', id)
+      .is('burned_at', null)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    logger.info({ withdrawalId: id, amount: withdrawal.amount, tier: withdrawal.tier }, 'wUSDT withdrawal burn verified')
+    return { ok: true, withdrawal: updated }
+  }
+
+  /**
+   * Burned withdrawals waiting for payout, soonest unlock first
+   */
+  async function listQueue () {
+    const { data, error } = await supabase
+      .from('wusdt_withdrawals')
+      .select('*')
+      .in('status', ['queued', 'approving', 'approved'])
+      .order('unlock_at', { ascending: true })
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Record a multisig approval (or the first asMulti) of a payout
+   */
+  async function recordApproval (id, memberAddress, { blockHash, txHash }) {
+    const api = getApi()
+    if (!api) return fail(503, 'errors.withdrawals.chain_unavailable')
+
+    const withdrawal = await loadWithdrawal(id)
+    if (!withdrawal) return fail(404, 'errors.withdrawals.not_found')
+    if (!['queued', 'approving'].includes(withdrawal.status)) {
+      return fail(409, 'errors.withdrawals.invalid_status')
+    }
+    if (new Date(withdrawal.unlock_at) > new Date()) {
+      return fail(409, 'errors.withdrawals.still_locked')
+    }
+
+    const found = await loadExtrinsic(api, blockHash, txHash)
+    if (!found) return fail(400, 'errors.withdrawals.approval_not_found')
+    if (!found.extrinsic.isSigned || !sameAddress(found.extrinsic.signer.toString(), memberAddress)) {
+      return fail(400, 'errors.withdrawals.approval_wrong_sender')
+    }
+
+    const callHash = api.tx.system.remarkWithEvent(payoutMemo(id)).method.hash.toHex()
+    const { created, executed } = await findMultisigCall(api, found.events, callHash)
+    if (!created && !executed) return fail(400, 'errors.withdrawals.approval_mismatch')
+
+    const now = new Date().toISOString()
+    const update = {
+      status: executed ? 'approved' : 'approving',
+      payout_call_hash: callHash,
+      approvals: [...new Set([...withdrawal.approvals, memberAddress])],
+      updated_at: now,
+      ...(executed && { approved_at: now }),
+      ...(!withdrawal.payout_timepoint && { payout_timepoint: { height: found.height, index: found.index } })
+    }
+
+    const { data: updated, error } = await supabase
+      .from('wusdt_withdrawals')
+      .update(update)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    logger.info({ withdrawalId: id, memberAddress, status: update.status }, 'wUSDT payout approval recorded')
+    return { ok: true, withdrawal: updated }
+  }
+
+  /**
+   * Off-chain USDT has been sent for an approved payout
+   */
+  async function markPaid (id, memberAddress, reference) {
+    if (!reference) return fail(400, 'errors.request.missing_fields')
+
+    const { data: updated, error } = await supabase
+      .from('wusdt_withdrawals')
+      .update({
+        status: 'paid',
+        payout_reference: reference,
+        paid_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'approved')
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!updated) return fail(409, 'errors.withdrawals.invalid_status')
+
+    logger.info({ withdrawalId: id, memberAddress, reference }, 'wUSDT withdrawal paid')
+    return { ok: true, withdrawal: updated }
+  }
+
+  /**
+   * Cancel a queued payout. The member re-mints the burned wUSDT to the user
+   * through the mint multisig and passes its tx as refundTxHash/refundBlockHash;
+   * the tx must open, approve or execute that exact mint on the multisig.
+   */
+  async function cancel (id, memberAddress, { reason, refundTxHash, refundBlockHash }) {
+    if (!reason || !refundTxHash || !refundBlockHash) return fail(400, 'errors.request.missing_fields')
+
+    const api = getApi()
+    if (!api) return fail(503, 'errors.withdrawals.chain_unavailable')
+
+    const withdrawal = await loadWithdrawal(id)
+    if (!withdrawal) return fail(404, 'errors.withdrawals.not_found')
+    if (!['queued', 'approving'].includes(withdrawal.status)) {
+      return fail(409, 'errors.withdrawals.invalid_status')
+    }
+
+    const found = await loadExtrinsic(api, refundBlockHash, refundTxHash)
+    if (!found) return fail(400, 'errors.withdrawals.refund_not_found')
+    if (!found.extrinsic.isSigned || !sameAddress(found.extrinsic.signer.toString(), memberAddress)) {
+      return fail(400, 'errors.withdrawals.refund_wrong_sender')
+    }
+
+    const mintHash = api.tx.assets.mint(WUSDT_ASSET_ID, withdrawal.wallet_address, toUnits(withdrawal.amount)).method.hash.toHex()
+    const { created, executed } = await findMultisigCall(api, found.events, mintHash)
+    if (!found.success || (!created && !executed)) return fail(400, 'errors.withdrawals.refund_mismatch')
+
+    // refund_tx_hash is unique, so one re-mint cannot back two cancellations
+    const { data: updated, error } = await supabase
+      .from('wusdt_withdrawals')
+      .update({
+        status: 'cancelled',
+        cancelled_by: memberAddress,
+        cancellation_reason: reason,
+        refund_tx_hash: refundTxHash,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .in('status', ['queued', 'approving'])
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!updated) return fail(409, 'errors.withdrawals.invalid_status')
+
+    logger.warn({ withdrawalId: id, memberAddress, reason, refundTxHash }, 'wUSDT withdrawal cancelled')
+    return { ok: true, withdrawal: updated }
+  }
+
+  /**
+   * Expire requests that were never burned
+   */
+  async function expireStale () {
+    const { data: expired, error } = await supabase.rpc('expire_wusdt_withdrawals')
+    if (error) throw error
+    if (expired) logger.info({ expired }, 'Expired unburned wUSDT withdrawals')
+    return expired
+  }
+
+  return { verifyBurn, listQueue, recordApproval, markPaid, cancel, expireStale, isMember }
+}
+
+export function createWithdrawalRouter (service, { logger }) {
+  const router = express.Router()
+
+  const sendResult = (res, result) => {
+    if (!result.ok) {
+      return res.status(result.status).json({ error: { key: result.key } })
+    }
+    res.status(200).json(result)
+  }
+
+  const verifySignedRequest = createSignedRequestVerifier()
+
+  // Authenticates a multisig member by wallet signature
+  const requireMember = (action) => async (req, res, next) => {
+    const { memberAddress, signature, message } = req.body
+
+    try {
+      const verifyError = verifySignedRequest({ address: memberAddress, message, signature, action: action(req) })
+      if (verifyError) {
+        return res.status(verifyError.status).json({ error: { key: verifyError.key } })
+      }
+      if (!await service.isMember(memberAddress)) {
+        return res.status(403).json({ error: { key: 'errors.auth.not_multisig_member' } })
+      }
+      next()
+    } catch (error) {
+      logger.error({ err: error }, 'Error authenticating multisig member')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  }
+
+  const handle = (label, run) => async (req, res) => {
+    try {
+      sendResult(res, await run(req))
+    } catch (error) {
+      logger.error({ err: error, withdrawalId: req.params.id }, label)
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  }
+
+  // Only checks on-chain facts, so anyone may trigger it
+  router.post('/:id/verify-burn', handle('Error verifying wUSDT burn', (req) => service.verifyBurn(req.params.id)))
+
+  router.post('/queue', requireMember(() => 'listWithdrawals'), async (req, res) => {
+    try {
+      res.json({ withdrawals: await service.listQueue() })
+    } catch (error) {
+      logger.error({ err: error }, 'Error fetching withdrawal queue')
+      res.status(500).json({ error: { key: 'errors.server.internal_error' } })
+    }
+  })
+
+  router.post('/:id/approvals', requireMember((req) => `approveWithdrawal:${req.params.id}`),
+    handle('Error recording payout approval', (req) =>
+      service.recordApproval(req.params.id, req.body.memberAddress, req.body)))
+
+  router.post('/:id/paid', requireMember((req) => `markWithdrawalPaid:${req.params.id}`),
+    handle('Error marking withdrawal paid', (req) =>
+      service.markPaid(req.params.id, req.body.memberAddress, req.body.reference)))
+
+  router.post('/:id/cancel', requireMember((req) => `cancelWithdrawal:${req.params.id}`),
+    handle('Error cancelling withdrawal', (req) =>
+      service.cancel(req.params.id, req.body.memberAddress, req.body)))
+
+  return router
+}
@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { stringToU8a, u8aToHex } from '@polkadot/util';
+import { base64Encode } from '@polkadot/util-crypto';
+import { Button } from './Button';
+import { KurdistanColors, AppColors } from '../theme/colors';
+import { usePolkadot } from '../contexts/PolkadotContext';
+import { useAuth } from '../contexts/AuthContext';
+import type { P2PFiatTrade } from '../../../shared/lib/p2p-fiat';
+import {
+  publishChatIdentity,
+  getPeerChatKey,
+  getTradeMessages,
+  decryptTradeMessage,
+  sendTradeMessage,
+  subscribeToTradeMessages,
+  markTradeMessagesRead,
+  createPartyKeyResolver,
+  fetchChatAttachment,
+  CHAT_OPEN_STATUSES,
+  type ChatIdentity,
+  type ConversationKeyResolver,
+  type P2PTradeMessage,
+} from '../../../shared/lib/p2p-chat';
+
+interface TradeChatModalProps {
+  trade: P2PFiatTrade | null;
+  onClose: () => void;
+}
+
+/**
+ * TradeChatModal Component
+ * End-to-end encrypted buyer/seller chat. The chat key is derived
+ * from the wallet seed, so history is readable on every device.
+ */
+export const TradeChatModal: React.FC<TradeChatModalProps> = ({ trade, onClose }) => {
+  const { selectedAccount, getKeyPair, getChatIdentity } = usePolkadot();
+  const { user } = useAuth();
+
+  const [identity, setIdentity] = useState<ChatIdentity | null>(null);
+  const [peerKey, setPeerKey] = useState<string | null>(null);
+  const [messages, setMessages] = useState<P2PTradeMessage[]>([]);
+  const [attachments, setAttachments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [text, setText] = useState('');
+  const resolverRef = useRef<ConversationKeyResolver | null>(null);
+
+  const isSeller = trade?.seller_id === user?.id;
+  const canWrite = !!trade && CHAT_OPEN_STATUSES.includes(trade.status);
+
+  useEffect(() => {
+    if (!trade || !selectedAccount || !user) return;
+
+    let unsubscribe: (() => void) | undefined;
+
+    const openChat = async () => {
+      setLoading(true);
+      try {
+        const chatIdentity = await getChatIdentity(selectedAccount.address);
+        const keyPair = await getKeyPair(selectedAccount.address);
+        if (!chatIdentity || !keyPair) throw new Error('Wallet seed not available');
+
+        await publishChatIdentity(chatIdentity, async (message) =>
+          u8aToHex(keyPair.sign(stringToU8a(message)))
+        );
+
+        const resolveKey = createPartyKeyResolver(chatIdentity, trade.id);
+        resolverRef.current = resolveKey;
+
+        const rows = await getTradeMessages(trade.id);
+        setMessages(rows.map((row) => decryptTradeMessage(row, resolveKey)));
+
+        // The seller's wallet is on the offer; use whichever key the seller signed
+        setPeerKey(
+          isSeller
+            ? await getPeerChatKey(trade.buyer_id, trade.buyer_wallet)
+            : await getPeerChatKey(trade.seller_id)
+        );
+        await markTradeMessagesRead(trade.id);
+        setIdentity(chatIdentity);
+
+        unsubscribe = subscribeToTradeMessages(trade.id, (row, event) => {
+          const message = decryptTradeMessage(row, resolveKey);
+          setMessages((prev) =>
+            event === 'INSERT'
+              ? prev.some((m) => m.id === message.id) ? prev : [...prev, message]
+              : prev.map((m) => (m.id === message.id ? { ...m, read_at: message.read_at } : m))
+          );
+          if (event === 'INSERT' && row.sender_id !== user.id) {
+            markTradeMessagesRead(trade.id).catch(() => {});
+          }
+        });
+      } catch (error) {
+        if (__DEV__) console.error('Trade chat error:', error);
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to open chat');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    openChat();
+
+    return () => {
+      unsubscribe?.();
+      setIdentity(null);
+      setPeerKey(null);
+      setMessages([]);
+      setAttachments({});
+      resolverRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trade?.id, selectedAccount, user]);
+
+  const handleSend = async () => {
+    if (!trade || !identity || !peerKey || !text.trim()) return;
+
+    setSending(true);
+    try {
+      const row = await sendTradeMessage({ tradeId: trade.id, identity, peerKey, text });
+      const message = decryptTradeMessage(row, resolverRef.current!);
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      setText('');
+    } catch (error) {
+      if (__DEV__) console.error('Send message error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleLoadAttachment = async (message: P2PTradeMessage) => {
+    if (!resolverRef.current || !message.attachment) return;
+
+    try {
+      const bytes = await fetchChatAttachment(message, resolverRef.current);
+      setAttachments((prev) => ({
+        ...prev,
+        [message.id]: `data:${message.attachment!.type};base64,${base64Encode(bytes)}`,
+      }));
+    } catch (error) {
+      if (__DEV__) console.error('Attachment error:', error);
+      Alert.alert('Error', 'Failed to load attachment');
+    }
+  };
+
+  const renderMessage = ({ item }: { item: P2PTradeMessage }) => {
+    const isMine = item.sender_id === user?.id;
+
+    return (
+      <View style={[styles.bubble, isMine ? styles.myBubble : styles.theirBubble]}>
+        {item.decrypted ? (
+          <>
+            {item.text && (
+              <Text style={[styles.messageText, isMine && styles.myMessageText]}>{item.text}</Text>
+            )}
+            {item.attachment && (attachments[item.id] ? (
+              <Image source={{ uri: attachments[item.id] }} style={styles.attachmentImage} />
+            ) : (
+              <TouchableOpacity onPress={() => handleLoadAttachment(item)}>
+                <Text style={[styles.attachmentLink, isMine && styles.myMessageText]}>
+                  📎 {item.attachment.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        ) : (
+          <Text style={styles.undecryptable}>Encrypted for another device</Text>
+        )}
+        <Text style={[styles.messageMeta, isMine && styles.myMessageMeta]}>
+          {new Date(item.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {isMine ? (item.read_at ? '  ✓✓' : '  ✓') : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={!!trade} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>Trade Chat</Text>
+              <Text style={styles.subtitle}>🔒 End-to-end encrypted</Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <View style={styles.loading}>
+              <ActivityIndicator size="large" color={KurdistanColors.kesk} />
+            </View>
+          ) : (
+            <FlatList
+              data={messages}
+              renderItem={renderMessage}
+              keyExtractor={(item) => item.id}
+              style={styles.list}
+              ListEmptyComponent={<Text style={styles.empty}>No messages yet</Text>}
+            />
+          )}
+
+          {canWrite && identity && (peerKey ? (
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="Type a message"
+                value={text}
+                onChangeText={setText}
+                placeholderTextColor="#999"
+                multiline
+              />
+              <Button
+                title="Send"
+                variant="primary"
+                onPress={handleSend}
+                loading={sending}
+                disabled={!text.trim()}
+              />
+            </View>
+          ) : (
+            <Text style={styles.waiting}>Waiting for the other party to open the chat</Text>
+          ))}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+    height: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: AppColors.textSecondary,
+    marginTop: 2,
+  },
+  close: {
+    fontSize: 24,
+    color: '#666',
+    fontWeight: '600',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  empty: {
+    textAlign: 'center',
+    color: AppColors.textSecondary,
+    marginTop: 40,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginVertical: 4,
+  },
+  myBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: KurdistanColors.kesk,
+  },
+  theirBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: AppColors.background,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#000',
+  },
+  myMessageText: {
+    color: '#FFFFFF',
+  },
+  attachmentLink: {
+    fontSize: 14,
+    textDecorationLine: 'underline',
+    color: '#000',
+  },
+  attachmentImage: {
+    width: 200,
+    height: 200,
+    borderRadius: 8,
+    resizeMode: 'contain',
+  },
+  undecryptable: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#999',
+  },
+  messageMeta: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'right',
+  },
+  myMessageMeta: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    maxHeight: 100,
+  },
+  waiting: {
+    textAlign: 'center',
+    color: AppColors.textSecondary,
+    paddingTop: 12,
+  },
+});
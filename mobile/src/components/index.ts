@@ -14,4 +14,5 @@ export { TokenIcon } from './TokenIcon';
 export { AddressDisplay } from './AddressDisplay';
 export { BalanceCard } from './BalanceCard';
 export { TokenSelector } from './TokenSelector';
+export { TradeChatModal } from './TradeChatModal';
 export type { Token } from './TokenSelector';
@@ -4,8 +4,9 @@ import { Keyring } from '@polkadot/keyring';
 import { KeyringPair } from '@polkadot/keyring/types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SecureStore from 'expo-secure-store';
-import { cryptoWaitReady } from '@polkadot/util-crypto';
+import { cryptoWaitReady, mnemonicToMiniSecret } from '@polkadot/util-crypto';
 import { DEFAULT_ENDPOINT } from '../../../shared/blockchain/polkadot';
+import { deriveChatIdentity, type ChatIdentity } from '../../../shared/lib/p2p-chat';
 
 interface Account {
   address: string;
@@ -26,6 +27,7 @@ interface PolkadotContextType {
   disconnectWallet: () => void;
   createWallet: (name: string, mnemonic?: string) => Promise<{ address: string; mnemonic: string }>;
   getKeyPair: (address: string) => Promise<KeyringPair | null>;
+  getChatIdentity: (address: string) => Promise<ChatIdentity | null>;
   error: string | null;
 }
 
@@ -205,6 +207,24 @@ export const PolkadotProvider: React.FC<PolkadotProviderProps> = ({
     }
   };
 
+  // P2P chat key, derived from the seed so it is the same on every device
+  const getChatIdentity = async (address: string): Promise<ChatIdentity | null> => {
+    try {
+      const seedKey = `pezkuwi_seed_${address}`;
+      const mnemonic = await SecureStore.getItemAsync(seedKey);
+
+      if (!mnemonic) {
+        if (__DEV__) console.error('No seed found for address:', address);
+        return null;
+      }
+
+      return deriveChatIdentity(address, mnemonicToMiniSecret(mnemonic), 'sr25519');
+    } catch (err) {
+      if (__DEV__) console.error('Failed to derive chat key:', err);
+      return null;
+    }
+  };
+
   // Connect wallet (load existing accounts)
   const connectWallet = async () => {
     try {
@@ -253,6 +273,7 @@ export const PolkadotProvider: React.FC<PolkadotProviderProps> = ({
     disconnectWallet,
     createWallet,
     getKeyPair,
+    getChatIdentity,
     error,
   };
 
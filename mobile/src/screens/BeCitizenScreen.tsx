@@ -14,7 +14,13 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTranslation } from 'react-i18next';
 import { usePolkadot } from '../contexts/PolkadotContext';
-import { submitKycApplication, uploadToIPFS } from '@pezkuwi/lib/citizenship-workflow';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  submitKycApplication,
+  uploadToIPFS,
+  encryptData,
+  saveLocalCitizenshipData,
+} from '@pezkuwi/lib/citizenship-workflow';
 import AppColors, { KurdistanColors } from '../theme/colors';
 
 const BeCitizenScreen: React.FC = () => {
@@ -33,6 +39,7 @@ const BeCitizenScreen: React.FC = () => {
   const [email, setEmail] = useState('');
   const [profession, setProfession] = useState('');
   const [referralCode, setReferralCode] = useState('');
+  const [dataPassphrase, setDataPassphrase] = useState('');
 
   // Existing Citizen Login State
   const [citizenId, setCitizenId] = useState('');
@@ -44,6 +51,11 @@ const BeCitizenScreen: React.FC = () => {
       return;
     }
 
+    if (dataPassphrase.length < 8) {
+      Alert.alert('Error', 'Data passphrase must be at least 8 characters');
+      return;
+    }
+
     if (!api || !selectedAccount) {
       Alert.alert('Error', 'Please connect your wallet first');
       return;
@@ -66,14 +78,18 @@ const BeCitizenScreen: React.FC = () => {
         timestamp: Date.now(),
       };
 
-      // Step 1: Upload encrypted data to IPFS
-      const ipfsCid = await uploadToIPFS(citizenshipData);
+      // Step 1: Encrypt with the applicant's passphrase and keep a local copy
+      const encryptedData = await encryptData(citizenshipData, dataPassphrase);
+      await saveLocalCitizenshipData(citizenshipData, dataPassphrase, AsyncStorage);
+
+      // Step 2: Upload encrypted data to IPFS
+      const ipfsCid = await uploadToIPFS(encryptedData);
 
       if (!ipfsCid) {
         throw new Error('Failed to upload data to IPFS');
       }
 
-      // Step 2: Submit KYC application to blockchain
+      // Step 3: Submit KYC application to blockchain
       const result = await submitKycApplication(
         api,
         selectedAccount,
@@ -100,6 +116,7 @@ const BeCitizenScreen: React.FC = () => {
                 setEmail('');
                 setProfession('');
                 setReferralCode('');
+                setDataPassphrase('');
                 setCurrentStep('choice');
               },
             },
@@ -317,6 +334,19 @@ const BeCitizenScreen: React.FC = () => {
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Data Passphrase *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Encrypts your data on this device (min. 8 characters)"
+              value={dataPassphrase}
+              onChangeText={setDataPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              placeholderTextColor="#999"
+            />
+          </View>
+
           <TouchableOpacity
             style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
             onPress={handleNewCitizenApplication}
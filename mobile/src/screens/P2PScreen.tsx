@@ -14,15 +14,18 @@ import {
   Alert,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { Card, Button, Badge } from '../components';
+import { Card, Button, Badge, TradeChatModal } from '../components';
 import { KurdistanColors, AppColors } from '../theme/colors';
 import { usePolkadot } from '../contexts/PolkadotContext';
+import { useAuth } from '../contexts/AuthContext';
 
 // Import from shared library
 import {
   getActiveOffers,
   getUserReputation,
+  getUserTrades,
   type P2PFiatOffer,
+  type P2PFiatTrade,
   type P2PReputation,
 } from '../../../shared/lib/p2p-fiat';
 
@@ -31,11 +34,12 @@ interface OfferWithReputation extends P2PFiatOffer {
   payment_method_name?: string;
 }
 
-type TabType = 'buy' | 'sell' | 'my-offers';
+type TabType = 'buy' | 'sell' | 'my-offers' | 'my-trades';
 
 const P2PScreen: React.FC = () => {
   const { t } = useTranslation();
   const { selectedAccount } = usePolkadot();
+  const { user } = useAuth();
 
   const [activeTab, setActiveTab] = useState<TabType>('buy');
   const [offers, setOffers] = useState<OfferWithReputation[]>([]);
@@ -45,6 +49,8 @@ const P2PScreen: React.FC = () => {
   const [showTradeModal, setShowTradeModal] = useState(false);
   const [selectedOffer, setSelectedOffer] = useState<OfferWithReputation | null>(null);
   const [tradeAmount, setTradeAmount] = useState('');
+  const [trades, setTrades] = useState<P2PFiatTrade[]>([]);
+  const [chatTrade, setChatTrade] = useState<P2PFiatTrade | null>(null);
 
   useEffect(() => {
     fetchOffers();
@@ -52,6 +58,14 @@ const P2PScreen: React.FC = () => {
 
   const fetchOffers = async () => {
     setLoading(true);
+
+    if (activeTab === 'my-trades') {
+      setTrades(user ? await getUserTrades(user.id) : []);
+      setLoading(false);
+      setRefreshing(false);
+      return;
+    }
+
     try {
       let offersData: P2PFiatOffer[] = [];
 
@@ -206,14 +220,48 @@ const P2PScreen: React.FC = () => {
     </Card>
   );
 
+  const renderTradeCard = ({ item }: { item: P2PFiatTrade }) => (
+    <Card style={styles.offerCard}>
+      <View style={styles.offerDetails}>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>
+            {item.seller_id === user?.id ? 'Selling' : 'Buying'}
+          </Text>
+          <Text style={styles.detailValue}>{item.crypto_amount}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Fiat</Text>
+          <Text style={[styles.detailValue, styles.totalValue]}>
+            {item.fiat_amount.toFixed(2)}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Status</Text>
+          <Text style={styles.detailValue}>{item.status.replace('_', ' ').toUpperCase()}</Text>
+        </View>
+      </View>
+
+      <Button
+        title="Chat"
+        variant="outline"
+        onPress={() => setChatTrade(item)}
+        style={styles.tradeButton}
+      />
+    </Card>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Text style={styles.emptyIcon}>📭</Text>
-      <Text style={styles.emptyTitle}>No Offers Available</Text>
+      <Text style={styles.emptyTitle}>
+        {activeTab === 'my-trades' ? 'No Trades Yet' : 'No Offers Available'}
+      </Text>
       <Text style={styles.emptyText}>
         {activeTab === 'my-offers'
           ? 'You haven\'t created any offers yet'
-          : 'No active offers at the moment'}
+          : activeTab === 'my-trades'
+            ? 'Trades you start or accept will appear here'
+            : 'No active offers at the moment'}
       </Text>
       {activeTab === 'my-offers' && (
         <Button
@@ -278,6 +326,20 @@ const P2PScreen: React.FC = () => {
             My Offers
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'my-trades' && styles.activeTab]}
+          onPress={() => setActiveTab('my-trades')}
+        >
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === 'my-trades' && styles.activeTabText,
+            ]}
+          >
+            My Trades
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Offer List */}
@@ -286,6 +348,21 @@ const P2PScreen: React.FC = () => {
           <ActivityIndicator size="large" color={KurdistanColors.kesk} />
           <Text style={styles.loadingText}>Loading offers...</Text>
         </View>
+      ) : activeTab === 'my-trades' ? (
+        <FlatList
+          data={trades}
+          renderItem={renderTradeCard}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmptyState}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={KurdistanColors.kesk}
+            />
+          }
+        />
       ) : (
         <FlatList
           data={offers}
@@ -422,6 +499,9 @@ const P2PScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Trade Chat */}
+      <TradeChatModal trade={chatTrade} onClose={() => setChatTrade(null)} />
+
       {/* Create Offer Modal */}
       <Modal
         visible={showCreateOffer}
@@ -6,6 +6,8 @@ import {
   ScrollView,
   RefreshControl,
   Alert,
+  Linking,
+  TouchableOpacity,
 } from 'react-native';
 import { usePolkadot } from '../contexts/PolkadotContext';
 import { AppColors, KurdistanColors } from '../theme/colors';
@@ -25,7 +27,14 @@ import {
   SCORE_WEIGHTS,
 } from '@pezkuwi/lib/staking';
 import { fetchUserTikis } from '@pezkuwi/lib/tiki';
-import { formatBalance } from '@pezkuwi/lib/wallet';
+import { formatBalance, getExplorerTxUrl } from '@pezkuwi/lib/wallet';
+import {
+  buildClaimPezRewardsTx,
+  formatBlocksRemaining,
+  getPezRewardsOverview,
+  withClaimTransactions,
+  type PezRewardsOverview,
+} from '@pezkuwi/lib/pez-rewards';
 
 interface StakingData {
   stakedAmount: string;
@@ -52,6 +61,8 @@ export default function StakingScreen() {
   const [stakeAmount, setStakeAmount] = useState('');
   const [unstakeAmount, setUnstakeAmount] = useState('');
   const [processing, setProcessing] = useState(false);
+  const [pezRewards, setPezRewards] = useState<PezRewardsOverview | null>(null);
+  const [claiming, setClaiming] = useState(false);
 
   useEffect(() => {
     if (isApiReady && selectedAccount) {
@@ -101,8 +112,13 @@ export default function StakingScreen() {
       // Calculate monthly reward
       const monthlyReward = calculateMonthlyPEZReward(weightedScore);
 
-      // Get total rewards (would need historical data)
-      const totalRewards = '0'; // Placeholder
+      // Claimable and claimed PEZ epoch rewards
+      const rewards = await getPezRewardsOverview(api, selectedAccount.address);
+      if (rewards) {
+        rewards.claimed = await withClaimTransactions(selectedAccount.address, rewards.claimed);
+      }
+      setPezRewards(rewards);
+      const totalRewards = rewards?.totalClaimed ?? '0';
 
       // Estimated APY (simplified calculation)
       const stakedAmountNum = parseFloat(formatBalance(stakedAmount, 12));
@@ -196,6 +212,32 @@ export default function StakingScreen() {
     }
   };
 
+  const handleClaimRewards = async () => {
+    if (!api || !selectedAccount || !pezRewards || pezRewards.claimable.length === 0) return;
+
+    try {
+      setClaiming(true);
+
+      const amount = formatBalance(pezRewards.totalClaimable, 12);
+      const tx = buildClaimPezRewardsTx(api, pezRewards.claimable.map((reward) => reward.epoch));
+      await tx.signAndSend(selectedAccount.address, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            Alert.alert('Error', 'Failed to claim PEZ rewards');
+          } else {
+            Alert.alert('Success', `Claimed ${amount} PEZ!`);
+            fetchStakingData();
+          }
+          setClaiming(false);
+        }
+      });
+    } catch (error: any) {
+      if (__DEV__) console.error('Claim error:', error);
+      Alert.alert('Error', error.message || 'Failed to claim PEZ rewards');
+      setClaiming(false);
+    }
+  };
+
   if (loading && !stakingData) {
     return (
       <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -251,6 +293,55 @@ export default function StakingScreen() {
           </Card>
         </View>
 
+        {/* PEZ Rewards Card */}
+        {pezRewards && (
+          <Card style={styles.rewardsCard}>
+            <View style={styles.scoreHeader}>
+              <Text style={styles.scoreTitle}>PEZ Rewards</Text>
+              <Badge label={`Epoch ${pezRewards.currentEpoch}`} variant="secondary" />
+            </View>
+            <Text style={styles.rewardsAmount}>
+              {formatBalance(pezRewards.totalClaimable, 12)} PEZ
+            </Text>
+            <Text style={styles.scoreNote}>
+              {pezRewards.claimable.length} epoch(s) to claim · {formatBalance(stakingData.totalRewards, 12)} PEZ claimed so far
+            </Text>
+            {pezRewards.claimable.some((reward) => reward.expiresSoon) && (
+              <Text style={styles.warningText}>
+                ⚠️ Some rewards expire in {formatBlocksRemaining(pezRewards.claimable[0].blocksRemaining)}. Unclaimed rewards are lost after the deadline.
+              </Text>
+            )}
+            {pezRewards.claimable.length > 0 && (
+              <Button
+                title={pezRewards.claimable.length > 1 ? `Claim All (${pezRewards.claimable.length})` : 'Claim'}
+                onPress={handleClaimRewards}
+                loading={claiming}
+                disabled={claiming}
+                fullWidth
+                style={{ marginTop: 12 }}
+              />
+            )}
+            {pezRewards.claimed.length > 0 && (
+              <View style={styles.claimHistory}>
+                <Text style={styles.scoreItemLabel}>Claim History</Text>
+                {pezRewards.claimed.map((claim) => (
+                  <TouchableOpacity
+                    key={claim.epoch}
+                    style={styles.scoreItem}
+                    disabled={!claim.txHash}
+                    onPress={() => claim.txHash && Linking.openURL(getExplorerTxUrl(claim.txHash))}
+                  >
+                    <Text style={styles.scoreItemLabel}>Epoch {claim.epoch}</Text>
+                    <Text style={claim.txHash ? styles.txLink : styles.scoreItemWeight}>
+                      {formatBalance(claim.amount, 12)} PEZ{claim.txHash ? ' ↗' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </Card>
+        )}
+
         {/* Score Card */}
         <Card style={styles.scoreCard}>
           <View style={styles.scoreHeader}>
@@ -483,6 +574,22 @@ const styles = StyleSheet.create({
     color: AppColors.textSecondary,
     fontStyle: 'italic',
   },
+  rewardsCard: {
+    marginBottom: 16,
+  },
+  rewardsAmount: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: KurdistanColors.kesk,
+    marginBottom: 4,
+  },
+  claimHistory: {
+    marginTop: 16,
+  },
+  txLink: {
+    fontSize: 14,
+    color: KurdistanColors.kesk,
+  },
   unbondingCard: {
     marginBottom: 16,
     backgroundColor: `${KurdistanColors.zer}10`,
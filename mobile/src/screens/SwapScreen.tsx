@@ -21,10 +21,17 @@ import { KurdistanColors, AppColors } from '../theme/colors';
 import {
   formatTokenBalance,
   parseTokenInput,
-  calculatePriceImpact,
-  getAmountOut,
-  calculateMinAmount,
+  fetchPools,
+  computeBestSwapRoute,
+  buildSwapCalls,
+  calculateRouteFee,
+  fetchUserLPPositions,
+  getTokenSymbol,
+  getTokenDecimals,
 } from '../../../shared/utils/dex';
+import { getLiquidityEvents } from '../../../shared/lib/transaction-history';
+import { getTokenPrices } from '../../../shared/lib/prices';
+import type { PoolInfo, SwapQuote, UserLiquidityPosition } from '../../../shared/types/dex';
 
 interface SwapState {
   fromToken: Token | null;
@@ -59,13 +66,11 @@ const SwapScreen: React.FC = () => {
   });
 
   const [balances, setBalances] = useState<{ [key: string]: string }>({});
-  const [poolReserves, setPoolReserves] = useState<{
-    reserve1: string;
-    reserve2: string;
-  } | null>(null);
-  const [priceImpact, setPriceImpact] = useState<string>('0');
+  const [pools, setPools] = useState<PoolInfo[]>([]);
+  const [quote, setQuote] = useState<SwapQuote | null>(null);
   const [settingsModalVisible, setSettingsModalVisible] = useState(false);
   const [tempSlippage, setTempSlippage] = useState('1');
+  const [lpPositions, setLpPositions] = useState<UserLiquidityPosition[]>([]);
 
   // Fetch user balances for all tokens
   const fetchBalances = useCallback(async () => {
@@ -110,71 +115,32 @@ const SwapScreen: React.FC = () => {
     }
   }, [api, isApiReady, selectedAccount]);
 
-  // Fetch pool reserves
-  const fetchPoolReserves = useCallback(async () => {
-    if (
-      !api ||
-      !isApiReady ||
-      !state.fromToken ||
-      !state.toToken ||
-      state.fromToken.assetId === undefined ||
-      state.toToken.assetId === undefined
-    ) {
-      return;
-    }
+  // Fetch all pools for the swap router
+  const fetchRouterPools = useCallback(async () => {
+    if (!api || !isApiReady) return;
 
     try {
       setState((prev) => ({ ...prev, loading: true }));
-
-      // Get pool account
-      const poolAccount = await api.query.assetConversion.pools([
-        state.fromToken.assetId,
-        state.toToken.assetId,
-      ]);
-
-      if (poolAccount.isNone) {
-        Alert.alert('Pool Not Found', 'No liquidity pool exists for this pair.');
-        setPoolReserves(null);
-        setState((prev) => ({ ...prev, loading: false }));
-        return;
-      }
-
-      // Get reserves
-      const reserve1Data = await api.query.assets.account(
-        state.fromToken.assetId,
-        poolAccount.unwrap()
-      );
-      const reserve2Data = await api.query.assets.account(
-        state.toToken.assetId,
-        poolAccount.unwrap()
-      );
-
-      const reserve1 = reserve1Data.isSome
-        ? reserve1Data.unwrap().balance.toString()
-        : '0';
-      const reserve2 = reserve2Data.isSome
-        ? reserve2Data.unwrap().balance.toString()
-        : '0';
-
-      setPoolReserves({ reserve1, reserve2 });
-      setState((prev) => ({ ...prev, loading: false }));
+      setPools(await fetchPools(api));
     } catch (error) {
-      if (__DEV__) console.error('Failed to fetch pool reserves:', error);
+      if (__DEV__) console.error('Failed to fetch pools:', error);
       Alert.alert('Error', 'Failed to fetch pool information.');
+    } finally {
       setState((prev) => ({ ...prev, loading: false }));
     }
-  }, [api, isApiReady, state.fromToken, state.toToken]);
+  }, [api, isApiReady]);
 
-  // Calculate output amount when input changes
+  // Route the input amount when it, the tokens or the slippage change
   useEffect(() => {
     if (
       !state.fromAmount ||
       !state.fromToken ||
       !state.toToken ||
-      !poolReserves
+      state.fromToken.assetId === undefined ||
+      state.toToken.assetId === undefined
     ) {
       setState((prev) => ({ ...prev, toAmount: '' }));
-      setPriceImpact('0');
+      setQuote(null);
       return;
     }
 
@@ -186,50 +152,73 @@ const SwapScreen: React.FC = () => {
 
       if (fromAmountRaw === '0') {
         setState((prev) => ({ ...prev, toAmount: '' }));
-        setPriceImpact('0');
+        setQuote(null);
         return;
       }
 
-      // Calculate output amount
-      const toAmountRaw = getAmountOut(
+      const bestQuote = computeBestSwapRoute(
+        pools,
+        state.fromToken.assetId,
+        state.toToken.assetId,
         fromAmountRaw,
-        poolReserves.reserve1,
-        poolReserves.reserve2,
-        30 // 0.3% fee
+        state.slippage,
+        { maxSplits: 3 }
       );
 
+      if (bestQuote.legs.length === 0) {
+        setState((prev) => ({ ...prev, toAmount: '' }));
+        setQuote(null);
+        return;
+      }
+
       const toAmountFormatted = formatTokenBalance(
-        toAmountRaw,
+        bestQuote.amountOut,
         state.toToken.decimals,
         6
       );
 
-      // Calculate price impact
-      const impact = calculatePriceImpact(
-        poolReserves.reserve1,
-        poolReserves.reserve2,
-        fromAmountRaw
-      );
-
       setState((prev) => ({ ...prev, toAmount: toAmountFormatted }));
-      setPriceImpact(impact);
+      setQuote(bestQuote);
     } catch (error) {
       if (__DEV__) console.error('Calculation error:', error);
       setState((prev) => ({ ...prev, toAmount: '' }));
+      setQuote(null);
     }
-  }, [state.fromAmount, state.fromToken, state.toToken, poolReserves]);
+  }, [state.fromAmount, state.fromToken, state.toToken, state.slippage, pools]);
 
   // Load balances on mount
   useEffect(() => {
     fetchBalances();
   }, [fetchBalances]);
 
-  // Load pool reserves when tokens change
+  // Load pools once the API is ready
   useEffect(() => {
-    if (state.fromToken && state.toToken) {
-      fetchPoolReserves();
+    fetchRouterPools();
+  }, [fetchRouterPools]);
+
+  // LP positions with fees and impermanent loss (needs the indexer and price oracle)
+  const fetchLpPositions = useCallback(async () => {
+    if (!api || !isApiReady || !selectedAccount) return;
+
+    try {
+      const [liquidityEvents, tokenPrices] = await Promise.all([
+        getLiquidityEvents(selectedAccount.address).catch(() => undefined),
+        getTokenPrices().catch(() => undefined),
+      ]);
+      setLpPositions(
+        await fetchUserLPPositions(api, selectedAccount.address, {
+          liquidityEvents,
+          prices: tokenPrices?.prices,
+        })
+      );
+    } catch (error) {
+      if (__DEV__) console.error('Failed to fetch LP positions:', error);
     }
-  }, [state.fromToken, state.toToken, fetchPoolReserves]);
+  }, [api, isApiReady, selectedAccount]);
+
+  useEffect(() => {
+    fetchLpPositions();
+  }, [fetchLpPositions]);
 
   // Handle token selection
   const handleFromTokenSelect = (token: Token) => {
@@ -293,8 +282,7 @@ const SwapScreen: React.FC = () => {
       !state.toToken ||
       !state.fromAmount ||
       !state.toAmount ||
-      state.fromToken.assetId === undefined ||
-      state.toToken.assetId === undefined
+      !quote
     ) {
       Alert.alert('Error', 'Please fill in all fields.');
       return;
@@ -309,40 +297,18 @@ const SwapScreen: React.FC = () => {
         throw new Error('Failed to load keypair');
       }
 
-      // Parse amounts
-      const amountIn = parseTokenInput(
-        state.fromAmount,
-        state.fromToken.decimals
-      );
-      const amountOutExpected = parseTokenInput(
-        state.toAmount,
-        state.toToken.decimals
-      );
-      const amountOutMin = calculateMinAmount(
-        amountOutExpected,
-        state.slippage
-      );
-
-      // Create swap path
-      const path = [state.fromToken.assetId, state.toToken.assetId];
-
       if (__DEV__) {
         console.log('Swap params:', {
-          path,
-          amountIn,
-          amountOutMin,
+          route: quote.route,
+          amountIn: quote.amountIn,
+          amountOutMin: quote.minimumReceived,
           slippage: state.slippage,
         });
       }
 
-      // Create transaction
-      const tx = api.tx.assetConversion.swapTokensForExactTokens(
-        path,
-        amountOutMin,
-        amountIn,
-        selectedAccount.address,
-        false // keep_alive
-      );
+      // One swap per route leg, batched so a split route is atomic
+      const calls = buildSwapCalls(api, quote, selectedAccount.address, false);
+      const tx = calls.length === 1 ? calls[0] : api.tx.utility.batchAll(calls);
 
       // Sign and send
       await new Promise<void>((resolve, reject) => {
@@ -393,8 +359,9 @@ const SwapScreen: React.FC = () => {
                 toAmount: '',
                 swapping: false,
               }));
-              // Refresh balances
+              // Refresh balances and pool reserves
               fetchBalances();
+              fetchRouterPools();
             },
           },
         ]
@@ -439,6 +406,8 @@ const SwapScreen: React.FC = () => {
     parseFloat(state.fromAmount) > 0 &&
     selectedAccount;
 
+  const priceImpact = quote?.priceImpact ?? '0';
+
   const impactLevel =
     parseFloat(priceImpact) < 1
       ? 'low'
@@ -570,38 +539,30 @@ const SwapScreen: React.FC = () => {
               <Text style={styles.detailValue}>{state.slippage}%</Text>
             </View>
 
-            <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Minimum Received</Text>
-              <Text style={styles.detailValue}>
-                {formatTokenBalance(
-                  calculateMinAmount(
-                    parseTokenInput(state.toAmount, state.toToken.decimals),
-                    state.slippage
-                  ),
-                  state.toToken.decimals,
-                  6
-                )}{' '}
-                {state.toToken.symbol}
-              </Text>
-            </View>
+            {quote && (
+              <>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Route</Text>
+                  <Text style={[styles.detailValue, styles.routeValue]}>{quote.route}</Text>
+                </View>
+
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Minimum Received</Text>
+                  <Text style={styles.detailValue}>
+                    {formatTokenBalance(quote.minimumReceived, state.toToken.decimals, 6)}{' '}
+                    {state.toToken.symbol}
+                  </Text>
+                </View>
 
-            <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Fee (0.3%)</Text>
-              <Text style={styles.detailValue}>
-                {formatTokenBalance(
-                  (
-                    BigInt(
-                      parseTokenInput(state.fromAmount, state.fromToken.decimals)
-                    ) *
-                    BigInt(30) /
-                    BigInt(10000)
-                  ).toString(),
-                  state.fromToken.decimals,
-                  6
-                )}{' '}
-                {state.fromToken.symbol}
-              </Text>
-            </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>LP Fee</Text>
+                  <Text style={styles.detailValue}>
+                    {formatTokenBalance(calculateRouteFee(pools, quote), state.fromToken.decimals, 6)}{' '}
+                    {state.fromToken.symbol}
+                  </Text>
+                </View>
+              </>
+            )}
           </Card>
         )}
 
@@ -626,6 +587,59 @@ const SwapScreen: React.FC = () => {
             'Swap'
           )}
         </Button>
+
+        {/* Liquidity Positions */}
+        {lpPositions.length > 0 && (
+          <Card style={[styles.detailsCard, styles.liquidityCard]}>
+            <Text style={styles.detailsTitle}>Your Liquidity</Text>
+
+            {lpPositions.map((position) => {
+              const symbol1 = getTokenSymbol(position.asset1);
+              const symbol2 = getTokenSymbol(position.asset2);
+              const { analysis } = position;
+
+              return (
+                <View key={position.poolId} style={styles.positionItem}>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.positionPair}>
+                      {symbol1}/{symbol2}
+                    </Text>
+                    <Text style={styles.detailValue}>
+                      {position.valueUSD ? `$${position.valueUSD}` : `${position.shareOfPool}% of pool`}
+                    </Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Pooled</Text>
+                    <Text style={styles.detailValue}>
+                      {formatTokenBalance(position.asset1Amount, getTokenDecimals(position.asset1), 4)} {symbol1} +{' '}
+                      {formatTokenBalance(position.asset2Amount, getTokenDecimals(position.asset2), 4)} {symbol2}
+                    </Text>
+                  </View>
+                  {analysis ? (
+                    <>
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Fees Earned</Text>
+                        <Text style={[styles.detailValue, { color: KurdistanColors.kesk }]}>
+                          {position.feesEarned
+                            ? `$${position.feesEarned}`
+                            : `${formatTokenBalance(analysis.fees1, getTokenDecimals(position.asset1), 4)} ${symbol1} + ${formatTokenBalance(analysis.fees2, getTokenDecimals(position.asset2), 4)} ${symbol2}`}
+                        </Text>
+                      </View>
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Impermanent Loss</Text>
+                        <Text style={[styles.detailValue, analysis.impermanentLoss < -1 && { color: KurdistanColors.sor }]}>
+                          {analysis.impermanentLoss.toFixed(2)}%
+                        </Text>
+                      </View>
+                    </>
+                  ) : (
+                    <Text style={styles.positionNote}>Fees and impermanent loss appear once your deposits are indexed</Text>
+                  )}
+                </View>
+              );
+            })}
+          </Card>
+        )}
       </ScrollView>
 
       {/* Settings Modal */}
@@ -801,6 +815,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000',
   },
+  routeValue: {
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
   highImpact: {
     color: KurdistanColors.sor,
   },
@@ -810,6 +829,22 @@ const styles = StyleSheet.create({
   swapButton: {
     marginTop: 8,
   },
+  liquidityCard: {
+    marginTop: 16,
+  },
+  positionItem: {
+    marginBottom: 12,
+  },
+  positionPair: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000',
+  },
+  positionNote: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
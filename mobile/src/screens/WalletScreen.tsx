@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,11 +11,20 @@ import {
   TextInput,
   Alert,
   ActivityIndicator,
+  Share,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTranslation } from 'react-i18next';
 import AppColors, { KurdistanColors } from '../theme/colors';
 import { usePolkadot } from '../contexts/PolkadotContext';
+import {
+  getTransactions,
+  exportTransactionsCsv,
+  getAccountTransfers,
+  getTransactionDirection,
+  formatTransferAmount,
+  type IndexedTransaction,
+} from '../../../shared/lib/transaction-history';
 
 interface Token {
   symbol: string;
@@ -50,6 +59,9 @@ const WalletScreen: React.FC = () => {
   const [walletName, setWalletName] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  const [transactions, setTransactions] = useState<IndexedTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   // Token balances from blockchain
   const [balances, setBalances] = useState<{ [key: string]: string }>({
@@ -186,6 +198,40 @@ const WalletScreen: React.FC = () => {
     return () => clearInterval(interval);
   }, [api, isApiReady, selectedAccount]);
 
+  const address = selectedAccount?.address;
+
+  // Fetch transaction history from the indexer
+  const fetchTransactions = useCallback(async (cursor: string | null = null) => {
+    if (!address) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await getTransactions({ account: address, cursor, limit: 10 });
+      setTransactions(prev => (cursor ? [...prev, ...page.transactions] : page.transactions));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (__DEV__) console.error('Failed to fetch transactions:', err);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  const handleExportHistory = async () => {
+    if (!address) return;
+
+    try {
+      const csv = await exportTransactionsCsv({ account: address });
+      await Share.share({ title: 'transactions.csv', message: csv });
+    } catch (err) {
+      if (__DEV__) console.error('Failed to export transactions:', err);
+      Alert.alert('Error', 'Failed to export transaction history');
+    }
+  };
+
   const handleConnectWallet = async () => {
     try {
       if (accounts.length === 0) {
@@ -468,6 +514,43 @@ const WalletScreen: React.FC = () => {
             )}
           </TouchableOpacity>
         ))}
+
+        {/* Transaction History */}
+        <View style={styles.historyHeader}>
+          <Text style={styles.sectionTitle}>Transactions</Text>
+          <TouchableOpacity onPress={handleExportHistory} disabled={transactions.length === 0}>
+            <Text style={styles.exportText}>Export CSV</Text>
+          </TouchableOpacity>
+        </View>
+        {transactions.length === 0 && !isLoadingHistory && (
+          <Text style={styles.emptyHistoryText}>No transactions yet</Text>
+        )}
+        {transactions.map(tx => {
+          const direction = getTransactionDirection(tx, selectedAccount.address);
+          const transfer = getAccountTransfers(tx, selectedAccount.address)[0];
+          return (
+            <View key={tx.id} style={styles.txCard}>
+              <View style={styles.tokenDetails}>
+                <Text style={[styles.txTitle, !tx.success && styles.txFailed]}>
+                  {!tx.success ? 'Failed' : direction === 'in' ? 'Received' : direction === 'self' ? 'Internal' : 'Sent'}
+                </Text>
+                <Text style={styles.txMeta}>{tx.section}.{tx.method}</Text>
+                <Text style={styles.txMeta}>{new Date(tx.block_time).toLocaleString()}</Text>
+              </View>
+              {transfer && (
+                <Text style={[styles.txAmount, direction === 'in' && styles.txAmountIn]}>
+                  {direction === 'in' ? '+' : '-'}{formatTransferAmount(transfer)}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+        {isLoadingHistory && <ActivityIndicator size="small" color={KurdistanColors.kesk} />}
+        {nextCursor && !isLoadingHistory && (
+          <TouchableOpacity style={styles.loadMoreButton} onPress={() => fetchTransactions(nextCursor)}>
+            <Text style={styles.exportText}>Load more</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Action Buttons */}
@@ -705,6 +788,57 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     elevation: 3,
   },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginTop: 12,
+  },
+  exportText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: KurdistanColors.kesk,
+  },
+  emptyHistoryText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  txCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: KurdistanColors.spi,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  txTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: KurdistanColors.reş,
+    marginBottom: 2,
+  },
+  txFailed: {
+    color: KurdistanColors.sor,
+  },
+  txMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  txAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: KurdistanColors.reş,
+  },
+  txAmountIn: {
+    color: KurdistanColors.kesk,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 20,
+  },
   tokenCardDisabled: {
     opacity: 0.6,
   },
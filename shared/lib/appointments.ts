@@ -0,0 +1,326 @@
+// ========================================
+// Ministerial Appointments
+// ========================================
+// The Serok nominates a minister (see findMinisterNominationCall); parliament
+// reviews the nominee through a linked collective proposal whose
+// description is `appointment://<processId>`; once parliament confirms
+// inside the deadline the Serok finalizes (welati.approveAppointment).
+// Approvals and rejections are read from AppointmentProcesses; dismissals
+// and past appointments from welati events in the indexer.
+
+import type { ApiPromise } from '@polkadot/api';
+import type { SubmittableExtrinsicFunction } from '@polkadot/api/types';
+import { getDecisionMembers, getLegislation, getThresholdProgress, type LegislationRecord } from './legislation';
+import { getTransactions, type IndexedTransaction } from './transaction-history';
+import {
+  getCurrentMinisters,
+  getCurrentOfficials,
+  getDiwanMembers,
+  getMinisterRoleLabel,
+  getParliamentMembers,
+  type AppointmentProcess,
+  type MinisterRole,
+} from './welati';
+
+/** Prefix of collective proposal descriptions that review an appointment */
+export const APPOINTMENT_REVIEW_PREFIX = 'appointment://';
+
+export const MINISTER_ROLES: MinisterRole[] = [
+  'WezireDarayiye',
+  'WezireParez',
+  'WezireDad',
+  'WezireBelaw',
+  'WezireTend',
+  'WezireAva',
+  'WezireCand',
+];
+
+// Indexer transactions scanned for appointment events
+const APPOINTMENT_HISTORY_LIMIT = 200;
+
+// Arguments a minister nomination call may take, by metadata name
+const NOMINATION_ARGS = ['nominee', 'role', 'justification'];
+
+// ========================================
+// TYPES
+// ========================================
+
+export type AppointmentOutcome =
+  | 'awaiting_review'
+  | 'in_review'
+  | 'confirmed'
+  | 'rejected_by_parliament'
+  | 'expired'
+  | 'approved'
+  | 'rejected';
+
+export interface AppointmentRecord extends AppointmentProcess {
+  review: LegislationRecord | null;
+  outcome: AppointmentOutcome;
+}
+
+export interface AppointmentEvent {
+  kind: 'nominated' | 'appointed' | 'rejected' | 'dismissed';
+  role: string;
+  account: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface GovernmentChart {
+  serok?: string;
+  serokWeziran?: string;
+  meclisBaskanı?: string;
+  ministries: { role: MinisterRole; minister?: string; pendingNominee?: string }[];
+  parliamentSize: number;
+  diwanSize: number;
+}
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * Every appointment process with its parliamentary review, newest first
+ */
+export async function getAppointments(api: ApiPromise, currentBlock: number): Promise<AppointmentRecord[]> {
+  const [processes, legislation, parliament] = await Promise.all([
+    getAppointmentProcesses(api),
+    getLegislation(api),
+    getDecisionMembers(api, 'ParliamentSimpleMajority'),
+  ]);
+
+  const reviews = findAppointmentReviews(processes, legislation, parliament);
+
+  return processes
+    .map((process) => {
+      const review = reviews.get(process.processId) ?? null;
+      return { ...process, review, outcome: getAppointmentOutcome(process, review, parliament.length, currentBlock) };
+    })
+    .sort((a, b) => b.processId - a.processId);
+}
+
+/**
+ * Every appointment process in AppointmentProcesses, in storage order
+ */
+export async function getAppointmentProcesses(api: ApiPromise): Promise<AppointmentProcess[]> {
+  const entries = await api.query.welati.appointmentProcesses.entries();
+
+  return entries
+    .filter(([, value]) => (value as any).isSome)
+    .map(([key, value]): AppointmentProcess => {
+      const data = (value as any).unwrap().toJSON() as any;
+      return {
+        processId: Number(key.args[0].toString()),
+        nominee: data.nominee,
+        role: data.role,
+        nominator: data.nominator,
+        justification: data.justification,
+        status: data.status,
+        createdAt: data.createdAt,
+        deadline: data.deadline,
+      };
+    });
+}
+
+/**
+ * Serok, prime minister, speaker, every ministry with its minister or
+ * pending nominee, and the size of parliament and the Diwan
+ */
+export async function getGovernmentChart(api: ApiPromise, appointments: AppointmentRecord[]): Promise<GovernmentChart> {
+  const [officials, ministers, parliament, diwan] = await Promise.all([
+    getCurrentOfficials(api),
+    getCurrentMinisters(api),
+    getParliamentMembers(api),
+    getDiwanMembers(api),
+  ]);
+
+  return {
+    ...officials,
+    ministries: MINISTER_ROLES.map((role) => ({
+      role,
+      minister: ministers[role],
+      pendingNominee: appointments.find((appointment) => appointment.role === role && appointment.status === 'Pending')
+        ?.nominee,
+    })),
+    parliamentSize: parliament.length,
+    diwanSize: diwan.length,
+  };
+}
+
+/**
+ * Appointments, rejections and dismissals from the indexer, newest first.
+ * Empty if the indexer is unavailable.
+ */
+export async function getAppointmentHistory(): Promise<AppointmentEvent[]> {
+  try {
+    const { transactions } = await getTransactions({ pallet: 'welati', limit: APPOINTMENT_HISTORY_LIMIT });
+    return findAppointmentEvents(transactions);
+  } catch (error) {
+    console.warn('Appointment history not available:', error);
+    return [];
+  }
+}
+
+const EVENT_KINDS: Record<string, AppointmentEvent['kind']> = {
+  OfficialNominated: 'nominated',
+  AppointmentApproved: 'appointed',
+  AppointmentRejected: 'rejected',
+  OfficialDismissed: 'dismissed',
+};
+
+/**
+ * Appointment events (data: [account, role, ...]) from indexed transactions
+ */
+export function findAppointmentEvents(transactions: IndexedTransaction[]): AppointmentEvent[] {
+  return transactions
+    .filter((tx) => tx.success)
+    .flatMap((tx) =>
+      tx.events
+        .filter((event) => event.section === 'welati' && EVENT_KINDS[event.method])
+        .map((event) => ({
+          kind: EVENT_KINDS[event.method],
+          account: String(event.data[0]),
+          role: String(event.data[1]),
+          blockNumber: tx.block_number,
+          txHash: tx.hash,
+        }))
+    )
+    .sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+// ========================================
+// TRANSACTIONS
+// ========================================
+
+/**
+ * The call that nominates a minister, if the runtime has one: a dedicated
+ * welati.nominateMinister, or nominateOfficial if its role type lists the
+ * ministries (on current runtimes it only takes OfficialRole). Null when
+ * ministers cannot be nominated, in which case the flow is hidden.
+ */
+export function findMinisterNominationCall(api: ApiPromise): SubmittableExtrinsicFunction<'promise'> | null {
+  const calls = [api.tx.welati?.nominateMinister, api.tx.welati?.nominateOfficial];
+
+  return calls.find((call) => {
+    if (!call) return false;
+
+    const names = call.meta.args.map((arg) => arg.name.toString());
+    const role = call.meta.args.find((arg) => arg.name.toString() === 'role');
+    if (!role || names.some((name) => !NOMINATION_ARGS.includes(name))) return false;
+
+    try {
+      MINISTER_ROLES.forEach((ministerRole) => api.createType(role.type.toString(), ministerRole));
+      return true;
+    } catch {
+      return false;
+    }
+  }) ?? null;
+}
+
+export function buildNominateMinisterTx(api: ApiPromise, nominee: string, role: MinisterRole, justification: string) {
+  const call = findMinisterNominationCall(api);
+  if (!call) throw new Error('Minister nominations are not supported by this runtime');
+
+  const values: Record<string, string> = { nominee, role, justification };
+  return call(...call.meta.args.map((arg) => values[arg.name.toString()]));
+}
+
+/**
+ * Collective proposal through which parliament reviews a nomination
+ */
+export function buildOpenReviewTx(api: ApiPromise, appointment: AppointmentProcess) {
+  const roleLabel = getMinisterRoleLabel(appointment.role as MinisterRole).en;
+
+  return api.tx.welati.submitProposal(
+    `Confirm ${appointment.nominee.slice(0, 8)}... as ${roleLabel}`,
+    `${APPOINTMENT_REVIEW_PREFIX}${appointment.processId}`,
+    'ParliamentSimpleMajority',
+    'High',
+    null
+  );
+}
+
+export function buildApproveAppointmentTx(api: ApiPromise, processId: number) {
+  return api.tx.welati.approveAppointment(processId);
+}
+
+// ========================================
+// OUTCOMES
+// ========================================
+
+/**
+ * The review of each appointment: the first proposal for it opened by a
+ * parliament member after the nomination. Later proposals for the same
+ * appointment are ignored, so a reopened or competing review cannot
+ * replace the one parliament voted on.
+ */
+export function findAppointmentReviews(
+  appointments: AppointmentProcess[],
+  legislation: LegislationRecord[],
+  parliament: string[]
+): Map<number, LegislationRecord> {
+  const createdAt = new Map(appointments.map((appointment) => [appointment.processId, appointment.createdAt]));
+  const members = new Set(parliament);
+  const reviews = new Map<number, LegislationRecord>();
+
+  [...legislation]
+    .sort((a, b) => a.proposedAt - b.proposedAt || a.proposalId - b.proposalId)
+    .forEach((proposal) => {
+      const processId = getReviewedAppointmentId(proposal.description);
+      if (processId === null || reviews.has(processId) || !members.has(proposal.proposer)) return;
+
+      const nominatedAt = createdAt.get(processId);
+      if (nominatedAt !== undefined && proposal.proposedAt >= nominatedAt) reviews.set(processId, proposal);
+    });
+
+  return reviews;
+}
+
+export function getReviewedAppointmentId(description: string): number | null {
+  if (!description.startsWith(APPOINTMENT_REVIEW_PREFIX)) return null;
+
+  const id = Number(description.slice(APPOINTMENT_REVIEW_PREFIX.length));
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+/**
+ * Where an appointment stands: the chain's final status if it has one,
+ * otherwise the state of parliament's review before the deadline
+ */
+export function getAppointmentOutcome(
+  appointment: AppointmentProcess,
+  review: LegislationRecord | null,
+  parliamentSize: number,
+  currentBlock: number
+): AppointmentOutcome {
+  if (appointment.status === 'Approved') return 'approved';
+  if (appointment.status === 'Rejected') return 'rejected';
+
+  if (review) {
+    const outlook = getThresholdProgress(review, parliamentSize).outlook;
+    if (outlook === 'passing' || review.status === 'Approved' || review.status === 'Executed') {
+      return currentBlock < appointment.deadline ? 'confirmed' : 'expired';
+    }
+    if (outlook === 'failing' || review.status === 'Rejected' || review.status === 'Expired') {
+      return 'rejected_by_parliament';
+    }
+  }
+
+  if (currentBlock >= appointment.deadline) return 'expired';
+  return review ? 'in_review' : 'awaiting_review';
+}
+
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+export const APPOINTMENT_OUTCOME_LABELS: Record<AppointmentOutcome, { en: string; kmr: string }> = {
+  awaiting_review: { en: 'Awaiting parliamentary review', kmr: 'Li benda nirxandina parlemanê' },
+  in_review: { en: 'Parliament voting', kmr: 'Parleman deng dide' },
+  confirmed: { en: 'Confirmed by parliament', kmr: 'Ji aliyê parlemanê ve hate pejirandin' },
+  rejected_by_parliament: { en: 'Rejected by parliament', kmr: 'Ji aliyê parlemanê ve hate redkirin' },
+  expired: { en: 'Deadline passed', kmr: 'Dem derbas bû' },
+  approved: { en: 'Appointed', kmr: 'Hate destnîşankirin' },
+  rejected: { en: 'Rejected', kmr: 'Hate redkirin' },
+};
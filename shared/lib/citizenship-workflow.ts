@@ -6,6 +6,14 @@
 import type { ApiPromise } from '@polkadot/api';
 import { web3FromAddress } from '@polkadot/extension-dapp';
 import type { InjectedAccountWithMeta } from '@polkadot/extension-inject/types';
+import { hexToU8a, stringToHex, stringToU8a, u8aConcat, u8aToHex } from '@polkadot/util';
+import { blake2AsHex, randomAsU8a } from '@polkadot/util-crypto';
+import { openVault, readVault, sealVault, writeVault } from './vault';
+import { isValidCid, uploadJsonToIPFS } from './ipfs';
+import type { VaultStorage } from './vault';
+import { buildSignedRequestMessage } from '../utils/auth';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
 // ========================================
 // TYPE DEFINITIONS
@@ -59,8 +67,8 @@ export interface CitizenshipData {
 }
 
 export interface CitizenshipCommitment {
-  commitmentHash: string;    // SHA256 hash of all data
-  nullifierHash: string;      // Prevents double-registration
+  commitmentHash: string;    // blake2_256(domain || data || salt)
+  nullifierHash: string;      // Deterministic per identity + network secret, prevents double-registration
   ipfsCid: string;            // IPFS CID of encrypted data
   publicKey: string;          // User's encryption public key
   timestamp: number;
@@ -372,10 +380,12 @@ export async function getCitizenDataCid(
     const identityData = identity.unwrap().toJSON() as any;
 
     // Try different possible field names
-    return identityData.ipfsCid ||
-           identityData.cid ||
-           identityData.dataCid ||
-           null;
+    const cid = identityData.ipfsCid ||
+                identityData.cid ||
+                identityData.dataCid ||
+                null;
+
+    return isValidCid(cid) ? cid : null;
   } catch (error) {
     console.error('Error fetching citizen data CID:', error);
     return null;
@@ -423,6 +433,9 @@ export async function validateReferralCode(
  * This is a two-step process:
  * 1. Set identity (name, email)
  * 2. Apply for KYC (IPFS CID, notes)
+ *
+ * When a commitment is supplied, its hashes are recorded in the application
+ * notes and the nullifier is checked against pending applications first.
  */
 export async function submitKycApplication(
   api: ApiPromise,
@@ -430,7 +443,8 @@ export async function submitKycApplication(
   name: string,
   email: string,
   ipfsCid: string,
-  notes: string = 'Citizenship application'
+  notes: string = 'Citizenship application',
+  commitment?: Pick<CitizenshipCommitment, 'commitmentHash' | 'nullifierHash'>
 ): Promise<{ success: boolean; error?: string; blockHash?: string }> {
   try {
     if (!api?.tx?.identityKyc?.setIdentity || !api?.tx?.identityKyc?.applyForKyc) {
@@ -457,6 +471,12 @@ export async function submitKycApplication(
       };
     }
 
+    // Bind the application to its commitment. Reused identities were already
+    // refused when the backend issued the nullifier (requestNullifier).
+    if (commitment) {
+      notes = formatCommitmentNotes(notes, commitment);
+    }
+
     // Get the injector for signing
     const injector = await web3FromAddress(account.address);
 
@@ -696,6 +716,8 @@ export async function verifySignature(
   }
 }
 
+const CITIZENSHIP_DATA_KEY = 'pezkuwi_citizenship_data';
+
 export interface CitizenSession {
   tikiNumber: string;
   walletAddress: string;
@@ -747,78 +769,229 @@ export async function getCitizenSession(): Promise<CitizenSession | null> {
 }
 
 /**
- * Encrypt sensitive data for storage
+ * Encrypt sensitive data for storage or upload
+ * @param data - Citizenship data to protect
+ * @param secret - User secret (passphrase) the vault key is derived from
  */
-export function encryptData(data: any): string {
-  // In production, use proper encryption
-  // For now, base64 encode
-  return btoa(JSON.stringify(data));
+export async function encryptData(data: any, secret: string): Promise<string> {
+  return sealVault(data, secret);
 }
 
 /**
- * Decrypt data
+ * Decrypt data produced by encryptData (or the legacy base64 format)
+ * @returns Decrypted data, or null if the secret is wrong or data is corrupted
  */
-export function decryptData(encrypted: string): any {
+export async function decryptData(encrypted: string, secret: string): Promise<any> {
   try {
-    return JSON.parse(atob(encrypted));
-  } catch {
+    const { data } = await openVault(encrypted, secret);
+    return data;
+  } catch (error) {
+    console.error('Failed to decrypt citizenship data:', error);
     return null;
   }
 }
 
+// ========================================
+// COMMITMENTS & NULLIFIERS
+// ========================================
+
+const COMMITMENT_DOMAIN = 'pezkuwi/kyc-commitment/v1';
+const NULLIFIER_DOMAIN = 'pezkuwi/kyc-nullifier/v1';
+
+/**
+ * Identity fields that determine the nullifier.
+ * These describe the person, not the application, so re-applying with a
+ * different email or wallet still produces the same nullifier.
+ */
+export type CitizenshipIdentity = Pick<
+  CitizenshipData,
+  'fullName' | 'fatherName' | 'grandfatherName' | 'motherName' | 'region'
+>;
+
+/**
+ * Serialise a value with object keys sorted, so equal data always hashes equally
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function normalizeIdentityField(value: string | undefined): string {
+  return (value || '').normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Generate a random 32-byte commitment salt.
+ * The applicant must keep this secret; it is needed to open the commitment later.
+ */
+export function generateCommitmentSalt(): string {
+  return u8aToHex(randomAsU8a(32));
+}
+
 /**
  * Generate commitment hash for citizenship data
+ * commitment = blake2_256(domain || canonical(data) || salt)
+ * @param data - Full citizenship data
+ * @param salt - Secret salt from generateCommitmentSalt
+ * @returns 0x-prefixed 32-byte hex hash
+ */
+export function generateCommitmentHash(data: any, salt: string): string {
+  if (!salt) {
+    throw new Error('Commitment salt is required');
+  }
+
+  return blake2AsHex(
+    u8aConcat(stringToU8a(COMMITMENT_DOMAIN), stringToU8a(canonicalJson(data)), hexToU8a(salt)),
+    256
+  );
+}
+
+/**
+ * Digest of the identity fields the nullifier is derived from
+ * digest = blake2_256(domain || normalized(identity))
+ * Deterministic, so re-applying yields the same digest. It is only as hard
+ * to guess as the identity itself, so it is sent to the backend and never
+ * published; the backend keys it into the nullifier (requestNullifier).
+ */
+export function hashIdentity(identity: CitizenshipIdentity): string {
+  const normalized = canonicalJson({
+    fullName: normalizeIdentityField(identity.fullName),
+    fatherName: normalizeIdentityField(identity.fatherName),
+    grandfatherName: normalizeIdentityField(identity.grandfatherName),
+    motherName: normalizeIdentityField(identity.motherName),
+    region: identity.region,
+  });
+
+  return blake2AsHex(u8aConcat(stringToU8a(NULLIFIER_DOMAIN), stringToU8a(normalized)), 256);
+}
+
+/**
+ * Get the nullifier for an identity from the backend, which keys the
+ * identity digest with a secret only it holds, so published nullifiers
+ * cannot be tested against guessed identities. The backend binds the
+ * nullifier to the applicant's wallet and refuses identities of pending or
+ * approved citizens.
+ * @returns 0x-prefixed 32-byte hex nullifier
  */
-export function generateCommitmentHash(data: any): string {
-  const str = JSON.stringify(data);
-  // Simple hash for now - in production use proper cryptographic hash
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+export async function requestNullifier(
+  account: InjectedAccountWithMeta,
+  identity: CitizenshipIdentity
+): Promise<string> {
+  const identityDigest = hashIdentity(identity);
+  const message = buildSignedRequestMessage(`registerNullifier:${identityDigest}`);
+
+  const injector = await web3FromAddress(account.address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const { signature } = await injector.signer.signRaw({
+    address: account.address,
+    data: stringToHex(message),
+    type: 'bytes',
+  });
+
+  const response = await fetch(`${BACKEND_URL}/api/citizenship/nullifier`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ identityDigest, signerAddress: account.address, message, signature }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || 'Nullifier request failed');
   }
-  return hash.toString(16);
+
+  return result.nullifierHash;
 }
 
 /**
- * Generate nullifier hash
+ * Verify that data and salt open a previously published commitment
  */
-export function generateNullifierHash(data: any): string {
-  const str = JSON.stringify(data) + Date.now();
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+export function verifyCommitment(data: any, salt: string, commitmentHash: string): boolean {
+  try {
+    return generateCommitmentHash(data, salt) === commitmentHash.toLowerCase();
+  } catch {
+    return false;
   }
-  return 'nullifier_' + hash.toString(16);
 }
 
 /**
- * Save citizenship data to local storage
+ * Build the commitment values recorded with an application
+ * @param salt - Per-application salt the applicant keeps (commitment only)
+ * @param nullifierHash - The applicant's nullifier from requestNullifier
  */
-export function saveLocalCitizenshipData(data: any): void {
-  const encrypted = encryptData(data);
-  localStorage.setItem('pezkuwi_citizenship_data', encrypted);
+export function createCitizenshipCommitment(
+  data: CitizenshipData,
+  salt: string,
+  nullifierHash: string
+): Pick<CitizenshipCommitment, 'commitmentHash' | 'nullifierHash'> {
+  return {
+    commitmentHash: generateCommitmentHash(data, salt),
+    nullifierHash: nullifierHash.toLowerCase(),
+  };
 }
 
 /**
- * Get local citizenship data
+ * Encode commitment values into the application notes recorded on-chain
  */
-export function getLocalCitizenshipData(): any {
-  const encrypted = localStorage.getItem('pezkuwi_citizenship_data');
-  if (!encrypted) return null;
-  return decryptData(encrypted);
+export function formatCommitmentNotes(
+  notes: string,
+  commitment: Pick<CitizenshipCommitment, 'commitmentHash' | 'nullifierHash'>
+): string {
+  return `${notes} | commitment:${commitment.commitmentHash} | nullifier:${commitment.nullifierHash}`;
+}
+
+/**
+ * Extract commitment values from on-chain application notes
+ */
+export function parseCommitmentNotes(
+  notes: string
+): Pick<CitizenshipCommitment, 'commitmentHash' | 'nullifierHash'> | null {
+  const commitment = notes.match(/commitment:(0x[0-9a-f]{64})/i);
+  const nullifier = notes.match(/nullifier:(0x[0-9a-f]{64})/i);
+
+  if (!commitment || !nullifier) return null;
+
+  return { commitmentHash: commitment[1].toLowerCase(), nullifierHash: nullifier[1].toLowerCase() };
+}
+
+/**
+ * Save citizenship data to the encrypted local vault
+ * @param storage - Defaults to localStorage; mobile passes AsyncStorage
+ */
+export async function saveLocalCitizenshipData(
+  data: any,
+  secret: string,
+  storage?: VaultStorage
+): Promise<void> {
+  await writeVault(CITIZENSHIP_DATA_KEY, data, secret, storage);
+}
+
+/**
+ * Get local citizenship data, migrating legacy base64 entries on read
+ */
+export async function getLocalCitizenshipData(
+  secret: string,
+  storage?: VaultStorage
+): Promise<any> {
+  try {
+    return await readVault(CITIZENSHIP_DATA_KEY, secret, storage);
+  } catch (error) {
+    console.error('Failed to read local citizenship data:', error);
+    return null;
+  }
 }
 
 /**
- * Upload data to IPFS
+ * Upload citizenship data to IPFS
+ * Callers should pass data that is already encrypted (see encryptData).
+ * @returns CID of the pinned content
  */
 export async function uploadToIPFS(data: any): Promise<string> {
-  // In production, use Pinata or other IPFS service
-  // For now, return mock CID
-  const mockCID = 'Qm' + Math.random().toString(36).substring(2, 15);
-  console.log('Mock IPFS upload:', mockCID, data);
-  return mockCID;
+  return uploadJsonToIPFS(data, { verify: true });
 }
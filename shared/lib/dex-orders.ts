@@ -0,0 +1,280 @@
+// ========================================
+// DEX Limit Orders and DCA
+// ========================================
+// Orders are signed swap intents executed by the backend keeper
+// (backend/src/dex-orders.js):
+//
+// 1. The owner grants the keeper account a proxy (proxy.addProxy) once
+// 2. The owner signs an intent built by buildOrderIntent; the backend
+//    stores it
+// 3. When an order is due and the quote meets its price, the keeper submits
+//    proxy.proxy(owner, assetConversion.swapExactTokensForTokens) with the
+//    owner as recipient and minAmountOut as the floor
+//
+// Paths use pallet-assets ids, so HEZ orders trade wHEZ.
+
+import type { ApiPromise } from '@polkadot/api';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex } from '@polkadot/util';
+import { buildSignedRequestMessage } from '../utils/auth';
+import { parseTokenInput } from '../utils/dex';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+export const ORDER_INTENT_PREFIX = 'dexOrder:';
+
+/** How long a signed intent is accepted for */
+export const INTENT_MAX_AGE_MS = 10 * 60 * 1000;
+
+export const MIN_DCA_INTERVAL_SECONDS = 300;
+export const MAX_DCA_EXECUTIONS = 365;
+export const MAX_SLIPPAGE_BPS = 5000;
+
+export const DCA_INTERVALS = [
+  { label: 'Hourly', seconds: 60 * 60 },
+  { label: 'Daily', seconds: 24 * 60 * 60 },
+  { label: 'Weekly', seconds: 7 * 24 * 60 * 60 },
+] as const;
+
+// Fixed-point precision for limit prices
+const PRICE_DECIMALS = 18;
+
+// ========================================
+// TYPES
+// ========================================
+
+export type DexOrderKind = 'limit' | 'dca';
+
+export type DexOrderStatus = 'open' | 'executing' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+export interface OrderIntent {
+  owner: string;
+  kind: DexOrderKind;
+  /** Asset ids, input first */
+  path: number[];
+  /** Raw chain units per execution */
+  amountIn: string;
+  /** Raw floor on the output; the limit price for limit orders, '0' for plain DCA */
+  minAmountOut: string;
+  /** DCA: slippage allowed against the quote at execution time */
+  maxSlippageBps: number;
+  /** DCA only */
+  intervalSeconds: number | null;
+  /** DCA only: number of buys */
+  executions: number | null;
+  /** ISO date, or null for good-till-cancelled */
+  expiresAt: string | null;
+  /** Signing time (ms) */
+  nonce: number;
+}
+
+export interface DexOrderFill {
+  id: string;
+  order_id: string;
+  status: 'submitted' | 'filled' | 'failed';
+  tx_hash: string | null;
+  block_hash: string | null;
+  amount_in: string;
+  amount_out: string | null;
+  min_amount_out: string;
+  error: string | null;
+  created_at: string;
+}
+
+export interface DexOrder {
+  id: string;
+  owner: string;
+  kind: DexOrderKind;
+  path: number[];
+  amount_in: string;
+  min_amount_out: string;
+  max_slippage_bps: number;
+  interval_seconds: number | null;
+  executions_total: number;
+  executions_done: number;
+  next_run_at: string;
+  expires_at: string | null;
+  status: DexOrderStatus;
+  failure_count: number;
+  /** e.g. 'proxy_missing', 'no_pool' or a dispatch error */
+  last_error: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string;
+  fills: DexOrderFill[];
+}
+
+export interface KeeperInfo {
+  address: string;
+  proxyType: string;
+}
+
+// ========================================
+// INTENTS AND PRICES
+// ========================================
+
+/**
+ * The message an owner signs for an order. Key order is fixed so the
+ * backend reads back exactly what was signed.
+ */
+export function buildOrderIntent(intent: OrderIntent): string {
+  const {
+    owner, kind, path, amountIn, minAmountOut, maxSlippageBps, intervalSeconds, executions, expiresAt, nonce,
+  } = intent;
+
+  return ORDER_INTENT_PREFIX + JSON.stringify({
+    owner, kind, path, amountIn, minAmountOut, maxSlippageBps, intervalSeconds, executions, expiresAt, nonce,
+  });
+}
+
+/**
+ * Raw output floor for selling amountIn at a limit price (output tokens per
+ * input token, display units). Rounded up so no fill is below the price.
+ */
+export function getMinAmountOut(
+  amountIn: string,
+  price: string,
+  decimalsIn: number,
+  decimalsOut: number
+): string {
+  const scaledPrice = BigInt(parseTokenInput(price, PRICE_DECIMALS));
+  const numerator = BigInt(amountIn) * scaledPrice * BigInt(10) ** BigInt(decimalsOut);
+  const denominator = BigInt(10) ** BigInt(PRICE_DECIMALS + decimalsIn);
+
+  return ((numerator + denominator - BigInt(1)) / denominator).toString();
+}
+
+/**
+ * Output tokens per input token (display units) of raw amounts
+ */
+export function getOrderPrice(
+  amountIn: string,
+  amountOut: string,
+  decimalsIn: number,
+  decimalsOut: number
+): number {
+  const input = Number(amountIn) / 10 ** decimalsIn;
+  return input > 0 ? Number(amountOut) / 10 ** decimalsOut / input : 0;
+}
+
+/**
+ * Totals over an order's successful fills
+ */
+export function summarizeFills(order: DexOrder): { amountIn: string; amountOut: string; count: number } {
+  const filled = order.fills.filter((fill) => fill.status === 'filled');
+
+  return {
+    amountIn: filled.reduce((sum, fill) => sum + BigInt(fill.amount_in), BigInt(0)).toString(),
+    amountOut: filled.reduce((sum, fill) => sum + BigInt(fill.amount_out ?? 0), BigInt(0)).toString(),
+    count: filled.length,
+  };
+}
+
+export function isOrderActive(order: DexOrder): boolean {
+  return order.status === 'open' || order.status === 'executing';
+}
+
+// ========================================
+// KEEPER PROXY
+// ========================================
+
+/**
+ * Whether the owner has granted the keeper its swap-only proxy (without delay).
+ * Broader proxies such as Any are not used by the keeper.
+ */
+export async function hasKeeperProxy(api: ApiPromise, owner: string, keeper: KeeperInfo): Promise<boolean> {
+  const [proxies] = (await api.query.proxy.proxies(owner)).toJSON() as any;
+  const keeperId = api.createType('AccountId32', keeper.address);
+
+  return (proxies || []).some((proxy: { delegate: string; proxyType: string; delay: number }) =>
+    keeperId.eq(proxy.delegate) &&
+    proxy.proxyType === keeper.proxyType &&
+    proxy.delay === 0
+  );
+}
+
+export function buildAddKeeperProxyTx(api: ApiPromise, keeper: KeeperInfo): SubmittableExtrinsic<'promise'> {
+  return api.tx.proxy.addProxy(keeper.address, keeper.proxyType, 0);
+}
+
+export function buildRemoveKeeperProxyTx(api: ApiPromise, keeper: KeeperInfo): SubmittableExtrinsic<'promise'> {
+  return api.tx.proxy.removeProxy(keeper.address, keeper.proxyType, 0);
+}
+
+// ========================================
+// BACKEND
+// ========================================
+
+/**
+ * Keeper account and the proxy type it needs; throws if the keeper is off
+ */
+export async function getKeeperInfo(): Promise<KeeperInfo> {
+  return requestBackend('/api/dex/orders/keeper', undefined, 'Order keeper unavailable');
+}
+
+/**
+ * An owner's orders with their fills, newest first
+ */
+export async function getDexOrders(owner: string): Promise<DexOrder[]> {
+  const result = await requestBackend(
+    `/api/dex/orders?${new URLSearchParams({ owner })}`,
+    undefined,
+    'Failed to fetch orders'
+  );
+  return result.orders;
+}
+
+/**
+ * Sign an order intent with the owner's wallet and submit it
+ */
+export async function createDexOrder(intent: Omit<OrderIntent, 'nonce'>): Promise<DexOrder> {
+  const message = buildOrderIntent({ ...intent, nonce: Date.now() });
+  const signature = await signMessage(intent.owner, message);
+
+  const result = await requestBackend('/api/dex/orders', { message, signature }, 'Failed to create order');
+  return result.order;
+}
+
+export async function cancelDexOrder(owner: string, orderId: string): Promise<DexOrder> {
+  const message = buildSignedRequestMessage(`cancelDexOrder:${orderId}`);
+  const signature = await signMessage(owner, message);
+
+  const result = await requestBackend(
+    `/api/dex/orders/${orderId}/cancel`,
+    { owner, message, signature },
+    'Failed to cancel order'
+  );
+  return result.order;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+async function signMessage(address: string, message: string): Promise<string> {
+  const injector = await web3FromAddress(address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const { signature } = await injector.signer.signRaw({
+    address,
+    data: stringToHex(message),
+    type: 'bytes',
+  });
+  return signature;
+}
+
+async function requestBackend(path: string, body: Record<string, unknown> | undefined, fallbackError: string): Promise<any> {
+  const response = await fetch(`${BACKEND_URL}${path}`, body && {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
+}
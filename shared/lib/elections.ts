@@ -0,0 +1,457 @@
+/**
+ * Welati Election Lifecycle & Results
+ *
+ * Shared by the Elections page and the citizens' parliament/president tabs:
+ * - Phase timeline (candidacy → campaign → voting → completed) with countdowns
+ * - Per-district tallies recomputed from ElectionVotes, runoff detection and
+ *   a turnout breakdown
+ * - Results exports pinned to a block hash, so anyone can recount them from
+ *   chain storage at that block (verifyElectionExport)
+ */
+
+import type { ApiPromise } from '@polkadot/api';
+import {
+  blocksToTime,
+  getGovernanceStats,
+  type CandidateInfo,
+  type ElectionInfo,
+  type ElectionResult,
+  type ElectionStatus,
+  type ElectionType,
+} from './welati';
+
+export const ELECTION_EXPORT_SCHEME = 'pezkuwi-election-results-v1';
+
+/** Minimum turnout (percent) for a valid result; mirrors get_minimum_turnout in pallet_welati */
+export const MINIMUM_TURNOUT: Record<ElectionType, number> = {
+  Presidential: 50,
+  Parliamentary: 40,
+  SpeakerElection: 30,
+  ConstitutionalCourt: 30,
+};
+
+/** Presidential winners need more than this share of the vote, or a runoff is held */
+export const ABSOLUTE_MAJORITY = 50;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ElectoralDistrict {
+  districtId: number;
+  name: string;
+  seatCount: number;
+  voterPopulation: number;
+}
+
+export interface ElectionVote {
+  voter: string;
+  candidates: string[];
+  districtId: number | null;
+  weight: number;
+}
+
+export type PhaseState = 'past' | 'current' | 'upcoming';
+
+export interface ElectionPhase {
+  status: ElectionStatus;
+  startBlock: number;
+  /** null for Completed */
+  endBlock: number | null;
+  state: PhaseState;
+}
+
+export interface ElectionTimeline {
+  phases: ElectionPhase[];
+  current: ElectionStatus;
+  /** Until the current phase ends; 0 once completed */
+  blocksRemaining: number;
+  timeRemaining: { days: number; hours: number; minutes: number };
+}
+
+/** Chain state an election's tally is computed from, read at one block */
+export interface ElectionSnapshot {
+  blockNumber: number;
+  blockHash: string;
+  election: ElectionInfo;
+  districts: ElectoralDistrict[];
+  candidates: CandidateInfo[];
+  votes: ElectionVote[];
+  /** Seats when the election has no districts */
+  atLargeSeats: number;
+  /** Finalized result, if any */
+  chainResult: ElectionResult | null;
+}
+
+export interface CandidateTally {
+  account: string;
+  votes: number;
+  /** Percent of the district's votes */
+  share: number;
+  elected: boolean;
+}
+
+export interface DistrictTally {
+  /** null for at-large */
+  districtId: number | null;
+  name: string;
+  seats: number;
+  ballots: number;
+  votes: number;
+  /** Percent of voterPopulation; null when the population is unknown */
+  turnout: number | null;
+  candidates: CandidateTally[];
+  /** Last seat is tied */
+  tiedAtCutoff: boolean;
+  runoffRequired: boolean;
+  runoffCandidates: string[];
+}
+
+export interface ElectionTally {
+  electionId: number;
+  electionType: ElectionType;
+  districts: DistrictTally[];
+  ballots: number;
+  eligibleVoters: number | null;
+  /** Percent; the chain's figure when district populations are unknown */
+  turnout: number;
+  meetsMinimumTurnout: boolean;
+  winners: string[];
+  runoffRequired: boolean;
+  runoffCandidates: string[];
+}
+
+export interface ElectionExport {
+  scheme: typeof ELECTION_EXPORT_SCHEME;
+  electionId: number;
+  electionType: ElectionType;
+  blockNumber: number;
+  blockHash: string;
+  /** Storage the inputs were read from */
+  source: string[];
+  districts: ElectoralDistrict[];
+  candidates: { account: string; districtId: number | null }[];
+  votes: ElectionVote[];
+  atLargeSeats: number;
+  turnoutPercentage: number;
+  tally: ElectionTally;
+  chainResult: ElectionResult | null;
+}
+
+export interface ExportVerification {
+  /** The exported votes recount to the exported tally */
+  recountMatches: boolean;
+  /** Chain storage at the exported block yields the same tally */
+  chainMatches: boolean;
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+/**
+ * Phases with their block ranges and the current one by block number.
+ * A chain status of Completed wins, since finalization may come late.
+ */
+export function getElectionTimeline(election: ElectionInfo, currentBlock: number): ElectionTimeline {
+  const ranges: [ElectionStatus, number, number | null][] = [
+    ['CandidacyPeriod', election.startBlock, election.candidacyEndBlock],
+    ['CampaignPeriod', election.candidacyEndBlock, election.campaignEndBlock],
+    ['VotingPeriod', election.campaignEndBlock, election.votingEndBlock],
+    ['Completed', election.votingEndBlock, null],
+  ];
+
+  const currentIndex = election.status === 'Completed'
+    ? ranges.length - 1
+    : ranges.findIndex(([, , endBlock]) => endBlock === null || currentBlock < endBlock);
+
+  const phases = ranges.map(([status, startBlock, endBlock], i) => ({
+    status,
+    startBlock,
+    endBlock,
+    state: (i < currentIndex ? 'past' : i === currentIndex ? 'current' : 'upcoming') as PhaseState,
+  }));
+
+  const currentEnd = phases[currentIndex].endBlock;
+  const blocksRemaining = currentEnd === null ? 0 : Math.max(0, currentEnd - currentBlock);
+
+  return {
+    phases,
+    current: phases[currentIndex].status,
+    blocksRemaining,
+    timeRemaining: blocksToTime(blocksRemaining),
+  };
+}
+
+// ============================================================================
+// TALLY
+// ============================================================================
+
+/**
+ * Count every ballot in a snapshot. Each ballot adds its weight to each
+ * candidate on it. Districts elect their top seatCount candidates; a
+ * presidential election without an absolute majority goes to a runoff
+ * between the top two.
+ */
+export function tallyElection(snapshot: ElectionSnapshot): ElectionTally {
+  const { election, districts, candidates, votes } = snapshot;
+
+  const counts = new Map<string, number>();
+  votes.forEach((vote) => {
+    vote.candidates.forEach((account) => counts.set(account, (counts.get(account) ?? 0) + vote.weight));
+  });
+
+  const districtIds = new Set(districts.map((district) => district.districtId));
+  const groups: (ElectoralDistrict | null)[] = [...districts];
+  const hasAtLarge = districts.length === 0 ||
+    candidates.some((candidate) => candidate.districtId === undefined || !districtIds.has(candidate.districtId));
+  if (hasAtLarge) groups.push(null);
+
+  const districtTallies = groups.map((district) => {
+    const districtId = district?.districtId ?? null;
+    const inDistrict = (id: number | null | undefined) =>
+      districtId === null ? id === null || id === undefined || !districtIds.has(id) : id === districtId;
+
+    const ranked = candidates
+      .filter((candidate) => inDistrict(candidate.districtId))
+      .map((candidate) => ({ account: candidate.account, votes: counts.get(candidate.account) ?? 0 }))
+      .sort((a, b) => b.votes - a.votes || a.account.localeCompare(b.account));
+
+    const total = ranked.reduce((sum, candidate) => sum + candidate.votes, 0);
+    const seats = district?.seatCount ?? (election.electionType === 'Parliamentary' ? snapshot.atLargeSeats : 1);
+    const ballots = votes.filter((vote) => inDistrict(vote.districtId)).length;
+
+    const leaderShare = total > 0 && ranked.length > 0 ? (ranked[0].votes / total) * 100 : 0;
+    const runoffRequired = election.electionType === 'Presidential' &&
+      ranked.filter((candidate) => candidate.votes > 0).length >= 2 &&
+      leaderShare <= ABSOLUTE_MAJORITY;
+
+    return {
+      districtId,
+      name: district?.name ?? 'At large',
+      seats,
+      ballots,
+      votes: total,
+      turnout: district && district.voterPopulation > 0 ? (ballots / district.voterPopulation) * 100 : null,
+      candidates: ranked.map((candidate, i) => ({
+        ...candidate,
+        share: total > 0 ? (candidate.votes / total) * 100 : 0,
+        elected: !runoffRequired && i < seats && candidate.votes > 0,
+      })),
+      tiedAtCutoff: ranked.length > seats && ranked[seats - 1].votes > 0 && ranked[seats - 1].votes === ranked[seats].votes,
+      runoffRequired,
+      runoffCandidates: runoffRequired ? ranked.slice(0, 2).map((candidate) => candidate.account) : [],
+    };
+  });
+
+  const population = districts.reduce((sum, district) => sum + district.voterPopulation, 0);
+  const eligibleVoters = population > 0 ? population : null;
+  const turnout = eligibleVoters ? (votes.length / eligibleVoters) * 100 : election.turnoutPercentage;
+
+  return {
+    electionId: election.electionId,
+    electionType: election.electionType,
+    districts: districtTallies,
+    ballots: votes.length,
+    eligibleVoters,
+    turnout,
+    meetsMinimumTurnout: turnout >= MINIMUM_TURNOUT[election.electionType],
+    winners: districtTallies.flatMap((district) =>
+      district.candidates.filter((candidate) => candidate.elected).map((candidate) => candidate.account)
+    ),
+    runoffRequired: districtTallies.some((district) => district.runoffRequired),
+    runoffCandidates: districtTallies.flatMap((district) => district.runoffCandidates),
+  };
+}
+
+// ============================================================================
+// CHAIN QUERIES
+// ============================================================================
+
+/**
+ * Read an election's info, districts, candidates, ballots and the seat
+ * count at one block (the latest finalized block by default)
+ */
+export async function getElectionSnapshot(
+  api: ApiPromise,
+  electionId: number,
+  blockHash?: string
+): Promise<ElectionSnapshot | null> {
+  const hash = blockHash ?? (await api.rpc.chain.getFinalizedHead()).toHex();
+  const [apiAt, header] = await Promise.all([api.at(hash), api.rpc.chain.getHeader(hash)]);
+
+  const electionOption = await apiAt.query.welati.activeElections(electionId);
+  if (electionOption.isEmpty) return null;
+
+  const [candidateEntries, voteEntries, resultOption, stats] = await Promise.all([
+    apiAt.query.welati.electionCandidates.entries(electionId),
+    apiAt.query.welati.electionVotes.entries(electionId),
+    apiAt.query.welati.electionResults(electionId),
+    getGovernanceStats(apiAt as unknown as ApiPromise),
+  ]);
+
+  const data = (electionOption as any).unwrap().toJSON() as any;
+  const result = resultOption.isEmpty ? null : ((resultOption as any).unwrap().toJSON() as any);
+
+  return {
+    blockNumber: header.number.toNumber(),
+    blockHash: hash,
+    election: {
+      electionId,
+      electionType: data.electionType as ElectionType,
+      status: data.status as ElectionStatus,
+      startBlock: data.startBlock,
+      candidacyEndBlock: data.candidacyEndBlock,
+      campaignEndBlock: data.campaignEndBlock,
+      votingEndBlock: data.votingEndBlock,
+      totalCandidates: data.totalCandidates || 0,
+      totalVotes: data.totalVotes || 0,
+      turnoutPercentage: data.turnoutPercentage || 0,
+      districtCount: data.districtCount,
+    },
+    districts: (data.districts || []).map((district: any) => ({
+      districtId: district.districtId,
+      name: decodeText(district.name),
+      seatCount: district.seatCount || 1,
+      voterPopulation: district.voterPopulation || 0,
+    })),
+    candidates: candidateEntries.map(([key, value]) => {
+      const candidate = value.toJSON() as any;
+      return {
+        account: key.args[1].toString(),
+        districtId: candidate.districtId ?? undefined,
+        registeredAt: candidate.registeredAt,
+        endorsersCount: candidate.endorsers?.length || 0,
+        voteCount: candidate.voteCount || 0,
+        depositPaid: candidate.depositPaid?.toString() || '0',
+      };
+    }),
+    votes: voteEntries.map(([key, value]) => {
+      const vote = value.toJSON() as any;
+      return {
+        voter: key.args[1].toString(),
+        candidates: (vote.candidates || []).map(String),
+        districtId: vote.districtId ?? null,
+        weight: vote.voteWeight || 1,
+      };
+    }),
+    atLargeSeats: stats.parliamentSize || 1,
+    chainResult: result && {
+      electionId,
+      winners: result.winners || [],
+      totalVotes: result.totalVotes || 0,
+      turnoutPercentage: result.turnoutPercentage || 0,
+      finalizedAt: result.finalizedAt || 0,
+      runoffRequired: result.runoffRequired || false,
+    },
+  };
+}
+
+function decodeText(value: unknown): string {
+  if (typeof value !== 'string') return String(value ?? '');
+  if (!value.startsWith('0x')) return value;
+
+  const bytes = value.slice(2).match(/.{2}/g) ?? [];
+  return new TextDecoder().decode(new Uint8Array(bytes.map((byte) => parseInt(byte, 16))));
+}
+
+// ============================================================================
+// EXPORT & VERIFICATION
+// ============================================================================
+
+export function buildElectionExport(snapshot: ElectionSnapshot, tally = tallyElection(snapshot)): ElectionExport {
+  return {
+    scheme: ELECTION_EXPORT_SCHEME,
+    electionId: snapshot.election.electionId,
+    electionType: snapshot.election.electionType,
+    blockNumber: snapshot.blockNumber,
+    blockHash: snapshot.blockHash,
+    source: ['welati.activeElections', 'welati.electionCandidates', 'welati.electionVotes', 'welati.electionResults'],
+    districts: snapshot.districts,
+    candidates: snapshot.candidates.map((candidate) => ({
+      account: candidate.account,
+      districtId: candidate.districtId ?? null,
+    })),
+    votes: snapshot.votes,
+    atLargeSeats: snapshot.atLargeSeats,
+    turnoutPercentage: snapshot.election.turnoutPercentage,
+    tally,
+    chainResult: snapshot.chainResult,
+  };
+}
+
+/**
+ * One row per candidate per district, headed by the block the tally is pinned to
+ */
+export function buildElectionResultsCsv(exported: ElectionExport): string {
+  const lines = [
+    `# ${exported.scheme} election=${exported.electionId} type=${exported.electionType} block=${exported.blockNumber} hash=${exported.blockHash}`,
+    `# ballots=${exported.tally.ballots} turnout=${exported.tally.turnout.toFixed(2)} runoff=${exported.tally.runoffRequired}`,
+    'district_id,district,candidate,votes,share,elected',
+  ];
+
+  exported.tally.districts.forEach((district) => {
+    district.candidates.forEach((candidate) => {
+      lines.push([
+        district.districtId ?? '',
+        `"${district.name.replace(/"/g, '""')}"`,
+        candidate.account,
+        candidate.votes,
+        candidate.share.toFixed(2),
+        candidate.elected,
+      ].join(','));
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Recount an export's ballots offline, and re-read the chain at the
+ * exported block to check the ballots and seat count themselves
+ */
+export async function verifyElectionExport(api: ApiPromise, exported: ElectionExport): Promise<ExportVerification> {
+  const recount = tallyElection(snapshotFromExport(exported));
+  const recountMatches = JSON.stringify(recount) === JSON.stringify(exported.tally);
+
+  const snapshot = await getElectionSnapshot(api, exported.electionId, exported.blockHash);
+  const chainMatches = snapshot !== null &&
+    snapshot.atLargeSeats === exported.atLargeSeats &&
+    JSON.stringify(tallyElection(snapshot)) === JSON.stringify(exported.tally);
+
+  return { recountMatches, chainMatches };
+}
+
+/**
+ * Snapshot carried by an export, for recounting without the chain
+ */
+export function snapshotFromExport(exported: ElectionExport): ElectionSnapshot {
+  return {
+    blockNumber: exported.blockNumber,
+    blockHash: exported.blockHash,
+    election: {
+      electionId: exported.electionId,
+      electionType: exported.electionType,
+      status: 'Completed',
+      startBlock: 0,
+      candidacyEndBlock: 0,
+      campaignEndBlock: 0,
+      votingEndBlock: 0,
+      totalCandidates: exported.candidates.length,
+      totalVotes: exported.votes.length,
+      turnoutPercentage: exported.turnoutPercentage,
+    },
+    districts: exported.districts,
+    candidates: exported.candidates.map((candidate) => ({
+      account: candidate.account,
+      districtId: candidate.districtId ?? undefined,
+      registeredAt: 0,
+      endorsersCount: 0,
+      voteCount: 0,
+      depositPaid: '0',
+    })),
+    votes: exported.votes,
+    atLargeSeats: exported.atLargeSeats,
+    chainResult: exported.chainResult,
+  };
+}
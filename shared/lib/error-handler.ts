@@ -38,6 +38,20 @@ const ERROR_MESSAGES: Record<string, ErrorMessage> = {
     kmr: 'Zêde chunk unbonding hene. Ji kerema xwe li çavkaniyên berê bisekine.',
   },
 
+  // PEZ rewards errors
+  'pezRewards.ClaimPeriodExpired': {
+    en: 'The claim period for this epoch has ended or not started yet.',
+    kmr: 'Dema daxwazkirinê ya vê epochê qediya an hîn dest pê nekiriye.',
+  },
+  'pezRewards.RewardAlreadyClaimed': {
+    en: 'You have already claimed the rewards for this epoch.',
+    kmr: 'We berê xelatên vê epochê wergirtine.',
+  },
+  'pezRewards.NoRewardToClaim': {
+    en: 'There is no reward to claim for this epoch.',
+    kmr: 'Ji bo vê epochê xelatek ji bo wergirtinê tune.',
+  },
+
   // Identity KYC errors
   'identityKyc.AlreadyApplied': {
     en: 'You already have a pending citizenship application. Please wait for approval.',
@@ -425,6 +439,10 @@ export const SUCCESS_MESSAGES: Record<string, SuccessMessage> = {
     en: 'Staking score tracking started! Your score will accumulate over time.',
     kmr: 'Şopa staking dest pê kir! Xala we dê bi demê re kom bibe.',
   },
+  'pezRewards.claimed': {
+    en: 'Claimed {{amount}} PEZ from {{count}} epoch(s).',
+    kmr: '{{amount}} PEZ ji {{count}} epochan hatin wergirtin.',
+  },
 
   // Citizenship
   'citizenship.applied': {
@@ -469,6 +487,10 @@ export const SUCCESS_MESSAGES: Record<string, SuccessMessage> = {
     en: 'Proposal submitted successfully! Voting period: {{days}} days.',
     kmr: 'Pêşniyar bi serkeftî hate şandin! Dema dengdanê: {{days}} roj.',
   },
+  'welati.legislationSubmitted': {
+    en: 'Legislation submitted! Full text pinned to IPFS ({{cid}}).',
+    kmr: 'Pêşniyara yasayê hate şandin! Nivîsa tevahî li IPFS hate girêdan ({{cid}}).',
+  },
   'welati.proposalVoted': {
     en: 'Vote recorded on proposal #{{id}}. Your voice matters!',
     kmr: 'Deng li ser pêşniyara #{{id}} tomar bû. Deng-a we girîng e!',
@@ -481,6 +503,22 @@ export const SUCCESS_MESSAGES: Record<string, SuccessMessage> = {
     en: 'Appointment approved! {{nominee}} is now {{role}}.',
     kmr: 'Bicîhbûn pejirandî! {{nominee}} niha {{role}} ye.',
   },
+  'welati.ministerNominated': {
+    en: '{{role}} nominee submitted. Parliament can now review the appointment.',
+    kmr: 'Berendamê {{role}} hate şandin. Parleman niha dikare bicîhbûnê binirxîne.',
+  },
+  'welati.appointmentReviewOpened': {
+    en: 'Parliamentary review opened for appointment #{{id}}.',
+    kmr: 'Nirxandina parlemanê ji bo bicîhbûna #{{id}} vebû.',
+  },
+  'welati.issueSubmitted': {
+    en: 'Issue submitted! Citizens can now support it.',
+    kmr: 'Pirsgirêk hate şandin! Welatî niha dikarin piştgiriya wê bikin.',
+  },
+  'welati.issueVoted': {
+    en: 'Vote recorded on issue #{{id}}.',
+    kmr: 'Deng li ser pirsgirêka #{{id}} tomar bû.',
+  },
   'welati.electionFinalized': {
     en: 'Election finalized! {{winners}} elected. Turnout: {{turnout}}%',
     kmr: 'Hilbijartin temam bû! {{winners}} hate hilbijartin. Beşdarî: {{turnout}}%',
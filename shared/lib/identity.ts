@@ -1,4 +1,19 @@
 // Identity verification types and utilities
+import {
+  createIdentityProof,
+  decodeIdentityProof,
+  encodeIdentityProof,
+  verifyIdentityProof,
+} from './zk-proof';
+import type {
+  CredentialClaim,
+  IdentityCredential,
+  MerkleStep,
+  ProofRequest,
+  ProofSigner,
+  ProofTrust,
+} from './zk-proof';
+
 export interface IdentityProfile {
   address: string;
   verificationLevel: 'none' | 'basic' | 'advanced' | 'verified';
@@ -114,17 +129,53 @@ export function calculateReputationScore(
   return Math.min(score, 2000); // Cap at 2000
 }
 
-export function generateZKProof(data: KYCData): string {
-  // Simplified ZK proof generation (in production, use actual ZK library)
-  const hash = btoa(JSON.stringify({
-    ...data,
-    timestamp: Date.now(),
-    nonce: Math.random()
-  }));
-  return `zk_${hash.substring(0, 32)}`;
+/**
+ * Generate a selective-disclosure proof for the requested predicates.
+ * Only the requested claims are revealed; the KYC record itself never leaves
+ * the device.
+ * @param credential - Credential issued on KYC approval
+ * @param registryRoot - Citizen registry root the credential belongs to
+ * @param membership - Path from the credential root to the registry root
+ * @param request - Predicates and verifier challenge
+ * @param sign - Signs the challenge binding with the credential holder's key
+ * @returns Encoded proof string (`zk_...`)
+ */
+export async function generateZKProof(
+  credential: IdentityCredential,
+  registryRoot: string,
+  membership: MerkleStep[],
+  request: ProofRequest,
+  sign: ProofSigner
+): Promise<string> {
+  return encodeIdentityProof(await createIdentityProof(credential, registryRoot, membership, request, sign));
 }
 
-export function verifyZKProof(proof: string, expectedData?: any): boolean {
-  // Simplified verification (in production, use actual ZK verification)
-  return proof.startsWith('zk_') && proof.length > 32;
-}
\ No newline at end of file
+/**
+ * Verify an encoded proof against a request, trusted registry roots and issuers
+ */
+export function verifyZKProof(
+  proof: string,
+  request: ProofRequest,
+  trust: ProofTrust
+): boolean {
+  const decoded = decodeIdentityProof(proof);
+  if (!decoded) return false;
+
+  return verifyIdentityProof(decoded, request, trust).valid;
+}
+
+/**
+ * Derive credential claims from KYC data at approval time.
+ * Only boolean/coarse claims are kept; names, email and documents are not.
+ */
+export function kycDataToClaims(
+  data: KYCData,
+  options: { ageOver18?: boolean; region?: string } = {}
+): Partial<Record<CredentialClaim, string>> {
+  return {
+    citizen: 'true',
+    ageOver18: options.ageOver18 ? 'true' : 'false',
+    region: options.region ?? data.country ?? '',
+    kycLevel: data.documentType ? 'verified' : 'basic',
+  };
+}
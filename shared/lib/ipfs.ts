@@ -1,39 +1,392 @@
-import { toast } from 'sonner';
+// ========================================
+// IPFS Client
+// ========================================
+// Single IPFS entry point for web and mobile:
+// - computes CIDv1 (raw codec, sha2-256) locally before upload
+// - pins through a pluggable backend (local Kubo node, Pinata, web3.storage)
+// - optionally encrypts content with the local vault before it leaves the device
+// - checks the backend pinned exactly the uploaded bytes: single-block
+//   content must come back with the local CID, larger content is fetched
+//   back and compared
+// Errors are thrown to callers; this module never shows UI.
 
-const PINATA_JWT = import.meta.env.VITE_PINATA_JWT;
-const PINATA_API = 'https://api.pinata.cloud/pinning/pinFileToIPFS';
+import { stringToU8a, u8aConcat, u8aEq, u8aToHex, u8aToString } from '@polkadot/util';
+import { base32Decode, base32Encode, sha256AsU8a } from '@polkadot/util-crypto';
+import { openVault, sealVault } from './vault';
 
-export async function uploadToIPFS(file: File): Promise<string> {
-  if (!PINATA_JWT || PINATA_JWT === 'your_pinata_jwt_here') {
-    throw new Error('Pinata JWT not configured. Set VITE_PINATA_JWT in .env');
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export interface PinningBackend {
+  name: string;
+  /**
+   * Upload and pin content
+   * @returns CID reported by the backend
+   */
+  pin(content: Uint8Array, options: { name?: string; contentType?: string }): Promise<string>;
+}
+
+export interface IpfsClientConfig {
+  backend: PinningBackend;
+  gateway: string;
+}
+
+export interface IpfsAddOptions {
+  name?: string;
+  contentType?: string;
+  /** Encrypt with the vault before upload, using this secret */
+  encryptWith?: string;
+  /** Fetch the content back through the gateway and compare digests */
+  verify?: boolean;
+}
+
+export interface IpfsAddResult {
+  /** CIDv1 computed locally over the uploaded bytes */
+  cid: string;
+  /**
+   * CID reported by the pinning backend. Equal to `cid` for content up to
+   * SINGLE_BLOCK_LIMIT; larger content is chunked into a DAG with its own root.
+   */
+  pinnedCid: string;
+  size: number;
+  encrypted: boolean;
+  verified: boolean;
+}
+
+export interface IpfsClient {
+  add(content: Uint8Array | string, options?: IpfsAddOptions): Promise<IpfsAddResult>;
+  addJson(value: unknown, options?: IpfsAddOptions): Promise<IpfsAddResult>;
+  addFile(file: File | Blob, options?: IpfsAddOptions): Promise<IpfsAddResult>;
+  cat(cid: string): Promise<Uint8Array>;
+  catJson<T = unknown>(cid: string, options?: { decryptWith?: string }): Promise<T>;
+  verify(cid: string, expected: Uint8Array): Promise<boolean>;
+  url(cid: string): string;
+}
+
+// ========================================
+// CID
+// ========================================
+
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+/** Largest content every backend pins as a single raw block (the default 256 KiB chunker) */
+export const SINGLE_BLOCK_LIMIT = 256 * 1024;
+
+/**
+ * Compute the CIDv1 (raw codec, sha2-256, base32) of a block of bytes.
+ * Matches what Kubo returns for single-block uploads with
+ * `cid-version=1&raw-leaves=true`.
+ */
+export function computeCid(content: Uint8Array): string {
+  const digest = sha256AsU8a(content);
+  const bytes = u8aConcat(new Uint8Array([CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH]), digest);
+
+  return base32Encode(bytes, true);
+}
+
+/**
+ * Check whether a string is a well-formed CID (v0 `Qm...` or base32 v1 `b...`)
+ */
+export function isValidCid(cid: string | null | undefined): boolean {
+  if (!cid) return false;
+
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid)) {
+    return true;
   }
 
-  const formData = new FormData();
-  formData.append('file', file);
+  if (!cid.startsWith('b')) return false;
 
   try {
-    const response = await fetch(PINATA_API, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PINATA_JWT}`,
-      },
-      body: formData,
-    });
+    const bytes = base32Decode(cid, true);
+    return bytes[0] === CID_VERSION && bytes.length > 4;
+  } catch {
+    return false;
+  }
+}
+
+function toBytes(content: Uint8Array | string): Uint8Array {
+  return typeof content === 'string' ? stringToU8a(content) : content;
+}
+
+// ========================================
+// PINNING BACKENDS
+// ========================================
+
+function buildForm(content: Uint8Array, options: { name?: string; contentType?: string }): FormData {
+  const formData = new FormData();
+  formData.append(
+    'file',
+    new Blob([content as BlobPart], { type: options.contentType || 'application/octet-stream' }),
+    options.name || 'data'
+  );
+  return formData;
+}
+
+async function readError(response: Response): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error?.details || errorData.error || errorData.Message || response.statusText;
+}
+
+/**
+ * Local or self-hosted Kubo (go-ipfs) node via its HTTP RPC API
+ * @param apiUrl - e.g. http://127.0.0.1:5001
+ */
+export function createKuboBackend(apiUrl: string): PinningBackend {
+  return {
+    name: 'kubo',
+    async pin(content, options) {
+      // 1 MiB chunks keep files up to 1 MiB in a single raw block (CID matches computeCid)
+      const params = 'cid-version=1&raw-leaves=true&chunker=size-1048576&pin=true';
+      const response = await fetch(`${apiUrl.replace(/\/$/, '')}/api/v0/add?${params}`, {
+        method: 'POST',
+        body: buildForm(content, options),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Kubo upload failed: ${await readError(response)}`);
+      }
+
+      const data = await response.json();
+      return data.Hash;
+    },
+  };
+}
+
+/**
+ * Pinata pinning service
+ * @param jwt - Pinata API JWT
+ */
+export function createPinataBackend(jwt: string): PinningBackend {
+  return {
+    name: 'pinata',
+    async pin(content, options) {
+      const formData = buildForm(content, options);
+      formData.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+      if (options.name) {
+        formData.append('pinataMetadata', JSON.stringify({ name: options.name }));
+      }
+
+      const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${jwt}` },
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Pinata upload failed: ${await readError(response)}`);
+      }
+
+      const data = await response.json();
+      return data.IpfsHash;
+    },
+  };
+}
+
+/**
+ * web3.storage-style HTTP upload API (raw body, bearer token)
+ * @param token - API token
+ * @param endpoint - Upload API base URL
+ */
+export function createWeb3StorageBackend(
+  token: string,
+  endpoint: string = 'https://api.web3.storage'
+): PinningBackend {
+  return {
+    name: 'web3storage',
+    async pin(content, options) {
+      const response = await fetch(`${endpoint.replace(/\/$/, '')}/upload`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': options.contentType || 'application/octet-stream',
+          ...(options.name && { 'X-Name': encodeURIComponent(options.name) }),
+        },
+        body: new Blob([content as BlobPart]),
+      });
 
+      if (!response.ok) {
+        throw new Error(`web3.storage upload failed: ${await readError(response)}`);
+      }
+
+      const data = await response.json();
+      return data.cid;
+    },
+  };
+}
+
+// ========================================
+// CLIENT
+// ========================================
+
+/**
+ * Create an IPFS client bound to a pinning backend and a read gateway
+ */
+export function createIpfsClient(config: IpfsClientConfig): IpfsClient {
+  const gateway = config.gateway.replace(/\/$/, '');
+
+  const url = (cid: string) => `${gateway}/ipfs/${cid}`;
+
+  const cat = async (cid: string): Promise<Uint8Array> => {
+    const response = await fetch(url(cid));
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `Upload failed: ${response.statusText}`);
+      throw new Error(`IPFS fetch failed for ${cid}: ${response.statusText}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  };
+
+  const verify = async (cid: string, expected: Uint8Array): Promise<boolean> => {
+    try {
+      const fetched = await cat(cid);
+      return u8aEq(sha256AsU8a(fetched), sha256AsU8a(expected));
+    } catch (error) {
+      console.error('IPFS verification error:', error);
+      return false;
+    }
+  };
+
+  const add = async (content: Uint8Array | string, options: IpfsAddOptions = {}): Promise<IpfsAddResult> => {
+    let bytes = toBytes(content);
+
+    if (options.encryptWith) {
+      bytes = stringToU8a(await sealVault(u8aToString(bytes), options.encryptWith));
+    }
+
+    const cid = computeCid(bytes);
+    const pinnedCid = await config.backend.pin(bytes, {
+      name: options.name,
+      contentType: options.encryptWith ? 'application/json' : options.contentType,
+    });
+
+    if (!isValidCid(pinnedCid)) {
+      throw new Error(`${config.backend.name} returned an invalid CID: ${pinnedCid}`);
+    }
+
+    const singleBlock = bytes.length <= SINGLE_BLOCK_LIMIT;
+    if (singleBlock && pinnedCid !== cid) {
+      throw new Error(`${config.backend.name} pinned ${pinnedCid}, expected ${cid}`);
+    }
+
+    // A chunked DAG root cannot be compared with the local CID, so larger
+    // content is always fetched back
+    const shouldVerify = options.verify || !singleBlock;
+    const verified = shouldVerify ? await verify(pinnedCid, bytes) : false;
+
+    if (shouldVerify && !verified) {
+      throw new Error(`IPFS round-trip verification failed for ${pinnedCid}`);
     }
 
-    const data = await response.json();
-    return data.IpfsHash; // Returns: Qm...
-  } catch (error) {
-    console.error('IPFS upload error:', error);
-    toast.error('Failed to upload to IPFS');
-    throw error;
+    return { cid, pinnedCid, size: bytes.length, encrypted: !!options.encryptWith, verified };
+  };
+
+  return {
+    add,
+    addJson: (value, options = {}) =>
+      add(JSON.stringify(value), { contentType: 'application/json', ...options }),
+    addFile: async (file, options = {}) => {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (options.encryptWith) {
+        // Binary files are wrapped so the vault can carry them as JSON
+        const wrapped = JSON.stringify({ type: file.type, data: u8aToHex(bytes) });
+        return add(wrapped, { name: (file as File).name, ...options });
+      }
+      return add(bytes, { name: (file as File).name, contentType: file.type, ...options });
+    },
+    cat,
+    catJson: async <T,>(cid: string, options: { decryptWith?: string } = {}) => {
+      const text = u8aToString(await cat(cid));
+      if (options.decryptWith) {
+        const { data } = await openVault<string>(text, options.decryptWith);
+        return JSON.parse(data) as T;
+      }
+      return JSON.parse(text) as T;
+    },
+    verify,
+    url,
+  };
+}
+
+// ========================================
+// DEFAULT CLIENT (from environment)
+// ========================================
+
+const DEFAULT_GATEWAY = 'https://gateway.pinata.cloud';
+const env = import.meta.env;
+
+let defaultClient: IpfsClient | null = null;
+
+/**
+ * Select the pinning backend from VITE_IPFS_BACKEND (kubo | pinata | web3storage)
+ */
+function backendFromEnv(): PinningBackend {
+  const backend = env.VITE_IPFS_BACKEND || 'pinata';
+
+  switch (backend) {
+    case 'kubo':
+      return createKuboBackend(env.VITE_KUBO_API_URL || 'http://127.0.0.1:5001');
+    case 'web3storage':
+      if (!env.VITE_WEB3STORAGE_TOKEN) {
+        throw new Error('web3.storage token not configured. Set VITE_WEB3STORAGE_TOKEN in .env');
+      }
+      return createWeb3StorageBackend(env.VITE_WEB3STORAGE_TOKEN);
+    case 'pinata':
+    default:
+      if (!env.VITE_PINATA_JWT || env.VITE_PINATA_JWT === 'your_pinata_jwt_here') {
+        throw new Error('Pinata JWT not configured. Set VITE_PINATA_JWT in .env');
+      }
+      return createPinataBackend(env.VITE_PINATA_JWT);
   }
 }
 
+/**
+ * Get the shared IPFS client configured from environment variables
+ */
+export function getIpfsClient(): IpfsClient {
+  if (!defaultClient) {
+    defaultClient = createIpfsClient({
+      backend: backendFromEnv(),
+      gateway: env.VITE_IPFS_GATEWAY || DEFAULT_GATEWAY,
+    });
+  }
+  return defaultClient;
+}
+
+/**
+ * Replace the shared client (tests, custom backends)
+ */
+export function setIpfsClient(client: IpfsClient | null): void {
+  defaultClient = client;
+}
+
+// ========================================
+// CONVENIENCE HELPERS
+// ========================================
+
+/**
+ * Upload a file
+ * @returns Pinned CID
+ * @throws If the upload fails or the backend pinned different bytes
+ */
+export async function uploadToIPFS(file: File, options: IpfsAddOptions = {}): Promise<string> {
+  const { pinnedCid } = await getIpfsClient().addFile(file, options);
+  return pinnedCid;
+}
+
+/**
+ * Upload a JSON-serialisable value
+ * @returns Pinned CID
+ */
+export async function uploadJsonToIPFS(value: unknown, options: IpfsAddOptions = {}): Promise<string> {
+  const { pinnedCid } = await getIpfsClient().addJson(value, options);
+  return pinnedCid;
+}
+
 export function getIPFSUrl(hash: string): string {
-  return `https://gateway.pinata.cloud/ipfs/${hash}`;
+  if (defaultClient) {
+    return defaultClient.url(hash);
+  }
+  return `${env.VITE_IPFS_GATEWAY || DEFAULT_GATEWAY}/ipfs/${hash}`;
 }
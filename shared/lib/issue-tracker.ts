@@ -0,0 +1,232 @@
+/**
+ * Citizen Issue Tracker - Supabase storage
+ *
+ * @module issue-tracker
+ * @description Comments, signed official updates and region tags for
+ * on-chain citizen issues (see issues.ts for the workflow rules)
+ *
+ * Rows reference the chain issue id. Official updates are signed by the
+ * official's wallet and published through the backend; readers must still
+ * pass them through filterAuthorizedUpdates before applying them.
+ */
+
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex } from '@polkadot/util';
+import { supabase } from '@/lib/supabase';
+import { buildSignedRequestMessage } from '../utils/auth';
+import type { Region } from './citizenship-workflow';
+import { uploadToIPFS } from './ipfs';
+import {
+  signIssueUpdate,
+  type IssueAttachment,
+  type IssueComment,
+  type IssueUpdate,
+  type IssueUpdateInput,
+} from './issues';
+
+const MAX_COMMENT_LENGTH = 4000;
+const MAX_ATTACHMENTS = 3;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const UPDATE_COLUMNS =
+  'id, issue_id, kind, status, merged_into, note, actor_address, issued_at, signature, block_number, block_hash, created_at';
+
+// =====================================================
+// READS
+// =====================================================
+
+/**
+ * Every official update, oldest first
+ */
+export async function getIssueUpdates(): Promise<IssueUpdate[]> {
+  const { data, error } = await supabase
+    .from('citizen_issue_updates')
+    .select(UPDATE_COLUMNS)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    ...row,
+    issue_id: Number(row.issue_id),
+    merged_into: row.merged_into === null ? null : Number(row.merged_into),
+    issued_at: Number(row.issued_at),
+    block_number: row.block_number === null ? null : Number(row.block_number),
+  }));
+}
+
+export async function getIssueRegions(): Promise<Map<number, Region>> {
+  const { data, error } = await supabase.from('citizen_issue_regions').select('issue_id, region');
+
+  if (error) throw error;
+  return new Map((data || []).map((row) => [Number(row.issue_id), row.region as Region]));
+}
+
+/**
+ * Comments on an issue, oldest first
+ */
+export async function getIssueComments(issueId: number): Promise<IssueComment[]> {
+  const { data, error } = await supabase
+    .from('citizen_issue_comments')
+    .select('id, issue_id, parent_id, author_address, body, attachments, created_at')
+    .eq('issue_id', issueId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, issue_id: Number(row.issue_id) }));
+}
+
+/**
+ * Comment counts per issue
+ */
+export async function getIssueCommentCounts(): Promise<Map<number, number>> {
+  const { data, error } = await supabase.from('citizen_issue_comments').select('issue_id');
+
+  if (error) throw error;
+  const counts = new Map<number, number>();
+  (data || []).forEach((row) => {
+    const issueId = Number(row.issue_id);
+    counts.set(issueId, (counts.get(issueId) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Live comments on an issue; returns the unsubscribe function
+ */
+export function subscribeToIssueComments(issueId: number, onComment: (comment: IssueComment) => void): () => void {
+  const channel = supabase
+    .channel(`issue-comments-${issueId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'citizen_issue_comments', filter: `issue_id=eq.${issueId}` },
+      (payload) => {
+        const row = payload.new as IssueComment;
+        onComment({ ...row, issue_id: Number(row.issue_id) });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// =====================================================
+// WRITES
+// =====================================================
+
+async function getUserId(): Promise<string> {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('Not authenticated');
+  return user.user.id;
+}
+
+/**
+ * Post a comment or reply; files are pinned to IPFS first
+ */
+export async function addIssueComment(params: {
+  issueId: number;
+  parentId: string | null;
+  address: string;
+  body: string;
+  files?: File[];
+}): Promise<IssueComment> {
+  const body = params.body.trim();
+  const files = params.files ?? [];
+  if (!body) throw new Error('Comment is empty');
+  if (body.length > MAX_COMMENT_LENGTH) throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  if (files.length > MAX_ATTACHMENTS) throw new Error(`At most ${MAX_ATTACHMENTS} attachments per comment`);
+  if (files.some((file) => file.size > MAX_ATTACHMENT_BYTES)) throw new Error('Attachments must be smaller than 10MB');
+
+  const authorId = await getUserId();
+  const attachments: IssueAttachment[] = await Promise.all(
+    files.map(async (file) => ({
+      cid: await uploadToIPFS(file),
+      name: file.name,
+      type: file.type,
+      size: file.size,
+    }))
+  );
+
+  const { data, error } = await supabase
+    .from('citizen_issue_comments')
+    .insert({
+      issue_id: params.issueId,
+      parent_id: params.parentId,
+      author_id: authorId,
+      author_address: params.address,
+      body,
+      attachments,
+    })
+    .select('id, issue_id, parent_id, author_address, body, attachments, created_at')
+    .single();
+
+  if (error) throw error;
+  return { ...data, issue_id: Number(data.issue_id) };
+}
+
+/**
+ * Sign an official update and publish it through the backend, which
+ * checks the signature and Tiki role before storing it and notifies the
+ * issue's supporters of status changes and merges
+ */
+export async function postIssueUpdate(
+  address: string,
+  update: Omit<IssueUpdateInput, 'issuedAt'>
+): Promise<{ update: IssueUpdate; notified: number }> {
+  const input: IssueUpdateInput = { ...update, note: update.note.trim(), issuedAt: Date.now() };
+  const signature = await signIssueUpdate(address, input);
+
+  const result = await postToBackend(
+    '/api/issues/updates',
+    { ...input, actorAddress: address, signature },
+    'Failed to publish issue update'
+  );
+
+  const data = result.update;
+  return {
+    update: {
+      ...data,
+      issue_id: Number(data.issue_id),
+      merged_into: data.merged_into === null ? null : Number(data.merged_into),
+      issued_at: Number(data.issued_at),
+      block_number: Number(data.block_number),
+    },
+    notified: result.notified,
+  };
+}
+
+/**
+ * Tag an issue with its region. Only the issue's on-chain submitter may,
+ * so the request is signed by the submitting wallet.
+ */
+export async function setIssueRegion(address: string, issueId: number, region: Region): Promise<void> {
+  const injector = await web3FromAddress(address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const message = buildSignedRequestMessage(`setIssueRegion:${issueId}:${region}`);
+  const { signature } = await injector.signer.signRaw({
+    address,
+    data: stringToHex(message),
+    type: 'bytes',
+  });
+
+  await postToBackend(`/api/issues/${issueId}/region`, { region, address, message, signature }, 'Failed to tag issue region');
+}
+
+async function postToBackend(path: string, body: Record<string, unknown>, fallbackError: string): Promise<any> {
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
+}
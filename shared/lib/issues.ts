@@ -0,0 +1,417 @@
+// ========================================
+// Citizen Issues
+// ========================================
+// Issues live on chain (welati.submitIssue / voteOnIssue). Handling by
+// officials - status transitions, official responses and duplicate
+// merges - is signed by the official's wallet and published through the
+// backend (see issue-tracker.ts); every client re-verifies the signature
+// and that the signer holds a Tiki of the ministry responsible for the
+// issue's category before applying it.
+
+import type { ApiPromise } from '@polkadot/api';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex } from '@polkadot/util';
+import { signatureVerify } from '@polkadot/util-crypto';
+import type { Region } from './citizenship-workflow';
+import { checkAnyTikiRole } from './guards';
+
+const ISSUE_UPDATE_MESSAGE_PREFIX = 'pezkuwi-issue-update:v1:';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type IssueStatus = 'Pending' | 'InProgress' | 'Resolved' | 'Closed';
+
+export type IssueUpdateKind = 'status' | 'response' | 'merge';
+
+export interface CitizenIssue {
+  id: number;
+  submitter: string;
+  description: string;
+  category: string;
+  status: IssueStatus;
+  supportVotes: number;
+  opposeVotes: number;
+  response?: string;
+  blockNumber: number;
+}
+
+export interface IssueAttachment {
+  cid: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface IssueComment {
+  id: string;
+  issue_id: number;
+  parent_id: string | null;
+  author_address: string;
+  body: string;
+  attachments: IssueAttachment[];
+  created_at: string;
+}
+
+export interface IssueCommentNode extends IssueComment {
+  replies: IssueCommentNode[];
+}
+
+export interface IssueUpdateInput {
+  issueId: number;
+  kind: IssueUpdateKind;
+  status?: IssueStatus;
+  mergedInto?: number;
+  note: string;
+  /** Milliseconds */
+  issuedAt: number;
+}
+
+export interface IssueUpdate {
+  id: string;
+  issue_id: number;
+  kind: IssueUpdateKind;
+  status: IssueStatus | null;
+  merged_into: number | null;
+  note: string;
+  actor_address: string;
+  issued_at: number;
+  signature: string;
+  /** Finalized block at which the backend checked the actor's Tiki */
+  block_number: number | null;
+  block_hash: string | null;
+  created_at: string;
+}
+
+export interface TrackedIssue extends CitizenIssue {
+  region: Region | null;
+  /** Chain status after the official status changes */
+  effectiveStatus: IssueStatus;
+  /** Canonical issue this one was merged into, following chained merges */
+  mergedInto: number | null;
+  duplicates: number[];
+  /** Support including merged duplicates */
+  totalSupport: number;
+  responses: IssueUpdate[];
+  /** Every applied official update, oldest first */
+  history: IssueUpdate[];
+}
+
+export interface IssueFilters {
+  category: string;
+  status: string;
+  region: string;
+  query: string;
+}
+
+// ========================================
+// WORKFLOW
+// ========================================
+
+export const ISSUE_STATUSES: IssueStatus[] = ['Pending', 'InProgress', 'Resolved', 'Closed'];
+
+/** Allowed status changes; resolved and closed issues can be reopened */
+export const ISSUE_STATUS_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  Pending: ['InProgress', 'Closed'],
+  InProgress: ['Resolved', 'Closed', 'Pending'],
+  Resolved: ['InProgress', 'Closed'],
+  Closed: ['InProgress'],
+};
+
+/** Tiki roles of the ministry responsible for each category */
+export const ISSUE_CATEGORY_MINISTRIES: Record<string, string[]> = {
+  Governance: ['SerokWeziran'],
+  Security: ['WezireParez'],
+  Economy: ['WezireDarayiye'],
+  Infrastructure: ['WezireAva'],
+  Education: ['WezireBelaw'],
+  Healthcare: ['WezireTend'],
+  Environment: ['WezireAva'],
+  Other: ['SerokWeziran'],
+};
+
+/**
+ * Roles that may handle issues of a category; the prime minister
+ * oversees every ministry
+ */
+export function getIssueResponsibleRoles(category: string): string[] {
+  return [...new Set([...(ISSUE_CATEGORY_MINISTRIES[category] ?? []), 'SerokWeziran'])];
+}
+
+export function canTransitionIssue(from: IssueStatus, to: IssueStatus): boolean {
+  return ISSUE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export const ISSUE_CATEGORIES = [
+  { value: 'Governance', label: 'Rêveberî (Governance)' },
+  { value: 'Security', label: 'Ewlehî (Security)' },
+  { value: 'Economy', label: 'Aborî (Economy)' },
+  { value: 'Infrastructure', label: 'Binesaz (Infrastructure)' },
+  { value: 'Education', label: 'Perwerde (Education)' },
+  { value: 'Healthcare', label: 'Tenduristî (Healthcare)' },
+  { value: 'Environment', label: 'Jîngeh (Environment)' },
+  { value: 'Other', label: 'Din (Other)' },
+];
+
+export const ISSUE_STATUS_LABELS: Record<IssueStatus, string> = {
+  Pending: 'Li Benda (Pending)',
+  InProgress: 'Di Pêşketin de (In Progress)',
+  Resolved: 'Çareser kirin (Resolved)',
+  Closed: 'Girtî (Closed)',
+};
+
+export const ISSUE_REGIONS: { value: Region; label: string }[] = [
+  { value: 'bakur', label: 'Bakur (North)' },
+  { value: 'basur', label: 'Başûr (South)' },
+  { value: 'rojava', label: 'Rojava (West)' },
+  { value: 'rojhelat', label: 'Rojhilat (East)' },
+  { value: 'kurdistan_a_sor', label: 'Kurdistan a Sor (Red Kurdistan)' },
+  { value: 'diaspora', label: 'Diaspora' },
+];
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * All issues, newest first
+ */
+export async function getIssues(api: ApiPromise): Promise<CitizenIssue[]> {
+  if (!api.query.welati) return [];
+
+  const issueCount = ((await api.query.welati.issueCount()).toJSON() as number) || 0;
+  const options = await Promise.all(
+    Array.from({ length: issueCount }, (_, i) => api.query.welati.issues(i))
+  );
+
+  return options
+    .map((option, id) => {
+      if (option.isEmpty) return null;
+
+      const data = (option as any).unwrap().toJSON() as any;
+      return {
+        id,
+        submitter: data.submitter,
+        description: data.description,
+        category: data.category,
+        status: data.status as IssueStatus,
+        supportVotes: data.supportVotes || 0,
+        opposeVotes: data.opposeVotes || 0,
+        response: data.response ?? undefined,
+        blockNumber: data.blockNumber || 0,
+      };
+    })
+    .filter((issue): issue is CitizenIssue => issue !== null)
+    .reverse();
+}
+
+/**
+ * The account's votes, issue id -> support
+ */
+export async function getUserIssueVotes(api: ApiPromise, address: string): Promise<Map<number, boolean>> {
+  const entries = await api.query.welati.issueVotes.entries(address);
+  return new Map(entries.map(([key, value]) => [Number(key.args[1].toString()), value.toJSON() as boolean]));
+}
+
+// ========================================
+// SIGNED UPDATES
+// ========================================
+
+export function buildIssueUpdateMessage(input: IssueUpdateInput): string {
+  return ISSUE_UPDATE_MESSAGE_PREFIX + JSON.stringify([
+    input.issueId,
+    input.kind,
+    input.status ?? null,
+    input.mergedInto ?? null,
+    input.note,
+    input.issuedAt,
+  ]);
+}
+
+export async function signIssueUpdate(address: string, input: IssueUpdateInput): Promise<string> {
+  const injector = await web3FromAddress(address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const { signature } = await injector.signer.signRaw({
+    address,
+    data: stringToHex(buildIssueUpdateMessage(input)),
+    type: 'bytes',
+  });
+  return signature;
+}
+
+/**
+ * Whether the update was signed by its actor
+ */
+export function verifyIssueUpdate(update: IssueUpdate): boolean {
+  const message = buildIssueUpdateMessage({
+    issueId: update.issue_id,
+    kind: update.kind,
+    status: update.status ?? undefined,
+    mergedInto: update.merged_into ?? undefined,
+    note: update.note,
+    issuedAt: update.issued_at,
+  });
+
+  try {
+    return signatureVerify(message, update.signature, update.actor_address).isValid;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the address held one of the roles at the given block
+ */
+async function heldTikiRoleAt(api: ApiPromise, blockHash: string, address: string, roles: string[]): Promise<boolean> {
+  try {
+    const apiAt = await api.at(blockHash);
+    return await checkAnyTikiRole(apiAt as unknown as ApiPromise, address, roles);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Updates with a valid signature from an account that held a responsible
+ * Tiki when the update was published (at the block the backend recorded);
+ * everything else is dropped
+ */
+export async function filterAuthorizedUpdates(
+  api: ApiPromise,
+  updates: IssueUpdate[],
+  issues: CitizenIssue[]
+): Promise<IssueUpdate[]> {
+  const categories = new Map(issues.map((issue) => [issue.id, issue.category]));
+  const checks = new Map<string, Promise<boolean>>();
+
+  const authorized = await Promise.all(
+    updates.map((update) => {
+      const category = categories.get(update.issue_id);
+      if (category === undefined || !update.block_hash || !verifyIssueUpdate(update)) return false;
+
+      const key = `${update.actor_address}:${category}:${update.block_hash}`;
+      if (!checks.has(key)) {
+        checks.set(
+          key,
+          heldTikiRoleAt(api, update.block_hash, update.actor_address, getIssueResponsibleRoles(category))
+        );
+      }
+      return checks.get(key)!;
+    })
+  );
+
+  return updates.filter((_, i) => authorized[i]);
+}
+
+// ========================================
+// TRACKING
+// ========================================
+
+/**
+ * Apply authorized official updates to the chain issues
+ */
+export function trackIssues(
+  issues: CitizenIssue[],
+  updates: IssueUpdate[],
+  regions: Map<number, Region>
+): TrackedIssue[] {
+  const ids = new Set(issues.map((issue) => issue.id));
+  const statuses = new Map(issues.map((issue) => [issue.id, issue.status]));
+  const history = new Map<number, IssueUpdate[]>();
+
+  // In the order the backend stored them (issued_at is chosen by the
+  // signer); status changes are replayed from the chain status and
+  // disallowed transitions dropped
+  [...updates]
+    .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+    .forEach((update) => {
+      const current = statuses.get(update.issue_id);
+      if (current === undefined) return;
+      if (update.kind === 'status') {
+        if (!update.status || !canTransitionIssue(current, update.status)) return;
+        statuses.set(update.issue_id, update.status);
+      }
+
+      if (!history.has(update.issue_id)) history.set(update.issue_id, []);
+      history.get(update.issue_id)!.push(update);
+    });
+
+  // Latest merge wins; merges into unknown issues are ignored
+  const directMerges = new Map<number, number>();
+  history.forEach((list, issueId) => {
+    const merge = list.filter((update) => update.kind === 'merge').pop();
+    if (merge?.merged_into != null && ids.has(merge.merged_into)) directMerges.set(issueId, merge.merged_into);
+  });
+
+  const resolveMerge = (issueId: number): number | null => {
+    const seen = new Set([issueId]);
+    let target = directMerges.get(issueId);
+    while (target !== undefined && directMerges.has(target)) {
+      if (seen.has(target)) return null; // merge cycle
+      seen.add(target);
+      target = directMerges.get(target);
+    }
+    return target ?? null;
+  };
+
+  const mergedInto = new Map(issues.map((issue) => [issue.id, resolveMerge(issue.id)]));
+  const supportById = new Map(issues.map((issue) => [issue.id, issue.supportVotes]));
+
+  return issues.map((issue) => {
+    const list = history.get(issue.id) ?? [];
+    const target = mergedInto.get(issue.id) ?? null;
+    const duplicates = issues
+      .filter((other) => mergedInto.get(other.id) === issue.id)
+      .map((other) => other.id);
+
+    return {
+      ...issue,
+      region: regions.get(issue.id) ?? null,
+      effectiveStatus: target !== null ? 'Closed' : statuses.get(issue.id)!,
+      mergedInto: target,
+      duplicates,
+      totalSupport: issue.supportVotes + duplicates.reduce((sum, id) => sum + (supportById.get(id) ?? 0), 0),
+      responses: list.filter((update) => update.kind === 'response'),
+      history: list,
+    };
+  });
+}
+
+/**
+ * Comments as threads, oldest first; replies to missing comments become
+ * top-level
+ */
+export function buildCommentThreads(comments: IssueComment[]): IssueCommentNode[] {
+  const nodes = new Map<string, IssueCommentNode>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: IssueCommentNode[] = [];
+
+  [...comments]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((comment) => {
+      const node = nodes.get(comment.id)!;
+      const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined;
+      if (parent) parent.replies.push(node);
+      else roots.push(node);
+    });
+
+  return roots;
+}
+
+/**
+ * Filter by category, status, region and text; 'all' disables a filter.
+ * Merged duplicates only show up when filtering for closed issues.
+ */
+export function filterIssues(issues: TrackedIssue[], filters: IssueFilters): TrackedIssue[] {
+  const query = filters.query.trim().toLowerCase();
+
+  return issues.filter((issue) =>
+    (filters.category === 'all' || issue.category === filters.category) &&
+    (filters.status === 'all' ? issue.mergedInto === null : issue.effectiveStatus === filters.status) &&
+    (filters.region === 'all' || issue.region === filters.region) &&
+    (!query || issue.description.toLowerCase().includes(query) || String(issue.id) === query)
+  );
+}
@@ -0,0 +1,430 @@
+// ========================================
+// Legislation Tracker
+// ========================================
+// Parliament legislation built on welati collective proposals:
+// - Full proposal text lives on IPFS; the on-chain description holds
+//   `ipfs://<cid>` of a LegislationDocument
+// - Amendments are new proposals whose document points at the text they amend
+// - Threshold progress per CollectiveDecisionType against the deciding body
+// - Per-member vote records and an archive of executed laws, linked to the
+//   transaction that executed them
+
+import type { ApiPromise } from '@polkadot/api';
+import { getIpfsClient, isValidCid, uploadJsonToIPFS } from './ipfs';
+import { getTransactions, type IndexedTransaction } from './transaction-history';
+import {
+  getCurrentMinisters,
+  getCurrentOfficials,
+  getDecisionTypeThreshold,
+  getDiwanMembers,
+  getParliamentMembers,
+  type CollectiveDecisionType,
+  type CollectiveProposal,
+  type ProposalPriority,
+  type ProposalStatus,
+  type VoteChoice,
+} from './welati';
+
+export const LEGISLATION_DOCUMENT_SCHEME = 'pezkuwi-legislation-v1';
+
+/** Prefix of on-chain descriptions that link to the full text */
+export const LEGISLATION_TEXT_PREFIX = 'ipfs://';
+
+/** How far back amendment history is followed */
+export const MAX_AMENDMENT_DEPTH = 10;
+
+// Indexer transactions scanned for ProposalExecuted events
+const EXECUTION_HISTORY_LIMIT = 200;
+
+// ========================================
+// TYPES
+// ========================================
+
+export type DecisionBody = 'parliament' | 'diwan' | 'executive';
+
+export type LegislationStage = 'Proposed' | 'Voting' | 'Decided' | 'Executed';
+
+export interface LegislationDocument {
+  scheme: typeof LEGISLATION_DOCUMENT_SCHEME;
+  title: string;
+  summary: string;
+  text: string;
+  /** The version this one amends */
+  amends: { proposalId: number; cid: string } | null;
+  createdAt: string;
+}
+
+export interface LegislationVersion {
+  cid: string;
+  document: LegislationDocument;
+}
+
+export interface MemberVote {
+  voter: string;
+  vote: VoteChoice;
+  rationale: string | null;
+  votedAt: number;
+}
+
+export interface ThresholdProgress {
+  body: DecisionBody;
+  /** Members entitled to vote */
+  electorate: number;
+  /** Aye votes needed to pass */
+  required: number;
+  ayes: number;
+  nays: number;
+  abstains: number;
+  /** Members who have not voted yet */
+  outstanding: number;
+  /** Percent of the electorate that has voted */
+  participation: number;
+  /** Percent of the required ayes reached, capped at 100 */
+  progress: number;
+  /** passing: threshold reached; failing: can no longer be reached */
+  outlook: 'passing' | 'open' | 'failing';
+}
+
+export interface LegislationStageInfo {
+  stage: LegislationStage;
+  block: number | null;
+  state: 'past' | 'current' | 'upcoming';
+}
+
+export interface ExecutionRecord {
+  txHash: string;
+  blockNumber: number;
+  /** Extrinsic that executed the proposal, e.g. 'welati.executeProposal' */
+  call: string;
+  /** Events the execution dispatched, e.g. 'treasury.Awarded' */
+  effects: string[];
+}
+
+export interface LegislationRecord extends CollectiveProposal {
+  textCid: string | null;
+  execution: ExecutionRecord | null;
+}
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * All proposals in storage regardless of status, newest first
+ */
+export async function getLegislation(api: ApiPromise): Promise<LegislationRecord[]> {
+  const entries = await api.query.welati.activeProposals.entries();
+
+  return entries
+    .filter(([, value]) => !value.isEmpty)
+    .map(([key, value]) => {
+      const data = (value as any).unwrap().toJSON() as any;
+      return toLegislationRecord(Number(key.args[0].toString()), data);
+    })
+    .sort((a, b) => b.proposalId - a.proposalId);
+}
+
+export async function getLegislationById(api: ApiPromise, proposalId: number): Promise<LegislationRecord | null> {
+  const value = await api.query.welati.activeProposals(proposalId);
+  if (value.isEmpty) return null;
+
+  return toLegislationRecord(proposalId, (value as any).unwrap().toJSON() as any);
+}
+
+function toLegislationRecord(proposalId: number, data: any): LegislationRecord {
+  const description = decodeText(data.description);
+
+  return {
+    proposalId,
+    proposer: data.proposer,
+    title: decodeText(data.title),
+    description,
+    proposedAt: data.proposedAt,
+    votingStartsAt: data.votingStartsAt,
+    expiresAt: data.expiresAt,
+    decisionType: data.decisionType as CollectiveDecisionType,
+    status: data.status as ProposalStatus,
+    ayeVotes: data.ayeVotes || 0,
+    nayVotes: data.nayVotes || 0,
+    abstainVotes: data.abstainVotes || 0,
+    threshold: data.threshold || 0,
+    votesCast: data.votesCast || 0,
+    priority: data.priority as ProposalPriority,
+    textCid: getTextCid(description),
+    execution: null,
+  };
+}
+
+function decodeText(value: unknown): string {
+  if (typeof value !== 'string' || !value.startsWith('0x')) return String(value ?? '');
+
+  const bytes = value.slice(2).match(/.{2}/g) ?? [];
+  return new TextDecoder().decode(new Uint8Array(bytes.map((byte) => parseInt(byte, 16))));
+}
+
+/**
+ * Every vote cast on a proposal, in voting order
+ */
+export async function getProposalVotes(api: ApiPromise, proposalId: number): Promise<MemberVote[]> {
+  const entries = await api.query.welati.collectiveVotes.entries(proposalId);
+
+  return entries
+    .map(([key, value]) => {
+      const data = value.toJSON() as any;
+      return {
+        voter: key.args[1].toString(),
+        vote: data.vote as VoteChoice,
+        rationale: data.rationale ? decodeText(data.rationale) : null,
+        votedAt: data.votedAt || 0,
+      };
+    })
+    .sort((a, b) => a.votedAt - b.votedAt);
+}
+
+/**
+ * Members of the body that decides a proposal of this type
+ */
+export async function getDecisionMembers(api: ApiPromise, type: CollectiveDecisionType): Promise<string[]> {
+  switch (getDecisionBody(type)) {
+    case 'parliament':
+      return (await getParliamentMembers(api)).map((member) => member.account);
+    case 'diwan':
+      return getDiwanMembers(api);
+    case 'executive': {
+      const [officials, ministers] = await Promise.all([getCurrentOfficials(api), getCurrentMinisters(api)]);
+      return [officials.serokWeziran, ...Object.values(ministers)].filter((account): account is string => !!account);
+    }
+  }
+}
+
+/**
+ * Execution transactions for executed proposals, from the indexer.
+ * Records stay without links if the indexer is unavailable.
+ */
+export async function withExecutionRecords(records: LegislationRecord[]): Promise<LegislationRecord[]> {
+  if (!records.some((record) => record.status === 'Executed')) return records;
+
+  try {
+    const { transactions } = await getTransactions({ pallet: 'welati', limit: EXECUTION_HISTORY_LIMIT });
+    const executions = findExecutionTransactions(transactions);
+
+    return records.map((record) => ({ ...record, execution: executions.get(record.proposalId) ?? null }));
+  } catch (error) {
+    console.warn('Execution records not available:', error);
+    return records;
+  }
+}
+
+/**
+ * Map executed proposal ids to the transaction that emitted ProposalExecuted
+ */
+export function findExecutionTransactions(transactions: IndexedTransaction[]): Map<number, ExecutionRecord> {
+  const executions = new Map<number, ExecutionRecord>();
+
+  transactions
+    .filter((tx) => tx.success)
+    .forEach((tx) => {
+      tx.events
+        .filter((event) => event.section === 'welati' && event.method === 'ProposalExecuted')
+        .forEach((event) => {
+          executions.set(Number(event.data[0]), {
+            txHash: tx.hash,
+            blockNumber: tx.block_number,
+            call: `${tx.section}.${tx.method}`,
+            effects: tx.events
+              .filter((other) => !['system', 'welati', 'transactionPayment'].includes(other.section))
+              .map((other) => `${other.section}.${other.method}`),
+          });
+        });
+    });
+
+  return executions;
+}
+
+// ========================================
+// FULL TEXT & AMENDMENTS
+// ========================================
+
+export function getTextCid(description: string): string | null {
+  if (!description.startsWith(LEGISLATION_TEXT_PREFIX)) return null;
+
+  const cid = description.slice(LEGISLATION_TEXT_PREFIX.length).trim();
+  return isValidCid(cid) ? cid : null;
+}
+
+export function buildLegislationDocument(
+  title: string,
+  summary: string,
+  text: string,
+  amends: LegislationDocument['amends'] = null
+): LegislationDocument {
+  return {
+    scheme: LEGISLATION_DOCUMENT_SCHEME,
+    title: title.trim(),
+    summary: summary.trim(),
+    text,
+    amends,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Pin a document and build the submitProposal call that links to it
+ */
+export async function buildSubmitLegislationTx(
+  api: ApiPromise,
+  document: LegislationDocument,
+  decisionType: CollectiveDecisionType,
+  priority: ProposalPriority = 'Normal'
+) {
+  const cid = await uploadJsonToIPFS(document, { name: `legislation-${document.title.slice(0, 32)}` });
+  const tx = api.tx.welati.submitProposal(
+    document.title,
+    `${LEGISLATION_TEXT_PREFIX}${cid}`,
+    decisionType,
+    priority,
+    null
+  );
+
+  return { tx, cid };
+}
+
+export async function fetchLegislationDocument(cid: string): Promise<LegislationDocument> {
+  const document = await getIpfsClient().catJson<LegislationDocument>(cid);
+  if (document?.scheme !== LEGISLATION_DOCUMENT_SCHEME) {
+    throw new Error('Not a legislation document');
+  }
+  return document;
+}
+
+/**
+ * A document and the versions it amends, oldest first
+ */
+export async function getAmendmentHistory(cid: string): Promise<LegislationVersion[]> {
+  const versions: LegislationVersion[] = [];
+  let next: string | null = cid;
+
+  while (next && versions.length < MAX_AMENDMENT_DEPTH) {
+    const document = await fetchLegislationDocument(next);
+    versions.unshift({ cid: next, document });
+    next = document.amends?.cid ?? null;
+  }
+
+  return versions;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff between two versions of a text (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j]: common lines of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach((text) => lines.push({ type: 'removed', text }));
+  b.slice(j).forEach((text) => lines.push({ type: 'added', text }));
+
+  return lines;
+}
+
+// ========================================
+// THRESHOLDS & LIFECYCLE
+// ========================================
+
+export function getDecisionBody(type: CollectiveDecisionType): DecisionBody {
+  if (type === 'ConstitutionalReview' || type === 'ConstitutionalUnanimous') return 'diwan';
+  if (type === 'ExecutiveDecision') return 'executive';
+  return 'parliament';
+}
+
+/**
+ * Live progress towards the decision type's threshold. Falls back to the
+ * threshold stored with the proposal when the electorate is unknown.
+ */
+export function getThresholdProgress(proposal: CollectiveProposal, electorate: number): ThresholdProgress {
+  const required = electorate > 0
+    ? getDecisionTypeThreshold(proposal.decisionType, electorate)
+    : proposal.threshold;
+  const outstanding = Math.max(0, electorate - proposal.votesCast);
+
+  let outlook: ThresholdProgress['outlook'] = 'open';
+  if (required > 0 && proposal.ayeVotes >= required) outlook = 'passing';
+  else if (electorate > 0 && proposal.ayeVotes + outstanding < required) outlook = 'failing';
+
+  return {
+    body: getDecisionBody(proposal.decisionType),
+    electorate,
+    required,
+    ayes: proposal.ayeVotes,
+    nays: proposal.nayVotes,
+    abstains: proposal.abstainVotes,
+    outstanding,
+    participation: electorate > 0 ? (proposal.votesCast / electorate) * 100 : 0,
+    progress: required > 0 ? Math.min(100, (proposal.ayeVotes / required) * 100) : 0,
+    outlook,
+  };
+}
+
+/**
+ * Proposed → Voting → Decided → Executed, with the block each stage began
+ * at where the proposal records it
+ */
+export function getLegislationStages(proposal: CollectiveProposal, currentBlock: number): LegislationStageInfo[] {
+  let current: LegislationStage = 'Proposed';
+  if (proposal.status === 'Executed') current = 'Executed';
+  else if (proposal.status !== 'Active' || currentBlock >= proposal.expiresAt) current = 'Decided';
+  else if (currentBlock >= proposal.votingStartsAt) current = 'Voting';
+
+  const stages: [LegislationStage, number | null][] = [
+    ['Proposed', proposal.proposedAt],
+    ['Voting', proposal.votingStartsAt],
+    ['Decided', proposal.expiresAt],
+    ['Executed', null],
+  ];
+  const currentIndex = stages.findIndex(([stage]) => stage === current);
+
+  return stages.map(([stage, block], i) => ({
+    stage,
+    block,
+    state: i < currentIndex ? 'past' : i === currentIndex ? 'current' : 'upcoming',
+  }));
+}
+
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+export const DECISION_TYPE_LABELS: Record<CollectiveDecisionType, { en: string; rule: string }> = {
+  ParliamentSimpleMajority: { en: 'Simple majority', rule: 'More than half of parliament' },
+  ParliamentSuperMajority: { en: 'Super majority', rule: 'Two thirds of parliament' },
+  ParliamentAbsoluteMajority: { en: 'Absolute majority', rule: 'Three quarters of parliament' },
+  ConstitutionalReview: { en: 'Constitutional review', rule: 'Two thirds of the Diwan' },
+  ConstitutionalUnanimous: { en: 'Constitutional (unanimous)', rule: 'Every Diwan member' },
+  ExecutiveDecision: { en: 'Executive decision', rule: 'More than half of the cabinet' },
+};
@@ -30,6 +30,12 @@ export const USDT_MULTISIG_CONFIG = {
   ] as MultisigMember[],
 };
 
+// Member addresses for the non-unique roles {tiki: address}
+export const USDT_MULTISIG_SPECIFIC_ADDRESSES: Record<string, string> = {
+  Noter: '5DFwqK698vL4gXHEcanaewnAqhxJ2rjhAogpSTHw3iwGDwd3',
+  Berdevk: '5F4V6dzpe72dE2C7YN3y7VGznMTWPFeSKL3ANhp4XasXjfvj',
+};
+
 // ========================================
 // MULTISIG MEMBER QUERIES
 // ========================================
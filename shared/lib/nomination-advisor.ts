@@ -0,0 +1,327 @@
+// ========================================
+// Nomination Advisor
+// ========================================
+// Ranks validators for nominators and proposes a diversified target set.
+//
+// Projected APY per validator: its average share of recent era rewards
+// (era points / total points x era payout), minus commission, spread over
+// its total stake. Blocked, slashed, oversubscribed, inactive and
+// high-commission validators are never proposed; the proposal spreads
+// targets across validator pool categories.
+
+import type { ApiPromise } from '@polkadot/api';
+import { getCurrentEra, type EraRewardPoints } from './staking';
+import { getAllPoolMembers, ValidatorPoolCategory } from './validator-pool';
+
+/** Eras of reward history to average over */
+export const ERA_HISTORY_DEPTH = 14;
+
+/** Maximum nominations per nominator */
+export const MAX_NOMINATIONS = 16;
+
+/** Commission (percent) above which validators are not proposed */
+export const MAX_ADVISED_COMMISSION = 20;
+
+/** Own stake below this share of total stake counts against a validator */
+export const MIN_SELF_STAKE_RATIO = 0.01;
+
+// Score multiplier for validators with little skin in the game
+const LOW_SELF_STAKE_PENALTY = 0.8;
+
+// ========================================
+// TYPES
+// ========================================
+
+export type ValidatorFlag =
+  | 'not_validator'
+  | 'blocked'
+  | 'inactive'
+  | 'slashed'
+  | 'oversubscribed'
+  | 'high_commission'
+  | 'low_self_stake';
+
+/** Flags that keep a validator out of proposals */
+const EXCLUDING_FLAGS: ValidatorFlag[] = [
+  'not_validator', 'blocked', 'inactive', 'slashed', 'oversubscribed', 'high_commission',
+];
+
+export interface ValidatorCandidate {
+  address: string;
+  /** Percent, 0-100 */
+  commission: number;
+  blocked: boolean;
+  /** In the current session's validator set */
+  active: boolean;
+  /** Raw HEZ backing the validator in the active era */
+  totalStake: string;
+  ownStake: string;
+  nominatorCount: number;
+  /** Era points per history era, oldest first */
+  eraPoints: number[];
+  /** Has a non-zero slash on record */
+  slashed: boolean;
+  category: ValidatorPoolCategory | null;
+}
+
+export interface ValidatorMarket {
+  activeEra: number;
+  candidates: ValidatorCandidate[];
+  /** Total era points per history era, oldest first */
+  eraTotalPoints: number[];
+  /** Raw HEZ paid out per history era, oldest first */
+  eraPayouts: string[];
+  erasPerYear: number;
+  /** Nominators rewarded per validator, if the runtime caps it */
+  maxNominatorsRewarded: number | null;
+}
+
+export interface RankedValidator extends ValidatorCandidate {
+  /** Projected yearly return for nominators, percent */
+  apy: number;
+  /** Share of history eras with era points, 0-1 */
+  reliability: number;
+  flags: ValidatorFlag[];
+  eligible: boolean;
+  score: number;
+}
+
+export interface NominationProposal {
+  targets: RankedValidator[];
+  /** Average APY of the targets, percent */
+  projectedApy: number;
+}
+
+export interface NominationIssue {
+  address: string;
+  flags: ValidatorFlag[];
+}
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * Everything the advisor ranks on: validator prefs, the active era's
+ * exposures, era points and payouts for the last ERA_HISTORY_DEPTH eras,
+ * slashing spans and validator pool categories
+ */
+export async function getValidatorMarket(api: ApiPromise): Promise<ValidatorMarket> {
+  const activeEra = await getCurrentEra(api);
+  const eras = Array.from({ length: ERA_HISTORY_DEPTH }, (_, i) => activeEra - ERA_HISTORY_DEPTH + i)
+    .filter((era) => era >= 0);
+
+  const [prefEntries, sessionValidators, exposures, rewardPoints, payouts, slashingSpans, poolMembers] =
+    await Promise.all([
+      api.query.staking.validators.entries(),
+      api.query.session.validators(),
+      getEraExposures(api, activeEra),
+      eras.length > 0 ? api.query.staking.erasRewardPoints.multi(eras) : [],
+      eras.length > 0 ? api.query.staking.erasValidatorReward.multi(eras) : [],
+      api.query.staking.slashingSpans.entries(),
+      api.query.validatorPool ? getAllPoolMembers(api) : [],
+    ]);
+
+  const active = new Set(sessionValidators.map((v) => v.toString()));
+  const points: EraRewardPoints[] = rewardPoints.map((result) => {
+    const json = result.toJSON() as any;
+    return { total: Number(json?.total ?? 0), individual: json?.individual ?? {} };
+  });
+  const slashed = new Set(
+    slashingSpans
+      .filter(([, spans]) => Number((spans.toJSON() as any)?.lastNonzeroSlash ?? 0) > 0)
+      .map(([key]) => key.args[0].toString())
+  );
+  const categories = new Map(poolMembers.map((member) => [member.address, member.category]));
+
+  const candidates: ValidatorCandidate[] = prefEntries.map(([key, prefs]) => {
+    const address = key.args[0].toString();
+    const json = prefs.toJSON() as any;
+    const exposure = exposures.get(address);
+
+    return {
+      address,
+      // Perbill
+      commission: Number(json?.commission ?? 0) / 10_000_000,
+      blocked: Boolean(json?.blocked),
+      active: active.has(address),
+      totalStake: exposure?.total ?? '0',
+      ownStake: exposure?.own ?? '0',
+      nominatorCount: exposure?.nominatorCount ?? 0,
+      eraPoints: points.map((era) => Number(era.individual[address] ?? 0)),
+      slashed: slashed.has(address),
+      category: categories.get(address) ?? null,
+    };
+  });
+
+  // Only legacy exposures cap rewarded nominators; paged payouts pay everyone
+  const maxRewarded = api.consts.staking.maxNominatorRewardedPerValidator;
+
+  return {
+    activeEra,
+    candidates,
+    eraTotalPoints: points.map((era) => era.total),
+    eraPayouts: payouts.map((result: any) => (result.isSome ? result.unwrap().toString() : '0')),
+    erasPerYear: getErasPerYear(api),
+    maxNominatorsRewarded: maxRewarded ? Number(maxRewarded.toString()) : null,
+  };
+}
+
+/**
+ * Exposures of the era's elected validators. Uses paged exposure overviews
+ * where the runtime has them, the legacy ErasStakers map otherwise.
+ */
+async function getEraExposures(
+  api: ApiPromise,
+  era: number
+): Promise<Map<string, { total: string; own: string; nominatorCount: number }>> {
+  const exposures = new Map<string, { total: string; own: string; nominatorCount: number }>();
+  const paged = Boolean(api.query.staking.erasStakersOverview);
+  const entries = paged
+    ? await api.query.staking.erasStakersOverview.entries(era)
+    : await api.query.staking.erasStakers.entries(era);
+
+  entries.forEach(([key, value]) => {
+    const json = value.toJSON() as any;
+    if (!json) return;
+
+    exposures.set(key.args[1].toString(), {
+      total: BigInt(String(json.total ?? 0)).toString(),
+      own: BigInt(String(json.own ?? 0)).toString(),
+      nominatorCount: paged ? Number(json.nominatorCount ?? 0) : (json.others ?? []).length,
+    });
+  });
+
+  return exposures;
+}
+
+function getErasPerYear(api: ApiPromise): number {
+  const epochDuration = Number(api.consts.babe?.epochDuration?.toString() ?? 600);
+  const sessionsPerEra = Number(api.consts.staking.sessionsPerEra?.toString() ?? 6);
+  const blockTimeMs = Number(api.consts.babe?.expectedBlockTime?.toString() ?? 6000);
+
+  return (365 * 24 * 60 * 60 * 1000) / (epochDuration * sessionsPerEra * blockTimeMs);
+}
+
+// ========================================
+// RANKING
+// ========================================
+
+/**
+ * Projected APY, flags and score for every validator, best first
+ */
+export function rankValidators(market: ValidatorMarket): RankedValidator[] {
+  const ranked = market.candidates.map((candidate) => {
+    const totalStake = Number(candidate.totalStake);
+    const eraCount = candidate.eraPoints.length;
+
+    // Average payout the validator earned per era, over the whole window
+    const avgValidatorPayout = eraCount > 0
+      ? candidate.eraPoints.reduce((sum, points, i) => {
+        const total = market.eraTotalPoints[i];
+        return total > 0 ? sum + (Number(market.eraPayouts[i]) * points) / total : sum;
+      }, 0) / eraCount
+      : 0;
+
+    const nominatorYield = totalStake > 0
+      ? (avgValidatorPayout * (1 - candidate.commission / 100)) / totalStake
+      : 0;
+
+    const flags = getValidatorFlags(candidate, market.maxNominatorsRewarded);
+    const eligible = !flags.some((flag) => EXCLUDING_FLAGS.includes(flag));
+    const apy = nominatorYield * market.erasPerYear * 100;
+
+    return {
+      ...candidate,
+      apy,
+      reliability: eraCount > 0 ? candidate.eraPoints.filter((points) => points > 0).length / eraCount : 0,
+      flags,
+      eligible,
+      score: flags.includes('low_self_stake') ? apy * LOW_SELF_STAKE_PENALTY : apy,
+    };
+  });
+
+  return ranked.sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score);
+}
+
+function getValidatorFlags(candidate: ValidatorCandidate, maxNominatorsRewarded: number | null): ValidatorFlag[] {
+  const flags: ValidatorFlag[] = [];
+  const totalStake = Number(candidate.totalStake);
+
+  if (candidate.blocked) flags.push('blocked');
+  if (!candidate.active) flags.push('inactive');
+  if (candidate.slashed) flags.push('slashed');
+  if (maxNominatorsRewarded !== null && candidate.nominatorCount >= maxNominatorsRewarded) {
+    flags.push('oversubscribed');
+  }
+  if (candidate.commission > MAX_ADVISED_COMMISSION) flags.push('high_commission');
+  if (totalStake > 0 && Number(candidate.ownStake) / totalStake < MIN_SELF_STAKE_RATIO) {
+    flags.push('low_self_stake');
+  }
+
+  return flags;
+}
+
+/**
+ * Best eligible validators, at most an even share per validator pool
+ * category (validators outside the pool form their own group) before
+ * filling any remaining slots by score
+ */
+export function proposeNominations(ranked: RankedValidator[], count = MAX_NOMINATIONS): NominationProposal {
+  const eligible = ranked.filter((validator) => validator.eligible);
+  const groups = new Set(eligible.map((validator) => validator.category));
+  const perGroup = Math.ceil(count / Math.max(1, groups.size));
+
+  const picked = new Set<string>();
+  const taken = new Map<ValidatorPoolCategory | null, number>();
+
+  eligible.forEach((validator) => {
+    const used = taken.get(validator.category) ?? 0;
+    if (picked.size < count && used < perGroup) {
+      picked.add(validator.address);
+      taken.set(validator.category, used + 1);
+    }
+  });
+  eligible.forEach((validator) => {
+    if (picked.size < count) picked.add(validator.address);
+  });
+
+  const targets = eligible.filter((validator) => picked.has(validator.address));
+
+  return {
+    targets,
+    projectedApy: targets.length > 0
+      ? targets.reduce((sum, validator) => sum + validator.apy, 0) / targets.length
+      : 0,
+  };
+}
+
+/**
+ * Current nominations that no longer earn (or risk) rewards
+ */
+export function reviewNominations(targets: string[], ranked: RankedValidator[]): NominationIssue[] {
+  const byAddress = new Map(ranked.map((validator) => [validator.address, validator]));
+
+  return targets
+    .map((address) => {
+      const validator = byAddress.get(address);
+      if (!validator) return { address, flags: ['not_validator'] as ValidatorFlag[] };
+
+      return { address, flags: validator.flags.filter((flag) => flag !== 'low_self_stake') };
+    })
+    .filter((issue) => issue.flags.length > 0);
+}
+
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+export const VALIDATOR_FLAG_LABELS: Record<ValidatorFlag, string> = {
+  not_validator: 'No longer a validator',
+  blocked: 'Blocks new nominations',
+  inactive: 'Not in the active set',
+  slashed: 'Has been slashed',
+  oversubscribed: 'Oversubscribed',
+  high_commission: `Commission above ${MAX_ADVISED_COMMISSION}%`,
+  low_self_stake: 'Low self-stake',
+};
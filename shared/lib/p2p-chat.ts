@@ -0,0 +1,516 @@
+/**
+ * P2P Trade Chat - End-to-end encrypted
+ *
+ * @module p2p-chat
+ * @description Buyer/seller messaging for P2P fiat trades
+ *
+ * Each wallet has an x25519 chat key. Mobile derives it from the wallet
+ * seed (ed25519 seeds convert directly, sr25519 mini secrets are hashed
+ * into an x25519 scalar). Browser extensions never expose the secret, so
+ * web generates a local key instead and stores it sealed with a
+ * non-extractable WebCrypto key. Either way the wallet signs the public
+ * key, and peers verify that signature against the trade wallet before
+ * trusting it.
+ *
+ * Both parties compute the same conversation key from x25519(own secret,
+ * peer key) bound to the trade id; messages and attachments are sealed
+ * with NaCl secretbox. During a dispute a party can wrap that key for the
+ * assigned moderator, who can then decrypt the conversation read-only.
+ */
+
+import { x25519, edwardsToMontgomeryPriv } from '@noble/curves/ed25519';
+import { hexToU8a, stringToU8a, u8aConcat, u8aToHex, u8aToString } from '@polkadot/util';
+import { blake2AsU8a, naclDecrypt, naclEncrypt, randomAsU8a, signatureVerify } from '@polkadot/util-crypto';
+import { supabase } from '@/lib/supabase';
+import type { P2PFiatDispute } from './p2p-fiat';
+
+// =====================================================
+// TYPES
+// =====================================================
+
+export type ChatKeyType = 'sr25519' | 'ed25519';
+
+export interface ChatIdentity {
+  address: string;
+  publicKey: string; // hex
+  secretKey: Uint8Array;
+}
+
+/** Signs a message with the wallet, returning a hex signature */
+export type ChatSigner = (message: string) => Promise<string>;
+
+export interface ChatAttachment {
+  cid: string; // IPFS CID of the encrypted bytes
+  nonce: string;
+  type: string;
+  name: string;
+  size: number;
+}
+
+export interface ChatAttachmentInput {
+  bytes: Uint8Array;
+  type: string;
+  name: string;
+}
+
+export interface P2PTradeMessageRow {
+  id: string;
+  trade_id: string;
+  sender_id: string;
+  sender_key: string;
+  recipient_key: string;
+  nonce: string;
+  ciphertext: string;
+  has_attachment: boolean;
+  read_at?: string;
+  created_at: string;
+}
+
+export interface P2PTradeMessage {
+  id: string;
+  trade_id: string;
+  sender_id: string;
+  sender_key: string;
+  recipient_key: string;
+  read_at?: string;
+  created_at: string;
+  decrypted: boolean;
+  text?: string;
+  attachment?: ChatAttachment;
+}
+
+export interface SendTradeMessageParams {
+  tradeId: string;
+  identity: ChatIdentity;
+  peerKey: string;
+  text?: string;
+  attachment?: ChatAttachmentInput;
+}
+
+/** Resolves the conversation key for a message's key pair, if we hold it */
+export type ConversationKeyResolver = (senderKey: string, recipientKey: string) => Uint8Array | null;
+
+interface ChatPayload {
+  text?: string;
+  attachment?: ChatAttachment;
+}
+
+// =====================================================
+// CONSTANTS
+// =====================================================
+
+const CHAT_KEY_DOMAIN = 'pezkuwi/p2p-chat-key/v1';
+const CONVERSATION_DOMAIN = 'pezkuwi/p2p-chat/v1';
+const DISCLOSURE_DOMAIN = 'pezkuwi/p2p-chat-disclosure/v1';
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/** Trade statuses that still accept new messages */
+export const CHAT_OPEN_STATUSES = ['pending', 'payment_sent', 'disputed'];
+
+// =====================================================
+// CHAT IDENTITY
+// =====================================================
+
+function identityFromSecret(address: string, secretKey: Uint8Array): ChatIdentity {
+  return {
+    address,
+    publicKey: u8aToHex(x25519.getPublicKey(secretKey)),
+    secretKey
+  };
+}
+
+/**
+ * Derive the chat key from a wallet mini secret (mnemonicToMiniSecret).
+ * Deterministic, so the same wallet gets the same chat key on every device.
+ */
+export function deriveChatIdentity(
+  address: string,
+  miniSecret: Uint8Array,
+  type: ChatKeyType = 'sr25519'
+): ChatIdentity {
+  const secretKey = type === 'ed25519'
+    ? edwardsToMontgomeryPriv(miniSecret)
+    : blake2AsU8a(u8aConcat(stringToU8a(CHAT_KEY_DOMAIN), miniSecret), 256);
+
+  return identityFromSecret(address, secretKey);
+}
+
+/**
+ * Random chat key, for wallets whose secret is not accessible (browser extensions)
+ */
+export function createChatIdentity(address: string): ChatIdentity {
+  return identityFromSecret(address, randomAsU8a(32));
+}
+
+export function restoreChatIdentity(address: string, secretKeyHex: string): ChatIdentity {
+  return identityFromSecret(address, hexToU8a(secretKeyHex));
+}
+
+/**
+ * Message the wallet signs to vouch for its chat key
+ */
+export function getChatKeyMessage(publicKey: string): string {
+  return `pezkuwi-p2p-chat-key:v1:${publicKey}`;
+}
+
+/**
+ * Publish the chat key for the current user. Skips signing when the
+ * same key is already published for this wallet.
+ */
+export async function publishChatIdentity(identity: ChatIdentity, sign: ChatSigner): Promise<void> {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('Not authenticated');
+
+  const { data: existing } = await supabase
+    .from('p2p_chat_keys')
+    .select('public_key')
+    .eq('user_id', user.user.id)
+    .eq('wallet_address', identity.address)
+    .maybeSingle();
+
+  if (existing?.public_key === identity.publicKey) return;
+
+  const signature = await sign(getChatKeyMessage(identity.publicKey));
+
+  const { error } = await supabase
+    .from('p2p_chat_keys')
+    .upsert({
+      user_id: user.user.id,
+      wallet_address: identity.address,
+      public_key: identity.publicKey,
+      signature
+    }, { onConflict: 'user_id,wallet_address' });
+
+  if (error) throw error;
+}
+
+/**
+ * Get a user's chat key, verified against the wallet that signed it.
+ * When expectedWallet is given (e.g. the trade's buyer_wallet) only a key
+ * signed by that wallet is accepted.
+ */
+export async function getPeerChatKey(userId: string, expectedWallet?: string): Promise<string | null> {
+  let query = supabase
+    .from('p2p_chat_keys')
+    .select('wallet_address, public_key, signature')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (expectedWallet) query = query.eq('wallet_address', expectedWallet);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const verified = (data || []).find(row =>
+    signatureVerify(getChatKeyMessage(row.public_key), row.signature, row.wallet_address).isValid
+  );
+
+  return verified?.public_key || null;
+}
+
+// =====================================================
+// CONVERSATION KEYS
+// =====================================================
+
+function sharedSecret(identity: ChatIdentity, peerKey: string): Uint8Array {
+  return x25519.getSharedSecret(identity.secretKey, hexToU8a(peerKey));
+}
+
+/**
+ * Symmetric key for a conversation: both parties derive the same value
+ */
+function getConversationKey(identity: ChatIdentity, peerKey: string, tradeId: string): Uint8Array {
+  return blake2AsU8a(
+    u8aConcat(stringToU8a(CONVERSATION_DOMAIN), sharedSecret(identity, peerKey), stringToU8a(tradeId)),
+    256
+  );
+}
+
+function getDisclosureKey(identity: ChatIdentity, peerKey: string, disputeId: string): Uint8Array {
+  return blake2AsU8a(
+    u8aConcat(stringToU8a(DISCLOSURE_DOMAIN), sharedSecret(identity, peerKey), stringToU8a(disputeId)),
+    256
+  );
+}
+
+function pairId(keyA: string, keyB: string): string {
+  return [keyA, keyB].sort().join(':');
+}
+
+/**
+ * Resolver for a trade party: decrypts any message where our key is one side
+ */
+export function createPartyKeyResolver(identity: ChatIdentity, tradeId: string): ConversationKeyResolver {
+  const cache = new Map<string, Uint8Array>();
+
+  return (senderKey, recipientKey) => {
+    const peerKey = senderKey === identity.publicKey
+      ? recipientKey
+      : recipientKey === identity.publicKey ? senderKey : null;
+
+    if (!peerKey) return null;
+
+    if (!cache.has(peerKey)) {
+      cache.set(peerKey, getConversationKey(identity, peerKey, tradeId));
+    }
+    return cache.get(peerKey) || null;
+  };
+}
+
+// =====================================================
+// MESSAGES
+// =====================================================
+
+function seal(plaintext: Uint8Array, key: Uint8Array): { nonce: string; ciphertext: string } {
+  const { encrypted, nonce } = naclEncrypt(plaintext, key);
+  return { nonce: u8aToHex(nonce), ciphertext: u8aToHex(encrypted) };
+}
+
+function open(ciphertext: string, nonce: string, key: Uint8Array): Uint8Array | null {
+  return naclDecrypt(hexToU8a(ciphertext), hexToU8a(nonce), key);
+}
+
+/**
+ * Encrypt and send a message, optionally with an image attachment
+ * (payment proofs). Attachments are encrypted before upload to IPFS.
+ */
+export async function sendTradeMessage(params: SendTradeMessageParams): Promise<P2PTradeMessageRow> {
+  const { tradeId, identity, peerKey, attachment } = params;
+  const text = params.text?.trim();
+
+  if (!text && !attachment) throw new Error('Message is empty');
+  if (text && text.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('Not authenticated');
+
+  const key = getConversationKey(identity, peerKey, tradeId);
+  const payload: ChatPayload = {};
+  if (text) payload.text = text;
+
+  if (attachment) {
+    if (!attachment.type.startsWith('image/')) throw new Error('Only images can be attached');
+    if (attachment.bytes.length > MAX_ATTACHMENT_BYTES) throw new Error('Image must be smaller than 5MB');
+
+    const { encrypted, nonce } = naclEncrypt(attachment.bytes, key);
+    const { getIpfsClient } = await import('./ipfs');
+    const { pinnedCid } = await getIpfsClient().add(encrypted, {
+      name: 'p2p-chat-attachment',
+      contentType: 'application/octet-stream'
+    });
+
+    payload.attachment = {
+      cid: pinnedCid,
+      nonce: u8aToHex(nonce),
+      type: attachment.type,
+      name: attachment.name,
+      size: attachment.bytes.length
+    };
+  }
+
+  const { nonce, ciphertext } = seal(stringToU8a(JSON.stringify(payload)), key);
+
+  const { data, error } = await supabase
+    .from('p2p_trade_messages')
+    .insert({
+      trade_id: tradeId,
+      sender_id: user.user.id,
+      sender_key: identity.publicKey,
+      recipient_key: peerKey,
+      nonce,
+      ciphertext,
+      has_attachment: !!attachment
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getTradeMessages(tradeId: string): Promise<P2PTradeMessageRow[]> {
+  const { data, error } = await supabase
+    .from('p2p_trade_messages')
+    .select('*')
+    .eq('trade_id', tradeId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Decrypt a message row. Rows we hold no key for (sent to another
+ * device's chat key, not disclosed) come back with decrypted: false.
+ */
+export function decryptTradeMessage(row: P2PTradeMessageRow, resolveKey: ConversationKeyResolver): P2PTradeMessage {
+  const meta = {
+    id: row.id,
+    trade_id: row.trade_id,
+    sender_id: row.sender_id,
+    sender_key: row.sender_key,
+    recipient_key: row.recipient_key,
+    read_at: row.read_at,
+    created_at: row.created_at
+  };
+  const key = resolveKey(row.sender_key, row.recipient_key);
+  const plaintext = key ? open(row.ciphertext, row.nonce, key) : null;
+
+  if (!plaintext) return { ...meta, decrypted: false };
+
+  try {
+    const payload = JSON.parse(u8aToString(plaintext)) as ChatPayload;
+    return { ...meta, decrypted: true, text: payload.text, attachment: payload.attachment };
+  } catch {
+    return { ...meta, decrypted: false };
+  }
+}
+
+/**
+ * Download and decrypt an attachment
+ */
+export async function fetchChatAttachment(
+  message: P2PTradeMessage,
+  resolveKey: ConversationKeyResolver
+): Promise<Uint8Array> {
+  if (!message.attachment) throw new Error('Message has no attachment');
+
+  const key = resolveKey(message.sender_key, message.recipient_key);
+  if (!key) throw new Error('No key for this conversation');
+
+  const { getIpfsClient } = await import('./ipfs');
+  const encrypted = await getIpfsClient().cat(message.attachment.cid);
+  const bytes = naclDecrypt(encrypted, hexToU8a(message.attachment.nonce), key);
+
+  if (!bytes) throw new Error('Attachment could not be decrypted');
+  return bytes;
+}
+
+/**
+ * Realtime delivery: new messages and read receipts for a trade
+ * @returns Unsubscribe function
+ */
+export function subscribeToTradeMessages(
+  tradeId: string,
+  onChange: (row: P2PTradeMessageRow, event: 'INSERT' | 'UPDATE') => void
+): () => void {
+  const channel = supabase
+    .channel(`p2p_trade_messages:${tradeId}`)
+    .on('postgres_changes', {
+      event: 'INSERT',
+      schema: 'public',
+      table: 'p2p_trade_messages',
+      filter: `trade_id=eq.${tradeId}`
+    }, (payload) => onChange(payload.new as P2PTradeMessageRow, 'INSERT'))
+    .on('postgres_changes', {
+      event: 'UPDATE',
+      schema: 'public',
+      table: 'p2p_trade_messages',
+      filter: `trade_id=eq.${tradeId}`
+    }, (payload) => onChange(payload.new as P2PTradeMessageRow, 'UPDATE'))
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
+
+/**
+ * Read receipt: stamp read_at on the other party's unread messages
+ */
+export async function markTradeMessagesRead(tradeId: string): Promise<void> {
+  const { error } = await supabase.rpc('mark_p2p_messages_read', { p_trade_id: tradeId });
+  if (error) throw error;
+}
+
+// =====================================================
+// ARBITRATOR ACCESS (Disputes)
+// =====================================================
+
+/**
+ * Share the conversation keys we hold with the moderator assigned to
+ * the dispute. Only the keys are disclosed; the moderator fetches and
+ * decrypts the messages themselves.
+ * @returns Number of conversation keys shared
+ */
+export async function discloseChatToModerator(
+  dispute: Pick<P2PFiatDispute, 'id' | 'trade_id' | 'assigned_moderator_id'>,
+  identity: ChatIdentity
+): Promise<number> {
+  if (!dispute.assigned_moderator_id) throw new Error('No moderator assigned yet');
+
+  const { data: user } = await supabase.auth.getUser();
+  if (!user.user) throw new Error('Not authenticated');
+
+  const moderatorKey = await getPeerChatKey(dispute.assigned_moderator_id);
+  if (!moderatorKey) throw new Error('The moderator has not set up a chat key yet');
+
+  const rows = await getTradeMessages(dispute.trade_id);
+  const resolveKey = createPartyKeyResolver(identity, dispute.trade_id);
+  const wrapKey = getDisclosureKey(identity, moderatorKey, dispute.id);
+
+  const pairs = new Map<string, { keyA: string; keyB: string; key: Uint8Array }>();
+  for (const row of rows) {
+    const id = pairId(row.sender_key, row.recipient_key);
+    const key = resolveKey(row.sender_key, row.recipient_key);
+    if (key && !pairs.has(id)) {
+      const [keyA, keyB] = id.split(':');
+      pairs.set(id, { keyA, keyB, key });
+    }
+  }
+
+  if (pairs.size === 0) return 0;
+
+  const disclosures = Array.from(pairs.values()).map(({ keyA, keyB, key }) => {
+    const { nonce, ciphertext } = seal(key, wrapKey);
+    return {
+      trade_id: dispute.trade_id,
+      dispute_id: dispute.id,
+      moderator_id: dispute.assigned_moderator_id,
+      moderator_key: moderatorKey,
+      disclosed_by: user.user.id,
+      wrapper_key: identity.publicKey,
+      key_a: keyA,
+      key_b: keyB,
+      nonce,
+      wrapped_key: ciphertext
+    };
+  });
+
+  const { error } = await supabase
+    .from('p2p_chat_disclosures')
+    .upsert(disclosures, { onConflict: 'dispute_id,moderator_key,key_a,key_b', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return disclosures.length;
+}
+
+/**
+ * Resolver for the assigned moderator, built from the keys the
+ * parties disclosed for this trade
+ */
+export async function getModeratorKeyResolver(
+  tradeId: string,
+  identity: ChatIdentity
+): Promise<ConversationKeyResolver> {
+  const { data, error } = await supabase
+    .from('p2p_chat_disclosures')
+    .select('dispute_id, wrapper_key, key_a, key_b, nonce, wrapped_key')
+    .eq('trade_id', tradeId)
+    .eq('moderator_key', identity.publicKey);
+
+  if (error) throw error;
+
+  const keys = new Map<string, Uint8Array>();
+  for (const disclosure of data || []) {
+    const wrapKey = getDisclosureKey(identity, disclosure.wrapper_key, disclosure.dispute_id);
+    const key = open(disclosure.wrapped_key, disclosure.nonce, wrapKey);
+    if (key) keys.set(pairId(disclosure.key_a, disclosure.key_b), key);
+  }
+
+  return (senderKey, recipientKey) => keys.get(pairId(senderKey, recipientKey)) || null;
+}
@@ -7,8 +7,12 @@
 
 import { ApiPromise } from '@polkadot/api';
 import { InjectedAccountWithMeta } from '@polkadot/extension-inject/types';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex, u8aEq } from '@polkadot/util';
+import { decodeAddress } from '@polkadot/util-crypto';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
+import { buildSignedRequestMessage } from '../utils/auth';
 
 // =====================================================
 // TYPES
@@ -39,7 +43,7 @@ export interface ValidationRule {
 export type FiatCurrency = 'TRY' | 'IQD' | 'IRR' | 'EUR' | 'USD';
 export type CryptoToken = 'HEZ' | 'PEZ';
 
-export type OfferStatus = 'open' | 'paused' | 'locked' | 'completed' | 'cancelled';
+export type OfferStatus = 'pending_escrow' | 'open' | 'paused' | 'locked' | 'completed' | 'cancelled';
 export type TradeStatus = 'pending' | 'payment_sent' | 'completed' | 'cancelled' | 'disputed' | 'refunded';
 
 export interface P2PFiatOffer {
@@ -62,6 +66,11 @@ export interface P2PFiatOffer {
   status: OfferStatus;
   remaining_amount: number;
   escrow_tx_hash?: string;
+  escrow_block_hash?: string;
+  escrow_verified_at?: string;
+  escrow_verification_error?: string;
+  escrow_refund_tx_hash?: string;
+  escrow_refund_status?: 'signing' | 'submitted' | 'included' | 'failed';
   created_at: string;
   expires_at: string;
 }
@@ -76,16 +85,47 @@ export interface P2PFiatTrade {
   fiat_amount: number;
   price_per_unit: number;
   escrow_locked_amount: number;
+  escrow_release_tx_hash?: string;
+  escrow_released_at?: string;
+  escrow_settlement_type?: 'release' | 'refund';
+  escrow_settlement_status?: 'signing' | 'submitted' | 'included' | 'failed';
   buyer_marked_paid_at?: string;
   buyer_payment_proof_url?: string;
   seller_confirmed_at?: string;
   status: TradeStatus;
   payment_deadline: string;
   confirmation_deadline?: string;
+  dispute_id?: string;
   created_at: string;
   completed_at?: string;
 }
 
+export type DisputeCategory = 'payment_not_received' | 'wrong_amount' | 'fake_payment_proof' | 'other';
+export type DisputeStatus = 'open' | 'under_review' | 'resolved' | 'escalated' | 'closed';
+export type DisputeDecision = 'release_to_buyer' | 'refund_to_seller' | 'split' | 'escalate';
+
+export interface P2PFiatDispute {
+  id: string;
+  trade_id: string;
+  opened_by: string;
+  reason: string;
+  category: DisputeCategory;
+  evidence_urls: string[]; // IPFS CIDs
+  assigned_moderator_id?: string;
+  assigned_at?: string;
+  decision?: DisputeDecision;
+  decision_reasoning?: string;
+  resolved_at?: string;
+  status: DisputeStatus;
+  created_at: string;
+}
+
+export interface P2PDisputeWithTrade extends P2PFiatDispute {
+  trade: P2PFiatTrade & {
+    offer: Pick<P2PFiatOffer, 'token' | 'fiat_currency' | 'seller_wallet'>;
+  };
+}
+
 export interface P2PReputation {
   user_id: string;
   total_trades: number;
@@ -113,6 +153,13 @@ export interface CreateOfferParams {
   maxOrderAmount?: number;
 }
 
+export interface OpenDisputeParams {
+  tradeId: string;
+  category: DisputeCategory;
+  reason: string;
+  evidenceFiles?: File[];
+}
+
 export interface AcceptOfferParams {
   api: ApiPromise;
   account: InjectedAccountWithMeta;
@@ -124,15 +171,19 @@ export interface AcceptOfferParams {
 // CONSTANTS
 // =====================================================
 
-const PLATFORM_ESCROW_ADDRESS = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
-
 const ASSET_IDS = {
   HEZ: null, // Native token
   PEZ: 1
 } as const;
 
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+/** Must be the backend escrow signer's address (ESCROW_SEED) */
+const PLATFORM_ESCROW_ADDRESS: string | undefined = import.meta.env.VITE_P2P_ESCROW_ADDRESS;
+
 const DEFAULT_PAYMENT_DEADLINE_MINUTES = 30;
-const DEFAULT_CONFIRMATION_DEADLINE_MINUTES = 60;
+
+const TOKEN_DECIMALS = 12;
 
 // =====================================================
 // PAYMENT METHODS
@@ -226,8 +277,9 @@ function decryptPaymentDetails(encrypted: string): Record<string, string> {
  * 
  * Steps:
  * 1. Lock crypto in platform escrow (blockchain tx)
- * 2. Create offer record in Supabase
- * 3. Update escrow balance tracking
+ * 2. Create offer record in Supabase (pending_escrow)
+ * 3. Backend verifies the deposit on-chain, opens the offer
+ *    and updates escrow balance tracking
  */
 export async function createFiatOffer(params: CreateOfferParams): Promise<string> {
   const {
@@ -248,18 +300,19 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
     // 1. Lock crypto in escrow (blockchain)
     toast.info('Locking crypto in escrow...');
     
-    const amount = BigInt(amountCrypto * 1e12); // Convert to Planck
+    const escrowAddress = await getEscrowAddress();
+    const amount = toPlanck(amountCrypto);
     
-    let txHash: string;
+    let deposit: { txHash: string; blockHash: string };
     if (token === 'HEZ') {
       // Native token transfer
-      const tx = api.tx.balances.transfer(PLATFORM_ESCROW_ADDRESS, amount);
-      txHash = await signAndSendTx(api, account, tx);
+      const tx = api.tx.balances.transfer(escrowAddress, amount);
+      deposit = await signAndSendTx(api, account, tx);
     } else {
       // Asset transfer (PEZ)
       const assetId = ASSET_IDS[token];
-      const tx = api.tx.assets.transfer(assetId, PLATFORM_ESCROW_ADDRESS, amount);
-      txHash = await signAndSendTx(api, account, tx);
+      const tx = api.tx.assets.transfer(assetId, escrowAddress, amount);
+      deposit = await signAndSendTx(api, account, tx);
     }
 
     toast.success('Crypto locked in escrow');
@@ -282,9 +335,10 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
         min_order_amount: minOrderAmount,
         max_order_amount: maxOrderAmount,
         time_limit_minutes: timeLimitMinutes,
-        status: 'open',
+        status: 'pending_escrow',
         remaining_amount: amountCrypto,
-        escrow_tx_hash: txHash,
+        escrow_tx_hash: deposit.txHash,
+        escrow_block_hash: deposit.blockHash,
         escrow_locked_at: new Date().toISOString()
       })
       .select()
@@ -292,11 +346,9 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
 
     if (offerError) throw offerError;
 
-    // 4. Update escrow balance
-    await supabase.rpc('increment_escrow_balance', {
-      p_token: token,
-      p_amount: amountCrypto
-    });
+    // 4. Verify deposit on-chain (opens the offer, updates escrow balance)
+    toast.info('Verifying escrow deposit...');
+    await verifyOfferEscrow(offer.id);
 
     // 5. Audit log
     await logAction('offer', offer.id, 'create_offer', {
@@ -316,6 +368,52 @@ export async function createFiatOffer(params: CreateOfferParams): Promise<string
   }
 }
 
+/**
+ * Ask the backend to verify an offer's escrow deposit on-chain.
+ * Safe to retry (e.g. for offers stuck in pending_escrow).
+ */
+export async function verifyOfferEscrow(offerId: string): Promise<void> {
+  await postToBackend('/api/p2p/escrow/verify-offer', { offerId }, 'Escrow verification failed');
+}
+
+/**
+ * Seller gets back a deposit that never verified (wrong amount or token,
+ * or the offer was cancelled before verification)
+ */
+export async function refundOfferDeposit(account: InjectedAccountWithMeta, offerId: string): Promise<string> {
+  const message = buildSignedRequestMessage(`refundDeposit:${offerId}`);
+  const signature = await signMessage(account, message);
+
+  const { txHash } = await postToBackend(
+    '/api/p2p/escrow/refund-deposit',
+    { offerId, signerAddress: account.address, message, signature },
+    'Deposit refund failed'
+  );
+  return txHash;
+}
+
+/**
+ * The configured escrow address, once the backend confirms it signs for it.
+ * Deposits sent anywhere else could never be released or refunded.
+ */
+async function getEscrowAddress(): Promise<string> {
+  if (!PLATFORM_ESCROW_ADDRESS) {
+    throw new Error('P2P escrow address not configured. Set VITE_P2P_ESCROW_ADDRESS in .env');
+  }
+
+  const response = await fetch(`${BACKEND_URL}/api/p2p/escrow/address`);
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || 'Escrow signer unavailable');
+  }
+
+  if (!u8aEq(decodeAddress(result.address), decodeAddress(PLATFORM_ESCROW_ADDRESS))) {
+    throw new Error('Configured escrow address does not match the escrow signer');
+  }
+
+  return PLATFORM_ESCROW_ADDRESS;
+}
+
 // =====================================================
 // ACCEPT OFFER
 // =====================================================
@@ -337,6 +435,7 @@ export async function acceptFiatOffer(params: AcceptOfferParams): Promise<string
     if (offerError) throw offerError;
     if (!offer) throw new Error('Offer not found');
     if (offer.status !== 'open') throw new Error('Offer is not available');
+    if (!offer.escrow_verified_at) throw new Error('Offer escrow has not been verified');
 
     // 2. Determine trade amount
     const tradeAmount = amount || offer.remaining_amount;
@@ -376,7 +475,8 @@ export async function acceptFiatOffer(params: AcceptOfferParams): Promise<string
       throw new Error('Seller requires experienced buyers');
     }
 
-    // 4. Create trade
+    // 4. Create trade. The protect_trade_escrow trigger re-derives amounts and
+    // deadline from the offer and takes the amount off its remaining balance.
     const paymentDeadline = new Date(Date.now() + offer.time_limit_minutes * 60 * 1000);
 
     const { data: trade, error: tradeError } = await supabase
@@ -399,16 +499,7 @@ export async function acceptFiatOffer(params: AcceptOfferParams): Promise<string
 
     if (tradeError) throw tradeError;
 
-    // 5. Update offer remaining amount
-    await supabase
-      .from('p2p_fiat_offers')
-      .update({
-        remaining_amount: offer.remaining_amount - tradeAmount,
-        status: offer.remaining_amount - tradeAmount === 0 ? 'locked' : 'open'
-      })
-      .eq('id', offerId);
-
-    // 6. Audit log
+    // 5. Audit log
     await logAction('trade', trade.id, 'accept_offer', {
       offer_id: offerId,
       crypto_amount: tradeAmount,
@@ -445,16 +536,13 @@ export async function markPaymentSent(
       paymentProofUrl = await uploadToIPFS(paymentProofFile);
     }
 
-    // 2. Update trade
-    const confirmationDeadline = new Date(Date.now() + DEFAULT_CONFIRMATION_DEADLINE_MINUTES * 60 * 1000);
-
+    // 2. Update trade (the database stamps the time and sets the
+    // seller's confirmation deadline)
     const { error } = await supabase
       .from('p2p_fiat_trades')
       .update({
-        buyer_marked_paid_at: new Date().toISOString(),
         buyer_payment_proof_url: paymentProofUrl,
-        status: 'payment_sent',
-        confirmation_deadline: confirmationDeadline.toISOString()
+        status: 'payment_sent'
       })
       .eq('id', tradeId);
 
@@ -480,13 +568,14 @@ export async function markPaymentSent(
 // =====================================================
 
 /**
- * Seller confirms payment received and releases crypto
+ * Seller confirms payment received and releases crypto.
+ * The escrow transfer is signed by the backend escrow signer; the seller
+ * authorises it by signing `releaseEscrow:<tradeId>` with their wallet.
  */
 export async function confirmPaymentReceived(
-  api: ApiPromise,
   account: InjectedAccountWithMeta,
   tradeId: string
-): Promise<void> {
+): Promise<string> {
   try {
     // 1. Get trade details
     const { data: trade, error: tradeError } = await supabase
@@ -501,58 +590,199 @@ export async function confirmPaymentReceived(
       throw new Error('Payment has not been marked as sent');
     }
 
-    // 2. Release crypto from escrow to buyer (blockchain tx)
+    // 2. Release crypto from escrow to buyer (backend signs the transfer)
     toast.info('Releasing crypto to buyer...');
 
-    const amount = BigInt(trade.crypto_amount * 1e12);
-    const { data: offer } = await supabase
-      .from('p2p_fiat_offers')
-      .select('token')
-      .eq('id', trade.offer_id)
-      .single();
+    const { txHash } = await requestEscrowSettlement(account, tradeId, 'release');
 
-    let releaseTxHash: string;
-    if (offer?.token === 'HEZ') {
-      const tx = api.tx.balances.transfer(trade.buyer_wallet, amount);
-      releaseTxHash = await signAndSendWithPlatformKey(api, tx);
-    } else {
-      const assetId = ASSET_IDS[offer?.token as CryptoToken];
-      const tx = api.tx.assets.transfer(assetId, trade.buyer_wallet, amount);
-      releaseTxHash = await signAndSendWithPlatformKey(api, tx);
+    toast.success('Payment confirmed! Crypto released to buyer.');
+    return txHash;
+  } catch (error: any) {
+    console.error('Confirm payment error:', error);
+    toast.error(error.message || 'Failed to confirm payment');
+    throw error;
+  }
+}
+
+// =====================================================
+// REFUND ESCROW (Buyer)
+// =====================================================
+
+/**
+ * Buyer abandons the trade and returns the escrowed crypto to the seller
+ */
+export async function refundEscrow(
+  account: InjectedAccountWithMeta,
+  tradeId: string
+): Promise<string> {
+  try {
+    toast.info('Returning crypto to seller...');
+
+    const { txHash } = await requestEscrowSettlement(account, tradeId, 'refund');
+
+    toast.success('Trade cancelled. Crypto returned to seller.');
+    return txHash;
+  } catch (error: any) {
+    console.error('Refund escrow error:', error);
+    toast.error(error.message || 'Failed to refund escrow');
+    throw error;
+  }
+}
+
+// =====================================================
+// DISPUTES (Buyer / Seller)
+// =====================================================
+
+const DISPUTABLE_STATUSES: TradeStatus[] = ['pending', 'payment_sent'];
+const MIN_DISPUTE_REASON_LENGTH = 20;
+
+async function uploadEvidence(files: File[]): Promise<string[]> {
+  const { uploadToIPFS } = await import('./ipfs');
+  return Promise.all(files.map(file => uploadToIPFS(file)));
+}
+
+/**
+ * Buyer or seller opens a dispute. Escrow stays locked until a moderator rules.
+ */
+export async function openDispute(params: OpenDisputeParams): Promise<string> {
+  const { tradeId, category, reason, evidenceFiles = [] } = params;
+
+  try {
+    if (reason.trim().length < MIN_DISPUTE_REASON_LENGTH) {
+      throw new Error(`Please describe the problem in at least ${MIN_DISPUTE_REASON_LENGTH} characters`);
     }
 
-    // 3. Update trade status
-    const { error: updateError } = await supabase
+    const { data: user } = await supabase.auth.getUser();
+    if (!user.user) throw new Error('Not authenticated');
+
+    // 1. Check trade can be disputed
+    const { data: trade, error: tradeError } = await supabase
       .from('p2p_fiat_trades')
-      .update({
-        seller_confirmed_at: new Date().toISOString(),
-        escrow_release_tx_hash: releaseTxHash,
-        escrow_released_at: new Date().toISOString(),
-        status: 'completed',
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', tradeId);
+      .select('*')
+      .eq('id', tradeId)
+      .single();
+
+    if (tradeError) throw tradeError;
+    if (!trade) throw new Error('Trade not found');
+    if (trade.seller_id !== user.user.id && trade.buyer_id !== user.user.id) {
+      throw new Error('Only trade parties can open a dispute');
+    }
+    if (!DISPUTABLE_STATUSES.includes(trade.status)) {
+      throw new Error('This trade can no longer be disputed');
+    }
 
-    if (updateError) throw updateError;
+    // 2. Upload evidence to IPFS
+    const evidenceUrls = await uploadEvidence(evidenceFiles);
 
-    // 4. Update escrow balance
-    await supabase.rpc('decrement_escrow_balance', {
-      p_token: offer?.token,
-      p_amount: trade.crypto_amount
+    // 3. Create the dispute and freeze the trade together
+    const { data: disputeId, error: disputeError } = await supabase.rpc('open_p2p_dispute', {
+      p_trade_id: tradeId,
+      p_category: category,
+      p_reason: reason.trim(),
+      p_evidence_urls: evidenceUrls
     });
 
-    // 5. Update reputations
-    await updateReputations(trade.seller_id, trade.buyer_id, tradeId);
+    if (disputeError) throw disputeError;
 
-    // 6. Audit log
-    await logAction('trade', tradeId, 'confirm_payment', {
-      release_tx_hash: releaseTxHash
+    toast.success('Dispute opened. A moderator will review it shortly.');
+    return disputeId;
+  } catch (error: any) {
+    console.error('Open dispute error:', error);
+    toast.error(error.message || 'Failed to open dispute');
+    throw error;
+  }
+}
+
+/**
+ * Attach more evidence to an open dispute
+ */
+export async function addDisputeEvidence(disputeId: string, files: File[]): Promise<string[]> {
+  try {
+    const evidenceUrls = await uploadEvidence(files);
+
+    const { error } = await supabase.rpc('add_p2p_dispute_evidence', {
+      p_dispute_id: disputeId,
+      p_evidence_urls: evidenceUrls
     });
 
-    toast.success('Payment confirmed! Crypto released to buyer.');
+    if (error) throw error;
+
+    toast.success('Evidence added to dispute');
+    return evidenceUrls;
   } catch (error: any) {
-    console.error('Confirm payment error:', error);
-    toast.error(error.message || 'Failed to confirm payment');
+    console.error('Add dispute evidence error:', error);
+    toast.error(error.message || 'Failed to add evidence');
+    throw error;
+  }
+}
+
+export async function getTradeDispute(tradeId: string): Promise<P2PFiatDispute | null> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_fiat_disputes')
+      .select('*')
+      .eq('trade_id', tradeId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get trade dispute error:', error);
+    return null;
+  }
+}
+
+// =====================================================
+// DISPUTES (Moderator)
+// =====================================================
+// Moderator actions go through the backend, which checks the Tiki
+// on-chain (see checkModeratorRole) and holds the escrow signer.
+
+/**
+ * Open, escalated and under-review disputes, oldest first
+ */
+export async function getDisputeQueue(account: InjectedAccountWithMeta): Promise<P2PDisputeWithTrade[]> {
+  const { disputes } = await postAsModerator(account, '/api/p2p/disputes/queue', 'listDisputes');
+  return disputes;
+}
+
+/**
+ * Moderator takes a dispute for review
+ */
+export async function assignDispute(account: InjectedAccountWithMeta, disputeId: string): Promise<void> {
+  try {
+    await postAsModerator(account, `/api/p2p/disputes/${disputeId}/assign`, `assignDispute:${disputeId}`);
+    toast.success('Dispute assigned to you');
+  } catch (error: any) {
+    console.error('Assign dispute error:', error);
+    toast.error(error.message || 'Failed to assign dispute');
+    throw error;
+  }
+}
+
+/**
+ * Moderator rules on a dispute. Release/refund settles the escrow on-chain.
+ * @returns Settlement tx hash (undefined when escalated)
+ */
+export async function resolveDispute(
+  account: InjectedAccountWithMeta,
+  disputeId: string,
+  decision: Exclude<DisputeDecision, 'split'>,
+  reasoning: string
+): Promise<string | undefined> {
+  try {
+    const { txHash } = await postAsModerator(
+      account,
+      `/api/p2p/disputes/${disputeId}/resolve`,
+      `resolveDispute:${disputeId}:${decision}`,
+      { decision, reasoning }
+    );
+
+    toast.success(decision === 'escalate' ? 'Dispute escalated' : 'Dispute resolved and escrow settled');
+    return txHash;
+  } catch (error: any) {
+    console.error('Resolve dispute error:', error);
+    toast.error(error.message || 'Failed to resolve dispute');
     throw error;
   }
 }
@@ -561,11 +791,35 @@ export async function confirmPaymentReceived(
 // HELPER FUNCTIONS
 // =====================================================
 
+/**
+ * Convert a token amount to planck with integer arithmetic, as the backend
+ * does when it verifies the deposit (1.005 * 1e12 is not an integer).
+ * Amounts finer than one planck are rejected rather than rounded.
+ */
+function toPlanck(amount: number | string): bigint {
+  const match = String(amount).trim().match(/^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match) throw new Error(`Invalid token amount: ${amount}`);
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const digits = BigInt(whole + fraction);
+  const shift = TOKEN_DECIMALS + Number(exponent) - fraction.length;
+
+  if (shift >= 0) return digits * 10n ** BigInt(shift);
+
+  const divisor = 10n ** BigInt(-shift);
+  if (digits % divisor !== 0n) throw new Error(`Token amount has more than ${TOKEN_DECIMALS} decimals: ${amount}`);
+  return digits / divisor;
+}
+
+/**
+ * Sign and send a deposit, resolving once its block is finalized: the
+ * backend only verifies deposits in finalized blocks of the canonical chain
+ */
 async function signAndSendTx(
   api: ApiPromise,
   account: InjectedAccountWithMeta,
   tx: any
-): Promise<string> {
+): Promise<{ txHash: string; blockHash: string }> {
   return new Promise((resolve, reject) => {
     let unsub: () => void;
 
@@ -581,28 +835,104 @@ async function signAndSendTx(
         return;
       }
 
-      if (status.isInBlock || status.isFinalized) {
-        resolve(txHash.toString());
+      if (status.isFinalized) {
+        resolve({ txHash: txHash.toString(), blockHash: status.asFinalized.toString() });
+        if (unsub) unsub();
+      } else if (status.isDropped || status.isInvalid || status.isUsurped) {
+        reject(new Error(`Transaction ${status.type.toLowerCase()}`));
         if (unsub) unsub();
       }
     }).then((unsubscribe: () => void) => {
       unsub = unsubscribe;
-    });
+    }).catch(reject);
+  });
+}
+
+/**
+ * Ask the backend escrow signer to release or refund a trade.
+ * Safe to retry: the backend returns the recorded tx hash for settled trades.
+ */
+async function requestEscrowSettlement(
+  account: InjectedAccountWithMeta,
+  tradeId: string,
+  type: 'release' | 'refund'
+): Promise<{ txHash: string; alreadySettled?: boolean }> {
+  const message = buildSignedRequestMessage(`${type === 'release' ? 'releaseEscrow' : 'refundEscrow'}:${tradeId}`);
+  const signature = await signMessage(account, message);
+
+  return postToBackend(
+    `/api/p2p/escrow/${type}`,
+    { tradeId, signerAddress: account.address, message, signature },
+    `Escrow ${type} failed`
+  );
+}
+
+/**
+ * Sign a backend request message with the wallet extension
+ */
+async function signMessage(account: InjectedAccountWithMeta, message: string): Promise<string> {
+  const injector = await web3FromAddress(account.address);
+
+  if (!injector?.signer?.signRaw) {
+    throw new Error('Signer not available');
+  }
+
+  const { signature } = await injector.signer.signRaw({
+    address: account.address,
+    data: stringToHex(message),
+    type: 'bytes'
   });
+
+  return signature;
 }
 
-async function signAndSendWithPlatformKey(api: ApiPromise, tx: any): Promise<string> {
-  // TODO: Implement multisig or server-side signing
-  // For now, this is a placeholder
-  throw new Error('Platform signing not implemented - requires multisig setup');
+/**
+ * Signed moderator request: wallet signature for the Tiki check,
+ * Supabase session for the moderator's user id
+ */
+async function postAsModerator(
+  account: InjectedAccountWithMeta,
+  path: string,
+  action: string,
+  body: Record<string, unknown> = {}
+): Promise<any> {
+  const message = buildSignedRequestMessage(action);
+  const signature = await signMessage(account, message);
+
+  return postToBackend(
+    path,
+    { ...body, moderatorAddress: account.address, message, signature },
+    'Moderator request failed',
+    true
+  );
 }
 
-async function updateReputations(sellerId: string, buyerId: string, tradeId: string): Promise<void> {
-  await supabase.rpc('update_p2p_reputation', {
-    p_seller_id: sellerId,
-    p_buyer_id: buyerId,
-    p_trade_id: tradeId
+async function postToBackend(
+  path: string,
+  body: Record<string, unknown>,
+  fallbackError: string,
+  withSession = false
+): Promise<any> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (withSession) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+    headers.Authorization = `Bearer ${session.access_token}`;
+  }
+
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
   });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
 }
 
 async function logAction(
@@ -668,6 +998,22 @@ export async function getUserTrades(userId: string): Promise<P2PFiatTrade[]> {
   }
 }
 
+export async function getTrade(tradeId: string): Promise<P2PFiatTrade | null> {
+  try {
+    const { data, error } = await supabase
+      .from('p2p_fiat_trades')
+      .select('*')
+      .eq('id', tradeId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Get trade error:', error);
+    return null;
+  }
+}
+
 export async function getUserReputation(userId: string): Promise<P2PReputation | null> {
   try {
     const { data, error } = await supabase
@@ -0,0 +1,233 @@
+// ========================================
+// PEZ Epoch Rewards
+// ========================================
+// Claim center for pallet_pez_rewards, shared by web and mobile.
+//
+// Each finalized epoch gets an EpochRewardPools entry with its reward per
+// trust point and a claim deadline; after the deadline the epoch closes and
+// unclaimed rewards are lost. A user's reward for an epoch is their recorded
+// UserEpochScores x rewardPerTrustPoint, and ClaimedRewards holds what they
+// were paid.
+
+import type { ApiPromise } from '@polkadot/api';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import { getTransactions, type IndexedTransaction } from './transaction-history';
+
+/** Warn about unclaimed epochs this close to their deadline (~3 days) */
+export const CLAIM_EXPIRY_WARNING_BLOCKS = 3 * 24 * 60 * 10;
+
+// Indexed transactions searched for claim tx hashes
+const CLAIM_HISTORY_LIMIT = 100;
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface PezEpochReward {
+  epoch: number;
+  trustScore: number;
+  /** Raw PEZ */
+  amount: string;
+  claimDeadline: number;
+  blocksRemaining: number;
+  expiresSoon: boolean;
+}
+
+export interface PezRewardClaim {
+  epoch: number;
+  /** Raw PEZ */
+  amount: string;
+  /** From the transaction indexer; null if it has not seen the claim */
+  txHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface PezRewardsOverview {
+  currentEpoch: number;
+  epochStartBlock: number;
+  currentBlock: number;
+  /** Oldest (soonest to expire) first */
+  claimable: PezEpochReward[];
+  /** Raw PEZ */
+  totalClaimable: string;
+  /** Newest first */
+  claimed: PezRewardClaim[];
+  /** Raw PEZ */
+  totalClaimed: string;
+}
+
+interface EpochPool {
+  epoch: number;
+  rewardPerTrustPoint: bigint;
+  claimDeadline: number;
+}
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * All of an account's claimable and claimed epoch rewards. Reads every
+ * reward pool in one entries() call and the account's scores and claims
+ * with multi-queries, so the cost does not grow with round trips per epoch.
+ */
+export async function getPezRewardsOverview(
+  api: ApiPromise,
+  address: string
+): Promise<PezRewardsOverview | null> {
+  if (!api.query.pezRewards?.epochInfo) return null;
+
+  const [epochInfoResult, blockNumber, poolEntries] = await Promise.all([
+    api.query.pezRewards.epochInfo(),
+    api.query.system.number(),
+    api.query.pezRewards.epochRewardPools.entries(),
+  ]);
+
+  const epochInfo = epochInfoResult.toJSON() as any;
+  const currentBlock = Number(blockNumber.toString());
+
+  const pools: EpochPool[] = poolEntries
+    .filter(([, pool]) => !pool.isEmpty)
+    .map(([key, pool]) => {
+      const data = ((pool as any).isSome ? (pool as any).unwrap() : pool).toJSON() as any;
+      return {
+        epoch: Number(key.args[0].toString()),
+        rewardPerTrustPoint: BigInt(String(data.rewardPerTrustPoint ?? 0)),
+        claimDeadline: Number(data.claimDeadline ?? 0),
+      };
+    })
+    .sort((a, b) => a.epoch - b.epoch);
+
+  const openPools = pools.filter((pool) => pool.claimDeadline >= currentBlock);
+
+  const [claimedResults, scoreResults] = await Promise.all([
+    pools.length > 0
+      ? api.query.pezRewards.claimedRewards.multi(pools.map((pool) => [pool.epoch, address]))
+      : [],
+    openPools.length > 0
+      ? api.query.pezRewards.userEpochScores.multi(openPools.map((pool) => [pool.epoch, address]))
+      : [],
+  ]);
+
+  const claimedByEpoch = new Map<number, string>();
+  claimedResults.forEach((result: any, i) => {
+    if (result.isSome) claimedByEpoch.set(pools[i].epoch, result.unwrap().toString());
+  });
+
+  const claimable: PezEpochReward[] = [];
+  scoreResults.forEach((result: any, i) => {
+    const pool = openPools[i];
+    if (!result.isSome || claimedByEpoch.has(pool.epoch)) return;
+
+    const trustScore = BigInt(result.unwrap().toString());
+    const amount = trustScore * pool.rewardPerTrustPoint;
+    if (amount === BigInt(0)) return;
+
+    const blocksRemaining = pool.claimDeadline - currentBlock;
+    claimable.push({
+      epoch: pool.epoch,
+      trustScore: Number(trustScore),
+      amount: amount.toString(),
+      claimDeadline: pool.claimDeadline,
+      blocksRemaining,
+      expiresSoon: blocksRemaining <= CLAIM_EXPIRY_WARNING_BLOCKS,
+    });
+  });
+
+  const claimed: PezRewardClaim[] = [...claimedByEpoch.entries()]
+    .map(([epoch, amount]) => ({ epoch, amount, txHash: null, blockNumber: null }))
+    .sort((a, b) => b.epoch - a.epoch);
+
+  return {
+    currentEpoch: epochInfo?.currentEpoch || 0,
+    epochStartBlock: epochInfo?.epochStartBlock || 0,
+    currentBlock,
+    claimable,
+    totalClaimable: sumAmounts(claimable),
+    claimed,
+    totalClaimed: sumAmounts(claimed),
+  };
+}
+
+/**
+ * Claim several epochs in one transaction. batchAll reverts every claim if
+ * one fails, so pass only epochs from getPezRewardsOverview's claimable list.
+ */
+export function buildClaimPezRewardsTx(api: ApiPromise, epochs: number[]): SubmittableExtrinsic<'promise'> {
+  if (epochs.length === 0) throw new Error('No epochs to claim');
+
+  const calls = epochs.map((epoch) => api.tx.pezRewards.claimReward(epoch));
+  return calls.length === 1 ? calls[0] : api.tx.utility.batchAll(calls);
+}
+
+// ========================================
+// CLAIM HISTORY
+// ========================================
+
+/**
+ * RewardClaimed events in indexed transactions, by epoch. Covers direct
+ * claims and claims inside utility batches.
+ */
+export function findRewardClaimTransactions(
+  transactions: IndexedTransaction[]
+): Map<number, { txHash: string; blockNumber: number }> {
+  const claims = new Map<number, { txHash: string; blockNumber: number }>();
+
+  transactions
+    .filter((tx) => tx.success)
+    .forEach((tx) => {
+      tx.events
+        .filter((event) => event.section === 'pezRewards' && event.method === 'RewardClaimed')
+        .forEach((event) => {
+          claims.set(Number(event.data[1]), { txHash: tx.hash, blockNumber: tx.block_number });
+        });
+    });
+
+  return claims;
+}
+
+/**
+ * Attach claim transactions from the indexer to the chain's claim records.
+ * Claims stay without links if the indexer is unavailable.
+ */
+export async function withClaimTransactions(
+  address: string,
+  claims: PezRewardClaim[]
+): Promise<PezRewardClaim[]> {
+  if (claims.length === 0) return claims;
+
+  try {
+    const pages = await Promise.all(
+      ['pezRewards', 'utility'].map((pallet) =>
+        getTransactions({ account: address, pallet, limit: CLAIM_HISTORY_LIMIT })
+      )
+    );
+    const found = findRewardClaimTransactions(pages.flatMap((page) => page.transactions));
+
+    return claims.map((claim) => ({ ...claim, ...found.get(claim.epoch) }));
+  } catch (error) {
+    console.warn('Claim transactions not available:', error);
+    return claims;
+  }
+}
+
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+/**
+ * Approximate time for a number of 6s blocks, e.g. "2d 4h" or "35m"
+ */
+export function formatBlocksRemaining(blocks: number): string {
+  const minutes = Math.max(0, Math.floor(blocks / 10));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+function sumAmounts(items: { amount: string }[]): string {
+  return items.reduce((sum, item) => sum + BigInt(item.amount), BigInt(0)).toString();
+}
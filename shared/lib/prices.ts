@@ -0,0 +1,206 @@
+// ========================================
+// Token Prices
+// ========================================
+// Client for the backend price oracle (backend/src/prices.js): TWAP spot
+// prices from assetConversion pools, OHLC candles from indexed swaps and USD
+// exchange rates. Prices are in USD, pegged through wUSDT (1 wUSDT = 1 USD).
+
+import type { PoolInfo } from '../types/dex';
+import type { FiatCurrency } from './p2p-fiat';
+import { ASSET_CONFIGS, ASSET_IDS } from './wallet';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+export const FIAT_CURRENCIES: FiatCurrency[] = ['USD', 'EUR', 'TRY', 'IQD', 'IRR'];
+
+// ========================================
+// TYPES
+// ========================================
+
+export type CandleInterval = '1m' | '1h' | '1d';
+
+export type PriceTimeframe = '1H' | '24H' | '7D' | '30D';
+
+export interface PriceCandle {
+  /** Bucket start, ISO date */
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Traded amount of the base asset */
+  volume: number;
+  trades: number;
+}
+
+/** Units of each currency per 1 USD */
+export type FiatRates = Partial<Record<FiatCurrency, number>>;
+
+export interface TokenPrices {
+  /** USD price by asset id; HEZ is under 'native' */
+  prices: Record<string, number>;
+  fiat: FiatRates;
+  /** Finalized block the TWAP ends at (null for the pool fallback) */
+  blockNumber: number | null;
+  twapBlocks: number | null;
+  updatedAt: string;
+}
+
+export interface PairPrice {
+  asset1: string;
+  asset2: string;
+  /** Price of asset1 in asset2 */
+  price: number;
+}
+
+/** Candle size and lookback for each chart timeframe */
+export const PRICE_TIMEFRAMES: Record<PriceTimeframe, { interval: CandleInterval; spanMs: number }> = {
+  '1H': { interval: '1m', spanMs: 60 * 60 * 1000 },
+  '24H': { interval: '1h', spanMs: 24 * 60 * 60 * 1000 },
+  '7D': { interval: '1h', spanMs: 7 * 24 * 60 * 60 * 1000 },
+  '30D': { interval: '1d', spanMs: 30 * 24 * 60 * 60 * 1000 },
+};
+
+// ========================================
+// QUERIES
+// ========================================
+
+/**
+ * Oracle spot prices and fiat rates
+ */
+export async function getTokenPrices(): Promise<TokenPrices> {
+  return getFromOracle('/api/prices', 'Failed to fetch prices');
+}
+
+/**
+ * OHLC candles for base priced in quote, oldest first. Buckets without
+ * swaps are omitted.
+ */
+export async function getPriceCandles(params: {
+  base: number;
+  quote: number;
+  timeframe: PriceTimeframe;
+  now?: number;
+}): Promise<PriceCandle[]> {
+  const { interval, spanMs } = PRICE_TIMEFRAMES[params.timeframe];
+  const to = params.now ?? Date.now();
+  const query = new URLSearchParams({
+    base: String(params.base),
+    quote: String(params.quote),
+    interval,
+    from: new Date(to - spanMs).toISOString(),
+    to: new Date(to).toISOString(),
+  });
+
+  const result = await getFromOracle(`/api/prices/candles?${query}`, 'Failed to fetch candles');
+  return result.candles;
+}
+
+// ========================================
+// PRICING
+// ========================================
+
+/**
+ * Asset id the DEX trades a token symbol as (HEZ is traded as wHEZ)
+ */
+export function getPriceAssetId(symbol: string): number | null {
+  switch (symbol) {
+    case 'HEZ':
+    case 'wHEZ':
+      return ASSET_IDS.WHEZ;
+    case 'PEZ':
+      return ASSET_IDS.PEZ;
+    case 'USDT':
+    case 'wUSDT':
+      return ASSET_IDS.WUSDT;
+    default:
+      return null;
+  }
+}
+
+/**
+ * USD price per asset from pair prices, walking outwards from wUSDT so the
+ * shortest route to the dollar wins. Assets with no route are left out.
+ */
+export function deriveUsdPrices(pairs: PairPrice[], usdAsset: string = String(ASSET_IDS.WUSDT)): Record<string, number> {
+  const prices: Record<string, number> = { [usdAsset]: 1 };
+  const queue = [usdAsset];
+
+  while (queue.length > 0) {
+    const known = queue.shift()!;
+    for (const { asset1, asset2, price } of pairs) {
+      if (!(price > 0)) continue;
+      if (asset2 === known && prices[asset1] === undefined) {
+        prices[asset1] = price * prices[known];
+        queue.push(asset1);
+      } else if (asset1 === known && prices[asset2] === undefined) {
+        prices[asset2] = prices[known] / price;
+        queue.push(asset2);
+      }
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Instant (non-averaged) USD prices from current pool reserves. Used when the
+ * oracle is unreachable; easier to move within a block than the TWAP.
+ */
+export function getSpotPricesFromPools(pools: PoolInfo[]): Record<string, number> {
+  const pairs = pools
+    .filter((pool) => Number(pool.reserve1) > 0 && Number(pool.reserve2) > 0)
+    .map((pool) => ({
+      asset1: String(pool.asset1),
+      asset2: String(pool.asset2),
+      price: (Number(pool.reserve2) / 10 ** getAssetDecimals(pool.asset2, pool.asset2Decimals))
+        / (Number(pool.reserve1) / 10 ** getAssetDecimals(pool.asset1, pool.asset1Decimals)),
+    }));
+
+  const prices = deriveUsdPrices(pairs);
+  const whez = prices[String(ASSET_IDS.WHEZ)];
+  return whez === undefined ? prices : { ...prices, native: whez };
+}
+
+/**
+ * USD amount in another currency, or null when its rate is unknown
+ */
+export function convertUsd(usd: number, currency: FiatCurrency, rates: FiatRates): number | null {
+  if (currency === 'USD') return usd;
+  const rate = rates[currency];
+  return rate ? usd * rate : null;
+}
+
+/**
+ * Currency-formatted amount; IQD and IRR have no minor units in practice
+ */
+export function formatFiat(amount: number, currency: FiatCurrency): string {
+  const digits = currency === 'IQD' || currency === 'IRR' ? 0 : 2;
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+// Asset ids can be overridden per network (VITE_ASSET_*), KNOWN_TOKENS cannot
+function getAssetDecimals(assetId: number, fallback: number): number {
+  const config = Object.values(ASSET_CONFIGS).find((c) => c.id === assetId);
+  return config ? config.decimals : fallback;
+}
+
+async function getFromOracle(path: string, fallbackError: string): Promise<any> {
+  const response = await fetch(`${BACKEND_URL}${path}`);
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
+}
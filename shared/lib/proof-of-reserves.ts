@@ -0,0 +1,303 @@
+// ========================================
+// Proof of Reserves (wUSDT)
+// ========================================
+// Off-chain USDT backing wUSDT is reported by custodians as signed
+// attestations instead of a manually entered number.
+//
+// Scheme (pezkuwi-por-v1):
+// - Each reserve account (bank/exchange/wallet) is a leaf:
+//   blake2(JSON [domain, account, amount]), amounts in 6-decimal units
+// - accountsRoot is the Merkle root over those leaves (same tree as the
+//   identity proofs in zk-proof.ts), so a custodian can publish only the
+//   root and still prove any single account's inclusion
+// - The custodian key signs JSON [scheme, custodian, timestamp, amount, accountsRoot]
+// - An attestation counts towards the reserve only if the signature is
+//   valid, the custodian is on the trusted list and it is fresh
+//
+// Everything here runs client-side so users can audit the peg themselves.
+
+import { stringToU8a } from '@polkadot/util';
+import { blake2AsHex, signatureVerify } from '@polkadot/util-crypto';
+import { ASSET_CONFIGS } from './wallet';
+import { buildMerkleTree, getMerkleProof, verifyMerkleProof, type MerkleStep } from './zk-proof';
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+export const RESERVE_ATTESTATION_SCHEME = 'pezkuwi-por-v1';
+
+/** Attestations older than this no longer count towards the reserve */
+export const MAX_ATTESTATION_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Collateral ratio (%) below which the peg is considered broken */
+export const RESERVE_ALERT_THRESHOLD = 100;
+
+const LEAF_DOMAIN = 'pezkuwi/reserve-account/v1';
+const RESERVE_DECIMALS = ASSET_CONFIGS.WUSDT.decimals;
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface ReserveAccountBalance {
+  account: string; // Custodian-chosen identifier, e.g. "bank:iban-hash" or an address
+  amount: string; // Smallest USDT units (6 decimals)
+}
+
+export interface ReserveAttestation {
+  scheme: string;
+  custodian: string; // SS58 address of the signing key
+  timestamp: number; // Unix ms
+  amount: string; // Total reserve, smallest USDT units
+  accountsRoot: string;
+  accounts?: ReserveAccountBalance[]; // Optional published account list
+  signature: string;
+}
+
+export interface TrustedCustodian {
+  name: string;
+  address: string;
+}
+
+export interface AttestationVerification {
+  attestation: ReserveAttestation;
+  custodianName: string | null;
+  signatureValid: boolean;
+  trusted: boolean;
+  fresh: boolean;
+  accountsValid: boolean | null; // null when the account list is not published
+  valid: boolean;
+  ageMs: number;
+  errors: string[];
+}
+
+export interface VerifyAttestationOptions {
+  now?: number;
+  maxAgeMs?: number;
+}
+
+export interface ReserveSummary {
+  totalReserve: number; // Human-readable USDT
+  counted: AttestationVerification[]; // Latest valid attestation per custodian
+  missingCustodians: TrustedCustodian[];
+  oldestTimestamp: number | null;
+}
+
+/** Signs a message with the custodian key, returning a hex signature */
+export type AttestationSigner = (message: string) => Promise<string>;
+
+// ========================================
+// TRUSTED CUSTODIANS
+// ========================================
+
+/**
+ * Parse a custodian list of the form "Name=address,Name2=address2".
+ * A bare address is accepted and named after itself.
+ */
+export function parseTrustedCustodians(value: string | undefined): TrustedCustodian[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [name, address] = entry.includes('=') ? entry.split('=') : [entry, entry];
+      return { name: name.trim(), address: address.trim() };
+    });
+}
+
+export const TRUSTED_CUSTODIANS = parseTrustedCustodians(import.meta.env.VITE_RESERVE_CUSTODIANS);
+
+// ========================================
+// ACCOUNT TREE
+// ========================================
+
+export function hashReserveAccountLeaf(account: ReserveAccountBalance): string {
+  return blake2AsHex(stringToU8a(JSON.stringify([LEAF_DOMAIN, account.account, account.amount])));
+}
+
+export function computeAccountsRoot(accounts: ReserveAccountBalance[]): string {
+  return buildMerkleTree(accounts.map(hashReserveAccountLeaf)).root;
+}
+
+/**
+ * Inclusion proof for one reserve account, for custodians that only publish the root
+ */
+export function getReserveAccountProof(accounts: ReserveAccountBalance[], index: number): MerkleStep[] {
+  return getMerkleProof(buildMerkleTree(accounts.map(hashReserveAccountLeaf)), index);
+}
+
+export function verifyReserveAccountProof(
+  account: ReserveAccountBalance,
+  path: MerkleStep[],
+  accountsRoot: string
+): boolean {
+  return verifyMerkleProof(hashReserveAccountLeaf(account), path, accountsRoot);
+}
+
+function sumAmounts(accounts: ReserveAccountBalance[]): string {
+  return accounts.reduce((sum, account) => sum + BigInt(account.amount), BigInt(0)).toString();
+}
+
+// ========================================
+// ATTESTATIONS
+// ========================================
+
+/**
+ * The exact message a custodian signs
+ */
+export function getAttestationMessage(
+  attestation: Pick<ReserveAttestation, 'scheme' | 'custodian' | 'timestamp' | 'amount' | 'accountsRoot'>
+): string {
+  return JSON.stringify([
+    attestation.scheme,
+    attestation.custodian,
+    attestation.timestamp,
+    attestation.amount,
+    attestation.accountsRoot
+  ]);
+}
+
+/**
+ * Create a signed attestation over the custodian's reserve accounts
+ * @param custodian - SS58 address of the signing key
+ * @param accounts - Reserve accounts and balances
+ * @param sign - Custodian signer
+ * @param publishAccounts - Include the account list (otherwise only the root is published)
+ */
+export async function createReserveAttestation(
+  custodian: string,
+  accounts: ReserveAccountBalance[],
+  sign: AttestationSigner,
+  publishAccounts = true,
+  timestamp = Date.now()
+): Promise<ReserveAttestation> {
+  if (accounts.length === 0) {
+    throw new Error('An attestation needs at least one reserve account');
+  }
+
+  const unsigned = {
+    scheme: RESERVE_ATTESTATION_SCHEME,
+    custodian,
+    timestamp,
+    amount: sumAmounts(accounts),
+    accountsRoot: computeAccountsRoot(accounts)
+  };
+
+  return {
+    ...unsigned,
+    ...(publishAccounts && { accounts }),
+    signature: await sign(getAttestationMessage(unsigned))
+  };
+}
+
+/**
+ * Verify signature, custodian, freshness and (if published) the account list
+ */
+export function verifyReserveAttestation(
+  attestation: ReserveAttestation,
+  custodians: TrustedCustodian[] = TRUSTED_CUSTODIANS,
+  { now = Date.now(), maxAgeMs = MAX_ATTESTATION_AGE_MS }: VerifyAttestationOptions = {}
+): AttestationVerification {
+  const errors: string[] = [];
+
+  if (attestation.scheme !== RESERVE_ATTESTATION_SCHEME) {
+    errors.push(`Unsupported scheme: ${attestation.scheme}`);
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = signatureVerify(
+      getAttestationMessage(attestation),
+      attestation.signature,
+      attestation.custodian
+    ).isValid;
+  } catch {
+    // Malformed address or signature
+  }
+  if (!signatureValid) errors.push('Invalid custodian signature');
+
+  const custodian = custodians.find(c => c.address === attestation.custodian);
+  if (!custodian) errors.push('Custodian is not on the trusted list');
+
+  const ageMs = now - attestation.timestamp;
+  const fresh = ageMs >= 0 && ageMs <= maxAgeMs;
+  if (!fresh) errors.push(ageMs < 0 ? 'Attestation is dated in the future' : 'Attestation is stale');
+
+  let accountsValid: boolean | null = null;
+  if (attestation.accounts) {
+    try {
+      accountsValid = attestation.accounts.length > 0 &&
+        computeAccountsRoot(attestation.accounts) === attestation.accountsRoot.toLowerCase() &&
+        sumAmounts(attestation.accounts) === attestation.amount;
+    } catch {
+      accountsValid = false;
+    }
+    if (!accountsValid) errors.push('Account list does not match the attested root or total');
+  }
+
+  return {
+    attestation,
+    custodianName: custodian?.name ?? null,
+    signatureValid,
+    trusted: !!custodian,
+    fresh,
+    accountsValid,
+    valid: errors.length === 0,
+    ageMs,
+    errors
+  };
+}
+
+/**
+ * Total verified reserve: the latest valid attestation of each trusted custodian
+ */
+export function summarizeReserves(
+  verifications: AttestationVerification[],
+  custodians: TrustedCustodian[] = TRUSTED_CUSTODIANS
+): ReserveSummary {
+  const latest = new Map<string, AttestationVerification>();
+
+  for (const verification of verifications) {
+    if (!verification.valid) continue;
+    const current = latest.get(verification.attestation.custodian);
+    if (!current || verification.attestation.timestamp > current.attestation.timestamp) {
+      latest.set(verification.attestation.custodian, verification);
+    }
+  }
+
+  const counted = [...latest.values()];
+  const total = counted.reduce((sum, v) => sum + BigInt(v.attestation.amount), BigInt(0));
+
+  return {
+    totalReserve: Number(total) / Math.pow(10, RESERVE_DECIMALS),
+    counted,
+    missingCustodians: custodians.filter(c => !latest.has(c.address)),
+    oldestTimestamp: counted.length > 0
+      ? Math.min(...counted.map(v => v.attestation.timestamp))
+      : null
+  };
+}
+
+/**
+ * Parse a pasted/downloaded attestation. Returns null if it is not well-formed.
+ */
+export function decodeReserveAttestation(json: string): ReserveAttestation | null {
+  try {
+    const data = JSON.parse(json);
+    const wellFormed =
+      typeof data.scheme === 'string' &&
+      typeof data.custodian === 'string' &&
+      typeof data.timestamp === 'number' &&
+      typeof data.amount === 'string' && /^\d+$/.test(data.amount) &&
+      typeof data.accountsRoot === 'string' &&
+      typeof data.signature === 'string' &&
+      (data.accounts === undefined || Array.isArray(data.accounts));
+
+    return wellFormed ? data : null;
+  } catch {
+    return null;
+  }
+}
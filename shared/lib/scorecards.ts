@@ -0,0 +1,290 @@
+// ========================================
+// Representative Scorecards
+// ========================================
+// Accountability records for MPs and cabinet ministers:
+// - Voting record on every proposal their body decides during their term
+// - Participation over time and attendance streaks, recomputed from
+//   CollectiveVotes (the pallet's own counters are shown alongside)
+// - Term countdown and voting power delegated to them
+
+import type { ApiPromise } from '@polkadot/api';
+import { getAppointmentHistory, getAppointmentProcesses, type AppointmentEvent } from './appointments';
+import { getLegislation, getDecisionBody, type DecisionBody, type LegislationRecord } from './legislation';
+import {
+  blocksToTime,
+  getCurrentMinisters,
+  getMinisterRoleLabel,
+  getParliamentMembers,
+  type AppointmentProcess,
+  type MinisterRole,
+  type VoteChoice,
+} from './welati';
+
+// ========================================
+// TYPES
+// ========================================
+
+/**
+ * One office held by an account; someone who is both MP and minister has
+ * one entry per office, each scored against its own body
+ */
+export interface Representative {
+  account: string;
+  /** 'parliament' or the ministry role */
+  officeId: 'parliament' | MinisterRole;
+  /** e.g. 'Member of Parliament', 'Minister of Finance' */
+  office: string;
+  body: Extract<DecisionBody, 'parliament' | 'executive'>;
+  /** Election block for MPs, appointment block for ministers; 0 when unknown */
+  electedAt: number;
+  /** 0 when the term end is not recorded */
+  termEndsAt: number;
+  committees: string[];
+  /** The pallet's own participation counters */
+  chainParticipation: { votesParticipated: number; totalVotesEligible: number } | null;
+}
+
+export interface DelegationSummary {
+  delegators: number;
+  /** Raw HEZ */
+  total: string;
+}
+
+export interface VoteRecordEntry {
+  proposalId: number;
+  title: string;
+  status: LegislationRecord['status'];
+  proposedAt: number;
+  vote: VoteChoice | null;
+  votedAt: number | null;
+  /** Voting still open and no vote yet; not counted as missed */
+  pending: boolean;
+}
+
+export interface ParticipationPoint {
+  proposalId: number;
+  block: number;
+  /** Cumulative participation after this proposal, percent */
+  rate: number;
+}
+
+export interface Scorecard {
+  representative: Representative;
+  record: VoteRecordEntry[];
+  participationRate: number;
+  participationHistory: ParticipationPoint[];
+  votesCast: number;
+  missed: number;
+  currentStreak: number;
+  longestStreak: number;
+  termBlocksRemaining: number | null;
+  termTimeRemaining: { days: number; hours: number; minutes: number } | null;
+  delegations: DelegationSummary;
+}
+
+export interface ScorecardData {
+  representatives: Representative[];
+  proposals: LegislationRecord[];
+  /** proposalId -> voter -> vote */
+  votes: Map<number, Map<string, { vote: VoteChoice; votedAt: number }>>;
+  delegations: Map<string, DelegationSummary>;
+  currentBlock: number;
+}
+
+// ========================================
+// CHAIN QUERIES
+// ========================================
+
+/**
+ * Every office held by an MP or minister
+ */
+export async function getRepresentatives(api: ApiPromise): Promise<Representative[]> {
+  const [members, ministers, history, processes] = await Promise.all([
+    getParliamentMembers(api),
+    getCurrentMinisters(api),
+    getAppointmentHistory(),
+    getAppointmentProcesses(api),
+  ]);
+
+  const representatives: Representative[] = members.map((member) => ({
+    account: member.account,
+    officeId: 'parliament',
+    office: 'Member of Parliament',
+    body: 'parliament',
+    electedAt: member.electedAt,
+    termEndsAt: member.termEndsAt,
+    committees: member.committees,
+    chainParticipation: member.totalVotesEligible > 0
+      ? { votesParticipated: member.votesParticipated, totalVotesEligible: member.totalVotesEligible }
+      : null,
+  }));
+
+  (Object.entries(ministers) as [MinisterRole, string | undefined][]).forEach(([role, account]) => {
+    if (!account) return;
+
+    representatives.push({
+      account,
+      officeId: role,
+      office: getMinisterRoleLabel(role).en,
+      body: 'executive',
+      electedAt: findAppointedAt(account, role, history, processes),
+      termEndsAt: 0,
+      committees: [],
+      chainParticipation: null,
+    });
+  });
+
+  return representatives;
+}
+
+/**
+ * Block a minister was appointed at: the latest AppointmentApproved event
+ * for the account and role, else the creation block of their latest
+ * approved AppointmentProcess (a lower bound, the pallet does not record
+ * the approval block), else 0
+ */
+export function findAppointedAt(
+  account: string,
+  role: MinisterRole,
+  history: AppointmentEvent[],
+  processes: AppointmentProcess[]
+): number {
+  const appointed = history
+    .filter((event) => event.kind === 'appointed' && event.account === account && event.role === role)
+    .reduce((latest, event) => Math.max(latest, event.blockNumber), 0);
+  if (appointed > 0) return appointed;
+
+  return processes
+    .filter((process) => process.status === 'Approved' && process.nominee === account && process.role === role)
+    .reduce((latest, process) => Math.max(latest, process.createdAt), 0);
+}
+
+/**
+ * Every collective vote, grouped by proposal
+ */
+export async function getAllCollectiveVotes(api: ApiPromise): Promise<ScorecardData['votes']> {
+  const entries = await api.query.welati.collectiveVotes.entries();
+  const votes: ScorecardData['votes'] = new Map();
+
+  entries.forEach(([key, value]) => {
+    const proposalId = Number(key.args[0].toString());
+    const data = value.toJSON() as any;
+    if (!data) return;
+
+    if (!votes.has(proposalId)) votes.set(proposalId, new Map());
+    votes.get(proposalId)!.set(key.args[1].toString(), { vote: data.vote as VoteChoice, votedAt: data.votedAt || 0 });
+  });
+
+  return votes;
+}
+
+/**
+ * Democracy voting power delegated to each account
+ */
+export async function getDelegationsReceived(api: ApiPromise): Promise<Map<string, DelegationSummary>> {
+  const received = new Map<string, DelegationSummary>();
+  if (!api.query.democracy?.voting) return received;
+
+  const entries = await api.query.democracy.voting.entries();
+  entries.forEach(([, value]) => {
+    const voting = value as any;
+    if (!voting.isDelegating) return;
+
+    const delegation = voting.asDelegating;
+    const target = delegation.target.toString();
+    const existing = received.get(target) ?? { delegators: 0, total: '0' };
+
+    received.set(target, {
+      delegators: existing.delegators + 1,
+      total: (BigInt(existing.total) + BigInt(delegation.balance.toString())).toString(),
+    });
+  });
+
+  return received;
+}
+
+/**
+ * Everything scorecards are built from, in one round of queries
+ */
+export async function getScorecardData(api: ApiPromise): Promise<ScorecardData> {
+  const [representatives, proposals, votes, delegations, header] = await Promise.all([
+    getRepresentatives(api),
+    getLegislation(api),
+    getAllCollectiveVotes(api),
+    getDelegationsReceived(api),
+    api.rpc.chain.getHeader(),
+  ]);
+
+  return { representatives, proposals, votes, delegations, currentBlock: header.number.toNumber() };
+}
+
+// ========================================
+// SCORING
+// ========================================
+
+/**
+ * A representative's record on the proposals their body decided while
+ * they held office, oldest first
+ */
+export function buildScorecard(representative: Representative, data: ScorecardData): Scorecard {
+  const record: VoteRecordEntry[] = data.proposals
+    .filter((proposal) =>
+      getDecisionBody(proposal.decisionType) === representative.body &&
+      proposal.proposedAt >= representative.electedAt &&
+      (representative.termEndsAt === 0 || proposal.proposedAt < representative.termEndsAt)
+    )
+    .sort((a, b) => a.proposedAt - b.proposedAt || a.proposalId - b.proposalId)
+    .map((proposal) => {
+      const vote = data.votes.get(proposal.proposalId)?.get(representative.account);
+      const open = proposal.status === 'Active' && data.currentBlock < proposal.expiresAt;
+
+      return {
+        proposalId: proposal.proposalId,
+        title: proposal.title,
+        status: proposal.status,
+        proposedAt: proposal.proposedAt,
+        vote: vote?.vote ?? null,
+        votedAt: vote?.votedAt ?? null,
+        pending: open && !vote,
+      };
+    });
+
+  const counted = record.filter((entry) => !entry.pending);
+  const participationHistory: ParticipationPoint[] = [];
+  let votesCast = 0;
+  let streak = 0;
+  let longestStreak = 0;
+
+  counted.forEach((entry, i) => {
+    if (entry.vote) {
+      votesCast++;
+      streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    } else {
+      streak = 0;
+    }
+    participationHistory.push({
+      proposalId: entry.proposalId,
+      block: entry.proposedAt,
+      rate: (votesCast / (i + 1)) * 100,
+    });
+  });
+
+  const termBlocksRemaining = representative.termEndsAt > 0
+    ? Math.max(0, representative.termEndsAt - data.currentBlock)
+    : null;
+
+  return {
+    representative,
+    record,
+    participationRate: counted.length > 0 ? (votesCast / counted.length) * 100 : 0,
+    participationHistory,
+    votesCast,
+    missed: counted.length - votesCast,
+    currentStreak: streak,
+    longestStreak,
+    termBlocksRemaining,
+    termTimeRemaining: termBlocksRemaining !== null ? blocksToTime(termBlocksRemaining) : null,
+    delegations: data.delegations.get(representative.account) ?? { delegators: 0, total: '0' },
+  };
+}
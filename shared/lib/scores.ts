@@ -4,6 +4,8 @@
 // Centralized score fetching from blockchain pallets
 
 import type { ApiPromise } from '@polkadot/api';
+import { hexToString, isHex } from '@polkadot/util';
+import { fetchUserTikis, calculateTikiScore } from './tiki';
 
 // ========================================
 // TYPE DEFINITIONS
@@ -17,13 +19,195 @@ export interface UserScores {
   totalScore: number;
 }
 
+/** Trust score input a history entry changed */
+export type TrustComponent = 'staking' | 'referral' | 'tiki' | 'perwerde' | 'other';
+
+export interface TrustHistoryEntry {
+  blockNumber: number;
+  /** Trust score after the update */
+  score: number;
+  /** Difference to the previous entry */
+  change: number;
+  component: TrustComponent;
+  /** Decoded reason as stored on chain */
+  reason: string;
+}
+
 export interface TrustScoreDetails {
   totalScore: number;
   stakingPoints: number;
   referralPoints: number;
   tikiPoints: number;
+  perwerdePoints: number;
   activityPoints: number;
   historyLength: number;
+  history: TrustHistoryEntry[];
+}
+
+/** Component scores pallet_trust combines */
+export interface TrustScoreInputs {
+  staking: number;
+  referral: number;
+  perwerde: number;
+  tiki: number;
+}
+
+export interface TrustScoreBreakdown extends TrustScoreInputs {
+  weightedSum: number;
+  total: number;
+}
+
+/** Cumulative score change per component at a block, for timeline charts */
+export interface TrustTimelinePoint extends Record<TrustComponent, number> {
+  blockNumber: number;
+  score: number;
+}
+
+// ========================================
+// ON-CHAIN FORMULAS
+// ========================================
+// These MUST match the pallets exactly (pallet_trust, pallet_staking_score,
+// pallet_referral); any change there must be synchronized here.
+
+/** Weights of each component in pallet_trust's weighted sum */
+export const TRUST_SCORE_WEIGHTS: TrustScoreInputs = {
+  staking: 100,
+  referral: 300,
+  perwerde: 300,
+  tiki: 300,
+};
+
+/** ~30 days at 6s blocks */
+export const MONTH_IN_BLOCKS = 30 * 24 * 60 * 10;
+
+/**
+ * pallet_staking_score::get_staking_score
+ * 1. Amount score: 0-100 HEZ 20, 101-250 HEZ 30, 251-750 HEZ 40, 751+ HEZ 50
+ * 2. Duration multiplier: <1 month x1.0, 1-2 x1.2, 3-5 x1.4, 6-11 x1.7, 12+ x2.0
+ * 3. min(100, floor(amount score x multiplier))
+ */
+export function calculateStakingScore(stakedHez: number, durationInBlocks: number): number {
+  let amountScore: number;
+  if (stakedHez <= 100) amountScore = 20;
+  else if (stakedHez <= 250) amountScore = 30;
+  else if (stakedHez <= 750) amountScore = 40;
+  else amountScore = 50;
+
+  // Multipliers in tenths, like the pallet's integer math
+  let multiplier = 10;
+  if (durationInBlocks >= 12 * MONTH_IN_BLOCKS) multiplier = 20;
+  else if (durationInBlocks >= 6 * MONTH_IN_BLOCKS) multiplier = 17;
+  else if (durationInBlocks >= 3 * MONTH_IN_BLOCKS) multiplier = 14;
+  else if (durationInBlocks >= MONTH_IN_BLOCKS) multiplier = 12;
+
+  return Math.min(100, Math.floor((amountScore * multiplier) / 10));
+}
+
+/**
+ * Referral score from the referral count:
+ * 1-5 referrals count x 4, 6-20 referrals 20 + (count - 5) x 2, capped at 50
+ */
+export function calculateReferralScore(referralCount: number): number {
+  if (referralCount <= 0) return 0;
+  if (referralCount <= 5) return referralCount * 4;
+  if (referralCount <= 20) return 20 + ((referralCount - 5) * 2);
+  return 50;
+}
+
+/**
+ * pallet_trust score: weighted_sum = staking x 100 + (referral + perwerde
+ * + tiki) x 300, total = staking x weighted_sum / 1000 (integer division).
+ * Without a staking score the trust score is 0.
+ */
+export function calculateTrustScore(inputs: TrustScoreInputs): TrustScoreBreakdown {
+  const weightedSum =
+    inputs.staking * TRUST_SCORE_WEIGHTS.staking +
+    inputs.referral * TRUST_SCORE_WEIGHTS.referral +
+    inputs.perwerde * TRUST_SCORE_WEIGHTS.perwerde +
+    inputs.tiki * TRUST_SCORE_WEIGHTS.tiki;
+
+  return {
+    ...inputs,
+    weightedSum,
+    total: Math.floor((inputs.staking * weightedSum) / 1000),
+  };
+}
+
+/**
+ * PEZ paid for an epoch: trust score x the epoch pool's reward per trust
+ * point (raw units), as in pallet_pez_rewards
+ */
+export function estimateEpochReward(trustScore: number, rewardPerTrustPoint: bigint): bigint {
+  return BigInt(Math.max(0, Math.floor(trustScore))) * rewardPerTrustPoint;
+}
+
+// ========================================
+// TRUST HISTORY DECODING
+// ========================================
+
+// Reason identifiers (enum variant or text), normalized to lowercase letters
+const TRUST_REASON_COMPONENTS: [prefix: string, component: TrustComponent][] = [
+  ['staking', 'staking'],
+  ['stake', 'staking'],
+  ['referral', 'referral'],
+  ['tiki', 'tiki'],
+  ['role', 'tiki'],
+  ['perwerde', 'perwerde'],
+  ['education', 'perwerde'],
+  ['course', 'perwerde'],
+];
+
+/**
+ * Component a history reason belongs to
+ */
+export function getTrustReasonComponent(reason: string): TrustComponent {
+  const normalized = reason.toLowerCase().replace(/[^a-z]/g, '');
+  return TRUST_REASON_COMPONENTS.find(([prefix]) => normalized.startsWith(prefix))?.[1] ?? 'other';
+}
+
+function decodeReason(raw: unknown): string {
+  if (raw === null || raw === undefined) return '';
+  if (typeof raw === 'string') return isHex(raw) ? hexToString(raw) : raw;
+  // Enum variants serialize as { variantName: data }
+  if (typeof raw === 'object' && !Array.isArray(raw)) return Object.keys(raw)[0] ?? '';
+  return String(raw);
+}
+
+/**
+ * Decode pallet_trust::ScoreHistory (toJSON output) oldest first. Entries are
+ * { blockNumber, score, reason } structs or (block, score, reason) tuples;
+ * reasons may be enum variants, text or hex-encoded bytes.
+ */
+export function decodeTrustHistory(raw: unknown): TrustHistoryEntry[] {
+  if (!Array.isArray(raw)) return [];
+
+  const entries = raw
+    .map((item) => {
+      const [blockNumber, score, reason] = Array.isArray(item)
+        ? item
+        : [item?.blockNumber ?? item?.block, item?.score, item?.reason];
+      return { blockNumber: Number(blockNumber), score: Number(score), reason: decodeReason(reason) };
+    })
+    .filter((entry) => Number.isFinite(entry.blockNumber) && Number.isFinite(entry.score))
+    .sort((a, b) => a.blockNumber - b.blockNumber);
+
+  return entries.map((entry, i) => ({
+    ...entry,
+    change: entry.score - (i > 0 ? entries[i - 1].score : 0),
+    component: getTrustReasonComponent(entry.reason),
+  }));
+}
+
+/**
+ * Running total of each component's score changes, one point per entry
+ */
+export function buildTrustTimeline(history: TrustHistoryEntry[]): TrustTimelinePoint[] {
+  const totals: Record<TrustComponent, number> = { staking: 0, referral: 0, tiki: 0, perwerde: 0, other: 0 };
+
+  return history.map((entry) => {
+    totals[entry.component] += entry.change;
+    return { blockNumber: entry.blockNumber, score: entry.score, ...totals };
+  });
 }
 
 // ========================================
@@ -59,7 +243,8 @@ export async function getTrustScore(
 
 /**
  * Fetch detailed trust score breakdown
- * pallet_trust::ScoreHistory storage
+ * pallet_trust::ScoreHistory storage; points are the score changes each
+ * component caused, so they add up to the latest history entry
  */
 export async function getTrustScoreDetails(
   api: ApiPromise,
@@ -70,48 +255,23 @@ export async function getTrustScoreDetails(
       return null;
     }
 
-    const totalScore = await getTrustScore(api, address);
-
-    // Get score history to show detailed breakdown
-    const historyResult = await api.query.trust.scoreHistory(address);
-
-    if (historyResult.isEmpty) {
-      return {
-        totalScore,
-        stakingPoints: 0,
-        referralPoints: 0,
-        tikiPoints: 0,
-        activityPoints: 0,
-        historyLength: 0
-      };
-    }
-
-    const history = historyResult.toJSON() as any[];
-
-    // Calculate points from history
-    // History format: [{blockNumber, score, reason}]
-    let stakingPoints = 0;
-    let referralPoints = 0;
-    let tikiPoints = 0;
-    let activityPoints = 0;
-
-    for (const entry of history) {
-      const reason = entry.reason || '';
-      const score = entry.score || 0;
+    const [totalScore, historyResult] = await Promise.all([
+      getTrustScore(api, address),
+      api.query.trust.scoreHistory(address),
+    ]);
 
-      if (reason.includes('Staking')) stakingPoints += score;
-      else if (reason.includes('Referral')) referralPoints += score;
-      else if (reason.includes('Tiki') || reason.includes('Role')) tikiPoints += score;
-      else activityPoints += score;
-    }
+    const history = historyResult.isEmpty ? [] : decodeTrustHistory(historyResult.toJSON());
+    const points = buildTrustTimeline(history).pop();
 
     return {
       totalScore,
-      stakingPoints,
-      referralPoints,
-      tikiPoints,
-      activityPoints,
-      historyLength: history.length
+      stakingPoints: points?.staking ?? 0,
+      referralPoints: points?.referral ?? 0,
+      tikiPoints: points?.tiki ?? 0,
+      perwerdePoints: points?.perwerde ?? 0,
+      activityPoints: points?.other ?? 0,
+      historyLength: history.length,
+      history
     };
   } catch (error) {
     console.error('Error fetching trust score details:', error);
@@ -127,11 +287,7 @@ export async function getTrustScoreDetails(
  * Fetch user's referral score
  * Reads from pallet_referral::ReferralCount storage
  *
- * Score calculation based on referral count:
- * - 0 referrals: 0 points
- * - 1-5 referrals: count × 4 points (4, 8, 12, 16, 20)
- * - 6-20 referrals: 20 + (count - 5) × 2 points
- * - 21+ referrals: capped at 50 points
+ * Score calculation: see calculateReferralScore
  */
 export async function getReferralScore(
   api: ApiPromise,
@@ -144,14 +300,7 @@ export async function getReferralScore(
     }
 
     const count = await api.query.referral.referralCount(address);
-    const referralCount = Number(count.toString());
-
-    // Calculate score based on referral count
-    if (referralCount === 0) return 0;
-    if (referralCount <= 5) return referralCount * 4;
-    if (referralCount <= 20) return 20 + ((referralCount - 5) * 2);
-    return 50; // Capped at 50 points
-
+    return calculateReferralScore(Number(count.toString()));
   } catch (error) {
     console.error('Error fetching referral score:', error);
     return 0;
@@ -224,26 +373,8 @@ export async function getStakingScoreFromPallet(
     // Get duration
     const startBlock = Number(scoreResult.unwrap().toString());
     const currentBlock = Number((await api.query.system.number()).toString());
-    const durationInBlocks = currentBlock - startBlock;
-
-    // Calculate score based on amount and duration
-    // Amount-based score (20-50 points)
-    let amountScore = 20;
-    if (stakedAmount <= 100) amountScore = 20;
-    else if (stakedAmount <= 250) amountScore = 30;
-    else if (stakedAmount <= 750) amountScore = 40;
-    else amountScore = 50;
-
-    // Duration multiplier
-    const MONTH_IN_BLOCKS = 30 * 24 * 60 * 10; // ~30 days
-    let durationMultiplier = 1.0;
-
-    if (durationInBlocks >= 12 * MONTH_IN_BLOCKS) durationMultiplier = 2.0;
-    else if (durationInBlocks >= 6 * MONTH_IN_BLOCKS) durationMultiplier = 1.7;
-    else if (durationInBlocks >= 3 * MONTH_IN_BLOCKS) durationMultiplier = 1.4;
-    else if (durationInBlocks >= MONTH_IN_BLOCKS) durationMultiplier = 1.2;
-
-    return Math.min(100, Math.floor(amountScore * durationMultiplier));
+
+    return calculateStakingScore(stakedAmount, currentBlock - startBlock);
   } catch (error) {
     console.error('Error fetching staking score:', error);
     return 0;
@@ -255,11 +386,8 @@ export async function getStakingScoreFromPallet(
 // ========================================
 
 /**
- * Calculate Tiki score from user's roles
- * Import from lib/tiki.ts
+ * Calculate Tiki score from user's roles (lib/tiki.ts)
  */
-import { fetchUserTikis, calculateTikiScore } from './tiki';
-
 export async function getTikiScore(
   api: ApiPromise,
   address: string
@@ -324,6 +452,48 @@ export async function getAllScores(
   }
 }
 
+/**
+ * What the staking, referral and Tiki scores are computed from, as the
+ * starting point for what-if simulations. Perwerde points come from
+ * getPerwerdeScore (lib/perwerde.ts).
+ */
+export interface TrustScoreFactors {
+  stakedHez: number;
+  /** Blocks since staking score tracking started (0 if not started) */
+  stakingBlocks: number;
+  hasStartedScoreTracking: boolean;
+  referralCount: number;
+  tikis: string[];
+}
+
+export async function getTrustScoreFactors(
+  api: ApiPromise,
+  address: string
+): Promise<TrustScoreFactors> {
+  const [ledger, startBlock, currentBlock, referralCount, tikis] = await Promise.all([
+    api.query.staking.ledger(address),
+    api.query.stakingScore?.stakingStartBlock
+      ? api.query.stakingScore.stakingStartBlock(address)
+      : Promise.resolve(null),
+    api.query.system.number(),
+    api.query.referral?.referralCount ? api.query.referral.referralCount(address) : Promise.resolve(null),
+    fetchUserTikis(api, address),
+  ]);
+
+  const ledgerData = ledger.isSome ? (ledger.unwrap().toJSON() as any) : null;
+  const hasStartedScoreTracking = !!startBlock && startBlock.isSome;
+
+  return {
+    stakedHez: Number(ledgerData?.total || 0) / 1e12,
+    stakingBlocks: hasStartedScoreTracking
+      ? Number(currentBlock.toString()) - Number(startBlock.unwrap().toString())
+      : 0,
+    hasStartedScoreTracking,
+    referralCount: referralCount ? Number(referralCount.toString()) : 0,
+    tikis,
+  };
+}
+
 // ========================================
 // SCORE DISPLAY HELPERS
 // ========================================
@@ -5,6 +5,8 @@
 
 import { ApiPromise } from '@polkadot/api';
 import { formatBalance } from './wallet';
+import { calculateStakingScore } from './scores';
+import { getPezRewardsOverview } from './pez-rewards';
 
 export interface StakingLedger {
   stash: string;
@@ -33,7 +35,7 @@ export interface EraRewardPoints {
 export interface PezRewardInfo {
   currentEpoch: number;
   epochStartBlock: number;
-  claimableRewards: { epoch: number; amount: string }[]; // Unclaimed rewards from completed epochs
+  claimableRewards: { epoch: number; amount: string; expiresSoon: boolean }[]; // Unclaimed rewards from completed epochs
   totalClaimable: string;
   hasPendingClaim: boolean;
 }
@@ -185,81 +187,55 @@ export async function getBlocksUntilEra(
 }
 
 /**
- * Get PEZ rewards information for an account
+ * Get PEZ rewards information for an account, covering every epoch still
+ * in its claim period (see getPezRewardsOverview for the full claim center)
  */
 export async function getPezRewards(
   api: ApiPromise,
   address: string
 ): Promise<PezRewardInfo | null> {
   try {
-    // Check if pezRewards pallet exists
-    if (!api.query.pezRewards || !api.query.pezRewards.epochInfo) {
+    const overview = await getPezRewardsOverview(api, address);
+    if (!overview) {
       console.warn('PezRewards pallet not available');
       return null;
     }
 
-    // Get current epoch info
-    const epochInfoResult = await api.query.pezRewards.epochInfo();
-
-    if (!epochInfoResult) {
-      console.warn('No epoch info found');
-      return null;
-    }
+    return {
+      currentEpoch: overview.currentEpoch,
+      epochStartBlock: overview.epochStartBlock,
+      claimableRewards: overview.claimable.map((reward) => ({
+        epoch: reward.epoch,
+        amount: formatBalance(reward.amount),
+        expiresSoon: reward.expiresSoon
+      })),
+      totalClaimable: formatBalance(overview.totalClaimable),
+      hasPendingClaim: overview.claimable.length > 0
+    };
+  } catch (error) {
+    console.warn('PEZ rewards not available:', error);
+    return null;
+  }
+}
 
-    const epochInfo = epochInfoResult.toJSON() as any;
-    const currentEpoch = epochInfo.currentEpoch || 0;
-    const epochStartBlock = epochInfo.epochStartBlock || 0;
+/**
+ * Reward per trust point (raw PEZ) of the last completed epoch, used to
+ * estimate what a trust score earns in the current one
+ */
+export async function getLatestRewardPerTrustPoint(api: ApiPromise): Promise<bigint | null> {
+  try {
+    if (!api.query.pezRewards?.epochInfo) return null;
 
-    // Check for claimable rewards from completed epochs
-    const claimableRewards: { epoch: number; amount: string }[] = [];
-    let totalClaimable = BigInt(0);
+    const epochInfo = (await api.query.pezRewards.epochInfo()).toJSON() as any;
+    const lastEpoch = (epochInfo?.currentEpoch || 0) - 1;
+    if (lastEpoch < 0) return null;
 
-    // Check last 3 completed epochs for unclaimed rewards
-    for (let i = Math.max(0, currentEpoch - 3); i < currentEpoch; i++) {
-      try {
-        // Check if user has claimed this epoch already
-        const claimedResult = await api.query.pezRewards.claimedRewards(i, address);
-
-        if (claimedResult.isNone) {
-          // User hasn't claimed - check if they have rewards
-          const userScoreResult = await api.query.pezRewards.userEpochScores(i, address);
-
-          if (userScoreResult.isSome) {
-            // User has a score for this epoch - calculate their reward
-            const epochPoolResult = await api.query.pezRewards.epochRewardPools(i);
-
-            if (epochPoolResult.isSome) {
-              const epochPool = epochPoolResult.unwrap().toJSON() as any;
-              const userScore = BigInt(userScoreResult.unwrap().toString());
-              const rewardPerPoint = BigInt(epochPool.rewardPerTrustPoint || '0');
-
-              const rewardAmount = userScore * rewardPerPoint;
-              const rewardFormatted = formatBalance(rewardAmount.toString());
-
-              if (parseFloat(rewardFormatted) > 0) {
-                claimableRewards.push({
-                  epoch: i,
-                  amount: rewardFormatted
-                });
-                totalClaimable += rewardAmount;
-              }
-            }
-          }
-        }
-      } catch (err) {
-        console.warn(`Error checking epoch ${i} rewards:`, err);
-      }
-    }
+    const pool = await api.query.pezRewards.epochRewardPools(lastEpoch);
+    if (pool.isNone) return null;
 
-    return {
-      currentEpoch,
-      epochStartBlock,
-      claimableRewards,
-      totalClaimable: formatBalance(totalClaimable.toString()),
-      hasPendingClaim: claimableRewards.length > 0
-    };
+    return BigInt((pool.unwrap().toJSON() as any).rewardPerTrustPoint || '0');
   } catch (error) {
-    console.warn('PEZ rewards not available:', error);
+    console.warn('PEZ reward pool not available:', error);
     return null;
   }
 }
@@ -293,26 +269,8 @@ export async function getStakingInfo(
     return sum + BigInt(u.value);
   }, BigInt(0));
 
-  // Get staking score if available
-  //
-  // IMPORTANT: This calculation MUST match pallet_staking_score::get_staking_score() exactly!
-  // The pallet calculates this score and reports it to pallet_pez_rewards.
-  // Any changes here must be synchronized with pallets/staking-score/src/lib.rs
-  //
-  // Score Formula:
-  // 1. Amount Score (20-50 points based on staked HEZ)
-  //    - 0-100 HEZ: 20 points
-  //    - 101-250 HEZ: 30 points
-  //    - 251-750 HEZ: 40 points
-  //    - 751+ HEZ: 50 points
-  // 2. Duration Multiplier (based on time staked)
-  //    - < 1 month: x1.0
-  //    - 1-2 months: x1.2
-  //    - 3-5 months: x1.4
-  //    - 6-11 months: x1.7
-  //    - 12+ months: x2.0
-  // 3. Final Score = min(100, floor(amountScore * durationMultiplier))
-  //
+  // Get staking score if available (calculateStakingScore mirrors
+  // pallet_staking_score::get_staking_score, which reports to pallet_pez_rewards)
   let stakingScore: number | null = null;
   let stakingDuration: number | null = null;
   let hasStartedScoreTracking = false;
@@ -326,50 +284,10 @@ export async function getStakingInfo(
         hasStartedScoreTracking = true;
         const startBlock = Number(scoreResult.unwrap().toString());
         const currentBlock = Number((await api.query.system.number()).toString());
-        const durationInBlocks = currentBlock - startBlock;
-        stakingDuration = durationInBlocks;
+        stakingDuration = currentBlock - startBlock;
 
-        // Calculate amount-based score (20-50 points)
         const stakedHEZ = ledger ? parseFloat(formatBalance(ledger.total)) : 0;
-        let amountScore = 20; // Default
-
-        if (stakedHEZ <= 100) {
-          amountScore = 20;
-        } else if (stakedHEZ <= 250) {
-          amountScore = 30;
-        } else if (stakedHEZ <= 750) {
-          amountScore = 40;
-        } else {
-          amountScore = 50; // 751+ HEZ
-        }
-
-        // Calculate duration multiplier
-        const MONTH_IN_BLOCKS = 30 * 24 * 60 * 10; // 432,000 blocks (~30 days, 6s per block)
-        let durationMultiplier = 1.0;
-
-        if (durationInBlocks >= 12 * MONTH_IN_BLOCKS) {
-          durationMultiplier = 2.0; // 12+ months
-        } else if (durationInBlocks >= 6 * MONTH_IN_BLOCKS) {
-          durationMultiplier = 1.7; // 6-11 months
-        } else if (durationInBlocks >= 3 * MONTH_IN_BLOCKS) {
-          durationMultiplier = 1.4; // 3-5 months
-        } else if (durationInBlocks >= MONTH_IN_BLOCKS) {
-          durationMultiplier = 1.2; // 1-2 months
-        } else {
-          durationMultiplier = 1.0; // < 1 month
-        }
-
-        // Final score calculation (max 100)
-        // This MUST match the pallet's integer math: amount_score * multiplier_numerator / multiplier_denominator
-        stakingScore = Math.min(100, Math.floor(amountScore * durationMultiplier));
-
-        console.log('Staking score calculated:', {
-          stakedHEZ,
-          amountScore,
-          durationInBlocks,
-          durationMultiplier,
-          finalScore: stakingScore
-        });
+        stakingScore = calculateStakingScore(stakedHEZ, stakingDuration);
       }
     }
   } catch (error) {
@@ -0,0 +1,227 @@
+// ========================================
+// Indexed Transaction History
+// ========================================
+// Typed client for the backend transaction indexer (backend/src/indexer.js),
+// which follows finalized blocks and stores every signed extrinsic with its
+// events and transfers, plus unsigned and block-level events that move funds.
+// Replaces scanning recent blocks in the client. Addresses come back in the
+// chain's SS58 format, so they are compared by public key.
+
+import { u8aEq } from '@polkadot/util';
+import { decodeAddress } from '@polkadot/util-crypto';
+import type { LiquidityEvent } from '../types/dex';
+import { ASSET_CONFIGS, formatBalance } from './wallet';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+export const TRANSACTION_PAGE_SIZE = 25;
+
+// ========================================
+// TYPES
+// ========================================
+
+/** 'native' for HEZ, otherwise the pallet-assets id */
+export type IndexedAsset = 'native' | `${number}`;
+
+export interface IndexedTransfer {
+  asset: IndexedAsset;
+  /** null for mints */
+  from: string | null;
+  /** null for burns */
+  to: string | null;
+  /** Raw chain units */
+  amount: string;
+}
+
+export interface IndexedEvent {
+  section: string;
+  method: string;
+  data: string[];
+}
+
+export interface IndexedTransaction {
+  id: string;
+  block_number: number;
+  block_hash: string;
+  /** -1 for block initialization, the extrinsic count for finalization */
+  extrinsic_index: number;
+  /** Block-level rows carry the block hash */
+  hash: string;
+  phase: 'initialization' | 'apply_extrinsic' | 'finalization';
+  section: string;
+  method: string;
+  /** Null for unsigned extrinsics and block-level events */
+  signer: string | null;
+  success: boolean;
+  error: string | null;
+  fee: string | null;
+  args: string[];
+  events: IndexedEvent[];
+  transfers: IndexedTransfer[];
+  accounts: string[];
+  assets: IndexedAsset[];
+  block_time: string;
+}
+
+export interface TransactionQuery {
+  /** Signer or any transfer party */
+  account?: string;
+  asset?: IndexedAsset;
+  /** Extrinsic pallet, e.g. 'balances' or 'assets' */
+  pallet?: string;
+  /** ISO date, inclusive */
+  from?: string;
+  /** ISO date, inclusive */
+  to?: string;
+  /** nextCursor of the previous page */
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface TransactionPage {
+  transactions: IndexedTransaction[];
+  nextCursor: string | null;
+}
+
+export interface IndexerStatus {
+  lastBlock: number | null;
+  finalizedBlock: number | null;
+}
+
+export type TransactionDirection = 'in' | 'out' | 'self';
+
+// ========================================
+// QUERIES
+// ========================================
+
+export function buildTransactionQueryString(query: TransactionQuery): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+/**
+ * Newest-first page of indexed transactions
+ */
+export async function getTransactions(query: TransactionQuery = {}): Promise<TransactionPage> {
+  return getFromIndexer(
+    `/api/indexer/transactions${buildTransactionQueryString({ limit: TRANSACTION_PAGE_SIZE, ...query })}`,
+    'Failed to fetch transactions'
+  );
+}
+
+/**
+ * Download link for the CSV export (all pages, capped by the backend)
+ */
+export function getTransactionsCsvUrl(query: Omit<TransactionQuery, 'cursor' | 'limit'> = {}): string {
+  return `${BACKEND_URL}/api/indexer/transactions.csv${buildTransactionQueryString(query)}`;
+}
+
+/**
+ * CSV export as text, for clients that share it instead of downloading
+ */
+export async function exportTransactionsCsv(query: Omit<TransactionQuery, 'cursor' | 'limit'> = {}): Promise<string> {
+  const response = await fetch(getTransactionsCsvUrl(query));
+  if (!response.ok) throw new Error('Failed to export transactions');
+  return response.text();
+}
+
+/**
+ * An account's LiquidityAdded / LiquidityRemoved events, oldest first,
+ * optionally for one pool ('<asset1>-<asset2>')
+ */
+export async function getLiquidityEvents(account: string, pool?: string): Promise<LiquidityEvent[]> {
+  const query = new URLSearchParams({ account, ...(pool && { pool }) });
+  const result = await getFromIndexer(`/api/indexer/liquidity?${query}`, 'Failed to fetch liquidity events');
+  return result.events;
+}
+
+export async function getIndexerStatus(): Promise<IndexerStatus> {
+  return getFromIndexer('/api/indexer/status', 'Failed to fetch indexer status');
+}
+
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+/** Assets the history can be filtered by */
+export const INDEXED_ASSET_OPTIONS: { asset: IndexedAsset; symbol: string }[] = [
+  { asset: 'native', symbol: 'HEZ' },
+  ...Object.values(ASSET_CONFIGS).map((config) => ({
+    asset: String(config.id) as IndexedAsset,
+    symbol: config.symbol,
+  })),
+];
+
+/**
+ * Symbol and decimals for an indexed asset
+ */
+export function getIndexedAssetInfo(asset: IndexedAsset): { symbol: string; decimals: number } {
+  if (asset === 'native') return { symbol: 'HEZ', decimals: 12 };
+
+  const config = Object.values(ASSET_CONFIGS).find((c) => String(c.id) === asset);
+  return config
+    ? { symbol: config.symbol, decimals: config.decimals }
+    : { symbol: `Asset ${asset}`, decimals: 12 };
+}
+
+/**
+ * Human-readable transfer amount with its symbol, e.g. "1.5000 PEZ"
+ */
+export function formatTransferAmount(transfer: IndexedTransfer): string {
+  const { symbol, decimals } = getIndexedAssetInfo(transfer.asset);
+  return `${formatBalance(transfer.amount, decimals)} ${symbol}`;
+}
+
+function isAccount(address: string | null, account: string): boolean {
+  if (!address) return false;
+  if (address === account) return true;
+  try {
+    return u8aEq(decodeAddress(address), decodeAddress(account));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Transfers in a transaction that involve the account
+ */
+export function getAccountTransfers(tx: IndexedTransaction, account: string): IndexedTransfer[] {
+  return tx.transfers.filter((t) => isAccount(t.from, account) || isAccount(t.to, account));
+}
+
+/**
+ * Whether the transaction moved funds to, from, or within the account.
+ * Transactions the account signed without moving funds count as outgoing.
+ */
+export function getTransactionDirection(tx: IndexedTransaction, account: string): TransactionDirection {
+  const transfers = getAccountTransfers(tx, account);
+  const incoming = transfers.some((t) => isAccount(t.to, account) && !isAccount(t.from, account));
+  const outgoing = transfers.some((t) => isAccount(t.from, account) && !isAccount(t.to, account));
+
+  if (incoming && !outgoing) return 'in';
+  if (outgoing || transfers.length === 0) return 'out';
+  return 'self';
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+async function getFromIndexer(path: string, fallbackError: string): Promise<any> {
+  const response = await fetch(`${BACKEND_URL}${path}`);
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
+}
@@ -0,0 +1,423 @@
+// ========================================
+// wUSDT Withdrawal Queue
+// ========================================
+// Withdrawals go through a queue instead of a bare burn:
+//
+// 1. The user requests a withdrawal (request_wusdt_withdrawal RPC), which
+//    checks the daily velocity limits and fixes the tier
+// 2. The user burns wUSDT in a batch tagged with the request id; the backend
+//    verifies the burn on-chain and starts the tier's unlock delay
+// 3. Once unlocked, USDT multisig members approve the payout with
+//    multisig.asMulti over system.remarkWithEvent('wusdt-payout:<id>'),
+//    or cancel it and re-mint the burned wUSDT
+// 4. After the multisig executes, the treasurer sends the USDT and marks
+//    the request paid with the transfer reference
+
+import type { ApiPromise } from '@polkadot/api';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import type { InjectedAccountWithMeta } from '@polkadot/extension-inject/types';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex } from '@polkadot/util';
+import { supabase } from '@/lib/supabase';
+import { buildSignedRequestMessage } from '../utils/auth';
+import {
+  WUSDT_ASSET_ID,
+  WUSDT_DECIMALS,
+  WITHDRAWAL_VELOCITY_LIMITS,
+  createMintWUSDTTx,
+  type WithdrawalTier,
+} from './usdt';
+import {
+  getMultisigMembers,
+  createMultisigTx,
+  approveMultisigTx,
+  cancelMultisigTx,
+  type MultisigTimepoint,
+} from './multisig';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type WithdrawalStatus =
+  | 'awaiting_burn'
+  | 'queued'
+  | 'approving'
+  | 'approved'
+  | 'paid'
+  | 'cancelled'
+  | 'expired';
+
+export interface WUSDTWithdrawal {
+  id: string;
+  user_id: string;
+  wallet_address: string;
+  amount: number;
+  destination: string;
+  tier: WithdrawalTier;
+  status: WithdrawalStatus;
+  burn_tx_hash: string | null;
+  burn_block_hash: string | null;
+  burned_at: string | null;
+  unlock_at: string | null;
+  payout_call_hash: string | null;
+  payout_timepoint: MultisigTimepoint | null;
+  approvals: string[];
+  approved_at: string | null;
+  payout_reference: string | null;
+  paid_at: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  refund_tx_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WithdrawalVelocity {
+  usedAmount: number;
+  usedCount: number;
+  remainingAmount: number;
+  remainingCount: number;
+}
+
+/** Progress milestones shown on the status page, in order */
+export const WITHDRAWAL_STAGES = ['Requested', 'Burned', 'Unlocked', 'Approved', 'Paid'] as const;
+
+// ========================================
+// MEMOS
+// ========================================
+
+/** Remark batched with the burn; ties the burn to exactly one request */
+export const getWithdrawalMemo = (id: string) => `wusdt-withdrawal:${id}`;
+
+/** Remark the multisig executes to approve a payout */
+export const getPayoutMemo = (id: string) => `wusdt-payout:${id}`;
+
+export function buildPayoutCall(api: ApiPromise, withdrawalId: string): SubmittableExtrinsic<'promise'> {
+  return api.tx.system.remarkWithEvent(getPayoutMemo(withdrawalId));
+}
+
+// ========================================
+// STATUS HELPERS
+// ========================================
+
+/**
+ * Index into WITHDRAWAL_STAGES of the last milestone reached
+ */
+export function getWithdrawalStageIndex(withdrawal: WUSDTWithdrawal, now = Date.now()): number {
+  switch (withdrawal.status) {
+    case 'paid':
+      return 4;
+    case 'approved':
+      return 3;
+    case 'queued':
+    case 'approving':
+      return withdrawal.unlock_at && new Date(withdrawal.unlock_at).getTime() <= now ? 2 : 1;
+    case 'cancelled':
+      return withdrawal.burned_at ? 1 : 0;
+    default:
+      return 0;
+  }
+}
+
+export function isWithdrawalUnlocked(withdrawal: WUSDTWithdrawal, now = Date.now()): boolean {
+  return !!withdrawal.unlock_at && new Date(withdrawal.unlock_at).getTime() <= now;
+}
+
+// ========================================
+// USER SIDE
+// ========================================
+
+/**
+ * How much of the daily withdrawal allowance is left
+ */
+export async function getWithdrawalVelocity(walletAddress: string): Promise<WithdrawalVelocity> {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('wusdt_withdrawals')
+    .select('amount')
+    .eq('wallet_address', walletAddress)
+    .gt('created_at', since)
+    .neq('status', 'cancelled');
+
+  if (error) throw error;
+
+  const usedAmount = (data || []).reduce((sum, row) => sum + Number(row.amount), 0);
+  const usedCount = data?.length || 0;
+
+  return {
+    usedAmount,
+    usedCount,
+    remainingAmount: Math.max(WITHDRAWAL_VELOCITY_LIMITS.dailyAmount - usedAmount, 0),
+    remainingCount: Math.max(WITHDRAWAL_VELOCITY_LIMITS.dailyCount - usedCount, 0),
+  };
+}
+
+export function buildBurnTx(api: ApiPromise, withdrawal: WUSDTWithdrawal) {
+  // Request amounts are stored with 6 decimals, so rounding is exact
+  // (flooring would turn e.g. 0.29 into 289999 units)
+  const units = BigInt(Math.round(Number(withdrawal.amount) * Math.pow(10, WUSDT_DECIMALS)));
+
+  return api.tx.utility.batchAll([
+    api.tx.assets.burn(WUSDT_ASSET_ID, withdrawal.wallet_address, units.toString()),
+    api.tx.system.remark(getWithdrawalMemo(withdrawal.id)),
+  ]);
+}
+
+/**
+ * Create a withdrawal request and burn the wUSDT for it
+ * @param onRequested - Called once the request exists, before signing the burn
+ * @returns The request after the backend verified the burn
+ */
+export async function requestWithdrawal(
+  api: ApiPromise,
+  account: InjectedAccountWithMeta,
+  amount: number,
+  destination: string,
+  onRequested?: (withdrawal: WUSDTWithdrawal) => void
+): Promise<WUSDTWithdrawal> {
+  const { data: withdrawal, error } = await supabase.rpc('request_wusdt_withdrawal', {
+    p_wallet_address: account.address,
+    p_amount: amount,
+    p_destination: destination,
+  });
+
+  if (error) throw new Error(error.message);
+  onRequested?.(withdrawal);
+
+  const burn = await signAndSendTx(api, account, buildBurnTx(api, withdrawal));
+
+  const { error: submitError } = await supabase.rpc('submit_wusdt_withdrawal_burn', {
+    p_withdrawal_id: withdrawal.id,
+    p_tx_hash: burn.txHash,
+    p_block_hash: burn.blockHash,
+  });
+  if (submitError) throw new Error(submitError.message);
+
+  return verifyWithdrawalBurn(withdrawal.id);
+}
+
+/**
+ * Ask the backend to verify a request's burn on-chain. Safe to retry.
+ */
+export async function verifyWithdrawalBurn(withdrawalId: string): Promise<WUSDTWithdrawal> {
+  const { withdrawal } = await postToBackend(
+    `/api/usdt/withdrawals/${withdrawalId}/verify-burn`,
+    {},
+    'Burn verification failed'
+  );
+  return withdrawal;
+}
+
+export async function getMyWithdrawals(): Promise<WUSDTWithdrawal[]> {
+  const { data, error } = await supabase
+    .from('wusdt_withdrawals')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Live updates for the current user's withdrawal requests
+ */
+export function subscribeToMyWithdrawals(
+  userId: string,
+  callback: (withdrawal: WUSDTWithdrawal) => void
+): () => void {
+  const channel = supabase
+    .channel(`wusdt-withdrawals:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'wusdt_withdrawals', filter: `user_id=eq.${userId}` },
+      (payload) => callback(payload.new as WUSDTWithdrawal)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// ========================================
+// MULTISIG SIDE
+// ========================================
+// Member actions go through the backend, which checks multisig
+// membership on-chain and verifies each approval extrinsic.
+
+export async function getWithdrawalQueue(account: InjectedAccountWithMeta): Promise<WUSDTWithdrawal[]> {
+  const { withdrawals } = await postAsMember(account, '/api/usdt/withdrawals/queue', 'listWithdrawals');
+  return withdrawals;
+}
+
+/**
+ * Approve an unlocked payout. The first member opens the multisig call,
+ * later members approve it; the threshold approval executes it.
+ */
+export async function approveWithdrawalPayout(
+  api: ApiPromise,
+  account: InjectedAccountWithMeta,
+  withdrawal: WUSDTWithdrawal,
+  specificAddresses: Record<string, string> = {}
+): Promise<WUSDTWithdrawal> {
+  const members = await getMultisigMembers(api, specificAddresses);
+  const otherSignatories = members.filter((address) => address !== account.address);
+  const call = buildPayoutCall(api, withdrawal.id);
+
+  const tx = withdrawal.payout_timepoint
+    ? approveMultisigTx(api, call, otherSignatories, withdrawal.payout_timepoint)
+    : createMultisigTx(api, call, otherSignatories);
+
+  const { txHash, blockHash } = await signAndSendTx(api, account, tx);
+
+  const { withdrawal: updated } = await postAsMember(
+    account,
+    `/api/usdt/withdrawals/${withdrawal.id}/approvals`,
+    `approveWithdrawal:${withdrawal.id}`,
+    { txHash, blockHash }
+  );
+  return updated;
+}
+
+/**
+ * Record the off-chain USDT transfer for an approved payout
+ */
+export async function markWithdrawalPaid(
+  account: InjectedAccountWithMeta,
+  withdrawalId: string,
+  reference: string
+): Promise<WUSDTWithdrawal> {
+  const { withdrawal } = await postAsMember(
+    account,
+    `/api/usdt/withdrawals/${withdrawalId}/paid`,
+    `markWithdrawalPaid:${withdrawalId}`,
+    { reference }
+  );
+  return withdrawal;
+}
+
+/**
+ * Cancel a payout and open a mint multisig refunding the burned wUSDT.
+ * If this member opened the payout multisig, it is cancelled in the same batch.
+ */
+export async function cancelWithdrawal(
+  api: ApiPromise,
+  account: InjectedAccountWithMeta,
+  withdrawal: WUSDTWithdrawal,
+  reason: string,
+  specificAddresses: Record<string, string> = {}
+): Promise<WUSDTWithdrawal> {
+  const calls: SubmittableExtrinsic<'promise'>[] = [];
+
+  if (withdrawal.payout_timepoint && withdrawal.payout_call_hash && withdrawal.approvals[0] === account.address) {
+    const members = await getMultisigMembers(api, specificAddresses);
+    calls.push(cancelMultisigTx(
+      api,
+      withdrawal.payout_call_hash,
+      members.filter((address) => address !== account.address),
+      withdrawal.payout_timepoint
+    ));
+  }
+
+  calls.push(await createMintWUSDTTx(
+    api,
+    withdrawal.wallet_address,
+    withdrawal.amount,
+    account.address,
+    specificAddresses
+  ));
+
+  const { txHash, blockHash } = await signAndSendTx(
+    api,
+    account,
+    calls.length > 1 ? api.tx.utility.batchAll(calls) : calls[0]
+  );
+
+  const { withdrawal: updated } = await postAsMember(
+    account,
+    `/api/usdt/withdrawals/${withdrawal.id}/cancel`,
+    `cancelWithdrawal:${withdrawal.id}`,
+    { reason, refundTxHash: txHash, refundBlockHash: blockHash }
+  );
+  return updated;
+}
+
+// ========================================
+// HELPERS
+// ========================================
+
+async function signAndSendTx(
+  api: ApiPromise,
+  account: InjectedAccountWithMeta,
+  tx: SubmittableExtrinsic<'promise'>
+): Promise<{ txHash: string; blockHash: string }> {
+  const injector = await web3FromAddress(account.address);
+
+  return new Promise((resolve, reject) => {
+    let unsub: (() => void) | undefined;
+
+    tx.signAndSend(account.address, { signer: injector.signer }, ({ status, txHash, dispatchError }) => {
+      if (dispatchError) {
+        if (dispatchError.isModule) {
+          const decoded = api.registry.findMetaError(dispatchError.asModule);
+          reject(new Error(`${decoded.section}.${decoded.name}`));
+        } else {
+          reject(new Error(dispatchError.toString()));
+        }
+        unsub?.();
+        return;
+      }
+
+      // The backend only reads extrinsics in finalized blocks
+      if (status.isFinalized) {
+        resolve({ txHash: txHash.toHex(), blockHash: status.asFinalized.toHex() });
+        unsub?.();
+      } else if (status.isDropped || status.isInvalid || status.isUsurped) {
+        reject(new Error(`Transaction ${status.type.toLowerCase()}`));
+        unsub?.();
+      }
+    })
+      .then((unsubscribe) => {
+        unsub = unsubscribe;
+      })
+      .catch(reject);
+  });
+}
+
+async function postAsMember(
+  account: InjectedAccountWithMeta,
+  path: string,
+  action: string,
+  body: Record<string, unknown> = {}
+): Promise<any> {
+  const injector = await web3FromAddress(account.address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const message = buildSignedRequestMessage(action);
+  const { signature } = await injector.signer.signRaw({
+    address: account.address,
+    data: stringToHex(message),
+    type: 'bytes',
+  });
+
+  return postToBackend(path, { ...body, memberAddress: account.address, message, signature }, 'Multisig request failed');
+}
+
+async function postToBackend(path: string, body: Record<string, unknown>, fallbackError: string): Promise<any> {
+  const response = await fetch(`${BACKEND_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.key || fallbackError);
+  }
+
+  return result;
+}
@@ -4,8 +4,19 @@
 // Handles wUSDT minting, burning, and reserve management
 
 import type { ApiPromise } from '@polkadot/api';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
 import { ASSET_IDS, ASSET_CONFIGS } from './wallet';
 import { getMultisigMembers, createMultisigTx } from './multisig';
+import {
+  verifyReserveAttestation,
+  summarizeReserves,
+  RESERVE_ALERT_THRESHOLD,
+  TRUSTED_CUSTODIANS,
+  type AttestationVerification,
+  type ReserveAttestation,
+  type ReserveSummary,
+  type TrustedCustodian,
+} from './proof-of-reserves';
 
 // ========================================
 // CONSTANTS
@@ -30,6 +41,14 @@ export const WITHDRAWAL_LIMITS = {
   },
 };
 
+export type WithdrawalTier = keyof typeof WITHDRAWAL_LIMITS;
+
+// Per-address limits over a rolling 24 hours (enforced by request_wusdt_withdrawal)
+export const WITHDRAWAL_VELOCITY_LIMITS = {
+  dailyAmount: 50000, // $50,000
+  dailyCount: 5,
+};
+
 // ========================================
 // ASSET QUERIES
 // ========================================
@@ -112,8 +131,9 @@ export async function createMintWUSDTTx(
   signerAddress: string,
   specificAddresses: Record<string, string> = {}
 ) {
-  // Convert to smallest unit
-  const amountBN = BigInt(Math.floor(amount * Math.pow(10, WUSDT_DECIMALS)));
+  // Convert to smallest unit, rounding so a withdrawal refund re-mints exactly
+  // the burned units (the backend checks the mint call hash)
+  const amountBN = BigInt(Math.round(amount * Math.pow(10, WUSDT_DECIMALS)));
 
   // Create the mint call
   const mintCall = api.tx.assets.mint(WUSDT_ASSET_ID, beneficiary, amountBN.toString());
@@ -173,15 +193,25 @@ export function calculateWithdrawalDelay(amount: number): number {
   }
 }
 
+/**
+ * Get withdrawal tier key
+ * @param amount - Withdrawal amount
+ * @returns Tier key, as stored on withdrawal requests
+ */
+export function getWithdrawalTierKey(amount: number): WithdrawalTier {
+  if (amount <= WITHDRAWAL_LIMITS.instant.maxAmount) return 'instant';
+  if (amount <= WITHDRAWAL_LIMITS.standard.maxAmount) return 'standard';
+  return 'large';
+}
+
 /**
  * Get withdrawal tier name
  * @param amount - Withdrawal amount
  * @returns Tier name
  */
 export function getWithdrawalTier(amount: number): string {
-  if (amount <= WITHDRAWAL_LIMITS.instant.maxAmount) return 'Instant';
-  if (amount <= WITHDRAWAL_LIMITS.standard.maxAmount) return 'Standard';
-  return 'Large';
+  const tier = getWithdrawalTierKey(amount);
+  return tier.charAt(0).toUpperCase() + tier.slice(1);
 }
 
 /**
@@ -202,30 +232,42 @@ export function formatDelay(seconds: number): string {
 
 export interface ReserveStatus {
   wusdtSupply: number;
-  offChainReserve: number; // This would come from off-chain oracle/API
-  collateralRatio: number;
+  offChainReserve: number; // Sum of verified custodian attestations
+  collateralRatio: number; // Infinity while no wUSDT exists
   isHealthy: boolean;
+  verifications: AttestationVerification[];
+  summary: ReserveSummary;
 }
 
 /**
- * Check reserve health
+ * Check reserve health against signed custodian attestations
  * @param api - Polkadot API instance
- * @param offChainReserve - Off-chain USDT reserve amount (from treasury)
- * @returns Reserve status
+ * @param attestations - Published proof-of-reserves attestations
+ * @param custodians - Trusted custodian keys
+ * @returns Reserve status; only valid, fresh attestations count as reserve
  */
 export async function checkReserveHealth(
   api: ApiPromise,
-  offChainReserve: number
+  attestations: ReserveAttestation[],
+  custodians: TrustedCustodian[] = TRUSTED_CUSTODIANS
 ): Promise<ReserveStatus> {
+  await cryptoWaitReady();
+
   const wusdtSupply = await getWUSDTTotalSupply(api);
+  const verifications = attestations.map(attestation => verifyReserveAttestation(attestation, custodians));
+  const summary = summarizeReserves(verifications, custodians);
+  const offChainReserve = summary.totalReserve;
 
-  const collateralRatio = wusdtSupply > 0 ? (offChainReserve / wusdtSupply) * 100 : 0;
+  // With nothing minted there is nothing to back
+  const collateralRatio = wusdtSupply > 0 ? (offChainReserve / wusdtSupply) * 100 : Infinity;
 
   return {
     wusdtSupply,
     offChainReserve,
     collateralRatio,
-    isHealthy: collateralRatio >= 100, // At least 100% backed
+    isHealthy: collateralRatio >= RESERVE_ALERT_THRESHOLD,
+    verifications,
+    summary,
   };
 }
 
@@ -0,0 +1,225 @@
+// ========================================
+// Encrypted Local Vault
+// ========================================
+// Authenticated encryption for sensitive data kept on the user's device
+// (citizenship applications, payment details, drafts).
+//
+// Envelope format (v1):
+//   { v: 1, kdf: 'pbkdf2-sha512', rounds, salt, cipher: 'xsalsa20-poly1305', nonce, ct }
+// All binary fields are hex encoded. The key is derived from a user secret
+// (passphrase or any other high-entropy secret the user controls), never
+// from public data such as the wallet address.
+
+import { hexToU8a, stringToU8a, u8aToHex, u8aToString } from '@polkadot/util';
+import {
+  cryptoWaitReady,
+  naclDecrypt,
+  naclEncrypt,
+  pbkdf2Encode,
+  randomAsU8a,
+} from '@polkadot/util-crypto';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export const VAULT_VERSION = 1;
+
+export interface VaultEnvelope {
+  v: typeof VAULT_VERSION;
+  kdf: 'pbkdf2-sha512';
+  rounds: number;
+  salt: string;
+  cipher: 'xsalsa20-poly1305';
+  nonce: string;
+  ct: string;
+}
+
+export interface VaultOpenResult<T> {
+  data: T;
+  /** True when the input was in the legacy base64 format and should be re-sealed */
+  legacy: boolean;
+}
+
+/**
+ * Minimal key/value storage contract.
+ * Satisfied by window.localStorage (web) and AsyncStorage (mobile).
+ */
+export interface VaultStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const KDF_ROUNDS = 210_000;
+const SALT_LENGTH = 16;
+const MIN_SECRET_LENGTH = 8;
+
+// ========================================
+// KEY DERIVATION
+// ========================================
+
+/**
+ * Derive a 32-byte secretbox key from a user secret
+ */
+function deriveKey(secret: string, salt: Uint8Array, rounds: number): Uint8Array {
+  const { password } = pbkdf2Encode(stringToU8a(secret), salt, rounds);
+  return password.slice(0, 32);
+}
+
+function assertSecret(secret: string): void {
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`Vault secret must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+}
+
+// ========================================
+// SEAL / OPEN
+// ========================================
+
+/**
+ * Encrypt any JSON-serialisable value into a versioned vault envelope
+ * @param data - Value to protect
+ * @param secret - User secret the key is derived from
+ * @returns Serialised envelope (safe to store or upload)
+ */
+export async function sealVault<T>(data: T, secret: string): Promise<string> {
+  assertSecret(secret);
+  await cryptoWaitReady();
+
+  const salt = randomAsU8a(SALT_LENGTH);
+  const key = deriveKey(secret, salt, KDF_ROUNDS);
+  const { encrypted, nonce } = naclEncrypt(stringToU8a(JSON.stringify(data)), key);
+
+  const envelope: VaultEnvelope = {
+    v: VAULT_VERSION,
+    kdf: 'pbkdf2-sha512',
+    rounds: KDF_ROUNDS,
+    salt: u8aToHex(salt),
+    cipher: 'xsalsa20-poly1305',
+    nonce: u8aToHex(nonce),
+    ct: u8aToHex(encrypted),
+  };
+
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Decrypt a vault envelope. Legacy base64-encoded JSON (written before the
+ * vault existed) is accepted and reported via `legacy: true` so the caller
+ * can re-seal it.
+ * @throws If the secret is wrong or the envelope was tampered with
+ */
+export async function openVault<T = unknown>(sealed: string, secret: string): Promise<VaultOpenResult<T>> {
+  const envelope = parseEnvelope(sealed);
+
+  if (!envelope) {
+    const legacy = decodeLegacy<T>(sealed);
+    if (legacy === null) {
+      throw new Error('Unrecognised vault format');
+    }
+    return { data: legacy, legacy: true };
+  }
+
+  if (envelope.v !== VAULT_VERSION) {
+    throw new Error(`Unsupported vault version: ${envelope.v}`);
+  }
+
+  await cryptoWaitReady();
+
+  const key = deriveKey(secret, hexToU8a(envelope.salt), envelope.rounds);
+  const plain = naclDecrypt(hexToU8a(envelope.ct), hexToU8a(envelope.nonce), key);
+
+  if (!plain) {
+    throw new Error('Unable to decrypt vault: wrong secret or corrupted data');
+  }
+
+  return { data: JSON.parse(u8aToString(plain)) as T, legacy: false };
+}
+
+/**
+ * Check whether a stored value is a current vault envelope
+ */
+export function isVaultEnvelope(value: string): boolean {
+  return parseEnvelope(value) !== null;
+}
+
+function parseEnvelope(value: string): VaultEnvelope | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && 'v' in parsed && 'ct' in parsed && 'nonce' in parsed) {
+      return parsed as VaultEnvelope;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeLegacy<T>(value: string): T | null {
+  try {
+    return JSON.parse(atob(value)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ========================================
+// STORAGE HELPERS
+// ========================================
+
+function defaultStorage(): VaultStorage {
+  if (typeof localStorage === 'undefined') {
+    throw new Error('No storage available - pass a VaultStorage implementation');
+  }
+  return localStorage;
+}
+
+/**
+ * Seal a value and persist it under `key`
+ */
+export async function writeVault<T>(
+  key: string,
+  data: T,
+  secret: string,
+  storage: VaultStorage = defaultStorage()
+): Promise<void> {
+  const sealed = await sealVault(data, secret);
+  await storage.setItem(key, sealed);
+}
+
+/**
+ * Read and decrypt the value stored under `key`.
+ * Legacy entries are transparently migrated to the current envelope format.
+ * @returns The decrypted value, or null when nothing is stored
+ */
+export async function readVault<T = unknown>(
+  key: string,
+  secret: string,
+  storage: VaultStorage = defaultStorage()
+): Promise<T | null> {
+  const stored = await storage.getItem(key);
+  if (!stored) return null;
+
+  const { data, legacy } = await openVault<T>(stored, secret);
+
+  if (legacy) {
+    await writeVault(key, data, secret, storage);
+  }
+
+  return data;
+}
+
+/**
+ * Remove a vault entry
+ */
+export async function clearVault(
+  key: string,
+  storage: VaultStorage = defaultStorage()
+): Promise<void> {
+  await storage.removeItem(key);
+}
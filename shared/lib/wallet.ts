@@ -141,6 +141,15 @@ export const getAssetSymbol = (assetId: number): string => {
   return entry ? entry[0] : 'UNKNOWN';
 };
 
+/**
+ * Explorer page of an extrinsic
+ * @param txHash - Extrinsic hash
+ * @returns Explorer URL
+ */
+export const getExplorerTxUrl = (txHash: string): string => {
+  return `${EXPLORER_URLS.custom}/extrinsic/${txHash}`;
+};
+
 /**
  * Get current network endpoint based on VITE_NETWORK env
  * @returns WebSocket endpoint URL
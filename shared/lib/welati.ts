@@ -188,24 +188,35 @@ export async function getParliamentMembers(api: ApiPromise): Promise<ParliamentM
     return [];
   }
 
-  const memberList: ParliamentMember[] = [];
-  const accountIds = members.toJSON() as string[];
-
-  for (const accountId of accountIds) {
-    // In a real implementation, fetch detailed member info
-    // For now, return basic structure
-    memberList.push({
-      account: accountId,
-      electedAt: 0,
-      termEndsAt: 0,
-      votesParticipated: 0,
-      totalVotesEligible: 0,
-      participationRate: 0,
-      committees: [],
-    });
-  }
+  // Older runtimes store bare account ids; current ones store member records
+  const entries = members.toJSON() as (string | any)[];
+
+  return entries.map((entry) => {
+    if (typeof entry === 'string') {
+      return {
+        account: entry,
+        electedAt: 0,
+        termEndsAt: 0,
+        votesParticipated: 0,
+        totalVotesEligible: 0,
+        participationRate: 0,
+        committees: [],
+      };
+    }
+
+    const votesParticipated = entry.votesParticipated || 0;
+    const totalVotesEligible = entry.totalVotesEligible || 0;
 
-  return memberList;
+    return {
+      account: entry.account,
+      electedAt: entry.electedAt || 0,
+      termEndsAt: entry.termEndsAt || 0,
+      votesParticipated,
+      totalVotesEligible,
+      participationRate: totalVotesEligible > 0 ? (votesParticipated / totalVotesEligible) * 100 : 0,
+      committees: entry.committees || [],
+    };
+  });
 }
 
 /**
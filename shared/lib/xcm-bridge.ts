@@ -6,15 +6,23 @@
  */
 
 import { ApiPromise, WsProvider } from '@polkadot/api';
-import type { Signer } from '@polkadot/api/types';
+import type { Signer, SubmittableExtrinsic } from '@polkadot/api/types';
+import type { EventRecord } from '@polkadot/types/interfaces';
 
-// Westend Asset Hub endpoint
-export const ASSET_HUB_ENDPOINT = 'wss://westend-asset-hub-rpc.polkadot.io';
+// Westend Asset Hub endpoint (point at a chopsticks/zombienet fork for local testing)
+export const ASSET_HUB_ENDPOINT =
+  import.meta.env.VITE_ASSET_HUB_WS || 'wss://westend-asset-hub-rpc.polkadot.io';
 
 // Known Asset IDs
 export const ASSET_HUB_USDT_ID = 1984; // USDT on Asset Hub
 export const WUSDT_ASSET_ID = 1000;     // wUSDT on PezkuwiChain
 export const ASSET_HUB_PARACHAIN_ID = 1000;
+export const ASSET_HUB_ASSETS_PALLET_INDEX = 50;
+
+// The XCM pallet is named differently on relay chains and parachains
+const XCM_PALLETS = ['polkadotXcm', 'xcmPallet'];
+
+const DELIVERY_TIMEOUT_MS = 5 * 60 * 1000;
 
 /**
  * Bridge status information
@@ -25,6 +33,10 @@ export interface BridgeStatus {
   usdtMapping: number | null;
   assetHubConnected: boolean;
   wusdtExists: boolean;
+  xcmPalletAvailable: boolean;
+  parachainId: number | null;
+  /** XCM version negotiated with Asset Hub, null until set */
+  assetHubXcmVersion: number | null;
 }
 
 /**
@@ -38,12 +50,123 @@ export interface AssetHubUsdtInfo {
   supply: string;
 }
 
+// ========================================
+// XCM LOCATIONS
+// ========================================
+
+/** XCM versions we can build messages for (V5 chains accept V4) */
+export type XcmVersion = 3 | 4;
+
+export type XcmJunction =
+  | { Parachain: number }
+  | { PalletInstance: number }
+  | { GeneralIndex: number | string }
+  | { AccountId32: { id: string; network: null } };
+
+export interface XcmLocation {
+  parents: number;
+  interior: 'Here' | Record<string, XcmJunction | XcmJunction[]>;
+}
+
+/**
+ * Build a location for the given XCM version.
+ * V3 `MultiLocation` encodes X1 as a bare junction, V4 `Location` always uses arrays.
+ */
+export function xcmLocation(version: XcmVersion, parents: number, junctions: XcmJunction[]): XcmLocation {
+  if (junctions.length === 0) {
+    return { parents, interior: 'Here' };
+  }
+
+  const key = `X${junctions.length}`;
+  return {
+    parents,
+    interior: { [key]: version === 3 && junctions.length === 1 ? junctions[0] : junctions },
+  };
+}
+
+/**
+ * Build a fungible asset for the given XCM version
+ */
+export function xcmAsset(version: XcmVersion, location: XcmLocation, amount: string) {
+  return {
+    id: version === 3 ? { Concrete: location } : location,
+    fun: { Fungible: amount },
+  };
+}
+
+/**
+ * Wrap a value in its versioned enum (e.g. `{ V4: location }`)
+ */
+export function versioned<T>(version: XcmVersion, value: T): Record<string, T> {
+  return { [`V${version}`]: value };
+}
+
+/**
+ * Asset Hub USDT as seen from Asset Hub itself or from a sibling parachain
+ */
+export function usdtLocation(version: XcmVersion, from: 'asset-hub' | 'sibling'): XcmLocation {
+  const assetJunctions: XcmJunction[] = [
+    { PalletInstance: ASSET_HUB_ASSETS_PALLET_INDEX },
+    { GeneralIndex: ASSET_HUB_USDT_ID },
+  ];
+
+  return from === 'asset-hub'
+    ? xcmLocation(version, 0, assetJunctions)
+    : xcmLocation(version, 1, [{ Parachain: ASSET_HUB_PARACHAIN_ID }, ...assetJunctions]);
+}
+
+/**
+ * Sibling parachain location (relative to another parachain)
+ */
+export function siblingLocation(version: XcmVersion, paraId: number): XcmLocation {
+  return xcmLocation(version, 1, [{ Parachain: paraId }]);
+}
+
+function accountLocation(api: ApiPromise, version: XcmVersion, address: string): XcmLocation {
+  return xcmLocation(version, 0, [
+    { AccountId32: { id: api.createType('AccountId32', address).toHex(), network: null } },
+  ]);
+}
+
+/**
+ * Name of the XCM pallet on this chain, or null if there is none
+ */
+export function getXcmPallet(api: ApiPromise): string | null {
+  return XCM_PALLETS.find((name) => !!api.tx[name]?.limitedReserveTransferAssets) || null;
+}
+
+/**
+ * XCM version to build messages with: the chain's SafeXcmVersion,
+ * capped at the newest version we know how to encode
+ */
+export async function getXcmVersion(api: ApiPromise): Promise<XcmVersion> {
+  const pallet = getXcmPallet(api);
+  if (!pallet || !api.query[pallet]?.safeXcmVersion) return 3;
+
+  const safeVersion = await api.query[pallet].safeXcmVersion();
+  const value = safeVersion.toJSON() as number | null;
+  return value !== null && value >= 4 ? 4 : 3;
+}
+
+/**
+ * Parachain ID of a connected chain
+ */
+export async function getParachainId(api: ApiPromise): Promise<number> {
+  if (!api.query.parachainInfo?.parachainId) {
+    throw new Error('Chain is not a parachain (parachainInfo pallet missing)');
+  }
+
+  const paraId = await api.query.parachainInfo.parachainId();
+  return Number(paraId.toString());
+}
+
 /**
  * Connect to Asset Hub
+ * @param endpoint - Override for local forks (e.g. chopsticks on ws://127.0.0.1:8000)
  */
-export async function connectToAssetHub(): Promise<ApiPromise> {
+export async function connectToAssetHub(endpoint: string = ASSET_HUB_ENDPOINT): Promise<ApiPromise> {
   try {
-    const provider = new WsProvider(ASSET_HUB_ENDPOINT);
+    const provider = new WsProvider(endpoint);
     const api = await ApiPromise.create({ provider });
     await api.isReady;
 
@@ -95,11 +218,26 @@ export async function fetchAssetHubUsdtInfo(
   }
 }
 
+/**
+ * XCM version PezkuwiChain has negotiated with Asset Hub, or null
+ */
+async function getAssetHubXcmVersion(api: ApiPromise, pallet: string): Promise<number | null> {
+  if (!api.query[pallet]?.supportedVersion) return null;
+
+  const version = await getXcmVersion(api);
+  const location = versioned(version, siblingLocation(version, ASSET_HUB_PARACHAIN_ID));
+  const supported = await api.query[pallet].supportedVersion(version, location);
+  return supported.toJSON() as number | null;
+}
+
 /**
  * Check current XCM bridge configuration status
+ * @param api - PezkuwiChain API
+ * @param assetHubApi - Existing Asset Hub connection (a temporary one is opened otherwise)
  */
 export async function checkBridgeStatus(
-  api: ApiPromise
+  api: ApiPromise,
+  assetHubApi?: ApiPromise
 ): Promise<BridgeStatus> {
   try {
     // Check if wUSDT asset exists
@@ -108,18 +246,25 @@ export async function checkBridgeStatus(
 
     // Try to connect to Asset Hub
     let assetHubConnected = false;
-    try {
-      const assetHubApi = await connectToAssetHub();
+    if (assetHubApi) {
       assetHubConnected = assetHubApi.isConnected;
-      await assetHubApi.disconnect();
-    } catch {
-      assetHubConnected = false;
+    } else {
+      try {
+        const tempApi = await connectToAssetHub();
+        assetHubConnected = tempApi.isConnected;
+        await tempApi.disconnect();
+      } catch {
+        assetHubConnected = false;
+      }
     }
 
-    // TODO: Check XCM configuration
-    // This requires checking the runtime configuration
-    // For now, we'll return a basic status
-    const isConfigured = false; // Will be updated when XCM pallet is available
+    const pallet = getXcmPallet(api);
+    const parachainId = api.query.parachainInfo ? await getParachainId(api) : null;
+    const assetHubXcmVersion = pallet ? await getAssetHubXcmVersion(api, pallet) : null;
+
+    // The USDT → wUSDT mapping itself is part of the runtime's XCM config;
+    // what can be checked on-chain is the pallet, the asset and version negotiation
+    const isConfigured = !!pallet && wusdtExists && parachainId !== null && assetHubXcmVersion !== null;
 
     return {
       isConfigured,
@@ -127,6 +272,9 @@ export async function checkBridgeStatus(
       usdtMapping: isConfigured ? WUSDT_ASSET_ID : null,
       assetHubConnected,
       wusdtExists,
+      xcmPalletAvailable: !!pallet,
+      parachainId,
+      assetHubXcmVersion,
     };
   } catch (error) {
     console.error('Failed to check bridge status:', error);
@@ -136,14 +284,79 @@ export async function checkBridgeStatus(
       usdtMapping: null,
       assetHubConnected: false,
       wusdtExists: false,
+      xcmPalletAvailable: false,
+      parachainId: null,
+      assetHubXcmVersion: null,
     };
   }
 }
 
+/**
+ * Sign, send and resolve with the in-block hash, rejecting on dispatch
+ * errors and when the pool drops, invalidates or replaces the transaction
+ */
+function sendAndWaitInBlock(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<'promise'>,
+  signer: Signer,
+  account: string,
+  onInBlock?: (blockHash: string, events: EventRecord[]) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | undefined;
+    let done = false;
+
+    const finish = (fn: () => void) => {
+      if (done) return;
+      done = true;
+      unsubscribe?.();
+      fn();
+    };
+
+    tx.signAndSend(account, { signer }, ({ status, dispatchError, events }) => {
+      if (status.isDropped || status.isInvalid || status.isUsurped) {
+        finish(() => reject(new Error(`Transaction ${status.type.toLowerCase()}`)));
+        return;
+      }
+      if (!status.isInBlock) return;
+
+      if (dispatchError) {
+        if (dispatchError.isModule) {
+          const decoded = api.registry.findMetaError(dispatchError.asModule);
+          finish(() => reject(new Error(`${decoded.section}.${decoded.name}: ${decoded.docs.join(' ')}`)));
+        } else {
+          finish(() => reject(new Error(dispatchError.toString())));
+        }
+        return;
+      }
+
+      const blockHash = status.asInBlock.toHex();
+      finish(() => {
+        try {
+          onInBlock?.(blockHash, events);
+          resolve(blockHash);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    })
+      .then((unsub) => {
+        unsubscribe = unsub;
+        if (done) unsub();
+      })
+      .catch((error) => finish(() => reject(error)));
+  });
+}
+
 /**
  * Configure XCM bridge (requires sudo access)
  *
- * This sets up the ForeignAssetTransactor to map Asset Hub USDT → wUSDT
+ * Pins the XCM version used with Asset Hub and subscribes to its
+ * version notifications, so reserve transfers can be sent before
+ * automatic version discovery has happened. The USDT → wUSDT asset
+ * mapping is part of the runtime's XCM config and is not changed here.
+ *
+ * @returns Block hash the configuration was included in
  */
 export async function configureXcmBridge(
   api: ApiPromise,
@@ -155,44 +368,341 @@ export async function configureXcmBridge(
     throw new Error('Sudo pallet not available');
   }
 
+  const pallet = getXcmPallet(api);
+  if (!pallet) {
+    throw new Error('XCM pallet not available in runtime');
+  }
+
   try {
     onStatusUpdate?.('Preparing XCM configuration...');
 
-    // Create Asset Hub location
-    const assetHubLocation = {
-      parents: 1,
-      interior: {
-        X2: [
-          { Parachain: ASSET_HUB_PARACHAIN_ID },
-          { GeneralIndex: ASSET_HUB_USDT_ID }
-        ]
+    // forceXcmVersion takes the runtime's latest (unversioned) Location,
+    // forceSubscribeVersionNotify a versioned one
+    const latestType = api.tx[pallet].forceXcmVersion.meta.args[0].type.toString();
+    const latest: XcmVersion = latestType.includes('V3') ? 3 : 4;
+    const version = await getXcmVersion(api);
+
+    const configTx = api.tx.sudo.sudo(
+      api.tx.utility.batchAll([
+        api.tx[pallet].forceXcmVersion(siblingLocation(latest, ASSET_HUB_PARACHAIN_ID), version),
+        api.tx[pallet].forceSubscribeVersionNotify(
+          versioned(version, siblingLocation(version, ASSET_HUB_PARACHAIN_ID))
+        ),
+      ])
+    );
+
+    onStatusUpdate?.('Waiting for signature...');
+
+    return await sendAndWaitInBlock(api, configTx, signer, account, (blockHash, events) => {
+      const sudid = events.find(({ event }) => api.events.sudo?.Sudid?.is(event));
+      const result = sudid?.event.data[0] as { isErr?: boolean } | undefined;
+      if (result?.isErr) {
+        throw new Error('Sudo call failed');
+      }
+      onStatusUpdate?.(`Configuration included in block ${blockHash.slice(0, 10)}...`);
+    });
+  } catch (error) {
+    console.error('Failed to configure XCM bridge:', error);
+    throw new Error(`XCM configuration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// ========================================
+// RESERVE TRANSFERS
+// ========================================
+
+/**
+ * deposit: Asset Hub USDT → PezkuwiChain wUSDT
+ * withdraw: PezkuwiChain wUSDT → Asset Hub USDT
+ */
+export type BridgeDirection = 'deposit' | 'withdraw';
+
+export interface XcmTransferRequest {
+  direction: BridgeDirection;
+  /** Raw amount (6 decimals) */
+  amount: string;
+  /** Receiving account on the destination chain */
+  beneficiary: string;
+}
+
+export interface XcmFeeEstimate {
+  /** Transaction fee on the source chain, in its native token */
+  sourceFee: string;
+  /** Execution fee on the destination, in USDT; null if the chain can't tell */
+  destinationFee: string | null;
+  destinationWeight: { refTime: string; proofSize: string } | null;
+}
+
+export type XcmTransferStage = 'signing' | 'in-block' | 'sent' | 'completed' | 'failed';
+
+export interface XcmTransferProgress {
+  stage: XcmTransferStage;
+  sourceBlockHash?: string;
+  /** SetTopic id, reported as the message id on both chains */
+  messageId?: string;
+  /** XCMP message hash on the source chain */
+  messageHash?: string;
+  destinationBlockHash?: string;
+  error?: string;
+}
+
+/**
+ * Build the `limitedReserveTransferAssets` call for a bridge transfer.
+ * Asset Hub is the USDT reserve: deposits are local-reserve transfers
+ * from Asset Hub, withdrawals are destination-reserve transfers back to it.
+ * @param sourceApi - Asset Hub for deposits, PezkuwiChain for withdrawals
+ * @param pezkuwiParaId - PezkuwiChain parachain ID
+ */
+export async function buildReserveTransferTx(
+  sourceApi: ApiPromise,
+  pezkuwiParaId: number,
+  request: XcmTransferRequest
+): Promise<SubmittableExtrinsic<'promise'>> {
+  const pallet = getXcmPallet(sourceApi);
+  if (!pallet) {
+    throw new Error('XCM pallet not available on source chain');
+  }
+
+  const version = await getXcmVersion(sourceApi);
+  const isDeposit = request.direction === 'deposit';
+
+  const dest = siblingLocation(version, isDeposit ? pezkuwiParaId : ASSET_HUB_PARACHAIN_ID);
+  const beneficiary = accountLocation(sourceApi, version, request.beneficiary);
+  const asset = xcmAsset(version, usdtLocation(version, isDeposit ? 'asset-hub' : 'sibling'), request.amount);
+
+  return sourceApi.tx[pallet].limitedReserveTransferAssets(
+    versioned(version, dest),
+    versioned(version, beneficiary),
+    versioned(version, [asset]),
+    0, // fee asset item: USDT pays for execution on the destination
+    'Unlimited'
+  );
+}
+
+/**
+ * The message the destination chain executes for a transfer, from its
+ * point of view. Used to ask the destination for weight and fee.
+ */
+function destinationXcm(api: ApiPromise, version: XcmVersion, request: XcmTransferRequest) {
+  const isDeposit = request.direction === 'deposit';
+  const asset = xcmAsset(version, usdtLocation(version, isDeposit ? 'sibling' : 'asset-hub'), request.amount);
+
+  return versioned(version, [
+    isDeposit ? { ReserveAssetDeposited: [asset] } : { WithdrawAsset: [asset] },
+    { ClearOrigin: null },
+    { BuyExecution: { fees: asset, weightLimit: 'Unlimited' } },
+    { DepositAsset: { assets: { Wild: { AllCounted: 1 } }, beneficiary: accountLocation(api, version, request.beneficiary) } },
+  ]);
+}
+
+/**
+ * Estimate fees for a bridge transfer on both chains.
+ * The destination fee comes from its XcmPaymentApi, when available.
+ */
+export async function estimateTransferFees(
+  sourceApi: ApiPromise,
+  destApi: ApiPromise,
+  tx: SubmittableExtrinsic<'promise'>,
+  sender: string,
+  request: XcmTransferRequest
+): Promise<XcmFeeEstimate> {
+  const { partialFee } = await tx.paymentInfo(sender);
+  const estimate: XcmFeeEstimate = {
+    sourceFee: partialFee.toString(),
+    destinationFee: null,
+    destinationWeight: null,
+  };
+
+  const paymentApi = destApi.call.xcmPaymentApi;
+  if (!paymentApi) return estimate;
+
+  try {
+    const version = await getXcmVersion(destApi);
+    const weightResult = await paymentApi.queryXcmWeight(destinationXcm(destApi, version, request));
+    const weight = (weightResult.toJSON() as { ok?: { refTime: number; proofSize: number } }).ok;
+    if (!weight) return estimate;
+
+    estimate.destinationWeight = {
+      refTime: weight.refTime.toString(),
+      proofSize: weight.proofSize.toString(),
+    };
+
+    const usdt = usdtLocation(version, request.direction === 'deposit' ? 'sibling' : 'asset-hub');
+    const assetId = version === 3 ? { Concrete: usdt } : usdt;
+    const feeResult = await paymentApi.queryWeightToAssetFee(weight, versioned(version, assetId));
+    const fee = (feeResult.toJSON() as { ok?: number | string }).ok;
+    if (fee !== undefined) estimate.destinationFee = BigInt(fee).toString();
+  } catch (error) {
+    console.warn('Destination fee estimate unavailable:', error);
+  }
+
+  return estimate;
+}
+
+/**
+ * Pull the XCM message id / XCMP hash out of the source chain's events
+ */
+function findSentMessage(events: EventRecord[]): { messageId?: string; messageHash?: string } {
+  const result: { messageId?: string; messageHash?: string } = {};
+
+  for (const { event } of events) {
+    if (XCM_PALLETS.includes(event.section) && event.method === 'Sent') {
+      // Sent { origin, destination, message, message_id }
+      result.messageId = event.data[3]?.toString();
+    }
+    if (event.section === 'xcmpQueue' && event.method === 'XcmpMessageSent') {
+      result.messageHash = event.data[0]?.toString();
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Match a destination-chain event against a sent message.
+ * Returns true/false for processed/failed, null for unrelated events.
+ */
+function matchDeliveryEvent(
+  { event }: EventRecord,
+  message: { messageId?: string; messageHash?: string }
+): boolean | null {
+  const ids = [message.messageId, message.messageHash].filter(Boolean);
+  const data = event.data.map((value) => value.toString());
+
+  if (event.section === 'messageQueue') {
+    // Processed { id, origin, weight_used, success } / ProcessingFailed { id, origin, error }
+    if (!ids.includes(data[0])) return null;
+    if (event.method === 'Processed') return data[3] === 'true';
+    if (event.method === 'ProcessingFailed') return false;
+  }
+
+  if (event.section === 'xcmpQueue') {
+    // Older runtimes: Success/Fail { message_hash, message_id, ... }
+    if (!ids.includes(data[0]) && !ids.includes(data[1])) return null;
+    if (event.method === 'Success') return true;
+    if (event.method === 'Fail') return false;
+  }
+
+  return null;
+}
+
+/**
+ * Watch the destination chain until the message is executed in a finalized
+ * block. Head notifications can skip blocks, so every block between
+ * consecutive finalized heads is scanned.
+ * @param destApi - Destination chain API
+ * @param message - Ids from the source chain's events
+ * @param timeoutMs - Give up after this long (default 5 minutes)
+ */
+export async function trackXcmMessage(
+  destApi: ApiPromise,
+  message: { messageId?: string; messageHash?: string },
+  timeoutMs: number = DELIVERY_TIMEOUT_MS
+): Promise<{ success: boolean; blockHash: string }> {
+  if (!message.messageId && !message.messageHash) {
+    throw new Error('No XCM message id to track');
+  }
+
+  return new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | undefined;
+    let done = false;
+
+    const finish = (fn: () => void) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+      fn();
+    };
+
+    const timer = setTimeout(
+      () => finish(() => reject(new Error('Timed out waiting for the destination chain'))),
+      timeoutMs
+    );
+
+    // First finalized block not scanned yet; scans run one at a time
+    let next: number | undefined;
+    let scanning = Promise.resolve();
+
+    const scan = async (head: number) => {
+      for (let number = next ?? head; number <= head && !done; number++) {
+        const blockHash = (await destApi.rpc.chain.getBlockHash(number)).toHex();
+        const apiAt = await destApi.at(blockHash);
+        const events = (await apiAt.query.system.events()) as unknown as EventRecord[];
+
+        for (const record of events) {
+          const matched = matchDeliveryEvent(record, message);
+          if (matched !== null) {
+            finish(() => resolve({ success: matched, blockHash }));
+            return;
+          }
+        }
+        next = number + 1;
       }
     };
 
-    // Note: This is a placeholder for the actual XCM configuration
-    // The actual implementation depends on the runtime's XCM configuration pallet
-    // For now, we'll document the expected transaction structure
+    destApi.rpc.chain
+      .subscribeFinalizedHeads((header) => {
+        const head = header.number.toNumber();
+        // A failed read is retried from the same block on the next head
+        scanning = scanning
+          .then(() => scan(head))
+          .catch((error) => console.warn('Failed to read destination block:', error));
+      })
+      .then((unsub) => {
+        unsubscribe = unsub;
+        if (done) unsub();
+      })
+      .catch((error) => finish(() => reject(error)));
+  });
+}
 
-    console.log('XCM Configuration (Placeholder):', {
-      assetHubLocation,
-      wusdtAssetId: WUSDT_ASSET_ID,
-      note: 'Actual implementation requires XCM config pallet in runtime'
-    });
+/**
+ * Submit a bridge transfer and follow it across both chains
+ * @param sourceApi - Chain the transfer is signed on
+ * @param destApi - Chain that receives the assets
+ * @param tx - Call from buildReserveTransferTx
+ * @param onProgress - Stage updates (signing → in-block → sent → completed)
+ * @returns Final progress (completed or failed)
+ */
+export async function submitXcmTransfer(
+  sourceApi: ApiPromise,
+  destApi: ApiPromise,
+  tx: SubmittableExtrinsic<'promise'>,
+  signer: Signer,
+  account: string,
+  onProgress?: (progress: XcmTransferProgress) => void
+): Promise<XcmTransferProgress> {
+  let progress: XcmTransferProgress = { stage: 'signing' };
+  const update = (next: Partial<XcmTransferProgress>) => {
+    progress = { ...progress, ...next };
+    onProgress?.(progress);
+  };
 
-    onStatusUpdate?.('Waiting for user signature...');
+  update({});
 
-    // TODO: Implement actual XCM configuration when pallet is available
-    // const configTx = api.tx.sudo.sudo(
-    //   api.tx.xcmConfig.configureForeignAsset(assetHubLocation, WUSDT_ASSET_ID)
-    // );
+  try {
+    let message: { messageId?: string; messageHash?: string } = {};
 
-    // For now, return a placeholder
-    return 'XCM configuration transaction placeholder - requires runtime XCM config pallet';
+    const sourceBlockHash = await sendAndWaitInBlock(sourceApi, tx, signer, account, (_hash, events) => {
+      message = findSentMessage(events);
+    });
+    update({ stage: 'in-block', sourceBlockHash });
 
+    if (!message.messageId && !message.messageHash) {
+      throw new Error('Transfer was included but no XCM message was sent');
+    }
+    update({ stage: 'sent', ...message });
+
+    const delivery = await trackXcmMessage(destApi, message);
+    update(delivery.success
+      ? { stage: 'completed', destinationBlockHash: delivery.blockHash }
+      : { stage: 'failed', destinationBlockHash: delivery.blockHash, error: 'Message failed on the destination chain' });
   } catch (error) {
-    console.error('Failed to configure XCM bridge:', error);
-    throw new Error(`XCM configuration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    update({ stage: 'failed', error: error instanceof Error ? error.message : 'Transfer failed' });
   }
+
+  return progress;
 }
 
 /**
@@ -317,9 +827,14 @@ export function formatXcmLocation(location: any): string {
 
   try {
     if (location.parents !== undefined) {
-      const junctions = location.interior?.X2 || location.interior?.X1 || [];
+      // V3 encodes X1 as a bare junction, V4+ always as an array
+      const interior = location.interior || {};
+      const key = Object.keys(interior).find((k) => /^X\d$/.test(k));
+      const raw = key ? interior[key] : [];
+      const junctions = Array.isArray(raw) ? raw : [raw];
       return `RelayChain → ${junctions.map((j: any) => {
         if (j.Parachain) return `Para(${j.Parachain})`;
+        if (j.PalletInstance !== undefined) return `Pallet(${j.PalletInstance})`;
         if (j.GeneralIndex) return `Asset(${j.GeneralIndex})`;
         return JSON.stringify(j);
       }).join(' → ')}`;
@@ -0,0 +1,480 @@
+// ========================================
+// Identity Proofs (Merkle Selective Disclosure)
+// ========================================
+// Lets a citizen prove statements such as "is a verified citizen",
+// "is over 18" or "lives in region X" without revealing the KYC record.
+//
+// Scheme (pezkuwi-merkle-disclosure-v2):
+// - Each credential claim is a salted leaf: H(domain || claim || value || salt)
+// - The credential root is the Merkle root over all claim leaves
+// - The issuer (KYC council key) signs the credential root together with the
+//   holder's address; verifiers only accept issuers they trust
+// - The KYC council publishes a registry root: Merkle root over credential roots
+// - A proof reveals only the requested claims (value + salt + path to the
+//   credential root) plus the credential root's path to the registry root,
+//   and the holder signs the verifier's challenge with the credential's key,
+//   so a proof cannot be replayed against another challenge
+//
+// Hidden claims stay hidden (salted hash preimages), but the credential root
+// and holder are revealed, so two proofs from the same citizen are linkable. Unlinkable
+// proofs require a SNARK backend (Groth16/PLONK) and can replace this scheme
+// behind the same IdentityProof interface.
+
+import { hexToU8a, stringToU8a, u8aConcat, u8aToHex } from '@polkadot/util';
+import { blake2AsHex, decodeAddress, randomAsHex, signatureVerify } from '@polkadot/util-crypto';
+
+// ========================================
+// TYPE DEFINITIONS
+// ========================================
+
+export const PROOF_SCHEME = 'pezkuwi-merkle-disclosure-v2';
+
+export type CredentialClaim = 'citizen' | 'ageOver18' | 'region' | 'kycLevel';
+
+/** Fixed claim order; leaf indices depend on it */
+export const CREDENTIAL_CLAIMS: CredentialClaim[] = ['citizen', 'ageOver18', 'region', 'kycLevel'];
+
+export interface IdentityCredential {
+  claims: Record<CredentialClaim, string>;
+  salts: Record<CredentialClaim, string>;
+  root: string;
+  /** Address whose key signs proofs from this credential */
+  holder: string;
+  issuer: string;
+  /** Issuer signature over the root and holder (see hashIssuance) */
+  issuerSignature: string;
+}
+
+/** Issuing key, e.g. a KeyringPair held by the KYC council */
+export interface CredentialIssuer {
+  address: string;
+  sign(message: Uint8Array): Uint8Array;
+}
+
+/** Signs a hex message with the holder's key, e.g. a wallet's signRaw */
+export type ProofSigner = (message: string) => Promise<string>;
+
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+export interface MerkleTree {
+  root: string;
+  layers: string[][];
+}
+
+export type ProofPredicate =
+  | { claim: 'citizen' }
+  | { claim: 'ageOver18' }
+  | { claim: 'region'; equals: string }
+  | { claim: 'kycLevel'; equals: string };
+
+export interface ProofRequest {
+  predicates: ProofPredicate[];
+  /** Verifier-chosen nonce, binds the proof to one session/context */
+  challenge: string;
+}
+
+export interface ClaimDisclosure {
+  claim: CredentialClaim;
+  value: string;
+  salt: string;
+  path: MerkleStep[];
+}
+
+export interface IdentityProof {
+  scheme: typeof PROOF_SCHEME;
+  registryRoot: string;
+  credentialRoot: string;
+  membership: MerkleStep[];
+  disclosures: ClaimDisclosure[];
+  challenge: string;
+  holder: string;
+  issuer: string;
+  issuerSignature: string;
+  /** Holder signature over getProofBindingMessage */
+  holderSignature: string;
+}
+
+export interface ProofTrust {
+  registryRoots: string[];
+  issuers: string[];
+}
+
+export interface ProofVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+// ========================================
+// HASHING
+// ========================================
+
+const LEAF_DOMAIN = 'pezkuwi/credential-leaf/v1';
+const NODE_PREFIX = new Uint8Array([1]);
+const BINDING_DOMAIN = 'pezkuwi/proof-binding/v2';
+const ISSUANCE_DOMAIN = 'pezkuwi/credential-issuance/v1';
+
+/**
+ * Hash a single credential claim
+ */
+export function hashClaimLeaf(claim: CredentialClaim, value: string, salt: string): string {
+  return blake2AsHex(
+    u8aConcat(
+      stringToU8a(LEAF_DOMAIN),
+      stringToU8a(claim),
+      new Uint8Array([0]),
+      stringToU8a(value),
+      hexToU8a(salt)
+    ),
+    256
+  );
+}
+
+function hashNode(left: string, right: string): string {
+  return blake2AsHex(u8aConcat(NODE_PREFIX, hexToU8a(left), hexToU8a(right)), 256);
+}
+
+function hashIssuance(credentialRoot: string, holder: string): string {
+  return blake2AsHex(
+    u8aConcat(stringToU8a(ISSUANCE_DOMAIN), hexToU8a(credentialRoot), decodeAddress(holder)),
+    256
+  );
+}
+
+/**
+ * Message the holder signs to bind a proof to one challenge
+ */
+export function getProofBindingMessage(credentialRoot: string, registryRoot: string, challenge: string): string {
+  return blake2AsHex(
+    u8aConcat(
+      stringToU8a(BINDING_DOMAIN),
+      hexToU8a(credentialRoot),
+      hexToU8a(registryRoot),
+      stringToU8a(challenge)
+    ),
+    256
+  );
+}
+
+function isTrustedIssuer(issuer: string, trustedIssuers: string[]): boolean {
+  try {
+    const key = u8aToHex(decodeAddress(issuer));
+    return trustedIssuers.some(trusted => u8aToHex(decodeAddress(trusted)) === key);
+  } catch {
+    return false;
+  }
+}
+
+function isSignedBy(message: string, signature: string, address: string): boolean {
+  try {
+    return signatureVerify(message, signature, address).isValid;
+  } catch {
+    return false;
+  }
+}
+
+// ========================================
+// MERKLE TREE
+// ========================================
+
+/**
+ * Build a binary Merkle tree. An odd node at the end of a layer is promoted
+ * unchanged to the next layer.
+ */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const layers: string[][] = [leaves.map(leaf => leaf.toLowerCase())];
+
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashNode(current[i], current[i + 1]) : current[i]);
+    }
+
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/**
+ * Get the authentication path for the leaf at `index`
+ */
+export function getMerkleProof(tree: MerkleTree, index: number): MerkleStep[] {
+  if (index < 0 || index >= tree.layers[0].length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const path: MerkleStep[] = [];
+  let position = index;
+
+  for (let level = 0; level < tree.layers.length - 1; level++) {
+    const layer = tree.layers[level];
+    const isRight = position % 2 === 1;
+    const siblingIndex = isRight ? position - 1 : position + 1;
+
+    if (siblingIndex < layer.length) {
+      path.push({ hash: layer[siblingIndex], position: isRight ? 'left' : 'right' });
+    }
+
+    position = Math.floor(position / 2);
+  }
+
+  return path;
+}
+
+/**
+ * Recompute the root from a leaf and its path
+ */
+export function verifyMerkleProof(leaf: string, path: MerkleStep[], root: string): boolean {
+  const computed = path.reduce(
+    (node, step) => (step.position === 'left' ? hashNode(step.hash, node) : hashNode(node, step.hash)),
+    leaf.toLowerCase()
+  );
+
+  return computed === root.toLowerCase();
+}
+
+// ========================================
+// CREDENTIALS & REGISTRY
+// ========================================
+
+/** KYC council keys whose credentials are trusted, as "address,address2" */
+export const TRUSTED_CREDENTIAL_ISSUERS = (import.meta.env.VITE_CREDENTIAL_ISSUERS || '')
+  .split(',')
+  .map((address: string) => address.trim())
+  .filter(Boolean);
+
+/**
+ * Issue a credential from attested claims to a holder (done by the KYC
+ * council on approval, with the council's key; never by the holder).
+ * Missing claims are filled with 'false' / '' so every credential has the same shape.
+ */
+export function issueCredential(
+  claims: Partial<Record<CredentialClaim, string>>,
+  holder: string,
+  issuer: CredentialIssuer
+): IdentityCredential {
+  const fullClaims = {} as Record<CredentialClaim, string>;
+  const salts = {} as Record<CredentialClaim, string>;
+
+  for (const claim of CREDENTIAL_CLAIMS) {
+    fullClaims[claim] = claims[claim] ?? (claim === 'citizen' || claim === 'ageOver18' ? 'false' : '');
+    salts[claim] = randomAsHex(32);
+  }
+
+  const tree = buildCredentialTree(fullClaims, salts);
+
+  return {
+    claims: fullClaims,
+    salts,
+    root: tree.root,
+    holder,
+    issuer: issuer.address,
+    issuerSignature: u8aToHex(issuer.sign(hexToU8a(hashIssuance(tree.root, holder)))),
+  };
+}
+
+/**
+ * Whether a credential is intact and signed by one of the trusted issuers
+ */
+export function verifyCredential(credential: IdentityCredential, trustedIssuers: string[]): boolean {
+  try {
+    return (
+      buildCredentialTree(credential.claims, credential.salts).root === credential.root &&
+      isTrustedIssuer(credential.issuer, trustedIssuers) &&
+      isSignedBy(hashIssuance(credential.root, credential.holder), credential.issuerSignature, credential.issuer)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function buildCredentialTree(
+  claims: Record<CredentialClaim, string>,
+  salts: Record<CredentialClaim, string>
+): MerkleTree {
+  return buildMerkleTree(CREDENTIAL_CLAIMS.map(claim => hashClaimLeaf(claim, claims[claim], salts[claim])));
+}
+
+/**
+ * Build the citizen registry from all approved credential roots.
+ * Its root is what verifiers trust.
+ */
+export function buildCitizenRegistry(credentialRoots: string[]): MerkleTree {
+  return buildMerkleTree(credentialRoots);
+}
+
+/**
+ * Get a citizen's membership path in the registry
+ */
+export function getRegistryMembership(registry: MerkleTree, credentialRoot: string): MerkleStep[] {
+  const index = registry.layers[0].indexOf(credentialRoot.toLowerCase());
+  if (index === -1) {
+    throw new Error('Credential is not part of the registry');
+  }
+  return getMerkleProof(registry, index);
+}
+
+// ========================================
+// PROVE / VERIFY
+// ========================================
+
+function predicateHolds(predicate: ProofPredicate, value: string): boolean {
+  switch (predicate.claim) {
+    case 'citizen':
+    case 'ageOver18':
+      return value === 'true';
+    case 'region':
+    case 'kycLevel':
+      return value === predicate.equals;
+  }
+}
+
+/**
+ * Create a proof revealing only the claims named in the request, signed by
+ * the credential's holder over the request's challenge
+ * @param sign - Signs with the holder's key (credential.holder)
+ * @throws If the credential does not satisfy a requested predicate
+ */
+export async function createIdentityProof(
+  credential: IdentityCredential,
+  registryRoot: string,
+  membership: MerkleStep[],
+  request: ProofRequest,
+  sign: ProofSigner
+): Promise<IdentityProof> {
+  const tree = buildCredentialTree(credential.claims, credential.salts);
+
+  if (tree.root !== credential.root) {
+    throw new Error('Credential is corrupted: root mismatch');
+  }
+
+  const claims = Array.from(new Set(request.predicates.map(p => p.claim)));
+
+  for (const predicate of request.predicates) {
+    if (!predicateHolds(predicate, credential.claims[predicate.claim])) {
+      throw new Error(`Credential does not satisfy predicate: ${predicate.claim}`);
+    }
+  }
+
+  const disclosures = claims.map(claim => ({
+    claim,
+    value: credential.claims[claim],
+    salt: credential.salts[claim],
+    path: getMerkleProof(tree, CREDENTIAL_CLAIMS.indexOf(claim)),
+  }));
+
+  return {
+    scheme: PROOF_SCHEME,
+    registryRoot,
+    credentialRoot: credential.root,
+    membership,
+    disclosures,
+    challenge: request.challenge,
+    holder: credential.holder,
+    issuer: credential.issuer,
+    issuerSignature: credential.issuerSignature,
+    holderSignature: await sign(getProofBindingMessage(credential.root, registryRoot, request.challenge)),
+  };
+}
+
+/**
+ * Verify a proof against a request, the trusted registry roots and the
+ * trusted credential issuers
+ */
+export function verifyIdentityProof(
+  proof: IdentityProof,
+  request: ProofRequest,
+  trust: ProofTrust
+): ProofVerification {
+  try {
+    if (proof.scheme !== PROOF_SCHEME) {
+      return { valid: false, reason: `Unsupported proof scheme: ${proof.scheme}` };
+    }
+
+    if (proof.challenge !== request.challenge) {
+      return { valid: false, reason: 'Challenge mismatch' };
+    }
+
+    if (!isTrustedIssuer(proof.issuer, trust.issuers)) {
+      return { valid: false, reason: 'Credential issuer is not trusted' };
+    }
+
+    if (!isSignedBy(hashIssuance(proof.credentialRoot, proof.holder), proof.issuerSignature, proof.issuer)) {
+      return { valid: false, reason: 'Invalid issuer signature' };
+    }
+
+    const binding = getProofBindingMessage(proof.credentialRoot, proof.registryRoot, proof.challenge);
+    if (!isSignedBy(binding, proof.holderSignature, proof.holder)) {
+      return { valid: false, reason: 'Invalid holder signature' };
+    }
+
+    const trusted = trust.registryRoots.map(root => root.toLowerCase());
+    if (!trusted.includes(proof.registryRoot.toLowerCase())) {
+      return { valid: false, reason: 'Registry root is not trusted' };
+    }
+
+    if (!verifyMerkleProof(proof.credentialRoot, proof.membership, proof.registryRoot)) {
+      return { valid: false, reason: 'Credential is not in the citizen registry' };
+    }
+
+    for (const disclosure of proof.disclosures) {
+      const leaf = hashClaimLeaf(disclosure.claim, disclosure.value, disclosure.salt);
+      if (!verifyMerkleProof(leaf, disclosure.path, proof.credentialRoot)) {
+        return { valid: false, reason: `Invalid disclosure for claim: ${disclosure.claim}` };
+      }
+    }
+
+    for (const predicate of request.predicates) {
+      const disclosure = proof.disclosures.find(d => d.claim === predicate.claim);
+      if (!disclosure || !predicateHolds(predicate, disclosure.value)) {
+        return { valid: false, reason: `Predicate not satisfied: ${predicate.claim}` };
+      }
+    }
+
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message || 'Malformed proof' };
+  }
+}
+
+// ========================================
+// SERIALISATION
+// ========================================
+
+const PROOF_PREFIX = 'zk_';
+
+/**
+ * Encode a proof as a compact string for transport (forum posts, P2P, governance)
+ */
+export function encodeIdentityProof(proof: IdentityProof): string {
+  return PROOF_PREFIX + btoa(JSON.stringify(proof));
+}
+
+/**
+ * Decode a proof string; returns null when malformed
+ */
+export function decodeIdentityProof(encoded: string): IdentityProof | null {
+  if (!encoded?.startsWith(PROOF_PREFIX)) return null;
+
+  try {
+    return JSON.parse(atob(encoded.slice(PROOF_PREFIX.length))) as IdentityProof;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a random challenge for a proof request
+ */
+export function generateProofChallenge(): string {
+  return randomAsHex(32);
+}
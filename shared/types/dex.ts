@@ -17,6 +17,7 @@ export interface PoolInfo {
   reserve1: string; // Raw balance string
   reserve2: string;
   lpTokenSupply: string;
+  lpTokenId?: number; // poolAssets id of the LP token (assetConversion.pools)
   volume24h?: string;
   tvl?: string;
   apr7d?: string;
@@ -27,21 +28,70 @@ export interface UserLiquidityPosition {
   poolId: string;
   asset1: number;
   asset2: number;
+  lpTokenId: number;
   lpTokenBalance: string;
   shareOfPool: string; // Percentage as string (e.g., "2.5")
   asset1Amount: string;
   asset2Amount: string;
-  valueUSD?: string;
-  feesEarned?: string;
+  valueUSD?: string; // Current value, when prices are known
+  feesEarned?: string; // USD value of fees earned, when prices and cost basis are known
+  analysis?: LPPositionAnalysis; // Requires the account's liquidity events
+}
+
+// LiquidityAdded / LiquidityRemoved as recorded by the backend indexer
+export interface LiquidityEvent {
+  id: string;
+  block_number: number;
+  kind: 'add' | 'remove';
+  account: string;
+  asset1: string;
+  asset2: string;
+  amount1: string; // Raw balance string
+  amount2: string;
+  lp_token: string;
+  lp_amount: string; // LP tokens minted or burned
+  block_time: string;
+}
+
+// What the LP tokens still held cost to mint
+export interface LPCostBasis {
+  amount1: string; // Raw deposited amounts, reduced pro rata on removal
+  amount2: string;
+  lpTokens: string; // LP tokens the basis covers
+  sqrtInvariant: number; // Sum of sqrt(amount1 × amount2) per deposit, reduced pro rata
+}
+
+export interface LPPositionAnalysis {
+  deposited1: string; // Raw cost basis of the tracked LP tokens
+  deposited2: string;
+  fees1: string; // Raw fees earned, included in the current amounts
+  fees2: string;
+  impermanentLoss: number; // Percent, value without fees vs holding the deposit (<= 0)
+  coverage: number; // Share of the LP balance with a known cost basis (0-1)
+}
+
+export interface SwapRouteLeg {
+  path: number[]; // Asset IDs in route
+  amountIn: string;
+  amountOut: string;
+  minimumReceived: string; // After slippage
+  priceImpact: string; // Percentage as string
 }
 
 export interface SwapQuote {
   amountIn: string;
   amountOut: string;
-  path: number[]; // Asset IDs in route
+  path: number[]; // Asset IDs of the main (largest) leg
   priceImpact: string; // Percentage as string
-  minimumReceived: string; // After slippage
+  minimumReceived: string; // After slippage, summed over legs
   route: string; // Human readable (e.g., "wHEZ → PEZ → wUSDT")
+  legs: SwapRouteLeg[]; // One per parallel route; empty when no route exists
+  slippage: number; // Percentage used for minimumReceived
+}
+
+export interface SwapRouteOptions {
+  maxHops?: number; // Pools per route (default 3)
+  maxSplits?: number; // Parallel routes to split across (default 1 = no split)
 }
 
 export interface AddLiquidityParams {
@@ -91,8 +141,8 @@ export const KNOWN_TOKENS: Record<number, TokenInfo> = {
     name: 'Pezkuwi Token',
     decimals: 12,
   },
-  2: {
-    id: 2,
+  1000: {
+    id: 1000,
     symbol: 'wUSDT',
     name: 'Wrapped USDT',
     decimals: 6,
@@ -21,6 +21,7 @@ export interface PoolInfo {
   reserve1: string; // Raw balance string
   reserve2: string;
   lpTokenSupply: string;
+  lpTokenId?: number; // poolAssets id of the LP token (assetConversion.pools)
   volume24h?: string;
   tvl?: string;
   apr7d?: string;
@@ -39,13 +40,28 @@ export interface UserLiquidityPosition {
   feesEarned?: string;
 }
 
+export interface SwapRouteLeg {
+  path: number[]; // Asset IDs in route
+  amountIn: string;
+  amountOut: string;
+  minimumReceived: string; // After slippage
+  priceImpact: string; // Percentage as string
+}
+
 export interface SwapQuote {
   amountIn: string;
   amountOut: string;
-  path: number[]; // Asset IDs in route
+  path: number[]; // Asset IDs of the main (largest) leg
   priceImpact: string; // Percentage as string
-  minimumReceived: string; // After slippage
+  minimumReceived: string; // After slippage, summed over legs
   route: string; // Human readable (e.g., "wHEZ → PEZ → wUSDT")
+  legs: SwapRouteLeg[]; // One per parallel route; empty when no route exists
+  slippage: number; // Percentage used for minimumReceived
+}
+
+export interface SwapRouteOptions {
+  maxHops?: number; // Pools per route (default 3)
+  maxSplits?: number; // Parallel routes to split across (default 1 = no split)
 }
 
 export interface AddLiquidityParams {
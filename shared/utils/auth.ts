@@ -102,3 +102,16 @@ export const getUserRole = (
   if (isFounderWallet(address, sudoKey)) return 'Sudo (Admin)';
   return 'User';
 };
+
+/**
+ * Message for a wallet-signed backend request: `<action>:<timestamp>:<nonce>`.
+ * The backend only accepts it for a few minutes and only once
+ * (backend/src/signed-requests.js).
+ * @param action - Route action, e.g. `releaseEscrow:<tradeId>`
+ */
+export const buildSignedRequestMessage = (action: string): string => {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+  return `${action}:${Date.now()}:${nonce}`;
+};
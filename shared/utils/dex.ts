@@ -1,5 +1,18 @@
 import { ApiPromise } from '@polkadot/api';
-import { KNOWN_TOKENS, PoolInfo, SwapQuote, UserLiquidityPosition } from '@pezkuwi/types/dex';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import { stringToU8a } from '@polkadot/util';
+import { blake2AsU8a } from '@polkadot/util-crypto';
+import {
+  KNOWN_TOKENS,
+  LiquidityEvent,
+  LPCostBasis,
+  LPPositionAnalysis,
+  PoolInfo,
+  SwapQuote,
+  SwapRouteLeg,
+  SwapRouteOptions,
+  UserLiquidityPosition,
+} from '@pezkuwi/types/dex';
 
 /**
  * Format balance with proper decimals
@@ -139,6 +152,32 @@ export const quote = (
   return ((amount2Big * reserve1Big) / reserve2Big).toString();
 };
 
+/**
+ * Account holding a pool's reserves (AccountIdConverter: blake2_256 of
+ * the SCALE-encoded ("py/ascon", (asset1, asset2)) tuple)
+ */
+export const getPoolAccount = (api: ApiPromise, asset1: number, asset2: number) => {
+  const palletId = api.createType('[u8; 8]', stringToU8a('py/ascon'));
+  const poolId = api.createType('(u32, u32)', [asset1, asset2]);
+  const fullTuple = api.createType('([u8; 8], (u32, u32))', [palletId, poolId]);
+  return api.createType('AccountId32', blake2AsU8a(fullTuple.toU8a(), 256));
+};
+
+/**
+ * poolAssets id of a pool's LP token, or null if the pool does not exist
+ */
+export const fetchPoolLpTokenId = async (
+  api: ApiPromise,
+  asset1: number,
+  asset2: number
+): Promise<number | null> => {
+  const poolInfo = await api.query.assetConversion.pools([asset1, asset2]);
+  if (poolInfo.isNone) return null;
+
+  const { lpToken } = poolInfo.unwrap().toJSON() as { lpToken: number };
+  return Number(lpToken);
+};
+
 /**
  * Fetch all existing pools from chain
  * @param api - Polkadot API instance
@@ -147,68 +186,34 @@ export const fetchPools = async (api: ApiPromise): Promise<PoolInfo[]> => {
   try {
     const pools: PoolInfo[] = [];
 
-    // Query all pool accounts
-    const poolKeys = await api.query.assetConversion.pools.keys();
+    // LPFee is per mille (the runtime applies amount_in * (1000 - LPFee))
+    const lpFee = api.consts.assetConversion?.lpFee;
+    const feeRate = lpFee ? (Number(lpFee.toString()) / 10).toString() : '0.3';
+
+    // Query all pools
+    const poolEntries = await api.query.assetConversion.pools.entries();
+
+    for (const [key, poolInfo] of poolEntries) {
+      if (poolInfo.isNone) continue;
 
-    for (const key of poolKeys) {
       // Extract asset IDs from storage key
-      const [asset1Raw, asset2Raw] = key.args;
+      const [asset1Raw, asset2Raw] = key.args.length === 1 ? key.args[0] : key.args;
       const asset1 = Number(asset1Raw.toString());
       const asset2 = Number(asset2Raw.toString());
-
-      // Get pool account
-      const poolAccount = await api.query.assetConversion.pools([asset1, asset2]);
-
-      if (poolAccount.isNone) continue;
+      const poolAccount = getPoolAccount(api, asset1, asset2);
 
       // Get reserves
-      const reserve1Data = await api.query.assets.account(asset1, poolAccount.unwrap());
-      const reserve2Data = await api.query.assets.account(asset2, poolAccount.unwrap());
+      const reserve1Data = await api.query.assets.account(asset1, poolAccount);
+      const reserve2Data = await api.query.assets.account(asset2, poolAccount);
 
       const reserve1 = reserve1Data.isSome ? reserve1Data.unwrap().balance.toString() : '0';
       const reserve2 = reserve2Data.isSome ? reserve2Data.unwrap().balance.toString() : '0';
 
-      // Get LP token supply
-      // Substrate's asset-conversion pallet creates LP tokens using poolAssets pallet
-      // The LP token ID can be derived from the pool's asset pair
-      // Try to query using poolAssets first, fallback to calculating total from reserves
-      let lpTokenSupply = '0';
-      try {
-        // First attempt: Use poolAssets if available
-        if (api.query.poolAssets && api.query.poolAssets.asset) {
-          // LP token ID in poolAssets is typically the pool pair encoded
-          // Try a simple encoding: combine asset IDs
-          const lpTokenId = (asset1 << 16) | asset2; // Simple bit-shift encoding
-          const lpAssetDetails = await api.query.poolAssets.asset(lpTokenId);
-          if (lpAssetDetails.isSome) {
-            lpTokenSupply = lpAssetDetails.unwrap().supply.toString();
-          }
-        }
-
-        // Second attempt: Calculate from reserves using constant product formula
-        // LP supply ≈ sqrt(reserve1 * reserve2) for initial mint
-        // For existing pools, we'd need historical data
-        if (lpTokenSupply === '0' && BigInt(reserve1) > BigInt(0) && BigInt(reserve2) > BigInt(0)) {
-          // Simplified calculation: geometric mean of reserves
-          // This is an approximation - actual LP supply should be queried from chain
-          const r1 = BigInt(reserve1);
-          const r2 = BigInt(reserve2);
-          const product = r1 * r2;
-
-          // Integer square root approximation
-          let sqrt = BigInt(1);
-          let prev = BigInt(0);
-          while (sqrt !== prev) {
-            prev = sqrt;
-            sqrt = (sqrt + product / sqrt) / BigInt(2);
-          }
-
-          lpTokenSupply = sqrt.toString();
-        }
-      } catch (error) {
-        console.warn('Could not query LP token supply:', error);
-        // Fallback to '0' is already set
-      }
+      // LP tokens are minted in the poolAssets pallet under the pool's lpToken id
+      const { lpToken } = poolInfo.unwrap().toJSON() as { lpToken: number };
+      const lpTokenId = Number(lpToken);
+      const lpAsset = await api.query.poolAssets.asset(lpTokenId);
+      const lpTokenSupply = lpAsset.isSome ? lpAsset.unwrap().supply.toString() : '0';
 
       // Get token info
       const token1 = KNOWN_TOKENS[asset1] || {
@@ -235,7 +240,8 @@ export const fetchPools = async (api: ApiPromise): Promise<PoolInfo[]> => {
         reserve1,
         reserve2,
         lpTokenSupply,
-        feeRate: '0.3', // Default 0.3%
+        lpTokenId,
+        feeRate,
       });
     }
 
@@ -265,7 +271,7 @@ export const validateAmount = (amount: string): boolean => {
  */
 export const calculateMinAmount = (amount: string, slippage: number): string => {
   const amountBig = BigInt(amount);
-  const slippageFactor = BigInt(10000 - slippage * 100);
+  const slippageFactor = BigInt(10000 - Math.round(slippage * 100));
   return ((amountBig * slippageFactor) / BigInt(10000)).toString();
 };
 
@@ -360,126 +366,290 @@ export const calculatePoolAPR = (
   }
 };
 
+// ========================================
+// SWAP ROUTER
+// ========================================
+
+const DEFAULT_MAX_HOPS = 3;
+const SPLIT_STEPS = 20; // Split granularity: amountIn is allocated in 5% chunks
+const IMPACT_PRECISION = BigInt(1_000_000);
+
+type PoolReserves = Map<string, { reserve1: string; reserve2: string }>;
+
+interface RouteQuote {
+  path: number[];
+  amountIn: string;
+  amountOut: string;
+  /** Product over hops of (1 - hop impact), scaled by IMPACT_PRECISION */
+  retained: bigint;
+}
+
+const pairKey = (a: number, b: number): string => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+/**
+ * Pool fee in basis points (PoolInfo.feeRate is a percentage string)
+ */
+const getPoolFeeBps = (pool: PoolInfo): number =>
+  Math.round(parseFloat(pool.feeRate ?? '0.3') * 100);
+
+/**
+ * Adjacency list over all pools with liquidity on both sides
+ */
+export const buildPoolGraph = (pools: PoolInfo[]): Map<number, number[]> => {
+  const graph = new Map<number, number[]>();
+
+  for (const pool of pools) {
+    if (BigInt(pool.reserve1) === BigInt(0) || BigInt(pool.reserve2) === BigInt(0)) continue;
+
+    graph.set(pool.asset1, [...(graph.get(pool.asset1) || []), pool.asset2]);
+    graph.set(pool.asset2, [...(graph.get(pool.asset2) || []), pool.asset1]);
+  }
+
+  return graph;
+};
+
+/**
+ * All simple paths from assetIn to assetOut using at most maxHops pools
+ */
+export const findSwapPaths = (
+  pools: PoolInfo[],
+  assetIn: number,
+  assetOut: number,
+  maxHops: number = DEFAULT_MAX_HOPS
+): number[][] => {
+  const graph = buildPoolGraph(pools);
+  const paths: number[][] = [];
+
+  const walk = (path: number[]) => {
+    const current = path[path.length - 1];
+    if (current === assetOut) {
+      paths.push(path);
+      return;
+    }
+    if (path.length > maxHops) return;
+
+    for (const next of graph.get(current) || []) {
+      if (!path.includes(next)) walk([...path, next]);
+    }
+  };
+
+  if (assetIn !== assetOut) walk([assetIn]);
+  return paths;
+};
+
+/**
+ * Quote a path against (simulated) reserves, optionally applying the
+ * swap to them so later legs see the moved pools
+ */
+const quotePath = (
+  path: number[],
+  amountIn: string,
+  poolsByPair: Map<string, PoolInfo>,
+  reserves: PoolReserves,
+  apply = false
+): RouteQuote => {
+  let amount = amountIn;
+  let retained = IMPACT_PRECISION;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const key = pairKey(path[i], path[i + 1]);
+    const pool = poolsByPair.get(key)!;
+    const current = reserves.get(key)!;
+    const isForward = pool.asset1 === path[i];
+    const reserveIn = isForward ? current.reserve1 : current.reserve2;
+    const reserveOut = isForward ? current.reserve2 : current.reserve1;
+
+    const amountOut = getAmountOut(amount, reserveIn, reserveOut, getPoolFeeBps(pool));
+
+    // Hop impact = amountIn / (reserveIn + amountIn); impacts compound
+    // multiplicatively across hops, they don't add up
+    const reserveInBig = BigInt(reserveIn);
+    retained = (retained * reserveInBig) / (reserveInBig + BigInt(amount));
+
+    if (apply) {
+      const newIn = (reserveInBig + BigInt(amount)).toString();
+      const newOut = (BigInt(reserveOut) - BigInt(amountOut)).toString();
+      reserves.set(key, isForward
+        ? { reserve1: newIn, reserve2: newOut }
+        : { reserve1: newOut, reserve2: newIn });
+    }
+
+    amount = amountOut;
+  }
+
+  return { path, amountIn, amountOut: amount, retained };
+};
+
+const impactPercent = (retained: bigint): string =>
+  ((Number(IMPACT_PRECISION - retained) / Number(IMPACT_PRECISION)) * 100).toFixed(2);
+
+const formatRoute = (path: number[]): string => path.map(getTokenSymbol).join(' → ');
+
+/**
+ * Split amountIn across candidate paths in SPLIT_STEPS chunks, each chunk
+ * going to the path with the best marginal output given the chunks
+ * already routed (shared pools included). Returns per-path amounts.
+ */
+const allocateSplit = (
+  candidates: number[][],
+  amountIn: string,
+  poolsByPair: Map<string, PoolInfo>,
+  reserves: PoolReserves
+): string[] => {
+  const simulated: PoolReserves = new Map(reserves);
+  const total = BigInt(amountIn);
+  const chunk = total / BigInt(SPLIT_STEPS);
+  const allocated = candidates.map(() => BigInt(0));
+
+  for (let step = 0; step < SPLIT_STEPS; step++) {
+    const size = step === SPLIT_STEPS - 1 ? total - chunk * BigInt(SPLIT_STEPS - 1) : chunk;
+    if (size === BigInt(0)) continue;
+
+    let best = 0;
+    let bestOut = BigInt(-1);
+    candidates.forEach((path, index) => {
+      const out = BigInt(quotePath(path, size.toString(), poolsByPair, simulated).amountOut);
+      if (out > bestOut) {
+        best = index;
+        bestOut = out;
+      }
+    });
+
+    quotePath(candidates[best], size.toString(), poolsByPair, simulated, true);
+    allocated[best] += size;
+  }
+
+  return allocated.map((amount) => amount.toString());
+};
+
+/**
+ * Find the best swap route over a set of pools (no chain access).
+ *
+ * Searches every path up to `maxHops` pools, and with `maxSplits` > 1
+ * also tries splitting the input across the best parallel paths.
+ * Legs are quoted in execution order, so legs sharing a pool see the
+ * reserves left by the previous leg.
+ *
+ * @param pools - Pools from fetchPools
+ * @param assetIn - Input asset ID
+ * @param assetOut - Output asset ID
+ * @param amountIn - Raw input amount
+ * @param slippage - Slippage tolerance in percent (e.g., 0.5)
+ * @param options - Hop and split limits
+ */
+export const computeBestSwapRoute = (
+  pools: PoolInfo[],
+  assetIn: number,
+  assetOut: number,
+  amountIn: string,
+  slippage: number = 1,
+  options: SwapRouteOptions = {}
+): SwapQuote => {
+  const { maxHops = DEFAULT_MAX_HOPS, maxSplits = 1 } = options;
+
+  const noRoute: SwapQuote = {
+    amountIn,
+    amountOut: '0',
+    path: [assetIn, assetOut],
+    priceImpact: '0',
+    minimumReceived: '0',
+    route: formatRoute([assetIn, assetOut]),
+    legs: [],
+    slippage,
+  };
+
+  if (!validateAmount(amountIn)) return noRoute;
+
+  const poolsByPair = new Map(pools.map((pool) => [pairKey(pool.asset1, pool.asset2), pool]));
+  const reserves: PoolReserves = new Map(
+    pools.map((pool) => [pairKey(pool.asset1, pool.asset2), { reserve1: pool.reserve1, reserve2: pool.reserve2 }])
+  );
+
+  const ranked = findSwapPaths(pools, assetIn, assetOut, maxHops)
+    .map((path) => quotePath(path, amountIn, poolsByPair, reserves))
+    .filter((quote) => BigInt(quote.amountOut) > BigInt(0))
+    .sort((a, b) => (BigInt(b.amountOut) > BigInt(a.amountOut) ? 1 : -1));
+
+  if (ranked.length === 0) return noRoute;
+
+  let legs: RouteQuote[] = [ranked[0]];
+
+  if (maxSplits > 1 && ranked.length > 1) {
+    const candidates = ranked.slice(0, maxSplits).map((quote) => quote.path);
+    const amounts = allocateSplit(candidates, amountIn, poolsByPair, reserves);
+
+    // Re-quote in execution order against the live reserves
+    const executed: PoolReserves = new Map(reserves);
+    const splitLegs = candidates
+      .map((path, index) => ({ path, amount: amounts[index] }))
+      .filter(({ amount }) => BigInt(amount) > BigInt(0))
+      .map(({ path, amount }) => quotePath(path, amount, poolsByPair, executed, true));
+
+    const splitOut = splitLegs.reduce((sum, leg) => sum + BigInt(leg.amountOut), BigInt(0));
+    if (splitLegs.length > 1 && splitOut > BigInt(ranked[0].amountOut)) {
+      legs = splitLegs;
+    }
+  }
+
+  const totalOut = legs.reduce((sum, leg) => sum + BigInt(leg.amountOut), BigInt(0));
+
+  // Overall impact: output vs the output with zero impact on every leg
+  const idealOut = legs.reduce(
+    (sum, leg) => sum + (BigInt(leg.amountOut) * IMPACT_PRECISION) / (leg.retained || BigInt(1)),
+    BigInt(0)
+  );
+  const retained = idealOut === BigInt(0) ? IMPACT_PRECISION : (totalOut * IMPACT_PRECISION) / idealOut;
+
+  const routeLegs: SwapRouteLeg[] = legs.map((leg) => ({
+    path: leg.path,
+    amountIn: leg.amountIn,
+    amountOut: leg.amountOut,
+    minimumReceived: calculateMinAmount(leg.amountOut, slippage),
+    priceImpact: impactPercent(leg.retained),
+  }));
+
+  const mainLeg = [...routeLegs].sort((a, b) => (BigInt(b.amountIn) > BigInt(a.amountIn) ? 1 : -1))[0];
+  const route = routeLegs.length === 1
+    ? formatRoute(mainLeg.path)
+    : routeLegs
+      .map((leg) => `${Number((BigInt(leg.amountIn) * BigInt(100)) / BigInt(amountIn))}% ${formatRoute(leg.path)}`)
+      .join(' + ');
+
+  return {
+    amountIn,
+    amountOut: totalOut.toString(),
+    path: mainLeg.path,
+    priceImpact: impactPercent(retained),
+    minimumReceived: routeLegs
+      .reduce((sum, leg) => sum + BigInt(leg.minimumReceived), BigInt(0))
+      .toString(),
+    route,
+    legs: routeLegs,
+    slippage,
+  };
+};
+
 /**
- * Find best swap route using multi-hop
+ * Find best swap route across all pools on chain
  * @param api - Polkadot API instance
  * @param assetIn - Input asset ID
  * @param assetOut - Output asset ID
  * @param amountIn - Amount to swap in
+ * @param slippage - Slippage tolerance in percent (default 1)
+ * @param options - Hop and split limits
  * @returns Best swap route with quote
  */
 export const findBestSwapRoute = async (
   api: ApiPromise,
   assetIn: number,
   assetOut: number,
-  amountIn: string
+  amountIn: string,
+  slippage: number = 1,
+  options: SwapRouteOptions = {}
 ): Promise<SwapQuote> => {
   try {
-    // Get all available pools
     const pools = await fetchPools(api);
-
-    // Direct swap path
-    const directPool = pools.find(
-      (p) =>
-        (p.asset1 === assetIn && p.asset2 === assetOut) ||
-        (p.asset1 === assetOut && p.asset2 === assetIn)
-    );
-
-    let bestQuote: SwapQuote = {
-      amountIn,
-      amountOut: '0',
-      path: [assetIn, assetOut],
-      priceImpact: '0',
-      minimumReceived: '0',
-      route: `${getTokenSymbol(assetIn)} → ${getTokenSymbol(assetOut)}`,
-    };
-
-    // Try direct swap
-    if (directPool) {
-      const isForward = directPool.asset1 === assetIn;
-      const reserveIn = isForward ? directPool.reserve1 : directPool.reserve2;
-      const reserveOut = isForward ? directPool.reserve2 : directPool.reserve1;
-
-      const amountOut = getAmountOut(amountIn, reserveIn, reserveOut);
-      const priceImpact = calculatePriceImpact(reserveIn, reserveOut, amountIn);
-      const minimumReceived = calculateMinAmount(amountOut, 1); // 1% slippage
-
-      bestQuote = {
-        amountIn,
-        amountOut,
-        path: [assetIn, assetOut],
-        priceImpact,
-        minimumReceived,
-        route: `${getTokenSymbol(assetIn)} → ${getTokenSymbol(assetOut)}`,
-      };
-    }
-
-    // Try multi-hop routes (through intermediate tokens)
-    // Common intermediate tokens: wHEZ (0), PEZ (1), wUSDT (2)
-    const intermediateTokens = [0, 1, 2].filter(
-      (id) => id !== assetIn && id !== assetOut
-    );
-
-    for (const intermediate of intermediateTokens) {
-      try {
-        // Find first hop pool
-        const pool1 = pools.find(
-          (p) =>
-            (p.asset1 === assetIn && p.asset2 === intermediate) ||
-            (p.asset1 === intermediate && p.asset2 === assetIn)
-        );
-
-        // Find second hop pool
-        const pool2 = pools.find(
-          (p) =>
-            (p.asset1 === intermediate && p.asset2 === assetOut) ||
-            (p.asset1 === assetOut && p.asset2 === intermediate)
-        );
-
-        if (!pool1 || !pool2) continue;
-
-        // Calculate first hop
-        const isForward1 = pool1.asset1 === assetIn;
-        const reserveIn1 = isForward1 ? pool1.reserve1 : pool1.reserve2;
-        const reserveOut1 = isForward1 ? pool1.reserve2 : pool1.reserve1;
-        const amountIntermediate = getAmountOut(amountIn, reserveIn1, reserveOut1);
-
-        // Calculate second hop
-        const isForward2 = pool2.asset1 === intermediate;
-        const reserveIn2 = isForward2 ? pool2.reserve1 : pool2.reserve2;
-        const reserveOut2 = isForward2 ? pool2.reserve2 : pool2.reserve1;
-        const amountOut = getAmountOut(amountIntermediate, reserveIn2, reserveOut2);
-
-        // Calculate combined price impact
-        const impact1 = calculatePriceImpact(reserveIn1, reserveOut1, amountIn);
-        const impact2 = calculatePriceImpact(
-          reserveIn2,
-          reserveOut2,
-          amountIntermediate
-        );
-        const totalImpact = (
-          parseFloat(impact1) + parseFloat(impact2)
-        ).toFixed(2);
-
-        // If this route gives better output, use it
-        if (BigInt(amountOut) > BigInt(bestQuote.amountOut)) {
-          const minimumReceived = calculateMinAmount(amountOut, 1);
-          bestQuote = {
-            amountIn,
-            amountOut,
-            path: [assetIn, intermediate, assetOut],
-            priceImpact: totalImpact,
-            minimumReceived,
-            route: `${getTokenSymbol(assetIn)} → ${getTokenSymbol(intermediate)} → ${getTokenSymbol(assetOut)}`,
-          };
-        }
-      } catch (error) {
-        console.warn(`Error calculating route through ${intermediate}:`, error);
-        continue;
-      }
-    }
-
-    return bestQuote;
+    return computeBestSwapRoute(pools, assetIn, assetOut, amountIn, slippage, options);
   } catch (error) {
     console.error('Error finding best swap route:', error);
     return {
@@ -489,18 +659,154 @@ export const findBestSwapRoute = async (
       priceImpact: '0',
       minimumReceived: '0',
       route: 'Error',
+      legs: [],
+      slippage,
     };
   }
 };
 
+/**
+ * Total LP fee paid on a quote, in raw input-token units.
+ * Every hop takes its pool's fee from what reaches it.
+ * @param pools - Pools the quote was computed over
+ * @param quote - Swap quote
+ */
+export const calculateRouteFee = (pools: PoolInfo[], quote: SwapQuote): string => {
+  const poolsByPair = new Map(pools.map((pool) => [pairKey(pool.asset1, pool.asset2), pool]));
+
+  return quote.legs
+    .reduce((total, leg) => {
+      let retained = BigInt(10000);
+      for (let i = 0; i < leg.path.length - 1; i++) {
+        const pool = poolsByPair.get(pairKey(leg.path[i], leg.path[i + 1]));
+        const feeBps = pool ? getPoolFeeBps(pool) : 30;
+        retained = (retained * BigInt(10000 - feeBps)) / BigInt(10000);
+      }
+      return total + (BigInt(leg.amountIn) * (BigInt(10000) - retained)) / BigInt(10000);
+    }, BigInt(0))
+    .toString();
+};
+
+/**
+ * Build the assetConversion swap calls for a quote, one per leg.
+ * Batch them (utility.batchAll) so a split route executes atomically.
+ * @param api - Polkadot API instance
+ * @param quote - Quote from findBestSwapRoute / computeBestSwapRoute
+ * @param recipient - Address receiving the output
+ * @param keepAlive - Keep the sender account alive
+ */
+export const buildSwapCalls = (
+  api: ApiPromise,
+  quote: SwapQuote,
+  recipient: string,
+  keepAlive: boolean = true
+): SubmittableExtrinsic<'promise'>[] => {
+  if (quote.legs.length === 0) {
+    throw new Error('No swap route available');
+  }
+
+  return quote.legs.map((leg) =>
+    api.tx.assetConversion.swapExactTokensForTokens(
+      leg.path,
+      leg.amountIn,
+      leg.minimumReceived,
+      recipient,
+      keepAlive
+    )
+  );
+};
+
+/**
+ * Cost basis of an account's LP tokens in one pool, replaying its liquidity
+ * events oldest first. Removals release basis pro rata (average cost).
+ */
+export const computeLPCostBasis = (events: LiquidityEvent[]): LPCostBasis => {
+  let amount1 = BigInt(0);
+  let amount2 = BigInt(0);
+  let lpTokens = BigInt(0);
+  let sqrtInvariant = 0;
+
+  for (const event of events) {
+    const lpAmount = BigInt(event.lp_amount);
+
+    if (event.kind === 'add') {
+      amount1 += BigInt(event.amount1);
+      amount2 += BigInt(event.amount2);
+      lpTokens += lpAmount;
+      sqrtInvariant += Math.sqrt(Number(event.amount1) * Number(event.amount2));
+    } else if (lpTokens > BigInt(0)) {
+      const burned = lpAmount > lpTokens ? lpTokens : lpAmount;
+      amount1 -= (amount1 * burned) / lpTokens;
+      amount2 -= (amount2 * burned) / lpTokens;
+      sqrtInvariant -= (sqrtInvariant * Number(burned)) / Number(lpTokens);
+      lpTokens -= burned;
+    }
+  }
+
+  return {
+    amount1: amount1.toString(),
+    amount2: amount2.toString(),
+    lpTokens: lpTokens.toString(),
+    sqrtInvariant,
+  };
+};
+
+/**
+ * Fees earned and impermanent loss of a position against its cost basis.
+ *
+ * Without fees, sqrt(amount1 × amount2) of a position never changes, so its
+ * growth since deposit is the fee share of the current amounts. Impermanent
+ * loss compares the fee-less amounts with holding the deposit, both at the
+ * current pool price. LP tokens received by transfer have no known basis,
+ * so only the covered share of the position is analysed; LP tokens sent away
+ * take their share of the basis with them.
+ */
+export const analyzeLPPosition = (
+  position: Pick<UserLiquidityPosition, 'lpTokenBalance' | 'asset1Amount' | 'asset2Amount'>,
+  pool: Pick<PoolInfo, 'reserve1' | 'reserve2'>,
+  basis: LPCostBasis
+): LPPositionAnalysis | undefined => {
+  const balance = Number(position.lpTokenBalance);
+  if (balance === 0 || Number(basis.lpTokens) === 0 || basis.sqrtInvariant === 0) return undefined;
+
+  const coverage = Math.min(1, Number(basis.lpTokens) / balance);
+  const current1 = Number(position.asset1Amount) * coverage;
+  const current2 = Number(position.asset2Amount) * coverage;
+
+  const basisShare = Math.min(1, balance / Number(basis.lpTokens));
+  const deposited1 = Number(basis.amount1) * basisShare;
+  const deposited2 = Number(basis.amount2) * basisShare;
+
+  const growth = Math.max(1, Math.sqrt(current1 * current2) / (basis.sqrtInvariant * basisShare));
+  const fees1 = current1 * (1 - 1 / growth);
+  const fees2 = current2 * (1 - 1 / growth);
+
+  // asset2 per asset1 in raw units; decimals cancel out of the ratio below
+  const price = Number(pool.reserve2) / Number(pool.reserve1);
+  const holdValue = deposited1 * price + deposited2;
+  const lpValue = (current1 / growth) * price + current2 / growth;
+
+  return {
+    deposited1: Math.floor(deposited1).toString(),
+    deposited2: Math.floor(deposited2).toString(),
+    fees1: Math.floor(fees1).toString(),
+    fees2: Math.floor(fees2).toString(),
+    impermanentLoss: holdValue > 0 ? Math.min(0, (lpValue / holdValue - 1) * 100) : 0,
+    coverage,
+  };
+};
+
 /**
  * Fetch user's LP token positions across all pools
  * @param api - Polkadot API instance
  * @param userAddress - User's wallet address
+ * @param options.liquidityEvents - The user's liquidity events (any pools), for cost basis
+ * @param options.prices - USD price per whole token by asset id, for valueUSD / feesEarned
  */
 export const fetchUserLPPositions = async (
   api: ApiPromise,
-  userAddress: string
+  userAddress: string,
+  options: { liquidityEvents?: LiquidityEvent[]; prices?: Record<string, number> } = {}
 ): Promise<UserLiquidityPosition[]> => {
   try {
     const positions: UserLiquidityPosition[] = [];
@@ -510,20 +816,13 @@ export const fetchUserLPPositions = async (
 
     for (const pool of pools) {
       try {
-        // Try to find LP token balance for this pool
-        let lpTokenBalance = '0';
-
-        // Method 1: Check poolAssets pallet
-        if (api.query.poolAssets && api.query.poolAssets.account) {
-          const lpTokenId = (pool.asset1 << 16) | pool.asset2;
-          const lpAccount = await api.query.poolAssets.account(lpTokenId, userAddress);
-          if (lpAccount.isSome) {
-            lpTokenBalance = lpAccount.unwrap().balance.toString();
-          }
-        }
+        if (pool.lpTokenId === undefined) continue;
+
+        const lpAccount = await api.query.poolAssets.account(pool.lpTokenId, userAddress);
+        const lpTokenBalance = lpAccount.isSome ? lpAccount.unwrap().balance.toString() : '0';
 
         // Skip if user has no LP tokens for this pool
-        if (lpTokenBalance === '0' || BigInt(lpTokenBalance) === BigInt(0)) {
+        if (BigInt(lpTokenBalance) === BigInt(0)) {
           continue;
         }
 
@@ -540,24 +839,41 @@ export const fetchUserLPPositions = async (
         const shareOfPool = (Number(sharePercentage) / 100).toFixed(2);
 
         // Calculate underlying asset amounts
-        const reserve1Big = BigInt(pool.reserve1);
-        const reserve2Big = BigInt(pool.reserve2);
+        const asset1Amount = ((BigInt(pool.reserve1) * userLPBig) / lpSupply).toString();
+        const asset2Amount = ((BigInt(pool.reserve2) * userLPBig) / lpSupply).toString();
 
-        const asset1Amount = ((reserve1Big * userLPBig) / lpSupply).toString();
-        const asset2Amount = ((reserve2Big * userLPBig) / lpSupply).toString();
-
-        positions.push({
+        const position: UserLiquidityPosition = {
           poolId: pool.id,
           asset1: pool.asset1,
           asset2: pool.asset2,
+          lpTokenId: pool.lpTokenId,
           lpTokenBalance,
           shareOfPool,
           asset1Amount,
           asset2Amount,
-          // These will be calculated separately if needed
-          valueUSD: undefined,
-          feesEarned: undefined,
-        });
+        };
+
+        if (options.liquidityEvents) {
+          const poolEvents = options.liquidityEvents.filter(
+            (e) => e.asset1 === String(pool.asset1) && e.asset2 === String(pool.asset2)
+          );
+          position.analysis = analyzeLPPosition(position, pool, computeLPCostBasis(poolEvents));
+        }
+
+        const price1 = options.prices?.[String(pool.asset1)];
+        const price2 = options.prices?.[String(pool.asset2)];
+        if (price1 !== undefined && price2 !== undefined) {
+          const toUSD = (amount1: string, amount2: string) =>
+            (Number(amount1) / 10 ** pool.asset1Decimals) * price1 +
+            (Number(amount2) / 10 ** pool.asset2Decimals) * price2;
+
+          position.valueUSD = toUSD(asset1Amount, asset2Amount).toFixed(2);
+          if (position.analysis) {
+            position.feesEarned = toUSD(position.analysis.fees1, position.analysis.fees2).toFixed(2);
+          }
+        }
+
+        positions.push(position);
       } catch (error) {
         console.warn(`Error fetching LP position for pool ${pool.id}:`, error);
         // Continue with next pool
@@ -29,10 +29,13 @@ const ProfileSettings = lazy(() => import('@/pages/ProfileSettings'));
 const AdminPanel = lazy(() => import('@/pages/AdminPanel'));
 const WalletDashboard = lazy(() => import('./pages/WalletDashboard'));
 const ReservesDashboardPage = lazy(() => import('./pages/ReservesDashboardPage'));
+const WithdrawalsPage = lazy(() => import('./pages/WithdrawalsPage'));
 const BeCitizen = lazy(() => import('./pages/BeCitizen'));
 const Citizens = lazy(() => import('./pages/Citizens'));
 const CitizensIssues = lazy(() => import('./pages/citizens/CitizensIssues'));
 const GovernmentEntrance = lazy(() => import('./pages/citizens/GovernmentEntrance'));
+const LegislationDetail = lazy(() => import('./pages/citizens/LegislationDetail'));
+const Scorecards = lazy(() => import('./pages/citizens/Scorecards'));
 const Elections = lazy(() => import('./pages/Elections'));
 const EducationPlatform = lazy(() => import('./pages/EducationPlatform'));
 const P2PPlatform = lazy(() => import('./pages/P2PPlatform'));
@@ -96,6 +99,9 @@ function App() {
                               <Route path="/citizens" element={<Citizens />} />
                               <Route path="/citizens/issues" element={<CitizensIssues />} />
                               <Route path="/citizens/government" element={<GovernmentEntrance />} />
+                              <Route path="/citizens/legislation/:id" element={<LegislationDetail />} />
+                              <Route path="/citizens/scorecards" element={<Scorecards />} />
+                              <Route path="/citizens/scorecards/:address" element={<Scorecards />} />
                               <Route path="/dashboard" element={
                                 <ProtectedRoute>
                                   <Dashboard />
@@ -121,6 +127,11 @@ function App() {
                                   <ReservesDashboardPage />
                                 </ProtectedRoute>
                               } />
+                              <Route path="/withdrawals" element={
+                                <ProtectedRoute>
+                                  <WithdrawalsPage />
+                                </ProtectedRoute>
+                              } />
                               <Route path="/elections" element={
                                 <ProtectedRoute>
                                   <Elections />
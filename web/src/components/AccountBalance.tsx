@@ -3,7 +3,11 @@ import { usePolkadot } from '@/contexts/PolkadotContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Wallet, TrendingUp, ArrowDownRight, RefreshCw, Award, Plus, Coins, Send, Shield, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ASSET_IDS, getAssetSymbol } from '@pezkuwi/lib/wallet';
+import { FIAT_CURRENCIES, formatFiat } from '@pezkuwi/lib/prices';
+import type { FiatCurrency } from '@pezkuwi/lib/p2p-fiat';
+import { useTokenPrices } from '@/hooks/usePrice';
 import { AddTokenModal } from './AddTokenModal';
 import { TransferModal } from './TransferModal';
 import { getAllScores, type UserScores } from '@pezkuwi/lib/scores';
@@ -30,8 +34,10 @@ export const AccountBalance: React.FC = () => {
   });
   const [pezBalance, setPezBalance] = useState<string>('0');
   const [usdtBalance, setUsdtBalance] = useState<string>('0');
-  const [hezUsdPrice, setHezUsdPrice] = useState<number>(0);
-  const [pezUsdPrice, setPezUsdPrice] = useState<number>(0);
+  const { prices, source: priceSource, loading: loadingPrices, toFiat } = useTokenPrices();
+  const [displayCurrency, setDisplayCurrency] = useState<FiatCurrency>(
+    () => (localStorage.getItem('displayCurrency') as FiatCurrency) || 'USD'
+  );
   const [scores, setScores] = useState<UserScores>({
     trustScore: 0,
     referralScore: 0,
@@ -41,7 +47,7 @@ export const AccountBalance: React.FC = () => {
   });
   const [loadingScores, setLoadingScores] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [otherTokens, setOtherTokens] = useState<TokenBalance[]>([]);
+  const [otherTokens, setOtherTokens] = useState<Omit<TokenBalance, 'usdValue'>[]>([]);
   const [isAddTokenModalOpen, setIsAddTokenModalOpen] = useState(false);
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
   const [selectedTokenForTransfer, setSelectedTokenForTransfer] = useState<TokenBalance | null>(null);
@@ -77,78 +83,12 @@ export const AccountBalance: React.FC = () => {
     return colors[assetId] || { bg: 'from-cyan-500/20 to-blue-500/20', text: 'text-cyan-400', border: 'border-cyan-500/30' };
   };
 
-  // Fetch token prices from pools using pool account ID
-  const fetchTokenPrices = async () => {
-    if (!api || !isApiReady) return;
-
-    try {
-      if (import.meta.env.DEV) console.log('💰 Fetching token prices from pools...');
-
-      // Import utilities for pool account derivation
-      const { stringToU8a } = await import('@polkadot/util');
-      const { blake2AsU8a } = await import('@polkadot/util-crypto');
-      const PALLET_ID = stringToU8a('py/ascon');
-
-      // Fetch wHEZ/wUSDT pool reserves (Asset 0 / Asset 1000)
-      const whezPoolId = api.createType('(u32, u32)', [0, ASSET_IDS.WUSDT]);
-      const whezPalletIdType = api.createType('[u8; 8]', PALLET_ID);
-      const whezFullTuple = api.createType('([u8; 8], (u32, u32))', [whezPalletIdType, whezPoolId]);
-      const whezAccountHash = blake2AsU8a(whezFullTuple.toU8a(), 256);
-      const whezPoolAccountId = api.createType('AccountId32', whezAccountHash);
-
-      const whezReserve0Query = await api.query.assets.account(0, whezPoolAccountId);
-      const whezReserve1Query = await api.query.assets.account(ASSET_IDS.WUSDT, whezPoolAccountId);
-
-      if (whezReserve0Query.isSome && whezReserve1Query.isSome) {
-        const reserve0Data = whezReserve0Query.unwrap();
-        const reserve1Data = whezReserve1Query.unwrap();
-
-        const reserve0 = BigInt(reserve0Data.balance.toString()); // wHEZ (12 decimals)
-        const reserve1 = BigInt(reserve1Data.balance.toString()); // wUSDT (6 decimals)
-
-        // Calculate price: 1 HEZ = ? USD
-        const hezPrice = Number(reserve1 * BigInt(10 ** 12)) / Number(reserve0 * BigInt(10 ** 6));
-        if (import.meta.env.DEV) console.log('✅ HEZ price:', hezPrice, 'USD');
-        setHezUsdPrice(hezPrice);
-      } else {
-        if (import.meta.env.DEV) console.warn('⚠️ wHEZ/wUSDT pool has no reserves');
-      }
-
-      // Fetch PEZ/wUSDT pool reserves (Asset 1 / Asset 1000)
-      const pezPoolId = api.createType('(u32, u32)', [1, ASSET_IDS.WUSDT]);
-      const pezPalletIdType = api.createType('[u8; 8]', PALLET_ID);
-      const pezFullTuple = api.createType('([u8; 8], (u32, u32))', [pezPalletIdType, pezPoolId]);
-      const pezAccountHash = blake2AsU8a(pezFullTuple.toU8a(), 256);
-      const pezPoolAccountId = api.createType('AccountId32', pezAccountHash);
-
-      const pezReserve0Query = await api.query.assets.account(1, pezPoolAccountId);
-      const pezReserve1Query = await api.query.assets.account(ASSET_IDS.WUSDT, pezPoolAccountId);
-
-      if (pezReserve0Query.isSome && pezReserve1Query.isSome) {
-        const reserve0Data = pezReserve0Query.unwrap();
-        const reserve1Data = pezReserve1Query.unwrap();
-
-        const reserve0 = BigInt(reserve0Data.balance.toString()); // PEZ (12 decimals)
-        const reserve1 = BigInt(reserve1Data.balance.toString()); // wUSDT (6 decimals)
-
-        // Calculate price: 1 PEZ = ? USD
-        const pezPrice = Number(reserve1 * BigInt(10 ** 12)) / Number(reserve0 * BigInt(10 ** 6));
-        if (import.meta.env.DEV) console.log('✅ PEZ price:', pezPrice, 'USD');
-        setPezUsdPrice(pezPrice);
-      } else {
-        if (import.meta.env.DEV) console.warn('⚠️ PEZ/wUSDT pool has no reserves');
-      }
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('❌ Failed to fetch token prices:', error);
-    }
-  };
-
   // Fetch other tokens (only custom tokens - wrapped tokens are backend-only)
   const fetchOtherTokens = async () => {
     if (!api || !isApiReady || !selectedAccount) return;
 
     try {
-      const tokens: TokenBalance[] = [];
+      const tokens: Omit<TokenBalance, 'usdValue'>[] = [];
 
       // IMPORTANT: Only show custom tokens added by user
       // Wrapped tokens (wHEZ, wUSDT) are for backend operations only
@@ -192,21 +132,12 @@ export const AccountBalance: React.FC = () => {
             const decimals = metadata.decimals || getAssetDecimals(assetId);
             const balanceFormatted = (parseInt(balance) / Math.pow(10, decimals)).toFixed(6);
 
-            // Simple USD calculation (would use real price feed in production)
-            let usdValue = 0;
-            if (assetId === ASSET_IDS.WUSDT) {
-              usdValue = parseFloat(balanceFormatted); // 1 wUSDT = 1 USD
-            } else if (assetId === ASSET_IDS.WHEZ) {
-              usdValue = parseFloat(balanceFormatted) * 0.5; // Placeholder price
-            }
-
             tokens.push({
               assetId,
               symbol: symbol.trim(),
               name: name.trim(),
               balance: balanceFormatted,
-              decimals,
-              usdValue
+              decimals
             });
           }
         } catch (error) {
@@ -281,9 +212,6 @@ export const AccountBalance: React.FC = () => {
         setUsdtBalance('0');
       }
 
-      // Fetch token prices from pools
-      await fetchTokenPrices();
-
       // Fetch other tokens
       await fetchOtherTokens();
     } catch (error) {
@@ -322,7 +250,6 @@ export const AccountBalance: React.FC = () => {
 
   useEffect(() => {
     fetchBalance();
-    fetchTokenPrices(); // Fetch token USD prices from pools
 
     // Fetch All Scores from blockchain
     const fetchAllScores = async () => {
@@ -442,6 +369,37 @@ export const AccountBalance: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [api, isApiReady, selectedAccount]);
 
+  const hezUsdPrice = prices.native ?? null;
+  const pezUsdPrice = prices[String(ASSET_IDS.PEZ)] ?? null;
+
+  // Custom tokens without a pool route to wUSDT are valued at 0
+  const pricedTokens: TokenBalance[] = otherTokens.map((token) => ({
+    ...token,
+    usdValue: parseFloat(token.balance) * (prices[String(token.assetId)] ?? 0),
+  }));
+
+  const portfolioUsd =
+    parseFloat(balance.total) * (hezUsdPrice ?? 0) +
+    parseFloat(pezBalance) * (pezUsdPrice ?? 0) +
+    parseFloat(usdtBalance) +
+    pricedTokens.reduce((sum, token) => sum + token.usdValue, 0);
+
+  // Falls back to USD until the currency's rate is known
+  const formatValue = (usd: number) => {
+    const converted = toFiat(usd, displayCurrency);
+    return converted === null ? formatFiat(usd, 'USD') : formatFiat(converted, displayCurrency);
+  };
+
+  const priceHint = (price: number | null, amount: string) => {
+    if (price !== null) return `≈ ${formatValue(parseFloat(amount) * price)}`;
+    return loadingPrices ? 'Price loading...' : 'No price available';
+  };
+
+  const handleCurrencyChange = (currency: FiatCurrency) => {
+    setDisplayCurrency(currency);
+    localStorage.setItem('displayCurrency', currency);
+  };
+
   if (!selectedAccount) {
     return (
       <Card className="bg-gray-900 border-gray-800">
@@ -457,6 +415,35 @@ export const AccountBalance: React.FC = () => {
 
   return (
     <div className="space-y-4">
+      {/* Portfolio Value */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm text-gray-400 mb-1">Portfolio Value</div>
+              <div className="text-3xl font-bold text-white">
+                {loadingPrices ? '...' : formatValue(portfolioUsd)}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {priceSource === 'pools'
+                  ? 'Live pool prices (price oracle unavailable)'
+                  : 'Time-weighted DEX prices'}
+              </div>
+            </div>
+            <Select value={displayCurrency} onValueChange={(v) => handleCurrencyChange(v as FiatCurrency)}>
+              <SelectTrigger className="w-24 bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIAT_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* HEZ Balance Card */}
       <Card className="bg-gradient-to-br from-green-900/30 to-yellow-900/30 border-green-500/30">
         <CardHeader className="pb-3">
@@ -483,9 +470,7 @@ export const AccountBalance: React.FC = () => {
                 <span className="text-2xl text-gray-400 ml-2">HEZ</span>
               </div>
               <div className="text-sm text-gray-400">
-                {hezUsdPrice > 0
-                  ? `≈ $${(parseFloat(balance.total) * hezUsdPrice).toFixed(2)} USD`
-                  : 'Price loading...'}
+                {priceHint(hezUsdPrice, balance.total)}
               </div>
             </div>
 
@@ -528,9 +513,7 @@ export const AccountBalance: React.FC = () => {
               <span className="text-2xl text-gray-400 ml-2">PEZ</span>
             </div>
             <div className="text-sm text-gray-400">
-              {pezUsdPrice > 0
-                ? `≈ $${(parseFloat(pezBalance) * pezUsdPrice).toFixed(2)} USD`
-                : 'Price loading...'}
+              {priceHint(pezUsdPrice, pezBalance)}
             </div>
             <div className="text-xs text-gray-500 mt-1">
               Governance & Rewards Token
@@ -553,7 +536,7 @@ export const AccountBalance: React.FC = () => {
               <span className="text-2xl text-gray-400 ml-2">USDT</span>
             </div>
             <div className="text-sm text-gray-400">
-              ≈ ${usdtBalance} USD • Stablecoin
+              ≈ {formatValue(parseFloat(usdtBalance))} • Stablecoin
             </div>
           </div>
         </CardContent>
@@ -671,7 +654,7 @@ export const AccountBalance: React.FC = () => {
             </div>
           ) : (
             <div className="space-y-2">
-              {otherTokens.map((token) => {
+              {pricedTokens.map((token) => {
                 const tokenColor = getTokenColor(token.assetId);
                 return (
                   <div
@@ -709,7 +692,7 @@ export const AccountBalance: React.FC = () => {
                           {parseFloat(token.balance).toFixed(4)}
                         </div>
                         <div className="text-xs text-gray-500">
-                          ${token.usdValue.toFixed(2)} USD
+                          {formatValue(token.usdValue)}
                         </div>
                       </div>
 
@@ -8,6 +8,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { ASSET_IDS, getAssetSymbol } from '@pezkuwi/lib/wallet';
+import { fetchUserLPPositions } from '@pezkuwi/utils/dex';
+import { getLiquidityEvents } from '@pezkuwi/lib/transaction-history';
+import type { UserLiquidityPosition } from '@pezkuwi/types/dex';
+import { useTokenPrices } from '@/hooks/usePrice';
 import { AddLiquidityModal } from '@/components/AddLiquidityModal';
 import { RemoveLiquidityModal } from '@/components/RemoveLiquidityModal';
 
@@ -40,10 +44,12 @@ interface LPPosition {
   share: number; // Percentage of pool
   asset0Amount: number;
   asset1Amount: number;
+  details: UserLiquidityPosition;
 }
 
 const PoolDashboard = () => {
   const { api, isApiReady, selectedAccount } = usePolkadot();
+  const { prices } = useTokenPrices();
 
   const [poolData, setPoolData] = useState<PoolData | null>(null);
   const [lpPosition, setLPPosition] = useState<LPPosition | null>(null);
@@ -172,7 +178,7 @@ const PoolDashboard = () => {
 
           // Get user's LP position if account connected
           if (selectedAccount) {
-            await fetchLPPosition(lpTokenId, reserve0, reserve1);
+            await fetchLPPosition(selectedPool);
           }
         } else {
           setError('Pool not found');
@@ -185,39 +191,25 @@ const PoolDashboard = () => {
       }
     };
 
-    const fetchLPPosition = async (lpTokenId: number, reserve0: number, reserve1: number) => {
+    const fetchLPPosition = async (poolKey: string) => {
       if (!api || !selectedAccount) return;
 
       try {
-        // Query user's LP token balance
-        const lpBalance = await api.query.poolAssets.account(lpTokenId, selectedAccount.address);
-
-        if (lpBalance.isSome) {
-          const lpData = lpBalance.unwrap().toJSON() as Record<string, unknown>;
-          const userLpBalance = Number(lpData.balance) / 1e12;
-
-          // Query total LP supply
-          const lpAssetData = await api.query.poolAssets.asset(lpTokenId);
-
-          if (lpAssetData.isSome) {
-            const assetInfo = lpAssetData.unwrap().toJSON() as Record<string, unknown>;
-            const totalSupply = Number(assetInfo.supply) / 1e12;
-
-            // Calculate user's share
-            const sharePercentage = (userLpBalance / totalSupply) * 100;
-
-            // Calculate user's actual token amounts
-            const asset0Amount = (sharePercentage / 100) * reserve0;
-            const asset1Amount = (sharePercentage / 100) * reserve1;
-
-            setLPPosition({
-              lpTokenBalance: userLpBalance,
-              share: sharePercentage,
-              asset0Amount,
-              asset1Amount,
-            });
-          }
-        }
+        // Cost basis comes from the indexer; positions still load without it
+        const liquidityEvents = await getLiquidityEvents(selectedAccount.address, poolKey).catch((err) => {
+          if (import.meta.env.DEV) console.error('Error fetching liquidity events:', err);
+          return undefined;
+        });
+        const positions = await fetchUserLPPositions(api, selectedAccount.address, { liquidityEvents, prices });
+        const position = positions.find((p) => p.poolId === poolKey);
+
+        setLPPosition(position ? {
+          lpTokenBalance: Number(position.lpTokenBalance) / 1e12,
+          share: parseFloat(position.shareOfPool),
+          asset0Amount: Number(position.asset1Amount) / Math.pow(10, getAssetDecimals(position.asset1)),
+          asset1Amount: Number(position.asset2Amount) / Math.pow(10, getAssetDecimals(position.asset2)),
+          details: position,
+        } : null);
       } catch (err) {
         if (import.meta.env.DEV) console.error('Error fetching LP position:', err);
       }
@@ -229,12 +221,18 @@ const PoolDashboard = () => {
     const interval = setInterval(fetchPoolData, 30000);
 
     return () => clearInterval(interval);
-  }, [api, isApiReady, selectedAccount, selectedPool]);
+  }, [api, isApiReady, selectedAccount, selectedPool, prices]);
 
   // Calculate metrics
   const constantProduct = poolData ? poolData.reserve0 * poolData.reserve1 : 0;
   const currentPrice = poolData ? poolData.reserve1 / poolData.reserve0 : 0;
-  const totalLiquidityUSD = poolData ? poolData.reserve0 * 2 : 0; // Simplified: assumes 1:1 USD peg
+  const price0 = poolData ? prices[String(poolData.asset0)] : undefined;
+  const price1 = poolData ? prices[String(poolData.asset1)] : undefined;
+  const totalLiquidityUSD = poolData
+    ? price0 !== undefined && price1 !== undefined
+      ? poolData.reserve0 * price0 + poolData.reserve1 * price1
+      : poolData.reserve0 * 2 // No prices yet: assume 1:1 USD peg
+    : 0;
 
   // APR calculation (simplified - would need 24h volume data)
   const estimateAPR = () => {
@@ -288,6 +286,12 @@ const PoolDashboard = () => {
     );
   }
 
+  const positionAnalysis = lpPosition?.details.analysis;
+
+  // Raw chain amount in whole tokens
+  const formatRaw = (amount: string, assetId: number) =>
+    (Number(amount) / Math.pow(10, getAssetDecimals(assetId))).toFixed(4);
+
   // Get asset symbols for the selected pool (using display names)
   const asset0Symbol = poolData ? getDisplayTokenName(poolData.asset0) : '';
   const asset1Symbol = poolData ? getDisplayTokenName(poolData.asset1) : '';
@@ -476,12 +480,19 @@ const PoolDashboard = () => {
                   </div>
                   <div className="p-4 bg-gray-900/50 rounded-lg">
                     <p className="text-sm text-gray-400">Pool Share</p>
-                    <p className="text-xl font-bold text-white">{lpPosition.share.toFixed(4)}%</p>
+                    <p className="text-xl font-bold text-white">{lpPosition.share.toFixed(2)}%</p>
                   </div>
                 </div>
 
                 <div className="p-4 bg-gray-900/50 rounded-lg">
-                  <p className="text-sm text-gray-400 mb-2">Your Position Value</p>
+                  <div className="flex items-baseline justify-between mb-2">
+                    <p className="text-sm text-gray-400">Your Position Value</p>
+                    {lpPosition.details.valueUSD && (
+                      <p className="text-lg font-bold text-white">
+                        ${Number(lpPosition.details.valueUSD).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                      </p>
+                    )}
+                  </div>
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span className="text-gray-300">{asset0Symbol}:</span>
@@ -494,6 +505,42 @@ const PoolDashboard = () => {
                   </div>
                 </div>
 
+                {positionAnalysis ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="p-4 bg-gray-900/50 rounded-lg">
+                      <p className="text-sm text-gray-400 mb-2">Fees Earned</p>
+                      <p className="text-xl font-bold text-green-400">
+                        {lpPosition.details.feesEarned ? `$${lpPosition.details.feesEarned}` : '—'}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatRaw(positionAnalysis.fees1, poolData.asset0)} {asset0Symbol} + {formatRaw(positionAnalysis.fees2, poolData.asset1)} {asset1Symbol}
+                      </p>
+                    </div>
+                    <div className="p-4 bg-gray-900/50 rounded-lg">
+                      <p className="text-sm text-gray-400 mb-2">Impermanent Loss</p>
+                      <p className={`text-xl font-bold ${positionAnalysis.impermanentLoss < -1 ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {positionAnalysis.impermanentLoss.toFixed(2)}%
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        vs holding {formatRaw(positionAnalysis.deposited1, poolData.asset0)} {asset0Symbol} + {formatRaw(positionAnalysis.deposited2, poolData.asset1)} {asset1Symbol}
+                      </p>
+                    </div>
+                    {positionAnalysis.coverage < 1 && (
+                      <p className="md:col-span-2 text-xs text-gray-500">
+                        Deposit history covers {(positionAnalysis.coverage * 100).toFixed(1)}% of your LP tokens;
+                        LP tokens received by transfer are left out.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <Alert className="bg-gray-900/50 border-gray-700">
+                    <Info className="h-4 w-4" />
+                    <AlertDescription className="text-gray-400">
+                      Fees earned and impermanent loss appear once your deposits are indexed.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <div className="p-4 bg-green-900/20 border border-green-500/30 rounded-lg">
                   <p className="text-sm text-gray-400 mb-2">Estimated Earnings (APR {estimateAPR().toFixed(2)}%)</p>
                   <div className="space-y-1 text-sm">
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, MinusCircle, Download, ShieldCheck } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { formatWUSDT } from '@pezkuwi/lib/usdt';
+import {
+  decodeReserveAttestation,
+  verifyReserveAttestation,
+  TRUSTED_CUSTODIANS,
+  type AttestationVerification,
+} from '@pezkuwi/lib/proof-of-reserves';
+
+interface ReserveAttestationsProps {
+  verifications: AttestationVerification[];
+}
+
+const shorten = (value: string) => `${value.slice(0, 8)}…${value.slice(-6)}`;
+
+const formatAge = (ms: number) => {
+  const hours = Math.floor(ms / 3600000);
+  if (hours < 1) return `${Math.max(0, Math.floor(ms / 60000))}m ago`;
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+const Check: React.FC<{ label: string; ok: boolean | null }> = ({ label, ok }) => (
+  <span className="flex items-center gap-1 text-xs">
+    {ok === null ? (
+      <MinusCircle className="h-3 w-3 text-gray-500" />
+    ) : ok ? (
+      <CheckCircle className="h-3 w-3 text-green-400" />
+    ) : (
+      <XCircle className="h-3 w-3 text-red-400" />
+    )}
+    <span className={ok === false ? 'text-red-400' : 'text-gray-400'}>{label}</span>
+  </span>
+);
+
+const VerificationRow: React.FC<{ verification: AttestationVerification }> = ({ verification }) => {
+  const { attestation } = verification;
+
+  const download = () => {
+    const blob = new Blob([JSON.stringify(attestation, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `reserve-attestation-${attestation.custodian.slice(0, 8)}-${attestation.timestamp}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-3 bg-gray-900/50 rounded space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-white font-semibold">
+            {verification.custodianName ?? shorten(attestation.custodian)}
+          </p>
+          <p className="text-xs text-gray-500 font-mono">{shorten(attestation.custodian)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-white font-semibold">${formatWUSDT(attestation.amount, true)}</p>
+          <p className="text-xs text-gray-500">{formatAge(verification.ageMs)}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Check label="Signature" ok={verification.signatureValid} />
+        <Check label="Trusted custodian" ok={verification.trusted} />
+        <Check label="Fresh" ok={verification.fresh} />
+        <Check
+          label={attestation.accounts ? `${attestation.accounts.length} accounts` : 'Accounts not published'}
+          ok={verification.accountsValid}
+        />
+        <Button size="sm" variant="ghost" onClick={download} className="h-6 text-xs ml-auto">
+          <Download className="h-3 w-3 mr-1" />
+          JSON
+        </Button>
+      </div>
+
+      <p className="text-xs text-gray-500 font-mono break-all">Root: {attestation.accountsRoot}</p>
+    </div>
+  );
+};
+
+/**
+ * Published reserve attestations, each re-verified in the browser,
+ * plus a form to verify an attestation file independently.
+ */
+export const ReserveAttestations: React.FC<ReserveAttestationsProps> = ({ verifications }) => {
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<AttestationVerification | null>(null);
+  const [parseError, setParseError] = useState(false);
+
+  const handleVerify = () => {
+    const attestation = decodeReserveAttestation(input);
+    setParseError(!attestation);
+    setResult(attestation ? verifyReserveAttestation(attestation) : null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-gray-800/50 border-gray-700">
+        <h3 className="text-lg font-semibold text-white mb-1">Custodian Attestations</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Signed by each custodian and verified in your browser. Only valid attestations
+          from the last 24 hours count towards the reserve.
+        </p>
+
+        {verifications.length === 0 ? (
+          <p className="text-sm text-gray-500">No attestations published yet</p>
+        ) : (
+          <div className="space-y-3">
+            {verifications.map((verification) => (
+              <VerificationRow
+                key={`${verification.attestation.custodian}-${verification.attestation.timestamp}`}
+                verification={verification}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 p-3 bg-gray-900/50 rounded">
+          <p className="text-sm text-gray-400 mb-2">Trusted custodian keys</p>
+          {TRUSTED_CUSTODIANS.length === 0 ? (
+            <p className="text-xs text-gray-500">No custodians configured</p>
+          ) : (
+            TRUSTED_CUSTODIANS.map((custodian) => (
+              <div key={custodian.address} className="flex justify-between text-xs py-1">
+                <span className="text-gray-300">{custodian.name}</span>
+                <span className="text-gray-500 font-mono">{custodian.address}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
+      <Card className="p-6 bg-gray-800/50 border-gray-700">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-400" />
+          Verify an Attestation
+        </h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Paste an attestation JSON (downloaded above or received from a custodian) to check
+          its signature, freshness and account list yourself.
+        </p>
+
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='{"scheme":"pezkuwi-por-v1","custodian":"5...","timestamp":...}'
+          className="font-mono text-xs bg-gray-900 border-gray-700 min-h-[120px]"
+        />
+        <Button onClick={handleVerify} disabled={!input.trim()} className="mt-3" size="sm">
+          Verify
+        </Button>
+
+        {parseError && <p className="text-sm text-red-400 mt-3">Not a valid attestation</p>}
+
+        {result && (
+          <div className="mt-3 space-y-2">
+            <Badge variant={result.valid ? 'default' : 'destructive'}>
+              {result.valid ? 'Valid attestation' : 'Invalid attestation'}
+            </Badge>
+            <VerificationRow verification={result} />
+            {result.errors.map((err) => (
+              <p key={err} className="text-sm text-red-400">{err}</p>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -1,61 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { DollarSign, TrendingUp, Shield, AlertTriangle, RefreshCw, ExternalLink } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, ReferenceLine } from 'recharts';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { usePolkadot } from '@/contexts/PolkadotContext';
-import { getWUSDTTotalSupply, checkReserveHealth, formatWUSDT } from '@pezkuwi/lib/usdt';
+import { useProofOfReserves } from '@/hooks/useProofOfReserves';
+import { formatWUSDT } from '@pezkuwi/lib/usdt';
+import { RESERVE_ALERT_THRESHOLD, TRUSTED_CUSTODIANS } from '@pezkuwi/lib/proof-of-reserves';
 import { MultisigMembers } from './MultisigMembers';
+import { ReserveAttestations } from './ReserveAttestations';
 
 interface ReservesDashboardProps {
   specificAddresses?: Record<string, string>;
-  offChainReserveAmount?: number; // Manual input for MVP
 }
 
 export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
   specificAddresses = {},
-  offChainReserveAmount = 0,
 }) => {
-  const { api, isApiReady } = usePolkadot();
+  const { status, history, loading, error, lastUpdate, refresh } = useProofOfReserves();
 
-  const [wusdtSupply, setWusdtSupply] = useState(0);
-  const [offChainReserve, setOffChainReserve] = useState(offChainReserveAmount);
-  const [collateralRatio, setCollateralRatio] = useState(0);
-  const [isHealthy, setIsHealthy] = useState(true);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const wusdtSupply = status?.wusdtSupply ?? 0;
+  const offChainReserve = status?.offChainReserve ?? 0;
+  const collateralRatio = status?.collateralRatio ?? 0;
+  const isHealthy = status?.isHealthy ?? true;
+  const attestedCount = status?.summary.counted.length ?? 0;
+  const missingCustodians = status?.summary.missingCustodians ?? [];
+  const oldestAttestation = status?.summary.oldestTimestamp;
 
-  // Fetch reserve data
-  const fetchReserveData = async () => {
-    if (!api || !isApiReady) return;
+  const chartData = history.map((point) => ({
+    time: new Date(point.recordedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    ratio: point.collateralRatio,
+    block: point.blockNumber,
+  }));
 
-    setLoading(true);
-    try {
-      const supply = await getWUSDTTotalSupply(api);
-      setWusdtSupply(supply);
-
-      const health = await checkReserveHealth(api, offChainReserve);
-      setCollateralRatio(health.collateralRatio);
-      setIsHealthy(health.isHealthy);
-      setLastUpdate(new Date());
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('Error fetching reserve data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchReserveData();
-
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(fetchReserveData, 30000);
-    return () => clearInterval(interval);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [api, isApiReady, offChainReserve]);
-     
+  const formattedRatio = Number.isFinite(collateralRatio) ? `${collateralRatio.toFixed(2)}%` : '∞';
 
   const getHealthColor = () => {
     if (collateralRatio >= 105) return 'text-green-500';
@@ -81,7 +61,7 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
           <p className="text-gray-400 mt-1">Real-time reserve status and multisig info</p>
         </div>
         <Button
-          onClick={fetchReserveData}
+          onClick={refresh}
           variant="outline"
           size="sm"
           disabled={loading}
@@ -112,22 +92,13 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
         <Card className="p-4 bg-gray-800/50 border-gray-700">
           <div className="flex items-start justify-between">
             <div>
-              <p className="text-sm text-gray-400">Off-chain USDT Reserve</p>
+              <p className="text-sm text-gray-400">Verified Off-chain Reserve</p>
               <p className="text-2xl font-bold text-white mt-1">
                 ${formatWUSDT(offChainReserve)}
               </p>
-              <div className="flex items-center gap-2 mt-1">
-                <input
-                  type="number"
-                  value={offChainReserve}
-                  onChange={(e) => setOffChainReserve(parseFloat(e.target.value) || 0)}
-                  className="w-24 text-xs bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white"
-                  placeholder="Amount"
-                />
-                <Button size="sm" variant="ghost" onClick={fetchReserveData} className="text-xs h-6">
-                  Update
-                </Button>
-              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {attestedCount} of {TRUSTED_CUSTODIANS.length} custodians attested
+              </p>
             </div>
             <Shield className="h-8 w-8 text-green-400" />
           </div>
@@ -139,7 +110,7 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
             <div>
               <p className="text-sm text-gray-400">Collateral Ratio</p>
               <p className={`text-2xl font-bold mt-1 ${getHealthColor()}`}>
-                {collateralRatio.toFixed(2)}%
+                {formattedRatio}
               </p>
               <div className="flex items-center gap-2 mt-1">
                 <Badge
@@ -155,20 +126,38 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
         </Card>
       </div>
 
+      {error && (
+        <Alert className="bg-red-900/20 border-red-500">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>Failed to load reserve data: {error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Health Alert */}
-      {!isHealthy && (
+      {status && !isHealthy && (
         <Alert className="bg-red-900/20 border-red-500">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
             <p className="font-semibold">Under-collateralized!</p>
             <p className="text-sm">
-              Reserve ratio is below 100%. Off-chain USDT reserves ({formatWUSDT(offChainReserve)})
-              are less than on-chain wUSDT supply ({formatWUSDT(wusdtSupply)}).
+              Reserve ratio is below {RESERVE_ALERT_THRESHOLD}%. Verified off-chain USDT reserves
+              ({formatWUSDT(offChainReserve)}) are less than on-chain wUSDT supply ({formatWUSDT(wusdtSupply)}).
             </p>
           </AlertDescription>
         </Alert>
       )}
 
+      {/* Missing attestations */}
+      {status && missingCustodians.length > 0 && (
+        <Alert className="bg-yellow-900/20 border-yellow-500">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            No valid attestation in the last 24 hours from{' '}
+            {missingCustodians.map((c) => c.name).join(', ')}. Their reserves are not counted.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Tabs */}
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="grid w-full grid-cols-3 bg-gray-800">
@@ -196,7 +185,7 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
               <div className="flex justify-between p-3 bg-gray-900/50 rounded">
                 <span className="text-gray-300">Backing Ratio</span>
                 <span className={`font-semibold ${getHealthColor()}`}>
-                  {collateralRatio.toFixed(2)}%
+                  {formattedRatio}
                 </span>
               </div>
 
@@ -207,9 +196,16 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
                 </Badge>
               </div>
 
+              <div className="flex justify-between p-3 bg-gray-900/50 rounded">
+                <span className="text-gray-300">Oldest Attestation</span>
+                <span className="text-gray-400 text-sm">
+                  {oldestAttestation ? new Date(oldestAttestation).toLocaleString() : '—'}
+                </span>
+              </div>
+
               <div className="flex justify-between p-3 bg-gray-900/50 rounded">
                 <span className="text-gray-300">Last Updated</span>
-                <span className="text-gray-400 text-sm">{lastUpdate.toLocaleTimeString()}</span>
+                <span className="text-gray-400 text-sm">{lastUpdate?.toLocaleTimeString() ?? '—'}</span>
               </div>
             </div>
 
@@ -224,6 +220,30 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
               </AlertDescription>
             </Alert>
           </Card>
+
+          <Card className="p-6 bg-gray-800/50 border-gray-700">
+            <h3 className="text-lg font-semibold text-white mb-4">Collateral Ratio History</h3>
+
+            {chartData.length === 0 ? (
+              <p className="text-sm text-gray-500">No history recorded yet</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={chartData}>
+                  <XAxis dataKey="time" stroke="#6b7280" fontSize={12} />
+                  <YAxis stroke="#6b7280" fontSize={12} domain={['auto', 'auto']} unit="%" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                    formatter={(value: number) => [`${value.toFixed(2)}%`, 'Ratio']}
+                    labelFormatter={(label, payload) =>
+                      payload?.[0] ? `${label} · block #${payload[0].payload.block}` : label
+                    }
+                  />
+                  <ReferenceLine y={RESERVE_ALERT_THRESHOLD} stroke="#ef4444" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="ratio" stroke="#60a5fa" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </Card>
         </TabsContent>
 
         {/* Multisig Tab */}
@@ -236,9 +256,9 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
 
         {/* Proof of Reserves Tab */}
         <TabsContent value="proof" className="space-y-4">
-          <Card className="p-6 bg-gray-800/50 border-gray-700">
-            <h3 className="text-lg font-semibold text-white mb-4">Proof of Reserves</h3>
+          <ReserveAttestations verifications={status?.verifications ?? []} />
 
+          <Card className="p-6 bg-gray-800/50 border-gray-700">
             <div className="space-y-4">
               <Alert className="bg-green-900/20 border-green-500">
                 <Shield className="h-4 w-4" />
@@ -246,9 +266,9 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
                   <p className="font-semibold mb-2">How to Verify Reserves:</p>
                   <ol className="list-decimal list-inside space-y-1 text-sm">
                     <li>Check on-chain wUSDT supply via Polkadot.js Apps</li>
-                    <li>Verify multisig account balance (if reserves on-chain)</li>
-                    <li>Compare with off-chain treasury (bank/exchange account)</li>
-                    <li>Ensure ratio ≥ 100%</li>
+                    <li>Download each custodian attestation and verify its signature above</li>
+                    <li>Ask a custodian for the Merkle proof of an account you can check independently</li>
+                    <li>Ensure the sum of fresh attestations keeps the ratio ≥ 100%</li>
                   </ol>
                 </AlertDescription>
               </Alert>
@@ -276,17 +296,6 @@ export const ReservesDashboard: React.FC<ReservesDashboardProps> = ({
                   </a>
                 </div>
               </div>
-
-              <div className="p-4 bg-orange-900/20 border border-orange-500/30 rounded-lg">
-                <p className="text-sm font-semibold text-orange-400 mb-2">
-                  Note: Off-chain Reserves
-                </p>
-                <p className="text-sm text-gray-300">
-                  In this MVP implementation, off-chain USDT reserves are manually reported.
-                  For full decentralization, consider integrating with oracle services or
-                  using XCM bridge for on-chain verification.
-                </p>
-              </div>
             </div>
           </Card>
         </TabsContent>
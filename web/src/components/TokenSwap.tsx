@@ -10,6 +10,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { ASSET_IDS, formatBalance, parseAmount } from '@pezkuwi/lib/wallet';
+import { buildSwapCalls, calculateRouteFee, computeBestSwapRoute, fetchPools } from '@pezkuwi/utils/dex';
+import { PoolInfo } from '@/types/dex';
 import { useToast } from '@/hooks/use-toast';
 import { KurdistanSun } from './KurdistanSun';
 import { PriceChart } from './trading/PriceChart';
@@ -21,6 +23,12 @@ const AVAILABLE_TOKENS = [
   { symbol: 'USDT', emoji: '💵', assetId: 1000, name: 'USDT', badge: true, displaySymbol: 'USDT' },
 ] as const;
 
+// HEZ is routed as wHEZ (asset 0) behind the scenes
+const getPoolAssetId = (token: string): number =>
+  AVAILABLE_TOKENS.find(t => t.symbol === token)?.assetId ?? ASSET_IDS[token as keyof typeof ASSET_IDS];
+
+const getTokenDecimals = (token: string) => (token === 'USDT' ? 6 : 12);
+
 const TokenSwap = () => {
   const { api, isApiReady, selectedAccount } = usePolkadot();
   const { balances, refreshBalances } = useWallet();
@@ -37,8 +45,8 @@ const TokenSwap = () => {
   // DEX availability check
   const [isDexAvailable, setIsDexAvailable] = useState(false);
 
-  // Exchange rate and loading states
-  const [exchangeRate, setExchangeRate] = useState(0);
+  // Router pools and loading state
+  const [routerPools, setRouterPools] = useState<PoolInfo[]>([]);
   const [isLoadingRate, setIsLoadingRate] = useState(false);
 
   // Get balances from wallet context
@@ -71,9 +79,6 @@ const TokenSwap = () => {
   const [swapHistory, setSwapHistory] = useState<SwapTransaction[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
-  // Pool reserves for AMM calculation
-  const [poolReserves, setPoolReserves] = useState<{ reserve0: number; reserve1: number; asset0: number; asset1: number } | null>(null);
-
   // Helper: Get display name for token (USDT instead of wUSDT)
   const getTokenDisplayName = (tokenSymbol: string) => {
     const token = AVAILABLE_TOKENS.find(t => t.symbol === tokenSymbol);
@@ -87,65 +92,62 @@ const TokenSwap = () => {
     return fromAmountNum > 0 && fromAmountNum > fromBalanceNum;
   }, [fromAmount, fromBalance]);
 
-  // Calculate toAmount and price impact using AMM constant product formula
+  // Best route across all pools; amounts follow the runtime's integer AMM math
   const swapCalculations = React.useMemo(() => {
-    if (!fromAmount || !poolReserves || parseFloat(fromAmount) <= 0) {
-      return { toAmount: '', priceImpact: 0, minimumReceived: '', lpFee: '' };
+    if (!fromAmount || parseFloat(fromAmount) <= 0 || routerPools.length === 0) {
+      return { toAmount: '', priceImpact: 0, minimumReceived: '', lpFee: '', quote: null };
     }
 
-    const amountIn = parseFloat(fromAmount);
-    const { reserve0, reserve1, asset0 } = poolReserves;
-
-    // Determine which reserve is input and which is output
-    const fromAssetId = fromToken === 'HEZ' ? 0 : ASSET_IDS[fromToken as keyof typeof ASSET_IDS];
-    const isAsset0ToAsset1 = fromAssetId === asset0;
+    const fromDecimals = getTokenDecimals(fromToken);
+    const toDecimals = getTokenDecimals(toToken);
+    const amountIn = parseAmount(fromAmount, fromDecimals).toString();
 
-    const reserveIn = isAsset0ToAsset1 ? reserve0 : reserve1;
-    const reserveOut = isAsset0ToAsset1 ? reserve1 : reserve0;
-
-    // Uniswap V2 AMM formula (matches Substrate runtime exactly)
-    // Runtime: amount_in_with_fee = amount_in * (1000 - LPFee) = amount_in * 970
-    // LPFee = 30 (3% fee, not 0.3%!)
-    // Formula: amountOut = (amountIn * 970 * reserveOut) / (reserveIn * 1000 + amountIn * 970)
-    const LP_FEE = 30; // 3% fee
-    const amountInWithFee = amountIn * (1000 - LP_FEE); // = amountIn * 970
-    const numerator = amountInWithFee * reserveOut;
-    const denominator = reserveIn * 1000 + amountInWithFee;
-    const amountOut = numerator / denominator;
-
-    // Calculate price impact (like Uniswap)
-    // Price impact = (amount_in / reserve_in) / (1 + amount_in / reserve_in) * 100
-    const priceImpact = (amountIn / (reserveIn + amountIn)) * 100;
+    const quote = computeBestSwapRoute(
+      routerPools,
+      getPoolAssetId(fromToken),
+      getPoolAssetId(toToken),
+      amountIn,
+      parseFloat(slippage) || 0,
+      { maxSplits: 3 }
+    );
 
-    // Calculate LP fee amount
-    const lpFeeAmount = (amountIn * (LP_FEE / 1000)).toFixed(4);
+    if (quote.legs.length === 0) {
+      return { toAmount: '', priceImpact: 0, minimumReceived: '', lpFee: '', quote: null };
+    }
 
-    // Calculate minimum received with slippage
-    const minReceived = (amountOut * (1 - parseFloat(slippage) / 100)).toFixed(4);
+    const lpFeeAmount = formatBalance(calculateRouteFee(routerPools, quote), fromDecimals);
 
-    if (import.meta.env.DEV) console.log('🔍 Uniswap V2 AMM:', {
+    if (import.meta.env.DEV) console.log('🔍 Swap route:', {
+      route: quote.route,
       amountIn,
-      amountInWithFee,
-      reserveIn,
-      reserveOut,
-      numerator,
-      denominator,
-      amountOut,
-      priceImpact: priceImpact.toFixed(2) + '%',
-      lpFeeAmount,
-      minReceived,
-      feePercent: LP_FEE / 10 + '%'
+      amountOut: quote.amountOut,
+      priceImpact: quote.priceImpact + '%',
+      minimumReceived: quote.minimumReceived,
     });
 
     return {
-      toAmount: amountOut.toFixed(4),
-      priceImpact,
-      minimumReceived: minReceived,
-      lpFee: lpFeeAmount
+      toAmount: formatBalance(quote.amountOut, toDecimals),
+      priceImpact: parseFloat(quote.priceImpact),
+      minimumReceived: formatBalance(quote.minimumReceived, toDecimals),
+      lpFee: lpFeeAmount,
+      quote
     };
-  }, [fromAmount, poolReserves, fromToken, slippage]);
+  }, [fromAmount, routerPools, fromToken, toToken, slippage]);
 
-  const { toAmount, priceImpact, minimumReceived, lpFee } = swapCalculations;
+  const { toAmount, priceImpact, minimumReceived, lpFee, quote } = swapCalculations;
+
+  // Spot rate: quote for one unit of the input token
+  const exchangeRate = React.useMemo(() => {
+    if (routerPools.length === 0) return 0;
+
+    const unitQuote = computeBestSwapRoute(
+      routerPools,
+      getPoolAssetId(fromToken),
+      getPoolAssetId(toToken),
+      parseAmount(1, getTokenDecimals(fromToken)).toString()
+    );
+    return Number(unitQuote.amountOut) / 10 ** getTokenDecimals(toToken);
+  }, [routerPools, fromToken, toToken]);
 
   // Check if AssetConversion pallet is available
   useEffect(() => {
@@ -163,160 +165,21 @@ const TokenSwap = () => {
     }
   }, [api, isApiReady]);
 
-  // Fetch exchange rate from AssetConversion pool
-  // Always use wHEZ/PEZ pool (the only valid pool)
-  useEffect(() => {
-    const fetchExchangeRate = async () => {
-      if (import.meta.env.DEV) console.log('🔍 fetchExchangeRate check:', { api: !!api, isApiReady, isDexAvailable, fromToken, toToken });
-
-      if (!api || !isApiReady || !isDexAvailable) {
-        if (import.meta.env.DEV) console.log('⚠️ Skipping fetchExchangeRate:', { api: !!api, isApiReady, isDexAvailable });
-        return;
-      }
-
-      if (import.meta.env.DEV) console.log('✅ Starting fetchExchangeRate...');
-      setIsLoadingRate(true);
-      try {
-        // Map user-selected tokens to actual pool assets
-        // HEZ → wHEZ (Asset 0) behind the scenes
-        const getPoolAssetId = (token: string) => {
-          if (token === 'HEZ') return 0; // wHEZ
-          if (token === 'PEZ') return 1;
-          if (token === 'USDT') return 1000;
-          return ASSET_IDS[token as keyof typeof ASSET_IDS];
-        };
-
-        const fromAssetId = getPoolAssetId(fromToken);
-        const toAssetId = getPoolAssetId(toToken);
-
-        if (import.meta.env.DEV) console.log('🔍 Looking for pool:', { fromToken, toToken, fromAssetId, toAssetId });
-
-        // IMPORTANT: Pool ID must be sorted (smaller asset ID first)
-        const [asset1, asset2] = fromAssetId < toAssetId
-          ? [fromAssetId, toAssetId]
-          : [toAssetId, fromAssetId];
-
-        if (import.meta.env.DEV) console.log('🔍 Sorted pool assets:', { asset1, asset2 });
-
-        // Create pool asset tuple [asset1, asset2] - must be sorted!
-        const poolAssets = [
-          { NativeOrAsset: { Asset: asset1 } },
-          { NativeOrAsset: { Asset: asset2 } }
-        ];
-
-        if (import.meta.env.DEV) console.log('🔍 Pool query with:', poolAssets);
-
-        // Query pool from AssetConversion pallet
-        const poolInfo = await api.query.assetConversion.pools(poolAssets);
-        if (import.meta.env.DEV) console.log('🔍 Pool query result:', poolInfo.toHuman());
-
-        if (import.meta.env.DEV) console.log('🔍 Pool isEmpty?', poolInfo.isEmpty, 'exists?', !poolInfo.isEmpty);
+  // Load every pool for the swap router
+  const loadRouterPools = React.useCallback(async () => {
+    if (!api || !isApiReady || !isDexAvailable) return;
 
-        if (poolInfo && !poolInfo.isEmpty) {
-          const pool = poolInfo.toJSON() as Record<string, unknown>;
-          if (import.meta.env.DEV) console.log('🔍 Pool data:', pool);
-
-          try {
-            // New pallet version: reserves are stored in pool account balances
-            // AccountIdConverter implementation in substrate:
-            // blake2_256(&Encode::encode(&(PalletId, PoolId))[..])
-            if (import.meta.env.DEV) console.log('🔍 Deriving pool account using AccountIdConverter...');
-            const { stringToU8a } = await import('@polkadot/util');
-            const { blake2AsU8a } = await import('@polkadot/util-crypto');
-
-            // PalletId for AssetConversion: "py/ascon" (8 bytes)
-            const PALLET_ID = stringToU8a('py/ascon');
-
-            // Create PoolId tuple (u32, u32)
-            const poolId = api.createType('(u32, u32)', [asset1, asset2]);
-            if (import.meta.env.DEV) console.log('🔍 Pool ID:', poolId.toHuman());
-
-            // Create (PalletId, PoolId) tuple: ([u8; 8], (u32, u32))
-            const palletIdType = api.createType('[u8; 8]', PALLET_ID);
-            const fullTuple = api.createType('([u8; 8], (u32, u32))', [palletIdType, poolId]);
-
-            if (import.meta.env.DEV) console.log('🔍 Full tuple encoded length:', fullTuple.toU8a().length);
-            if (import.meta.env.DEV) console.log('🔍 Full tuple bytes:', Array.from(fullTuple.toU8a()));
-
-            // Hash the SCALE-encoded tuple
-            const accountHash = blake2AsU8a(fullTuple.toU8a(), 256);
-            if (import.meta.env.DEV) console.log('🔍 Account hash:', Array.from(accountHash).slice(0, 8));
-
-            const poolAccountId = api.createType('AccountId32', accountHash);
-            if (import.meta.env.DEV) console.log('🔍 Pool AccountId (NEW METHOD):', poolAccountId.toString());
-
-            // Query pool account's asset balances
-            if (import.meta.env.DEV) console.log('🔍 Querying reserves for asset', asset1, 'and', asset2);
-            const reserve0Query = await api.query.assets.account(asset1, poolAccountId);
-            const reserve1Query = await api.query.assets.account(asset2, poolAccountId);
-
-            if (import.meta.env.DEV) console.log('🔍 Reserve0 query result:', reserve0Query.toHuman());
-            if (import.meta.env.DEV) console.log('🔍 Reserve1 query result:', reserve1Query.toHuman());
-            if (import.meta.env.DEV) console.log('🔍 Reserve0 isEmpty?', reserve0Query.isEmpty);
-            if (import.meta.env.DEV) console.log('🔍 Reserve1 isEmpty?', reserve1Query.isEmpty);
-
-            const reserve0Data = reserve0Query.toJSON() as Record<string, unknown>;
-            const reserve1Data = reserve1Query.toJSON() as Record<string, unknown>;
-
-            if (import.meta.env.DEV) console.log('🔍 Reserve0 JSON:', reserve0Data);
-            if (import.meta.env.DEV) console.log('🔍 Reserve1 JSON:', reserve1Data);
-
-            if (reserve0Data && reserve1Data && reserve0Data.balance && reserve1Data.balance) {
-              // Parse hex string balances to BigInt, then to number
-              const balance0Hex = reserve0Data.balance.toString();
-              const balance1Hex = reserve1Data.balance.toString();
-
-              if (import.meta.env.DEV) console.log('🔍 Raw hex balances:', { balance0Hex, balance1Hex });
-
-              // Use correct decimals for each asset
-              // asset1=0 (wHEZ): 12 decimals
-              // asset1=1 (PEZ): 12 decimals
-              // asset2=1000 (wUSDT): 6 decimals
-              const decimals0 = asset1 === 1000 ? 6 : 12; // asset1 is the smaller ID
-              const decimals1 = asset2 === 1000 ? 6 : 12; // asset2 is the larger ID
-
-              const reserve0 = Number(BigInt(balance0Hex)) / (10 ** decimals0);
-              const reserve1 = Number(BigInt(balance1Hex)) / (10 ** decimals1);
-
-              if (import.meta.env.DEV) console.log('✅ Reserves found:', { reserve0, reserve1, decimals0, decimals1 });
-
-              // Store pool reserves for AMM calculation
-              setPoolReserves({
-                reserve0,
-                reserve1,
-                asset0: asset1,  // Sorted pool always has asset1 < asset2
-                asset1: asset2
-              });
-
-              // Also calculate simple exchange rate for display
-              const rate = fromAssetId === asset1
-                ? reserve1 / reserve0  // from asset1 to asset2
-                : reserve0 / reserve1; // from asset2 to asset1
-
-              if (import.meta.env.DEV) console.log('✅ Exchange rate:', rate, 'direction:', fromAssetId === asset1 ? 'asset1→asset2' : 'asset2→asset1');
-              setExchangeRate(rate);
-            } else {
-              if (import.meta.env.DEV) console.warn('⚠️ Pool has no reserves - reserve0Data:', reserve0Data, 'reserve1Data:', reserve1Data);
-              setExchangeRate(0);
-            }
-          } catch (err) {
-            if (import.meta.env.DEV) console.error('❌ Error deriving pool account:', err);
-            setExchangeRate(0);
-          }
-        } else {
-          if (import.meta.env.DEV) console.warn('No liquidity pool found for this pair');
-          setExchangeRate(0);
-        }
-      } catch (error) {
-        if (import.meta.env.DEV) console.error('Failed to fetch exchange rate:', error);
-        setExchangeRate(0);
-      } finally {
-        setIsLoadingRate(false);
-      }
-    };
+    setIsLoadingRate(true);
+    try {
+      setRouterPools(await fetchPools(api));
+    } finally {
+      setIsLoadingRate(false);
+    }
+  }, [api, isApiReady, isDexAvailable]);
 
-    fetchExchangeRate();
-  }, [api, isApiReady, isDexAvailable, fromToken, toToken]);
+  useEffect(() => {
+    loadRouterPools();
+  }, [loadRouterPools]);
 
   // Fetch liquidity pools
   useEffect(() => {
@@ -491,10 +354,10 @@ const TokenSwap = () => {
       return;
     }
 
-    if (!exchangeRate || exchangeRate === 0) {
+    if (!quote) {
       toast({
         title: 'Error',
-        description: 'No liquidity pool available for this pair',
+        description: 'No swap route available for this pair',
         variant: 'destructive',
       });
       return;
@@ -516,112 +379,27 @@ const TokenSwap = () => {
     setIsSwapping(true);
     setShowConfirm(false); // Close dialog before transaction starts
     try {
-      // Get correct decimals for each token
-      const getTokenDecimals = (token: string) => {
-        if (token === 'USDT') return 6; // USDT has 6 decimals
-        return 12; // HEZ, wHEZ, PEZ all have 12 decimals
-      };
-
-      const fromDecimals = getTokenDecimals(fromToken);
-      const toDecimals = getTokenDecimals(toToken);
-
-      const amountIn = parseAmount(fromAmount, fromDecimals);
-      const minAmountOut = parseAmount(
-        (parseFloat(toAmount) * (1 - parseFloat(slippage) / 100)).toString(),
-        toDecimals
-      );
-
       if (import.meta.env.DEV) console.log('💰 Swap amounts:', {
         fromToken,
         toToken,
         fromAmount,
         toAmount,
-        fromDecimals,
-        toDecimals,
-        amountIn: amountIn.toString(),
-        minAmountOut: minAmountOut.toString()
+        route: quote.route,
+        amountIn: quote.amountIn,
+        minAmountOut: quote.minimumReceived
       });
 
       // Get signer from extension
       const { web3FromAddress } = await import('@polkadot/extension-dapp');
       const injector = await web3FromAddress(selectedAccount.address);
 
-      // Build transaction based on token types
-      let tx;
-
-      if (fromToken === 'HEZ' && toToken === 'PEZ') {
-        // HEZ → PEZ: wrap(HEZ→wHEZ) then swap(wHEZ→PEZ)
-        const wrapTx = api.tx.tokenWrapper.wrap(amountIn.toString());
-        // AssetKind = u32, so swap path is just [0, 1]
-        const swapPath = [0, 1]; // wHEZ → PEZ
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          swapPath,
-          amountIn.toString(),
-          minAmountOut.toString(),
-          selectedAccount.address,
-          true
-        );
-        tx = api.tx.utility.batchAll([wrapTx, swapTx]);
-
-      } else if (fromToken === 'PEZ' && toToken === 'HEZ') {
-        // PEZ → HEZ: swap(PEZ→wHEZ) then unwrap(wHEZ→HEZ)
-        // AssetKind = u32, so swap path is just [1, 0]
-        const swapPath = [1, 0]; // PEZ → wHEZ
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          swapPath,
-          amountIn.toString(),
-          minAmountOut.toString(),
-          selectedAccount.address,
-          true
-        );
-        const unwrapTx = api.tx.tokenWrapper.unwrap(minAmountOut.toString());
-        tx = api.tx.utility.batchAll([swapTx, unwrapTx]);
-
-      } else if (fromToken === 'HEZ') {
-        // HEZ → Any Asset: wrap(HEZ→wHEZ) then swap(wHEZ→Asset)
-        const wrapTx = api.tx.tokenWrapper.wrap(amountIn.toString());
-        // Map token symbol to asset ID
-        const toAssetId = toToken === 'PEZ' ? 1 : toToken === 'USDT' ? 1000 : ASSET_IDS[toToken as keyof typeof ASSET_IDS];
-        const swapPath = [0, toAssetId]; // wHEZ → target asset
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          swapPath,
-          amountIn.toString(),
-          minAmountOut.toString(),
-          selectedAccount.address,
-          true
-        );
-        tx = api.tx.utility.batchAll([wrapTx, swapTx]);
-
-      } else if (toToken === 'HEZ') {
-        // Any Asset → HEZ: swap(Asset→wHEZ) then unwrap(wHEZ→HEZ)
-        // Map token symbol to asset ID
-        const fromAssetId = fromToken === 'PEZ' ? 1 : fromToken === 'USDT' ? 1000 : ASSET_IDS[fromToken as keyof typeof ASSET_IDS];
-        const swapPath = [fromAssetId, 0]; // source asset → wHEZ
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          swapPath,
-          amountIn.toString(),
-          minAmountOut.toString(),
-          selectedAccount.address,
-          true
-        );
-        const unwrapTx = api.tx.tokenWrapper.unwrap(minAmountOut.toString());
-        tx = api.tx.utility.batchAll([swapTx, unwrapTx]);
-
-      } else {
-        // Direct swap between assets (PEZ ↔ USDT, etc.)
-        // Map token symbols to asset IDs
-        const fromAssetId = fromToken === 'PEZ' ? 1 : fromToken === 'USDT' ? 1000 : ASSET_IDS[fromToken as keyof typeof ASSET_IDS];
-        const toAssetId = toToken === 'PEZ' ? 1 : toToken === 'USDT' ? 1000 : ASSET_IDS[toToken as keyof typeof ASSET_IDS];
-        const swapPath = [fromAssetId, toAssetId];
-
-        tx = api.tx.assetConversion.swapExactTokensForTokens(
-          swapPath,
-          amountIn.toString(),
-          minAmountOut.toString(),
-          selectedAccount.address,
-          true
-        );
-      }
+      // One swap per route leg; HEZ is wrapped before and unwrapped after
+      const calls = [
+        ...(fromToken === 'HEZ' ? [api.tx.tokenWrapper.wrap(quote.amountIn)] : []),
+        ...buildSwapCalls(api, quote, selectedAccount.address),
+        ...(toToken === 'HEZ' ? [api.tx.tokenWrapper.unwrap(quote.minimumReceived)] : []),
+      ];
+      const tx = calls.length === 1 ? calls[0] : api.tx.utility.batchAll(calls);
 
       // Sign and send transaction
       await tx.signAndSend(
@@ -677,6 +455,7 @@ const TokenSwap = () => {
 
               // Refresh balances and history without page reload
               await refreshBalances();
+              await loadRouterPools();
               if (import.meta.env.DEV) console.log('✅ Balances refreshed after swap');
 
               // Refresh swap history after 3 seconds (wait for block finalization)
@@ -1040,6 +819,14 @@ const TokenSwap = () => {
                 </div>
               )}
 
+              {/* Route */}
+              {quote && (
+                <div className="flex justify-between gap-4 text-sm">
+                  <span className="text-gray-400">Route</span>
+                  <span className="text-gray-300 text-right">{quote.route}</span>
+                </div>
+              )}
+
               <div className="flex justify-between text-sm pt-2 border-t border-gray-700">
                 <span className="text-gray-400">Slippage Tolerance</span>
                 <span className="font-semibold text-blue-400">{slippage}%</span>
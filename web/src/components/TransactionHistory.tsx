@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import {
   Dialog,
@@ -8,230 +8,67 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { History, ExternalLink, ArrowUpRight, ArrowDownRight, RefreshCw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { History, ExternalLink, ArrowUpRight, ArrowDownRight, ArrowLeftRight, RefreshCw, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  getTransactions,
+  getTransactionsCsvUrl,
+  getAccountTransfers,
+  getTransactionDirection,
+  formatTransferAmount,
+  INDEXED_ASSET_OPTIONS,
+  type IndexedAsset,
+  type IndexedTransaction,
+  type TransactionQuery,
+} from '@pezkuwi/lib/transaction-history';
 
 interface TransactionHistoryProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface Transaction {
-  blockNumber: number;
-  extrinsicIndex: number;
-  hash: string;
-  method: string;
-  section: string;
-  from: string;
-  to?: string;
-  amount?: string;
-  success: boolean;
-  timestamp?: number;
-}
+const ALL = 'all';
+
+const PALLET_OPTIONS = ['balances', 'assets', 'assetConversion', 'tokenWrapper', 'staking', 'utility', 'pezRewards', 'welati'];
 
 export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ isOpen, onClose }) => {
-  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const { selectedAccount } = usePolkadot();
   const { toast } = useToast();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [transactions, setTransactions] = useState<IndexedTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [asset, setAsset] = useState<string>(ALL);
+  const [pallet, setPallet] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
 
-  const fetchTransactions = async () => {
-    if (!api || !isApiReady || !selectedAccount) return;
-
-    setIsLoading(true);
-    try {
-      if (import.meta.env.DEV) console.log('Fetching transactions...');
-      const currentBlock = await api.rpc.chain.getBlock();
-      const currentBlockNumber = currentBlock.block.header.number.toNumber();
-
-      if (import.meta.env.DEV) console.log('Current block number:', currentBlockNumber);
-      
-      const txList: Transaction[] = [];
-      const blocksToCheck = Math.min(200, currentBlockNumber);
-
-      for (let i = 0; i < blocksToCheck && txList.length < 20; i++) {
-        const blockNumber = currentBlockNumber - i;
-        
-        try {
-          const blockHash = await api.rpc.chain.getBlockHash(blockNumber);
-          const block = await api.rpc.chain.getBlock(blockHash);
-
-          // Try to get timestamp, but don&apos;t fail if state is pruned
-          let timestamp = 0;
-          try {
-            const ts = await api.query.timestamp.now.at(blockHash);
-            timestamp = ts.toNumber();
-          } catch {
-            // State pruned, use current time as fallback
-            timestamp = Date.now();
-          }
-          
-          if (import.meta.env.DEV) console.log(`Block #${blockNumber}: ${block.block.extrinsics.length} extrinsics`);
-          
-          // Check each extrinsic in the block
-          block.block.extrinsics.forEach((extrinsic, index) => {
-            // Skip unsigned extrinsics (system calls)
-            if (!extrinsic.isSigned) {
-              return;
-            }
-
-            const { method, signer } = extrinsic;
-            
-            if (import.meta.env.DEV) console.log(`  Extrinsic #${index}: ${method.section}.${method.method}, signer: ${signer.toString()}`);
-            
-            // Check if transaction involves our account
-            const fromAddress = signer.toString();
-            const isFromOurAccount = fromAddress === selectedAccount.address;
-
-            // Only track transactions from this account
-            if (!isFromOurAccount) {
-              return;
-            }
+  const address = selectedAccount?.address;
 
-            // Parse balances.transfer or balances.transferKeepAlive
-            if (method.section === 'balances' &&
-                (method.method === 'transfer' || method.method === 'transferKeepAlive')) {
-              const [dest, value] = method.args;
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: method.method,
-                section: method.section,
-                from: fromAddress,
-                to: dest.toString(),
-                amount: value.toString(),
-                success: true,
-                timestamp: timestamp,
-              });
-            }
+  const buildQuery = useCallback((): Omit<TransactionQuery, 'cursor' | 'limit'> => ({
+    account: address,
+    asset: asset === ALL ? undefined : (asset as IndexedAsset),
+    pallet: pallet === ALL ? undefined : pallet,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  }), [address, asset, pallet, fromDate, toDate]);
 
-            // Parse assets.transfer (PEZ, USDT, etc.)
-            else if (method.section === 'assets' && method.method === 'transfer') {
-              const [assetId, dest, value] = method.args;
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: `${method.method} (Asset ${assetId.toString()})`,
-                section: method.section,
-                from: fromAddress,
-                to: dest.toString(),
-                amount: value.toString(),
-                success: true,
-                timestamp: timestamp,
-              });
-            }
+  const fetchTransactions = useCallback(async (cursor: string | null = null) => {
+    if (!address) return;
 
-            // Parse staking operations
-            else if (method.section === 'staking') {
-              if (method.method === 'bond' || method.method === 'bondExtra') {
-                const value = method.args[method.method === 'bond' ? 1 : 0];
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: value.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'unbond') {
-                const [value] = method.args;
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: value.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'nominate' || method.method === 'withdrawUnbonded' || method.method === 'chill') {
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  success: true,
-                  timestamp: timestamp,
-                });
-              }
-            }
-
-            // Parse DEX operations
-            else if (method.section === 'dex') {
-              if (method.method === 'swap') {
-                const [, amountIn] = method.args;
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: amountIn.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'addLiquidity' || method.method === 'removeLiquidity') {
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  success: true,
-                  timestamp: timestamp,
-                });
-              }
-            }
-
-            // Parse stakingScore operations
-            else if (method.section === 'stakingScore' && method.method === 'startTracking') {
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: method.method,
-                section: method.section,
-                from: fromAddress,
-                success: true,
-                timestamp: timestamp,
-              });
-            }
-
-            // Parse pezRewards operations
-            else if (method.section === 'pezRewards' && method.method === 'claimReward') {
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: method.method,
-                section: method.section,
-                from: fromAddress,
-                success: true,
-                timestamp: timestamp,
-              });
-            }
-          });
-        } catch (blockError) {
-          if (import.meta.env.DEV) console.warn(`Error processing block #${blockNumber}:`, blockError);
-          // Continue to next block
-        }
-      }
-      
-      if (import.meta.env.DEV) console.log('Found transactions:', txList.length);
-      
-      setTransactions(txList);
-    } catch {
+    setIsLoading(true);
+    try {
+      const page = await getTransactions({ ...buildQuery(), cursor });
+      setTransactions((prev) => (cursor ? [...prev, ...page.transactions] : page.transactions));
+      setNextCursor(page.nextCursor);
+    } catch (error) {
       if (import.meta.env.DEV) console.error('Failed to fetch transactions:', error);
       toast({
         title: "Error",
@@ -241,56 +78,122 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ isOpen,
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [address, buildQuery, toast]);
 
   useEffect(() => {
     if (isOpen) {
       fetchTransactions();
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, api, isApiReady, selectedAccount]);
-     
+  }, [isOpen, fetchTransactions]);
 
-  const formatAmount = (amount: string, decimals: number = 12) => {
-    const value = parseInt(amount) / Math.pow(10, decimals);
-    return value.toFixed(4);
-  };
+  const formatTimestamp = (blockTime: string) => new Date(blockTime).toLocaleString();
 
-  const formatTimestamp = (timestamp?: number) => {
-    if (!timestamp) return 'Unknown';
-    const date = new Date(timestamp);
-    return date.toLocaleString();
+  const renderDirectionIcon = (tx: IndexedTransaction) => {
+    const direction = getTransactionDirection(tx, address!);
+    if (direction === 'in') {
+      return (
+        <div className="bg-green-500/20 p-2 rounded-lg">
+          <ArrowDownRight className="w-4 h-4 text-green-400" />
+        </div>
+      );
+    }
+    if (direction === 'self') {
+      return (
+        <div className="bg-blue-500/20 p-2 rounded-lg">
+          <ArrowLeftRight className="w-4 h-4 text-blue-400" />
+        </div>
+      );
+    }
+    return (
+      <div className="bg-yellow-500/20 p-2 rounded-lg">
+        <ArrowUpRight className="w-4 h-4 text-yellow-400" />
+      </div>
+    );
   };
 
-  const isIncoming = (tx: Transaction) => {
-    return tx.to === selectedAccount?.address;
+  const directionLabel = (tx: IndexedTransaction) => {
+    if (!tx.success) return 'Failed';
+    const direction = getTransactionDirection(tx, address!);
+    return direction === 'in' ? 'Received' : direction === 'self' ? 'Internal' : 'Sent';
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="bg-gray-900 border-gray-800 max-w-3xl max-h-[80vh]">
+      <DialogContent className="bg-gray-900 border-gray-800 max-w-3xl max-h-[85vh]">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <div>
               <DialogTitle className="text-white">Transaction History</DialogTitle>
               <DialogDescription className="text-gray-400">
-                Recent transactions involving your account
+                All finalized transactions involving your account
               </DialogDescription>
             </div>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={fetchTransactions}
-              disabled={isLoading}
-              className="text-gray-400 hover:text-white"
-            >
-              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                asChild
+                className="text-gray-400 hover:text-white"
+                title="Export CSV"
+              >
+                <a href={getTransactionsCsvUrl(buildQuery())} download="transactions.csv">
+                  <Download className="w-4 h-4" />
+                </a>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => fetchTransactions()}
+                disabled={isLoading}
+                className="text-gray-400 hover:text-white"
+              >
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
           </div>
         </DialogHeader>
 
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Select value={asset} onValueChange={setAsset}>
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue placeholder="Asset" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All assets</SelectItem>
+              {INDEXED_ASSET_OPTIONS.map((option) => (
+                <SelectItem key={option.asset} value={option.asset}>{option.symbol}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={pallet} onValueChange={setPallet}>
+            <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {PALLET_OPTIONS.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="bg-gray-800 border-gray-700 text-white"
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="bg-gray-800 border-gray-700 text-white"
+            aria-label="To date"
+          />
+        </div>
+
         <div className="space-y-3 overflow-y-auto max-h-[500px]">
-          {isLoading ? (
+          {isLoading && transactions.length === 0 ? (
             <div className="text-center py-12">
               <RefreshCw className="w-12 h-12 text-gray-600 mx-auto mb-3 animate-spin" />
               <p className="text-gray-400">Loading transactions...</p>
@@ -300,86 +203,101 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ isOpen,
               <History className="w-12 h-12 text-gray-600 mx-auto mb-3" />
               <p className="text-gray-500">No transactions found</p>
               <p className="text-gray-600 text-sm mt-1">
-                Your recent transactions will appear here
+                Your transactions will appear here once their block is finalized
               </p>
             </div>
           ) : (
-            transactions.map((tx) => (
-              <div
-                key={`${tx.blockNumber}-${tx.extrinsicIndex}`}
-                className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 hover:bg-gray-800 transition-colors"
-              >
-                <div className="flex items-start justify-between mb-2">
-                  <div className="flex items-center gap-2">
-                    {isIncoming(tx) ? (
-                      <div className="bg-green-500/20 p-2 rounded-lg">
-                        <ArrowDownRight className="w-4 h-4 text-green-400" />
-                      </div>
-                    ) : (
-                      <div className="bg-yellow-500/20 p-2 rounded-lg">
-                        <ArrowUpRight className="w-4 h-4 text-yellow-400" />
-                      </div>
-                    )}
-                    <div>
-                      <div className="text-white font-semibold">
-                        {isIncoming(tx) ? 'Received' : 'Sent'}
+            <>
+              {transactions.map((tx) => {
+                const transfers = getAccountTransfers(tx, address!);
+                return (
+                  <div
+                    key={tx.id}
+                    className="bg-gray-800/50 border border-gray-700 rounded-lg p-4 hover:bg-gray-800 transition-colors"
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        {renderDirectionIcon(tx)}
+                        <div>
+                          <div className={`font-semibold ${tx.success ? 'text-white' : 'text-red-400'}`}>
+                            {directionLabel(tx)}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {tx.section}.{tx.method}
+                          </div>
+                        </div>
                       </div>
-                      <div className="text-xs text-gray-400">
-                        {tx.section}.{tx.method}
+                      <div className="text-right">
+                        {transfers.map((transfer, i) => (
+                          <div key={i} className="text-white font-mono">
+                            {transfer.to === address && transfer.from !== address ? '+' : '-'}
+                            {formatTransferAmount(transfer)}
+                          </div>
+                        ))}
+                        <div className="text-xs text-gray-400">
+                          Block #{tx.block_number}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-white font-mono">
-                      {isIncoming(tx) ? '+' : '-'}{formatAmount(tx.amount || '0')}
-                    </div>
-                    <div className="text-xs text-gray-400">
-                      Block #{tx.blockNumber}
-                    </div>
-                  </div>
-                </div>
 
-                <div className="grid grid-cols-2 gap-2 text-xs">
-                  <div>
-                    <span className="text-gray-500">From:</span>
-                    <div className="text-gray-300 font-mono">
-                      {tx.from.slice(0, 8)}...{tx.from.slice(-6)}
-                    </div>
-                  </div>
-                  {tx.to && (
-                    <div>
-                      <span className="text-gray-500">To:</span>
-                      <div className="text-gray-300 font-mono">
-                        {tx.to.slice(0, 8)}...{tx.to.slice(-6)}
+                    {transfers.length > 0 && (
+                      <div className="grid grid-cols-2 gap-2 text-xs">
+                        <div>
+                          <span className="text-gray-500">From:</span>
+                          <div className="text-gray-300 font-mono">
+                            {transfers[0].from ? `${transfers[0].from.slice(0, 8)}...${transfers[0].from.slice(-6)}` : 'Mint'}
+                          </div>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">To:</span>
+                          <div className="text-gray-300 font-mono">
+                            {transfers[0].to ? `${transfers[0].to.slice(0, 8)}...${transfers[0].to.slice(-6)}` : 'Burn'}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </div>
+                    )}
 
-                <div className="flex items-center justify-between mt-2 pt-2 border-t border-gray-700">
-                  <div className="text-xs text-gray-500">
-                    {formatTimestamp(tx.timestamp)}
+                    {tx.error && (
+                      <div className="text-xs text-red-400 mt-2">{tx.error}</div>
+                    )}
+
+                    <div className="flex items-center justify-between mt-2 pt-2 border-t border-gray-700">
+                      <div className="text-xs text-gray-500">
+                        {formatTimestamp(tx.block_time)}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-blue-400 hover:text-blue-300"
+                        onClick={() => {
+                          toast({
+                            title: "Transaction Details",
+                            description: `Block #${tx.block_number}, Extrinsic #${tx.extrinsic_index}, ${tx.hash}`,
+                          });
+                        }}
+                      >
+                        View Details
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </Button>
+                    </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-xs text-blue-400 hover:text-blue-300"
-                    onClick={() => {
-                      toast({
-                        title: "Transaction Details",
-                        description: `Block #${tx.blockNumber}, Extrinsic #${tx.extrinsicIndex}`,
-                      });
-                    }}
-                  >
-                    View Details
-                    <ExternalLink className="w-3 h-3 ml-1" />
-                  </Button>
-                </div>
-              </div>
-            ))
+                );
+              })}
+
+              {nextCursor && (
+                <Button
+                  variant="outline"
+                  onClick={() => fetchTransactions(nextCursor)}
+                  disabled={isLoading}
+                  className="w-full border-gray-700 hover:bg-gray-800"
+                >
+                  {isLoading ? 'Loading...' : 'Load more'}
+                </Button>
+              )}
+            </>
           )}
         </div>
       </DialogContent>
     </Dialog>
   );
-};
\ No newline at end of file
+};
@@ -1,54 +1,119 @@
-import React, { useState, useEffect } from 'react';
-import { Calculator, TrendingUp, Users, BookOpen, Award } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, Legend } from 'recharts';
+import { Calculator, TrendingUp, Users, BookOpen, Award, History, RotateCcw } from 'lucide-react';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import {
+  MONTH_IN_BLOCKS,
+  buildTrustTimeline,
+  calculateReferralScore,
+  calculateStakingScore,
+  calculateTrustScore,
+  estimateEpochReward,
+  getTrustScoreDetails,
+  getTrustScoreFactors,
+  type TrustScoreDetails,
+  type TrustScoreFactors,
+} from '@pezkuwi/lib/scores';
+import { calculateTikiScore } from '@pezkuwi/lib/tiki';
+import { getPerwerdeScore } from '@pezkuwi/lib/perwerde';
+import { getLatestRewardPerTrustPoint } from '@pezkuwi/lib/staking';
+import { formatBalance } from '@pezkuwi/lib/wallet';
+
+const COMPONENT_COLORS = {
+  staking: '#c084fc',
+  referral: '#22d3ee',
+  tiki: '#a78bfa',
+  perwerde: '#2dd4bf',
+  other: '#6b7280',
+};
+
+const toMonths = (blocks: number) => Math.floor(blocks / MONTH_IN_BLOCKS);
 
 const TrustScoreCalculator: React.FC = () => {
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const address = selectedAccount?.address;
+
   const [stakedAmount, setStakedAmount] = useState(100);
   const [stakingMonths, setStakingMonths] = useState(6);
   const [referralCount, setReferralCount] = useState(5);
   const [perwerdeScore, setPerwerdeScore] = useState(30);
   const [tikiScore, setTikiScore] = useState(40);
-  const [finalScore, setFinalScore] = useState(0);
-
-  // Calculate base amount score based on pallet_staking_score logic
-  const getAmountScore = (amount: number) => {
-    if (amount <= 100) return 20;
-    if (amount <= 250) return 30;
-    if (amount <= 750) return 40;
-    return 50; // 751+ HEZ
-  };
-
-  // Calculate staking multiplier based on months
-  const getStakingMultiplier = (months: number) => {
-    if (months < 1) return 1.0;
-    if (months < 3) return 1.2;
-    if (months < 6) return 1.4;
-    if (months < 12) return 1.7;
-    return 2.0;
-  };
-
-  // Calculate referral score
-  const getReferralScore = (count: number) => {
-    if (count === 0) return 0;
-    if (count <= 5) return count * 4;
-    if (count <= 20) return 20 + ((count - 5) * 2);
-    return 50;
-  };
 
+  // Connected wallet's on-chain state
+  const [factors, setFactors] = useState<TrustScoreFactors | null>(null);
+  const [perwerdePoints, setPerwerdePoints] = useState(0);
+  const [details, setDetails] = useState<TrustScoreDetails | null>(null);
+  const [rewardPerPoint, setRewardPerPoint] = useState<bigint | null>(null);
+
+  useEffect(() => {
+    if (!api || !isApiReady) return;
+
+    getLatestRewardPerTrustPoint(api).then(setRewardPerPoint);
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    if (!api || !isApiReady || !address) {
+      setFactors(null);
+      setDetails(null);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const [loadedFactors, loadedPerwerde, loadedDetails] = await Promise.all([
+          getTrustScoreFactors(api, address),
+          getPerwerdeScore(api, address),
+          getTrustScoreDetails(api, address),
+        ]);
+        setFactors(loadedFactors);
+        setPerwerdePoints(loadedPerwerde);
+        setDetails(loadedDetails);
+      } catch (error) {
+        if (import.meta.env.DEV) console.error('Failed to load trust score data:', error);
+      }
+    };
+
+    load();
+  }, [api, isApiReady, address]);
+
+  const resetToCurrent = useCallback(() => {
+    if (!factors) return;
+
+    setStakedAmount(Math.round(factors.stakedHez));
+    setStakingMonths(toMonths(factors.stakingBlocks));
+    setReferralCount(factors.referralCount);
+    setPerwerdeScore(perwerdePoints);
+    setTikiScore(calculateTikiScore(factors.tikis));
+  }, [factors, perwerdePoints]);
+
+  // Start the simulation from the wallet's own values
   useEffect(() => {
-    const amountScore = getAmountScore(stakedAmount);
-    const multiplier = getStakingMultiplier(stakingMonths);
-    const adjustedStaking = Math.min(amountScore * multiplier, 100);
-    const adjustedReferral = getReferralScore(referralCount);
+    resetToCurrent();
+  }, [resetToCurrent]);
+
+  // Current score from chain data, through the same formulas as the simulation
+  const current = useMemo(() => factors && calculateTrustScore({
+    staking: factors.hasStartedScoreTracking ? calculateStakingScore(factors.stakedHez, factors.stakingBlocks) : 0,
+    referral: calculateReferralScore(factors.referralCount),
+    perwerde: perwerdePoints,
+    tiki: calculateTikiScore(factors.tikis),
+  }), [factors, perwerdePoints]);
+
+  const simulated = calculateTrustScore({
+    staking: calculateStakingScore(stakedAmount, stakingMonths * MONTH_IN_BLOCKS),
+    referral: calculateReferralScore(referralCount),
+    perwerde: perwerdeScore,
+    tiki: tikiScore,
+  });
+
+  const timeline = useMemo(() => buildTrustTimeline(details?.history ?? []), [details]);
 
-    const weightedSum =
-      adjustedStaking * 100 +
-      adjustedReferral * 300 +
-      perwerdeScore * 300 +
-      tikiScore * 300;
+  const formatReward = (score: number) =>
+    rewardPerPoint === null ? null : formatBalance(estimateEpochReward(score, rewardPerPoint).toString());
 
-    const score = (adjustedStaking * weightedSum) / 1000;
-    setFinalScore(Math.round(score));
-  }, [stakedAmount, stakingMonths, referralCount, perwerdeScore, tikiScore]);
+  const change = current ? simulated.total - current.total : null;
+  const simulatedReward = formatReward(simulated.total);
+  const currentReward = current ? formatReward(current.total) : null;
 
   return (
     <section className="py-20 bg-gray-950">
@@ -58,13 +123,132 @@ const TrustScoreCalculator: React.FC = () => {
             Trust Score Calculator
           </h2>
           <p className="text-gray-400 text-lg max-w-2xl mx-auto">
-            Simulate your trust score based on staking, referrals, education, and roles
+            {factors
+              ? 'See where your trust score comes from and how bonding, referrals or courses would change it'
+              : 'Simulate your trust score based on staking, referrals, education, and roles'}
           </p>
         </div>
 
+        {factors && current && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            {/* Explainer */}
+            <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl border border-gray-800 p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Your Trust Score</h3>
+              <div className="flex items-baseline gap-3 mb-4">
+                <span className="text-5xl font-bold text-cyan-400">{details?.totalScore ?? current.total}</span>
+                <span className="text-gray-500 text-sm">on chain</span>
+              </div>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-400">
+                    Staking ({Math.round(factors.stakedHez)} HEZ, {toMonths(factors.stakingBlocks)} months)
+                  </span>
+                  <span className="text-purple-400">{current.staking} × 100</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Referrals ({factors.referralCount})</span>
+                  <span className="text-cyan-400">{current.referral} × 300</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Perwerde</span>
+                  <span className="text-teal-400">{current.perwerde} × 300</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Tiki ({factors.tikis.length} roles)</span>
+                  <span className="text-purple-400">{current.tiki} × 300</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-800 pt-2 font-mono">
+                  <span className="text-gray-400">{current.staking} × {current.weightedSum} / 1000</span>
+                  <span className="text-white">{current.total}</span>
+                </div>
+              </div>
+              {!factors.hasStartedScoreTracking && (
+                <p className="mt-4 text-sm text-yellow-400">
+                  Staking score tracking has not started, so your trust score is 0 until it does.
+                </p>
+              )}
+              {details && details.totalScore !== current.total && (
+                <p className="mt-4 text-xs text-gray-500">
+                  The chain last recalculated your score at a different state; it updates on the next score change.
+                </p>
+              )}
+              {currentReward !== null && (
+                <div className="mt-4 flex justify-between p-3 bg-gray-800/50 rounded-lg text-sm">
+                  <span className="text-gray-400">Est. PEZ per epoch</span>
+                  <span className="text-green-400 font-semibold">{currentReward} PEZ</span>
+                </div>
+              )}
+            </div>
+
+            {/* Timeline */}
+            <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl border border-gray-800 p-6">
+              <div className="flex items-center mb-4">
+                <History className="w-5 h-5 text-cyan-400 mr-3" />
+                <h3 className="text-lg font-semibold text-white">Score History</h3>
+              </div>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-gray-500">No score changes recorded yet</p>
+              ) : (
+                <ResponsiveContainer width="100%" height={240}>
+                  <LineChart data={timeline}>
+                    <XAxis dataKey="blockNumber" stroke="#6b7280" fontSize={12} />
+                    <YAxis stroke="#6b7280" fontSize={12} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                      labelFormatter={(label) => `Block #${label}`}
+                    />
+                    <Legend />
+                    <Line type="stepAfter" dataKey="score" name="Total" stroke="#ffffff" strokeWidth={2} dot={false} />
+                    {(Object.keys(COMPONENT_COLORS) as (keyof typeof COMPONENT_COLORS)[])
+                      .filter((component) => timeline.some((point) => point[component] !== 0))
+                      .map((component) => (
+                        <Line
+                          key={component}
+                          type="stepAfter"
+                          dataKey={component}
+                          stroke={COMPONENT_COLORS[component]}
+                          dot={false}
+                        />
+                      ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Calculator Inputs */}
           <div className="space-y-6">
+            {factors && (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setStakedAmount(stakedAmount + 100)}
+                  className="px-3 py-1.5 text-sm bg-purple-900/30 text-purple-300 rounded-lg border border-purple-800 hover:bg-purple-900/50"
+                >
+                  Bond +100 HEZ
+                </button>
+                <button
+                  onClick={() => setPerwerdeScore(perwerdeScore + 10)}
+                  className="px-3 py-1.5 text-sm bg-teal-900/30 text-teal-300 rounded-lg border border-teal-800 hover:bg-teal-900/50"
+                >
+                  Finish a course (+10)
+                </button>
+                <button
+                  onClick={() => setReferralCount(referralCount + 1)}
+                  className="px-3 py-1.5 text-sm bg-cyan-900/30 text-cyan-300 rounded-lg border border-cyan-800 hover:bg-cyan-900/50"
+                >
+                  +1 referral
+                </button>
+                <button
+                  onClick={resetToCurrent}
+                  className="px-3 py-1.5 text-sm text-gray-400 rounded-lg border border-gray-700 hover:bg-gray-800 flex items-center gap-1"
+                >
+                  <RotateCcw className="w-3 h-3" /> My values
+                </button>
+              </div>
+            )}
+
             {/* Staking Score */}
             <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl border border-gray-800 p-6">
               <div className="flex items-center mb-4">
@@ -78,7 +262,7 @@ const TrustScoreCalculator: React.FC = () => {
                   <input
                     type="range"
                     min="0"
-                    max="1000"
+                    max={Math.max(1000, stakedAmount)}
                     step="10"
                     value={stakedAmount}
                     onChange={(e) => setStakedAmount(parseInt(e.target.value))}
@@ -86,10 +270,10 @@ const TrustScoreCalculator: React.FC = () => {
                   />
                   <div className="flex justify-between items-center mt-2">
                     <span className="text-cyan-400">{stakedAmount} HEZ</span>
-                    <span className="text-purple-400">Score: {getAmountScore(stakedAmount)}</span>
+                    <span className="text-purple-400">Score: {simulated.staking}</span>
                   </div>
                 </div>
-                
+
                 <div>
                   <label className="text-gray-400 text-sm">Staking Duration (Months)</label>
                   <input
@@ -102,7 +286,6 @@ const TrustScoreCalculator: React.FC = () => {
                   />
                   <div className="flex justify-between items-center mt-2">
                     <span className="text-cyan-400">{stakingMonths} months</span>
-                    <span className="text-purple-400">×{getStakingMultiplier(stakingMonths).toFixed(1)} multiplier</span>
                   </div>
                 </div>
               </div>
@@ -114,7 +297,7 @@ const TrustScoreCalculator: React.FC = () => {
                 <Users className="w-5 h-5 text-cyan-400 mr-3" />
                 <h3 className="text-lg font-semibold text-white">Referral Score</h3>
               </div>
-              
+
               <div>
                 <label className="text-gray-400 text-sm">Number of Referrals</label>
                 <input
@@ -126,7 +309,7 @@ const TrustScoreCalculator: React.FC = () => {
                   className="w-full mt-2 px-4 py-2 bg-gray-800 text-white rounded-lg border border-gray-700 focus:border-cyan-500 focus:outline-none"
                 />
                 <div className="mt-2 text-sm text-cyan-400">
-                  Score: {getReferralScore(referralCount)} points
+                  Score: {simulated.referral} points
                 </div>
               </div>
             </div>
@@ -141,7 +324,7 @@ const TrustScoreCalculator: React.FC = () => {
                 <input
                   type="range"
                   min="0"
-                  max="100"
+                  max={Math.max(100, perwerdeScore)}
                   value={perwerdeScore}
                   onChange={(e) => setPerwerdeScore(parseInt(e.target.value))}
                   className="w-full"
@@ -157,7 +340,8 @@ const TrustScoreCalculator: React.FC = () => {
                 <input
                   type="range"
                   min="0"
-                  max="100"
+                  max={Math.max(500, tikiScore)}
+                  step="5"
                   value={tikiScore}
                   onChange={(e) => setTikiScore(parseInt(e.target.value))}
                   className="w-full"
@@ -172,22 +356,32 @@ const TrustScoreCalculator: React.FC = () => {
             {/* Final Score */}
             <div className="bg-gradient-to-br from-purple-900/30 to-cyan-900/30 backdrop-blur-sm rounded-xl border border-purple-500/50 p-8 text-center">
               <Calculator className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
-              <h3 className="text-2xl font-semibold text-white mb-2">Final Trust Score</h3>
+              <h3 className="text-2xl font-semibold text-white mb-2">
+                {factors ? 'Simulated Trust Score' : 'Final Trust Score'}
+              </h3>
               <div className="text-6xl font-bold bg-gradient-to-r from-purple-400 to-cyan-400 bg-clip-text text-transparent">
-                {finalScore}
-              </div>
-              <div className="mt-4 text-gray-400">
-                Out of theoretical maximum
+                {simulated.total}
               </div>
+              {change !== null && change !== 0 && (
+                <div className={`mt-2 text-lg font-semibold ${change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {change > 0 ? '+' : ''}{change} vs. now
+                </div>
+              )}
+              {simulatedReward !== null && (
+                <div className="mt-4 text-gray-400">
+                  ≈ <span className="text-green-400 font-semibold">{simulatedReward} PEZ</span> per epoch
+                  {currentReward !== null && ` (now ${currentReward})`}
+                </div>
+              )}
             </div>
 
             {/* Formula Breakdown */}
             <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl border border-gray-800 p-6">
               <h3 className="text-lg font-semibold text-white mb-4">Formula Breakdown</h3>
-              
+
               <div className="bg-gray-950/50 rounded-lg p-4 font-mono text-sm">
                 <div className="text-purple-400 mb-2">
-                  weighted_sum = 
+                  weighted_sum =
                 </div>
                 <div className="text-gray-300 ml-4">
                   staking × 100 +
@@ -209,19 +403,19 @@ const TrustScoreCalculator: React.FC = () => {
               <div className="mt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">Staking Component:</span>
-                  <span className="text-purple-400">{Math.min(Math.round(getAmountScore(stakedAmount) * getStakingMultiplier(stakingMonths)), 100)} × 100</span>
+                  <span className="text-purple-400">{simulated.staking} × 100</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">Referral Component:</span>
-                  <span className="text-cyan-400">{getReferralScore(referralCount)} × 300</span>
+                  <span className="text-cyan-400">{simulated.referral} × 300</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">Perwerde Component:</span>
-                  <span className="text-teal-400">{perwerdeScore} × 300</span>
+                  <span className="text-teal-400">{simulated.perwerde} × 300</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">Tiki Component:</span>
-                  <span className="text-purple-400">{tikiScore} × 300</span>
+                  <span className="text-purple-400">{simulated.tiki} × 300</span>
                 </div>
               </div>
             </div>
@@ -232,13 +426,13 @@ const TrustScoreCalculator: React.FC = () => {
               <div className="space-y-3">
                 <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
                   <span className="text-gray-400">Monthly Rewards Eligibility</span>
-                  <span className={`px-3 py-1 rounded-full text-sm ${finalScore > 100 ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
-                    {finalScore > 100 ? 'Eligible' : 'Not Eligible'}
+                  <span className={`px-3 py-1 rounded-full text-sm ${simulated.total > 100 ? 'bg-green-900/30 text-green-400' : 'bg-red-900/30 text-red-400'}`}>
+                    {simulated.total > 100 ? 'Eligible' : 'Not Eligible'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg">
                   <span className="text-gray-400">Governance Voting Weight</span>
-                  <span className="text-cyan-400 font-semibold">{Math.min(Math.floor(finalScore / 100), 10)}x</span>
+                  <span className="text-cyan-400 font-semibold">{Math.min(Math.floor(simulated.total / 100), 10)}x</span>
                 </div>
               </div>
             </div>
@@ -249,4 +443,4 @@ const TrustScoreCalculator: React.FC = () => {
   );
 };
 
-export default TrustScoreCalculator;
\ No newline at end of file
+export default TrustScoreCalculator;
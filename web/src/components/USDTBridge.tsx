@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { X, ArrowDown, ArrowUp, AlertCircle, Info, Clock, CheckCircle2 } from 'lucide-react';
-import { web3FromAddress } from '@polkadot/extension-dapp';
+import { Link } from 'react-router-dom';
+import { X, ArrowDown, ArrowUp, ArrowLeftRight, AlertCircle, Info, Clock, CheckCircle2 } from 'lucide-react';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { Button } from '@/components/ui/button';
@@ -13,9 +13,15 @@ import {
   getWithdrawalTier,
   formatDelay,
   formatWUSDT,
+  parseWUSDT,
+  WITHDRAWAL_VELOCITY_LIMITS,
 } from '@pezkuwi/lib/usdt';
+import { requestWithdrawal, getWithdrawalVelocity, type WithdrawalVelocity } from '@pezkuwi/lib/usdt-withdrawals';
+import { formatBalance } from '@pezkuwi/lib/wallet';
+import type { BridgeDirection } from '@pezkuwi/lib/xcm-bridge';
+import { useXcmTransfer } from '@/hooks/useXcmTransfer';
+import { XcmTransferSteps } from '@/components/dex/XcmTransferSteps';
 import { isMultisigMember } from '@pezkuwi/lib/multisig';
-import { ASSET_IDS } from '@pezkuwi/lib/wallet';
 
 interface USDTBridgeProps {
   isOpen: boolean;
@@ -39,6 +45,27 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [success, setSuccess] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState('deposit');
+  const [xcmDirection, setXcmDirection] = useState<BridgeDirection>('deposit');
+  const [xcmAmount, setXcmAmount] = useState('');
+  const [velocity, setVelocity] = useState<WithdrawalVelocity | null>(null);
+
+  const xcm = useXcmTransfer(isOpen && activeTab === 'xcm');
+  const { estimate: estimateXcmFees } = xcm;
+
+  // Re-estimate XCM fees once the user stops typing
+  useEffect(() => {
+    if (!selectedAccount || !xcmAmount || parseFloat(xcmAmount) <= 0 || !xcm.isReady) return;
+
+    const timer = setTimeout(() => {
+      estimateXcmFees({
+        direction: xcmDirection,
+        amount: parseWUSDT(xcmAmount).toString(),
+        beneficiary: selectedAccount.address,
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [xcmAmount, xcmDirection, selectedAccount, xcm.isReady, estimateXcmFees]);
 
   // Fetch wUSDT balance
   useEffect(() => {
@@ -51,6 +78,8 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
       // Check if user is multisig member
       const isMember = await isMultisigMember(api, selectedAccount.address, specificAddresses);
       setIsMultisigMemberState(isMember);
+
+      setVelocity(await getWithdrawalVelocity(selectedAccount.address).catch(() => null));
     };
 
     fetchBalance();
@@ -86,7 +115,7 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
     }
   };
 
-  // Handle withdrawal (burn wUSDT)
+  // Handle withdrawal (queue a request, then burn wUSDT for it)
   const handleWithdrawal = async () => {
     if (!api || !selectedAccount) return;
 
@@ -102,6 +131,14 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
       return;
     }
 
+    if (velocity && (amount > velocity.remainingAmount || velocity.remainingCount === 0)) {
+      setError(
+        `Daily withdrawal limit reached: ${formatWUSDT(velocity.remainingAmount)} USDT and ` +
+        `${velocity.remainingCount} request(s) left in the last 24 hours`
+      );
+      return;
+    }
+
     if (!withdrawAddress) {
       setError('Please enter withdrawal address');
       return;
@@ -112,27 +149,66 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
     setSuccess(null);
 
     try {
-      const injector = await web3FromAddress(selectedAccount.address);
-
-      // Burn wUSDT
-      const amountBN = BigInt(Math.floor(amount * 1e6)); // 6 decimals
-      const burnTx = api.tx.assets.burn(ASSET_IDS.WUSDT, selectedAccount.address, amountBN.toString());
-
-      await burnTx.signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status }) => {
-        if (status.isFinalized) {
-          const delay = calculateWithdrawalDelay(amount);
-          setSuccess(
-            `Withdrawal request submitted! wUSDT burned. USDT will be sent to ${withdrawAddress} after ${formatDelay(delay)}.`
-          );
-          setWithdrawAmount('');
-          setWithdrawAddress('');
-          refreshBalances();
-          setIsLoading(false);
-        }
-      });
+      const withdrawal = await requestWithdrawal(api, selectedAccount, amount, withdrawAddress);
+      const delay = calculateWithdrawalDelay(amount);
+
+      setSuccess(
+        `Withdrawal queued! wUSDT burned. USDT will be sent to ${withdrawal.destination} after ` +
+        `${formatDelay(delay)} and multisig approval.`
+      );
+      setWithdrawAmount('');
+      setWithdrawAddress('');
+      refreshBalances();
+      setVelocity(await getWithdrawalVelocity(selectedAccount.address).catch(() => null));
     } catch (err) {
       if (import.meta.env.DEV) console.error('Withdrawal error:', err);
       setError(err instanceof Error ? err.message : 'Withdrawal failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle Asset Hub transfer (XCM reserve transfer, either direction)
+  const handleXcmTransfer = async () => {
+    if (!selectedAccount) return;
+
+    const amount = parseFloat(xcmAmount);
+    if (!amount || amount <= 0) {
+      setError('Please enter a valid amount');
+      return;
+    }
+
+    if (xcmDirection === 'withdraw' && amount > wusdtBalance) {
+      setError('Insufficient wUSDT balance');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await xcm.transfer({
+        direction: xcmDirection,
+        amount: parseWUSDT(amount).toString(),
+        beneficiary: selectedAccount.address,
+      });
+
+      if (result.stage === 'completed') {
+        setSuccess(
+          xcmDirection === 'deposit'
+            ? `${xcmAmount} USDT arrived as wUSDT on PezkuwiChain.`
+            : `${xcmAmount} USDT arrived on Asset Hub.`
+        );
+        setXcmAmount('');
+        refreshBalances();
+      } else {
+        setError(result.error || 'XCM transfer failed');
+      }
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('XCM transfer error:', err);
+      setError(err instanceof Error ? err.message : 'XCM transfer failed');
+    } finally {
       setIsLoading(false);
     }
   };
@@ -186,10 +262,11 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
         )}
 
         {/* Tabs */}
-        <Tabs defaultValue="deposit" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 bg-gray-800">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-3 bg-gray-800">
             <TabsTrigger value="deposit">Deposit</TabsTrigger>
             <TabsTrigger value="withdraw">Withdraw</TabsTrigger>
+            <TabsTrigger value="xcm">Asset Hub</TabsTrigger>
           </TabsList>
 
           {/* Deposit Tab */}
@@ -264,11 +341,14 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
               <AlertDescription className="text-sm">
                 <p className="font-semibold mb-2">How to Withdraw:</p>
                 <ol className="list-decimal list-inside space-y-1">
-                  <li>Burn your wUSDT on-chain</li>
+                  <li>Burn your wUSDT on-chain (creates a withdrawal request)</li>
                   <li>Wait for security delay ({withdrawalDelay > 0 && formatDelay(withdrawalDelay)})</li>
                   <li>Multisig (3/5) approves and sends USDT</li>
                   <li>Receive USDT to your specified address</li>
                 </ol>
+                <Link to="/withdrawals" onClick={onClose} className="inline-block mt-2 text-blue-400 hover:text-blue-300">
+                  Track your withdrawals →
+                </Link>
               </AlertDescription>
             </Alert>
 
@@ -326,6 +406,15 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
                     {formatDelay(withdrawalDelay)}
                   </span>
                 </div>
+                {velocity && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Daily limit left:</span>
+                    <span className="text-white">
+                      {formatWUSDT(velocity.remainingAmount)} / {formatWUSDT(WITHDRAWAL_VELOCITY_LIMITS.dailyAmount)} USDT
+                      {' · '}{velocity.remainingCount} request(s)
+                    </span>
+                  </div>
+                )}
               </div>
             )}
 
@@ -347,6 +436,98 @@ export const USDTBridge: React.FC<USDTBridgeProps> = ({
               )}
             </Button>
           </TabsContent>
+
+          {/* Asset Hub (XCM) Tab */}
+          <TabsContent value="xcm" className="space-y-4 mt-4">
+            <Alert className="bg-purple-900/20 border-purple-500">
+              <Info className="h-4 w-4" />
+              <AlertDescription className="text-sm">
+                Move USDT between Asset Hub and PezkuwiChain with an XCM reserve transfer.
+                No notary or multisig involved; USDT stays in reserve on Asset Hub.
+              </AlertDescription>
+            </Alert>
+
+            {xcm.connectionError && (
+              <Alert className="bg-red-900/20 border-red-500">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{xcm.connectionError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={xcmDirection === 'deposit' ? 'default' : 'outline'}
+                onClick={() => { setXcmDirection('deposit'); xcm.reset(); }}
+                disabled={isLoading}
+              >
+                Asset Hub → PezkuwiChain
+              </Button>
+              <Button
+                variant={xcmDirection === 'withdraw' ? 'default' : 'outline'}
+                onClick={() => { setXcmDirection('withdraw'); xcm.reset(); }}
+                disabled={isLoading}
+              >
+                PezkuwiChain → Asset Hub
+              </Button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                {xcmDirection === 'deposit' ? 'USDT Amount' : 'wUSDT Amount'}
+              </label>
+              <input
+                type="number"
+                value={xcmAmount}
+                onChange={(e) => setXcmAmount(e.target.value)}
+                placeholder="Amount"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-blue-500 placeholder:text-gray-500 placeholder:opacity-50"
+                disabled={isLoading}
+              />
+            </div>
+
+            {xcmAmount && parseFloat(xcmAmount) > 0 && (
+              <div className="p-4 bg-gray-800 rounded-lg space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Recipient:</span>
+                  <span className="text-white font-mono text-xs">
+                    {selectedAccount?.address.slice(0, 8)}…{selectedAccount?.address.slice(-6)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Source chain fee:</span>
+                  <span className="text-white">{xcm.fees ? formatBalance(xcm.fees.sourceFee) : '…'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Destination fee:</span>
+                  <span className="text-white">
+                    {xcm.fees?.destinationFee ? `${formatWUSDT(xcm.fees.destinationFee, true)} USDT` : 'Paid from transfer'}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {xcm.progress && <XcmTransferSteps progress={xcm.progress} direction={xcmDirection} />}
+
+            <Button
+              onClick={handleXcmTransfer}
+              disabled={isLoading || !xcmAmount || !xcm.isReady}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 h-12"
+            >
+              {isLoading ? (
+                <div className="flex items-center gap-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  Transferring...
+                </div>
+              ) : !xcm.isReady && !xcm.connectionError ? (
+                'Connecting to Asset Hub...'
+              ) : (
+                <div className="flex items-center gap-2">
+                  <ArrowLeftRight className="h-5 w-5" />
+                  Transfer via XCM
+                </div>
+              )}
+            </Button>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
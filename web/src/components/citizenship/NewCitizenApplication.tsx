@@ -12,7 +12,7 @@ import { Loader2, AlertTriangle, CheckCircle, User, Users as UsersIcon, MapPin,
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import type { CitizenshipData, Region, MaritalStatus } from '@pezkuwi/lib/citizenship-workflow';
 import { FOUNDER_ADDRESS, submitKycApplication, subscribeToKycApproval, getKycStatus } from '@pezkuwi/lib/citizenship-workflow';
-import { generateCommitmentHash, generateNullifierHash, encryptData, saveLocalCitizenshipData, uploadToIPFS } from '@pezkuwi/lib/citizenship-workflow';
+import { generateCommitmentSalt, createCitizenshipCommitment, encryptData, requestNullifier, saveLocalCitizenshipData, uploadToIPFS } from '@pezkuwi/lib/citizenship-workflow';
 
 interface NewCitizenApplicationProps {
   onClose: () => void;
@@ -31,6 +31,8 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
   const [kycApproved, setKycApproved] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [agreed, setAgreed] = useState(false);
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultPassphraseConfirm, setVaultPassphraseConfirm] = useState('');
   const [confirming, setConfirming] = useState(false);
   const [applicationHash, setApplicationHash] = useState<string>('');
 
@@ -186,6 +188,16 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
       return;
     }
 
+    if (vaultPassphrase.length < 8) {
+      setError('Data passphrase must be at least 8 characters');
+      return;
+    }
+
+    if (vaultPassphrase !== vaultPassphraseConfirm) {
+      setError('Data passphrases do not match');
+      return;
+    }
+
     setError(null);
     setSubmitting(true);
 
@@ -224,18 +236,20 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
         referralCode: data.referralCode || FOUNDER_ADDRESS // Auto-assign to founder if empty
       };
 
-      // Generate commitment and nullifier hashes
-      const commitmentHash = await generateCommitmentHash(citizenshipData);
-      const nullifierHash = await generateNullifierHash(selectedAccount.address, citizenshipData.timestamp);
+      // Generate the commitment (salt stays with the applicant) and get the
+      // nullifier from the backend, which refuses identities already registered
+      const commitmentSalt = generateCommitmentSalt();
+      const nullifierHash = await requestNullifier(selectedAccount, citizenshipData);
+      const commitment = createCitizenshipCommitment(citizenshipData, commitmentSalt, nullifierHash);
 
-      if (import.meta.env.DEV) console.log('Commitment Hash:', commitmentHash);
-      if (import.meta.env.DEV) console.log('Nullifier Hash:', nullifierHash);
+      if (import.meta.env.DEV) console.log('Commitment Hash:', commitment.commitmentHash);
+      if (import.meta.env.DEV) console.log('Nullifier Hash:', commitment.nullifierHash);
 
-      // Encrypt data
-      const encryptedData = await encryptData(citizenshipData, selectedAccount.address);
+      // Encrypt data with a key derived from the applicant's passphrase
+      const encryptedData = await encryptData(citizenshipData, vaultPassphrase);
 
-      // Save to local storage (backup)
-      await saveLocalCitizenshipData(citizenshipData, selectedAccount.address);
+      // Save to encrypted local vault (backup)
+      await saveLocalCitizenshipData({ ...citizenshipData, commitmentSalt }, vaultPassphrase);
 
       // Upload to IPFS
       const ipfsCid = await uploadToIPFS(encryptedData);
@@ -258,7 +272,8 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
         citizenshipData.fullName,
         citizenshipData.email,
         cidString,
-        `Citizenship application for ${citizenshipData.fullName}`
+        `Citizenship application for ${citizenshipData.fullName}`,
+        commitment
       );
 
       if (!result.success) {
@@ -282,7 +297,14 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
 
     } catch (err) {
       if (import.meta.env.DEV) console.error('Submission error:', err);
-      setError('Failed to submit citizenship application');
+      const key = (err as Error).message;
+      if (key === 'errors.citizenship.identity_registered') {
+        setError('An application for this identity is already pending or approved.');
+      } else if (key === 'errors.citizenship.wallet_registered') {
+        setError('This wallet already has a citizenship application for another identity.');
+      } else {
+        setError('Failed to submit citizenship application');
+      }
       setSubmitting(false);
     }
   };
@@ -630,6 +652,43 @@ export const NewCitizenApplication: React.FC<NewCitizenApplicationProps> = ({ on
         </CardContent>
       </Card>
 
+      {/* Data Passphrase */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Şîfreya Daneyan (Data Passphrase) *</CardTitle>
+          <CardDescription>
+            Your personal data is encrypted on this device with a key derived from this passphrase.
+            It is never sent anywhere and cannot be recovered if lost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vaultPassphrase">Passphrase</Label>
+            <Input
+              id="vaultPassphrase"
+              type="password"
+              autoComplete="new-password"
+              value={vaultPassphrase}
+              onChange={(e) => setVaultPassphrase(e.target.value)}
+              placeholder="At least 8 characters"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vaultPassphraseConfirm">Confirm Passphrase</Label>
+            <Input
+              id="vaultPassphraseConfirm"
+              type="password"
+              autoComplete="new-password"
+              value={vaultPassphraseConfirm}
+              onChange={(e) => setVaultPassphraseConfirm(e.target.value)}
+            />
+            {vaultPassphraseConfirm && vaultPassphrase !== vaultPassphraseConfirm && (
+              <p className="text-xs text-red-500">Passphrases do not match</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Terms Agreement */}
       <Card>
         <CardContent className="pt-6 space-y-4">
@@ -9,7 +9,8 @@ import { CreatePoolModal } from './CreatePoolModal';
 import { InitializeHezPoolModal } from './InitializeHezPoolModal';
 import { InitializeUsdtModal } from './InitializeUsdtModal';
 import { XCMBridgeSetupModal } from './XCMBridgeSetupModal';
-import { ArrowRightLeft, Droplet, Settings } from 'lucide-react';
+import { OrdersPanel } from './OrdersPanel';
+import { ArrowRightLeft, Droplet, ListOrdered, Settings } from 'lucide-react';
 import { isFounderWallet } from '@pezkuwi/utils/auth';
 
 export const DEXDashboard: React.FC = () => {
@@ -83,7 +84,7 @@ export const DEXDashboard: React.FC = () => {
           </div>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className={`grid w-full ${isFounder ? 'grid-cols-3' : 'grid-cols-2'} gap-2 bg-gray-900/50 p-1 rounded-lg mb-8`}>
+            <TabsList className={`grid w-full ${isFounder ? 'grid-cols-4' : 'grid-cols-3'} gap-2 bg-gray-900/50 p-1 rounded-lg mb-8`}>
               <TabsTrigger value="swap" className="flex items-center gap-2">
                 <ArrowRightLeft className="w-4 h-4" />
                 <span className="hidden sm:inline">Swap</span>
@@ -92,6 +93,10 @@ export const DEXDashboard: React.FC = () => {
                 <Droplet className="w-4 h-4" />
                 <span className="hidden sm:inline">Pools</span>
               </TabsTrigger>
+              <TabsTrigger value="orders" className="flex items-center gap-2">
+                <ListOrdered className="w-4 h-4" />
+                <span className="hidden sm:inline">Orders</span>
+              </TabsTrigger>
               {isFounder && (
                 <TabsTrigger value="admin" className="flex items-center gap-2">
                   <Settings className="w-4 h-4" />
@@ -108,6 +113,10 @@ export const DEXDashboard: React.FC = () => {
               <PoolDashboard />
             </TabsContent>
 
+            <TabsContent value="orders" className="mt-6">
+              <OrdersPanel />
+            </TabsContent>
+
             {isFounder && (
               <TabsContent value="admin" className="mt-6">
                 <div className="max-w-2xl mx-auto space-y-6">
@@ -0,0 +1,552 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Clock, Loader2, ShieldCheck, Target, X } from 'lucide-react';
+import { PoolInfo } from '@/types/dex';
+import {
+  computeBestSwapRoute,
+  fetchPools,
+  formatTokenBalance,
+  getTokenDecimals,
+  getTokenSymbol,
+  parseTokenInput,
+} from '@pezkuwi/utils/dex';
+import {
+  DCA_INTERVALS,
+  MAX_DCA_EXECUTIONS,
+  buildAddKeeperProxyTx,
+  cancelDexOrder,
+  createDexOrder,
+  getDexOrders,
+  getKeeperInfo,
+  getMinAmountOut,
+  getOrderPrice,
+  hasKeeperProxy,
+  isOrderActive,
+  summarizeFills,
+  type DexOrder,
+  type DexOrderKind,
+  type KeeperInfo,
+} from '@pezkuwi/lib/dex-orders';
+
+// Orders trade pallet-assets, so HEZ is offered as wHEZ
+const ORDER_ASSETS = [0, 1, 1000];
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: 0 },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const STATUS_STYLES: Record<DexOrder['status'], string> = {
+  open: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  executing: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  filled: 'bg-green-500/10 text-green-400 border-green-500/20',
+  cancelled: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
+  expired: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+export const OrdersPanel: React.FC = () => {
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const { toast } = useToast();
+  const address = selectedAccount?.address;
+
+  const [keeper, setKeeper] = useState<KeeperInfo | null>(null);
+  const [keeperError, setKeeperError] = useState<string | null>(null);
+  const [proxyEnabled, setProxyEnabled] = useState<boolean | null>(null);
+  const [isEnablingProxy, setIsEnablingProxy] = useState(false);
+
+  const [pools, setPools] = useState<PoolInfo[]>([]);
+  const [orders, setOrders] = useState<DexOrder[]>([]);
+  const [isLoadingOrders, setIsLoadingOrders] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<DexOrderKind>('limit');
+  const [fromAsset, setFromAsset] = useState(1);
+  const [toAsset, setToAsset] = useState(1000);
+  const [amount, setAmount] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [intervalSeconds, setIntervalSeconds] = useState<number>(DCA_INTERVALS[1].seconds);
+  const [executions, setExecutions] = useState('7');
+  const [slippage, setSlippage] = useState('1');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    if (!address) return;
+
+    setIsLoadingOrders(true);
+    try {
+      setOrders(await getDexOrders(address));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load orders:', error);
+    } finally {
+      setIsLoadingOrders(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    getKeeperInfo()
+      .then(setKeeper)
+      .catch((error) => setKeeperError(error instanceof Error ? error.message : 'Order keeper unavailable'));
+  }, []);
+
+  useEffect(() => {
+    if (!api || !isApiReady || !address || !keeper) return;
+
+    hasKeeperProxy(api, address, keeper)
+      .then(setProxyEnabled)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to check keeper proxy:', error);
+        setProxyEnabled(false);
+      });
+  }, [api, isApiReady, address, keeper]);
+
+  useEffect(() => {
+    if (!api || !isApiReady) return;
+
+    fetchPools(api)
+      .then(setPools)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load pools:', error);
+      });
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    loadOrders();
+
+    const interval = setInterval(loadOrders, 30000);
+    return () => clearInterval(interval);
+  }, [loadOrders]);
+
+  const decimalsIn = getTokenDecimals(fromAsset);
+  const decimalsOut = getTokenDecimals(toAsset);
+  const amountIn = parseTokenInput(amount, decimalsIn);
+
+  // Route and current market price for the entered amount
+  const quote = useMemo(() => {
+    if (BigInt(amountIn) === BigInt(0) || pools.length === 0 || fromAsset === toAsset) return null;
+
+    const result = computeBestSwapRoute(pools, fromAsset, toAsset, amountIn, 0);
+    return result.legs.length > 0 ? result : null;
+  }, [pools, fromAsset, toAsset, amountIn]);
+
+  const marketPrice = quote ? getOrderPrice(quote.amountIn, quote.amountOut, decimalsIn, decimalsOut) : null;
+
+  const handleEnableProxy = async () => {
+    if (!api || !selectedAccount || !keeper) return;
+
+    setIsEnablingProxy(true);
+    try {
+      const { web3FromAddress } = await import('@polkadot/extension-dapp');
+      const injector = await web3FromAddress(selectedAccount.address);
+
+      await new Promise<void>((resolve, reject) => {
+        buildAddKeeperProxyTx(api, keeper)
+          .signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status, dispatchError }) => {
+            if (dispatchError) {
+              if (dispatchError.isModule) {
+                const decoded = api.registry.findMetaError(dispatchError.asModule);
+                reject(new Error(`${decoded.section}.${decoded.name}`));
+              } else {
+                reject(new Error(dispatchError.toString()));
+              }
+              return;
+            }
+            if (status.isInBlock) resolve();
+          })
+          .catch(reject);
+      });
+
+      setProxyEnabled(true);
+      toast({ title: 'Keeper enabled', description: 'The keeper can now execute your orders' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add keeper proxy',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsEnablingProxy(false);
+    }
+  };
+
+  const handleCreateOrder = async () => {
+    if (!address || !quote) return;
+
+    const isLimit = kind === 'limit';
+    const count = parseInt(executions, 10);
+    if (isLimit && !(parseFloat(limitPrice) > 0)) {
+      toast({ title: 'Error', description: 'Enter a limit price', variant: 'destructive' });
+      return;
+    }
+    if (!isLimit && !(count >= 1 && count <= MAX_DCA_EXECUTIONS)) {
+      toast({ title: 'Error', description: `Number of buys must be 1-${MAX_DCA_EXECUTIONS}`, variant: 'destructive' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createDexOrder({
+        owner: address,
+        kind,
+        path: quote.path,
+        amountIn,
+        minAmountOut: isLimit ? getMinAmountOut(amountIn, limitPrice, decimalsIn, decimalsOut) : '0',
+        maxSlippageBps: Math.round((parseFloat(slippage) || 0) * 100),
+        intervalSeconds: isLimit ? null : intervalSeconds,
+        executions: isLimit ? null : count,
+        expiresAt: isLimit && expiryDays > 0
+          ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+      });
+
+      toast({
+        title: 'Order placed',
+        description: isLimit
+          ? `Sell ${amount} ${getTokenSymbol(fromAsset)} at ${limitPrice} ${getTokenSymbol(toAsset)}`
+          : `Buy with ${amount} ${getTokenSymbol(fromAsset)} ${count} times`,
+      });
+      setAmount('');
+      setLimitPrice('');
+      await loadOrders();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to place order',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (order: DexOrder) => {
+    if (!address) return;
+
+    setCancellingId(order.id);
+    try {
+      await cancelDexOrder(address, order.id);
+      toast({ title: 'Order cancelled' });
+      await loadOrders();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel order',
+        variant: 'destructive',
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const activeOrders = orders.filter(isOrderActive);
+  const pastOrders = orders.filter((order) => !isOrderActive(order));
+
+  if (keeperError) {
+    return (
+      <Alert className="bg-yellow-900/20 border-yellow-600/30 max-w-2xl mx-auto">
+        <AlertCircle className="h-4 w-4 text-yellow-400" />
+        <AlertDescription className="text-yellow-300">
+          Limit orders and DCA are unavailable right now: the order keeper is offline.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white">New Order</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {proxyEnabled === false && keeper && (
+            <Alert className="bg-blue-900/20 border-blue-600/30">
+              <ShieldCheck className="h-4 w-4 text-blue-400" />
+              <AlertDescription className="text-blue-300 space-y-3">
+                <p>
+                  Orders are executed by the keeper through a {keeper.proxyType} proxy on your account.
+                  It swaps only into your own account and the chain enforces your price.
+                </p>
+                <Button size="sm" onClick={handleEnableProxy} disabled={isEnablingProxy}>
+                  {isEnablingProxy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Enable keeper
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Tabs value={kind} onValueChange={(value) => setKind(value as DexOrderKind)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="limit" className="flex items-center gap-2">
+                <Target className="w-4 h-4" /> Limit
+              </TabsTrigger>
+              <TabsTrigger value="dca" className="flex items-center gap-2">
+                <Clock className="w-4 h-4" /> DCA
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-gray-400">{kind === 'limit' ? 'Sell' : 'Spend'}</Label>
+              <Select value={String(fromAsset)} onValueChange={(value) => setFromAsset(Number(value))}>
+                <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_ASSETS.filter((id) => id !== toAsset).map((id) => (
+                    <SelectItem key={id} value={String(id)}>{getTokenSymbol(id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">{kind === 'limit' ? 'For' : 'Buy'}</Label>
+              <Select value={String(toAsset)} onValueChange={(value) => setToAsset(Number(value))}>
+                <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_ASSETS.filter((id) => id !== fromAsset).map((id) => (
+                    <SelectItem key={id} value={String(id)}>{getTokenSymbol(id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">
+              {kind === 'limit' ? 'Amount' : 'Amount per buy'} ({getTokenSymbol(fromAsset)})
+            </Label>
+            <Input
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+          </div>
+
+          {kind === 'limit' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-gray-400">
+                  Price ({getTokenSymbol(toAsset)} per {getTokenSymbol(fromAsset)})
+                </Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={limitPrice}
+                  onChange={(e) => setLimitPrice(e.target.value)}
+                  placeholder={marketPrice ? marketPrice.toPrecision(6) : '0.0'}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-400">Expires</Label>
+                <Select value={String(expiryDays)} onValueChange={(value) => setExpiryDays(Number(value))}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label className="text-gray-400">Every</Label>
+                <Select value={String(intervalSeconds)} onValueChange={(value) => setIntervalSeconds(Number(value))}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DCA_INTERVALS.map((option) => (
+                      <SelectItem key={option.seconds} value={String(option.seconds)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-400">Buys</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={MAX_DCA_EXECUTIONS}
+                  value={executions}
+                  onChange={(e) => setExecutions(e.target.value)}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-gray-400">Slippage %</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={slippage}
+                  onChange={(e) => setSlippage(e.target.value)}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="p-3 bg-gray-800/50 rounded-lg space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Market price</span>
+              <span className="text-white font-mono">
+                {marketPrice !== null ? `${marketPrice.toPrecision(6)} ${getTokenSymbol(toAsset)}` : '-'}
+              </span>
+            </div>
+            {quote && (
+              <div className="flex justify-between">
+                <span className="text-gray-400">Route</span>
+                <span className="text-gray-300">{quote.route}</span>
+              </div>
+            )}
+            {kind === 'limit' && marketPrice !== null && parseFloat(limitPrice) > 0 && parseFloat(limitPrice) <= marketPrice && (
+              <p className="text-yellow-400 text-xs pt-1">At or below market: this order fills on the keeper&apos;s next run.</p>
+            )}
+          </div>
+
+          <Button
+            className="w-full bg-green-600 hover:bg-green-700"
+            onClick={handleCreateOrder}
+            disabled={!quote || !proxyEnabled || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {kind === 'limit' ? 'Place limit order' : 'Start DCA'}
+          </Button>
+          {amount && !quote && (
+            <p className="text-xs text-red-400">No pool route between these tokens</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center justify-between">
+            Your Orders
+            {isLoadingOrders && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {orders.length === 0 && !isLoadingOrders && (
+            <p className="text-center text-gray-500 py-8">No orders yet</p>
+          )}
+          {[...activeOrders, ...pastOrders].map((order) => (
+            <OrderRow
+              key={order.id}
+              order={order}
+              onCancel={() => handleCancel(order)}
+              isCancelling={cancellingId === order.id}
+            />
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+const OrderRow: React.FC<{ order: DexOrder; onCancel: () => void; isCancelling: boolean }> = ({
+  order,
+  onCancel,
+  isCancelling,
+}) => {
+  const [showFills, setShowFills] = useState(false);
+
+  const assetIn = order.path[0];
+  const assetOut = order.path[order.path.length - 1];
+  const decimalsIn = getTokenDecimals(assetIn);
+  const decimalsOut = getTokenDecimals(assetOut);
+  const filled = summarizeFills(order);
+
+  return (
+    <div className="p-3 bg-gray-800/50 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-white">
+          <span className="font-semibold">{order.kind === 'limit' ? 'Limit' : 'DCA'}</span>{' '}
+          {formatTokenBalance(order.amount_in, decimalsIn)} {getTokenSymbol(assetIn)} → {getTokenSymbol(assetOut)}
+        </div>
+        <Badge className={STATUS_STYLES[order.status]}>{order.status}</Badge>
+      </div>
+
+      <div className="text-xs text-gray-400 space-y-1">
+        {order.kind === 'limit' ? (
+          <div>
+            Price ≥ {getOrderPrice(order.amount_in, order.min_amount_out, decimalsIn, decimalsOut).toPrecision(6)}{' '}
+            {getTokenSymbol(assetOut)}
+            {order.expires_at && ` · expires ${new Date(order.expires_at).toLocaleDateString()}`}
+          </div>
+        ) : (
+          <div>
+            {order.executions_done}/{order.executions_total} buys
+            {order.status === 'open' && ` · next ${new Date(order.next_run_at).toLocaleString()}`}
+          </div>
+        )}
+        {filled.count > 0 && (
+          <div>
+            Received {formatTokenBalance(filled.amountOut, decimalsOut)} {getTokenSymbol(assetOut)} at avg{' '}
+            {getOrderPrice(filled.amountIn, filled.amountOut, decimalsIn, decimalsOut).toPrecision(6)}
+          </div>
+        )}
+        {order.last_error && isOrderActive(order) && (
+          <div className="text-yellow-400">
+            {order.last_error === 'proxy_missing' ? 'Waiting for the keeper proxy' : `Last attempt: ${order.last_error}`}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {order.fills.length > 0 && (
+          <Button size="sm" variant="ghost" className="text-gray-400" onClick={() => setShowFills(!showFills)}>
+            {showFills ? 'Hide' : 'Show'} fills ({order.fills.length})
+          </Button>
+        )}
+        {order.status === 'open' && (
+          <Button size="sm" variant="ghost" className="text-red-400 ml-auto" onClick={onCancel} disabled={isCancelling}>
+            {isCancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4 mr-1" />}
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {showFills && (
+        <div className="border-t border-gray-700 pt-2 space-y-1">
+          {order.fills.map((fill) => (
+            <div key={fill.id} className="flex justify-between text-xs">
+              <span className="text-gray-500">{new Date(fill.created_at).toLocaleString()}</span>
+              {fill.status === 'filled' && fill.amount_out ? (
+                <span className="text-green-400 font-mono">
+                  +{formatTokenBalance(fill.amount_out, decimalsOut)} {getTokenSymbol(assetOut)}
+                </span>
+              ) : (
+                <span className={fill.status === 'failed' ? 'text-red-400' : 'text-yellow-400'}>
+                  {fill.status === 'failed' ? fill.error : 'pending'}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { useWallet } from '@/contexts/WalletContext';
 import { X, Minus, AlertCircle, Loader2, CheckCircle, Info } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { PoolInfo } from '@/types/dex';
-import { formatTokenBalance } from '@pezkuwi/utils/dex';
+import { fetchPoolLpTokenId, formatTokenBalance } from '@pezkuwi/utils/dex';
 
 interface RemoveLiquidityModalProps {
   isOpen: boolean;
@@ -46,26 +46,14 @@ export const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
       if (!api || !isApiReady || !account || !pool) return;
 
       try {
-        // Get pool account
-        const poolAccount = await api.query.assetConversion.pools([
-          pool.asset1,
-          pool.asset2,
-        ]);
-
-        if (poolAccount.isNone) {
+        const lpTokenId = pool.lpTokenId ?? await fetchPoolLpTokenId(api, pool.asset1, pool.asset2);
+        if (lpTokenId === null) {
           setLpTokenBalance('0');
           return;
         }
 
-        // LP token ID is derived from pool ID
-        // For now, we'll query the pool's LP token supply
-        // In a real implementation, you'd need to query the specific LP token for the user
-        if (api.query.assetConversion.nextPoolAssetId) {
-          await api.query.assetConversion.nextPoolAssetId();
-        }
-
-        // This is a simplified version - you'd need to track LP tokens properly
-        setLpTokenBalance('0'); // Placeholder
+        const lpAccount = await api.query.poolAssets.account(lpTokenId, account);
+        setLpTokenBalance(lpAccount.isSome ? lpAccount.unwrap().balance.toString() : '0');
       } catch (error) {
         if (import.meta.env.DEV) console.error('Failed to fetch LP balance:', error);
         setLpTokenBalance('0');
@@ -76,20 +64,16 @@ export const RemoveLiquidityModal: React.FC<RemoveLiquidityModalProps> = ({
   }, [api, isApiReady, account, pool]);
 
   const calculateOutputAmounts = () => {
-    if (!pool || BigInt(lpTokenBalance) === BigInt(0)) {
+    if (!pool || BigInt(lpTokenBalance) === BigInt(0) || BigInt(pool.lpTokenSupply) === BigInt(0)) {
       return { amount1: '0', amount2: '0' };
     }
 
     // Calculate amounts based on percentage
     const lpAmount = (BigInt(lpTokenBalance) * BigInt(removePercentage)) / BigInt(100);
 
-    // Simplified calculation - in reality, this depends on total LP supply
-    const totalLiquidity = BigInt(pool.reserve1) + BigInt(pool.reserve2);
-    const userShare = lpAmount;
-
-    // Proportional amounts
-    const amount1 = (BigInt(pool.reserve1) * userShare) / totalLiquidity;
-    const amount2 = (BigInt(pool.reserve2) * userShare) / totalLiquidity;
+    // Reserves are paid out pro rata to the LP tokens burned
+    const amount1 = (BigInt(pool.reserve1) * lpAmount) / BigInt(pool.lpTokenSupply);
+    const amount2 = (BigInt(pool.reserve2) * lpAmount) / BigInt(pool.lpTokenSupply);
 
     return {
       amount1: amount1.toString(),
@@ -12,8 +12,8 @@ import { PoolInfo } from '@/types/dex';
 import {
   parseTokenInput,
   formatTokenBalance,
-  getAmountOut,
-  calculatePriceImpact,
+  computeBestSwapRoute,
+  buildSwapCalls,
 } from '@pezkuwi/utils/dex';
 import { useToast } from '@/hooks/use-toast';
 
@@ -39,7 +39,6 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
   const [fromToken, setFromToken] = useState('HEZ');
   const [toToken, setToToken] = useState('PEZ');
   const [fromAmount, setFromAmount] = useState('');
-  const [toAmount, setToAmount] = useState('');
   const [slippage, setSlippage] = useState(0.5); // 0.5% default
   const [showSettings, setShowSettings] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
@@ -59,13 +58,6 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
   const fromAssetId = getAssetId(fromToken);
   const toAssetId = getAssetId(toToken);
 
-  // Find active pool for selected pair
-  const activePool = pools.find(
-    (p) =>
-      (p.asset1 === fromAssetId && p.asset2 === toAssetId) ||
-      (p.asset1 === toAssetId && p.asset2 === fromAssetId)
-  );
-
   // Get token info
   const fromTokenInfo = USER_TOKENS.find(t => t.symbol === fromToken);
   const toTokenInfo = USER_TOKENS.find(t => t.symbol === toToken);
@@ -119,48 +111,34 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
     fetchBalances();
   }, [api, isApiReady, account, fromToken, toToken, fromAssetId, toAssetId]);
 
-  // Calculate output amount when input changes
-  useEffect(() => {
-    if (!fromAmount || !activePool || !fromTokenInfo || !toTokenInfo) {
-      setToAmount('');
-      return;
+  // Best route across all pools (multi-hop, split up to 3 ways)
+  const quote = React.useMemo(() => {
+    if (!fromAmount || parseFloat(fromAmount) <= 0 || fromAssetId === null || toAssetId === null || !fromTokenInfo) {
+      return null;
     }
 
     try {
       const fromAmountRaw = parseTokenInput(fromAmount, fromTokenInfo.decimals);
-
-      // Determine direction and calculate output
-      const isForward = activePool.asset1 === fromAssetId;
-      const reserveIn = isForward ? activePool.reserve1 : activePool.reserve2;
-      const reserveOut = isForward ? activePool.reserve2 : activePool.reserve1;
-
-      const toAmountRaw = getAmountOut(fromAmountRaw, reserveIn, reserveOut, 30); // 3% fee
-      const toAmountDisplay = formatTokenBalance(toAmountRaw, toTokenInfo.decimals, 6);
-
-      setToAmount(toAmountDisplay);
+      return computeBestSwapRoute(pools, fromAssetId, toAssetId, fromAmountRaw, slippage, { maxSplits: 3 });
     } catch (error) {
       if (import.meta.env.DEV) console.error('Failed to calculate output:', error);
-      setToAmount('');
+      return null;
     }
-  }, [fromAmount, activePool, fromTokenInfo, toTokenInfo, fromAssetId, toAssetId]);
+  }, [pools, fromAmount, fromAssetId, toAssetId, fromTokenInfo, slippage]);
 
-  // Calculate price impact
-  const priceImpact = React.useMemo(() => {
-    if (!fromAmount || !activePool || !fromAssetId || !toAssetId || !fromTokenInfo) {
-      return 0;
-    }
+  // Quote for one unit, used for the exchange rate and route availability
+  const unitQuote = React.useMemo(() => {
+    if (fromAssetId === null || toAssetId === null || !fromTokenInfo) return null;
+    return computeBestSwapRoute(pools, fromAssetId, toAssetId, parseTokenInput('1', fromTokenInfo.decimals), slippage);
+  }, [pools, fromAssetId, toAssetId, fromTokenInfo, slippage]);
 
-    try {
-      const fromAmountRaw = parseTokenInput(fromAmount, fromTokenInfo.decimals);
-      const isForward = activePool.asset1 === fromAssetId;
-      const reserveIn = isForward ? activePool.reserve1 : activePool.reserve2;
-      const reserveOut = isForward ? activePool.reserve2 : activePool.reserve1;
+  const hasRoute = !!unitQuote && unitQuote.legs.length > 0;
 
-      return parseFloat(calculatePriceImpact(reserveIn, reserveOut, fromAmountRaw));
-    } catch {
-      return 0;
-    }
-  }, [fromAmount, activePool, fromAssetId, toAssetId, fromTokenInfo]);
+  const toAmount = quote && quote.legs.length > 0 && toTokenInfo
+    ? formatTokenBalance(quote.amountOut, toTokenInfo.decimals, 6)
+    : '';
+
+  const priceImpact = quote ? parseFloat(quote.priceImpact) : 0;
 
   // Check if user has insufficient balance
   const hasInsufficientBalance = React.useMemo(() => {
@@ -197,10 +175,10 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
       return;
     }
 
-    if (!activePool) {
+    if (!quote || quote.legs.length === 0) {
       toast({
         title: 'Error',
-        description: 'No liquidity pool available for this pair',
+        description: 'No swap route available for this pair',
         variant: 'destructive',
       });
       return;
@@ -211,79 +189,21 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
     setErrorMessage('');
 
     try {
-      const amountIn = parseTokenInput(fromAmount, fromTokenInfo.decimals);
-      const minAmountOut = parseTokenInput(
-        (parseFloat(toAmount) * (1 - slippage / 100)).toString(),
-        toTokenInfo.decimals
-      );
-
       if (import.meta.env.DEV) console.log('💰 Swap transaction:', {
         from: fromToken,
         to: toToken,
         amount: fromAmount,
-        minOut: minAmountOut.toString(),
+        route: quote.route,
+        minOut: quote.minimumReceived,
       });
 
-      let tx;
-
-      if (fromToken === 'HEZ' && toToken === 'PEZ') {
-        // HEZ → PEZ: wrap(HEZ→wHEZ) then swap(wHEZ→PEZ)
-        const wrapTx = api.tx.tokenWrapper.wrap(amountIn.toString());
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          [0, 1], // wHEZ → PEZ
-          amountIn.toString(),
-          minAmountOut.toString(),
-          account,
-          true
-        );
-        tx = api.tx.utility.batchAll([wrapTx, swapTx]);
-
-      } else if (fromToken === 'PEZ' && toToken === 'HEZ') {
-        // PEZ → HEZ: swap(PEZ→wHEZ) then unwrap(wHEZ→HEZ)
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          [1, 0], // PEZ → wHEZ
-          amountIn.toString(),
-          minAmountOut.toString(),
-          account,
-          true
-        );
-        const unwrapTx = api.tx.tokenWrapper.unwrap(minAmountOut.toString());
-        tx = api.tx.utility.batchAll([swapTx, unwrapTx]);
-
-      } else if (fromToken === 'HEZ') {
-        // HEZ → Any Asset: wrap(HEZ→wHEZ) then swap(wHEZ→Asset)
-        const wrapTx = api.tx.tokenWrapper.wrap(amountIn.toString());
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          [0, toAssetId!], // wHEZ → target asset
-          amountIn.toString(),
-          minAmountOut.toString(),
-          account,
-          true
-        );
-        tx = api.tx.utility.batchAll([wrapTx, swapTx]);
-
-      } else if (toToken === 'HEZ') {
-        // Any Asset → HEZ: swap(Asset→wHEZ) then unwrap(wHEZ→HEZ)
-        const swapTx = api.tx.assetConversion.swapExactTokensForTokens(
-          [fromAssetId!, 0], // source asset → wHEZ
-          amountIn.toString(),
-          minAmountOut.toString(),
-          account,
-          true
-        );
-        const unwrapTx = api.tx.tokenWrapper.unwrap(minAmountOut.toString());
-        tx = api.tx.utility.batchAll([swapTx, unwrapTx]);
-
-      } else {
-        // Direct swap between assets (PEZ ↔ USDT, etc.)
-        tx = api.tx.assetConversion.swapExactTokensForTokens(
-          [fromAssetId!, toAssetId!],
-          amountIn.toString(),
-          minAmountOut.toString(),
-          account,
-          true
-        );
-      }
+      // HEZ is swapped as wHEZ: wrap before the swap legs, unwrap after
+      const calls = [
+        ...(fromToken === 'HEZ' ? [api.tx.tokenWrapper.wrap(quote.amountIn)] : []),
+        ...buildSwapCalls(api, quote, account),
+        ...(toToken === 'HEZ' ? [api.tx.tokenWrapper.unwrap(quote.minimumReceived)] : []),
+      ];
+      const tx = calls.length === 1 ? calls[0] : api.tx.utility.batchAll(calls);
 
       setTxStatus('submitting');
 
@@ -313,7 +233,6 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
               });
               setTimeout(() => {
                 setFromAmount('');
-                setToAmount('');
                 setTxStatus('idle');
               }, 2000);
             }
@@ -332,11 +251,8 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
     }
   };
 
-  const exchangeRate = activePool && fromTokenInfo && toTokenInfo
-    ? (
-        parseFloat(formatTokenBalance(activePool.reserve2, toTokenInfo.decimals, 6)) /
-        parseFloat(formatTokenBalance(activePool.reserve1, fromTokenInfo.decimals, 6))
-      ).toFixed(6)
+  const exchangeRate = unitQuote && hasRoute && toTokenInfo
+    ? formatTokenBalance(unitQuote.amountOut, toTokenInfo.decimals, 6)
     : '0';
 
   return (
@@ -500,10 +416,17 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
                 Exchange Rate
               </span>
               <span className="text-white">
-                {activePool ? `1 ${fromToken} = ${exchangeRate} ${toToken}` : 'No pool available'}
+                {hasRoute ? `1 ${fromToken} = ${exchangeRate} ${toToken}` : 'No pool available'}
               </span>
             </div>
 
+            {quote && quote.legs.length > 0 && (
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-400">Route</span>
+                <span className="text-white text-right">{quote.route}</span>
+              </div>
+            )}
+
             {fromAmount && parseFloat(fromAmount) > 0 && priceImpact > 0 && (
               <div className="flex justify-between">
                 <span className="text-gray-400 flex items-center gap-1">
@@ -557,7 +480,8 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
               !account ||
               !fromAmount ||
               parseFloat(fromAmount) <= 0 ||
-              !activePool ||
+              !quote ||
+              quote.legs.length === 0 ||
               hasInsufficientBalance ||
               txStatus === 'signing' ||
               txStatus === 'submitting'
@@ -567,7 +491,7 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
               ? 'Connect Wallet'
               : hasInsufficientBalance
               ? `Insufficient ${fromToken} Balance`
-              : !activePool
+              : !hasRoute || (quote && quote.legs.length === 0)
               ? 'No Pool Available'
               : 'Swap Tokens'}
           </Button>
@@ -620,6 +544,20 @@ export const SwapInterface: React.FC<SwapInterfaceProps> = ({ pools }) => {
                 <span className="text-gray-400">Exchange Rate</span>
                 <span className="text-gray-400">1 {fromToken} = {exchangeRate} {toToken}</span>
               </div>
+              {quote && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Route</span>
+                    <span className="text-gray-400 text-right">{quote.route}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Minimum Received</span>
+                    <span className="text-gray-400">
+                      {formatTokenBalance(quote.minimumReceived, toTokenInfo?.decimals ?? 12, 6)} {toToken}
+                    </span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-400">Slippage</span>
                 <span className="text-gray-400">{slippage}%</span>
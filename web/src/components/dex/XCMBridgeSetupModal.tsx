@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { useWallet } from '@/contexts/WalletContext';
 import { X, AlertCircle, Loader2, CheckCircle, Info, ExternalLink, Zap } from 'lucide-react';
@@ -11,7 +11,6 @@ import {
   checkBridgeStatus,
   fetchAssetHubUsdtInfo,
   configureXcmBridge,
-  
   createWUsdtHezPool,
   ASSET_HUB_USDT_ID,
   WUSDT_ASSET_ID,
@@ -19,6 +18,9 @@ import {
   type BridgeStatus,
   type AssetHubUsdtInfo,
 } from '@pezkuwi/lib/xcm-bridge';
+import { parseWUSDT } from '@pezkuwi/lib/usdt';
+import { useXcmTransfer } from '@/hooks/useXcmTransfer';
+import { XcmTransferSteps } from './XcmTransferSteps';
 
 interface XCMBridgeSetupModalProps {
   isOpen: boolean;
@@ -26,7 +28,7 @@ interface XCMBridgeSetupModalProps {
   onSuccess?: () => void;
 }
 
-type SetupStep = 'idle' | 'checking' | 'fetching' | 'configuring' | 'pool-creation' | 'success' | 'error';
+type SetupStep = 'idle' | 'checking' | 'fetching' | 'configuring' | 'pool-creation' | 'test-transfer' | 'success' | 'error';
 
 export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
   isOpen,
@@ -46,6 +48,10 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
   const [showPoolCreation, setShowPoolCreation] = useState(false);
   const [wusdtAmount, setWusdtAmount] = useState('1000');
   const [hezAmount, setHezAmount] = useState('10');
+  const [testAmount, setTestAmount] = useState('1');
+
+  // Asset Hub connection for the test transfer, once the bridge is configured
+  const xcm = useXcmTransfer(isOpen && !!bridgeStatus?.isConfigured);
 
   /**
    * Perform initial status check
@@ -108,12 +114,13 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
     setErrorMessage('');
 
     try {
-      await configureXcmBridge(
+      const blockHash = await configureXcmBridge(
         api,
         signer,
         account,
         (status) => setStatusMessage(status)
       );
+      if (import.meta.env.DEV) console.log('XCM configuration included in', blockHash);
 
       toast({
         title: 'Success!',
@@ -191,9 +198,39 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
     }
   };
 
+  /**
+   * Send a small Asset Hub USDT → wUSDT transfer to the connected account
+   */
+  const handleTestTransfer = async () => {
+    if (!account) return;
+
+    setStep('test-transfer');
+    setErrorMessage('');
+    setStatusMessage('');
+
+    try {
+      const result = await xcm.transfer({
+        direction: 'deposit',
+        amount: parseWUSDT(testAmount).toString(),
+        beneficiary: account,
+      });
+
+      if (result.stage !== 'completed') {
+        throw new Error(result.error || 'Test transfer failed');
+      }
+
+      setStep('success');
+      setStatusMessage(`Test transfer of ${testAmount} USDT arrived as wUSDT`);
+    } catch (error) {
+      console.error('Test transfer failed:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Test transfer failed');
+      setStep('error');
+    }
+  };
+
   if (!isOpen) return null;
 
-  const isLoading = step === 'checking' || step === 'fetching' || step === 'configuring' || step === 'pool-creation';
+  const isLoading = step === 'checking' || step === 'fetching' || step === 'configuring' || step === 'pool-creation' || step === 'test-transfer';
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -259,6 +296,29 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
                 </div>
               </div>
 
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">XCM Pallet:</span>
+                <div className="flex items-center gap-2">
+                  {bridgeStatus.xcmPalletAvailable ? (
+                    <CheckCircle className="w-4 h-4 text-green-400" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-red-400" />
+                  )}
+                  <span className={bridgeStatus.xcmPalletAvailable ? 'text-green-400' : 'text-red-400'}>
+                    {bridgeStatus.xcmPalletAvailable
+                      ? `Available${bridgeStatus.parachainId !== null ? ` (ParaId ${bridgeStatus.parachainId})` : ''}`
+                      : 'Not in runtime'}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-400">Asset Hub XCM Version:</span>
+                <span className={bridgeStatus.assetHubXcmVersion !== null ? 'text-green-400' : 'text-yellow-400'}>
+                  {bridgeStatus.assetHubXcmVersion !== null ? `V${bridgeStatus.assetHubXcmVersion}` : 'Not negotiated'}
+                </span>
+              </div>
+
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-400">XCM Bridge Configured:</span>
                 <div className="flex items-center gap-2">
@@ -311,6 +371,7 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
               <div>Asset Hub USDT ID: {ASSET_HUB_USDT_ID}</div>
               <div>PezkuwiChain wUSDT ID: {WUSDT_ASSET_ID}</div>
               <div>Parachain ID: 1000 (Asset Hub)</div>
+              <div>Transfer: polkadotXcm.limitedReserveTransferAssets (reserve: Asset Hub)</div>
             </div>
           </div>
 
@@ -344,6 +405,38 @@ export const XCMBridgeSetupModal: React.FC<XCMBridgeSetupModalProps> = ({
             </Alert>
           )}
 
+          {/* Test Transfer */}
+          {bridgeStatus?.isConfigured && (
+            <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-3">
+              <div className="text-sm font-semibold text-gray-300">Test Transfer (Asset Hub → PezkuwiChain)</div>
+              <div className="flex gap-3">
+                <input
+                  type="number"
+                  value={testAmount}
+                  onChange={(e) => setTestAmount(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+                  placeholder="1"
+                  disabled={isLoading}
+                />
+                <Button
+                  onClick={handleTestTransfer}
+                  className="bg-purple-600 hover:bg-purple-700"
+                  disabled={isLoading || !xcm.isReady || !testAmount || parseFloat(testAmount) <= 0}
+                >
+                  {step === 'test-transfer' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      Sending...
+                    </>
+                  ) : (
+                    'Send USDT'
+                  )}
+                </Button>
+              </div>
+              {xcm.progress && <XcmTransferSteps progress={xcm.progress} direction="deposit" />}
+            </div>
+          )}
+
           {/* Pool Creation Section (Optional) */}
           {showPoolCreation && (
             <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-4">
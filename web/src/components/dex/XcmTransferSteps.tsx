@@ -0,0 +1,61 @@
+import React from 'react';
+import { CheckCircle, Circle, Loader2, XCircle } from 'lucide-react';
+import type { BridgeDirection, XcmTransferProgress, XcmTransferStage } from '@pezkuwi/lib/xcm-bridge';
+
+interface XcmTransferStepsProps {
+  progress: XcmTransferProgress;
+  direction: BridgeDirection;
+}
+
+const STAGE_ORDER: XcmTransferStage[] = ['signing', 'in-block', 'sent', 'completed'];
+
+const shortHash = (hash?: string) => (hash ? `${hash.slice(0, 10)}…${hash.slice(-6)}` : null);
+
+/**
+ * Progress of an XCM transfer across the source and destination chains
+ */
+export const XcmTransferSteps: React.FC<XcmTransferStepsProps> = ({ progress, direction }) => {
+  const [source, dest] = direction === 'deposit' ? ['Asset Hub', 'PezkuwiChain'] : ['PezkuwiChain', 'Asset Hub'];
+  const failed = progress.stage === 'failed';
+
+  // On failure, the last stage we got data for is where it stopped
+  const reached = failed
+    ? progress.destinationBlockHash ? 3 : progress.messageId || progress.messageHash ? 2 : progress.sourceBlockHash ? 1 : 0
+    : STAGE_ORDER.indexOf(progress.stage);
+
+  const steps = [
+    { label: `Sign on ${source}`, detail: null },
+    { label: `Included on ${source}`, detail: shortHash(progress.sourceBlockHash) },
+    { label: 'XCM message sent', detail: shortHash(progress.messageId || progress.messageHash) },
+    { label: `Received on ${dest}`, detail: shortHash(progress.destinationBlockHash) },
+  ];
+
+  return (
+    <div className="p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-3">
+      {steps.map((step, index) => {
+        const isDone = progress.stage === 'completed' ? true : index < reached;
+        const isCurrent = index === reached && progress.stage !== 'completed';
+
+        return (
+          <div key={step.label} className="flex items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-2">
+              {isDone ? (
+                <CheckCircle className="w-4 h-4 text-green-400" />
+              ) : isCurrent && failed ? (
+                <XCircle className="w-4 h-4 text-red-400" />
+              ) : isCurrent ? (
+                <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+              ) : (
+                <Circle className="w-4 h-4 text-gray-600" />
+              )}
+              <span className={isDone || isCurrent ? 'text-white' : 'text-gray-500'}>{step.label}</span>
+            </div>
+            {step.detail && <span className="text-xs text-gray-400 font-mono">{step.detail}</span>}
+          </div>
+        );
+      })}
+
+      {progress.error && <p className="text-sm text-red-400">{progress.error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import type { SubmittableExtrinsic } from '@polkadot/api/types';
+import { CheckCircle2, ExternalLink, Gavel, Loader2, Plus, ThumbsDown, ThumbsUp } from 'lucide-react';
+import {
+  APPOINTMENT_OUTCOME_LABELS,
+  MINISTER_ROLES,
+  buildApproveAppointmentTx,
+  buildNominateMinisterTx,
+  buildOpenReviewTx,
+  findMinisterNominationCall,
+  getAppointmentHistory,
+  getAppointments,
+  getGovernmentChart,
+  type AppointmentEvent,
+  type AppointmentOutcome,
+  type AppointmentRecord,
+  type GovernmentChart,
+} from '@pezkuwi/lib/appointments';
+import { getThresholdProgress } from '@pezkuwi/lib/legislation';
+import { blocksToTime, getCurrentBlock, getMinisterRoleLabel, type MinisterRole, type VoteChoice } from '@pezkuwi/lib/welati';
+import { checkTikiRole } from '@pezkuwi/lib/guards';
+import { getExplorerTxUrl } from '@pezkuwi/lib/wallet';
+import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
+import { ThresholdProgressBar } from '@/components/legislation/ThresholdProgressBar';
+import { GovernmentOrgChart } from './GovernmentOrgChart';
+
+const OUTCOME_STYLES: Record<AppointmentOutcome, string> = {
+  awaiting_review: 'bg-yellow-500 text-white',
+  in_review: 'bg-blue-500 text-white',
+  confirmed: 'bg-green-500 text-white',
+  rejected_by_parliament: 'bg-red-500 text-white',
+  expired: 'bg-gray-500 text-white',
+  approved: 'bg-green-700 text-white',
+  rejected: 'bg-red-700 text-white',
+};
+
+const EVENT_LABELS: Record<AppointmentEvent['kind'], string> = {
+  nominated: 'Berendam (Nominated)',
+  appointed: 'Destnîşankirî (Appointed)',
+  rejected: 'Redkirî (Rejected)',
+  dismissed: 'Ji kar hate derxistin (Dismissed)',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+const roleLabel = (role: string) =>
+  MINISTER_ROLES.includes(role as MinisterRole) ? getMinisterRoleLabel(role as MinisterRole).en : role;
+
+export function AppointmentWorkflow() {
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+
+  const [appointments, setAppointments] = useState<AppointmentRecord[]>([]);
+  const [chart, setChart] = useState<GovernmentChart | null>(null);
+  const [history, setHistory] = useState<AppointmentEvent[]>([]);
+  const [currentBlock, setCurrentBlock] = useState(0);
+  const [isSerok, setIsSerok] = useState(false);
+  const [isParlementer, setIsParlementer] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const [showNominate, setShowNominate] = useState(false);
+  const [nominee, setNominee] = useState('');
+  const [role, setRole] = useState<MinisterRole>(MINISTER_ROLES[0]);
+  const [justification, setJustification] = useState('');
+
+  const fetchAppointments = useCallback(async () => {
+    if (!api || !isApiReady || !api.query.welati) return;
+
+    try {
+      const block = await getCurrentBlock(api);
+      const records = await getAppointments(api, block);
+      const [governmentChart, events] = await Promise.all([
+        getGovernmentChart(api, records),
+        getAppointmentHistory(),
+      ]);
+
+      setCurrentBlock(block);
+      setAppointments(records);
+      setChart(governmentChart);
+      setHistory(events);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load appointments:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: 'Failed to load appointments',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  useEffect(() => {
+    const address = selectedAccount?.address;
+    Promise.all([checkTikiRole(api, address, 'Serok'), checkTikiRole(api, address, 'Parlementer')]).then(
+      ([serok, parlementer]) => {
+        setIsSerok(serok);
+        setIsParlementer(parlementer);
+      }
+    );
+  }, [api, selectedAccount]);
+
+  const submit = async (
+    key: string,
+    tx: SubmittableExtrinsic<'promise'>,
+    successKey: string,
+    params: Record<string, string | number>,
+    onSuccess?: () => void
+  ) => {
+    if (!api || !selectedAccount) return;
+
+    setPending(key);
+    try {
+      const injector = await web3FromAddress(selectedAccount.address);
+
+      await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess(successKey, toast, params);
+            onSuccess?.();
+            fetchAppointments();
+          }
+          setPending(null);
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Appointment transaction failed:', error);
+      handleBlockchainError(error, api, toast);
+      setPending(null);
+    }
+  };
+
+  // Hidden unless the runtime has a call that takes minister roles
+  const canNominate = !!api && isApiReady && findMinisterNominationCall(api) !== null;
+
+  const handleNominate = () => {
+    if (!api || !nominee.trim() || !justification.trim()) return;
+
+    submit(
+      'nominate',
+      buildNominateMinisterTx(api, nominee.trim(), role, justification.trim()),
+      'welati.ministerNominated',
+      { role: getMinisterRoleLabel(role).en },
+      () => {
+        setShowNominate(false);
+        setNominee('');
+        setJustification('');
+      }
+    );
+  };
+
+  const handleOpenReview = (appointment: AppointmentRecord) => {
+    if (!api) return;
+    submit(
+      `review-${appointment.processId}`,
+      buildOpenReviewTx(api, appointment),
+      'welati.appointmentReviewOpened',
+      { id: appointment.processId }
+    );
+  };
+
+  const handleVote = (appointment: AppointmentRecord, choice: VoteChoice) => {
+    if (!api || !appointment.review) return;
+    submit(
+      `vote-${appointment.processId}`,
+      api.tx.welati.voteOnProposal(appointment.review.proposalId, choice, null),
+      'welati.proposalVoted',
+      { id: appointment.review.proposalId }
+    );
+  };
+
+  const handleApprove = (appointment: AppointmentRecord) => {
+    if (!api) return;
+    submit(
+      `approve-${appointment.processId}`,
+      buildApproveAppointmentTx(api, appointment.processId),
+      'welati.appointmentApproved',
+      { nominee: shortAddress(appointment.nominee), role: roleLabel(appointment.role) }
+    );
+  };
+
+  const renderDeadline = (appointment: AppointmentRecord) => {
+    const remaining = appointment.deadline - currentBlock;
+    if (remaining <= 0) return `Deadline passed at block #${appointment.deadline}`;
+
+    const time = blocksToTime(remaining);
+    return `${time.days}d ${time.hours}h left to decide (block #${appointment.deadline})`;
+  };
+
+  const renderAppointment = (appointment: AppointmentRecord) => {
+    const busy = pending?.endsWith(`-${appointment.processId}`) ?? false;
+
+    return (
+      <Card key={appointment.processId} className="bg-white/95 backdrop-blur hover:shadow-lg transition-shadow">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-xl text-gray-900">{roleLabel(appointment.role)}</CardTitle>
+              <CardDescription className="text-sm text-gray-600">
+                Bicîhbûn #{appointment.processId} · Nominee {shortAddress(appointment.nominee)} · by{' '}
+                {shortAddress(appointment.nominator)}
+              </CardDescription>
+            </div>
+            <Badge className={OUTCOME_STYLES[appointment.outcome]}>
+              {APPOINTMENT_OUTCOME_LABELS[appointment.outcome].en}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {appointment.justification && (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{appointment.justification}</p>
+          )}
+
+          {appointment.status === 'Pending' && (
+            <p className="text-xs text-gray-500">{renderDeadline(appointment)}</p>
+          )}
+
+          {appointment.review && chart && (
+            <ThresholdProgressBar
+              decisionType={appointment.review.decisionType}
+              progress={getThresholdProgress(appointment.review, chart.parliamentSize)}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {appointment.outcome === 'awaiting_review' && isParlementer && (
+              <Button size="sm" onClick={() => handleOpenReview(appointment)} disabled={busy}>
+                <Gavel className="h-4 w-4 mr-1" />
+                Nirxandinê Veke (Open Review)
+              </Button>
+            )}
+            {appointment.outcome === 'in_review' && isParlementer && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleVote(appointment, 'Aye')}
+                  disabled={busy}
+                >
+                  <ThumbsUp className="h-4 w-4 mr-1" />
+                  Erê (Confirm)
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleVote(appointment, 'Nay')}
+                  disabled={busy}
+                >
+                  <ThumbsDown className="h-4 w-4 mr-1" />
+                  Na (Reject)
+                </Button>
+              </>
+            )}
+            {appointment.outcome === 'confirmed' && isSerok && (
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                onClick={() => handleApprove(appointment)}
+                disabled={busy}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Destnîşan Bike (Appoint)
+              </Button>
+            )}
+            {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-600 self-center" />}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-800" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {chart && <GovernmentOrgChart chart={chart} />}
+
+      {isSerok && canNominate && (
+        <div className="flex justify-center">
+          <Button
+            onClick={() => setShowNominate(true)}
+            className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-3 px-6 text-lg"
+          >
+            <Plus className="mr-2 h-5 w-5" />
+            Wezîr Destnîşan Bike (Nominate Minister)
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {appointments.length === 0 ? (
+          <Card className="bg-white/95 backdrop-blur">
+            <CardContent className="pt-6 text-center">
+              <p className="text-gray-600 text-lg">Tu bicîhbûn tune (No appointments yet)</p>
+            </CardContent>
+          </Card>
+        ) : (
+          appointments.map(renderAppointment)
+        )}
+      </div>
+
+      <Card className="bg-white/95 backdrop-blur">
+        <CardHeader>
+          <CardTitle className="text-xl text-gray-900">Dîroka Bicîhbûnan (Appointment History)</CardTitle>
+          <CardDescription>Appointments, rejections and dismissals recorded on chain</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">No recorded appointment events</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {history.map((event) => (
+                <div key={`${event.txHash}-${event.kind}-${event.account}`} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <span className="font-semibold text-gray-900">{EVENT_LABELS[event.kind]}</span>
+                    <span className="text-gray-600">
+                      {' '}· {roleLabel(event.role)} · <span className="font-mono">{shortAddress(event.account)}</span>
+                    </span>
+                  </div>
+                  <a
+                    href={getExplorerTxUrl(event.txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-800 inline-flex items-center"
+                  >
+                    Block #{event.blockNumber}
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showNominate} onOpenChange={setShowNominate}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Wezîr Destnîşan Bike (Nominate Minister)</DialogTitle>
+            <DialogDescription>
+              Parliament reviews the nominee before the appointment deadline.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Wezaret (Ministry)</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as MinisterRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MINISTER_ROLES.map((ministerRole) => (
+                    <SelectItem key={ministerRole} value={ministerRole}>
+                      {getMinisterRoleLabel(ministerRole).en}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Berendam (Nominee address)</Label>
+              <Input value={nominee} onChange={(e) => setNominee(e.target.value)} placeholder="5..." />
+            </div>
+            <div className="space-y-2">
+              <Label>Sedem (Justification)</Label>
+              <Textarea value={justification} onChange={(e) => setJustification(e.target.value)} rows={4} />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleNominate}
+              disabled={pending === 'nominate' || !nominee.trim() || !justification.trim()}
+            >
+              {pending === 'nominate' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Bişîne (Submit)
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { CheckCircle2, Clock, Download, Loader2, ShieldCheck, Trophy, XCircle } from 'lucide-react';
+import { getCurrentBlock, getElectionStatusLabel, type ElectionInfo } from '@pezkuwi/lib/welati';
+import {
+  MINIMUM_TURNOUT,
+  buildElectionExport,
+  buildElectionResultsCsv,
+  getElectionSnapshot,
+  getElectionTimeline,
+  tallyElection,
+  verifyElectionExport,
+  type ElectionExport,
+  type ElectionSnapshot,
+  type ExportVerification,
+} from '@pezkuwi/lib/elections';
+
+interface ElectionResultsPanelProps {
+  election: ElectionInfo;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+const PHASE_STYLES = {
+  past: 'bg-green-500',
+  current: 'bg-yellow-500',
+  upcoming: 'bg-gray-700',
+};
+
+export function ElectionResultsPanel({ election }: ElectionResultsPanelProps) {
+  const { api, isApiReady } = usePolkadot();
+  const [snapshot, setSnapshot] = useState<ElectionSnapshot | null>(null);
+  const [currentBlock, setCurrentBlock] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<ExportVerification | null>(null);
+
+  useEffect(() => {
+    if (!api || !isApiReady) return;
+
+    Promise.all([getElectionSnapshot(api, election.electionId), getCurrentBlock(api)])
+      .then(([snapshotData, block]) => {
+        setSnapshot(snapshotData);
+        setCurrentBlock(block);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load election tally:', error);
+      })
+      .finally(() => setLoading(false));
+  }, [api, isApiReady, election]);
+
+  const timeline = useMemo(
+    () => (currentBlock !== null ? getElectionTimeline(election, currentBlock) : null),
+    [election, currentBlock]
+  );
+  const tally = useMemo(() => snapshot && tallyElection(snapshot), [snapshot]);
+
+  const download = (content: string, type: string, extension: string) => {
+    if (!snapshot) return;
+
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `election-${election.electionId}-block-${snapshot.blockNumber}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleVerify = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!api || !file) return;
+
+    setVerifying(true);
+    try {
+      const exported = JSON.parse(await file.text()) as ElectionExport;
+      setVerification(await verifyElectionExport(api, exported));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to verify election export:', error);
+      toast({
+        title: 'Verification failed',
+        description: 'The file is not a readable election results export',
+        variant: 'destructive',
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Phase Timeline */}
+      {timeline && (
+        <div>
+          <div className="grid grid-cols-4 gap-1">
+            {timeline.phases.map((phase) => (
+              <div key={phase.status}>
+                <div className={`h-1.5 rounded-full ${PHASE_STYLES[phase.state]}`} />
+                <p className={`text-xs mt-1 ${phase.state === 'current' ? 'text-white font-medium' : 'text-gray-500'}`}>
+                  {getElectionStatusLabel(phase.status).en}
+                </p>
+                <p className="text-[10px] text-gray-600">
+                  {phase.endBlock !== null ? `#${phase.startBlock}–#${phase.endBlock}` : `from #${phase.startBlock}`}
+                </p>
+              </div>
+            ))}
+          </div>
+          {timeline.current !== 'Completed' && (
+            <p className="text-xs text-gray-400 mt-2 flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {getElectionStatusLabel(timeline.current).en} ends in {timeline.timeRemaining.days}d{' '}
+              {timeline.timeRemaining.hours}h {timeline.timeRemaining.minutes}m ({timeline.blocksRemaining} blocks)
+            </p>
+          )}
+        </div>
+      )}
+
+      {tally && snapshot && (
+        <>
+          {/* Turnout */}
+          <div className="bg-gray-800/50 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                Turnout · {tally.ballots.toLocaleString()} ballots
+                {tally.eligibleVoters !== null && ` of ${tally.eligibleVoters.toLocaleString()} eligible`}
+              </span>
+              <span className={tally.meetsMinimumTurnout ? 'text-green-400' : 'text-yellow-400'}>
+                {tally.turnout.toFixed(1)}% / {MINIMUM_TURNOUT[tally.electionType]}% required
+              </span>
+            </div>
+            <Progress value={Math.min(100, tally.turnout)} className="h-2" />
+          </div>
+
+          {tally.runoffRequired && (
+            <div className="flex items-center gap-2 text-sm p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+              <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Runoff</Badge>
+              <span className="text-yellow-200">
+                No absolute majority. Runoff between {tally.runoffCandidates.map(shortAddress).join(' and ')}
+              </span>
+            </div>
+          )}
+
+          {/* District Tallies */}
+          {tally.districts.map((district) => (
+            <div key={district.districtId ?? 'at-large'} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-medium">{district.name}</span>
+                <span className="text-gray-500 text-xs">
+                  {district.seats} seat{district.seats === 1 ? '' : 's'} · {district.ballots} ballots
+                  {district.turnout !== null && ` · ${district.turnout.toFixed(1)}% turnout`}
+                </span>
+              </div>
+              {district.candidates.length === 0 ? (
+                <p className="text-xs text-gray-500">No candidates</p>
+              ) : (
+                district.candidates.map((candidate) => (
+                  <div key={candidate.account} className="flex items-center gap-3 text-sm">
+                    <span className="font-mono text-gray-300 w-36">{shortAddress(candidate.account)}</span>
+                    <Progress value={candidate.share} className="h-2 flex-1" />
+                    <span className="text-gray-400 w-24 text-right">
+                      {candidate.votes.toLocaleString()} ({candidate.share.toFixed(1)}%)
+                    </span>
+                    {candidate.elected ? (
+                      <Trophy className="w-4 h-4 text-yellow-500" />
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                  </div>
+                ))
+              )}
+              {district.tiedAtCutoff && (
+                <p className="text-xs text-yellow-400">Tie for the last seat</p>
+              )}
+            </div>
+          ))}
+
+          {/* Export & Verify */}
+          <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-800">
+            <span className="text-xs text-gray-500 font-mono mr-auto">
+              Block #{snapshot.blockNumber} · {shortAddress(snapshot.blockHash)}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => download(buildElectionResultsCsv(buildElectionExport(snapshot, tally)), 'text/csv', 'csv')}
+            >
+              <Download className="w-3 h-3 mr-1" />
+              CSV
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => download(JSON.stringify(buildElectionExport(snapshot, tally), null, 2), 'application/json', 'json')}
+            >
+              <Download className="w-3 h-3 mr-1" />
+              JSON
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={verifying} asChild>
+              <label className="cursor-pointer">
+                {verifying ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <ShieldCheck className="w-3 h-3 mr-1" />}
+                Verify export
+                <input type="file" accept="application/json" className="hidden" onChange={handleVerify} />
+              </label>
+            </Button>
+          </div>
+
+          {verification && (
+            <div className="flex gap-4 text-xs">
+              {([
+                ['Recount matches export', verification.recountMatches],
+                ['Chain matches export', verification.chainMatches],
+              ] as const).map(([label, ok]) => (
+                <span key={label} className="flex items-center gap-1">
+                  {ok ? <CheckCircle2 className="w-3 h-3 text-green-400" /> : <XCircle className="w-3 h-3 text-red-400" />}
+                  <span className={ok ? 'text-gray-400' : 'text-red-400'}>{label}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Briefcase, Crown, Landmark, Scale, Users } from 'lucide-react';
+import type { GovernmentChart } from '@pezkuwi/lib/appointments';
+import { getMinisterRoleLabel } from '@pezkuwi/lib/welati';
+
+interface GovernmentOrgChartProps {
+  chart: GovernmentChart;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+function Office({ icon, title, holder }: { icon: React.ReactNode; title: string; holder?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-3 text-center shadow-sm">
+      <div className="flex items-center justify-center gap-2 text-sm font-semibold text-gray-900">
+        {icon}
+        {title}
+      </div>
+      <p className={`mt-1 font-mono text-xs ${holder ? 'text-gray-600' : 'text-gray-400 italic'}`}>
+        {holder ? shortAddress(holder) : 'Vala (Vacant)'}
+      </p>
+    </div>
+  );
+}
+
+export function GovernmentOrgChart({ chart }: GovernmentOrgChartProps) {
+  return (
+    <Card className="bg-white/95 backdrop-blur">
+      <CardHeader>
+        <CardTitle className="text-2xl text-gray-900">Hikûmeta Niha (Current Government)</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="mx-auto max-w-xs">
+          <Office icon={<Crown className="h-4 w-4 text-yellow-600" />} title="Serok (President)" holder={chart.serok} />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Office
+            icon={<Briefcase className="h-4 w-4 text-green-600" />}
+            title="Serokê Wezîran (Prime Minister)"
+            holder={chart.serokWeziran}
+          />
+          <Office
+            icon={<Landmark className="h-4 w-4 text-blue-600" />}
+            title="Serokê Meclîsê (Speaker)"
+            holder={chart.meclisBaskanı}
+          />
+          <div className="rounded-lg border border-gray-200 bg-white p-3 text-center shadow-sm">
+            <div className="flex items-center justify-center gap-2 text-sm font-semibold text-gray-900">
+              <Scale className="h-4 w-4 text-purple-600" />
+              Dîwan (Constitutional Court)
+            </div>
+            <p className="mt-1 text-xs text-gray-600">{chart.diwanSize} endam (members)</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {chart.ministries.map((ministry) => (
+            <div key={ministry.role} className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+              <p className="text-sm font-semibold text-gray-900">{getMinisterRoleLabel(ministry.role).kmr}</p>
+              <p className="text-xs text-gray-500">{getMinisterRoleLabel(ministry.role).en}</p>
+              {ministry.minister ? (
+                <p className="mt-2 font-mono text-xs text-gray-700">{shortAddress(ministry.minister)}</p>
+              ) : (
+                <p className="mt-2 text-xs italic text-gray-400">Vala (Vacant)</p>
+              )}
+              {ministry.pendingNominee && (
+                <Badge variant="outline" className="mt-2 border-yellow-500 text-yellow-700">
+                  Nominee {shortAddress(ministry.pendingNominee)}
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+          <Users className="h-4 w-4" />
+          {chart.parliamentSize} parlementer (members of parliament)
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { GitMerge, Loader2, MessageSquare, Paperclip, Reply, Shield } from 'lucide-react';
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_REGIONS,
+  ISSUE_STATUS_LABELS,
+  ISSUE_STATUS_TRANSITIONS,
+  buildCommentThreads,
+  type IssueComment,
+  type IssueCommentNode,
+  type IssueStatus,
+  type IssueUpdateKind,
+  type TrackedIssue,
+} from '@pezkuwi/lib/issues';
+import {
+  addIssueComment,
+  getIssueComments,
+  postIssueUpdate,
+  subscribeToIssueComments,
+} from '@pezkuwi/lib/issue-tracker';
+import { getIPFSUrl } from '@pezkuwi/lib/ipfs';
+
+interface IssueDetailDialogProps {
+  issue: TrackedIssue | null;
+  issues: TrackedIssue[];
+  /** The selected account holds a Tiki responsible for this issue */
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: () => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+export function IssueDetailDialog({ issue, issues, canManage, onOpenChange, onUpdated }: IssueDetailDialogProps) {
+  const { api, selectedAccount } = usePolkadot();
+
+  const [comments, setComments] = useState<IssueComment[]>([]);
+  const [loadingComments, setLoadingComments] = useState(false);
+  const [commentBody, setCommentBody] = useState('');
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<IssueComment | null>(null);
+  const [posting, setPosting] = useState(false);
+
+  const [nextStatus, setNextStatus] = useState<IssueStatus | ''>('');
+  const [statusNote, setStatusNote] = useState('');
+  const [response, setResponse] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [updating, setUpdating] = useState<IssueUpdateKind | null>(null);
+
+  const issueId = issue?.id;
+
+  useEffect(() => {
+    if (issueId === undefined) return;
+
+    setComments([]);
+    setReplyTo(null);
+    setNextStatus('');
+    setMergeTarget('');
+    setLoadingComments(true);
+    getIssueComments(issueId)
+      .then(setComments)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load comments:', error);
+      })
+      .finally(() => setLoadingComments(false));
+
+    return subscribeToIssueComments(issueId, (comment) =>
+      setComments((prev) => (prev.some((existing) => existing.id === comment.id) ? prev : [...prev, comment]))
+    );
+  }, [issueId]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const mergeTargets = useMemo(
+    () => issues.filter((other) => issue && other.id !== issue.id && other.mergedInto === null),
+    [issues, issue]
+  );
+
+  if (!issue) return null;
+
+  const handlePostComment = async () => {
+    if (!selectedAccount || !commentBody.trim()) return;
+
+    setPosting(true);
+    try {
+      const comment = await addIssueComment({
+        issueId: issue.id,
+        parentId: replyTo?.id ?? null,
+        address: selectedAccount.address,
+        body: commentBody,
+        files: commentFiles,
+      });
+      setComments((prev) => (prev.some((existing) => existing.id === comment.id) ? prev : [...prev, comment]));
+      setCommentBody('');
+      setCommentFiles([]);
+      setReplyTo(null);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to post comment:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: error instanceof Error ? error.message : 'Failed to post comment',
+        variant: 'destructive',
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleUpdate = async (kind: IssueUpdateKind) => {
+    if (!api || !selectedAccount) return;
+
+    setUpdating(kind);
+    try {
+      const { notified } = await postIssueUpdate(selectedAccount.address, {
+        issueId: issue.id,
+        kind,
+        status: kind === 'status' ? (nextStatus as IssueStatus) : undefined,
+        mergedInto: kind === 'merge' ? Number(mergeTarget) : undefined,
+        note: kind === 'response' ? response : statusNote,
+      });
+
+      toast({
+        title: 'Hate nûkirin (Updated)',
+        description: kind === 'response'
+          ? 'Official response published'
+          : `Issue #${issue.id} updated; ${notified} supporter(s) notified`,
+      });
+      setStatusNote('');
+      setResponse('');
+      setNextStatus('');
+      setMergeTarget('');
+      onUpdated();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to update issue:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: error instanceof Error ? error.message : 'Failed to update issue',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const renderComment = (comment: IssueCommentNode, depth: number): React.ReactNode => (
+    <div key={comment.id} className={depth > 0 ? 'ml-6 border-l-2 border-gray-200 pl-3' : ''}>
+      <div className="py-2">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span className="font-mono">
+            {shortAddress(comment.author_address)}
+            {comment.author_address === issue.submitter && ' · submitter'}
+          </span>
+          <span>{new Date(comment.created_at).toLocaleString()}</span>
+        </div>
+        <p className="text-sm text-gray-800 whitespace-pre-wrap mt-1">{comment.body}</p>
+        {comment.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-1">
+            {comment.attachments.map((attachment) => (
+              <a
+                key={attachment.cid}
+                href={getIPFSUrl(attachment.cid)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-600 hover:text-blue-800 inline-flex items-center"
+              >
+                <Paperclip className="w-3 h-3 mr-1" />
+                {attachment.name}
+              </a>
+            ))}
+          </div>
+        )}
+        {selectedAccount && (
+          <button
+            type="button"
+            onClick={() => setReplyTo(comment)}
+            className="text-xs text-gray-500 hover:text-gray-800 inline-flex items-center mt-1"
+          >
+            <Reply className="w-3 h-3 mr-1" />
+            Bersiv (Reply)
+          </button>
+        )}
+      </div>
+      {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+    </div>
+  );
+
+  const category = ISSUE_CATEGORIES.find((option) => option.value === issue.category);
+  const region = ISSUE_REGIONS.find((option) => option.value === issue.region);
+  const transitions = ISSUE_STATUS_TRANSITIONS[issue.effectiveStatus];
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl text-gray-900">Pirsgirêk #{issue.id}</DialogTitle>
+          <DialogDescription>
+            {category?.label ?? issue.category} · {ISSUE_STATUS_LABELS[issue.effectiveStatus]}
+            {region && ` · ${region.label}`} · Block #{issue.blockNumber}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <p className="text-gray-800 whitespace-pre-wrap">{issue.description}</p>
+
+          {issue.mergedInto !== null && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 bg-gray-100 rounded p-3">
+              <GitMerge className="h-4 w-4" />
+              Duplicate of issue #{issue.mergedInto}. Discussion continues there.
+            </div>
+          )}
+          {issue.duplicates.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Merged duplicates: {issue.duplicates.map((id) => `#${id}`).join(', ')} · {issue.totalSupport} total
+              supporters
+            </p>
+          )}
+
+          {/* Official responses */}
+          {(issue.response || issue.responses.length > 0) && (
+            <div className="space-y-2">
+              {issue.response && (
+                <div className="bg-blue-50 border-l-4 border-blue-500 p-3">
+                  <p className="text-sm font-semibold text-blue-800 mb-1">Bersiva Hikûmetê (Government Response)</p>
+                  <p className="text-sm text-gray-700">{issue.response}</p>
+                </div>
+              )}
+              {issue.responses.map((update) => (
+                <div key={update.id} className="bg-blue-50 border-l-4 border-blue-500 p-3">
+                  <p className="text-sm font-semibold text-blue-800 mb-1 flex items-center gap-1">
+                    <Shield className="h-4 w-4" />
+                    Bersiva Fermî (Official Response) · {shortAddress(update.actor_address)}
+                  </p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{update.note}</p>
+                  <p className="text-xs text-gray-500 mt-1">{new Date(update.issued_at).toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Status history */}
+          {issue.history.some((update) => update.kind !== 'response') && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">Dîrok (History)</h4>
+              <ol className="space-y-1 text-sm text-gray-700">
+                {issue.history
+                  .filter((update) => update.kind !== 'response')
+                  .map((update) => (
+                    <li key={update.id}>
+                      <span className="text-gray-500">{new Date(update.issued_at).toLocaleDateString()}</span>{' '}
+                      {update.kind === 'merge'
+                        ? `Merged into #${update.merged_into}`
+                        : `Status set to ${update.status ? ISSUE_STATUS_LABELS[update.status] : ''}`}{' '}
+                      by <span className="font-mono">{shortAddress(update.actor_address)}</span>
+                      {update.note && <span className="text-gray-500"> - {update.note}</span>}
+                    </li>
+                  ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Official actions */}
+          {canManage && issue.mergedInto === null && (
+            <div className="border rounded-lg p-4 space-y-3 bg-gray-50">
+              <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+                <Shield className="h-4 w-4" />
+                Çalakiyên Fermî (Official Actions)
+              </h4>
+
+              <div className="flex flex-col md:flex-row gap-2">
+                <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as IssueStatus)}>
+                  <SelectTrigger className="md:w-48">
+                    <SelectValue placeholder="Rewşa nû (New status)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transitions.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ISSUE_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={statusNote}
+                  onChange={(e) => setStatusNote(e.target.value)}
+                  placeholder="Note (optional)"
+                />
+                <Button onClick={() => handleUpdate('status')} disabled={!nextStatus || updating !== null}>
+                  {updating === 'status' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Update
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Textarea
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  placeholder="Bersiva fermî (Official response)"
+                  rows={3}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleUpdate('response')}
+                  disabled={!response.trim() || updating !== null}
+                >
+                  {updating === 'response' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Publish Response
+                </Button>
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-2">
+                <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                  <SelectTrigger className="md:flex-1">
+                    <SelectValue placeholder="Duplicate of... (Merge into)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mergeTargets.map((other) => (
+                      <SelectItem key={other.id} value={String(other.id)}>
+                        #{other.id} · {other.description.slice(0, 60)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => handleUpdate('merge')}
+                  disabled={!mergeTarget || updating !== null}
+                >
+                  {updating === 'merge' ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <GitMerge className="h-4 w-4 mr-2" />
+                  )}
+                  Merge
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Comments */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2 flex items-center gap-1">
+              <MessageSquare className="h-4 w-4" />
+              Şîrove (Comments) · {comments.length}
+            </h4>
+            {loadingComments ? (
+              <Loader2 className="h-5 w-5 animate-spin text-gray-500" />
+            ) : threads.length === 0 ? (
+              <p className="text-sm text-gray-500">No comments yet</p>
+            ) : (
+              <div className="divide-y divide-gray-100">{threads.map((thread) => renderComment(thread, 0))}</div>
+            )}
+
+            {selectedAccount && issue.mergedInto === null && (
+              <div className="space-y-2 mt-3">
+                {replyTo && (
+                  <div className="flex items-center justify-between text-xs text-gray-600 bg-gray-100 rounded px-2 py-1">
+                    <span>Replying to {shortAddress(replyTo.author_address)}</span>
+                    <button type="button" onClick={() => setReplyTo(null)} className="hover:text-gray-900">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                <Textarea
+                  value={commentBody}
+                  onChange={(e) => setCommentBody(e.target.value)}
+                  placeholder="Şîroveyek binivîse... (Write a comment...)"
+                  rows={3}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <Input
+                    type="file"
+                    multiple
+                    onChange={(e) => setCommentFiles(Array.from(e.target.files ?? []))}
+                    className="max-w-xs text-xs"
+                  />
+                  <Button onClick={handlePostComment} disabled={posting || !commentBody.trim()}>
+                    {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Şandin (Post)
+                  </Button>
+                </div>
+                {commentFiles.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {commentFiles.map((file) => (
+                      <Badge key={file.name} variant="outline">
+                        {file.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,486 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  GitMerge,
+  Loader2,
+  MapPin,
+  MessageSquare,
+  Plus,
+  Search,
+  ThumbsDown,
+  ThumbsUp,
+  XCircle,
+} from 'lucide-react';
+import {
+  ISSUE_CATEGORIES,
+  ISSUE_CATEGORY_MINISTRIES,
+  ISSUE_REGIONS,
+  ISSUE_STATUSES,
+  ISSUE_STATUS_LABELS,
+  filterAuthorizedUpdates,
+  filterIssues,
+  getIssueResponsibleRoles,
+  getIssues,
+  getUserIssueVotes,
+  trackIssues,
+  type IssueStatus,
+  type TrackedIssue,
+} from '@pezkuwi/lib/issues';
+import { getIssueCommentCounts, getIssueRegions, getIssueUpdates, setIssueRegion } from '@pezkuwi/lib/issue-tracker';
+import type { Region } from '@pezkuwi/lib/citizenship-workflow';
+import { checkTikiRole } from '@pezkuwi/lib/guards';
+import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
+import { IssueDetailDialog } from './IssueDetailDialog';
+
+const CATEGORY_COLORS: Record<string, string> = {
+  Governance: 'bg-blue-500',
+  Security: 'bg-red-500',
+  Economy: 'bg-green-500',
+  Infrastructure: 'bg-gray-500',
+  Education: 'bg-purple-500',
+  Healthcare: 'bg-pink-500',
+  Environment: 'bg-emerald-500',
+  Other: 'bg-orange-500',
+};
+
+const STATUS_STYLES: Record<IssueStatus, { color: string; icon: React.ReactNode }> = {
+  Pending: { color: 'bg-yellow-500', icon: <Clock className="h-4 w-4" /> },
+  InProgress: { color: 'bg-blue-500', icon: <AlertCircle className="h-4 w-4" /> },
+  Resolved: { color: 'bg-green-500', icon: <CheckCircle2 className="h-4 w-4" /> },
+  Closed: { color: 'bg-gray-500', icon: <XCircle className="h-4 w-4" /> },
+};
+
+const RESPONSIBLE_ROLES = [...new Set([...Object.values<string[]>(ISSUE_CATEGORY_MINISTRIES).flat(), 'SerokWeziran'])];
+
+export function IssueTracker() {
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [issues, setIssues] = useState<TrackedIssue[]>([]);
+  const [commentCounts, setCommentCounts] = useState<Map<number, number>>(new Map());
+  const [userVotes, setUserVotes] = useState<Map<number, boolean>>(new Map());
+  const [userRoles, setUserRoles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [regionFilter, setRegionFilter] = useState('all');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const [showSubmitModal, setShowSubmitModal] = useState(false);
+  const [newIssueDescription, setNewIssueDescription] = useState('');
+  const [newIssueCategory, setNewIssueCategory] = useState('Governance');
+  const [newIssueRegion, setNewIssueRegion] = useState<Region | 'none'>('none');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchIssues = useCallback(async () => {
+    if (!api || !isApiReady || !api.query.welati) return;
+
+    try {
+      const chainIssues = await getIssues(api);
+
+      // The tracker still works from chain data if Supabase is unavailable
+      const [updates, regions, counts] = await Promise.all([
+        getIssueUpdates().catch((error) => {
+          console.warn('Issue updates not available:', error);
+          return [];
+        }),
+        getIssueRegions().catch(() => new Map<number, Region>()),
+        getIssueCommentCounts().catch(() => new Map<number, number>()),
+      ]);
+
+      const authorized = await filterAuthorizedUpdates(api, updates, chainIssues);
+      setIssues(trackIssues(chainIssues, authorized, regions));
+      setCommentCounts(counts);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load issues:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: 'Failed to load issues',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  useEffect(() => {
+    if (!api || !isApiReady || !api.query.welati || !selectedAccount) {
+      setUserVotes(new Map());
+      setUserRoles([]);
+      return;
+    }
+
+    getUserIssueVotes(api, selectedAccount.address)
+      .then(setUserVotes)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load issue votes:', error);
+      });
+
+    Promise.all(RESPONSIBLE_ROLES.map((role) => checkTikiRole(api, selectedAccount.address, role))).then((held) =>
+      setUserRoles(RESPONSIBLE_ROLES.filter((_, i) => held[i]))
+    );
+  }, [api, isApiReady, selectedAccount]);
+
+  const filteredIssues = useMemo(
+    () => filterIssues(issues, {
+      category: categoryFilter,
+      status: statusFilter,
+      region: regionFilter,
+      query: searchQuery,
+    }),
+    [issues, categoryFilter, statusFilter, regionFilter, searchQuery]
+  );
+
+  const selectedIssue = issues.find((issue) => String(issue.id) === searchParams.get('issue')) ?? null;
+
+  const openIssue = (issueId: number | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (issueId === null) params.delete('issue');
+    else params.set('issue', String(issueId));
+    setSearchParams(params, { replace: true });
+  };
+
+  const canManage = (issue: TrackedIssue) =>
+    getIssueResponsibleRoles(issue.category).some((role) => userRoles.includes(role));
+
+  const handleSubmitIssue = async () => {
+    if (!api || !selectedAccount || !newIssueDescription.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const region = newIssueRegion;
+      const submitter = selectedAccount.address;
+      const injector = await web3FromAddress(selectedAccount.address);
+      const tx = api.tx.welati.submitIssue(newIssueDescription, newIssueCategory);
+
+      await tx.signAndSend(submitter, { signer: injector.signer }, ({ status, dispatchError, events }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess('welati.issueSubmitted', toast);
+            setShowSubmitModal(false);
+            setNewIssueDescription('');
+            setNewIssueCategory('Governance');
+            setNewIssueRegion('none');
+
+            // The id assigned by this extrinsic, not a guess from issueCount
+            const submitted = events.find(({ event }) => api.events.welati.IssueSubmitted.is(event));
+            const tagged = region === 'none' || !submitted
+              ? Promise.resolve()
+              : setIssueRegion(submitter, Number(submitted.event.data[0].toString()), region).catch((error) => {
+                if (import.meta.env.DEV) console.error('Failed to tag issue region:', error);
+              });
+            tagged.then(fetchIssues);
+          }
+          setIsSubmitting(false);
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error submitting issue:', error);
+      handleBlockchainError(error, api, toast);
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVote = async (issueId: number, support: boolean) => {
+    if (!api || !selectedAccount) return;
+
+    try {
+      const injector = await web3FromAddress(selectedAccount.address);
+      const tx = api.tx.welati.voteOnIssue(issueId, support);
+
+      await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess('welati.issueVoted', toast, { id: issueId });
+            setUserVotes((prev) => new Map(prev).set(issueId, support));
+            fetchIssues();
+          }
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error voting:', error);
+      handleBlockchainError(error, api, toast);
+    }
+  };
+
+  const renderIssue = (issue: TrackedIssue) => {
+    const status = STATUS_STYLES[issue.effectiveStatus];
+    const voted = userVotes.has(issue.id);
+
+    return (
+      <Card key={issue.id} className="bg-white/95 backdrop-blur hover:shadow-lg transition-shadow">
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <Badge className={`${CATEGORY_COLORS[issue.category] ?? 'bg-gray-500'} text-white`}>
+              {ISSUE_CATEGORIES.find((category) => category.value === issue.category)?.label ?? issue.category}
+            </Badge>
+            <Badge className={`${status.color} text-white flex items-center gap-1`}>
+              {status.icon}
+              {ISSUE_STATUS_LABELS[issue.effectiveStatus]}
+            </Badge>
+            {issue.region && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                {ISSUE_REGIONS.find((region) => region.value === issue.region)?.label}
+              </Badge>
+            )}
+            {issue.mergedInto !== null && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <GitMerge className="h-3 w-3" />
+                Duplicate of #{issue.mergedInto}
+              </Badge>
+            )}
+          </div>
+          <CardDescription className="text-xs text-gray-500">
+            Pirsgirêk #{issue.id} • Block #{issue.blockNumber}
+            {issue.responses.length > 0 && ' • Official response'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-800 mb-4 whitespace-pre-wrap line-clamp-4">{issue.description}</p>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant={userVotes.get(issue.id) === true ? 'default' : 'outline'}
+                className={userVotes.get(issue.id) === true ? 'bg-green-600 hover:bg-green-700' : ''}
+                onClick={() => handleVote(issue.id, true)}
+                disabled={voted || issue.mergedInto !== null}
+              >
+                <ThumbsUp className="h-4 w-4 mr-1" />
+                {issue.supportVotes}
+                {issue.duplicates.length > 0 && ` (${issue.totalSupport} with duplicates)`}
+              </Button>
+              <Button
+                size="sm"
+                variant={userVotes.get(issue.id) === false ? 'default' : 'outline'}
+                className={userVotes.get(issue.id) === false ? 'bg-red-600 hover:bg-red-700' : ''}
+                onClick={() => handleVote(issue.id, false)}
+                disabled={voted || issue.mergedInto !== null}
+              >
+                <ThumbsDown className="h-4 w-4 mr-1" />
+                {issue.opposeVotes}
+              </Button>
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => openIssue(issue.id)}>
+              <MessageSquare className="h-4 w-4 mr-1" />
+              {commentCounts.get(issue.id) ?? 0} şîrove (comments)
+            </Button>
+            {voted && (
+              <p className="text-sm text-gray-600 italic">Hûn berê deng dane (You already voted)</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-800" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Submit Issue Button */}
+      <div className="mb-6 flex justify-center">
+        <Button
+          onClick={() => setShowSubmitModal(true)}
+          className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-6 text-lg"
+        >
+          <Plus className="mr-2 h-5 w-5" />
+          Pirsgirêkeke Nû Şandin (Submit New Issue)
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-white/95 backdrop-blur mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="text-sm font-semibold text-gray-700 mb-2 block">Kategorî (Category)</label>
+              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Hemû (All)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Hemû (All)</SelectItem>
+                  {ISSUE_CATEGORIES.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-700 mb-2 block">Rewş (Status)</label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Hemû (All)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Hemû (All)</SelectItem>
+                  {ISSUE_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {ISSUE_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-700 mb-2 block">Herêm (Region)</label>
+              <Select value={regionFilter} onValueChange={setRegionFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Hemû (All)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Hemû (All)</SelectItem>
+                  {ISSUE_REGIONS.map((region) => (
+                    <SelectItem key={region.value} value={region.value}>
+                      {region.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-700 mb-2 block">Lêgerîn (Search)</label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  type="text"
+                  placeholder="Pirsgirêk bigere... (Search issues...)"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Issues List */}
+      <div className="space-y-4">
+        {filteredIssues.length === 0 ? (
+          <Card className="bg-white/95 backdrop-blur">
+            <CardContent className="pt-6 text-center">
+              <p className="text-gray-600 text-lg">Tu pirsgirêk nehat dîtin (No issues found)</p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredIssues.map(renderIssue)
+        )}
+      </div>
+
+      <IssueDetailDialog
+        issue={selectedIssue}
+        issues={issues}
+        canManage={selectedIssue ? canManage(selectedIssue) : false}
+        onOpenChange={(open) => !open && openIssue(null)}
+        onUpdated={fetchIssues}
+      />
+
+      {/* Submit Issue Modal */}
+      <Dialog open={showSubmitModal} onOpenChange={setShowSubmitModal}>
+        <DialogContent className="sm:max-w-lg bg-gradient-to-br from-green-700 via-white to-red-600">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-purple-700">
+              Pirsgirêkeke Nû Şandin (Submit New Issue)
+            </DialogTitle>
+            <DialogDescription className="text-gray-700">
+              Pirsgirêka xwe bi rêveberiyê re parve bikin (Share your concern with governance)
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-semibold text-gray-800 mb-2 block">Kategorî (Category)</label>
+                <Select value={newIssueCategory} onValueChange={setNewIssueCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ISSUE_CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-semibold text-gray-800 mb-2 block">Herêm (Region)</label>
+                <Select value={newIssueRegion} onValueChange={(value) => setNewIssueRegion(value as Region | 'none')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Giştî (General)</SelectItem>
+                    {ISSUE_REGIONS.map((region) => (
+                      <SelectItem key={region.value} value={region.value}>
+                        {region.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-800 mb-2 block">
+                Şiroveya Pirsgirêkê (Issue Description)
+              </label>
+              <Textarea
+                placeholder="Pirsgirêka xwe bi berfirehî rave bikin... (Describe your issue in detail...)"
+                value={newIssueDescription}
+                onChange={(e) => setNewIssueDescription(e.target.value)}
+                rows={6}
+                className="resize-none"
+              />
+            </div>
+
+            <Button
+              onClick={handleSubmitIssue}
+              disabled={isSubmitting || !newIssueDescription.trim()}
+              className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3"
+            >
+              {isSubmitting ? 'Tê şandin... (Submitting...)' : 'Şandin (Submit)'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { ExternalLink, FileText, Loader2, Plus } from 'lucide-react';
+import {
+  getDecisionBody,
+  getDecisionMembers,
+  getLegislation,
+  getThresholdProgress,
+  withExecutionRecords,
+  type DecisionBody,
+  type LegislationRecord,
+} from '@pezkuwi/lib/legislation';
+import type { CollectiveDecisionType } from '@pezkuwi/lib/welati';
+import { getExplorerTxUrl } from '@pezkuwi/lib/wallet';
+import { ThresholdProgressBar } from './ThresholdProgressBar';
+import { ProposeLegislationDialog } from './ProposeLegislationDialog';
+
+const BODY_DECISION_TYPES: Record<DecisionBody, CollectiveDecisionType> = {
+  parliament: 'ParliamentSimpleMajority',
+  diwan: 'ConstitutionalReview',
+  executive: 'ExecutiveDecision',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Active: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+  Approved: 'bg-green-500/10 text-green-400 border-green-500/30',
+  Executed: 'bg-green-500/10 text-green-400 border-green-500/30',
+  Rejected: 'bg-red-500/10 text-red-400 border-red-500/30',
+  Expired: 'bg-gray-500/10 text-gray-400 border-gray-500/30',
+};
+
+export function LegislationTracker() {
+  const { api, isApiReady } = usePolkadot();
+  const navigate = useNavigate();
+  const [records, setRecords] = useState<LegislationRecord[]>([]);
+  const [electorates, setElectorates] = useState<Partial<Record<DecisionBody, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [showPropose, setShowPropose] = useState(false);
+
+  const fetchLegislation = useCallback(async () => {
+    if (!api || !isApiReady || !api.query.welati) return;
+
+    try {
+      const legislation = await getLegislation(api);
+      const bodies = [...new Set<DecisionBody>(legislation.map((record) => getDecisionBody(record.decisionType)))];
+      const members = await Promise.all(bodies.map((body) => getDecisionMembers(api, BODY_DECISION_TYPES[body])));
+
+      setElectorates(Object.fromEntries(bodies.map((body, i) => [body, members[i].length])));
+      setRecords(await withExecutionRecords(legislation));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load legislation:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: 'Failed to load legislation',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    fetchLegislation();
+  }, [fetchLegislation]);
+
+  const active = records.filter((record) => record.status === 'Active');
+  const decided = records.filter((record) => ['Approved', 'Rejected', 'Expired'].includes(record.status));
+  const executed = records.filter((record) => record.status === 'Executed');
+
+  const renderRecord = (record: LegislationRecord) => (
+    <Card
+      key={record.proposalId}
+      className="bg-gray-900 border-gray-800 hover:border-gray-700 cursor-pointer transition-colors"
+      onClick={() => navigate(`/citizens/legislation/${record.proposalId}`)}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg text-white">{record.title}</CardTitle>
+            <CardDescription className="text-xs text-gray-500">
+              Pêşniyar #{record.proposalId} · Block #{record.proposedAt}
+              {record.textCid && ' · Full text on IPFS'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {record.priority !== 'Normal' && <Badge variant="outline">{record.priority}</Badge>}
+            <Badge className={STATUS_STYLES[record.status]}>{record.status}</Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!record.textCid && <p className="text-sm text-gray-400 line-clamp-2">{record.description}</p>}
+        <ThresholdProgressBar
+          decisionType={record.decisionType}
+          progress={getThresholdProgress(record, electorates[getDecisionBody(record.decisionType)] ?? 0)}
+        />
+        {record.execution && (
+          <a
+            href={getExplorerTxUrl(record.execution.txHash)}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-xs text-blue-400 hover:text-blue-300 inline-flex items-center"
+          >
+            Executed as {record.execution.call} in block #{record.execution.blockNumber}
+            <ExternalLink className="w-3 h-3 ml-1" />
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderList = (list: LegislationRecord[], empty: string) =>
+    list.length === 0 ? (
+      <Card className="bg-gray-900 border-gray-800">
+        <CardContent className="pt-6 text-center text-gray-400">{empty}</CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-4">{list.map(renderRecord)}</div>
+    );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center">
+        <Button
+          onClick={() => setShowPropose(true)}
+          className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-6 text-lg"
+        >
+          <Plus className="mr-2 h-5 w-5" />
+          Pêşniyara Nû (New Proposal)
+        </Button>
+      </div>
+
+      <Tabs defaultValue="active">
+        <TabsList className="bg-gray-900">
+          <TabsTrigger value="active">Dengdan (Voting) · {active.length}</TabsTrigger>
+          <TabsTrigger value="decided">Biryar (Decided) · {decided.length}</TabsTrigger>
+          <TabsTrigger value="archive">
+            <FileText className="w-4 h-4 mr-1" />
+            Yasa (Laws) · {executed.length}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="active">{renderList(active, 'Tu pêşniyar tune (No proposals in voting)')}</TabsContent>
+        <TabsContent value="decided">{renderList(decided, 'No decided proposals yet')}</TabsContent>
+        <TabsContent value="archive">{renderList(executed, 'No executed laws yet')}</TabsContent>
+      </Tabs>
+
+      <ProposeLegislationDialog open={showPropose} onOpenChange={setShowPropose} onSubmitted={fetchLegislation} />
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { Loader2 } from 'lucide-react';
+import {
+  DECISION_TYPE_LABELS,
+  buildLegislationDocument,
+  buildSubmitLegislationTx,
+  type LegislationDocument,
+} from '@pezkuwi/lib/legislation';
+import type { CollectiveDecisionType, ProposalPriority } from '@pezkuwi/lib/welati';
+import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
+
+interface ProposeLegislationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Prefill from the version being amended */
+  amending?: { proposalId: number; cid: string; document: LegislationDocument; decisionType: CollectiveDecisionType };
+  onSubmitted?: () => void;
+}
+
+const PRIORITIES: ProposalPriority[] = ['Urgent', 'High', 'Normal', 'Low'];
+
+export function ProposeLegislationDialog({ open, onOpenChange, amending, onSubmitted }: ProposeLegislationDialogProps) {
+  const { api, selectedAccount } = usePolkadot();
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [text, setText] = useState('');
+  const [decisionType, setDecisionType] = useState<CollectiveDecisionType>('ParliamentSimpleMajority');
+  const [priority, setPriority] = useState<ProposalPriority>('Normal');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setTitle(amending ? amending.document.title : '');
+    setSummary('');
+    setText(amending ? amending.document.text : '');
+    setDecisionType(amending ? amending.decisionType : 'ParliamentSimpleMajority');
+    setPriority('Normal');
+  }, [open, amending]);
+
+  const handleSubmit = async () => {
+    if (!api || !selectedAccount || !title.trim() || !text.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const document = buildLegislationDocument(
+        title,
+        summary,
+        text,
+        amending ? { proposalId: amending.proposalId, cid: amending.cid } : null
+      );
+      const { tx, cid } = await buildSubmitLegislationTx(api, document, decisionType, priority);
+      const injector = await web3FromAddress(selectedAccount.address);
+
+      await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess('welati.legislationSubmitted', toast, { cid: `${cid.slice(0, 12)}...` });
+            onOpenChange(false);
+            onSubmitted?.();
+          }
+          setSubmitting(false);
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to submit legislation:', error);
+      handleBlockchainError(error, api, toast);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl bg-gray-900 border-gray-800 text-white">
+        <DialogHeader>
+          <DialogTitle>
+            {amending ? `Amend Proposal #${amending.proposalId}` : 'Pêşniyara Yasayê (Propose Legislation)'}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            The full text is pinned to IPFS and linked from the proposal by its hash
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            placeholder="Sernav (Title)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="bg-gray-800 border-gray-700"
+          />
+          <Input
+            placeholder={amending ? 'What does this amendment change?' : 'Kurte (Summary)'}
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            className="bg-gray-800 border-gray-700"
+          />
+          <Textarea
+            placeholder="Nivîsa tevahî (Full text)"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={12}
+            className="bg-gray-800 border-gray-700 font-mono text-sm"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Select value={decisionType} onValueChange={(value) => setDecisionType(value as CollectiveDecisionType)}>
+              <SelectTrigger className="bg-gray-800 border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DECISION_TYPE_LABELS) as CollectiveDecisionType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {DECISION_TYPE_LABELS[type].en} · {DECISION_TYPE_LABELS[type].rule}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={priority} onValueChange={(value) => setPriority(value as ProposalPriority)}>
+              <SelectTrigger className="bg-gray-800 border-gray-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITIES.map((level) => (
+                  <SelectItem key={level} value={level}>{level} priority</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !selectedAccount || !title.trim() || !text.trim()}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Bişîne (Submit)
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { DECISION_TYPE_LABELS, type ThresholdProgress } from '@pezkuwi/lib/legislation';
+import type { CollectiveDecisionType } from '@pezkuwi/lib/welati';
+
+interface ThresholdProgressBarProps {
+  decisionType: CollectiveDecisionType;
+  progress: ThresholdProgress;
+}
+
+const OUTLOOK_STYLES: Record<ThresholdProgress['outlook'], { label: string; className: string }> = {
+  passing: { label: 'Threshold reached', className: 'text-green-400' },
+  open: { label: 'Open', className: 'text-gray-400' },
+  failing: { label: 'Cannot pass', className: 'text-red-400' },
+};
+
+export function ThresholdProgressBar({ decisionType, progress }: ThresholdProgressBarProps) {
+  const outlook = OUTLOOK_STYLES[progress.outlook];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-400">
+          {DECISION_TYPE_LABELS[decisionType].en}: {progress.ayes} / {progress.required} ayes
+        </span>
+        <span className={outlook.className}>{outlook.label}</span>
+      </div>
+      <Progress value={progress.progress} className="h-2" />
+      <div className="flex items-center justify-between text-[11px] text-gray-500">
+        <span>
+          {progress.nays} nay · {progress.abstains} abstain
+        </span>
+        {progress.electorate > 0 && (
+          <span>
+            {progress.participation.toFixed(0)}% of {progress.electorate} voted · {progress.outstanding} outstanding
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,18 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Loader2, Shield, Zap } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePolkadot } from '@/contexts/PolkadotContext';
 import { TradeModal } from './TradeModal';
-import { getActiveOffers, getUserReputation, type P2PFiatOffer, type P2PReputation } from '@shared/lib/p2p-fiat';
+import {
+  getActiveOffers,
+  getUserReputation,
+  refundOfferDeposit,
+  verifyOfferEscrow,
+  type P2PFiatOffer,
+  type P2PReputation
+} from '@shared/lib/p2p-fiat';
 import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
 
 interface AdListProps {
   type: 'buy' | 'sell' | 'my-ads';
@@ -20,9 +29,12 @@ interface OfferWithReputation extends P2PFiatOffer {
 
 export function AdList({ type }: AdListProps) {
   const { user } = useAuth();
+  const { selectedAccount } = usePolkadot();
   const [offers, setOffers] = useState<OfferWithReputation[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedOffer, setSelectedOffer] = useState<OfferWithReputation | null>(null);
+  const [verifyingOfferId, setVerifyingOfferId] = useState<string | null>(null);
+  const [refundingOfferId, setRefundingOfferId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchOffers();
@@ -76,6 +88,44 @@ export function AdList({ type }: AdListProps) {
     }
   };
 
+  const handleVerifyEscrow = async (offerId: string) => {
+    setVerifyingOfferId(offerId);
+    try {
+      await verifyOfferEscrow(offerId);
+      toast.success('Escrow verified. Your offer is now live.');
+      fetchOffers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Escrow verification failed');
+    } finally {
+      setVerifyingOfferId(null);
+    }
+  };
+
+  const handleRefundDeposit = async (offer: OfferWithReputation) => {
+    if (!selectedAccount) {
+      toast.error('Connect the wallet that made the deposit');
+      return;
+    }
+
+    setRefundingOfferId(offer.id);
+    try {
+      await refundOfferDeposit(selectedAccount, offer.id);
+      toast.success('Deposit refunded to your wallet');
+      fetchOffers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Deposit refund failed');
+    } finally {
+      setRefundingOfferId(null);
+    }
+  };
+
+  // Deposits that never backed a live offer and have not been returned yet
+  const canRefundDeposit = (offer: OfferWithReputation) =>
+    !!offer.escrow_tx_hash &&
+    !offer.escrow_verified_at &&
+    (offer.status === 'cancelled' || (offer.status === 'pending_escrow' && !!offer.escrow_verification_error)) &&
+    (!offer.escrow_refund_status || offer.escrow_refund_status === 'failed');
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -176,11 +226,35 @@ export function AdList({ type }: AdListProps) {
             {type === 'my-ads' && (
               <div className="mt-4 pt-4 border-t border-gray-800">
                 <div className="flex items-center justify-between">
-                  <Badge 
-                    variant={offer.status === 'open' ? 'default' : 'secondary'}
-                  >
-                    {offer.status.toUpperCase()}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge 
+                      variant={offer.status === 'open' ? 'default' : 'secondary'}
+                    >
+                      {offer.status === 'pending_escrow' ? 'VERIFYING ESCROW' : offer.status.toUpperCase()}
+                    </Badge>
+                    {offer.status === 'pending_escrow' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleVerifyEscrow(offer.id)}
+                        disabled={verifyingOfferId === offer.id}
+                      >
+                        {verifyingOfferId === offer.id && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                        Retry Verification
+                      </Button>
+                    )}
+                    {canRefundDeposit(offer) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRefundDeposit(offer)}
+                        disabled={refundingOfferId === offer.id}
+                      >
+                        {refundingOfferId === offer.id && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                        Refund Deposit
+                      </Button>
+                    )}
+                  </div>
                   <p className="text-sm text-gray-400">
                     Created: {new Date(offer.created_at).toLocaleDateString()}
                   </p>
@@ -15,6 +15,9 @@ import {
   type FiatCurrency,
   type CryptoToken
 } from '@shared/lib/p2p-fiat';
+import { ASSET_IDS } from '@pezkuwi/lib/wallet';
+import { formatFiat } from '@pezkuwi/lib/prices';
+import { usePrice } from '@/hooks/usePrice';
 
 interface CreateAdProps {
   onAdCreated: () => void;
@@ -54,6 +57,13 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
     ? (parseFloat(fiatAmount) / parseFloat(amountCrypto)).toFixed(2)
     : '0';
 
+  // DEX market price in the chosen currency, to compare the ad against
+  const { price: tokenUsdPrice, toFiat } = usePrice(token === 'HEZ' ? 'native' : ASSET_IDS.PEZ);
+  const marketPrice = tokenUsdPrice !== null ? toFiat(tokenUsdPrice, fiatCurrency) : null;
+  const premium = marketPrice && parseFloat(pricePerUnit) > 0
+    ? ((parseFloat(pricePerUnit) - marketPrice) / marketPrice) * 100
+    : null;
+
   const handlePaymentMethodChange = (methodId: string) => {
     const method = paymentMethods.find(m => m.id === methodId);
     setSelectedPaymentMethod(method || null);
@@ -211,6 +221,11 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
               placeholder="Amount"
               className="placeholder:text-gray-500 placeholder:opacity-50"
             />
+            {marketPrice !== null && (
+              <p className="text-xs text-gray-500 mt-1">
+                Market: {formatFiat(marketPrice, fiatCurrency)} per {token}
+              </p>
+            )}
           </div>
         </div>
 
@@ -221,6 +236,11 @@ export function CreateAd({ onAdCreated }: CreateAdProps) {
             <p className="text-2xl font-bold text-green-400">
               {pricePerUnit} {fiatCurrency}
             </p>
+            {premium !== null && (
+              <p className="text-xs text-gray-400 mt-1">
+                {premium >= 0 ? '+' : ''}{premium.toFixed(2)}% vs market price
+              </p>
+            )}
           </div>
         )}
 
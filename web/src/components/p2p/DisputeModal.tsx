@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, AlertTriangle, FileText, Upload } from 'lucide-react';
+import {
+  openDispute,
+  addDisputeEvidence,
+  getTradeDispute,
+  type P2PFiatTrade,
+  type P2PFiatDispute,
+  type DisputeCategory
+} from '@shared/lib/p2p-fiat';
+import { getIPFSUrl } from '@shared/lib/ipfs';
+
+interface DisputeModalProps {
+  trade: P2PFiatTrade;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<DisputeCategory, string> = {
+  payment_not_received: 'Payment not received',
+  wrong_amount: 'Wrong amount paid',
+  fake_payment_proof: 'Fake payment proof',
+  other: 'Other'
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  release_to_buyer: 'Crypto released to buyer',
+  refund_to_seller: 'Crypto refunded to seller',
+  escalate: 'Escalated for further review'
+};
+
+export function DisputeModal({ trade, onClose }: DisputeModalProps) {
+  const [dispute, setDispute] = useState<P2PFiatDispute | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [category, setCategory] = useState<DisputeCategory>('payment_not_received');
+  const [reason, setReason] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+
+  useEffect(() => {
+    const fetchDispute = async () => {
+      setLoading(true);
+      setDispute(await getTradeDispute(trade.id));
+      setLoading(false);
+    };
+    fetchDispute();
+  }, [trade.id]);
+
+  const isClosed = dispute?.status === 'resolved' || dispute?.status === 'closed';
+
+  const handleOpenDispute = async () => {
+    setSubmitting(true);
+    try {
+      await openDispute({ tradeId: trade.id, category, reason, evidenceFiles: files });
+      onClose();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Open dispute error:', error);
+      // Error toast already shown in openDispute
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAddEvidence = async () => {
+    if (!dispute || files.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const added = await addDisputeEvidence(dispute.id, files);
+      setDispute({ ...dispute, evidence_urls: [...dispute.evidence_urls, ...added] });
+      setFiles([]);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Add evidence error:', error);
+      // Error toast already shown in addDisputeEvidence
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const evidenceInput = (
+    <div>
+      <Label htmlFor="evidence">Evidence (screenshots, receipts)</Label>
+      <Input
+        id="evidence"
+        type="file"
+        multiple
+        accept="image/*,application/pdf"
+        onChange={(e) => setFiles(Array.from(e.target.files || []))}
+        className="bg-gray-800 border-gray-700 text-white"
+      />
+      <p className="text-xs text-gray-500 mt-1">
+        Files are uploaded to IPFS and visible to the assigned moderator
+      </p>
+    </div>
+  );
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{dispute ? 'Trade Dispute' : 'Open Dispute'}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {trade.crypto_amount} crypto for {trade.fiat_amount} fiat • Trade {trade.id.slice(0, 8)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-green-500" />
+          </div>
+        ) : dispute ? (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <Badge variant={isClosed ? 'secondary' : 'destructive'}>
+                {dispute.status.replace('_', ' ').toUpperCase()}
+              </Badge>
+              <span className="text-sm text-gray-400">
+                {CATEGORY_LABELS[dispute.category]}
+              </span>
+            </div>
+
+            <div className="p-4 bg-gray-800 rounded-lg">
+              <p className="text-sm text-gray-400 mb-1">Reason</p>
+              <p className="text-sm text-white whitespace-pre-wrap">{dispute.reason}</p>
+            </div>
+
+            {dispute.decision && (
+              <Alert>
+                <AlertDescription>
+                  <p className="font-semibold">{DECISION_LABELS[dispute.decision] || dispute.decision}</p>
+                  {dispute.decision_reasoning && (
+                    <p className="text-sm text-gray-400 mt-1">{dispute.decision_reasoning}</p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <p className="text-sm text-gray-400 mb-2">Evidence ({dispute.evidence_urls.length})</p>
+              <div className="space-y-1">
+                {dispute.evidence_urls.map((cid) => (
+                  <a
+                    key={cid}
+                    href={getIPFSUrl(cid)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm text-blue-400 hover:underline"
+                  >
+                    <FileText className="w-4 h-4" />
+                    {cid.slice(0, 12)}...{cid.slice(-6)}
+                  </a>
+                ))}
+              </div>
+            </div>
+
+            {!isClosed && evidenceInput}
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Escrow stays locked until a moderator reviews the dispute. False claims lower your reputation.
+              </AlertDescription>
+            </Alert>
+
+            <div>
+              <Label htmlFor="category">Problem</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as DisputeCategory)}>
+                <SelectTrigger className="bg-gray-800 border-gray-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="reason">What happened?</Label>
+              <Textarea
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Describe the problem (at least 20 characters)"
+                rows={4}
+                className="bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+              />
+            </div>
+
+            {evidenceInput}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={submitting}
+            className="bg-gray-800 border-gray-700 hover:bg-gray-700"
+          >
+            Close
+          </Button>
+          {!loading && !dispute && (
+            <Button
+              variant="destructive"
+              onClick={handleOpenDispute}
+              disabled={submitting || reason.trim().length < 20}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Dispute
+            </Button>
+          )}
+          {dispute && !isClosed && (
+            <Button onClick={handleAddEvidence} disabled={submitting || files.length === 0}>
+              {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Add Evidence
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
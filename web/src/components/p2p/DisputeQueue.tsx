@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, FileText, Gavel, RefreshCw, MessageSquare } from 'lucide-react';
+import { TradeChatModal } from './TradeChat';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import {
+  getDisputeQueue,
+  assignDispute,
+  resolveDispute,
+  type P2PDisputeWithTrade,
+  type DisputeDecision
+} from '@shared/lib/p2p-fiat';
+import { getIPFSUrl } from '@shared/lib/ipfs';
+
+/**
+ * Moderator view: claim open disputes and rule on assigned ones.
+ * Only rendered for accounts passing checkModeratorRole.
+ */
+export function DisputeQueue() {
+  const { user } = useAuth();
+  const { selectedAccount } = usePolkadot();
+  const [disputes, setDisputes] = useState<P2PDisputeWithTrade[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reasoning, setReasoning] = useState<Record<string, string>>({});
+  const [chatDispute, setChatDispute] = useState<P2PDisputeWithTrade | null>(null);
+
+  const fetchQueue = async () => {
+    if (!selectedAccount) return;
+
+    setLoading(true);
+    try {
+      setDisputes(await getDisputeQueue(selectedAccount));
+      setLoaded(true);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Fetch dispute queue error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoaded(false);
+    setDisputes([]);
+  }, [selectedAccount]);
+
+  const handleAssign = async (disputeId: string) => {
+    if (!selectedAccount) return;
+
+    setBusyId(disputeId);
+    try {
+      await assignDispute(selectedAccount, disputeId);
+      await fetchQueue();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Assign dispute error:', error);
+      // Error toast already shown in assignDispute
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResolve = async (disputeId: string, decision: Exclude<DisputeDecision, 'split'>) => {
+    if (!selectedAccount) return;
+
+    setBusyId(disputeId);
+    try {
+      await resolveDispute(selectedAccount, disputeId, decision, reasoning[disputeId] || '');
+      await fetchQueue();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Resolve dispute error:', error);
+      // Error toast already shown in resolveDispute
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!loaded) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-gray-400">Sign with your moderator wallet to load the dispute queue.</p>
+        <Button onClick={fetchQueue} disabled={loading || !selectedAccount}>
+          {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gavel className="w-4 h-4 mr-2" />}
+          Load Disputes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={fetchQueue} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {disputes.length === 0 && (
+        <div className="text-center py-12">
+          <p className="text-gray-400">No disputes waiting for review</p>
+        </div>
+      )}
+
+      {disputes.map(dispute => {
+        const isMine = dispute.assigned_moderator_id === user?.id;
+        const isBusy = busyId === dispute.id;
+        const hasReasoning = (reasoning[dispute.id] || '').trim().length >= 20;
+
+        return (
+          <Card key={dispute.id} className="bg-gray-900 border-gray-800">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-white text-lg">
+                  {dispute.trade.crypto_amount} {dispute.trade.offer.token} • {dispute.trade.fiat_amount.toFixed(2)} {dispute.trade.offer.fiat_currency}
+                </CardTitle>
+                <Badge variant={dispute.status === 'under_review' ? 'default' : 'destructive'}>
+                  {dispute.status.replace('_', ' ').toUpperCase()}
+                </Badge>
+              </div>
+              <CardDescription>
+                Opened by {dispute.opened_by === dispute.trade.buyer_id ? 'buyer' : 'seller'} •{' '}
+                {dispute.category.replace(/_/g, ' ')} • {new Date(dispute.created_at).toLocaleString()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-white whitespace-pre-wrap">{dispute.reason}</p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                <p className="text-gray-400">
+                  Seller: <span className="text-white">{dispute.trade.offer.seller_wallet.slice(0, 8)}...</span>
+                </p>
+                <p className="text-gray-400">
+                  Buyer: <span className="text-white">{dispute.trade.buyer_wallet.slice(0, 8)}...</span>
+                </p>
+                {dispute.trade.buyer_payment_proof_url && (
+                  <a
+                    href={getIPFSUrl(dispute.trade.buyer_payment_proof_url)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-blue-400 hover:underline"
+                  >
+                    <FileText className="w-4 h-4" />
+                    Buyer payment proof
+                  </a>
+                )}
+                {dispute.evidence_urls.map((cid, index) => (
+                  <a
+                    key={cid}
+                    href={getIPFSUrl(cid)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-blue-400 hover:underline"
+                  >
+                    <FileText className="w-4 h-4" />
+                    Evidence #{index + 1}
+                  </a>
+                ))}
+              </div>
+
+              {dispute.status !== 'under_review' ? (
+                <Button onClick={() => handleAssign(dispute.id)} disabled={isBusy}>
+                  {isBusy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Take Case
+                </Button>
+              ) : isMine ? (
+                <div className="space-y-3 pt-2 border-t border-gray-800">
+                  <Button variant="outline" size="sm" onClick={() => setChatDispute(dispute)}>
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    View Trade Chat
+                  </Button>
+                  <div>
+                    <Label htmlFor={`reasoning-${dispute.id}`}>Decision reasoning</Label>
+                    <Textarea
+                      id={`reasoning-${dispute.id}`}
+                      value={reasoning[dispute.id] || ''}
+                      onChange={(e) => setReasoning({ ...reasoning, [dispute.id]: e.target.value })}
+                      placeholder="Explain the ruling (visible to both parties, at least 20 characters)"
+                      rows={3}
+                      className="bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      onClick={() => handleResolve(dispute.id, 'release_to_buyer')}
+                      disabled={isBusy || !hasReasoning}
+                    >
+                      Release to Buyer
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleResolve(dispute.id, 'refund_to_seller')}
+                      disabled={isBusy || !hasReasoning}
+                    >
+                      Refund to Seller
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleResolve(dispute.id, 'escalate')}
+                      disabled={isBusy || !hasReasoning}
+                    >
+                      Escalate
+                    </Button>
+                    {isBusy && <Loader2 className="w-5 h-5 animate-spin text-green-500 self-center" />}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Under review by another moderator</p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {chatDispute && (
+        <TradeChatModal trade={chatDispute.trade} moderator onClose={() => setChatDispute(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, AlertTriangle, MessageSquare } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DisputeModal } from './DisputeModal';
+import { TradeChatModal } from './TradeChat';
+import { getUserTrades, type P2PFiatTrade, type TradeStatus } from '@shared/lib/p2p-fiat';
+
+const STATUS_VARIANTS: Record<TradeStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  payment_sent: 'default',
+  completed: 'secondary',
+  cancelled: 'secondary',
+  disputed: 'destructive',
+  refunded: 'secondary'
+};
+
+export function MyTrades() {
+  const { user } = useAuth();
+  const [trades, setTrades] = useState<P2PFiatTrade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [disputeTrade, setDisputeTrade] = useState<P2PFiatTrade | null>(null);
+  const [chatTrade, setChatTrade] = useState<P2PFiatTrade | null>(null);
+
+  useEffect(() => {
+    fetchTrades();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  const fetchTrades = async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setTrades(await getUserTrades(user.id));
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-green-500" />
+      </div>
+    );
+  }
+
+  if (trades.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400">You have no trades yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {trades.map(trade => {
+        const isSeller = trade.seller_id === user?.id;
+        const canDispute = trade.status === 'pending' || trade.status === 'payment_sent';
+
+        return (
+          <Card key={trade.id} className="bg-gray-900 border-gray-800">
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6 items-center">
+                <div>
+                  <p className="text-sm text-gray-400">{isSeller ? 'Selling' : 'Buying'}</p>
+                  <p className="text-lg font-semibold text-white">{trade.crypto_amount}</p>
+                </div>
+
+                <div>
+                  <p className="text-sm text-gray-400">Fiat</p>
+                  <p className="text-lg font-semibold text-green-400">{trade.fiat_amount.toFixed(2)}</p>
+                </div>
+
+                <div>
+                  <Badge variant={STATUS_VARIANTS[trade.status]}>
+                    {trade.status.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(trade.created_at).toLocaleString()}
+                  </p>
+                  {trade.status === 'pending' && (
+                    <p className="text-xs text-yellow-400 mt-1">
+                      Pay by {new Date(trade.payment_deadline).toLocaleTimeString()} or the trade is cancelled
+                    </p>
+                  )}
+                  {trade.status === 'payment_sent' && trade.confirmation_deadline && (
+                    <p className="text-xs text-yellow-400 mt-1">
+                      Seller confirms by {new Date(trade.confirmation_deadline).toLocaleTimeString()} or a dispute opens
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setChatTrade(trade)}>
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Chat
+                  </Button>
+                  {trade.status === 'disputed' || trade.dispute_id ? (
+                    <Button variant="outline" onClick={() => setDisputeTrade(trade)}>
+                      View Dispute
+                    </Button>
+                  ) : canDispute && (
+                    <Button variant="destructive" onClick={() => setDisputeTrade(trade)}>
+                      <AlertTriangle className="w-4 h-4 mr-2" />
+                      Open Dispute
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {disputeTrade && (
+        <DisputeModal
+          trade={disputeTrade}
+          onClose={() => {
+            setDisputeTrade(null);
+            fetchTrades();
+          }}
+        />
+      )}
+
+      {chatTrade && (
+        <TradeChatModal trade={chatTrade} onClose={() => setChatTrade(null)} />
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { PlusCircle, Home } from 'lucide-react';
 import { AdList } from './AdList';
 import { CreateAd } from './CreateAd';
+import { MyTrades } from './MyTrades';
+import { DisputeQueue } from './DisputeQueue';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { checkModeratorRole } from '@shared/lib/guards';
 
 export function P2PDashboard() {
   const [showCreateAd, setShowCreateAd] = useState(false);
+  const [isModerator, setIsModerator] = useState(false);
   const navigate = useNavigate();
+  const { api, selectedAccount } = usePolkadot();
+
+  useEffect(() => {
+    checkModeratorRole(api, selectedAccount?.address).then(setIsModerator);
+  }, [api, selectedAccount]);
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -38,10 +48,12 @@ export function P2PDashboard() {
         <CreateAd onAdCreated={() => setShowCreateAd(false)} />
       ) : (
         <Tabs defaultValue="buy">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className={`grid w-full ${isModerator ? 'grid-cols-5' : 'grid-cols-4'}`}>
             <TabsTrigger value="buy">Buy</TabsTrigger>
             <TabsTrigger value="sell">Sell</TabsTrigger>
             <TabsTrigger value="my-ads">My Ads</TabsTrigger>
+            <TabsTrigger value="my-trades">My Trades</TabsTrigger>
+            {isModerator && <TabsTrigger value="disputes">Disputes</TabsTrigger>}
           </TabsList>
           <TabsContent value="buy">
             <AdList type="buy" />
@@ -52,6 +64,14 @@ export function P2PDashboard() {
           <TabsContent value="my-ads">
             <AdList type="my-ads" />
           </TabsContent>
+          <TabsContent value="my-trades">
+            <MyTrades />
+          </TabsContent>
+          {isModerator && (
+            <TabsContent value="disputes">
+              <DisputeQueue />
+            </TabsContent>
+          )}
         </Tabs>
       )}
     </div>
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Lock, Send, Paperclip, Check, CheckCheck, ImageIcon, RefreshCw, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTradeChat } from '@/hooks/useTradeChat';
+import { getTradeDispute, type P2PFiatTrade, type P2PFiatDispute } from '@shared/lib/p2p-fiat';
+import {
+  fetchChatAttachment,
+  discloseChatToModerator,
+  CHAT_OPEN_STATUSES,
+  type P2PTradeMessage,
+  type ConversationKeyResolver
+} from '@shared/lib/p2p-chat';
+
+interface TradeChatProps {
+  trade: P2PFiatTrade;
+  /** Known from the offer; the buyer's wallet is on the trade itself */
+  sellerWallet?: string;
+  /** Read-only view for the assigned dispute moderator */
+  moderator?: boolean;
+}
+
+function AttachmentPreview({ message, resolveKey }: { message: P2PTradeMessage; resolveKey: ConversationKeyResolver | null }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [url]);
+
+  const handleLoad = async () => {
+    if (!resolveKey || !message.attachment) return;
+
+    setLoading(true);
+    try {
+      const bytes = await fetchChatAttachment(message, resolveKey);
+      setUrl(URL.createObjectURL(new Blob([bytes as BlobPart], { type: message.attachment.type })));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Attachment error:', error);
+      toast.error('Failed to load attachment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (url) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        <img src={url} alt={message.attachment?.name} className="max-h-48 rounded mt-1" />
+      </a>
+    );
+  }
+
+  return (
+    <button onClick={handleLoad} className="flex items-center gap-2 text-sm underline mt-1" disabled={loading}>
+      {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />}
+      {message.attachment?.name || 'Image'}
+    </button>
+  );
+}
+
+export function TradeChat({ trade, sellerWallet, moderator = false }: TradeChatProps) {
+  const { user } = useAuth();
+  const isSeller = trade.seller_id === user?.id;
+  const peer = moderator
+    ? undefined
+    : isSeller
+      ? { userId: trade.buyer_id, wallet: trade.buyer_wallet }
+      : { userId: trade.seller_id, wallet: sellerWallet };
+
+  const chat = useTradeChat({ tradeId: trade.id, peer, moderator });
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  const [dispute, setDispute] = useState<P2PFiatDispute | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const canWrite = !moderator && CHAT_OPEN_STATUSES.includes(trade.status);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [chat.messages.length]);
+
+  useEffect(() => {
+    if (moderator || (trade.status !== 'disputed' && !trade.dispute_id)) return;
+    getTradeDispute(trade.id).then(setDispute);
+  }, [trade.id, trade.status, trade.dispute_id, moderator]);
+
+  const handleSend = async () => {
+    if (!text.trim() && !file) return;
+
+    setSending(true);
+    try {
+      const attachment = file
+        ? { bytes: new Uint8Array(await file.arrayBuffer()), type: file.type, name: file.name }
+        : undefined;
+      await chat.send(text, attachment);
+      setText('');
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Send message error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleShareWithModerator = async () => {
+    if (!dispute || !chat.identity) return;
+
+    setSharing(true);
+    try {
+      const shared = await discloseChatToModerator(dispute, chat.identity);
+      toast.success(shared > 0 ? 'Chat shared with the moderator' : 'No messages to share yet');
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Share chat error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to share chat');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  if (!chat.ready) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <Lock className="w-8 h-8 mx-auto text-green-500" />
+        <p className="text-sm text-gray-400">
+          {moderator
+            ? 'Sign with your wallet to decrypt the messages the parties shared with you.'
+            : 'Messages are end-to-end encrypted. Sign with your wallet to open the chat.'}
+        </p>
+        {chat.error && <p className="text-sm text-red-400">{chat.error}</p>}
+        <Button onClick={chat.connect} disabled={chat.loading}>
+          {chat.loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Open Chat
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {dispute?.status === 'under_review' && dispute.assigned_moderator_id && (
+        <Alert>
+          <ShieldCheck className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span>Let the moderator read this chat to support your case.</span>
+            <Button size="sm" variant="outline" onClick={handleShareWithModerator} disabled={sharing}>
+              {sharing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Share with Moderator
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="h-80 overflow-y-auto space-y-2 p-3 bg-gray-800 rounded-lg">
+        {chat.messages.length === 0 && (
+          <p className="text-center text-sm text-gray-500 py-8">
+            {moderator ? 'No messages have been shared with you' : 'No messages yet'}
+          </p>
+        )}
+
+        {chat.messages.map(message => {
+          const isMine = message.sender_id === user?.id;
+          const senderLabel = moderator
+            ? message.sender_id === trade.buyer_id ? 'Buyer' : 'Seller'
+            : null;
+
+          return (
+            <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] rounded-lg px-3 py-2 ${isMine ? 'bg-green-600 text-white' : 'bg-gray-700 text-white'}`}>
+                {senderLabel && <p className="text-xs text-gray-300 mb-1">{senderLabel}</p>}
+                {message.decrypted ? (
+                  <>
+                    {message.text && <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>}
+                    {message.attachment && <AttachmentPreview message={message} resolveKey={chat.resolveKey} />}
+                  </>
+                ) : (
+                  <p className="text-sm italic text-gray-400">Encrypted for another device</p>
+                )}
+                <div className="flex items-center justify-end gap-1 mt-1 text-xs text-gray-300">
+                  {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {isMine && (message.read_at
+                    ? <CheckCheck className="w-3 h-3 text-blue-300" />
+                    : <Check className="w-3 h-3" />)}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {canWrite && (chat.peerKey ? (
+        <div className="space-y-2">
+          {file && (
+            <p className="text-xs text-gray-400">
+              Attaching {file.name}{' '}
+              <button className="underline" onClick={() => setFile(null)}>remove</button>
+            </p>
+          )}
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={sending}
+              className="bg-gray-800 border-gray-700"
+              title="Attach payment proof"
+            >
+              <Paperclip className="w-4 h-4" />
+            </Button>
+            <Input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder="Type a message"
+              className="bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+            />
+            <Button onClick={handleSend} disabled={sending || (!text.trim() && !file)}>
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between text-sm text-gray-400">
+          <span>Waiting for the other party to open the chat</span>
+          <Button variant="ghost" size="sm" onClick={chat.refreshPeerKey}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <Lock className="w-3 h-3" />
+        End-to-end encrypted
+      </p>
+    </div>
+  );
+}
+
+interface TradeChatModalProps extends TradeChatProps {
+  onClose: () => void;
+}
+
+export function TradeChatModal({ onClose, ...props }: TradeChatModalProps) {
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{props.moderator ? 'Disclosed Trade Chat' : 'Trade Chat'}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {props.trade.crypto_amount} crypto for {props.trade.fiat_amount} fiat • Trade {props.trade.id.slice(0, 8)}
+          </DialogDescription>
+        </DialogHeader>
+        <TradeChat {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
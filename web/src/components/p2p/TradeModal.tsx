@@ -15,7 +15,8 @@ import { Loader2, AlertTriangle, Clock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { toast } from 'sonner';
-import { type P2PFiatOffer } from '@shared/lib/p2p-fiat';
+import { TradeChat } from './TradeChat';
+import { acceptFiatOffer, getTrade, type P2PFiatOffer, type P2PFiatTrade } from '@shared/lib/p2p-fiat';
 
 interface TradeModalProps {
   offer: P2PFiatOffer;
@@ -27,6 +28,7 @@ export function TradeModal({ offer, onClose }: TradeModalProps) {
   const { api, selectedAccount } = usePolkadot();
   const [amount, setAmount] = useState('');
   const [loading, setLoading] = useState(false);
+  const [trade, setTrade] = useState<P2PFiatTrade | null>(null);
 
   const cryptoAmount = parseFloat(amount) || 0;
   const fiatAmount = cryptoAmount * offer.price_per_unit;
@@ -60,18 +62,20 @@ export function TradeModal({ offer, onClose }: TradeModalProps) {
     setLoading(true);
 
     try {
-      // const _tradeId = await acceptFiatOffer({
-      //   api,
-      //   account: selectedAccount,
-      //   offerId: offer.id,
-      //   amount: cryptoAmount
-      // });
-
-      toast.success('Trade initiated! Proceed to payment.');
-      onClose();
-      
-      // TODO: Navigate to trade page
-      // navigate(`/p2p/trade/${tradeId}`);
+      const tradeId = await acceptFiatOffer({
+        api,
+        account: selectedAccount,
+        offerId: offer.id,
+        amount: cryptoAmount
+      });
+
+      // Stay in the modal so the buyer can talk to the seller about payment
+      const started = await getTrade(tradeId);
+      if (started) {
+        setTrade(started);
+      } else {
+        onClose();
+      }
     } catch (error) {
       if (import.meta.env.DEV) console.error('Accept offer error:', error);
       // Error toast already shown in acceptFiatOffer
@@ -80,6 +84,23 @@ export function TradeModal({ offer, onClose }: TradeModalProps) {
     }
   };
 
+  if (trade) {
+    return (
+      <Dialog open={true} onOpenChange={onClose}>
+        <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Trade Started</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              Pay {trade.fiat_amount.toFixed(2)} {offer.fiat_currency} before{' '}
+              {new Date(trade.payment_deadline).toLocaleTimeString()} and send the proof in the chat
+            </DialogDescription>
+          </DialogHeader>
+          <TradeChat trade={trade} sellerWallet={offer.seller_wallet} />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="bg-gray-900 border-gray-800 text-white max-w-md">
@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, Sparkles } from 'lucide-react';
+import {
+  VALIDATOR_FLAG_LABELS,
+  getValidatorMarket,
+  proposeNominations,
+  rankValidators,
+  reviewNominations,
+  type RankedValidator,
+} from '@pezkuwi/lib/nomination-advisor';
+import { formatBalance } from '@pezkuwi/lib/wallet';
+
+interface NominationAdvisorProps {
+  currentNominations: string[];
+  onApply: (targets: string[]) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-8)}`;
+
+export function NominationAdvisor({ currentNominations, onApply }: NominationAdvisorProps) {
+  const { api, isApiReady } = usePolkadot();
+  const [ranked, setRanked] = useState<RankedValidator[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!api || !isApiReady) return;
+
+    getValidatorMarket(api)
+      .then((market) => setRanked(rankValidators(market)))
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to rank validators:', error);
+        toast.error('Failed to load validator data');
+      })
+      .finally(() => setLoading(false));
+  }, [api, isApiReady]);
+
+  const proposal = useMemo(() => ranked && proposeNominations(ranked), [ranked]);
+  const issues = useMemo(
+    () => (ranked ? reviewNominations(currentNominations, ranked) : []),
+    [ranked, currentNominations]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!ranked || !proposal) return null;
+
+  return (
+    <div className="space-y-3">
+      {issues.length > 0 && (
+        <Alert className="bg-red-900/20 border-red-500">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-sm space-y-1">
+            <p>{issues.length} of your nominations need attention:</p>
+            {issues.map((issue) => (
+              <p key={issue.address} className="font-mono text-xs">
+                {shortAddress(issue.address)}: {issue.flags.map((flag) => VALIDATOR_FLAG_LABELS[flag]).join(', ')}
+              </p>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border border-gray-700 rounded-lg p-3 bg-gray-800 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-white flex items-center">
+              <Sparkles className="w-4 h-4 mr-2 text-purple-400" />
+              Suggested Nominations
+            </p>
+            <p className="text-xs text-gray-400">
+              {proposal.targets.length} validators · Projected APY {proposal.projectedApy.toFixed(2)}%
+            </p>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => onApply(proposal.targets.map((validator) => validator.address))}
+            disabled={proposal.targets.length === 0}
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            Use Suggestion
+          </Button>
+        </div>
+
+        {proposal.targets.length === 0 ? (
+          <p className="text-xs text-gray-500">No validators currently meet the advisor criteria</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {proposal.targets.map((validator) => (
+              <div key={validator.address} className="flex items-center justify-between text-xs p-1.5 bg-gray-700 rounded">
+                <span className="font-mono text-gray-300">{shortAddress(validator.address)}</span>
+                <span className="text-gray-400">{validator.commission.toFixed(1)}% fee</span>
+                <span className="text-gray-400">{formatBalance(validator.totalStake)} HEZ</span>
+                {validator.category && (
+                  <Badge variant="outline" className="text-[10px]">
+                    {validator.category.replace('Validator', '')}
+                  </Badge>
+                )}
+                <span className="text-green-400">{validator.apy.toFixed(2)}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
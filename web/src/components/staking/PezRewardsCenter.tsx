@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from 'sonner';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { AlertTriangle, ExternalLink, Gift, Loader2 } from 'lucide-react';
+import {
+  buildClaimPezRewardsTx,
+  formatBlocksRemaining,
+  getPezRewardsOverview,
+  withClaimTransactions,
+  type PezRewardsOverview,
+} from '@pezkuwi/lib/pez-rewards';
+import { formatBalance, getExplorerTxUrl } from '@pezkuwi/lib/wallet';
+import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
+
+interface PezRewardsCenterProps {
+  onClaimed?: () => void;
+}
+
+export function PezRewardsCenter({ onClaimed }: PezRewardsCenterProps) {
+  const { api, selectedAccount, isApiReady } = usePolkadot();
+  const [overview, setOverview] = useState<PezRewardsOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+
+  const address = selectedAccount?.address;
+
+  const fetchRewards = useCallback(async () => {
+    if (!api || !isApiReady || !address) return;
+
+    try {
+      const result = await getPezRewardsOverview(api, address);
+      if (result) {
+        result.claimed = await withClaimTransactions(address, result.claimed);
+      }
+      setOverview(result);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to fetch PEZ rewards:', error);
+      toast.error('Failed to fetch PEZ rewards');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady, address]);
+
+  useEffect(() => {
+    fetchRewards();
+  }, [fetchRewards]);
+
+  const handleClaimAll = async () => {
+    if (!api || !address || !overview || overview.claimable.length === 0) return;
+
+    setClaiming(true);
+    try {
+      const injector = await web3FromAddress(address);
+      const tx = buildClaimPezRewardsTx(api, overview.claimable.map((reward) => reward.epoch));
+      const amount = formatBalance(overview.totalClaimable);
+      const count = overview.claimable.length;
+
+      await tx.signAndSend(address, { signer: injector.signer }, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess('pezRewards.claimed', toast, { amount, count });
+            fetchRewards();
+            onClaimed?.();
+          }
+          setClaiming(false);
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Claim failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to claim rewards');
+      setClaiming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return <p className="text-sm text-gray-400">PEZ rewards are not available on this network.</p>;
+  }
+
+  const expiring = overview.claimable.filter((reward) => reward.expiresSoon);
+
+  return (
+    <div className="space-y-4">
+      {expiring.length > 0 && (
+        <Alert className="bg-red-900/20 border-red-500">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-sm">
+            {expiring.length} epoch(s) expire within {formatBlocksRemaining(expiring[0].blocksRemaining)}.
+            Unclaimed rewards are lost after the claim deadline.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between bg-gray-800 rounded-lg p-4">
+        <div>
+          <p className="text-sm text-gray-400">Claimable</p>
+          <p className="text-2xl font-bold text-orange-500">{formatBalance(overview.totalClaimable)} PEZ</p>
+          <p className="text-xs text-gray-500">
+            Current epoch {overview.currentEpoch} · Claimed so far {formatBalance(overview.totalClaimed)} PEZ
+          </p>
+        </div>
+        <Button
+          onClick={handleClaimAll}
+          disabled={claiming || overview.claimable.length === 0}
+          className="bg-orange-600 hover:bg-orange-700"
+        >
+          {claiming ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gift className="w-4 h-4 mr-2" />}
+          {overview.claimable.length > 1 ? `Claim All (${overview.claimable.length})` : 'Claim'}
+        </Button>
+      </div>
+
+      {overview.claimable.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-white">Unclaimed Epochs</p>
+          {overview.claimable.map((reward) => (
+            <div key={reward.epoch} className="flex justify-between items-center p-2 bg-gray-800 rounded text-sm">
+              <span className="text-gray-300">Epoch {reward.epoch}</span>
+              <span className="text-gray-400">Score {reward.trustScore}</span>
+              <span className="text-white">{formatBalance(reward.amount)} PEZ</span>
+              <span className={reward.expiresSoon ? 'text-red-400' : 'text-gray-500'}>
+                {formatBlocksRemaining(reward.blocksRemaining)} left
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-white">Claim History</p>
+        {overview.claimed.length === 0 ? (
+          <p className="text-sm text-gray-500">No rewards claimed yet</p>
+        ) : (
+          overview.claimed.map((claim) => (
+            <div key={claim.epoch} className="flex justify-between items-center p-2 bg-gray-800 rounded text-sm">
+              <span className="text-gray-300">Epoch {claim.epoch}</span>
+              <span className="text-green-400">{formatBalance(claim.amount)} PEZ</span>
+              {claim.txHash ? (
+                <a
+                  href={getExplorerTxUrl(claim.txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 inline-flex items-center"
+                >
+                  Block #{claim.blockNumber}
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              ) : (
+                <span className="text-gray-500">Claimed</span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ import {
 } from '@pezkuwi/lib/staking';
 import { LoadingState } from '@pezkuwi/components/AsyncComponent';
 import { ValidatorPoolDashboard } from './ValidatorPoolDashboard';
+import { PezRewardsCenter } from './PezRewardsCenter';
+import { NominationAdvisor } from './NominationAdvisor';
 import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
 
 export const StakingDashboard: React.FC = () => {
@@ -36,6 +38,7 @@ export const StakingDashboard: React.FC = () => {
   const [bondAmount, setBondAmount] = useState('');
   const [unbondAmount, setUnbondAmount] = useState('');
   const [selectedValidators, setSelectedValidators] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState('stake');
 
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(false);
@@ -436,11 +439,12 @@ export const StakingDashboard: React.FC = () => {
                 <p className="text-xs text-gray-500 mt-1">
                   {stakingInfo.pezRewards.claimableRewards.length} epoch(s) to claim
                 </p>
+                {stakingInfo.pezRewards.claimableRewards.some(r => r.expiresSoon) && (
+                  <p className="text-xs text-red-400 mt-1">Some rewards expire soon</p>
+                )}
                 <Button
                   size="sm"
-                  onClick={() => {
-                    toast.info('Claim PEZ rewards functionality will be available soon');
-                  }}
+                  onClick={() => setActiveTab('rewards')}
                   disabled={isLoading}
                   className="mt-2 w-full bg-orange-600 hover:bg-orange-700"
                 >
@@ -470,11 +474,12 @@ export const StakingDashboard: React.FC = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="stake">
-            <TabsList className="grid w-full grid-cols-4">
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="stake">Stake</TabsTrigger>
               <TabsTrigger value="nominate">Nominate</TabsTrigger>
               <TabsTrigger value="pool">Validator Pool</TabsTrigger>
+              <TabsTrigger value="rewards">PEZ Rewards</TabsTrigger>
               <TabsTrigger value="unstake">Unstake</TabsTrigger>
             </TabsList>
 
@@ -527,6 +532,11 @@ export const StakingDashboard: React.FC = () => {
                 </AlertDescription>
               </Alert>
 
+              <NominationAdvisor
+                currentNominations={stakingInfo?.nominations || []}
+                onApply={setSelectedValidators}
+              />
+
               <div className="space-y-2">
                 <Label>Active Validators ({validators.length})</Label>
                 <div className="max-h-64 overflow-y-auto space-y-2 border border-gray-700 rounded-lg p-3 bg-gray-800">
@@ -568,6 +578,18 @@ export const StakingDashboard: React.FC = () => {
               <ValidatorPoolDashboard />
             </TabsContent>
 
+            {/* PEZ REWARDS TAB */}
+            <TabsContent value="rewards" className="space-y-4">
+              <PezRewardsCenter
+                onClaimed={() => {
+                  refreshBalances();
+                  if (api && selectedAccount) {
+                    getStakingInfo(api, selectedAccount.address).then(setStakingInfo);
+                  }
+                }}
+              />
+            </TabsContent>
+
             {/* UNSTAKE TAB */}
             <TabsContent value="unstake" className="space-y-4">
               <Alert className="bg-yellow-900/20 border-yellow-500">
@@ -3,6 +3,13 @@ import {  XAxis, YAxis, Tooltip, ResponsiveContainer, Area, AreaChart } from 're
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TrendingUp, TrendingDown } from 'lucide-react';
+import {
+  getPriceAssetId,
+  getPriceCandles,
+  PRICE_TIMEFRAMES,
+  type PriceCandle,
+  type PriceTimeframe,
+} from '@pezkuwi/lib/prices';
 
 interface PriceChartProps {
   fromToken: string;
@@ -17,71 +24,61 @@ const getDisplayName = (token: string): string => {
   return token; // HEZ, PEZ, etc. remain the same
 };
 
+const formatBucket = (time: string, timeframe: PriceTimeframe): string => {
+  const date = new Date(time);
+  if (timeframe === '1H') return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  if (timeframe === '24H') return date.toLocaleTimeString('en-US', { hour: '2-digit' });
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
 export const PriceChart: React.FC<PriceChartProps> = ({ fromToken, toToken, currentPrice }) => {
-  const [timeframe, setTimeframe] = useState<'1H' | '24H' | '7D' | '30D'>('24H');
-  const [chartData, setChartData] = useState<Array<Record<string, number>>>([]);
-  const [priceChange, setPriceChange] = useState<{ value: number; percent: number }>({ value: 0, percent: 0 });
+  const [timeframe, setTimeframe] = useState<PriceTimeframe>('24H');
+  const [candles, setCandles] = useState<PriceCandle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
-    // Generate mock historical data (in production, fetch from blockchain/oracle)
-    const generateMockData = () => {
-      const dataPoints = timeframe === '1H' ? 60 : timeframe === '24H' ? 24 : timeframe === '7D' ? 7 : 30;
-      const basePrice = currentPrice || 1.0;
-
-      const data = [];
-      let price = basePrice * 0.95; // Start 5% below current
-
-      for (let i = 0; i < dataPoints; i++) {
-        // Random walk with slight upward trend
-        const change = (Math.random() - 0.48) * 0.02; // Slight bullish bias
-        price = price * (1 + change);
-
-        let timeLabel = '';
-        const now = new Date();
-
-        if (timeframe === '1H') {
-          now.setMinutes(now.getMinutes() - (dataPoints - i));
-          timeLabel = now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        } else if (timeframe === '24H') {
-          now.setHours(now.getHours() - (dataPoints - i));
-          timeLabel = now.toLocaleTimeString('en-US', { hour: '2-digit' });
-        } else if (timeframe === '7D') {
-          now.setDate(now.getDate() - (dataPoints - i));
-          timeLabel = now.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        } else {
-          now.setDate(now.getDate() - (dataPoints - i));
-          timeLabel = now.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        }
-
-        data.push({
-          time: timeLabel,
-          price: parseFloat(price.toFixed(4)),
-          timestamp: now.getTime()
-        });
-      }
+    const base = getPriceAssetId(fromToken);
+    const quote = getPriceAssetId(toToken);
+    if (base === null || quote === null) {
+      setCandles([]);
+      return;
+    }
 
-      // Add current price as last point
-      data.push({
-        time: 'Now',
-        price: basePrice,
-        timestamp: Date.now()
+    let cancelled = false;
+    setIsLoading(true);
+    getPriceCandles({ base, quote, timeframe })
+      .then((result) => {
+        if (!cancelled) setCandles(result);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to fetch price candles:', error);
+        if (!cancelled) setCandles([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
       });
 
-      return data;
+    return () => {
+      cancelled = true;
     };
-
-    const data = generateMockData();
-    setChartData(data);
-
-    // Calculate price change
-    if (data.length > 1) {
-      const firstPrice = data[0].price;
-      const lastPrice = data[data.length - 1].price;
-      const change = lastPrice - firstPrice;
-      const changePercent = (change / firstPrice) * 100;
-      setPriceChange({ value: change, percent: changePercent });
-    }
-  }, [timeframe, currentPrice]);
+  }, [fromToken, toToken, timeframe]);
+
+  const chartData = [
+    ...candles.map((candle) => ({
+      time: formatBucket(candle.time, timeframe),
+      price: candle.close,
+    })),
+    // Current pool rate as the last point
+    ...(candles.length > 0 ? [{ time: 'Now', price: currentPrice }] : []),
+  ];
+
+  const openPrice = candles.length > 0 ? candles[0].open : currentPrice;
+  const priceChange = {
+    value: currentPrice - openPrice,
+    percent: openPrice > 0 ? ((currentPrice - openPrice) / openPrice) * 100 : 0,
+  };
+  const volume = candles.reduce((sum, candle) => sum + candle.volume, 0);
+  const quoteName = getDisplayName(toToken);
 
   const isPositive = priceChange.percent >= 0;
 
@@ -94,7 +91,7 @@ export const PriceChart: React.FC<PriceChartProps> = ({ fromToken, toToken, curr
           </div>
           <div className="flex items-center gap-3">
             <span className="text-2xl font-bold text-white">
-              ${currentPrice.toFixed(4)}
+              {currentPrice.toFixed(4)} {quoteName}
             </span>
             <div className={`flex items-center gap-1 text-sm font-semibold ${
               isPositive ? 'text-green-400' : 'text-red-400'
@@ -105,62 +102,67 @@ export const PriceChart: React.FC<PriceChartProps> = ({ fromToken, toToken, curr
           </div>
         </div>
 
-        <Tabs value={timeframe} onValueChange={(v) => setTimeframe(v as Record<string, unknown>)}>
+        <Tabs value={timeframe} onValueChange={(v) => setTimeframe(v as PriceTimeframe)}>
           <TabsList className="bg-gray-800">
-            <TabsTrigger value="1H" className="text-xs">1H</TabsTrigger>
-            <TabsTrigger value="24H" className="text-xs">24H</TabsTrigger>
-            <TabsTrigger value="7D" className="text-xs">7D</TabsTrigger>
-            <TabsTrigger value="30D" className="text-xs">30D</TabsTrigger>
+            {(Object.keys(PRICE_TIMEFRAMES) as PriceTimeframe[]).map((tf) => (
+              <TabsTrigger key={tf} value={tf} className="text-xs">{tf}</TabsTrigger>
+            ))}
           </TabsList>
         </Tabs>
       </div>
 
-      <ResponsiveContainer width="100%" height={200}>
-        <AreaChart data={chartData}>
-          <defs>
-            <linearGradient id={`gradient-${isPositive ? 'green' : 'red'}`} x1="0" y1="0" x2="0" y2="1">
-              <stop offset="0%" stopColor={isPositive ? '#10b981' : '#ef4444'} stopOpacity={0.3} />
-              <stop offset="100%" stopColor={isPositive ? '#10b981' : '#ef4444'} stopOpacity={0} />
-            </linearGradient>
-          </defs>
-          <XAxis
-            dataKey="time"
-            stroke="#6b7280"
-            fontSize={10}
-            tickLine={false}
-            axisLine={false}
-          />
-          <YAxis
-            stroke="#6b7280"
-            fontSize={10}
-            tickLine={false}
-            axisLine={false}
-            domain={['auto', 'auto']}
-            tickFormatter={(value) => `$${value.toFixed(3)}`}
-          />
-          <Tooltip
-            contentStyle={{
-              backgroundColor: '#1f2937',
-              border: '1px solid #374151',
-              borderRadius: '8px',
-              padding: '8px'
-            }}
-            labelStyle={{ color: '#9ca3af' }}
-            itemStyle={{ color: '#fff' }}
-            formatter={(value: number) => [`$${value.toFixed(4)}`, 'Price']}
-          />
-          <Area
-            type="monotone"
-            dataKey="price"
-            stroke={isPositive ? '#10b981' : '#ef4444'}
-            strokeWidth={2}
-            fill={`url(#gradient-${isPositive ? 'green' : 'red'})`}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+      {chartData.length === 0 ? (
+        <div className="h-[200px] flex items-center justify-center text-sm text-gray-500">
+          {isLoading ? 'Loading price history...' : 'No swaps in this period'}
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={200}>
+          <AreaChart data={chartData}>
+            <defs>
+              <linearGradient id={`gradient-${isPositive ? 'green' : 'red'}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor={isPositive ? '#10b981' : '#ef4444'} stopOpacity={0.3} />
+                <stop offset="100%" stopColor={isPositive ? '#10b981' : '#ef4444'} stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <XAxis
+              dataKey="time"
+              stroke="#6b7280"
+              fontSize={10}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              stroke="#6b7280"
+              fontSize={10}
+              tickLine={false}
+              axisLine={false}
+              domain={['auto', 'auto']}
+              tickFormatter={(value) => value.toFixed(3)}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#1f2937',
+                border: '1px solid #374151',
+                borderRadius: '8px',
+                padding: '8px'
+              }}
+              labelStyle={{ color: '#9ca3af' }}
+              itemStyle={{ color: '#fff' }}
+              formatter={(value: number) => [`${value.toFixed(4)} ${quoteName}`, 'Price']}
+            />
+            <Area
+              type="monotone"
+              dataKey="price"
+              stroke={isPositive ? '#10b981' : '#ef4444'}
+              strokeWidth={2}
+              fill={`url(#gradient-${isPositive ? 'green' : 'red'})`}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      )}
 
       <div className="mt-3 text-xs text-gray-500 text-center">
-        Historical price data • Updated in real-time
+        Volume {volume.toFixed(2)} {getDisplayName(fromToken)} • On-chain DEX swaps
       </div>
     </Card>
   );
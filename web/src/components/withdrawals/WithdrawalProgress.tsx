@@ -0,0 +1,119 @@
+import React from 'react';
+import { CheckCircle2, Circle, Clock, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatWUSDT, formatDelay } from '@pezkuwi/lib/usdt';
+import { USDT_MULTISIG_CONFIG } from '@pezkuwi/lib/multisig';
+import {
+  WITHDRAWAL_STAGES,
+  getWithdrawalStageIndex,
+  type WUSDTWithdrawal,
+  type WithdrawalStatus,
+} from '@pezkuwi/lib/usdt-withdrawals';
+
+const STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  awaiting_burn: 'Awaiting burn',
+  queued: 'Queued',
+  approving: 'Approving',
+  approved: 'Approved',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+const STATUS_COLORS: Record<WithdrawalStatus, string> = {
+  awaiting_burn: 'bg-gray-600',
+  queued: 'bg-yellow-600',
+  approving: 'bg-blue-600',
+  approved: 'bg-purple-600',
+  paid: 'bg-green-600',
+  cancelled: 'bg-red-600',
+  expired: 'bg-gray-700',
+};
+
+const shortenHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-8)}`;
+
+export const WithdrawalStatusBadge: React.FC<{ status: WithdrawalStatus }> = ({ status }) => (
+  <Badge className={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</Badge>
+);
+
+/**
+ * Time left until a queued withdrawal unlocks, or null once it has
+ */
+const getUnlockCountdown = (withdrawal: WUSDTWithdrawal, now: number): string | null => {
+  if (!withdrawal.unlock_at) return null;
+  const seconds = Math.ceil((new Date(withdrawal.unlock_at).getTime() - now) / 1000);
+  if (seconds <= 0) return null;
+  if (seconds < 60) return `${seconds}s`;
+  return formatDelay(seconds);
+};
+
+interface WithdrawalProgressProps {
+  withdrawal: WUSDTWithdrawal;
+  now: number;
+}
+
+/**
+ * Summary of a withdrawal request with its progress from burn to payout
+ */
+export const WithdrawalProgress: React.FC<WithdrawalProgressProps> = ({ withdrawal, now }) => {
+  const stage = getWithdrawalStageIndex(withdrawal, now);
+  const ended = withdrawal.status === 'cancelled' || withdrawal.status === 'expired';
+  const countdown = getUnlockCountdown(withdrawal, now);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-white font-semibold">{formatWUSDT(withdrawal.amount)} USDT</p>
+          <p className="text-xs text-gray-500 break-all">To {withdrawal.destination}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="capitalize">{withdrawal.tier}</Badge>
+          <WithdrawalStatusBadge status={withdrawal.status} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {WITHDRAWAL_STAGES.map((label, index) => {
+          const reached = index <= stage;
+          const failed = ended && index === stage + 1;
+          return (
+            <React.Fragment key={label}>
+              {index > 0 && <div className={`h-px flex-1 ${reached ? 'bg-green-500' : 'bg-gray-700'}`} />}
+              <div className="flex flex-col items-center gap-1 min-w-[56px]">
+                {failed ? (
+                  <XCircle className="h-4 w-4 text-red-400" />
+                ) : reached ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-400" />
+                ) : (
+                  <Circle className="h-4 w-4 text-gray-600" />
+                )}
+                <span className={`text-xs ${reached ? 'text-gray-300' : 'text-gray-600'}`}>{label}</span>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {countdown && (withdrawal.status === 'queued' || withdrawal.status === 'approving') && (
+        <p className="text-xs text-yellow-400 flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          Unlocks in {countdown}
+        </p>
+      )}
+
+      <div className="text-xs text-gray-500 space-y-1 font-mono">
+        {withdrawal.burn_tx_hash && <p>Burn: {shortenHash(withdrawal.burn_tx_hash)}</p>}
+        {withdrawal.approvals.length > 0 && (
+          <p>Approvals: {withdrawal.approvals.length}/{USDT_MULTISIG_CONFIG.threshold}</p>
+        )}
+        {withdrawal.payout_reference && <p>Payout: {withdrawal.payout_reference}</p>}
+        {withdrawal.refund_tx_hash && <p>Refund: {shortenHash(withdrawal.refund_tx_hash)}</p>}
+      </div>
+
+      {withdrawal.cancellation_reason && (
+        <p className="text-xs text-red-400">Cancelled: {withdrawal.cancellation_reason}</p>
+      )}
+    </div>
+  );
+};
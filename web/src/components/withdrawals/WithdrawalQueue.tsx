@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { USDT_MULTISIG_SPECIFIC_ADDRESSES } from '@pezkuwi/lib/multisig';
+import {
+  getWithdrawalQueue,
+  approveWithdrawalPayout,
+  markWithdrawalPaid,
+  cancelWithdrawal,
+  isWithdrawalUnlocked,
+  type WUSDTWithdrawal,
+} from '@pezkuwi/lib/usdt-withdrawals';
+import { WithdrawalProgress } from './WithdrawalProgress';
+
+interface QueueItemProps {
+  withdrawal: WUSDTWithdrawal;
+  now: number;
+  onUpdated: (withdrawal: WUSDTWithdrawal) => void;
+}
+
+const QueueItem: React.FC<QueueItemProps> = ({ withdrawal, now, onUpdated }) => {
+  const { api, selectedAccount } = usePolkadot();
+  const [busy, setBusy] = useState(false);
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+
+  const unlocked = isWithdrawalUnlocked(withdrawal, now);
+  const alreadyApproved = !!selectedAccount && withdrawal.approvals.includes(selectedAccount.address);
+  const canApprove = unlocked && !alreadyApproved && (withdrawal.status === 'queued' || withdrawal.status === 'approving');
+
+  const run = async (action: () => Promise<WUSDTWithdrawal>, successMessage: string) => {
+    setBusy(true);
+    try {
+      onUpdated(await action());
+      toast.success(successMessage);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Withdrawal action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!api || !selectedAccount) return null;
+
+  return (
+    <Card className="p-4 bg-gray-800/50 border-gray-700 space-y-3">
+      <WithdrawalProgress withdrawal={withdrawal} now={now} />
+      <p className="text-xs text-gray-500 font-mono">Requested by {withdrawal.wallet_address}</p>
+
+      <div className="flex flex-wrap gap-2">
+        {(withdrawal.status === 'queued' || withdrawal.status === 'approving') && (
+          <Button
+            size="sm"
+            disabled={busy || !canApprove}
+            onClick={() => run(
+              () => approveWithdrawalPayout(api, selectedAccount, withdrawal, USDT_MULTISIG_SPECIFIC_ADDRESSES),
+              'Payout approval submitted'
+            )}
+          >
+            {alreadyApproved ? 'Approved by you' : unlocked ? 'Approve payout' : 'Locked'}
+          </Button>
+        )}
+
+        {withdrawal.status === 'approved' && (
+          <>
+            <Input
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="USDT transfer reference / tx hash"
+              className="flex-1 min-w-[200px] bg-gray-900 border-gray-700"
+            />
+            <Button
+              size="sm"
+              disabled={busy || !reference.trim()}
+              onClick={() => run(
+                () => markWithdrawalPaid(selectedAccount, withdrawal.id, reference.trim()),
+                'Withdrawal marked as paid'
+              )}
+            >
+              Mark paid
+            </Button>
+          </>
+        )}
+      </div>
+
+      {withdrawal.status !== 'approved' && (
+        <div className="flex flex-wrap gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Cancellation reason"
+            className="flex-1 min-w-[200px] bg-gray-900 border-gray-700"
+          />
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={busy || !reason.trim()}
+            onClick={() => run(
+              () => cancelWithdrawal(api, selectedAccount, withdrawal, reason.trim(), USDT_MULTISIG_SPECIFIC_ADDRESSES),
+              'Withdrawal cancelled, refund mint proposed'
+            )}
+          >
+            Cancel &amp; refund
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+interface WithdrawalQueueProps {
+  now: number;
+}
+
+/**
+ * Payout queue for USDT multisig members: approve unlocked
+ * payouts, record completed transfers, or cancel and refund
+ */
+export const WithdrawalQueue: React.FC<WithdrawalQueueProps> = ({ now }) => {
+  const { selectedAccount } = usePolkadot();
+  const [withdrawals, setWithdrawals] = useState<WUSDTWithdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    if (!selectedAccount) return;
+    setLoading(true);
+    try {
+      setWithdrawals(await getWithdrawalQueue(selectedAccount));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load withdrawal queue:', error);
+      toast.error('Failed to load withdrawal queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedAccount]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleUpdated = (updated: WUSDTWithdrawal) => {
+    setWithdrawals((prev) =>
+      prev
+        .map((w) => (w.id === updated.id ? updated : w))
+        .filter((w) => w.status !== 'paid' && w.status !== 'cancelled')
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-400">
+          Burned withdrawals waiting for their unlock time, approval or payout
+        </p>
+        <Button size="sm" variant="outline" onClick={loadQueue} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {loading && withdrawals.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : withdrawals.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">The payout queue is empty</p>
+      ) : (
+        withdrawals.map((withdrawal) => (
+          <QueueItem key={withdrawal.id} withdrawal={withdrawal} now={now} onUpdated={handleUpdated} />
+        ))
+      )}
+    </div>
+  );
+};
@@ -6,15 +6,18 @@ import {
   Badge, 
   Role,
   calculateReputationScore,
-  generateZKProof,
   DEFAULT_BADGES,
   ROLES
 } from '@pezkuwi/lib/identity';
+import { TRUSTED_CREDENTIAL_ISSUERS, verifyCredential } from '@pezkuwi/lib/zk-proof';
+import type { IdentityCredential } from '@pezkuwi/lib/zk-proof';
 
 interface IdentityContextType {
   profile: IdentityProfile | null;
+  credential: IdentityCredential | null;
   isVerifying: boolean;
   startKYC: (data: KYCData) => Promise<void>;
+  importCredential: (credential: IdentityCredential) => boolean;
   updatePrivacySettings: (settings: Record<string, boolean>) => void;
   addBadge: (badge: Badge) => void;
   assignRole: (role: Role) => void;
@@ -26,6 +29,7 @@ const IdentityContext = createContext<IdentityContextType | undefined>(undefined
 export function IdentityProvider({ children }: { children: React.ReactNode }) {
   const { account } = useWallet();
   const [profile, setProfile] = useState<IdentityProfile | null>(null);
+  const [credential, setCredential] = useState<IdentityCredential | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
 
   useEffect(() => {
@@ -55,6 +59,7 @@ export function IdentityProvider({ children }: { children: React.ReactNode }) {
       }
     } else {
       setProfile(null);
+      setCredential(null);
     }
   }, [account]);
 
@@ -66,9 +71,6 @@ export function IdentityProvider({ children }: { children: React.ReactNode }) {
       // Simulate KYC verification process
       await new Promise(resolve => setTimeout(resolve, 3000));
       
-      // Generate ZK proof for privacy
-      generateZKProof(data);
-      
       const updatedProfile: IdentityProfile = {
         ...profile,
         kycStatus: 'approved',
@@ -92,6 +94,17 @@ export function IdentityProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Credentials are issued by the KYC council; only accept one signed by a
+  // trusted issuer for the connected wallet
+  const importCredential = (issued: IdentityCredential) => {
+    if (!account || issued.holder !== account || !verifyCredential(issued, TRUSTED_CREDENTIAL_ISSUERS)) {
+      return false;
+    }
+
+    setCredential(issued);
+    return true;
+  };
+
   const updatePrivacySettings = (settings: Record<string, boolean>) => {
     if (!profile) return;
     
@@ -141,8 +154,10 @@ export function IdentityProvider({ children }: { children: React.ReactNode }) {
   return (
     <IdentityContext.Provider value={{
       profile,
+      credential,
       isVerifying,
       startKYC,
+      importCredential,
       updatePrivacySettings,
       addBadge,
       assignRole,
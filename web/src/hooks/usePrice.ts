@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { fetchPools } from '@pezkuwi/utils/dex';
+import {
+  convertUsd,
+  getSpotPricesFromPools,
+  getTokenPrices,
+  type FiatRates,
+  type TokenPrices,
+} from '@pezkuwi/lib/prices';
+import type { FiatCurrency } from '@pezkuwi/lib/p2p-fiat';
+
+const REFRESH_INTERVAL_MS = 60000;
+
+export type PriceSource = 'oracle' | 'pools';
+
+/**
+ * USD prices for every priced asset plus fiat rates. Uses the backend TWAP
+ * oracle and falls back to instant pool prices (no fiat rates) when it is
+ * unreachable.
+ */
+export function useTokenPrices() {
+  const { api, isApiReady } = usePolkadot();
+  const [prices, setPrices] = useState<TokenPrices['prices']>({});
+  const [fiat, setFiat] = useState<FiatRates>({});
+  const [source, setSource] = useState<PriceSource | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await getTokenPrices();
+      setPrices(result.prices);
+      setFiat(result.fiat);
+      setSource('oracle');
+      setError(null);
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Price oracle unavailable, using pool prices:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load prices');
+
+      if (api && isApiReady) {
+        setPrices(getSpotPricesFromPools(await fetchPools(api)));
+        setSource('pools');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    refresh();
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  /** Value of a USD amount in the currency, or null when its rate is unknown */
+  const toFiat = useCallback(
+    (usd: number, currency: FiatCurrency) => convertUsd(usd, currency, fiat),
+    [fiat]
+  );
+
+  return { prices, fiat, source, loading, error, refresh, toFiat };
+}
+
+/**
+ * USD price of one asset ('native' for HEZ), null while unknown
+ */
+export function usePrice(assetId: number | 'native') {
+  const { prices, loading, error, toFiat } = useTokenPrices();
+  const price = prices[String(assetId)] ?? null;
+
+  return { price, loading, error, toFiat };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { checkReserveHealth, type ReserveStatus } from '@pezkuwi/lib/usdt';
+import { MAX_ATTESTATION_AGE_MS, type ReserveAttestation } from '@pezkuwi/lib/proof-of-reserves';
+
+interface ReserveAttestationRow {
+  id: string;
+  scheme: string;
+  custodian: string;
+  attested_at: number;
+  amount: string;
+  accounts_root: string;
+  accounts: ReserveAttestation['accounts'] | null;
+  signature: string;
+}
+
+export interface ReserveRatioPoint {
+  id: string;
+  recordedAt: string;
+  blockNumber: number;
+  blockHash: string;
+  collateralRatio: number | null; // Null while no wUSDT existed
+  isHealthy: boolean;
+}
+
+// Attestations older than the freshness window are still shown (and fail verification)
+const ATTESTATION_LOOKBACK_MS = 7 * MAX_ATTESTATION_AGE_MS;
+const HISTORY_LIMIT = 500;
+const REFRESH_INTERVAL_MS = 30000;
+
+function toAttestation(row: ReserveAttestationRow): ReserveAttestation {
+  return {
+    scheme: row.scheme,
+    custodian: row.custodian,
+    timestamp: Number(row.attested_at),
+    amount: row.amount,
+    accountsRoot: row.accounts_root,
+    ...(row.accounts && { accounts: row.accounts }),
+    signature: row.signature
+  };
+}
+
+/**
+ * wUSDT proof of reserves: published attestations, verified in the browser,
+ * plus the recorded collateral ratio history.
+ */
+export function useProofOfReserves() {
+  const { api, isApiReady } = usePolkadot();
+  const [status, setStatus] = useState<ReserveStatus | null>(null);
+  const [history, setHistory] = useState<ReserveRatioPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api || !isApiReady) return;
+
+    setLoading(true);
+    try {
+      const [attestationsResult, historyResult] = await Promise.all([
+        supabase
+          .from('reserve_attestations')
+          .select('*')
+          .gte('attested_at', Date.now() - ATTESTATION_LOOKBACK_MS)
+          .order('attested_at', { ascending: false }),
+        supabase
+          .from('reserve_ratio_history')
+          .select('id, recorded_at, block_number, block_hash, collateral_ratio, is_healthy')
+          .order('recorded_at', { ascending: false })
+          .limit(HISTORY_LIMIT)
+      ]);
+
+      if (attestationsResult.error) throw attestationsResult.error;
+      if (historyResult.error) throw historyResult.error;
+
+      const attestations = (attestationsResult.data as ReserveAttestationRow[]).map(toAttestation);
+      setStatus(await checkReserveHealth(api, attestations));
+
+      setHistory(
+        historyResult.data
+          .map((row) => ({
+            id: row.id,
+            recordedAt: row.recorded_at,
+            blockNumber: Number(row.block_number),
+            blockHash: row.block_hash,
+            collateralRatio: row.collateral_ratio === null ? null : Number(row.collateral_ratio),
+            isHealthy: row.is_healthy
+          }))
+          .reverse()
+      );
+      setError(null);
+      setLastUpdate(new Date());
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Error fetching reserve data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load reserve data');
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady]);
+
+  useEffect(() => {
+    refresh();
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { status, history, loading, error, lastUpdate, refresh };
+}
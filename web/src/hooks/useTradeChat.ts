@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { hexToU8a, stringToHex, u8aConcat, u8aToHex } from '@polkadot/util';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createChatIdentity,
+  restoreChatIdentity,
+  publishChatIdentity,
+  getPeerChatKey,
+  getTradeMessages,
+  decryptTradeMessage,
+  sendTradeMessage,
+  subscribeToTradeMessages,
+  markTradeMessagesRead,
+  createPartyKeyResolver,
+  getModeratorKeyResolver,
+  type ChatIdentity,
+  type ChatAttachmentInput,
+  type ConversationKeyResolver,
+  type P2PTradeMessage,
+  type P2PTradeMessageRow
+} from '@shared/lib/p2p-chat';
+
+/** Plaintext keys written by earlier versions; sealed and removed on load */
+const LEGACY_CHAT_KEY_STORAGE_PREFIX = 'pezkuwi_p2p_chat_key_';
+const CHAT_KEY_STORAGE_PREFIX = 'pezkuwi_p2p_chat_key_sealed_';
+
+const KEY_DB_NAME = 'pezkuwi-p2p-chat';
+const KEY_DB_STORE = 'keys';
+const SEALING_KEY_ID = 'chat-key-sealing';
+const IV_LENGTH = 12;
+
+// Sealed keys are bound to their wallet address
+const sealingContext = (address: string) => new TextEncoder().encode(address);
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openKeyDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(KEY_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(KEY_DB_STORE);
+  return idbRequest(request);
+}
+
+/**
+ * AES-GCM key that seals chat keys at rest. It is non-extractable and kept
+ * in IndexedDB as a CryptoKey, so its bytes never reach page storage.
+ */
+async function getSealingKey(): Promise<CryptoKey> {
+  const db = await openKeyDb();
+  try {
+    const stored = await idbRequest<CryptoKey | undefined>(
+      db.transaction(KEY_DB_STORE).objectStore(KEY_DB_STORE).get(SEALING_KEY_ID)
+    );
+    if (stored) return stored;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    try {
+      await idbRequest(db.transaction(KEY_DB_STORE, 'readwrite').objectStore(KEY_DB_STORE).add(key, SEALING_KEY_ID));
+      return key;
+    } catch {
+      // Another tab stored one first
+      return await idbRequest<CryptoKey>(db.transaction(KEY_DB_STORE).objectStore(KEY_DB_STORE).get(SEALING_KEY_ID));
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function sealChatKey(sealingKey: CryptoKey, address: string, secretKey: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: sealingContext(address) },
+    sealingKey,
+    new Uint8Array(secretKey)
+  );
+  return u8aToHex(u8aConcat(iv, new Uint8Array(ciphertext)));
+}
+
+async function unsealChatKey(sealingKey: CryptoKey, address: string, sealed: string): Promise<string> {
+  const bytes = new Uint8Array(hexToU8a(sealed));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH), additionalData: sealingContext(address) },
+    sealingKey,
+    bytes.slice(IV_LENGTH)
+  );
+  return u8aToHex(new Uint8Array(plaintext));
+}
+
+/**
+ * Browser chat identity. Extensions don't expose the wallet secret (and
+ * sr25519 signatures are randomized, so nothing stable can be derived from
+ * one), so the x25519 key is generated once and stored sealed.
+ */
+async function loadBrowserChatIdentity(address: string): Promise<ChatIdentity> {
+  const storageKey = `${CHAT_KEY_STORAGE_PREFIX}${address}`;
+  const legacyStorageKey = `${LEGACY_CHAT_KEY_STORAGE_PREFIX}${address}`;
+  const sealingKey = await getSealingKey();
+
+  const sealed = localStorage.getItem(storageKey);
+  if (sealed) {
+    try {
+      return restoreChatIdentity(address, await unsealChatKey(sealingKey, address, sealed));
+    } catch {
+      // Sealing key was cleared with site data: the old chat key is lost,
+      // as if localStorage had been cleared, and a new one is published
+    }
+  }
+
+  const legacy = localStorage.getItem(legacyStorageKey);
+  const identity = legacy ? restoreChatIdentity(address, legacy) : createChatIdentity(address);
+  localStorage.setItem(storageKey, await sealChatKey(sealingKey, address, identity.secretKey));
+  localStorage.removeItem(legacyStorageKey);
+  return identity;
+}
+
+async function signWithExtension(address: string, message: string): Promise<string> {
+  const injector = await web3FromAddress(address);
+  if (!injector?.signer?.signRaw) throw new Error('Signer not available');
+
+  const { signature } = await injector.signer.signRaw({
+    address,
+    data: stringToHex(message),
+    type: 'bytes'
+  });
+  return signature;
+}
+
+interface UseTradeChatParams {
+  tradeId: string;
+  /** The other party; omitted in moderator mode */
+  peer?: { userId: string; wallet?: string };
+  /** Moderator mode: read-only, using keys disclosed by the parties */
+  moderator?: boolean;
+}
+
+export function useTradeChat({ tradeId, peer, moderator = false }: UseTradeChatParams) {
+  const { selectedAccount } = usePolkadot();
+  const { user } = useAuth();
+  const [identity, setIdentity] = useState<ChatIdentity | null>(null);
+  const [peerKey, setPeerKey] = useState<string | null>(null);
+  const [messages, setMessages] = useState<P2PTradeMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resolverRef = useRef<ConversationKeyResolver | null>(null);
+  const peerUserId = peer?.userId;
+  const peerWallet = peer?.wallet;
+
+  // Publishing the key asks the wallet for a signature, so it only
+  // happens when the user opens the chat
+  const connect = useCallback(async () => {
+    if (!selectedAccount || !user) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const chatIdentity = await loadBrowserChatIdentity(selectedAccount.address);
+      await publishChatIdentity(chatIdentity, (message) => signWithExtension(selectedAccount.address, message));
+
+      resolverRef.current = moderator
+        ? await getModeratorKeyResolver(tradeId, chatIdentity)
+        : createPartyKeyResolver(chatIdentity, tradeId);
+
+      const rows = await getTradeMessages(tradeId);
+      setMessages(rows.map(row => decryptTradeMessage(row, resolverRef.current!)));
+
+      if (peerUserId) setPeerKey(await getPeerChatKey(peerUserId, peerWallet));
+      if (!moderator) await markTradeMessagesRead(tradeId);
+
+      setIdentity(chatIdentity);
+      setReady(true);
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Trade chat error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open chat');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedAccount, user, tradeId, peerUserId, peerWallet, moderator]);
+
+  useEffect(() => {
+    setReady(false);
+    setMessages([]);
+    setIdentity(null);
+    resolverRef.current = null;
+  }, [tradeId, selectedAccount]);
+
+  useEffect(() => {
+    if (!ready) return;
+
+    return subscribeToTradeMessages(tradeId, (row: P2PTradeMessageRow, event) => {
+      const message = decryptTradeMessage(row, resolverRef.current!);
+
+      setMessages(prev => event === 'INSERT'
+        ? prev.some(m => m.id === message.id) ? prev : [...prev, message]
+        : prev.map(m => m.id === message.id ? { ...m, read_at: message.read_at } : m)
+      );
+
+      if (event === 'INSERT' && !moderator && row.sender_id !== user?.id) {
+        markTradeMessagesRead(tradeId).catch(() => {});
+      }
+    });
+  }, [ready, tradeId, moderator, user?.id]);
+
+  // The peer may publish their key after we opened the chat
+  const refreshPeerKey = useCallback(async () => {
+    if (!peerUserId) return;
+    setPeerKey(await getPeerChatKey(peerUserId, peerWallet));
+  }, [peerUserId, peerWallet]);
+
+  const send = useCallback(async (text: string, attachment?: ChatAttachmentInput) => {
+    if (!identity || !peerKey) throw new Error('Chat is not ready');
+
+    const row = await sendTradeMessage({ tradeId, identity, peerKey, text, attachment });
+    const message = decryptTradeMessage(row, resolverRef.current!);
+    setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+  }, [identity, peerKey, tradeId]);
+
+  return {
+    identity,
+    peerKey,
+    messages,
+    loading,
+    ready,
+    error,
+    resolveKey: resolverRef.current,
+    connect,
+    refreshPeerKey,
+    send
+  };
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ApiPromise } from '@polkadot/api';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { useWallet } from '@/contexts/WalletContext';
+import {
+  connectToAssetHub,
+  getParachainId,
+  buildReserveTransferTx,
+  estimateTransferFees,
+  submitXcmTransfer,
+  type XcmTransferRequest,
+  type XcmFeeEstimate,
+  type XcmTransferProgress
+} from '@pezkuwi/lib/xcm-bridge';
+
+/**
+ * Asset Hub ↔ PezkuwiChain USDT transfers over XCM.
+ * Keeps one Asset Hub connection open while `enabled`.
+ */
+export function useXcmTransfer(enabled: boolean) {
+  const { api, isApiReady } = usePolkadot();
+  const { account, signer } = useWallet();
+  const [assetHubApi, setAssetHubApi] = useState<ApiPromise | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [fees, setFees] = useState<XcmFeeEstimate | null>(null);
+  const [progress, setProgress] = useState<XcmTransferProgress | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let connected: ApiPromise | null = null;
+
+    setConnectionError(null);
+    connectToAssetHub()
+      .then((hubApi) => {
+        connected = hubApi;
+        if (cancelled) {
+          hubApi.disconnect();
+        } else {
+          setAssetHubApi(hubApi);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setConnectionError(err instanceof Error ? err.message : 'Asset Hub connection failed');
+      });
+
+    return () => {
+      cancelled = true;
+      connected?.disconnect();
+      setAssetHubApi(null);
+    };
+  }, [enabled]);
+
+  const prepare = useCallback(async (request: XcmTransferRequest) => {
+    if (!api || !isApiReady || !assetHubApi) throw new Error('Chains are not connected');
+
+    const paraId = await getParachainId(api);
+    const [source, dest] = request.direction === 'deposit' ? [assetHubApi, api] : [api, assetHubApi];
+    const tx = await buildReserveTransferTx(source, paraId, request);
+
+    return { tx, source, dest };
+  }, [api, isApiReady, assetHubApi]);
+
+  const estimate = useCallback(async (request: XcmTransferRequest) => {
+    if (!account) return;
+
+    try {
+      const { tx, source, dest } = await prepare(request);
+      setFees(await estimateTransferFees(source, dest, tx, account, request));
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Fee estimate failed:', err);
+      setFees(null);
+    }
+  }, [account, prepare]);
+
+  const transfer = useCallback(async (request: XcmTransferRequest) => {
+    if (!account || !signer) throw new Error('Please connect your wallet');
+
+    setProgress({ stage: 'signing' });
+    const { tx, source, dest } = await prepare(request);
+    return submitXcmTransfer(source, dest, tx, signer, account, setProgress);
+  }, [account, signer, prepare]);
+
+  const reset = useCallback(() => {
+    setProgress(null);
+    setFees(null);
+  }, []);
+
+  return {
+    assetHubApi,
+    isReady: !!assetHubApi && !!api && isApiReady,
+    connectionError,
+    fees,
+    progress,
+    estimate,
+    transfer,
+    reset
+  };
+}
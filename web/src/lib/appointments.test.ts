@@ -0,0 +1,180 @@
+import { describe, expect, test } from 'vitest';
+import type { ApiPromise } from '@polkadot/api';
+import {
+  buildNominateMinisterTx,
+  findAppointmentEvents,
+  findAppointmentReviews,
+  findMinisterNominationCall,
+  getAppointmentOutcome,
+  getReviewedAppointmentId,
+} from '@pezkuwi/lib/appointments';
+import type { LegislationRecord } from '@pezkuwi/lib/legislation';
+import type { IndexedTransaction } from '@pezkuwi/lib/transaction-history';
+import type { AppointmentProcess } from '@pezkuwi/lib/welati';
+
+const APPOINTMENT: AppointmentProcess = {
+  processId: 3,
+  nominee: 'NOMINEE',
+  role: 'WezireDad',
+  nominator: 'SEROK',
+  justification: 'Experienced judge',
+  status: 'Pending',
+  createdAt: 100,
+  deadline: 1000,
+};
+
+function review(overrides: Partial<LegislationRecord> = {}): LegislationRecord {
+  return {
+    proposalId: 9,
+    proposer: 'MP',
+    title: 'Confirm NOMINEE',
+    description: 'appointment://3',
+    proposedAt: 200,
+    votingStartsAt: 200,
+    expiresAt: 900,
+    decisionType: 'ParliamentSimpleMajority',
+    status: 'Active',
+    ayeVotes: 0,
+    nayVotes: 0,
+    abstainVotes: 0,
+    threshold: 0,
+    votesCast: 0,
+    priority: 'High',
+    textCid: null,
+    execution: null,
+    ...overrides,
+  };
+}
+
+describe('getReviewedAppointmentId', () => {
+  test('should only match appointment review descriptions', () => {
+    expect(getReviewedAppointmentId('appointment://3')).toBe(3);
+    expect(getReviewedAppointmentId('appointment://abc')).toBeNull();
+    expect(getReviewedAppointmentId('ipfs://bafy')).toBeNull();
+  });
+});
+
+describe('findAppointmentReviews', () => {
+  test('should bind the first review opened by a parliament member after the nomination', () => {
+    const reviews = findAppointmentReviews(
+      [APPOINTMENT],
+      [
+        review({ proposalId: 12, proposedAt: 300, ayeVotes: 6, votesCast: 6 }),
+        review({ proposalId: 11, proposedAt: 250, proposer: 'OUTSIDER' }),
+        review({ proposalId: 10, proposedAt: 200 }),
+        review({ proposalId: 8, proposedAt: 50 }),
+      ],
+      ['MP']
+    );
+
+    expect(reviews.get(3)?.proposalId).toBe(10);
+  });
+
+  test('should leave appointments without a qualifying review unbound', () => {
+    const reviews = findAppointmentReviews(
+      [APPOINTMENT],
+      [review({ proposedAt: 50 }), review({ proposalId: 10, proposer: 'OUTSIDER' })],
+      ['MP']
+    );
+
+    expect(reviews.has(3)).toBe(false);
+  });
+});
+
+describe('getAppointmentOutcome', () => {
+  test('should follow the review through to the deadline', () => {
+    expect(getAppointmentOutcome(APPOINTMENT, null, 10, 500)).toBe('awaiting_review');
+    expect(getAppointmentOutcome(APPOINTMENT, review({ ayeVotes: 3, votesCast: 3 }), 10, 500)).toBe('in_review');
+    expect(getAppointmentOutcome(APPOINTMENT, review({ ayeVotes: 6, votesCast: 6 }), 10, 500)).toBe('confirmed');
+    expect(getAppointmentOutcome(APPOINTMENT, review({ nayVotes: 6, votesCast: 6 }), 10, 500))
+      .toBe('rejected_by_parliament');
+    expect(getAppointmentOutcome(APPOINTMENT, review({ ayeVotes: 6, votesCast: 6 }), 10, 1000)).toBe('expired');
+    expect(getAppointmentOutcome(APPOINTMENT, null, 10, 1200)).toBe('expired');
+  });
+
+  test('should prefer the recorded chain status', () => {
+    expect(getAppointmentOutcome({ ...APPOINTMENT, status: 'Approved' }, null, 10, 1200)).toBe('approved');
+    expect(getAppointmentOutcome({ ...APPOINTMENT, status: 'Rejected' }, review(), 10, 500)).toBe('rejected');
+  });
+});
+
+describe('findAppointmentEvents', () => {
+  test('should collect appointment and dismissal events, newest first', () => {
+    const tx = (hash: string, block: number, method: string, success = true) =>
+      ({
+        hash,
+        block_number: block,
+        success,
+        events: [
+          { section: 'system', method: 'ExtrinsicSuccess', data: [] },
+          { section: 'welati', method, data: ['ACCOUNT', 'WezireDad'] },
+        ],
+      }) as unknown as IndexedTransaction;
+
+    const events = findAppointmentEvents([
+      tx('0x1', 10, 'AppointmentApproved'),
+      tx('0x2', 30, 'OfficialDismissed'),
+      tx('0x3', 20, 'ProposalExecuted'),
+      tx('0x4', 40, 'AppointmentApproved', false),
+    ]);
+
+    expect(events.map((event) => [event.kind, event.blockNumber])).toEqual([
+      ['dismissed', 30],
+      ['appointed', 10],
+    ]);
+    expect(events[0].role).toBe('WezireDad');
+  });
+});
+
+describe('findMinisterNominationCall', () => {
+  const OFFICIAL_ROLES = ['Serok', 'SerokWeziran', 'MeclisBaskanı'];
+  const MINISTER_ROLES = ['WezireDarayiye', 'WezireParez', 'WezireDad', 'WezireBelaw', 'WezireTend', 'WezireAva', 'WezireCand'];
+
+  // welati calls with the given argument names; role types accept the listed variants
+  function fakeApi(calls: Record<string, { args: [string, string][] }>, types: Record<string, string[]>) {
+    const tx = Object.fromEntries(
+      Object.entries(calls).map(([name, { args }]) => {
+        const call = Object.assign((...values: unknown[]) => ({ call: name, values }), {
+          meta: { args: args.map(([argName, type]) => ({ name: argName, type })) },
+        });
+        return [name, call];
+      })
+    );
+
+    return {
+      tx: { welati: tx },
+      createType: (type: string, value: string) => {
+        if (!types[type]?.includes(value)) throw new Error(`Unknown ${type} variant ${value}`);
+        return value;
+      },
+    } as unknown as ApiPromise;
+  }
+
+  const nominationArgs = (roleType: string): [string, string][] => [
+    ['nominee', 'AccountId32'],
+    ['role', roleType],
+    ['justification', 'Bytes'],
+  ];
+
+  test('should not use nominateOfficial when its role type has no ministries', () => {
+    const api = fakeApi({ nominateOfficial: { args: nominationArgs('OfficialRole') } }, { OfficialRole: OFFICIAL_ROLES });
+
+    expect(findMinisterNominationCall(api)).toBeNull();
+    expect(() => buildNominateMinisterTx(api, 'NOMINEE', 'WezireDad', 'Judge')).toThrow(/not supported/);
+  });
+
+  test('should use a call whose role type lists every ministry', () => {
+    const api = fakeApi(
+      {
+        nominateOfficial: { args: nominationArgs('OfficialRole') },
+        nominateMinister: { args: [['role', 'MinisterRole'], ['nominee', 'AccountId32'], ['justification', 'Bytes']] },
+      },
+      { OfficialRole: OFFICIAL_ROLES, MinisterRole: MINISTER_ROLES }
+    );
+
+    expect(buildNominateMinisterTx(api, 'NOMINEE', 'WezireDad', 'Judge')).toEqual({
+      call: 'nominateMinister',
+      values: ['WezireDad', 'NOMINEE', 'Judge'],
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest';
+import {
+  createCitizenshipCommitment,
+  generateCommitmentSalt,
+  hashIdentity,
+  verifyCommitment,
+  type CitizenshipData,
+} from '@pezkuwi/lib/citizenship-workflow';
+
+const NULLIFIER = '0x' + 'ab'.repeat(32);
+
+function application(overrides: Partial<CitizenshipData> = {}): CitizenshipData {
+  return {
+    fullName: 'Azad Rojhilatî',
+    fatherName: 'Şêrko',
+    grandfatherName: 'Mihemed',
+    motherName: 'Gulistan',
+    tribe: '',
+    maritalStatus: 'nezewici',
+    region: 'bakur',
+    email: 'azad@example.org',
+    profession: 'Teacher',
+    walletAddress: '5Azad',
+    timestamp: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+describe('hashIdentity', () => {
+  test('should repeat the digest for the same person across applications', () => {
+    const again = application({ fullName: '  AZAD   Rojhilatî ', email: 'other@example.org', walletAddress: '5Other' });
+
+    expect(hashIdentity(again)).toBe(hashIdentity(application()));
+  });
+
+  test('should separate people', () => {
+    expect(hashIdentity(application({ motherName: 'Nesrîn' }))).not.toBe(hashIdentity(application()));
+    expect(hashIdentity(application({ region: 'rojava' }))).not.toBe(hashIdentity(application()));
+  });
+});
+
+describe('createCitizenshipCommitment', () => {
+  test('should record the backend nullifier and a fresh commitment per application', () => {
+    const first = createCitizenshipCommitment(application(), generateCommitmentSalt(), NULLIFIER);
+    const again = createCitizenshipCommitment(application(), generateCommitmentSalt(), NULLIFIER.toUpperCase().replace('0X', '0x'));
+
+    expect(again.nullifierHash).toBe(first.nullifierHash);
+    expect(again.commitmentHash).not.toBe(first.commitmentHash);
+  });
+
+  test('should open the commitment only with the applicant salt', () => {
+    const data = application();
+    const salt = generateCommitmentSalt();
+    const { commitmentHash } = createCitizenshipCommitment(data, salt, NULLIFIER);
+
+    expect(verifyCommitment(data, salt, commitmentHash)).toBe(true);
+    expect(verifyCommitment(data, generateCommitmentSalt(), commitmentHash)).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'vitest';
+import { analyzeLPPosition, computeLPCostBasis } from '@pezkuwi/utils/dex';
+import type { LiquidityEvent } from '@pezkuwi/types/dex';
+
+const event = (kind: LiquidityEvent['kind'], amount1: string, amount2: string, lpAmount: string): LiquidityEvent => ({
+  id: `${kind}-${lpAmount}`,
+  block_number: 1,
+  kind,
+  account: '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY',
+  asset1: '0',
+  asset2: '1000',
+  amount1,
+  amount2,
+  lp_token: '0',
+  lp_amount: lpAmount,
+  block_time: '2026-01-01T00:00:00.000Z',
+});
+
+describe('computeLPCostBasis', () => {
+  test('should release basis pro rata on removal', () => {
+    const basis = computeLPCostBasis([
+      event('add', '1000', '4000', '2000'),
+      event('add', '500', '2000', '1000'),
+      event('remove', '900', '3600', '1500'),
+    ]);
+
+    expect(basis).toEqual({ amount1: '750', amount2: '3000', lpTokens: '1500', sqrtInvariant: 1500 });
+  });
+});
+
+describe('analyzeLPPosition', () => {
+  const basis = computeLPCostBasis([event('add', '1000', '1000', '1000')]);
+
+  test('should attribute invariant growth to fees', () => {
+    const analysis = analyzeLPPosition(
+      { lpTokenBalance: '1000', asset1Amount: '1100', asset2Amount: '1100' },
+      { reserve1: '11000', reserve2: '11000' },
+      basis
+    );
+
+    expect(analysis?.fees1).toBe('100');
+    expect(analysis?.fees2).toBe('100');
+    expect(analysis?.impermanentLoss).toBeCloseTo(0);
+  });
+
+  test('should measure impermanent loss against holding the deposit', () => {
+    // Price of asset1 quadrupled without any swaps paying fees
+    const analysis = analyzeLPPosition(
+      { lpTokenBalance: '1000', asset1Amount: '500', asset2Amount: '2000' },
+      { reserve1: '5000', reserve2: '20000' },
+      basis
+    );
+
+    expect(analysis?.fees1).toBe('0');
+    expect(analysis?.impermanentLoss).toBeCloseTo(-20);
+  });
+
+  test('should only analyse LP tokens with a known basis', () => {
+    const analysis = analyzeLPPosition(
+      { lpTokenBalance: '2000', asset1Amount: '2000', asset2Amount: '2000' },
+      { reserve1: '10000', reserve2: '10000' },
+      basis
+    );
+
+    expect(analysis?.coverage).toBe(0.5);
+    expect(analysis?.fees1).toBe('0');
+    expect(analyzeLPPosition({ lpTokenBalance: '1', asset1Amount: '1', asset2Amount: '1' }, { reserve1: '1', reserve2: '1' }, computeLPCostBasis([])))
+      .toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'vitest';
+import {
+  ORDER_INTENT_PREFIX,
+  buildOrderIntent,
+  getMinAmountOut,
+  getOrderPrice,
+  summarizeFills,
+  type DexOrder,
+  type DexOrderFill,
+} from '@pezkuwi/lib/dex-orders';
+
+describe('buildOrderIntent', () => {
+  test('should serialize fields in a fixed order', () => {
+    const message = buildOrderIntent({
+      nonce: 1,
+      expiresAt: null,
+      executions: null,
+      intervalSeconds: null,
+      maxSlippageBps: 100,
+      minAmountOut: '5',
+      amountIn: '10',
+      path: [1, 1000],
+      kind: 'limit',
+      owner: '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY',
+    });
+
+    expect(message.startsWith(ORDER_INTENT_PREFIX)).toBe(true);
+    expect(Object.keys(JSON.parse(message.slice(ORDER_INTENT_PREFIX.length)))).toEqual([
+      'owner', 'kind', 'path', 'amountIn', 'minAmountOut', 'maxSlippageBps', 'intervalSeconds', 'executions', 'expiresAt', 'nonce',
+    ]);
+  });
+});
+
+describe('getMinAmountOut', () => {
+  test('should convert a limit price across decimals', () => {
+    // 100 PEZ (12 decimals) at 0.05 wUSDT (6 decimals)
+    expect(getMinAmountOut('100000000000000', '0.05', 12, 6)).toBe('5000000');
+  });
+
+  test('should round the floor up', () => {
+    // 1 raw unit at 0.5 is half a unit; the floor must not undercut the price
+    expect(getMinAmountOut('1', '0.5', 0, 0)).toBe('1');
+  });
+
+  test('should invert through getOrderPrice', () => {
+    const minOut = getMinAmountOut('2500000', '12.5', 6, 12);
+    expect(getOrderPrice('2500000', minOut, 6, 12)).toBeCloseTo(12.5);
+  });
+});
+
+describe('summarizeFills', () => {
+  const fill = (status: DexOrderFill['status'], amountIn: string, amountOut: string | null): DexOrderFill => ({
+    id: `${status}-${amountIn}`,
+    order_id: 'order',
+    status,
+    tx_hash: null,
+    block_hash: null,
+    amount_in: amountIn,
+    amount_out: amountOut,
+    min_amount_out: '0',
+    error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+  });
+
+  test('should total only filled executions', () => {
+    const order = {
+      fills: [fill('filled', '100', '40'), fill('failed', '100', null), fill('filled', '100', '60')],
+    } as DexOrder;
+
+    expect(summarizeFills(order)).toEqual({ amountIn: '200', amountOut: '100', count: 2 });
+  });
+});
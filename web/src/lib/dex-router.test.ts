@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import { computeBestSwapRoute, findSwapPaths } from '@pezkuwi/utils/dex';
+import type { PoolInfo } from '@pezkuwi/types/dex';
+
+const pool = (asset1: number, asset2: number, reserve1: string, reserve2: string): PoolInfo => ({
+  id: `${asset1}-${asset2}`,
+  asset1,
+  asset2,
+  asset1Symbol: '',
+  asset2Symbol: '',
+  asset1Decimals: 12,
+  asset2Decimals: 12,
+  reserve1,
+  reserve2,
+  lpTokenSupply: '0',
+  feeRate: '0.3',
+});
+
+const POOLS = [
+  pool(0, 1, '1000000000', '1000000000'),
+  pool(0, 1000, '1000000000', '1000000000'),
+  pool(1, 1000, '1000000000', '1000000000'),
+  pool(1000, 5, '1000000', '1000000'),
+  pool(5, 6, '0', '0'),
+];
+
+describe('findSwapPaths', () => {
+  test('should find direct and multi-hop paths', () => {
+    const paths = findSwapPaths(POOLS, 0, 1);
+    expect(paths).toContainEqual([0, 1]);
+    expect(paths).toContainEqual([0, 1000, 1]);
+  });
+
+  test('should respect the hop limit and skip empty pools', () => {
+    expect(findSwapPaths(POOLS, 0, 5, 1)).toEqual([]);
+    expect(findSwapPaths(POOLS, 0, 5, 2)).toEqual([[0, 1000, 5]]);
+    expect(findSwapPaths(POOLS, 0, 6)).toEqual([]);
+  });
+});
+
+describe('computeBestSwapRoute', () => {
+  test('should route through intermediate assets', () => {
+    const quote = computeBestSwapRoute(POOLS, 0, 5, '1000');
+    expect(quote.path).toEqual([0, 1000, 5]);
+    expect(quote.legs).toHaveLength(1);
+    expect(BigInt(quote.amountOut)).toBeGreaterThan(BigInt(0));
+  });
+
+  test('should compound price impact across hops', () => {
+    const quote = computeBestSwapRoute(POOLS, 0, 5, '1000000');
+    // 1 - (1 - 0.1%) * (1 - ~50%), not 0.1% + 50%
+    expect(parseFloat(quote.priceImpact)).toBeGreaterThan(49);
+    expect(parseFloat(quote.priceImpact)).toBeLessThan(51);
+  });
+
+  test('should split large trades when it improves the output', () => {
+    const single = computeBestSwapRoute(POOLS, 0, 1, '100000000');
+    const split = computeBestSwapRoute(POOLS, 0, 1, '100000000', 1, { maxSplits: 2 });
+
+    expect(single.legs).toHaveLength(1);
+    expect(split.legs).toHaveLength(2);
+    expect(BigInt(split.amountOut)).toBeGreaterThan(BigInt(single.amountOut));
+    expect(split.legs.reduce((sum, leg) => sum + BigInt(leg.amountIn), BigInt(0))).toBe(BigInt('100000000'));
+  });
+
+  test('should apply the requested slippage per leg', () => {
+    const quote = computeBestSwapRoute(POOLS, 0, 1, '1000000', 0.5);
+    const expected = (BigInt(quote.amountOut) * BigInt(9950)) / BigInt(10000);
+    expect(quote.minimumReceived).toBe(expected.toString());
+    expect(quote.slippage).toBe(0.5);
+  });
+
+  test('should return an empty route when assets are not connected', () => {
+    const quote = computeBestSwapRoute(POOLS, 0, 6, '1000');
+    expect(quote.amountOut).toBe('0');
+    expect(quote.legs).toEqual([]);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, test } from 'vitest';
+import type { ApiPromise } from '@polkadot/api';
+import {
+  buildElectionExport,
+  buildElectionResultsCsv,
+  getElectionTimeline,
+  snapshotFromExport,
+  tallyElection,
+  verifyElectionExport,
+  type ElectionSnapshot,
+  type ElectionVote,
+} from '@pezkuwi/lib/elections';
+import type { ElectionInfo, ElectionType } from '@pezkuwi/lib/welati';
+
+function election(overrides: Partial<ElectionInfo> = {}): ElectionInfo {
+  return {
+    electionId: 1,
+    electionType: 'Presidential',
+    status: 'VotingPeriod',
+    startBlock: 100,
+    candidacyEndBlock: 200,
+    campaignEndBlock: 300,
+    votingEndBlock: 400,
+    totalCandidates: 0,
+    totalVotes: 0,
+    turnoutPercentage: 0,
+    ...overrides,
+  };
+}
+
+function vote(voter: string, candidates: string[], districtId: number | null = null): ElectionVote {
+  return { voter, candidates, districtId, weight: 1 };
+}
+
+function snapshot(
+  electionType: ElectionType,
+  candidates: [string, number?][],
+  votes: ElectionVote[],
+  overrides: Partial<ElectionSnapshot> = {}
+): ElectionSnapshot {
+  return {
+    blockNumber: 500,
+    blockHash: '0xabc',
+    election: election({ electionType }),
+    districts: [],
+    candidates: candidates.map(([account, districtId]) => ({
+      account,
+      districtId,
+      registeredAt: 100,
+      endorsersCount: 0,
+      voteCount: 0,
+      depositPaid: '0',
+    })),
+    votes,
+    atLargeSeats: 1,
+    chainResult: null,
+    ...overrides,
+  };
+}
+
+describe('getElectionTimeline', () => {
+  test('should mark phases around the current block and count down', () => {
+    const timeline = getElectionTimeline(election(), 250);
+
+    expect(timeline.current).toBe('CampaignPeriod');
+    expect(timeline.phases.map((phase) => phase.state)).toEqual(['past', 'current', 'upcoming', 'upcoming']);
+    expect(timeline.blocksRemaining).toBe(50);
+    expect(timeline.timeRemaining).toEqual({ days: 0, hours: 0, minutes: 5 });
+  });
+
+  test('should be completed once voting ends or the chain finalizes', () => {
+    expect(getElectionTimeline(election(), 400).current).toBe('Completed');
+    expect(getElectionTimeline(election({ status: 'Completed' }), 350).current).toBe('Completed');
+  });
+});
+
+describe('tallyElection', () => {
+  test('should elect a presidential candidate with an absolute majority', () => {
+    const tally = tallyElection(snapshot('Presidential', [['A'], ['B']], [
+      vote('1', ['A']), vote('2', ['A']), vote('3', ['B']),
+    ]));
+
+    expect(tally.winners).toEqual(['A']);
+    expect(tally.runoffRequired).toBe(false);
+    expect(tally.districts[0].candidates[0].share).toBeCloseTo(66.67, 1);
+  });
+
+  test('should call a runoff between the top two without a majority', () => {
+    const tally = tallyElection(snapshot('Presidential', [['A'], ['B'], ['C']], [
+      vote('1', ['A']), vote('2', ['A']), vote('3', ['B']), vote('4', ['C']),
+    ]));
+
+    expect(tally.runoffRequired).toBe(true);
+    expect(tally.runoffCandidates).toEqual(['A', 'B']);
+    expect(tally.winners).toEqual([]);
+  });
+
+  test('should fill district seats and measure turnout against population', () => {
+    const tally = tallyElection(snapshot(
+      'Parliamentary',
+      [['A', 1], ['B', 1], ['C', 1], ['D', 2]],
+      [vote('1', ['A', 'B'], 1), vote('2', ['A', 'C'], 1), vote('3', ['D'], 2)],
+      {
+        districts: [
+          { districtId: 1, name: 'Hewlêr', seatCount: 2, voterPopulation: 4 },
+          { districtId: 2, name: 'Amed', seatCount: 1, voterPopulation: 6 },
+        ],
+      }
+    ));
+
+    expect(tally.districts.map((district) => district.name)).toEqual(['Hewlêr', 'Amed']);
+    expect(tally.districts[0].tiedAtCutoff).toBe(true);
+    expect(tally.districts[0].turnout).toBe(50);
+    expect(tally.winners).toEqual(['A', 'B', 'D']);
+    expect(tally.turnout).toBe(30);
+    expect(tally.meetsMinimumTurnout).toBe(false);
+  });
+
+  test('should fall back to the chain turnout without district populations', () => {
+    const tally = tallyElection(snapshot('SpeakerElection', [['A']], [vote('1', ['A'])], {
+      election: election({ electionType: 'SpeakerElection', turnoutPercentage: 35 }),
+    }));
+
+    expect(tally.eligibleVoters).toBeNull();
+    expect(tally.meetsMinimumTurnout).toBe(true);
+  });
+});
+
+describe('election export', () => {
+  test('should recount from the exported ballots', () => {
+    const exported = buildElectionExport(snapshot('Presidential', [['A'], ['B']], [vote('1', ['A'])]));
+
+    expect(exported.blockHash).toBe('0xabc');
+    expect(tallyElection(snapshotFromExport(exported))).toEqual(exported.tally);
+  });
+
+  test('should write one CSV row per candidate under a block header', () => {
+    const csv = buildElectionResultsCsv(
+      buildElectionExport(snapshot('Presidential', [['A'], ['B']], [vote('1', ['A'])]))
+    ).split('\n');
+
+    expect(csv[0]).toContain('block=500 hash=0xabc');
+    expect(csv[2]).toBe('district_id,district,candidate,votes,share,elected');
+    expect(csv[3]).toBe(',"At large",A,1,100.00,true');
+    expect(csv).toHaveLength(5);
+  });
+
+  test('should verify against the ballots and seat count at the exported block', async () => {
+    const codec = (value: unknown) => ({ isEmpty: value === null, unwrap: () => ({ toJSON: () => value }), toJSON: () => value });
+    // Parliament had one at-large seat at 0xabc and two at the finalized head
+    const api = {
+      rpc: {
+        chain: {
+          getFinalizedHead: async () => ({ toHex: () => '0xhead' }),
+          getHeader: async () => ({ number: { toNumber: () => 500 } }),
+        },
+      },
+      at: async (hash: string) => ({
+        query: {
+          welati: {
+            activeElections: async () => codec({ ...election({ electionType: 'Parliamentary' }), districts: [] }),
+            electionCandidates: {
+              entries: async () => ['A', 'B'].map((account) => [{ args: [1, account] }, codec({ registeredAt: 100 })]),
+            },
+            electionVotes: {
+              entries: async () => [['1', ['A']], ['2', ['B']]].map(([voter, candidates]) => [
+                { args: [1, voter] },
+                codec({ candidates, voteWeight: 1 }),
+              ]),
+            },
+            electionResults: async () => codec(null),
+            governanceStats: async () => codec({ parliamentSize: hash === '0xabc' ? 1 : 2 }),
+          },
+        },
+      }),
+    } as unknown as ApiPromise;
+    const ballots = [vote('1', ['A']), vote('2', ['B'])];
+    const exported = buildElectionExport(snapshot('Parliamentary', [['A'], ['B']], ballots));
+    const inflated = buildElectionExport(snapshot('Parliamentary', [['A'], ['B']], ballots, { atLargeSeats: 2 }));
+
+    expect(await verifyElectionExport(api, exported)).toEqual({ recountMatches: true, chainMatches: true });
+    expect(await verifyElectionExport(api, inflated)).toEqual({ recountMatches: true, chainMatches: false });
+  });
+});
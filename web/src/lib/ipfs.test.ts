@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  computeCid,
+  createIpfsClient,
+  createKuboBackend,
+  isValidCid,
+  SINGLE_BLOCK_LIMIT,
+  type PinningBackend,
+} from '@pezkuwi/lib/ipfs';
+
+const KUBO_API_URL = process.env.IPFS_KUBO_API_URL;
+const KUBO_GATEWAY_URL = process.env.IPFS_KUBO_GATEWAY_URL || 'http://127.0.0.1:8080';
+
+describe('computeCid', () => {
+  test('should compute CIDv1 raw sha2-256 in base32', () => {
+    const bytes = new TextEncoder().encode('hello world');
+    expect(computeCid(bytes)).toBe('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e');
+  });
+
+  test('should produce different CIDs for different content', () => {
+    const a = computeCid(new TextEncoder().encode('a'));
+    const b = computeCid(new TextEncoder().encode('b'));
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('isValidCid', () => {
+  test('should accept CIDv0 and CIDv1', () => {
+    expect(isValidCid('QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u')).toBe(true);
+    expect(isValidCid('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e')).toBe(true);
+  });
+
+  test('should reject mock and malformed CIDs', () => {
+    expect(isValidCid('Qmabc123')).toBe(false);
+    expect(isValidCid('')).toBe(false);
+    expect(isValidCid(undefined)).toBe(false);
+  });
+});
+
+describe('pinned content checks', () => {
+  const DAG_ROOT = 'QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u';
+  const backend = (cid: (content: Uint8Array) => string): PinningBackend => ({
+    name: 'fake',
+    pin: async (content) => cid(content),
+  });
+  const serve = (bytes: Uint8Array) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(bytes as BlobPart)));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should reject a backend that pins different bytes', async () => {
+    const client = createIpfsClient({
+      backend: backend(() => computeCid(new TextEncoder().encode('something else'))),
+      gateway: 'http://gateway',
+    });
+
+    await expect(client.add('hello world')).rejects.toThrow(/fake pinned bafkrei.*, expected bafkrei/);
+  });
+
+  test('should fetch back content too large for a single block', async () => {
+    const large = new Uint8Array(SINGLE_BLOCK_LIMIT + 1).fill(7);
+    const client = createIpfsClient({ backend: backend(() => DAG_ROOT), gateway: 'http://gateway' });
+
+    serve(large);
+    expect((await client.add(large)).verified).toBe(true);
+
+    serve(new Uint8Array(SINGLE_BLOCK_LIMIT + 1));
+    await expect(client.add(large)).rejects.toThrow(`IPFS round-trip verification failed for ${DAG_ROOT}`);
+  });
+});
+
+// Runs only when a local Kubo node is available:
+// IPFS_KUBO_API_URL=http://127.0.0.1:5001 npm test
+describe.skipIf(!KUBO_API_URL)('Kubo round-trip', () => {
+  test('should pin content and match the locally computed CID', async () => {
+    const client = createIpfsClient({
+      backend: createKuboBackend(KUBO_API_URL as string),
+      gateway: KUBO_GATEWAY_URL,
+    });
+
+    const result = await client.addJson({ hello: 'pezkuwi' }, { verify: true });
+
+    expect(result.pinnedCid).toBe(result.cid);
+    expect(result.verified).toBe(true);
+    expect(await client.catJson(result.cid)).toEqual({ hello: 'pezkuwi' });
+  });
+});
@@ -0,0 +1,206 @@
+import { beforeAll, describe, expect, test } from 'vitest';
+import type { ApiPromise } from '@polkadot/api';
+import { Keyring } from '@polkadot/keyring';
+import { u8aToHex } from '@polkadot/util';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import {
+  buildCommentThreads,
+  buildIssueUpdateMessage,
+  canTransitionIssue,
+  filterAuthorizedUpdates,
+  filterIssues,
+  trackIssues,
+  verifyIssueUpdate,
+  type CitizenIssue,
+  type IssueComment,
+  type IssueUpdate,
+} from '@pezkuwi/lib/issues';
+import type { Region } from '@pezkuwi/lib/citizenship-workflow';
+
+function issue(id: number, overrides: Partial<CitizenIssue> = {}): CitizenIssue {
+  return {
+    id,
+    submitter: 'CITIZEN',
+    description: `Issue ${id}`,
+    category: 'Healthcare',
+    status: 'Pending',
+    supportVotes: 10,
+    opposeVotes: 0,
+    blockNumber: id * 100,
+    ...overrides,
+  };
+}
+
+function update(issueId: number, issuedAt: number, overrides: Partial<IssueUpdate> = {}): IssueUpdate {
+  return {
+    id: `${issueId}-${issuedAt}`,
+    issue_id: issueId,
+    kind: 'status',
+    status: 'InProgress',
+    merged_into: null,
+    note: '',
+    actor_address: 'MINISTER',
+    issued_at: issuedAt,
+    signature: '0x',
+    block_number: 1,
+    block_hash: '0xblock',
+    created_at: new Date(issuedAt).toISOString(),
+    ...overrides,
+  };
+}
+
+function comment(id: string, parentId: string | null, minute: number): IssueComment {
+  return {
+    id,
+    issue_id: 1,
+    parent_id: parentId,
+    author_address: 'CITIZEN',
+    body: id,
+    attachments: [],
+    created_at: `2026-01-01T00:${String(minute).padStart(2, '0')}:00Z`,
+  };
+}
+
+describe('trackIssues', () => {
+  test('should replay status changes and fold merged duplicates into the canonical issue', () => {
+    const tracked = trackIssues(
+      [issue(1), issue(2, { supportVotes: 4 }), issue(3, { supportVotes: 1 })],
+      [
+        update(1, 2, { status: 'Resolved' }),
+        update(1, 1, { status: 'InProgress' }),
+        update(1, 3, { kind: 'response', status: null, note: 'Clinic reopened' }),
+        update(2, 1, { kind: 'merge', status: null, merged_into: 1 }),
+        update(3, 1, { kind: 'merge', status: null, merged_into: 2 }),
+      ],
+      new Map<number, Region>([[1, 'rojava']])
+    );
+
+    expect(tracked[0].effectiveStatus).toBe('Resolved');
+    expect(tracked[0].responses.map((r) => r.note)).toEqual(['Clinic reopened']);
+    expect(tracked[0].duplicates).toEqual([2, 3]);
+    expect(tracked[0].totalSupport).toBe(15);
+    expect(tracked[0].region).toBe('rojava');
+    expect(tracked[2].mergedInto).toBe(1);
+    expect(tracked[2].effectiveStatus).toBe('Closed');
+  });
+
+  test('should ignore merge cycles and merges into unknown issues', () => {
+    const tracked = trackIssues(
+      [issue(1), issue(2), issue(3)],
+      [
+        update(1, 1, { kind: 'merge', status: null, merged_into: 2 }),
+        update(2, 1, { kind: 'merge', status: null, merged_into: 1 }),
+        update(3, 1, { kind: 'merge', status: null, merged_into: 99 }),
+      ],
+      new Map()
+    );
+
+    expect(tracked.map((t) => t.mergedInto)).toEqual([null, null, null]);
+  });
+
+  test('should drop disallowed transitions and order by storage time, not the signed time', () => {
+    const tracked = trackIssues(
+      [issue(1), issue(2)],
+      [
+        update(1, 1, { status: 'Resolved' }),
+        // Signed "earlier" but stored after the resolution
+        update(2, 1, { status: 'InProgress', created_at: '2026-01-01T00:02:00Z' }),
+        update(2, 2, { status: 'Closed', created_at: '2026-01-01T00:01:00Z' }),
+      ],
+      new Map()
+    );
+
+    expect(tracked[0].effectiveStatus).toBe('Pending');
+    expect(tracked[0].history).toEqual([]);
+    expect(tracked[1].effectiveStatus).toBe('InProgress');
+    expect(tracked[1].history.map((u) => u.status)).toEqual(['Closed', 'InProgress']);
+  });
+});
+
+describe('filterIssues', () => {
+  test('should filter by category, status and region and hide duplicates by default', () => {
+    const tracked = trackIssues(
+      [issue(1), issue(2, { category: 'Economy' }), issue(3)],
+      [update(3, 1, { kind: 'merge', status: null, merged_into: 1 })],
+      new Map<number, Region>([[1, 'bakur']])
+    );
+    const filters = { category: 'all', status: 'all', region: 'all', query: '' };
+
+    expect(filterIssues(tracked, filters).map((t) => t.id)).toEqual([1, 2]);
+    expect(filterIssues(tracked, { ...filters, category: 'Healthcare' }).map((t) => t.id)).toEqual([1]);
+    expect(filterIssues(tracked, { ...filters, region: 'bakur' }).map((t) => t.id)).toEqual([1]);
+    expect(filterIssues(tracked, { ...filters, status: 'Closed' }).map((t) => t.id)).toEqual([3]);
+    expect(filterIssues(tracked, { ...filters, query: 'issue 2' }).map((t) => t.id)).toEqual([2]);
+  });
+});
+
+describe('buildCommentThreads', () => {
+  test('should nest replies and keep orphans at the top level', () => {
+    const threads = buildCommentThreads([
+      comment('reply', 'root', 2),
+      comment('root', null, 1),
+      comment('nested', 'reply', 3),
+      comment('orphan', 'deleted', 4),
+    ]);
+
+    expect(threads.map((t) => t.id)).toEqual(['root', 'orphan']);
+    expect(threads[0].replies[0].id).toBe('reply');
+    expect(threads[0].replies[0].replies[0].id).toBe('nested');
+  });
+});
+
+describe('signed issue updates', () => {
+  beforeAll(async () => {
+    await cryptoWaitReady();
+  });
+
+  test('should verify the signer and reject tampered updates', () => {
+    const pair = new Keyring({ type: 'ed25519' }).addFromUri('//Minister');
+    const signed = update(7, 1_700_000_000_000, { actor_address: pair.address, note: 'Crew dispatched' });
+    signed.signature = u8aToHex(pair.sign(buildIssueUpdateMessage({
+      issueId: 7,
+      kind: 'status',
+      status: 'InProgress',
+      note: 'Crew dispatched',
+      issuedAt: 1_700_000_000_000,
+    })));
+
+    expect(verifyIssueUpdate(signed)).toBe(true);
+    expect(verifyIssueUpdate({ ...signed, status: 'Resolved' })).toBe(false);
+    expect(canTransitionIssue('Pending', 'InProgress')).toBe(true);
+    expect(canTransitionIssue('Pending', 'Resolved')).toBe(false);
+  });
+
+  test('should check the Tiki at the block the update was published', async () => {
+    const pair = new Keyring({ type: 'ed25519' }).addFromUri('//Minister');
+    const signedAt = (blockHash: string | null, issuedAt: number) => {
+      const signed = update(1, issuedAt, { actor_address: pair.address, block_hash: blockHash });
+      signed.signature = u8aToHex(pair.sign(buildIssueUpdateMessage({
+        issueId: 1,
+        kind: 'status',
+        status: 'InProgress',
+        note: '',
+        issuedAt,
+      })));
+      return signed;
+    };
+    // Health minister (WezireTend, tiki 41) at 0xappointed only
+    const api = {
+      at: async (blockHash: string) => ({
+        query: {
+          tiki: {
+            userTikis: async () => ({ isEmpty: false, toJSON: () => (blockHash === '0xappointed' ? [41] : [0]) }),
+          },
+        },
+      }),
+    } as unknown as ApiPromise;
+
+    const authorized = await filterAuthorizedUpdates(
+      api,
+      [signedAt('0xappointed', 1), signedAt('0xdismissed', 2), signedAt(null, 3)],
+      [issue(1)]
+    );
+
+    expect(authorized.map((u) => u.issued_at)).toEqual([1]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'vitest';
+import {
+  diffLines,
+  findExecutionTransactions,
+  getLegislationStages,
+  getTextCid,
+  getThresholdProgress,
+} from '@pezkuwi/lib/legislation';
+import { computeCid } from '@pezkuwi/lib/ipfs';
+import type { CollectiveProposal } from '@pezkuwi/lib/welati';
+import type { IndexedTransaction } from '@pezkuwi/lib/transaction-history';
+
+function proposal(overrides: Partial<CollectiveProposal> = {}): CollectiveProposal {
+  return {
+    proposalId: 7,
+    proposer: 'A',
+    title: 'Budget',
+    description: '',
+    proposedAt: 100,
+    votingStartsAt: 200,
+    expiresAt: 300,
+    decisionType: 'ParliamentSimpleMajority',
+    status: 'Active',
+    ayeVotes: 0,
+    nayVotes: 0,
+    abstainVotes: 0,
+    threshold: 0,
+    votesCast: 0,
+    priority: 'Normal',
+    ...overrides,
+  };
+}
+
+describe('getThresholdProgress', () => {
+  test('should measure ayes against the decision type threshold', () => {
+    const progress = getThresholdProgress(
+      proposal({ decisionType: 'ParliamentSuperMajority', ayeVotes: 4, nayVotes: 1, votesCast: 5 }),
+      9
+    );
+
+    expect(progress.required).toBe(6);
+    expect(progress.outstanding).toBe(4);
+    expect(progress.progress).toBeCloseTo(66.67, 1);
+    expect(progress.outlook).toBe('open');
+  });
+
+  test('should report passing and unreachable thresholds', () => {
+    expect(getThresholdProgress(proposal({ ayeVotes: 3, votesCast: 3 }), 5).outlook).toBe('passing');
+    expect(
+      getThresholdProgress(proposal({ decisionType: 'ConstitutionalUnanimous', ayeVotes: 2, nayVotes: 1, votesCast: 3 }), 5)
+        .outlook
+    ).toBe('failing');
+  });
+
+  test('should fall back to the stored threshold without an electorate', () => {
+    expect(getThresholdProgress(proposal({ threshold: 4, ayeVotes: 1 }), 0).required).toBe(4);
+  });
+});
+
+describe('getLegislationStages', () => {
+  test('should follow the proposal through voting to execution', () => {
+    const current = (p: CollectiveProposal, block: number) =>
+      getLegislationStages(p, block).find((stage) => stage.state === 'current')?.stage;
+
+    expect(current(proposal(), 150)).toBe('Proposed');
+    expect(current(proposal(), 250)).toBe('Voting');
+    expect(current(proposal(), 300)).toBe('Decided');
+    expect(current(proposal({ status: 'Executed' }), 250)).toBe('Executed');
+  });
+});
+
+describe('getTextCid', () => {
+  test('should only accept ipfs links with a valid CID', () => {
+    const cid = computeCid(new TextEncoder().encode('law'));
+
+    expect(getTextCid(`ipfs://${cid}`)).toBe(cid);
+    expect(getTextCid('ipfs://not-a-cid')).toBeNull();
+    expect(getTextCid('Plain description')).toBeNull();
+  });
+});
+
+describe('diffLines', () => {
+  test('should mark added and removed lines', () => {
+    expect(diffLines('Article 1\nArticle 2\nArticle 3', 'Article 1\nArticle 2a\nArticle 3\nArticle 4')).toEqual([
+      { type: 'same', text: 'Article 1' },
+      { type: 'removed', text: 'Article 2' },
+      { type: 'added', text: 'Article 2a' },
+      { type: 'same', text: 'Article 3' },
+      { type: 'added', text: 'Article 4' },
+    ]);
+  });
+});
+
+describe('findExecutionTransactions', () => {
+  test('should link executed proposals to their transaction and effects', () => {
+    const tx = {
+      hash: '0xexec',
+      block_number: 900,
+      section: 'welati',
+      method: 'executeProposal',
+      success: true,
+      events: [
+        { section: 'treasury', method: 'Awarded', data: [] },
+        { section: 'welati', method: 'ProposalExecuted', data: ['7'] },
+        { section: 'system', method: 'ExtrinsicSuccess', data: [] },
+      ],
+    } as unknown as IndexedTransaction;
+
+    expect(findExecutionTransactions([tx]).get(7)).toEqual({
+      txHash: '0xexec',
+      blockNumber: 900,
+      call: 'welati.executeProposal',
+      effects: ['treasury.Awarded'],
+    });
+  });
+});
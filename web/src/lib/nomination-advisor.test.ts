@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'vitest';
+import {
+  proposeNominations,
+  rankValidators,
+  reviewNominations,
+  type ValidatorCandidate,
+  type ValidatorMarket,
+} from '@pezkuwi/lib/nomination-advisor';
+import { ValidatorPoolCategory } from '@pezkuwi/lib/validator-pool';
+
+function candidate(address: string, overrides: Partial<ValidatorCandidate> = {}): ValidatorCandidate {
+  return {
+    address,
+    commission: 5,
+    blocked: false,
+    active: true,
+    totalStake: '1000',
+    ownStake: '100',
+    nominatorCount: 10,
+    eraPoints: [10, 10],
+    slashed: false,
+    category: null,
+    ...overrides,
+  };
+}
+
+function market(candidates: ValidatorCandidate[]): ValidatorMarket {
+  return {
+    activeEra: 2,
+    candidates,
+    eraTotalPoints: [100, 100],
+    eraPayouts: ['10000', '10000'],
+    erasPerYear: 365,
+    maxNominatorsRewarded: 64,
+  };
+}
+
+describe('rankValidators', () => {
+  test('should project APY from era points, payouts and commission', () => {
+    const [validator] = rankValidators(market([candidate('A')]));
+
+    // 10% of 10000 per era, 95% to nominators, over 1000 staked, 365 eras
+    expect(validator.apy).toBeCloseTo((1000 * 0.95 / 1000) * 365 * 100);
+    expect(validator.reliability).toBe(1);
+    expect(validator.eligible).toBe(true);
+  });
+
+  test('should flag and rank ineligible validators last', () => {
+    const ranked = rankValidators(market([
+      candidate('blocked', { blocked: true, eraPoints: [50, 50] }),
+      candidate('slashed', { slashed: true }),
+      candidate('full', { nominatorCount: 64 }),
+      candidate('greedy', { commission: 50 }),
+      candidate('idle', { eraPoints: [10, 0] }),
+      candidate('ok'),
+    ]));
+
+    expect(ranked[0].address).toBe('ok');
+    expect(ranked[1].address).toBe('idle');
+    expect(ranked.find((v) => v.address === 'blocked')?.flags).toEqual(['blocked']);
+    expect(ranked.find((v) => v.address === 'full')?.flags).toEqual(['oversubscribed']);
+    expect(ranked.find((v) => v.address === 'greedy')?.flags).toEqual(['high_commission']);
+  });
+
+  test('should penalize low self-stake without excluding it', () => {
+    const [low] = rankValidators(market([candidate('low', { ownStake: '1' })]));
+
+    expect(low.flags).toEqual(['low_self_stake']);
+    expect(low.eligible).toBe(true);
+    expect(low.score).toBeLessThan(low.apy);
+  });
+});
+
+describe('proposeNominations', () => {
+  test('should spread targets across pool categories', () => {
+    const ranked = rankValidators(market([
+      ...['s1', 's2', 's3'].map((a) => candidate(a, { category: ValidatorPoolCategory.StakeValidator, commission: 0 })),
+      candidate('m1', { category: ValidatorPoolCategory.MeritValidator, commission: 10 }),
+      candidate('inactive', { active: false }),
+    ]));
+
+    const proposal = proposeNominations(ranked, 2);
+
+    expect(proposal.targets.map((v) => v.address)).toEqual(['s1', 'm1']);
+    expect(proposal.projectedApy).toBeCloseTo((proposal.targets[0].apy + proposal.targets[1].apy) / 2);
+  });
+
+  test('should fill remaining slots by score', () => {
+    const ranked = rankValidators(market([
+      ...['s1', 's2', 's3'].map((a) => candidate(a, { category: ValidatorPoolCategory.StakeValidator })),
+      candidate('m1', { category: ValidatorPoolCategory.MeritValidator }),
+    ]));
+
+    expect(proposeNominations(ranked, 16).targets).toHaveLength(4);
+  });
+});
+
+describe('reviewNominations', () => {
+  test('should report inactive, blocked and removed targets', () => {
+    const ranked = rankValidators(market([
+      candidate('ok', { ownStake: '1' }),
+      candidate('blocked', { blocked: true }),
+      candidate('idle', { active: false }),
+    ]));
+
+    expect(reviewNominations(['ok', 'blocked', 'idle', 'gone'], ranked)).toEqual([
+      { address: 'blocked', flags: ['blocked'] },
+      { address: 'idle', flags: ['inactive'] },
+      { address: 'gone', flags: ['not_validator'] },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+// @vitest-environment node
+import { beforeAll, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Keyring } from '@polkadot/keyring';
+import { u8aToHex } from '@polkadot/util';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+
+// In-memory stand-in for the supabase tables the chat uses; `db.user` is
+// the signed-in user
+const db = vi.hoisted(() => ({
+  user: 'buyer',
+  tables: {} as Record<string, Record<string, unknown>[]>,
+}));
+
+vi.mock('@/lib/supabase', () => {
+  const from = (table: string) => {
+    const rows = () => (db.tables[table] ??= []);
+    const filters: [string, unknown][] = [];
+    let written: Record<string, unknown>[] | null = null;
+    const result = () => ({ data: written ?? rows().filter(row => filters.every(([k, v]) => row[k] === v)), error: null });
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push([column, value]), query),
+      order: () => query,
+      insert: (values: Record<string, unknown>) => {
+        written = [{ id: `${table}-${rows().length}`, created_at: new Date().toISOString(), ...values }];
+        rows().push(...written);
+        return query;
+      },
+      upsert: (values: Record<string, unknown>[]) => {
+        written = [values].flat();
+        rows().push(...written);
+        return query;
+      },
+      single: async () => ({ data: result().data[0], error: null }),
+      maybeSingle: async () => ({ data: result().data[0] ?? null, error: null }),
+      then: (resolve: (value: ReturnType<typeof result>) => void) => resolve(result()),
+    };
+    return query;
+  };
+
+  return {
+    supabase: {
+      from,
+      auth: { getUser: async () => ({ data: { user: { id: db.user } } }) },
+    },
+  };
+});
+
+import {
+  createChatIdentity,
+  createPartyKeyResolver,
+  decryptTradeMessage,
+  discloseChatToModerator,
+  getChatKeyMessage,
+  getModeratorKeyResolver,
+  getTradeMessages,
+  sendTradeMessage,
+  type ChatIdentity,
+  type P2PTradeMessageRow,
+} from '@pezkuwi/lib/p2p-chat';
+
+const TRADE = 'trade-1';
+const dispute = { id: 'dispute-1', trade_id: TRADE, assigned_moderator_id: 'moderator' };
+
+let buyer: ChatIdentity;
+let seller: ChatIdentity;
+let moderator: ChatIdentity;
+
+async function send(from: ChatIdentity, to: ChatIdentity, text: string): Promise<P2PTradeMessageRow> {
+  db.user = from === buyer ? 'buyer' : 'seller';
+  return sendTradeMessage({ tradeId: TRADE, identity: from, peerKey: to.publicKey, text });
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+});
+
+beforeEach(() => {
+  db.tables = {};
+  buyer = createChatIdentity('5Buyer');
+  seller = createChatIdentity('5Seller');
+  moderator = createChatIdentity('5Moderator');
+});
+
+describe('trade messages', () => {
+  test('should round-trip between buyer and seller without storing plaintext', async () => {
+    const question = await send(buyer, seller, 'Sent 500 TRY, reference PZK-42');
+    await send(seller, buyer, 'Received, releasing now');
+
+    const rows = await getTradeMessages(TRADE);
+    const asSeller = rows.map(row => decryptTradeMessage(row, createPartyKeyResolver(seller, TRADE)));
+    const asBuyer = rows.map(row => decryptTradeMessage(row, createPartyKeyResolver(buyer, TRADE)));
+
+    expect(question.ciphertext).not.toContain(u8aToHex(new TextEncoder().encode('PZK-42')).slice(2));
+    expect(asSeller.map(message => message.text)).toEqual(['Sent 500 TRY, reference PZK-42', 'Received, releasing now']);
+    expect(asBuyer).toEqual(asSeller);
+  });
+
+  test('should not decrypt with a wrong key, another trade or tampered ciphertext', async () => {
+    const row = await send(buyer, seller, 'IBAN TR00 0000');
+    const flipped = row.ciphertext.slice(-2) === '00' ? 'ff' : '00';
+    const tampered = { ...row, ciphertext: row.ciphertext.slice(0, -2) + flipped };
+    const intruder = createChatIdentity('5Intruder');
+    // Claims to be the seller's side of the conversation without its secret
+    const impostor = { ...intruder, publicKey: seller.publicKey };
+
+    expect(decryptTradeMessage(row, createPartyKeyResolver(intruder, TRADE)).decrypted).toBe(false);
+    expect(decryptTradeMessage(row, createPartyKeyResolver(impostor, TRADE)).decrypted).toBe(false);
+    expect(decryptTradeMessage(row, createPartyKeyResolver(seller, 'trade-2')).decrypted).toBe(false);
+    const opened = decryptTradeMessage(tampered, createPartyKeyResolver(seller, TRADE));
+    expect(opened.decrypted).toBe(false);
+    expect(opened).not.toHaveProperty('text');
+  });
+});
+
+describe('moderator access', () => {
+  function publishModeratorKey() {
+    const wallet = new Keyring({ type: 'sr25519' }).addFromUri('//Moderator');
+    moderator = { ...moderator, address: wallet.address };
+    db.tables.p2p_chat_keys = [{
+      user_id: 'moderator',
+      wallet_address: wallet.address,
+      public_key: moderator.publicKey,
+      signature: u8aToHex(wallet.sign(getChatKeyMessage(moderator.publicKey))),
+    }];
+  }
+
+  test('should decrypt only after a party disclosed the wrapped key', async () => {
+    publishModeratorKey();
+    await send(buyer, seller, 'Payment proof attached earlier');
+    const [row] = await getTradeMessages(TRADE);
+
+    const before = await getModeratorKeyResolver(TRADE, moderator);
+    expect(decryptTradeMessage(row, before).decrypted).toBe(false);
+
+    db.user = 'buyer';
+    expect(await discloseChatToModerator(dispute, buyer)).toBe(1);
+    expect(JSON.stringify(db.tables.p2p_chat_disclosures)).not.toContain('Payment proof');
+
+    const after = await getModeratorKeyResolver(TRADE, moderator);
+    const other = await getModeratorKeyResolver(TRADE, createChatIdentity('5OtherModerator'));
+    expect(decryptTradeMessage(row, after)).toMatchObject({ decrypted: true, text: 'Payment proof attached earlier' });
+    expect(decryptTradeMessage(row, other).decrypted).toBe(false);
+  });
+
+  test('should refuse to disclose to a moderator without a signed chat key', async () => {
+    const keyring = new Keyring({ type: 'sr25519' });
+    const impostor = keyring.addFromUri('//Impostor');
+    db.tables.p2p_chat_keys = [{
+      user_id: 'moderator',
+      wallet_address: keyring.addFromUri('//Moderator').address,
+      public_key: moderator.publicKey,
+      signature: u8aToHex(impostor.sign(getChatKeyMessage(moderator.publicKey))),
+    }];
+    await send(buyer, seller, 'Hello');
+
+    db.user = 'buyer';
+    await expect(discloseChatToModerator(dispute, buyer)).rejects.toThrow('has not set up a chat key');
+    expect(db.tables.p2p_chat_disclosures).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { findRewardClaimTransactions, formatBlocksRemaining } from '@pezkuwi/lib/pez-rewards';
+import type { IndexedTransaction } from '@pezkuwi/lib/transaction-history';
+
+const ALICE = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+
+function tx(overrides: Partial<IndexedTransaction>): IndexedTransaction {
+  return {
+    id: '1-1',
+    block_number: 1,
+    block_hash: '0xblock',
+    extrinsic_index: 1,
+    phase: 'apply_extrinsic',
+    hash: '0xhash',
+    section: 'pezRewards',
+    method: 'claimReward',
+    signer: ALICE,
+    success: true,
+    error: null,
+    fee: null,
+    args: [],
+    events: [],
+    transfers: [],
+    accounts: [ALICE],
+    assets: [],
+    block_time: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('findRewardClaimTransactions', () => {
+  test('should map claimed epochs to their transactions, including batches', () => {
+    const claims = findRewardClaimTransactions([
+      tx({
+        hash: '0xsingle',
+        block_number: 100,
+        events: [{ section: 'pezRewards', method: 'RewardClaimed', data: [ALICE, '2', '500'] }],
+      }),
+      tx({
+        hash: '0xbatch',
+        block_number: 200,
+        section: 'utility',
+        method: 'batchAll',
+        events: [
+          { section: 'pezRewards', method: 'RewardClaimed', data: [ALICE, '3', '100'] },
+          { section: 'pezRewards', method: 'RewardClaimed', data: [ALICE, '4', '100'] },
+          { section: 'utility', method: 'BatchCompleted', data: [] },
+        ],
+      }),
+    ]);
+
+    expect(claims.get(2)).toEqual({ txHash: '0xsingle', blockNumber: 100 });
+    expect(claims.get(4)).toEqual({ txHash: '0xbatch', blockNumber: 200 });
+    expect(claims.size).toBe(3);
+  });
+
+  test('should skip failed transactions', () => {
+    const claims = findRewardClaimTransactions([
+      tx({
+        success: false,
+        events: [{ section: 'pezRewards', method: 'RewardClaimed', data: [ALICE, '2', '500'] }],
+      }),
+    ]);
+
+    expect(claims.size).toBe(0);
+  });
+});
+
+describe('formatBlocksRemaining', () => {
+  test('should format 6s blocks as days, hours or minutes', () => {
+    expect(formatBlocksRemaining(3 * 14400 + 600)).toBe('3d 1h');
+    expect(formatBlocksRemaining(650)).toBe('1h 5m');
+    expect(formatBlocksRemaining(100)).toBe('10m');
+    expect(formatBlocksRemaining(-5)).toBe('0m');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import {
+  convertUsd,
+  deriveUsdPrices,
+  formatFiat,
+  getSpotPricesFromPools,
+} from '@pezkuwi/lib/prices';
+import type { PoolInfo } from '@pezkuwi/types/dex';
+
+const pool = (asset1: number, asset2: number, reserve1: string, reserve2: string): PoolInfo => ({
+  id: `${asset1}-${asset2}`,
+  asset1,
+  asset2,
+  asset1Symbol: '',
+  asset2Symbol: '',
+  asset1Decimals: 12,
+  asset2Decimals: 12,
+  reserve1,
+  reserve2,
+  lpTokenSupply: '0',
+});
+
+describe('deriveUsdPrices', () => {
+  test('should route prices through the shortest path to wUSDT', () => {
+    const prices = deriveUsdPrices([
+      { asset1: '0', asset2: '1000', price: 0.5 },
+      { asset1: '1', asset2: '0', price: 0.1 },
+      { asset1: '1000', asset2: '7', price: 4 },
+    ]);
+
+    expect(prices['1000']).toBe(1);
+    expect(prices['0']).toBe(0.5);
+    expect(prices['1']).toBeCloseTo(0.05);
+    expect(prices['7']).toBe(0.25);
+  });
+
+  test('should leave out assets without a route', () => {
+    expect(deriveUsdPrices([{ asset1: '5', asset2: '6', price: 2 }])).toEqual({ '1000': 1 });
+  });
+});
+
+describe('getSpotPricesFromPools', () => {
+  test('should use configured decimals and price HEZ as wHEZ', () => {
+    // 1,000 wHEZ against 500 wUSDT (6 decimals)
+    const prices = getSpotPricesFromPools([pool(0, 1000, '1000000000000000', '500000000')]);
+
+    expect(prices['0']).toBeCloseTo(0.5);
+    expect(prices.native).toBeCloseTo(0.5);
+  });
+
+  test('should skip empty pools', () => {
+    expect(getSpotPricesFromPools([pool(1, 1000, '0', '0')])['1']).toBeUndefined();
+  });
+});
+
+describe('fiat conversion', () => {
+  test('should convert with known rates only', () => {
+    expect(convertUsd(10, 'USD', {})).toBe(10);
+    expect(convertUsd(10, 'TRY', { TRY: 34 })).toBe(340);
+    expect(convertUsd(10, 'IQD', {})).toBeNull();
+  });
+
+  test('should format without minor units for IQD', () => {
+    expect(formatFiat(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatFiat(1310.4, 'IQD')).toMatch(/1,310$/);
+  });
+});
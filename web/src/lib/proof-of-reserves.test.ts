@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, test } from 'vitest';
+import { Keyring } from '@polkadot/keyring';
+import { u8aToHex, stringToU8a } from '@polkadot/util';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import type { KeyringPair } from '@polkadot/keyring/types';
+import {
+  createReserveAttestation,
+  decodeReserveAttestation,
+  getReserveAccountProof,
+  summarizeReserves,
+  verifyReserveAccountProof,
+  verifyReserveAttestation,
+  MAX_ATTESTATION_AGE_MS,
+  type ReserveAccountBalance,
+  type TrustedCustodian,
+} from '@pezkuwi/lib/proof-of-reserves';
+
+const ACCOUNTS: ReserveAccountBalance[] = [
+  { account: 'bank:acc-1', amount: '6000000000' },
+  { account: 'exchange:sub-1', amount: '3000000000' },
+  { account: '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY', amount: '1000000000' },
+];
+
+const NOW = 1_700_000_000_000;
+
+let custodian: KeyringPair;
+let custodians: TrustedCustodian[];
+
+const signer = (pair: KeyringPair) => async (message: string) => u8aToHex(pair.sign(stringToU8a(message)));
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+  custodian = new Keyring({ type: 'sr25519' }).addFromUri('//ReserveCustodian');
+  custodians = [{ name: 'Custodian A', address: custodian.address }];
+});
+
+describe('verifyReserveAttestation', () => {
+  test('should accept a fresh attestation from a trusted custodian', async () => {
+    const attestation = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), true, NOW);
+    const result = verifyReserveAttestation(attestation, custodians, { now: NOW + 1000 });
+
+    expect(attestation.amount).toBe('10000000000');
+    expect(result.valid).toBe(true);
+    expect(result.accountsValid).toBe(true);
+    expect(result.custodianName).toBe('Custodian A');
+  });
+
+  test('should reject tampered amounts and account lists', async () => {
+    const attestation = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), true, NOW);
+
+    const inflated = verifyReserveAttestation({ ...attestation, amount: '20000000000' }, custodians, { now: NOW });
+    expect(inflated.signatureValid).toBe(false);
+    expect(inflated.valid).toBe(false);
+
+    const accounts = [{ ...ACCOUNTS[0], amount: '1' }, ...ACCOUNTS.slice(1)];
+    const swapped = verifyReserveAttestation({ ...attestation, accounts }, custodians, { now: NOW });
+    expect(swapped.signatureValid).toBe(true);
+    expect(swapped.accountsValid).toBe(false);
+    expect(swapped.valid).toBe(false);
+  });
+
+  test('should reject stale attestations and untrusted custodians', async () => {
+    const attestation = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), false, NOW);
+
+    const stale = verifyReserveAttestation(attestation, custodians, { now: NOW + MAX_ATTESTATION_AGE_MS + 1 });
+    expect(stale.fresh).toBe(false);
+    expect(stale.valid).toBe(false);
+
+    const untrusted = verifyReserveAttestation(attestation, [], { now: NOW });
+    expect(untrusted.trusted).toBe(false);
+    expect(untrusted.accountsValid).toBeNull();
+  });
+});
+
+describe('reserve accounts', () => {
+  test('should prove inclusion of a single account against the root', async () => {
+    const attestation = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), false, NOW);
+    const path = getReserveAccountProof(ACCOUNTS, 2);
+
+    expect(verifyReserveAccountProof(ACCOUNTS[2], path, attestation.accountsRoot)).toBe(true);
+    expect(verifyReserveAccountProof({ ...ACCOUNTS[2], amount: '2000000000' }, path, attestation.accountsRoot)).toBe(false);
+  });
+});
+
+describe('summarizeReserves', () => {
+  test('should count only the latest valid attestation per custodian', async () => {
+    const older = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), true, NOW - 1000);
+    const latest = await createReserveAttestation(custodian.address, ACCOUNTS.slice(0, 1), signer(custodian), true, NOW);
+    const missing = { name: 'Custodian B', address: '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty' };
+
+    const summary = summarizeReserves(
+      [older, latest].map((a) => verifyReserveAttestation(a, [...custodians, missing], { now: NOW })),
+      [...custodians, missing]
+    );
+
+    expect(summary.totalReserve).toBe(6000);
+    expect(summary.counted).toHaveLength(1);
+    expect(summary.missingCustodians).toEqual([missing]);
+    expect(summary.oldestTimestamp).toBe(NOW);
+  });
+});
+
+describe('decodeReserveAttestation', () => {
+  test('should round-trip JSON and reject malformed input', async () => {
+    const attestation = await createReserveAttestation(custodian.address, ACCOUNTS, signer(custodian), true, NOW);
+
+    expect(decodeReserveAttestation(JSON.stringify(attestation))).toEqual(attestation);
+    expect(decodeReserveAttestation('{"scheme":"pezkuwi-por-v1"}')).toBeNull();
+    expect(decodeReserveAttestation('not json')).toBeNull();
+  });
+});
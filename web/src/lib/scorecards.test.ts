@@ -0,0 +1,165 @@
+import { describe, expect, test } from 'vitest';
+import { buildScorecard, findAppointedAt, type Representative, type ScorecardData } from '@pezkuwi/lib/scorecards';
+import type { AppointmentEvent } from '@pezkuwi/lib/appointments';
+import type { LegislationRecord } from '@pezkuwi/lib/legislation';
+import type { AppointmentProcess, CollectiveDecisionType, VoteChoice } from '@pezkuwi/lib/welati';
+
+const MP: Representative = {
+  account: 'MP',
+  officeId: 'parliament',
+  office: 'Member of Parliament',
+  body: 'parliament',
+  electedAt: 100,
+  termEndsAt: 10_000,
+  committees: [],
+  chainParticipation: null,
+};
+
+// The same account, also serving as finance minister since block 350
+const MINISTER: Representative = {
+  ...MP,
+  officeId: 'WezireDarayiye',
+  office: 'Minister of Finance',
+  body: 'executive',
+  electedAt: 350,
+  termEndsAt: 0,
+};
+
+function proposal(
+  proposalId: number,
+  proposedAt: number,
+  overrides: Partial<LegislationRecord> = {}
+): LegislationRecord {
+  return {
+    proposalId,
+    proposer: 'X',
+    title: `Proposal ${proposalId}`,
+    description: '',
+    proposedAt,
+    votingStartsAt: proposedAt,
+    expiresAt: proposedAt + 100,
+    decisionType: 'ParliamentSimpleMajority' as CollectiveDecisionType,
+    status: 'Approved',
+    ayeVotes: 0,
+    nayVotes: 0,
+    abstainVotes: 0,
+    threshold: 0,
+    votesCast: 0,
+    priority: 'Normal',
+    textCid: null,
+    execution: null,
+    ...overrides,
+  };
+}
+
+function data(proposals: LegislationRecord[], votes: [number, VoteChoice][], currentBlock = 2000): ScorecardData {
+  return {
+    representatives: [MP],
+    proposals,
+    votes: new Map(votes.map(([id, vote]) => [id, new Map([['MP', { vote, votedAt: id }]])])),
+    delegations: new Map([['MP', { delegators: 2, total: '500' }]]),
+    currentBlock,
+  };
+}
+
+describe('buildScorecard', () => {
+  test('should score participation and streaks over the term', () => {
+    const scorecard = buildScorecard(MP, data(
+      [
+        proposal(1, 50), // before the term
+        proposal(2, 200),
+        proposal(3, 300),
+        proposal(4, 400),
+        proposal(5, 500),
+        proposal(6, 600, { decisionType: 'ConstitutionalReview' }), // Diwan decides
+      ],
+      [[2, 'Aye'], [4, 'Nay'], [5, 'Abstain']]
+    ));
+
+    expect(scorecard.record.map((entry) => entry.proposalId)).toEqual([2, 3, 4, 5]);
+    expect(scorecard.participationRate).toBe(75);
+    expect(scorecard.participationHistory.map((point) => point.rate)).toEqual([100, 50, (2 / 3) * 100, 75]);
+    expect(scorecard.currentStreak).toBe(2);
+    expect(scorecard.longestStreak).toBe(2);
+    expect(scorecard.missed).toBe(1);
+    expect(scorecard.termBlocksRemaining).toBe(8000);
+    expect(scorecard.delegations.delegators).toBe(2);
+  });
+
+  test('should not count open proposals without a vote as missed', () => {
+    const scorecard = buildScorecard(MP, data(
+      [proposal(2, 200), proposal(3, 1950, { status: 'Active' })],
+      [[2, 'Aye']]
+    ));
+
+    expect(scorecard.record[1].pending).toBe(true);
+    expect(scorecard.participationRate).toBe(100);
+    expect(scorecard.currentStreak).toBe(1);
+  });
+});
+
+describe('scoring each office separately', () => {
+  test('should score a minister who is also an MP on cabinet decisions since the appointment', () => {
+    const scorecardData = data(
+      [
+        proposal(2, 200),
+        proposal(3, 300, { decisionType: 'ExecutiveDecision' }), // before the appointment
+        proposal(4, 400, { decisionType: 'ExecutiveDecision' }),
+        proposal(5, 500, { decisionType: 'ExecutiveDecision' }),
+      ],
+      [[2, 'Aye'], [3, 'Aye'], [4, 'Nay']]
+    );
+
+    const asMp = buildScorecard(MP, scorecardData);
+    const asMinister = buildScorecard(MINISTER, scorecardData);
+
+    expect(asMp.record.map((entry) => entry.proposalId)).toEqual([2]);
+    expect(asMinister.record.map((entry) => entry.proposalId)).toEqual([4, 5]);
+    expect(asMinister.participationRate).toBe(50);
+    expect(asMinister.termBlocksRemaining).toBeNull();
+  });
+});
+
+describe('findAppointedAt', () => {
+  const event = (kind: AppointmentEvent['kind'], account: string, role: string, blockNumber: number): AppointmentEvent => ({
+    kind,
+    account,
+    role,
+    blockNumber,
+    txHash: `0x${blockNumber}`,
+  });
+  const process = (processId: number, nominee: string, status: AppointmentProcess['status'], createdAt: number) => ({
+    processId,
+    nominee,
+    role: 'WezireDarayiye',
+    nominator: 'SEROK',
+    justification: '',
+    status,
+    createdAt,
+    deadline: createdAt + 100,
+  });
+
+  test('should take the latest appointment event for the account and role', () => {
+    const history = [
+      event('appointed', 'MP', 'WezireDarayiye', 900),
+      event('dismissed', 'MP', 'WezireDarayiye', 700),
+      event('appointed', 'MP', 'WezireParez', 650),
+      event('appointed', 'OTHER', 'WezireDarayiye', 600),
+      event('appointed', 'MP', 'WezireDarayiye', 400),
+    ];
+
+    expect(findAppointedAt('MP', 'WezireDarayiye', history, [process(1, 'MP', 'Approved', 300)])).toBe(900);
+  });
+
+  test('should fall back to the latest approved appointment process, else 0', () => {
+    const processes = [
+      process(1, 'MP', 'Approved', 300),
+      process(2, 'MP', 'Rejected', 500),
+      process(3, 'MP', 'Approved', 450),
+      process(4, 'OTHER', 'Approved', 800),
+    ];
+
+    expect(findAppointedAt('MP', 'WezireDarayiye', [], processes)).toBe(450);
+    expect(findAppointedAt('MP', 'WezireParez', [], processes)).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, expect, test } from 'vitest';
+import {
+  buildTransactionQueryString,
+  formatTransferAmount,
+  getIndexedAssetInfo,
+  getTransactionDirection,
+  type IndexedTransaction,
+  type IndexedTransfer,
+} from '@pezkuwi/lib/transaction-history';
+
+const ALICE = '5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY';
+const BOB = '5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty';
+
+const tx = (signer: string, transfers: IndexedTransfer[]): IndexedTransaction => ({
+  id: '100-1',
+  block_number: 100,
+  block_hash: '0x01',
+  extrinsic_index: 1,
+  phase: 'apply_extrinsic',
+  hash: '0x02',
+  section: 'balances',
+  method: 'transferKeepAlive',
+  signer,
+  success: true,
+  error: null,
+  fee: '1000',
+  args: [],
+  events: [],
+  transfers,
+  accounts: [signer, ...transfers.flatMap((t) => [t.from, t.to]).filter((a): a is string => !!a)],
+  assets: transfers.map((t) => t.asset),
+  block_time: '2026-01-01T00:00:00.000Z',
+});
+
+describe('buildTransactionQueryString', () => {
+  test('should skip empty filters', () => {
+    expect(buildTransactionQueryString({})).toBe('');
+    expect(buildTransactionQueryString({ account: ALICE, asset: 'native', cursor: null, pallet: '' }))
+      .toBe(`?account=${ALICE}&asset=native`);
+  });
+});
+
+describe('getTransactionDirection', () => {
+  test('should tell received, sent and internal transfers apart', () => {
+    const transfer = { asset: 'native' as const, from: BOB, to: ALICE, amount: '1' };
+
+    expect(getTransactionDirection(tx(BOB, [transfer]), ALICE)).toBe('in');
+    expect(getTransactionDirection(tx(BOB, [transfer]), BOB)).toBe('out');
+    expect(getTransactionDirection(tx(ALICE, [{ ...transfer, from: ALICE }]), ALICE)).toBe('self');
+  });
+
+  test('should treat signed calls without transfers as outgoing', () => {
+    expect(getTransactionDirection(tx(ALICE, []), ALICE)).toBe('out');
+  });
+});
+
+describe('indexed assets', () => {
+  test('should resolve native and configured assets', () => {
+    expect(getIndexedAssetInfo('native')).toEqual({ symbol: 'HEZ', decimals: 12 });
+    expect(getIndexedAssetInfo('1000')).toEqual({ symbol: 'wUSDT', decimals: 6 });
+    expect(getIndexedAssetInfo('777').symbol).toBe('Asset 777');
+    expect(formatTransferAmount({ asset: '1000', from: ALICE, to: BOB, amount: '2500000' })).toBe('2.5000 wUSDT');
+  });
+});
+
+describe('indexed addresses', () => {
+  test('should match accounts stored in another SS58 format', () => {
+    // ALICE in the Polkadot (0) format, as the indexer stores it on that chain
+    const aliceOnChain = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+    const transfer = { asset: 'native' as const, from: BOB, to: aliceOnChain, amount: '1' };
+
+    expect(getTransactionDirection(tx(BOB, [transfer]), ALICE)).toBe('in');
+  });
+});
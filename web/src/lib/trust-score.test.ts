@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'vitest';
+import { stringToHex } from '@polkadot/util';
+import {
+  MONTH_IN_BLOCKS,
+  buildTrustTimeline,
+  calculateReferralScore,
+  calculateStakingScore,
+  calculateTrustScore,
+  decodeTrustHistory,
+  estimateEpochReward,
+} from '@pezkuwi/lib/scores';
+
+describe('calculateStakingScore', () => {
+  test('should apply duration multipliers with integer math', () => {
+    expect(calculateStakingScore(50, 0)).toBe(20);
+    expect(calculateStakingScore(200, MONTH_IN_BLOCKS)).toBe(36);
+    // 20 x 1.4 is 27.999... in floating point
+    expect(calculateStakingScore(100, 3 * MONTH_IN_BLOCKS)).toBe(28);
+    expect(calculateStakingScore(500, 6 * MONTH_IN_BLOCKS)).toBe(68);
+  });
+
+  test('should cap at 100', () => {
+    expect(calculateStakingScore(1000, 12 * MONTH_IN_BLOCKS)).toBe(100);
+  });
+});
+
+describe('calculateReferralScore', () => {
+  test('should follow the referral tiers', () => {
+    expect(calculateReferralScore(0)).toBe(0);
+    expect(calculateReferralScore(5)).toBe(20);
+    expect(calculateReferralScore(10)).toBe(30);
+    expect(calculateReferralScore(21)).toBe(50);
+  });
+});
+
+describe('calculateTrustScore', () => {
+  test('should scale the weighted sum by the staking score', () => {
+    const result = calculateTrustScore({ staking: 28, referral: 20, perwerde: 10, tiki: 10 });
+
+    expect(result.weightedSum).toBe(28 * 100 + 40 * 300);
+    expect(result.total).toBe(Math.floor((28 * 14800) / 1000));
+  });
+
+  test('should be zero without a staking score', () => {
+    expect(calculateTrustScore({ staking: 0, referral: 50, perwerde: 100, tiki: 100 }).total).toBe(0);
+  });
+});
+
+describe('estimateEpochReward', () => {
+  test('should multiply the score by the reward per trust point', () => {
+    expect(estimateEpochReward(414, BigInt(1000))).toBe(BigInt(414000));
+    expect(estimateEpochReward(-5, BigInt(1000))).toBe(BigInt(0));
+  });
+});
+
+describe('decodeTrustHistory', () => {
+  test('should decode structs, tuples and reason encodings oldest first', () => {
+    const history = decodeTrustHistory([
+      [300, 120, stringToHex('Referral added')],
+      { blockNumber: 100, score: 40, reason: { StakingUpdated: null } },
+      { block: 200, score: 90, reason: 'perwerde_course_completed' },
+      [400, 110, 'Unknown'],
+    ]);
+
+    expect(history.map((entry) => entry.blockNumber)).toEqual([100, 200, 300, 400]);
+    expect(history.map((entry) => entry.component)).toEqual(['staking', 'perwerde', 'referral', 'other']);
+    expect(history.map((entry) => entry.change)).toEqual([40, 50, 30, -10]);
+    expect(history[2].reason).toBe('Referral added');
+  });
+
+  test('should ignore malformed entries', () => {
+    expect(decodeTrustHistory(null)).toEqual([]);
+    expect(decodeTrustHistory([{ reason: 'Staking' }])).toEqual([]);
+  });
+});
+
+describe('buildTrustTimeline', () => {
+  test('should keep running totals that sum to the score', () => {
+    const timeline = buildTrustTimeline(decodeTrustHistory([
+      [100, 40, 'Staking'],
+      [200, 90, 'TikiGranted'],
+      [300, 80, 'Staking'],
+    ]));
+
+    expect(timeline[2]).toEqual({ blockNumber: 300, score: 80, staking: 30, referral: 0, tiki: 50, perwerde: 0, other: 0 });
+  });
+});
@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, expect, test } from 'vitest';
+import {
+  isVaultEnvelope,
+  openVault,
+  readVault,
+  sealVault,
+  writeVault,
+  type VaultEnvelope,
+  type VaultStorage,
+} from '@pezkuwi/lib/vault';
+
+const SECRET = 'correct horse battery';
+
+const application = { fullName: 'Azad Rojhilati', email: 'azad@example.org', region: 'bakur' };
+
+function memoryStorage(): VaultStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+describe('sealVault / openVault', () => {
+  test('should round-trip data without storing it in the clear', async () => {
+    const sealed = await sealVault(application, SECRET);
+
+    expect(isVaultEnvelope(sealed)).toBe(true);
+    expect(sealed).not.toContain('azad@example.org');
+    expect(await openVault(sealed, SECRET)).toEqual({ data: application, legacy: false });
+  });
+
+  test('should reject a wrong secret and tampered ciphertext', async () => {
+    const sealed = await sealVault(application, SECRET);
+    const envelope: VaultEnvelope = JSON.parse(sealed);
+    const flipped = envelope.ct.slice(-2) === '00' ? 'ff' : '00';
+    const tampered = JSON.stringify({ ...envelope, ct: envelope.ct.slice(0, -2) + flipped });
+
+    await expect(openVault(sealed, 'wrong horse battery')).rejects.toThrow('wrong secret or corrupted data');
+    await expect(openVault(tampered, SECRET)).rejects.toThrow('wrong secret or corrupted data');
+    await expect(openVault(JSON.stringify({ ...envelope, v: 2 }), SECRET)).rejects.toThrow('Unsupported vault version: 2');
+  });
+
+  test('should refuse short secrets', async () => {
+    await expect(sealVault(application, 'short')).rejects.toThrow('at least 8 characters');
+  });
+});
+
+describe('readVault', () => {
+  test('should re-seal legacy base64 entries on first read', async () => {
+    const storage = memoryStorage();
+    storage.setItem('citizenship', btoa(JSON.stringify(application)));
+
+    const data = await readVault('citizenship', SECRET, storage);
+
+    expect(data).toEqual(application);
+    expect(isVaultEnvelope(storage.items.get('citizenship')!)).toBe(true);
+    expect(await openVault(storage.items.get('citizenship')!, SECRET)).toEqual({ data: application, legacy: false });
+  });
+
+  test('should return null when nothing is stored', async () => {
+    const storage = memoryStorage();
+    await writeVault('other', application, SECRET, storage);
+
+    expect(await readVault('citizenship', SECRET, storage)).toBeNull();
+    expect(await readVault('other', SECRET, storage)).toEqual(application);
+  });
+});
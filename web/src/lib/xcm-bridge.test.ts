@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+import type { ApiPromise } from '@polkadot/api';
+import {
+  formatXcmLocation,
+  trackXcmMessage,
+  usdtLocation,
+  versioned,
+  xcmAsset,
+  xcmLocation,
+} from '@pezkuwi/lib/xcm-bridge';
+
+describe('xcmLocation', () => {
+  test('should encode X1 as a bare junction in V3 and an array in V4', () => {
+    expect(xcmLocation(3, 1, [{ Parachain: 1000 }])).toEqual({ parents: 1, interior: { X1: { Parachain: 1000 } } });
+    expect(xcmLocation(4, 1, [{ Parachain: 1000 }])).toEqual({ parents: 1, interior: { X1: [{ Parachain: 1000 }] } });
+  });
+
+  test('should use Here for an empty interior', () => {
+    expect(xcmLocation(4, 1, [])).toEqual({ parents: 1, interior: 'Here' });
+  });
+});
+
+describe('usdtLocation', () => {
+  test('should locate USDT relative to Asset Hub and to a sibling', () => {
+    expect(usdtLocation(4, 'asset-hub')).toEqual({
+      parents: 0,
+      interior: { X2: [{ PalletInstance: 50 }, { GeneralIndex: 1984 }] },
+    });
+    expect(usdtLocation(4, 'sibling')).toEqual({
+      parents: 1,
+      interior: { X3: [{ Parachain: 1000 }, { PalletInstance: 50 }, { GeneralIndex: 1984 }] },
+    });
+  });
+});
+
+describe('xcmAsset', () => {
+  test('should wrap the asset id as Concrete only in V3', () => {
+    const location = usdtLocation(3, 'sibling');
+    expect(xcmAsset(3, location, '1000000')).toEqual({ id: { Concrete: location }, fun: { Fungible: '1000000' } });
+    expect(xcmAsset(4, location, '1000000')).toEqual({ id: location, fun: { Fungible: '1000000' } });
+  });
+
+  test('should version values by key', () => {
+    expect(versioned(4, 'x')).toEqual({ V4: 'x' });
+  });
+});
+
+describe('formatXcmLocation', () => {
+  test('should format V3 and V4 junctions', () => {
+    expect(formatXcmLocation(usdtLocation(4, 'sibling'))).toBe('RelayChain → Para(1000) → Pallet(50) → Asset(1984)');
+    expect(formatXcmLocation(xcmLocation(3, 1, [{ Parachain: 2000 }]))).toBe('RelayChain → Para(2000)');
+  });
+});
+
+describe('trackXcmMessage', () => {
+  const MESSAGE_ID = '0xabc1';
+
+  // Destination chain whose finalized-head notifications jump from `heads[i]`
+  // to `heads[i + 1]`; `events[n]` are the events of block n
+  function createDestApi(heads: number[], events: Record<number, { section: string; method: string; data: string[] }[]>) {
+    const scanned: number[] = [];
+    const api = {
+      rpc: {
+        chain: {
+          getBlockHash: async (n: number) => ({ toHex: () => `0xblock${n}` }),
+          subscribeFinalizedHeads: async (callback: (header: { number: { toNumber: () => number } }) => void) => {
+            for (const head of heads) callback({ number: { toNumber: () => head } });
+            return () => {};
+          },
+        },
+      },
+      at: async (blockHash: string) => {
+        const n = Number(blockHash.slice('0xblock'.length));
+        scanned.push(n);
+        return {
+          query: {
+            system: {
+              events: async () =>
+                (events[n] ?? []).map((event) => ({
+                  event: { ...event, data: event.data.map((value) => ({ toString: () => value })) },
+                })),
+            },
+          },
+        };
+      },
+    };
+    return { api: api as unknown as ApiPromise, scanned };
+  }
+
+  test('should find the delivery in a block the finalized heads skipped', async () => {
+    const { api, scanned } = createDestApi([10, 13], {
+      12: [{ section: 'messageQueue', method: 'Processed', data: [MESSAGE_ID, 'Parent', '0', 'true'] }],
+    });
+
+    await expect(trackXcmMessage(api, { messageId: MESSAGE_ID }, 1000)).resolves.toEqual({
+      success: true,
+      blockHash: '0xblock12',
+    });
+    expect(scanned).toEqual([10, 11, 12]);
+  });
+
+  test('should report a failed execution and ignore other messages', async () => {
+    const { api } = createDestApi([20, 22], {
+      21: [{ section: 'messageQueue', method: 'Processed', data: ['0xother', 'Parent', '0', 'true'] }],
+      22: [{ section: 'messageQueue', method: 'ProcessingFailed', data: [MESSAGE_ID, 'Parent', 'Overweight'] }],
+    });
+
+    await expect(trackXcmMessage(api, { messageId: MESSAGE_ID }, 1000)).resolves.toEqual({
+      success: false,
+      blockHash: '0xblock22',
+    });
+  });
+});
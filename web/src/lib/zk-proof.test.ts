@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, test } from 'vitest';
+import { Keyring } from '@polkadot/keyring';
+import type { KeyringPair } from '@polkadot/keyring/types';
+import { hexToU8a, u8aToHex } from '@polkadot/util';
+import { cryptoWaitReady } from '@polkadot/util-crypto';
+import {
+  buildCitizenRegistry,
+  createIdentityProof,
+  getRegistryMembership,
+  issueCredential,
+  verifyCredential,
+  verifyIdentityProof,
+  type IdentityCredential,
+  type ProofRequest,
+  type ProofTrust,
+} from '@pezkuwi/lib/zk-proof';
+
+let council: KeyringPair;
+let citizen: KeyringPair;
+let thief: KeyringPair;
+
+const signer = (pair: KeyringPair) => async (message: string) => u8aToHex(pair.sign(hexToU8a(message)));
+
+function setup(issuer = council) {
+  const credential = issueCredential({ citizen: 'true', ageOver18: 'true', region: 'rojava' }, citizen.address, issuer);
+  const other = issueCredential({ citizen: 'true' }, thief.address, council);
+  const registry = buildCitizenRegistry([credential.root, other.root]);
+  const trust: ProofTrust = { registryRoots: [registry.root], issuers: [council.address] };
+  return { credential, registry, trust, membership: getRegistryMembership(registry, credential.root) };
+}
+
+function request(challenge = '0x01'): ProofRequest {
+  return { predicates: [{ claim: 'citizen' }, { claim: 'region', equals: 'rojava' }], challenge };
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+  const keyring = new Keyring({ type: 'ed25519' });
+  council = keyring.addFromUri('//KycCouncil');
+  citizen = keyring.addFromUri('//Citizen');
+  thief = keyring.addFromUri('//Thief');
+});
+
+describe('credentials', () => {
+  test('should accept only intact credentials from a trusted issuer', () => {
+    const { credential } = setup();
+    const selfIssued = issueCredential({ citizen: 'true' }, citizen.address, citizen);
+    const tampered: IdentityCredential = { ...credential, claims: { ...credential.claims, region: 'bakur' } };
+
+    expect(verifyCredential(credential, [council.address])).toBe(true);
+    expect(verifyCredential(selfIssued, [council.address])).toBe(false);
+    expect(verifyCredential(tampered, [council.address])).toBe(false);
+    expect(verifyCredential({ ...credential, holder: thief.address }, [council.address])).toBe(false);
+  });
+});
+
+describe('identity proofs', () => {
+  test('should verify a holder-signed proof revealing only the requested claims', async () => {
+    const { credential, registry, membership, trust } = setup();
+
+    const proof = await createIdentityProof(credential, registry.root, membership, request(), signer(citizen));
+
+    expect(verifyIdentityProof(proof, request(), trust)).toEqual({ valid: true });
+    expect(proof.disclosures.map(d => d.claim)).toEqual(['citizen', 'region']);
+  });
+
+  test('should not replay a proof against a new challenge', async () => {
+    const { credential, registry, membership, trust } = setup();
+    const proof = await createIdentityProof(credential, registry.root, membership, request('0x01'), signer(citizen));
+
+    const replayed = { ...proof, challenge: '0x02' };
+
+    expect(verifyIdentityProof(replayed, request('0x02'), trust)).toEqual({
+      valid: false,
+      reason: 'Invalid holder signature',
+    });
+  });
+
+  test('should reject proofs signed by someone other than the holder', async () => {
+    const { credential, registry, membership, trust } = setup();
+
+    const stolen = await createIdentityProof(credential, registry.root, membership, request(), signer(thief));
+    const reassigned = { ...stolen, holder: thief.address };
+
+    expect(verifyIdentityProof(stolen, request(), trust).reason).toBe('Invalid holder signature');
+    expect(verifyIdentityProof(reassigned, request(), trust).reason).toBe('Invalid issuer signature');
+  });
+
+  test('should reject credentials from untrusted issuers', async () => {
+    const { credential, registry, membership, trust } = setup(citizen);
+
+    const proof = await createIdentityProof(credential, registry.root, membership, request(), signer(citizen));
+
+    expect(verifyIdentityProof(proof, request(), trust).reason).toBe('Credential issuer is not trusted');
+  });
+
+  test('should refuse to prove predicates the credential does not satisfy', async () => {
+    const { credential, registry, membership } = setup();
+
+    await expect(
+      createIdentityProof(
+        credential,
+        registry.root,
+        membership,
+        { predicates: [{ claim: 'region', equals: 'bakur' }], challenge: '0x01' },
+        signer(citizen)
+      )
+    ).rejects.toThrow('Credential does not satisfy predicate: region');
+  });
+});
@@ -18,7 +18,6 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   Vote,
   Users,
-  Trophy,
   Clock,
   FileText,
   CheckCircle2,
@@ -31,9 +30,9 @@ import {
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { toast } from '@/components/ui/use-toast';
 import { LoadingState } from '@pezkuwi/components/AsyncComponent';
+import { ElectionResultsPanel } from '@/components/governance/ElectionResultsPanel';
 import {
   getActiveElections,
-  getElectionCandidates,
   getActiveProposals,
   getCurrentOfficials,
   getCurrentMinisters,
@@ -44,7 +43,6 @@ import {
   getRemainingBlocks,
   type ElectionInfo,
   type CollectiveProposal,
-  type CandidateInfo,
 } from '@pezkuwi/lib/welati';
 // import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
 // import { web3FromAddress } from '@polkadot/extension-dapp';
@@ -138,7 +136,7 @@ export default function Elections() {
           ) : (
             <div className="grid gap-6">
               {elections.map((election) => (
-                <ElectionCard key={election.electionId} election={election} api={api} />
+                <ElectionCard key={election.electionId} election={election} />
               ))}
             </div>
           )}
@@ -175,35 +173,10 @@ export default function Elections() {
 // ELECTION CARD
 // ============================================================================
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function ElectionCard({ election, api }: { election: ElectionInfo; api: any }) {
-  const [candidates, setCandidates] = useState<CandidateInfo[]>([]);
-  const [timeLeft, setTimeLeft] = useState<string | null>(null);
-
+function ElectionCard({ election }: { election: ElectionInfo }) {
   const typeLabel = getElectionTypeLabel(election.electionType);
   const statusLabel = getElectionStatusLabel(election.status);
 
-  useEffect(() => {
-    if (!api) return;
-
-    // Load candidates
-    getElectionCandidates(api, election.electionId).then(setCandidates);
-
-    // Update time left
-    const updateTime = async () => {
-      let targetBlock = election.votingEndBlock;
-      if (election.status === 'CandidacyPeriod') targetBlock = election.candidacyEndBlock;
-      else if (election.status === 'CampaignPeriod') targetBlock = election.campaignEndBlock;
-
-      const remaining = await getRemainingBlocks(api, targetBlock);
-      setTimeLeft(blocksToTime(remaining));
-    };
-
-    updateTime();
-    const interval = setInterval(updateTime, 10000);
-    return () => clearInterval(interval);
-  }, [api, election]);
-
   return (
     <Card className="bg-gray-900 border-gray-800">
       <CardHeader>
@@ -219,7 +192,7 @@ function ElectionCard({ election, api }: { election: ElectionInfo; api: any }) {
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Stats */}
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-2 gap-4">
           <div className="bg-gray-800/50 rounded-lg p-4">
             <div className="flex items-center gap-2 text-gray-400 mb-1">
               <Users className="w-4 h-4" />
@@ -234,46 +207,10 @@ function ElectionCard({ election, api }: { election: ElectionInfo; api: any }) {
             </div>
             <div className="text-2xl font-bold text-white">{election.totalVotes.toLocaleString()}</div>
           </div>
-          <div className="bg-gray-800/50 rounded-lg p-4">
-            <div className="flex items-center gap-2 text-gray-400 mb-1">
-              <Clock className="w-4 h-4" />
-              <span className="text-sm">Time Left</span>
-            </div>
-            <div className="text-lg font-bold text-white">
-              {timeLeft ? `${timeLeft.days}d ${timeLeft.hours}h` : '-'}
-            </div>
-          </div>
         </div>
 
-        {/* Top Candidates */}
-        {candidates.length > 0 && (
-          <div>
-            <h4 className="text-sm font-medium text-gray-400 mb-3">Leading Candidates</h4>
-            <div className="space-y-2">
-              {candidates.slice(0, 5).map((candidate, idx) => (
-                <div
-                  key={candidate.account}
-                  className="flex items-center justify-between p-3 bg-gray-800/30 rounded-lg"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 rounded-full bg-green-500/10 border border-green-500/30 flex items-center justify-center">
-                      <span className="text-green-400 font-bold text-sm">#{idx + 1}</span>
-                    </div>
-                    <div>
-                      <div className="text-white text-sm font-medium">
-                        {candidate.account.slice(0, 12)}...{candidate.account.slice(-8)}
-                      </div>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Trophy className="w-4 h-4 text-yellow-500" />
-                    <span className="text-white font-bold">{candidate.voteCount.toLocaleString()}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
+        {/* Timeline, Tallies & Export */}
+        <ElectionResultsPanel election={election} />
 
         {/* Actions */}
         <div className="flex gap-3">
@@ -4,18 +4,11 @@ import { ArrowLeft, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ReservesDashboard } from '@/components/ReservesDashboard';
 import { USDTBridge } from '@/components/USDTBridge';
-
-// USDT Treasury Multisig Member Addresses
-const SPECIFIC_ADDRESSES = {
-  // Non-unique roles - manually specified
-  Noter: '5DFwqK698vL4gXHEcanaewnAqhxJ2rjhAogpSTHw3iwGDwd3',
-  Berdevk: '5F4V6dzpe72dE2C7YN3y7VGznMTWPFeSKL3ANhp4XasXjfvj',
-};
+import { USDT_MULTISIG_SPECIFIC_ADDRESSES } from '@pezkuwi/lib/multisig';
 
 const ReservesDashboardPage = () => {
   const navigate = useNavigate();
   const [isBridgeOpen, setIsBridgeOpen] = useState(false);
-  const [offChainReserve] = useState(10000); // Example: $10,000 USDT
 
   return (
     <div className="min-h-screen bg-gray-950 pt-24 pb-12">
@@ -41,16 +34,13 @@ const ReservesDashboardPage = () => {
         </div>
 
         {/* Main Content */}
-        <ReservesDashboard
-          specificAddresses={SPECIFIC_ADDRESSES}
-          offChainReserveAmount={offChainReserve}
-        />
+        <ReservesDashboard specificAddresses={USDT_MULTISIG_SPECIFIC_ADDRESSES} />
 
         {/* Bridge Modal */}
         <USDTBridge
           isOpen={isBridgeOpen}
           onClose={() => setIsBridgeOpen(false)}
-          specificAddresses={SPECIFIC_ADDRESSES}
+          specificAddresses={USDT_MULTISIG_SPECIFIC_ADDRESSES}
         />
       </div>
     </div>
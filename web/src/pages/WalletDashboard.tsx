@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { usePolkadot } from '@/contexts/PolkadotContext';
 import { AccountBalance } from '@/components/AccountBalance';
@@ -8,222 +8,46 @@ import { TransactionHistory } from '@/components/TransactionHistory';
 import { NftList } from '@/components/NftList';
 import { Button } from '@/components/ui/button';
 import { ArrowUpRight, ArrowDownRight, History, ArrowLeft, RefreshCw } from 'lucide-react';
-
-interface Transaction {
-  blockNumber: number;
-  extrinsicIndex: number;
-  hash: string;
-  method: string;
-  section: string;
-  from: string;
-  to?: string;
-  amount?: string;
-  success: boolean;
-  timestamp?: number;
-}
+import {
+  getTransactions,
+  getAccountTransfers,
+  getTransactionDirection,
+  formatTransferAmount,
+  type IndexedTransaction,
+} from '@pezkuwi/lib/transaction-history';
 
 const WalletDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const { selectedAccount } = usePolkadot();
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
   const [isReceiveModalOpen, setIsReceiveModalOpen] = useState(false);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
-  const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
+  const [recentTransactions, setRecentTransactions] = useState<IndexedTransaction[]>([]);
   const [isLoadingRecent, setIsLoadingRecent] = useState(false);
 
-  // Fetch recent transactions
-  const fetchRecentTransactions = async () => {
-    if (!api || !isApiReady || !selectedAccount) return;
+  const address = selectedAccount?.address;
+
+  // Fetch recent transactions from the indexer
+  const fetchRecentTransactions = useCallback(async () => {
+    if (!address) return;
 
     setIsLoadingRecent(true);
     try {
-      const currentBlock = await api.rpc.chain.getBlock();
-      const currentBlockNumber = currentBlock.block.header.number.toNumber();
-
-      const txList: Transaction[] = [];
-      const blocksToCheck = Math.min(100, currentBlockNumber);
-
-      for (let i = 0; i < blocksToCheck && txList.length < 5; i++) {
-        const blockNumber = currentBlockNumber - i;
-
-        try {
-          const blockHash = await api.rpc.chain.getBlockHash(blockNumber);
-          const block = await api.rpc.chain.getBlock(blockHash);
-
-          let timestamp = 0;
-          try {
-            const ts = await api.query.timestamp.now.at(blockHash);
-            timestamp = ts.toNumber();
-          } catch {
-            timestamp = Date.now();
-          }
-
-          block.block.extrinsics.forEach((extrinsic, /*index*/) => {
-            if (!extrinsic.isSigned) return;
-
-            const { method, signer } = extrinsic;
-            const fromAddress = signer.toString();
-            const isFromOurAccount = fromAddress === selectedAccount.address;
-
-            // Only track this account's transactions
-            if (!isFromOurAccount) return;
-
-            // Parse balances.transfer
-            if (method.section === 'balances' &&
-                (method.method === 'transfer' || method.method === 'transferKeepAlive')) {
-              const [dest, value] = method.args;
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: method.method,
-                section: method.section,
-                from: fromAddress,
-                to: dest.toString(),
-                amount: value.toString(),
-                success: true,
-                timestamp: timestamp,
-              });
-            }
-
-            // Parse assets.transfer
-            else if (method.section === 'assets' && method.method === 'transfer') {
-              const [assetId, dest, value] = method.args;
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: `${method.method} (Asset ${assetId.toString()})`,
-                section: method.section,
-                from: fromAddress,
-                to: dest.toString(),
-                amount: value.toString(),
-                success: true,
-                timestamp: timestamp,
-              });
-            }
-
-            // Parse staking operations
-            else if (method.section === 'staking') {
-              if (method.method === 'bond' || method.method === 'bondExtra') {
-                const value = method.args[method.method === 'bond' ? 1 : 0];
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: value.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'unbond') {
-                const [value] = method.args;
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: value.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'nominate' || method.method === 'withdrawUnbonded' || method.method === 'chill') {
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  success: true,
-                  timestamp: timestamp,
-                });
-              }
-            }
-
-            // Parse DEX operations
-            else if (method.section === 'dex') {
-              if (method.method === 'swap') {
-                const [/*path*/, amountIn] = method.args;
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  amount: amountIn.toString(),
-                  success: true,
-                  timestamp: timestamp,
-                });
-              } else if (method.method === 'addLiquidity' || method.method === 'removeLiquidity') {
-                txList.push({
-                  blockNumber,
-                  extrinsicIndex: index,
-                  hash: extrinsic.hash.toHex(),
-                  method: method.method,
-                  section: method.section,
-                  from: fromAddress,
-                  success: true,
-                  timestamp: timestamp,
-                });
-              }
-            }
-
-            // Parse stakingScore & pezRewards
-            else if ((method.section === 'stakingScore' && method.method === 'startTracking') ||
-                     (method.section === 'pezRewards' && method.method === 'claimReward')) {
-              txList.push({
-                blockNumber,
-                extrinsicIndex: index,
-                hash: extrinsic.hash.toHex(),
-                method: method.method,
-                section: method.section,
-                from: fromAddress,
-                success: true,
-                timestamp: timestamp,
-              });
-            }
-          });
-        } catch {
-          // Continue to next block
-        }
-      }
-
-      setRecentTransactions(txList);
-    } catch {
+      const { transactions } = await getTransactions({ account: address, limit: 5 });
+      setRecentTransactions(transactions);
+    } catch (error) {
       if (import.meta.env.DEV) console.error('Failed to fetch recent transactions:', error);
     } finally {
       setIsLoadingRecent(false);
     }
-  };
+  }, [address]);
 
   useEffect(() => {
-    if (selectedAccount && api && isApiReady) {
-      fetchRecentTransactions();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedAccount, api, isApiReady]);
+    fetchRecentTransactions();
+  }, [fetchRecentTransactions]);
 
-  const formatAmount = (amount: string, decimals: number = 12) => {
-    const value = parseInt(amount) / Math.pow(10, decimals);
-    return value.toFixed(4);
-  };
-
-  /*
-  const formatTimestamp = (timestamp?: number) => {
-    if (!timestamp) return 'Unknown';
-    const date = new Date(timestamp);
-    return date.toLocaleString();
-  };
-  */
-
-  const isIncoming = (tx: Transaction) => {
-    return tx.to === selectedAccount?.address;
+  const isIncoming = (tx: IndexedTransaction) => {
+    return getTransactionDirection(tx, address!) === 'in';
   };
 
   if (!selectedAccount) {
@@ -318,9 +142,9 @@ const WalletDashboard: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {recentTransactions.map((tx, /*index*/) => (
+                  {recentTransactions.map((tx) => (
                     <div
-                      key={`${tx.blockNumber}-${tx.extrinsicIndex}`}
+                      key={tx.id}
                       className="bg-gray-800/50 border border-gray-700 rounded-lg p-3 hover:bg-gray-800 transition-colors"
                     >
                       <div className="flex items-center justify-between">
@@ -339,14 +163,16 @@ const WalletDashboard: React.FC = () => {
                               {isIncoming(tx) ? 'Received' : 'Sent'}
                             </div>
                             <div className="text-xs text-gray-400">
-                              Block #{tx.blockNumber}
+                              Block #{tx.block_number}
                             </div>
                           </div>
                         </div>
                         <div className="text-right">
-                          <div className="text-white font-mono text-sm">
-                            {isIncoming(tx) ? '+' : '-'}{formatAmount(tx.amount || '0')}
-                          </div>
+                          {getAccountTransfers(tx, address!).slice(0, 1).map((transfer, i) => (
+                            <div key={i} className="text-white font-mono text-sm">
+                              {isIncoming(tx) ? '+' : '-'}{formatTransferAmount(transfer)}
+                            </div>
+                          ))}
                           <div className="text-xs text-gray-400">
                             {tx.section}.{tx.method}
                           </div>
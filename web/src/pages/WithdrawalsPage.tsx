@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { WithdrawalProgress } from '@/components/withdrawals/WithdrawalProgress';
+import { WithdrawalQueue } from '@/components/withdrawals/WithdrawalQueue';
+import { isMultisigMember, USDT_MULTISIG_SPECIFIC_ADDRESSES } from '@pezkuwi/lib/multisig';
+import {
+  getMyWithdrawals,
+  subscribeToMyWithdrawals,
+  verifyWithdrawalBurn,
+  type WUSDTWithdrawal,
+} from '@pezkuwi/lib/usdt-withdrawals';
+
+const WithdrawalsPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+  const [withdrawals, setWithdrawals] = useState<WUSDTWithdrawal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [isMember, setIsMember] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const userId = user?.id;
+
+  // Tick once a second for the unlock countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    getMyWithdrawals()
+      .then(setWithdrawals)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load withdrawals:', error);
+        toast.error('Failed to load withdrawals');
+      })
+      .finally(() => setLoading(false));
+
+    return subscribeToMyWithdrawals(userId, (updated) => {
+      setWithdrawals((prev) => {
+        const exists = prev.some((w) => w.id === updated.id);
+        return exists ? prev.map((w) => (w.id === updated.id ? updated : w)) : [updated, ...prev];
+      });
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!api || !isApiReady || !selectedAccount) return;
+    isMultisigMember(api, selectedAccount.address, USDT_MULTISIG_SPECIFIC_ADDRESSES)
+      .then(setIsMember)
+      .catch(() => setIsMember(false));
+  }, [api, isApiReady, selectedAccount]);
+
+  const handleVerify = async (withdrawal: WUSDTWithdrawal) => {
+    setVerifyingId(withdrawal.id);
+    try {
+      const updated = await verifyWithdrawalBurn(withdrawal.id);
+      setWithdrawals((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+      toast.success('Burn verified, withdrawal queued');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Burn verification failed');
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const myWithdrawals = (
+    <div className="space-y-4">
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : withdrawals.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No withdrawals yet. Burn wUSDT from the bridge to request one.
+        </p>
+      ) : (
+        withdrawals.map((withdrawal) => (
+          <Card key={withdrawal.id} className="p-4 bg-gray-800/50 border-gray-700 space-y-3">
+            <WithdrawalProgress withdrawal={withdrawal} now={now} />
+            {withdrawal.status === 'awaiting_burn' && withdrawal.burn_tx_hash && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={verifyingId === withdrawal.id}
+                onClick={() => handleVerify(withdrawal)}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${verifyingId === withdrawal.id ? 'animate-spin' : ''}`} />
+                Retry burn verification
+              </Button>
+            )}
+            <p className="text-xs text-gray-600">
+              Requested {new Date(withdrawal.created_at).toLocaleString()}
+            </p>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-950 pt-24 pb-12">
+      <div className="container mx-auto px-4 py-8 relative max-w-3xl">
+        <button
+          onClick={() => navigate('/reserves')}
+          className="absolute top-4 left-4 text-gray-400 hover:text-white transition-colors flex items-center gap-2"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Reserves</span>
+        </button>
+
+        <h1 className="text-2xl font-bold text-white mt-8 mb-6">wUSDT Withdrawals</h1>
+
+        {isMember ? (
+          <Tabs defaultValue="mine">
+            <TabsList className="mb-4">
+              <TabsTrigger value="mine">My Withdrawals</TabsTrigger>
+              <TabsTrigger value="queue">Payout Queue</TabsTrigger>
+            </TabsList>
+            <TabsContent value="mine">{myWithdrawals}</TabsContent>
+            <TabsContent value="queue">
+              <WithdrawalQueue now={now} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          myWithdrawals
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WithdrawalsPage;
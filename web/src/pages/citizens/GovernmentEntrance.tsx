@@ -21,9 +21,11 @@ import {
   CheckCircle2,
   XCircle,
   Clock,
-  Shield
+  Shield,
+  Briefcase
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { AppointmentWorkflow } from '@/components/governance/AppointmentWorkflow';
 
 interface LegislationProposal {
   id: number;
@@ -581,7 +583,7 @@ export default function GovernmentEntrance() {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-6 bg-white/90 backdrop-blur">
+          <TabsList className="grid w-full grid-cols-4 mb-6 bg-white/90 backdrop-blur">
             <TabsTrigger value="legislation" className="text-lg font-semibold text-gray-800 hover:text-gray-900 hover:bg-gray-100 data-[state=active]:bg-green-600 data-[state=active]:text-white data-[state=active]:hover:bg-green-700">
               <FileText className="h-5 w-5 mr-2" />
               Yasalar (Legislation)
@@ -594,6 +596,10 @@ export default function GovernmentEntrance() {
               <Crown className="h-5 w-5 mr-2" />
               Serok (President)
             </TabsTrigger>
+            <TabsTrigger value="government" className="text-lg font-semibold text-gray-800 hover:text-gray-900 hover:bg-gray-100 data-[state=active]:bg-red-600 data-[state=active]:text-white data-[state=active]:hover:bg-red-700">
+              <Briefcase className="h-5 w-5 mr-2" />
+              Hikûmet (Government)
+            </TabsTrigger>
           </TabsList>
 
           {/* TAB 1: LEGISLATION */}
@@ -783,6 +789,11 @@ export default function GovernmentEntrance() {
               )}
             </div>
           </TabsContent>
+
+          {/* TAB 4: GOVERNMENT */}
+          <TabsContent value="government" className="space-y-6">
+            <AppointmentWorkflow />
+          </TabsContent>
         </Tabs>
 
         {/* Access Verification Modal */}
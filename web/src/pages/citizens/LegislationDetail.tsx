@@ -0,0 +1,388 @@
+/**
+ * Legislation Detail Page
+ *
+ * Full text from IPFS with amendment diffs, lifecycle, live threshold
+ * progress, per-member vote record and the execution link for enacted laws.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { web3FromAddress } from '@polkadot/extension-dapp';
+import { AlertCircle, ArrowLeft, CheckCircle2, ExternalLink, GitCompare, Loader2, XCircle } from 'lucide-react';
+import { LoadingState } from '@pezkuwi/components/AsyncComponent';
+import {
+  DECISION_TYPE_LABELS,
+  diffLines,
+  getAmendmentHistory,
+  getDecisionMembers,
+  getLegislationById,
+  getLegislationStages,
+  getProposalVotes,
+  getThresholdProgress,
+  withExecutionRecords,
+  type LegislationRecord,
+  type LegislationVersion,
+  type MemberVote,
+} from '@pezkuwi/lib/legislation';
+import { getCurrentBlock, type VoteChoice } from '@pezkuwi/lib/welati';
+import { getIPFSUrl } from '@pezkuwi/lib/ipfs';
+import { getExplorerTxUrl } from '@pezkuwi/lib/wallet';
+import { handleBlockchainError, handleBlockchainSuccess } from '@pezkuwi/lib/error-handler';
+import { ThresholdProgressBar } from '@/components/legislation/ThresholdProgressBar';
+import { ProposeLegislationDialog } from '@/components/legislation/ProposeLegislationDialog';
+
+const VOTE_STYLES: Record<VoteChoice, string> = {
+  Aye: 'bg-green-500/10 text-green-400 border-green-500/30',
+  Nay: 'bg-red-500/10 text-red-400 border-red-500/30',
+  Abstain: 'bg-gray-500/10 text-gray-400 border-gray-500/30',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+export default function LegislationDetail() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { api, isApiReady, selectedAccount } = usePolkadot();
+
+  const [record, setRecord] = useState<LegislationRecord | null>(null);
+  const [members, setMembers] = useState<string[]>([]);
+  const [votes, setVotes] = useState<MemberVote[]>([]);
+  const [currentBlock, setCurrentBlock] = useState(0);
+  const [versions, setVersions] = useState<LegislationVersion[]>([]);
+  const [textError, setTextError] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [voting, setVoting] = useState(false);
+  const [showAmend, setShowAmend] = useState(false);
+
+  const proposalId = Number(id);
+
+  const fetchProposal = useCallback(async () => {
+    if (!api || !isApiReady || Number.isNaN(proposalId)) return;
+
+    try {
+      const proposal = await getLegislationById(api, proposalId);
+      if (!proposal) {
+        setRecord(null);
+        return;
+      }
+
+      const [[withExecution], memberList, voteList, block] = await Promise.all([
+        withExecutionRecords([proposal]),
+        getDecisionMembers(api, proposal.decisionType),
+        getProposalVotes(api, proposalId),
+        getCurrentBlock(api),
+      ]);
+
+      setRecord(withExecution);
+      setMembers(memberList);
+      setVotes(voteList);
+      setCurrentBlock(block);
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to load proposal:', error);
+      toast({
+        title: 'Xeletî (Error)',
+        description: 'Failed to load proposal',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [api, isApiReady, proposalId]);
+
+  useEffect(() => {
+    fetchProposal();
+  }, [fetchProposal]);
+
+  const textCid = record?.textCid ?? null;
+  useEffect(() => {
+    if (!textCid) return;
+
+    getAmendmentHistory(textCid)
+      .then((history) => {
+        setVersions(history);
+        setSelectedVersion(history.length - 1);
+      })
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load legislation text:', error);
+        setTextError(true);
+      });
+  }, [textCid]);
+
+  const latest = versions[versions.length - 1];
+  const amending = useMemo(
+    () => record && latest
+      ? { proposalId: record.proposalId, cid: latest.cid, document: latest.document, decisionType: record.decisionType }
+      : undefined,
+    [record, latest]
+  );
+
+  const diff = useMemo(
+    () => selectedVersion > 0 && versions[selectedVersion]
+      ? diffLines(versions[selectedVersion - 1].document.text, versions[selectedVersion].document.text)
+      : null,
+    [versions, selectedVersion]
+  );
+
+  const handleVote = async (choice: VoteChoice) => {
+    if (!api || !selectedAccount || !record) return;
+
+    setVoting(true);
+    try {
+      const injector = await web3FromAddress(selectedAccount.address);
+      const tx = api.tx.welati.voteOnProposal(record.proposalId, choice, null);
+
+      await tx.signAndSend(selectedAccount.address, { signer: injector.signer }, ({ status, dispatchError }) => {
+        if (status.isInBlock) {
+          if (dispatchError) {
+            handleBlockchainError(dispatchError, api, toast);
+          } else {
+            handleBlockchainSuccess('welati.proposalVoted', toast, { id: record.proposalId });
+            fetchProposal();
+          }
+          setVoting(false);
+        }
+      });
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Failed to vote on proposal:', error);
+      handleBlockchainError(error, api, toast);
+      setVoting(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingState message="Loading proposal..." />;
+  }
+
+  if (!record) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Proposal #{id} was not found.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const stages = getLegislationStages(record, currentBlock);
+  const votesByMember = new Map(votes.map((vote) => [vote.voter, vote]));
+  const voters = [...members, ...votes.map((vote) => vote.voter).filter((voter) => !members.includes(voter))];
+  const myVote = selectedAccount ? votesByMember.get(selectedAccount.address) : undefined;
+  const canVote = !!selectedAccount && members.includes(selectedAccount.address) && !myVote &&
+    stages.find((stage) => stage.state === 'current')?.stage === 'Voting';
+  const shownVersion = versions[selectedVersion];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+      <Button variant="ghost" onClick={() => navigate('/citizens/issues')} className="text-gray-400">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Vegere (Back)
+      </Button>
+
+      {/* Header & Lifecycle */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-2xl text-white">{record.title}</CardTitle>
+              <CardDescription className="text-gray-400">
+                Pêşniyar #{record.proposalId} by {shortAddress(record.proposer)} ·{' '}
+                {DECISION_TYPE_LABELS[record.decisionType].rule}
+              </CardDescription>
+            </div>
+            <Badge variant="outline">{record.status}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-4 gap-1">
+            {stages.map((stage) => (
+              <div key={stage.stage}>
+                <div
+                  className={`h-1.5 rounded-full ${
+                    stage.state === 'past' ? 'bg-green-500' : stage.state === 'current' ? 'bg-yellow-500' : 'bg-gray-700'
+                  }`}
+                />
+                <p className={`text-xs mt-1 ${stage.state === 'current' ? 'text-white font-medium' : 'text-gray-500'}`}>
+                  {stage.stage}
+                </p>
+                {stage.block !== null && <p className="text-[10px] text-gray-600">#{stage.block}</p>}
+              </div>
+            ))}
+          </div>
+
+          <ThresholdProgressBar
+            decisionType={record.decisionType}
+            progress={getThresholdProgress(record, members.length)}
+          />
+
+          {record.execution && (
+            <a
+              href={getExplorerTxUrl(record.execution.txHash)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block p-3 rounded-lg bg-green-500/10 border border-green-500/30 text-sm text-green-300 hover:text-green-200"
+            >
+              <span className="inline-flex items-center">
+                Enacted by {record.execution.call} in block #{record.execution.blockNumber}
+                <ExternalLink className="w-3 h-3 ml-1" />
+              </span>
+              {record.execution.effects.length > 0 && (
+                <span className="block text-xs text-green-400/80 mt-1">
+                  Effects: {record.execution.effects.join(', ')}
+                </span>
+              )}
+            </a>
+          )}
+
+          {canVote && (
+            <div className="grid grid-cols-3 gap-2">
+              <Button className="bg-green-600 hover:bg-green-700" disabled={voting} onClick={() => handleVote('Aye')}>
+                <CheckCircle2 className="w-4 h-4 mr-1" />
+                Erê (Aye)
+              </Button>
+              <Button className="bg-red-600 hover:bg-red-700" disabled={voting} onClick={() => handleVote('Nay')}>
+                <XCircle className="w-4 h-4 mr-1" />
+                Na (Nay)
+              </Button>
+              <Button variant="outline" disabled={voting} onClick={() => handleVote('Abstain')}>
+                Bêalî (Abstain)
+              </Button>
+            </div>
+          )}
+          {myVote && (
+            <p className="text-sm text-gray-400">
+              Hûn berê deng dane (You voted): <Badge className={VOTE_STYLES[myVote.vote]}>{myVote.vote}</Badge>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Full Text & Amendments */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white">Nivîsa Tevahî (Full Text)</CardTitle>
+            <div className="flex items-center gap-2">
+              {textCid && (
+                <a
+                  href={getIPFSUrl(textCid)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-400 hover:text-blue-300 inline-flex items-center font-mono"
+                >
+                  {textCid.slice(0, 16)}...
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              )}
+              {amending && (
+                <Button size="sm" variant="outline" onClick={() => setShowAmend(true)}>
+                  <GitCompare className="w-4 h-4 mr-1" />
+                  Propose Amendment
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!textCid ? (
+            <p className="text-gray-300 whitespace-pre-wrap">{record.description}</p>
+          ) : textError ? (
+            <p className="text-sm text-red-400">The full text could not be fetched from IPFS.</p>
+          ) : !shownVersion ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <>
+              {versions.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {versions.map((version, i) => (
+                    <Button
+                      key={version.cid}
+                      size="sm"
+                      variant={i === selectedVersion ? 'default' : 'outline'}
+                      onClick={() => setSelectedVersion(i)}
+                    >
+                      v{i + 1}
+                      {version.document.amends && ` (amends #${version.document.amends.proposalId})`}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {shownVersion.document.summary && (
+                <p className="text-sm text-gray-400 italic">{shownVersion.document.summary}</p>
+              )}
+              {diff ? (
+                <pre className="text-sm font-mono whitespace-pre-wrap bg-gray-950 rounded-lg p-3 max-h-[32rem] overflow-y-auto">
+                  {diff.map((line, i) => (
+                    <div
+                      key={i}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-green-500/10 text-green-300'
+                          : line.type === 'removed'
+                            ? 'bg-red-500/10 text-red-300 line-through'
+                            : 'text-gray-300'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <pre className="text-sm font-mono whitespace-pre-wrap text-gray-300 bg-gray-950 rounded-lg p-3 max-h-[32rem] overflow-y-auto">
+                  {shownVersion.document.text}
+                </pre>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Vote Record */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white">Tomarê Dengan (Vote Record)</CardTitle>
+          <CardDescription className="text-gray-400">
+            {votes.length} of {members.length} members voted
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {voters.length === 0 ? (
+            <p className="text-sm text-gray-500">No members on record</p>
+          ) : (
+            voters.map((voter) => {
+              const vote = votesByMember.get(voter);
+              return (
+                <div key={voter} className="flex items-center justify-between gap-3 p-2 bg-gray-800/30 rounded">
+                  <div>
+                    <span className="font-mono text-sm text-gray-300">{shortAddress(voter)}</span>
+                    {vote?.rationale && <p className="text-xs text-gray-500 mt-0.5">{vote.rationale}</p>}
+                  </div>
+                  {vote ? (
+                    <div className="text-right">
+                      <Badge className={VOTE_STYLES[vote.vote]}>{vote.vote}</Badge>
+                      <p className="text-[10px] text-gray-600 mt-0.5">#{vote.votedAt}</p>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-600">Not voted</span>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <ProposeLegislationDialog open={showAmend} onOpenChange={setShowAmend} amending={amending} />
+    </div>
+  );
+}
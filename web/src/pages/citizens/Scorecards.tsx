@@ -0,0 +1,373 @@
+/**
+ * Representative Scorecards Page
+ *
+ * Public accountability records for MPs and ministers:
+ * - /citizens/scorecards lists every office held by an MP or minister by participation
+ * - /citizens/scorecards/:address?office= shows one office's voting record,
+ *   participation over time, attendance streaks, term countdown, delegations
+ *   and forum activity; an MP who is also a minister has one record per office
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { usePolkadot } from '@/contexts/PolkadotContext';
+import { toast } from '@/components/ui/use-toast';
+import { supabase } from '@/lib/supabase';
+import { AlertCircle, ArrowLeft, Clock, Flame, MessageSquare, Users, Vote } from 'lucide-react';
+import { LoadingState } from '@pezkuwi/components/AsyncComponent';
+import { buildScorecard, getScorecardData, type Scorecard, type ScorecardData } from '@pezkuwi/lib/scorecards';
+import { formatBalance } from '@pezkuwi/lib/wallet';
+import type { VoteChoice } from '@pezkuwi/lib/welati';
+
+interface ForumActivity {
+  discussions: { id: string; title: string; proposal_id?: string; replies_count: number; created_at: string }[];
+  replies: number;
+}
+
+const VOTE_STYLES: Record<VoteChoice, string> = {
+  Aye: 'bg-green-500/10 text-green-400 border-green-500/30',
+  Nay: 'bg-red-500/10 text-red-400 border-red-500/30',
+  Abstain: 'bg-gray-500/10 text-gray-400 border-gray-500/30',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 8)}...${address.slice(-6)}`;
+
+export default function Scorecards() {
+  const { address } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { api, isApiReady } = usePolkadot();
+  const [data, setData] = useState<ScorecardData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!api || !isApiReady) return;
+
+    getScorecardData(api)
+      .then(setData)
+      .catch((error) => {
+        if (import.meta.env.DEV) console.error('Failed to load scorecards:', error);
+        toast({
+          title: 'Xeletî (Error)',
+          description: 'Failed to load representative scorecards',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [api, isApiReady]);
+
+  const scorecards = useMemo(
+    () => (data ? data.representatives.map((representative) => buildScorecard(representative, data)) : []),
+    [data]
+  );
+
+  if (loading) {
+    return <LoadingState message="Loading representative scorecards..." />;
+  }
+
+  if (address) {
+    const held = scorecards.filter((card) => card.representative.account === address);
+    const scorecard =
+      held.find((card) => card.representative.officeId === searchParams.get('office')) ?? held[0];
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <Button variant="ghost" onClick={() => navigate('/citizens/scorecards')} className="text-gray-400">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Hemû Nûner (All Representatives)
+        </Button>
+        {held.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {held.map((card) => (
+              <Button
+                key={card.representative.officeId}
+                size="sm"
+                variant={card === scorecard ? 'default' : 'outline'}
+                onClick={() => navigate(`/citizens/scorecards/${address}?office=${card.representative.officeId}`)}
+              >
+                {card.representative.office}
+              </Button>
+            ))}
+          </div>
+        )}
+        {scorecard ? (
+          <ScorecardDetail scorecard={scorecard} />
+        ) : (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{shortAddress(address)} does not currently hold a seat or ministry.</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  }
+
+  const ranked = [...scorecards].sort((a, b) => b.participationRate - a.participationRate);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white mb-2">Karnameya Nûneran (Representative Scorecards)</h1>
+        <p className="text-gray-400">
+          How every MP and minister has voted, recomputed from on-chain votes. Judge your representatives before
+          the next election.
+        </p>
+      </div>
+
+      {ranked.length === 0 ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>No MPs or ministers are currently in office.</AlertDescription>
+        </Alert>
+      ) : (
+        <div className="grid gap-3">
+          {ranked.map((scorecard) => (
+            <Card
+              key={`${scorecard.representative.account}:${scorecard.representative.officeId}`}
+              className="bg-gray-900 border-gray-800 hover:border-gray-700 cursor-pointer transition-colors"
+              onClick={() =>
+                navigate(
+                  `/citizens/scorecards/${scorecard.representative.account}?office=${scorecard.representative.officeId}`
+                )
+              }
+            >
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm text-white">{shortAddress(scorecard.representative.account)}</p>
+                    <p className="text-xs text-gray-400 truncate">{scorecard.representative.office}</p>
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-gray-400 shrink-0">
+                    <span className="flex items-center gap-1">
+                      <Flame className="w-3 h-3 text-orange-400" />
+                      {scorecard.currentStreak}
+                    </span>
+                    <span>{scorecard.votesCast} / {scorecard.votesCast + scorecard.missed} votes</span>
+                    <div className="w-32">
+                      <Progress value={scorecard.participationRate} className="h-2" />
+                    </div>
+                    <span className="text-white font-semibold w-12 text-right">
+                      {scorecard.participationRate.toFixed(0)}%
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// SCORECARD DETAIL
+// ============================================================================
+
+function ScorecardDetail({ scorecard }: { scorecard: Scorecard }) {
+  const navigate = useNavigate();
+  const { representative } = scorecard;
+  const [forum, setForum] = useState<ForumActivity | null>(null);
+
+  useEffect(() => {
+    const fetchForumActivity = async () => {
+      try {
+        const [discussions, replies] = await Promise.all([
+          supabase
+            .from('forum_discussions')
+            .select('id, title, proposal_id, replies_count, created_at')
+            .eq('author_address', representative.account)
+            .order('created_at', { ascending: false })
+            .limit(10),
+          supabase
+            .from('forum_replies')
+            .select('id', { count: 'exact', head: true })
+            .eq('author_address', representative.account),
+        ]);
+
+        if (discussions.error) throw discussions.error;
+        setForum({ discussions: discussions.data || [], replies: replies.count || 0 });
+      } catch (error) {
+        if (import.meta.env.DEV) console.error('Failed to load forum activity:', error);
+      }
+    };
+
+    fetchForumActivity();
+  }, [representative.account]);
+
+  return (
+    <>
+      {/* Profile */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white font-mono text-lg break-all">{representative.account}</CardTitle>
+          <CardDescription className="flex flex-wrap gap-2 pt-1">
+            <Badge className="bg-blue-500/10 text-blue-400 border-blue-500/30">{representative.office}</Badge>
+            {representative.committees.map((committee) => (
+              <Badge key={committee} variant="outline">{committee}</Badge>
+            ))}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Stat icon={Vote} label="Participation" value={`${scorecard.participationRate.toFixed(1)}%`}>
+              {representative.chainParticipation && (
+                <span>
+                  On-chain: {representative.chainParticipation.votesParticipated} /{' '}
+                  {representative.chainParticipation.totalVotesEligible}
+                </span>
+              )}
+            </Stat>
+            <Stat icon={Flame} label="Attendance Streak" value={`${scorecard.currentStreak}`}>
+              <span>Longest {scorecard.longestStreak} · Missed {scorecard.missed}</span>
+            </Stat>
+            <Stat
+              icon={Clock}
+              label="Term Ends"
+              value={
+                scorecard.termTimeRemaining
+                  ? `${scorecard.termTimeRemaining.days}d ${scorecard.termTimeRemaining.hours}h`
+                  : '-'
+              }
+            >
+              {representative.termEndsAt > 0 && <span>Block #{representative.termEndsAt}</span>}
+            </Stat>
+            <Stat icon={Users} label="Delegations" value={`${scorecard.delegations.delegators}`}>
+              <span>{formatBalance(scorecard.delegations.total)} HEZ delegated</span>
+            </Stat>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Participation Over Time */}
+      {scorecard.participationHistory.length > 1 && (
+        <Card className="bg-gray-900 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-white text-lg">Participation Over Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={scorecard.participationHistory}>
+                  <XAxis dataKey="block" stroke="#6b7280" fontSize={12} />
+                  <YAxis domain={[0, 100]} stroke="#6b7280" fontSize={12} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                    labelFormatter={(label) => `Block #${label}`}
+                    formatter={(value: number) => [`${value.toFixed(1)}%`, 'Participation']}
+                  />
+                  <Line type="monotone" dataKey="rate" stroke="#22c55e" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Voting Record */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white text-lg">Tomarê Dengan (Voting Record)</CardTitle>
+          <CardDescription className="text-gray-400">
+            Every proposal decided by {representative.body === 'parliament' ? 'parliament' : 'the cabinet'} during
+            this term
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {scorecard.record.length === 0 ? (
+            <p className="text-sm text-gray-500">No proposals yet this term</p>
+          ) : (
+            [...scorecard.record].reverse().map((entry) => (
+              <div
+                key={entry.proposalId}
+                className="flex items-center justify-between gap-3 p-2 bg-gray-800/30 rounded cursor-pointer hover:bg-gray-800/60"
+                onClick={() => navigate(`/citizens/legislation/${entry.proposalId}`)}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">#{entry.proposalId} {entry.title}</p>
+                  <p className="text-[11px] text-gray-500">Block #{entry.proposedAt} · {entry.status}</p>
+                </div>
+                {entry.vote ? (
+                  <Badge className={VOTE_STYLES[entry.vote]}>{entry.vote}</Badge>
+                ) : entry.pending ? (
+                  <Badge variant="outline">Voting open</Badge>
+                ) : (
+                  <Badge className="bg-red-500/10 text-red-300 border-red-500/30">Absent</Badge>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Forum Activity */}
+      <Card className="bg-gray-900 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white text-lg flex items-center gap-2">
+            <MessageSquare className="w-5 h-5" />
+            Forum Activity
+          </CardTitle>
+          {forum && (
+            <CardDescription className="text-gray-400">
+              {forum.discussions.length} recent discussions · {forum.replies} replies
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {!forum || forum.discussions.length === 0 ? (
+            <p className="text-sm text-gray-500">No forum discussions started</p>
+          ) : (
+            forum.discussions.map((discussion) => (
+              <div key={discussion.id} className="flex items-center justify-between gap-3 p-2 bg-gray-800/30 rounded">
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{discussion.title}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {new Date(discussion.created_at).toLocaleDateString()} · {discussion.replies_count} replies
+                  </p>
+                </div>
+                {discussion.proposal_id && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-xs"
+                    onClick={() => navigate(`/citizens/legislation/${discussion.proposal_id}`)}
+                  >
+                    Proposal #{discussion.proposal_id}
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+function Stat({
+  icon: Icon,
+  label,
+  value,
+  children,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4">
+      <div className="flex items-center gap-2 text-gray-400 mb-1">
+        <Icon className="w-4 h-4" />
+        <span className="text-sm">{label}</span>
+      </div>
+      <div className="text-2xl font-bold text-white">{value}</div>
+      <div className="text-[11px] text-gray-500 mt-1">{children}</div>
+    </div>
+  );
+}
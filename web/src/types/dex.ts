@@ -4,6 +4,8 @@ export {
   type PoolInfo,
   type UserLiquidityPosition,
   type SwapQuote,
+  type SwapRouteLeg,
+  type SwapRouteOptions,
   type AddLiquidityParams,
   type RemoveLiquidityParams,
   type SwapParams,
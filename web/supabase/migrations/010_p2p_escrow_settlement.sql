@@ -0,0 +1,25 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - ESCROW SETTLEMENT
+-- Tracks server-side release/refund of escrowed funds
+-- =====================================================
+
+ALTER TABLE public.p2p_fiat_trades
+  ADD COLUMN IF NOT EXISTS escrow_settlement_type TEXT CHECK (
+    escrow_settlement_type IN ('release', 'refund')
+  ),
+  ADD COLUMN IF NOT EXISTS escrow_settlement_status TEXT CHECK (
+    escrow_settlement_status IN ('signing', 'submitted', 'included', 'failed')
+  ),
+  ADD COLUMN IF NOT EXISTS escrow_settlement_error TEXT;
+
+-- A signed transfer hash can only ever settle one trade
+CREATE UNIQUE INDEX IF NOT EXISTS idx_p2p_trades_release_tx
+  ON public.p2p_fiat_trades(escrow_release_tx_hash)
+  WHERE escrow_release_tx_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_p2p_trades_settlement_pending
+  ON public.p2p_fiat_trades(escrow_settlement_status)
+  WHERE escrow_settlement_status IN ('signing', 'submitted');
+
+COMMENT ON COLUMN public.p2p_fiat_trades.escrow_settlement_status IS
+  'signing: claimed by escrow signer, submitted: tx hash recorded, included: in block, failed: retryable';
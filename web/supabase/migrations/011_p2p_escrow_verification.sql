@@ -0,0 +1,63 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - ESCROW DEPOSIT VERIFICATION
+-- Offers stay in 'pending_escrow' until the backend has
+-- verified the seller's deposit on-chain
+-- =====================================================
+
+ALTER TABLE public.p2p_fiat_offers DROP CONSTRAINT IF EXISTS p2p_fiat_offers_status_check;
+ALTER TABLE public.p2p_fiat_offers ADD CONSTRAINT p2p_fiat_offers_status_check CHECK (
+  status IN ('pending_escrow', 'open', 'paused', 'locked', 'completed', 'cancelled')
+);
+
+ALTER TABLE public.p2p_fiat_offers
+  ADD COLUMN IF NOT EXISTS escrow_block_hash TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_verified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS escrow_verification_error TEXT;
+
+-- A verified deposit can only back one offer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_p2p_offers_escrow_tx
+  ON public.p2p_fiat_offers(escrow_tx_hash)
+  WHERE escrow_verified_at IS NOT NULL;
+
+-- =====================================================
+-- PROTECT VERIFICATION STATE
+-- Only the backend (service role) can verify and open offers
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.protect_offer_escrow_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending_escrow';
+    NEW.escrow_verified_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.escrow_verified_at IS DISTINCT FROM OLD.escrow_verified_at THEN
+    RAISE EXCEPTION 'Escrow verification can only be set by the platform';
+  END IF;
+
+  IF OLD.status = 'pending_escrow' AND NEW.status NOT IN ('pending_escrow', 'cancelled') THEN
+    RAISE EXCEPTION 'Offer escrow has not been verified';
+  END IF;
+
+  IF NEW.escrow_verified_at IS NOT NULL AND (
+    NEW.escrow_tx_hash IS DISTINCT FROM OLD.escrow_tx_hash OR
+    NEW.escrow_block_hash IS DISTINCT FROM OLD.escrow_block_hash OR
+    NEW.amount_crypto IS DISTINCT FROM OLD.amount_crypto OR
+    NEW.token IS DISTINCT FROM OLD.token
+  ) THEN
+    RAISE EXCEPTION 'Verified escrow details cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_offer_escrow_verification ON public.p2p_fiat_offers;
+CREATE TRIGGER protect_offer_escrow_verification
+  BEFORE INSERT OR UPDATE ON public.p2p_fiat_offers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_offer_escrow_verification();
@@ -0,0 +1,77 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - DISPUTE WORKFLOW
+-- Evidence submission and reputation outcome of rulings
+-- =====================================================
+
+-- =====================================================
+-- ADD DISPUTE EVIDENCE (Parties)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.add_p2p_dispute_evidence(
+  p_dispute_id UUID,
+  p_evidence_urls TEXT[]
+) RETURNS void AS $$
+BEGIN
+  UPDATE public.p2p_fiat_disputes d
+  SET
+    evidence_urls = d.evidence_urls || p_evidence_urls,
+    updated_at = NOW()
+  FROM public.p2p_fiat_trades t
+  WHERE d.id = p_dispute_id
+    AND t.id = d.trade_id
+    AND (t.seller_id = auth.uid() OR t.buyer_id = auth.uid())
+    AND d.status IN ('open', 'under_review', 'escalated');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute % not found or closed', p_dispute_id;
+  END IF;
+
+  INSERT INTO public.p2p_audit_log (user_id, action, entity_type, entity_id, details)
+  VALUES (auth.uid(), 'add_dispute_evidence', 'dispute', p_dispute_id, jsonb_build_object('evidence_urls', p_evidence_urls));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- APPLY DISPUTE OUTCOME (Backend, after ruling)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.apply_p2p_dispute_outcome(
+  p_trade_id UUID,
+  p_winner_id UUID,
+  p_loser_id UUID
+) RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.p2p_fiat_trades WHERE id = p_trade_id) THEN
+    RAISE EXCEPTION 'Trade % not found', p_trade_id;
+  END IF;
+
+  -- Both parties record a disputed trade
+  INSERT INTO public.p2p_reputation (user_id, total_trades, disputed_trades, last_trade_at, first_trade_at)
+  VALUES
+    (p_winner_id, 1, 1, NOW(), NOW()),
+    (p_loser_id, 1, 1, NOW(), NOW())
+  ON CONFLICT (user_id) DO UPDATE SET
+    total_trades = p2p_reputation.total_trades + 1,
+    disputed_trades = p2p_reputation.disputed_trades + 1,
+    last_trade_at = NOW(),
+    updated_at = NOW();
+
+  -- Losing party is penalised
+  UPDATE public.p2p_reputation
+  SET
+    reputation_score = GREATEST(reputation_score - 50, 0),
+    updated_at = NOW()
+  WHERE user_id = p_loser_id;
+
+  -- Update trust levels based on reputation score
+  UPDATE public.p2p_reputation
+  SET trust_level = CASE
+    WHEN reputation_score >= 900 THEN 'verified'
+    WHEN reputation_score >= 700 THEN 'advanced'
+    WHEN reputation_score >= 400 THEN 'intermediate'
+    WHEN reputation_score >= 100 THEN 'basic'
+    ELSE 'new'
+  END
+  WHERE user_id IN (p_winner_id, p_loser_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_p2p_dispute_outcome(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
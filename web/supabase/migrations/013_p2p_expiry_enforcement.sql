@@ -0,0 +1,181 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - EXPIRY & TIMEOUT ENFORCEMENT
+-- Run by the backend expiry worker (service role)
+-- =====================================================
+
+-- Offer escrow refunds (expired/cancelled offers)
+ALTER TABLE public.p2p_fiat_offers
+  ADD COLUMN IF NOT EXISTS escrow_refund_tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS escrow_refund_status TEXT CHECK (
+    escrow_refund_status IN ('signing', 'submitted', 'included', 'failed')
+  ),
+  ADD COLUMN IF NOT EXISTS escrow_refunded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_p2p_offers_refund_pending
+  ON public.p2p_fiat_offers(status, remaining_amount)
+  WHERE status = 'cancelled' AND remaining_amount > 0;
+
+CREATE INDEX IF NOT EXISTS idx_p2p_offers_expiry
+  ON public.p2p_fiat_offers(expires_at)
+  WHERE status IN ('open', 'paused');
+
+-- =====================================================
+-- CANCEL EXPIRED TRADES
+-- Replaces the 009 version, which marked unconfirmed trades
+-- as completed without releasing escrow on-chain
+-- =====================================================
+DROP FUNCTION IF EXISTS public.cancel_expired_trades();
+
+CREATE OR REPLACE FUNCTION public.cancel_expired_trades()
+RETURNS JSONB AS $$
+DECLARE
+  v_trade RECORD;
+  v_dispute_id UUID;
+  v_cancelled INT := 0;
+  v_escalated INT := 0;
+BEGIN
+  -- Cancel trades where buyer didn't pay in time
+  FOR v_trade IN
+    SELECT * FROM public.p2p_fiat_trades
+    WHERE status = 'pending'
+      AND payment_deadline < NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.p2p_fiat_trades
+    SET
+      status = 'cancelled',
+      cancelled_by = seller_id,
+      cancellation_reason = 'Payment deadline expired',
+      updated_at = NOW()
+    WHERE id = v_trade.id;
+
+    -- Escrowed crypto goes back to the offer
+    UPDATE public.p2p_fiat_offers
+    SET
+      remaining_amount = remaining_amount + v_trade.crypto_amount,
+      status = CASE
+        WHEN status = 'locked' THEN 'open'
+        ELSE status
+      END,
+      updated_at = NOW()
+    WHERE id = v_trade.offer_id;
+
+    -- Update reputation (penalty for buyer)
+    UPDATE public.p2p_reputation
+    SET
+      cancelled_trades = cancelled_trades + 1,
+      reputation_score = GREATEST(reputation_score - 10, 0),
+      updated_at = NOW()
+    WHERE user_id = v_trade.buyer_id;
+
+    INSERT INTO public.p2p_audit_log (action, entity_type, entity_id, details)
+    VALUES ('expire_trade', 'trade', v_trade.id, jsonb_build_object('payment_deadline', v_trade.payment_deadline));
+
+    v_cancelled := v_cancelled + 1;
+  END LOOP;
+
+  -- Escalate trades where seller didn't confirm in time
+  FOR v_trade IN
+    SELECT * FROM public.p2p_fiat_trades
+    WHERE status = 'payment_sent'
+      AND confirmation_deadline < NOW()
+      AND NOT EXISTS (SELECT 1 FROM public.p2p_fiat_disputes d WHERE d.trade_id = p2p_fiat_trades.id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO public.p2p_fiat_disputes (trade_id, opened_by, reason, category, status)
+    VALUES (
+      v_trade.id,
+      v_trade.buyer_id,
+      'Seller did not confirm the payment before the confirmation deadline (opened automatically).',
+      'other',
+      'open'
+    )
+    RETURNING id INTO v_dispute_id;
+
+    UPDATE public.p2p_fiat_trades
+    SET
+      status = 'disputed',
+      dispute_id = v_dispute_id,
+      updated_at = NOW()
+    WHERE id = v_trade.id;
+
+    INSERT INTO public.p2p_audit_log (action, entity_type, entity_id, details)
+    VALUES ('escalate_unconfirmed_trade', 'dispute', v_dispute_id, jsonb_build_object(
+      'trade_id', v_trade.id,
+      'confirmation_deadline', v_trade.confirmation_deadline
+    ));
+
+    v_escalated := v_escalated + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('cancelled', v_cancelled, 'escalated', v_escalated);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CANCEL EXPIRED OFFERS
+-- Offers keep their remaining_amount; the backend refunds
+-- it on-chain and subtracts what was refunded
+-- =====================================================
+DROP FUNCTION IF EXISTS public.cancel_expired_offers();
+
+CREATE OR REPLACE FUNCTION public.cancel_expired_offers()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  WITH expired AS (
+    UPDATE public.p2p_fiat_offers
+    SET
+      status = 'cancelled',
+      updated_at = NOW()
+    WHERE status IN ('open', 'paused', 'pending_escrow')
+      AND expires_at < NOW()
+    RETURNING id
+  ), logged AS (
+    INSERT INTO public.p2p_audit_log (action, entity_type, entity_id, details)
+    SELECT 'expire_offer', 'offer', id, '{}'::JSONB FROM expired
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM logged;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE OFFER REFUND (Backend, after on-chain refund)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_p2p_offer_refund(
+  p_offer_id UUID,
+  p_amount NUMERIC,
+  p_tx_hash TEXT
+) RETURNS void AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  UPDATE public.p2p_fiat_offers
+  SET
+    remaining_amount = remaining_amount - p_amount,
+    escrow_refund_status = 'included',
+    escrow_refund_tx_hash = p_tx_hash,
+    escrow_refunded_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_offer_id
+  RETURNING token INTO v_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer % not found', p_offer_id;
+  END IF;
+
+  PERFORM public.decrement_escrow_balance(v_token, p_amount);
+
+  INSERT INTO public.p2p_audit_log (action, entity_type, entity_id, details)
+  VALUES ('refund_offer_escrow', 'offer', p_offer_id, jsonb_build_object('amount', p_amount, 'tx_hash', p_tx_hash));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expiry runs only from the backend worker
+REVOKE EXECUTE ON FUNCTION public.cancel_expired_trades() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_expired_offers() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_p2p_offer_refund(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
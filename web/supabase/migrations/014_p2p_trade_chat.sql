@@ -0,0 +1,168 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - END-TO-END ENCRYPTED TRADE CHAT
+-- Messages are encrypted client-side; the database only
+-- ever stores ciphertext, nonces and public keys
+-- =====================================================
+
+-- Chat identity keys (x25519), one per user wallet.
+-- The signature is the wallet's signature over
+-- 'pezkuwi-p2p-chat-key:v1:<public_key>' so peers can check
+-- the key really belongs to the trade wallet.
+CREATE TABLE IF NOT EXISTS public.p2p_chat_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,
+  public_key TEXT NOT NULL CHECK (public_key ~ '^0x[0-9a-f]{64}$'),
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, wallet_address)
+);
+
+CREATE TABLE IF NOT EXISTS public.p2p_trade_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.p2p_fiat_trades(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id),
+  sender_key TEXT NOT NULL,
+  recipient_key TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
+  has_attachment BOOLEAN DEFAULT false,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_messages_trade ON public.p2p_trade_messages(trade_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_p2p_messages_unread
+  ON public.p2p_trade_messages(trade_id, sender_id)
+  WHERE read_at IS NULL;
+
+-- Conversation keys wrapped for the dispute moderator.
+-- A party shares the key for each (sender_key, recipient_key)
+-- pair it can decrypt; the moderator unwraps it with
+-- x25519(moderator secret, wrapper_key).
+CREATE TABLE IF NOT EXISTS public.p2p_chat_disclosures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES public.p2p_fiat_trades(id) ON DELETE CASCADE,
+  dispute_id UUID NOT NULL REFERENCES public.p2p_fiat_disputes(id) ON DELETE CASCADE,
+  moderator_id UUID NOT NULL REFERENCES auth.users(id),
+  moderator_key TEXT NOT NULL,
+  disclosed_by UUID NOT NULL REFERENCES auth.users(id),
+  wrapper_key TEXT NOT NULL,
+  key_a TEXT NOT NULL,
+  key_b TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (dispute_id, moderator_key, key_a, key_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_disclosures_moderator ON public.p2p_chat_disclosures(moderator_id, trade_id);
+
+COMMENT ON COLUMN public.p2p_fiat_trades.chat_messages IS
+  'Deprecated: trade chat lives in p2p_trade_messages (end-to-end encrypted)';
+
+CREATE TRIGGER update_p2p_chat_keys_updated_at BEFORE UPDATE ON public.p2p_chat_keys
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE public.p2p_chat_keys ENABLE ROW LEVEL SECURITY;
+
+-- Public keys are public; signatures are checked client-side
+CREATE POLICY "chat_keys_public_read" ON public.p2p_chat_keys
+  FOR SELECT USING (true);
+
+CREATE POLICY "chat_keys_owner_insert" ON public.p2p_chat_keys
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "chat_keys_owner_update" ON public.p2p_chat_keys
+  FOR UPDATE USING (user_id = auth.uid());
+
+ALTER TABLE public.p2p_trade_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "messages_parties_read" ON public.p2p_trade_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.p2p_fiat_trades t
+      WHERE t.id = trade_id AND (t.seller_id = auth.uid() OR t.buyer_id = auth.uid())
+    )
+  );
+
+-- The assigned moderator can read ciphertext once a party disclosed the key
+CREATE POLICY "messages_moderator_read" ON public.p2p_trade_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.p2p_chat_disclosures d
+      WHERE d.trade_id = p2p_trade_messages.trade_id AND d.moderator_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "messages_parties_insert" ON public.p2p_trade_messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid() AND
+    read_at IS NULL AND
+    EXISTS (
+      SELECT 1 FROM public.p2p_fiat_trades t
+      WHERE t.id = trade_id
+        AND (t.seller_id = auth.uid() OR t.buyer_id = auth.uid())
+        AND t.status IN ('pending', 'payment_sent', 'disputed')
+    )
+  );
+
+ALTER TABLE public.p2p_chat_disclosures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "disclosures_read" ON public.p2p_chat_disclosures
+  FOR SELECT USING (moderator_id = auth.uid() OR disclosed_by = auth.uid());
+
+-- Parties may only disclose to the moderator assigned to their dispute
+CREATE POLICY "disclosures_parties_insert" ON public.p2p_chat_disclosures
+  FOR INSERT WITH CHECK (
+    disclosed_by = auth.uid() AND
+    EXISTS (
+      SELECT 1
+      FROM public.p2p_fiat_disputes d
+      JOIN public.p2p_fiat_trades t ON t.id = d.trade_id
+      WHERE d.id = dispute_id
+        AND d.trade_id = p2p_chat_disclosures.trade_id
+        AND d.assigned_moderator_id = moderator_id
+        AND d.status = 'under_review'
+        AND (t.seller_id = auth.uid() OR t.buyer_id = auth.uid())
+    )
+  );
+
+-- =====================================================
+-- READ RECEIPTS
+-- Recipients can't update messages directly; this only
+-- stamps read_at on the other party's messages
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.mark_p2p_messages_read(p_trade_id UUID)
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.p2p_fiat_trades
+    WHERE id = p_trade_id AND (seller_id = auth.uid() OR buyer_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not a party to this trade';
+  END IF;
+
+  UPDATE public.p2p_trade_messages
+  SET read_at = NOW()
+  WHERE trade_id = p_trade_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.mark_p2p_messages_read(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_p2p_messages_read(UUID) TO authenticated;
+
+-- Realtime delivery and read receipts
+ALTER PUBLICATION supabase_realtime ADD TABLE public.p2p_trade_messages;
@@ -0,0 +1,57 @@
+-- =====================================================
+-- wUSDT PROOF OF RESERVES
+-- Custodians publish signed reserve attestations; the
+-- backend reserve monitor records the collateral ratio
+-- history. Both are public so anyone can audit the peg.
+-- =====================================================
+
+-- Signed attestations (scheme pezkuwi-por-v1, see shared/lib/proof-of-reserves.ts).
+-- Fields are stored exactly as signed so clients can re-verify them.
+-- Rows are only written by the backend after checking the signature
+-- and the trusted custodian list.
+CREATE TABLE IF NOT EXISTS public.reserve_attestations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheme TEXT NOT NULL,
+  custodian TEXT NOT NULL,
+  attested_at BIGINT NOT NULL, -- Unix ms, as signed
+  amount TEXT NOT NULL CHECK (amount ~ '^[0-9]+$'), -- Smallest USDT units
+  accounts_root TEXT NOT NULL,
+  accounts JSONB, -- Optional published account list
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (custodian, attested_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reserve_attestations_custodian
+  ON public.reserve_attestations(custodian, attested_at DESC);
+
+-- Collateral ratio snapshots. wUSDT supply is read at block_hash;
+-- attestation_ids are the attestations counted towards the reserve.
+CREATE TABLE IF NOT EXISTS public.reserve_ratio_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  wusdt_supply TEXT NOT NULL, -- Smallest units
+  verified_reserve TEXT NOT NULL, -- Smallest units
+  collateral_ratio NUMERIC(12, 4) NOT NULL,
+  is_healthy BOOLEAN NOT NULL,
+  attestation_ids UUID[] NOT NULL DEFAULT '{}',
+  recorded_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reserve_ratio_history_recorded
+  ON public.reserve_ratio_history(recorded_at DESC);
+
+-- =====================================================
+-- RLS: public read, writes only through the service role
+-- =====================================================
+
+ALTER TABLE public.reserve_attestations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "reserve_attestations_public_read" ON public.reserve_attestations
+  FOR SELECT USING (true);
+
+ALTER TABLE public.reserve_ratio_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "reserve_ratio_history_public_read" ON public.reserve_ratio_history
+  FOR SELECT USING (true);
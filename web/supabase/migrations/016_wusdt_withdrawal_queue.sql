@@ -0,0 +1,175 @@
+-- =====================================================
+-- wUSDT WITHDRAWAL QUEUE
+-- Burning wUSDT creates a withdrawal request whose unlock
+-- time depends on its tier; the USDT multisig approves
+-- (or cancels) the payout once it unlocks.
+--
+--   awaiting_burn -> queued -> approving -> approved -> paid
+--        |             |          |
+--     expired          +------ cancelled (wUSDT re-minted)
+--
+-- Tier limits and delays mirror WITHDRAWAL_LIMITS and
+-- WITHDRAWAL_VELOCITY_LIMITS in shared/lib/usdt.ts
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.wusdt_withdrawals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  wallet_address TEXT NOT NULL,
+  amount NUMERIC(20, 6) NOT NULL CHECK (amount > 0),
+  destination TEXT NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('instant', 'standard', 'large')),
+  status TEXT NOT NULL DEFAULT 'awaiting_burn' CHECK (
+    status IN ('awaiting_burn', 'queued', 'approving', 'approved', 'paid', 'cancelled', 'expired')
+  ),
+
+  -- Burn (utility.batchAll[assets.burn, system.remark('wusdt-withdrawal:<id>')])
+  burn_tx_hash TEXT UNIQUE,
+  burn_block_hash TEXT,
+  burned_at TIMESTAMPTZ,
+  unlock_at TIMESTAMPTZ,
+
+  -- Payout multisig (system.remarkWithEvent('wusdt-payout:<id>') via multisig.asMulti)
+  payout_call_hash TEXT,
+  payout_timepoint JSONB,
+  approvals TEXT[] NOT NULL DEFAULT '{}',
+  approved_at TIMESTAMPTZ,
+  payout_reference TEXT,
+  paid_at TIMESTAMPTZ,
+
+  cancelled_by TEXT,
+  cancellation_reason TEXT,
+  refund_tx_hash TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wusdt_withdrawals_user ON public.wusdt_withdrawals(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wusdt_withdrawals_wallet ON public.wusdt_withdrawals(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wusdt_withdrawals_queue
+  ON public.wusdt_withdrawals(unlock_at)
+  WHERE status IN ('queued', 'approving', 'approved');
+
+-- =====================================================
+-- RLS: users see their own requests. Multisig members
+-- read the queue through the backend (Tiki check).
+-- =====================================================
+
+ALTER TABLE public.wusdt_withdrawals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "wusdt_withdrawals_owner_read" ON public.wusdt_withdrawals
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Status page follows its requests live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.wusdt_withdrawals;
+
+-- =====================================================
+-- REQUEST WITHDRAWAL (User, before burning)
+-- Enforces the per-address daily velocity limits up front
+-- so nobody burns wUSDT for a request that would be refused
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.request_wusdt_withdrawal(
+  p_wallet_address TEXT,
+  p_amount NUMERIC,
+  p_destination TEXT
+) RETURNS public.wusdt_withdrawals AS $$
+DECLARE
+  v_daily_amount NUMERIC;
+  v_daily_count INT;
+  v_tier TEXT;
+  v_row public.wusdt_withdrawals;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid withdrawal amount';
+  END IF;
+
+  IF coalesce(trim(p_destination), '') = '' THEN
+    RAISE EXCEPTION 'Withdrawal destination is required';
+  END IF;
+
+  -- Serialise requests per wallet so the velocity check can't be raced
+  PERFORM pg_advisory_xact_lock(hashtext('wusdt_withdrawal:' || p_wallet_address));
+
+  SELECT coalesce(sum(amount), 0), count(*)
+  INTO v_daily_amount, v_daily_count
+  FROM public.wusdt_withdrawals
+  WHERE (wallet_address = p_wallet_address OR user_id = auth.uid())
+    AND created_at > NOW() - INTERVAL '24 hours'
+    AND status NOT IN ('cancelled', 'expired');
+
+  IF v_daily_count >= 5 THEN
+    RAISE EXCEPTION 'Daily withdrawal count limit reached (5 per 24 hours)';
+  END IF;
+
+  IF v_daily_amount + p_amount > 50000 THEN
+    RAISE EXCEPTION 'Daily withdrawal limit exceeded: % of 50000 USDT remaining', 50000 - v_daily_amount;
+  END IF;
+
+  v_tier := CASE
+    WHEN p_amount <= 1000 THEN 'instant'
+    WHEN p_amount <= 10000 THEN 'standard'
+    ELSE 'large'
+  END;
+
+  INSERT INTO public.wusdt_withdrawals (user_id, wallet_address, amount, destination, tier)
+  VALUES (auth.uid(), p_wallet_address, p_amount, trim(p_destination), v_tier)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_wusdt_withdrawal(TEXT, NUMERIC, TEXT) TO authenticated;
+
+-- =====================================================
+-- RECORD BURN (User, after the burn is in a block)
+-- Expired requests are accepted too: the burn may have landed
+-- after the request timed out. The backend verifies it on-chain.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_wusdt_withdrawal_burn(
+  p_withdrawal_id UUID,
+  p_tx_hash TEXT,
+  p_block_hash TEXT
+) RETURNS void AS $$
+BEGIN
+  UPDATE public.wusdt_withdrawals
+  SET
+    burn_tx_hash = p_tx_hash,
+    burn_block_hash = p_block_hash,
+    updated_at = NOW()
+  WHERE id = p_withdrawal_id
+    AND user_id = auth.uid()
+    AND status IN ('awaiting_burn', 'expired');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal % not found or already burned', p_withdrawal_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.submit_wusdt_withdrawal_burn(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- EXPIRE UNBURNED REQUESTS (Backend worker)
+-- Frees the daily quota held by requests that were never burned
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.expire_wusdt_withdrawals()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE public.wusdt_withdrawals
+  SET status = 'expired', updated_at = NOW()
+  WHERE status = 'awaiting_burn'
+    AND burn_tx_hash IS NULL
+    AND created_at < NOW() - INTERVAL '1 hour';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
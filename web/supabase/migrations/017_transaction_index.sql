@@ -0,0 +1,62 @@
+-- =====================================================
+-- TRANSACTION INDEX
+-- Written by the backend indexer (backend/src/indexer.js),
+-- which follows finalized blocks and stores every signed
+-- extrinsic with its events and the transfers it caused.
+-- Chain data is public, so anyone may read it; only the
+-- service role writes.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.indexed_transactions (
+  -- '<block_number>-<extrinsic_index>'
+  id TEXT PRIMARY KEY,
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  extrinsic_index INT NOT NULL,
+  hash TEXT NOT NULL,
+  section TEXT NOT NULL,
+  method TEXT NOT NULL,
+  signer TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  fee NUMERIC(40, 0),
+  args JSONB NOT NULL DEFAULT '[]',
+  events JSONB NOT NULL DEFAULT '[]',
+  -- [{ asset: 'native' | '<assetId>', from, to, amount }]
+  transfers JSONB NOT NULL DEFAULT '[]',
+  -- Signer plus every transfer party, for account lookups
+  accounts TEXT[] NOT NULL,
+  -- Assets moved by this extrinsic ('native' for HEZ)
+  assets TEXT[] NOT NULL DEFAULT '{}',
+  block_time TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_order
+  ON public.indexed_transactions(block_number DESC, extrinsic_index DESC);
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_accounts
+  ON public.indexed_transactions USING GIN (accounts);
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_assets
+  ON public.indexed_transactions USING GIN (assets);
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_section
+  ON public.indexed_transactions(section, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_time
+  ON public.indexed_transactions(block_time);
+CREATE INDEX IF NOT EXISTS idx_indexed_transactions_hash
+  ON public.indexed_transactions(hash);
+
+-- Single-row cursor: last fully indexed finalized block
+CREATE TABLE IF NOT EXISTS public.indexer_state (
+  id TEXT PRIMARY KEY DEFAULT 'chain',
+  last_block BIGINT NOT NULL,
+  last_block_hash TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.indexed_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.indexer_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "indexed_transactions_public_read" ON public.indexed_transactions
+  FOR SELECT USING (true);
+
+CREATE POLICY "indexer_state_public_read" ON public.indexer_state
+  FOR SELECT USING (true);
@@ -0,0 +1,147 @@
+-- =====================================================
+-- PRICE ORACLE
+-- Written by the backend (backend/src/prices.js and
+-- backend/src/indexer.js):
+--   dex_swaps          - every assetConversion swap hop,
+--                        source of OHLC candles and volume
+--   pool_price_samples - periodic pool reserves, source of
+--                        the time-weighted spot price
+--   fiat_rates         - USD exchange rates for display
+-- Public market data; only the service role writes.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.dex_swaps (
+  -- '<block_number>-<extrinsic_index>-<seq>'
+  id TEXT PRIMARY KEY,
+  block_number BIGINT NOT NULL,
+  extrinsic_index INT NOT NULL,
+  -- Hop order within the extrinsic (multi-hop swaps have one row per pool)
+  seq INT NOT NULL,
+  hash TEXT NOT NULL,
+  who TEXT NOT NULL,
+  -- 'native' or the pallet-assets id, like indexed_transactions.assets
+  asset_in TEXT NOT NULL,
+  asset_out TEXT NOT NULL,
+  -- Raw chain units
+  amount_in NUMERIC(40, 0) NOT NULL,
+  amount_out NUMERIC(40, 0) NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dex_swaps_pair_time
+  ON public.dex_swaps(asset_in, asset_out, block_time);
+CREATE INDEX IF NOT EXISTS idx_dex_swaps_time
+  ON public.dex_swaps(block_time);
+
+CREATE TABLE IF NOT EXISTS public.pool_price_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset1 TEXT NOT NULL,
+  asset2 TEXT NOT NULL,
+  reserve1 NUMERIC(40, 0) NOT NULL,
+  reserve2 NUMERIC(40, 0) NOT NULL,
+  block_number BIGINT NOT NULL,
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (asset1, asset2, block_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pool_price_samples_pair_block
+  ON public.pool_price_samples(asset1, asset2, block_number DESC);
+CREATE INDEX IF NOT EXISTS idx_pool_price_samples_time
+  ON public.pool_price_samples(sampled_at);
+
+CREATE TABLE IF NOT EXISTS public.fiat_rates (
+  -- ISO 4217 code
+  currency TEXT PRIMARY KEY,
+  -- Units of the currency per 1 USD
+  per_usd NUMERIC NOT NULL CHECK (per_usd > 0),
+  source TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.fiat_rates (currency, per_usd, source)
+VALUES ('USD', 1, 'fixed')
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE public.dex_swaps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pool_price_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fiat_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "dex_swaps_public_read" ON public.dex_swaps
+  FOR SELECT USING (true);
+
+CREATE POLICY "pool_price_samples_public_read" ON public.pool_price_samples
+  FOR SELECT USING (true);
+
+CREATE POLICY "fiat_rates_public_read" ON public.fiat_rates
+  FOR SELECT USING (true);
+
+-- =====================================================
+-- OHLC CANDLES
+-- Price of p_base in p_quote per bucket, from swaps in
+-- either direction. Volume is in p_base (display units).
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_price_candles(
+  p_base TEXT,
+  p_quote TEXT,
+  p_interval TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_base_decimals INT,
+  p_quote_decimals INT
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  open_price NUMERIC,
+  high_price NUMERIC,
+  low_price NUMERIC,
+  close_price NUMERIC,
+  base_volume NUMERIC,
+  trade_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_interval NOT IN ('1 minute', '1 hour', '1 day') THEN
+    RAISE EXCEPTION 'Unsupported candle interval: %', p_interval;
+  END IF;
+
+  RETURN QUERY
+  WITH trades AS (
+    SELECT
+      s.block_time,
+      s.block_number,
+      s.extrinsic_index,
+      s.seq,
+      CASE WHEN s.asset_in = p_base
+        THEN (s.amount_out / 10::NUMERIC ^ p_quote_decimals) / (s.amount_in / 10::NUMERIC ^ p_base_decimals)
+        ELSE (s.amount_in / 10::NUMERIC ^ p_quote_decimals) / (s.amount_out / 10::NUMERIC ^ p_base_decimals)
+      END AS price,
+      CASE WHEN s.asset_in = p_base THEN s.amount_in ELSE s.amount_out END
+        / 10::NUMERIC ^ p_base_decimals AS volume
+    FROM public.dex_swaps s
+    WHERE ((s.asset_in = p_base AND s.asset_out = p_quote)
+        OR (s.asset_in = p_quote AND s.asset_out = p_base))
+      AND s.amount_in > 0
+      AND s.amount_out > 0
+      AND s.block_time >= p_from
+      AND s.block_time < p_to
+  )
+  SELECT
+    date_bin(p_interval::INTERVAL, t.block_time, TIMESTAMPTZ '2000-01-01 00:00:00+00'),
+    (array_agg(t.price ORDER BY t.block_number, t.extrinsic_index, t.seq))[1],
+    MAX(t.price),
+    MIN(t.price),
+    (array_agg(t.price ORDER BY t.block_number DESC, t.extrinsic_index DESC, t.seq DESC))[1],
+    SUM(t.volume),
+    COUNT(*)
+  FROM trades t
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_price_candles(TEXT, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INT, INT) TO anon, authenticated;
@@ -0,0 +1,37 @@
+-- =====================================================
+-- LIQUIDITY EVENTS
+-- Written by the backend indexer (backend/src/indexer.js)
+-- from assetConversion LiquidityAdded / LiquidityRemoved.
+-- Clients replay an account's events to get the cost basis
+-- of its LP positions (fees earned, impermanent loss).
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.liquidity_events (
+  -- '<block_number>-<extrinsic_index>-<seq>'
+  id TEXT PRIMARY KEY,
+  block_number BIGINT NOT NULL,
+  extrinsic_index INT NOT NULL,
+  seq INT NOT NULL,
+  hash TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('add', 'remove')),
+  -- LP token recipient for adds, LP token owner for removals
+  account TEXT NOT NULL,
+  -- Pool pair in on-chain order ('native' or the pallet-assets id)
+  asset1 TEXT NOT NULL,
+  asset2 TEXT NOT NULL,
+  -- Raw chain units
+  amount1 NUMERIC(40, 0) NOT NULL,
+  amount2 NUMERIC(40, 0) NOT NULL,
+  lp_token TEXT NOT NULL,
+  -- LP tokens minted (add) or burned (remove)
+  lp_amount NUMERIC(40, 0) NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_liquidity_events_account
+  ON public.liquidity_events(account, asset1, asset2, block_number);
+
+ALTER TABLE public.liquidity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "liquidity_events_public_read" ON public.liquidity_events
+  FOR SELECT USING (true);
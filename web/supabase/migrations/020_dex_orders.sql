@@ -0,0 +1,79 @@
+-- =====================================================
+-- DEX LIMIT ORDERS AND DCA
+-- Signed off-chain swap intents executed by the backend
+-- keeper (backend/src/dex-orders.js). The owner grants the
+-- keeper a proxy; the keeper submits
+-- proxy.proxy(owner, assetConversion.swapExactTokensForTokens)
+-- with min_amount_out enforcing the order's price.
+--
+--   open -> executing -> open (DCA runs left) / filled
+--    |                    |
+--    +-- cancelled / expired / failed
+--
+-- Orders are public like an order book (min_amount_out
+-- already protects them); only the backend writes.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.dex_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('limit', 'dca')),
+  -- Swap route as pallet-assets ids, input first
+  path INT[] NOT NULL CHECK (array_length(path, 1) >= 2),
+  -- Raw chain units per execution
+  amount_in NUMERIC(40, 0) NOT NULL CHECK (amount_in > 0),
+  -- Limit price as a floor on the output; optional for DCA
+  min_amount_out NUMERIC(40, 0) NOT NULL DEFAULT 0,
+  -- DCA only: slippage allowed against the quote at execution time
+  max_slippage_bps INT NOT NULL DEFAULT 100 CHECK (max_slippage_bps BETWEEN 0 AND 5000),
+  interval_seconds INT CHECK (interval_seconds IS NULL OR interval_seconds > 0),
+  executions_total INT NOT NULL DEFAULT 1 CHECK (executions_total > 0),
+  executions_done INT NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (
+    status IN ('open', 'executing', 'filled', 'cancelled', 'expired', 'failed')
+  ),
+  failure_count INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+
+  -- Signed intent (see buildOrderIntent in shared/lib/dex-orders.ts)
+  message TEXT NOT NULL,
+  signature TEXT NOT NULL UNIQUE,
+
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (kind = 'limit' OR interval_seconds IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dex_orders_owner ON public.dex_orders(owner, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dex_orders_due
+  ON public.dex_orders(next_run_at)
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.dex_order_fills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.dex_orders(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('submitted', 'filled', 'failed')),
+  tx_hash TEXT,
+  block_hash TEXT,
+  -- Raw chain units; amount_out is null until the swap is included
+  amount_in NUMERIC(40, 0) NOT NULL,
+  amount_out NUMERIC(40, 0),
+  min_amount_out NUMERIC(40, 0) NOT NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dex_order_fills_order ON public.dex_order_fills(order_id, created_at DESC);
+
+ALTER TABLE public.dex_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dex_order_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "dex_orders_public_read" ON public.dex_orders
+  FOR SELECT USING (true);
+
+CREATE POLICY "dex_order_fills_public_read" ON public.dex_order_fills
+  FOR SELECT USING (true);
@@ -0,0 +1,144 @@
+-- =====================================================
+-- CITIZEN ISSUE TRACKER
+-- Discussion and official handling of on-chain issues
+-- (welati.submitIssue). Rows are linked by the chain
+-- issue id; the issue itself stays on chain.
+--
+--   Pending -> InProgress -> Resolved / Closed
+--      |           |
+--      +-----------+-- merged into another issue
+--
+-- Status changes, official responses and merges are
+-- signed by the official's wallet over the message built
+-- in shared/lib/issues.ts (buildIssueUpdateMessage).
+-- Clients verify the signature and that the signer holds
+-- a Tiki of the ministry responsible for the category.
+-- =====================================================
+
+-- Threaded citizen comments with IPFS attachments
+CREATE TABLE IF NOT EXISTS public.citizen_issue_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  issue_id BIGINT NOT NULL CHECK (issue_id >= 0),
+  parent_id UUID REFERENCES public.citizen_issue_comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_address TEXT NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  -- [{ cid, name, type, size }] of files pinned to IPFS
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(attachments) = 'array'),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_comments_issue ON public.citizen_issue_comments(issue_id, created_at);
+
+-- Signed official updates: status transitions, responses, merges
+CREATE TABLE IF NOT EXISTS public.citizen_issue_updates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  issue_id BIGINT NOT NULL CHECK (issue_id >= 0),
+  kind TEXT NOT NULL CHECK (kind IN ('status', 'response', 'merge')),
+  status TEXT CHECK (status IN ('Pending', 'InProgress', 'Resolved', 'Closed')),
+  merged_into BIGINT CHECK (merged_into >= 0 AND merged_into <> issue_id),
+  note TEXT NOT NULL DEFAULT '' CHECK (char_length(note) <= 4000),
+  actor_id UUID NOT NULL REFERENCES auth.users(id),
+  actor_address TEXT NOT NULL,
+  -- Milliseconds; part of the signed message
+  issued_at BIGINT NOT NULL,
+  signature TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (kind <> 'status' OR status IS NOT NULL),
+  CHECK (kind <> 'merge' OR merged_into IS NOT NULL),
+  CHECK (kind <> 'response' OR char_length(note) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issue_updates_issue ON public.citizen_issue_updates(issue_id, issued_at);
+
+-- Region tag chosen by the submitter; the chain only stores the category
+CREATE TABLE IF NOT EXISTS public.citizen_issue_regions (
+  issue_id BIGINT PRIMARY KEY CHECK (issue_id >= 0),
+  region TEXT NOT NULL CHECK (
+    region IN ('bakur', 'basur', 'rojava', 'rojhelat', 'diaspora', 'kurdistan_a_sor')
+  ),
+  submitter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- RLS
+-- Everything is public to read; anyone signed in can
+-- write their own rows
+-- =====================================================
+
+ALTER TABLE public.citizen_issue_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.citizen_issue_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.citizen_issue_regions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "issue_comments_public_read" ON public.citizen_issue_comments
+  FOR SELECT USING (true);
+
+CREATE POLICY "issue_comments_author_insert" ON public.citizen_issue_comments
+  FOR INSERT WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "issue_comments_author_delete" ON public.citizen_issue_comments
+  FOR DELETE USING (author_id = auth.uid());
+
+CREATE POLICY "issue_updates_public_read" ON public.citizen_issue_updates
+  FOR SELECT USING (true);
+
+-- Signatures and Tiki roles are checked client-side
+CREATE POLICY "issue_updates_actor_insert" ON public.citizen_issue_updates
+  FOR INSERT WITH CHECK (actor_id = auth.uid());
+
+CREATE POLICY "issue_regions_public_read" ON public.citizen_issue_regions
+  FOR SELECT USING (true);
+
+CREATE POLICY "issue_regions_submitter_insert" ON public.citizen_issue_regions
+  FOR INSERT WITH CHECK (submitter_id = auth.uid());
+
+-- =====================================================
+-- SUPPORTER NOTIFICATIONS
+-- Supporters are on-chain voters, so the caller passes
+-- their addresses; only the author of a status change
+-- posted in the last 10 minutes may notify for it
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.notify_issue_supporters(
+  p_update_id UUID,
+  p_supporters TEXT[]
+) RETURNS INT AS $$
+DECLARE
+  v_update public.citizen_issue_updates%ROWTYPE;
+  v_count INT;
+BEGIN
+  SELECT * INTO v_update
+  FROM public.citizen_issue_updates
+  WHERE id = p_update_id
+    AND actor_id = auth.uid()
+    AND kind IN ('status', 'merge')
+    AND created_at > NOW() - INTERVAL '10 minutes';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue update % not found', p_update_id;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url)
+  SELECT DISTINCT
+    w.user_id,
+    'Issue #' || v_update.issue_id || ' updated',
+    CASE v_update.kind
+      WHEN 'merge' THEN 'Merged into issue #' || v_update.merged_into
+      ELSE 'Status changed to ' || v_update.status
+    END,
+    'info',
+    '/citizens/issues?issue=' || v_update.issue_id
+  FROM public.wallets w
+  WHERE w.address = ANY(p_supporters)
+    AND w.user_id <> auth.uid();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.notify_issue_supporters(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.notify_issue_supporters(UUID, TEXT[]) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.citizen_issue_comments;
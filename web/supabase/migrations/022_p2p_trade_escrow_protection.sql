@@ -0,0 +1,103 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - TRADE ESCROW PROTECTION
+-- The escrow signer pays out from the trade row, so its
+-- amount, wallets and settlement state are set here or by
+-- the backend (service role), never by the trade parties
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.protect_trade_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_offer RECORD;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Carve the trade out of the offer's verified deposit
+    SELECT * INTO v_offer
+    FROM public.p2p_fiat_offers
+    WHERE id = NEW.offer_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_offer.status <> 'open' OR v_offer.escrow_verified_at IS NULL THEN
+      RAISE EXCEPTION 'Offer is not available';
+    END IF;
+
+    IF NEW.seller_id IS DISTINCT FROM v_offer.seller_id OR NEW.buyer_id = v_offer.seller_id THEN
+      RAISE EXCEPTION 'Invalid trade parties';
+    END IF;
+
+    IF NEW.crypto_amount > v_offer.remaining_amount
+      OR NEW.crypto_amount < COALESCE(v_offer.min_order_amount, 0)
+      OR NEW.crypto_amount > COALESCE(v_offer.max_order_amount, v_offer.amount_crypto) THEN
+      RAISE EXCEPTION 'Invalid trade amount';
+    END IF;
+
+    NEW.fiat_amount := NEW.crypto_amount * v_offer.fiat_amount / v_offer.amount_crypto;
+    NEW.price_per_unit := v_offer.price_per_unit;
+    NEW.escrow_locked_amount := NEW.crypto_amount;
+    NEW.escrow_locked_at := NOW();
+    NEW.escrow_release_tx_hash := NULL;
+    NEW.escrow_released_at := NULL;
+    NEW.escrow_settlement_type := NULL;
+    NEW.escrow_settlement_status := NULL;
+    NEW.escrow_settlement_error := NULL;
+    NEW.status := 'pending';
+    NEW.payment_deadline := NOW() + make_interval(mins => v_offer.time_limit_minutes);
+    NEW.buyer_marked_paid_at := NULL;
+    NEW.seller_confirmed_at := NULL;
+    NEW.completed_at := NULL;
+    NEW.dispute_id := NULL;
+
+    UPDATE public.p2p_fiat_offers
+    SET
+      remaining_amount = remaining_amount - NEW.crypto_amount,
+      status = CASE WHEN remaining_amount - NEW.crypto_amount = 0 THEN 'locked' ELSE status END,
+      updated_at = NOW()
+    WHERE id = NEW.offer_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.offer_id IS DISTINCT FROM OLD.offer_id OR
+    NEW.seller_id IS DISTINCT FROM OLD.seller_id OR
+    NEW.buyer_id IS DISTINCT FROM OLD.buyer_id OR
+    NEW.buyer_wallet IS DISTINCT FROM OLD.buyer_wallet OR
+    NEW.crypto_amount IS DISTINCT FROM OLD.crypto_amount OR
+    NEW.fiat_amount IS DISTINCT FROM OLD.fiat_amount OR
+    NEW.price_per_unit IS DISTINCT FROM OLD.price_per_unit OR
+    NEW.escrow_locked_amount IS DISTINCT FROM OLD.escrow_locked_amount OR
+    NEW.escrow_locked_at IS DISTINCT FROM OLD.escrow_locked_at OR
+    NEW.escrow_release_tx_hash IS DISTINCT FROM OLD.escrow_release_tx_hash OR
+    NEW.escrow_released_at IS DISTINCT FROM OLD.escrow_released_at OR
+    NEW.escrow_settlement_type IS DISTINCT FROM OLD.escrow_settlement_type OR
+    NEW.escrow_settlement_status IS DISTINCT FROM OLD.escrow_settlement_status OR
+    NEW.escrow_settlement_error IS DISTINCT FROM OLD.escrow_settlement_error OR
+    NEW.payment_deadline IS DISTINCT FROM OLD.payment_deadline OR
+    NEW.seller_confirmed_at IS DISTINCT FROM OLD.seller_confirmed_at OR
+    NEW.completed_at IS DISTINCT FROM OLD.completed_at OR
+    NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by OR
+    NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+  THEN
+    RAISE EXCEPTION 'Trade escrow details can only be changed by the platform';
+  END IF;
+
+  -- Parties may only mark the payment sent (buyer) or open a dispute;
+  -- every other status is set by the backend
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status = 'payment_sent' AND auth.uid() = OLD.buyer_id) OR
+    (OLD.status IN ('pending', 'payment_sent') AND NEW.status = 'disputed')
+  ) THEN
+    RAISE EXCEPTION 'Invalid trade status change';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_trade_escrow ON public.p2p_fiat_trades;
+CREATE TRIGGER protect_trade_escrow
+  BEFORE INSERT OR UPDATE ON public.p2p_fiat_trades
+  FOR EACH ROW EXECUTE FUNCTION public.protect_trade_escrow();
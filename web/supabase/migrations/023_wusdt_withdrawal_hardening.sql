@@ -0,0 +1,77 @@
+-- =====================================================
+-- wUSDT WITHDRAWAL QUEUE - HARDENING
+-- - Requests must come from one of the caller's own wallets
+-- - Expired requests keep counting toward the daily limits:
+--   their burn is still accepted later, so freeing the quota
+--   would let several expired requests be burned at once
+-- - Each re-mint backs at most one cancellation
+-- - Expiry runs only from the backend worker
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.request_wusdt_withdrawal(
+  p_wallet_address TEXT,
+  p_amount NUMERIC,
+  p_destination TEXT
+) RETURNS public.wusdt_withdrawals AS $$
+DECLARE
+  v_daily_amount NUMERIC;
+  v_daily_count INT;
+  v_tier TEXT;
+  v_row public.wusdt_withdrawals;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.wallets
+    WHERE user_id = auth.uid() AND address = p_wallet_address
+  ) THEN
+    RAISE EXCEPTION 'Wallet is not linked to this account';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid withdrawal amount';
+  END IF;
+
+  IF coalesce(trim(p_destination), '') = '' THEN
+    RAISE EXCEPTION 'Withdrawal destination is required';
+  END IF;
+
+  -- Serialise requests per wallet so the velocity check can't be raced
+  PERFORM pg_advisory_xact_lock(hashtext('wusdt_withdrawal:' || p_wallet_address));
+
+  SELECT coalesce(sum(amount), 0), count(*)
+  INTO v_daily_amount, v_daily_count
+  FROM public.wusdt_withdrawals
+  WHERE (wallet_address = p_wallet_address OR user_id = auth.uid())
+    AND created_at > NOW() - INTERVAL '24 hours'
+    AND status <> 'cancelled';
+
+  IF v_daily_count >= 5 THEN
+    RAISE EXCEPTION 'Daily withdrawal count limit reached (5 per 24 hours)';
+  END IF;
+
+  IF v_daily_amount + p_amount > 50000 THEN
+    RAISE EXCEPTION 'Daily withdrawal limit exceeded: % of 50000 USDT remaining', 50000 - v_daily_amount;
+  END IF;
+
+  v_tier := CASE
+    WHEN p_amount <= 1000 THEN 'instant'
+    WHEN p_amount <= 10000 THEN 'standard'
+    ELSE 'large'
+  END;
+
+  INSERT INTO public.wusdt_withdrawals (user_id, wallet_address, amount, destination, tier)
+  VALUES (auth.uid(), p_wallet_address, p_amount, trim(p_destination), v_tier)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wusdt_withdrawals_refund_tx
+  ON public.wusdt_withdrawals(refund_tx_hash)
+  WHERE refund_tx_hash IS NOT NULL;
+
+REVOKE EXECUTE ON FUNCTION public.expire_wusdt_withdrawals() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+-- =====================================================
+-- TRANSACTION INDEX - UNSIGNED AND BLOCK-LEVEL ROWS
+-- The indexer also stores unsigned extrinsics and block
+-- initialization/finalization events that move funds
+-- (XCM deposits, runtime mints). Those have no signer;
+-- block-level rows carry the block hash as their hash and
+-- sort before (-1) or after (extrinsic count) the block's
+-- extrinsics.
+-- =====================================================
+
+ALTER TABLE public.indexed_transactions
+  ALTER COLUMN signer DROP NOT NULL;
+
+ALTER TABLE public.indexed_transactions
+  ADD COLUMN IF NOT EXISTS phase TEXT NOT NULL DEFAULT 'apply_extrinsic'
+    CHECK (phase IN ('initialization', 'apply_extrinsic', 'finalization'));
@@ -0,0 +1,8 @@
+-- =====================================================
+-- RESERVE RATIO HISTORY - ZERO SUPPLY
+-- With no wUSDT minted there is nothing to back: the
+-- snapshot is healthy and has no collateral ratio.
+-- =====================================================
+
+ALTER TABLE public.reserve_ratio_history
+  ALTER COLUMN collateral_ratio DROP NOT NULL;
@@ -0,0 +1,55 @@
+-- =====================================================
+-- CITIZEN ISSUE TRACKER - BACKEND-PUBLISHED UPDATES
+-- Official updates are published through the backend
+-- (POST /api/issues/updates), which checks the signature
+-- and the official's Tiki on chain, stores the row and
+-- notifies supporters taken from the chain's vote list.
+-- Clients can no longer insert updates or pick who gets
+-- notified.
+-- =====================================================
+
+DROP POLICY IF EXISTS "issue_updates_actor_insert" ON public.citizen_issue_updates;
+
+-- The backend knows the signing wallet, not the session user
+ALTER TABLE public.citizen_issue_updates
+  ALTER COLUMN actor_id DROP NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.notify_issue_supporters(
+  p_update_id UUID,
+  p_supporters TEXT[]
+) RETURNS INT AS $$
+DECLARE
+  v_update public.citizen_issue_updates%ROWTYPE;
+  v_count INT;
+BEGIN
+  SELECT * INTO v_update
+  FROM public.citizen_issue_updates
+  WHERE id = p_update_id
+    AND kind IN ('status', 'merge');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue update % not found', p_update_id;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, action_url)
+  SELECT DISTINCT
+    w.user_id,
+    'Issue #' || v_update.issue_id || ' updated',
+    CASE v_update.kind
+      WHEN 'merge' THEN 'Merged into issue #' || v_update.merged_into
+      ELSE 'Status changed to ' || v_update.status
+    END,
+    'info',
+    '/citizens/issues?issue=' || v_update.issue_id
+  FROM public.wallets w
+  WHERE w.address = ANY(p_supporters)
+    AND w.address <> v_update.actor_address;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_issue_supporters(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_issue_supporters(UUID, TEXT[]) TO service_role;
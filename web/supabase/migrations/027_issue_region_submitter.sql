@@ -0,0 +1,14 @@
+-- =====================================================
+-- CITIZEN ISSUE TRACKER - REGION TAGS BY THE SUBMITTER
+-- Region tags are written by the backend
+-- (POST /api/issues/:id/region) after it checks that the
+-- signing wallet is the issue's on-chain submitter.
+-- =====================================================
+
+DROP POLICY IF EXISTS "issue_regions_submitter_insert" ON public.citizen_issue_regions;
+
+ALTER TABLE public.citizen_issue_regions
+  ALTER COLUMN submitter_id DROP NOT NULL;
+
+ALTER TABLE public.citizen_issue_regions
+  ADD COLUMN IF NOT EXISTS submitter_address TEXT;
@@ -0,0 +1,16 @@
+-- =====================================================
+-- CITIZEN ISSUE TRACKER - ROLE SNAPSHOT BLOCK
+-- The backend records the finalized block at which it
+-- checked the official's Tiki. Clients re-check the role
+-- at that block, so a later appointment or dismissal
+-- neither grants nor revokes past updates, and apply
+-- updates in created_at order rather than the
+-- signer-chosen issued_at.
+-- =====================================================
+
+ALTER TABLE public.citizen_issue_updates
+  ADD COLUMN IF NOT EXISTS block_number BIGINT,
+  ADD COLUMN IF NOT EXISTS block_hash TEXT;
+
+DROP INDEX IF EXISTS public.idx_issue_updates_issue;
+CREATE INDEX IF NOT EXISTS idx_issue_updates_issue ON public.citizen_issue_updates(issue_id, created_at);
@@ -0,0 +1,66 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - REFUNDS OF UNVERIFIED DEPOSITS
+-- The backend returns deposits that never verified
+-- (POST /api/p2p/escrow/refund-deposit) using the offer's
+-- escrow_refund_* columns. Each deposit is refunded once,
+-- and only the platform records refunds.
+-- =====================================================
+
+-- One active refund per deposit, however many offers name it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_p2p_offers_deposit_refund
+  ON public.p2p_fiat_offers(escrow_tx_hash)
+  WHERE escrow_verified_at IS NULL
+    AND escrow_refund_status IN ('signing', 'submitted', 'included');
+
+-- =====================================================
+-- PROTECT VERIFICATION AND REFUND STATE
+-- Replaces the 011 version: clients can no longer touch
+-- the refund columns or reopen a cancelled offer
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.protect_offer_escrow_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending_escrow';
+    NEW.escrow_verified_at := NULL;
+    NEW.escrow_refund_status := NULL;
+    NEW.escrow_refund_tx_hash := NULL;
+    NEW.escrow_refunded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.escrow_verified_at IS DISTINCT FROM OLD.escrow_verified_at THEN
+    RAISE EXCEPTION 'Escrow verification can only be set by the platform';
+  END IF;
+
+  IF NEW.escrow_refund_status IS DISTINCT FROM OLD.escrow_refund_status OR
+     NEW.escrow_refund_tx_hash IS DISTINCT FROM OLD.escrow_refund_tx_hash OR
+     NEW.escrow_refunded_at IS DISTINCT FROM OLD.escrow_refunded_at THEN
+    RAISE EXCEPTION 'Escrow refunds can only be recorded by the platform';
+  END IF;
+
+  IF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled offers cannot be reopened';
+  END IF;
+
+  IF OLD.status = 'pending_escrow' AND NEW.status NOT IN ('pending_escrow', 'cancelled') THEN
+    RAISE EXCEPTION 'Offer escrow has not been verified';
+  END IF;
+
+  -- A deposit being refunded cannot be swapped for another
+  IF (NEW.escrow_verified_at IS NOT NULL OR NEW.escrow_refund_status IS NOT NULL) AND (
+    NEW.escrow_tx_hash IS DISTINCT FROM OLD.escrow_tx_hash OR
+    NEW.escrow_block_hash IS DISTINCT FROM OLD.escrow_block_hash OR
+    NEW.amount_crypto IS DISTINCT FROM OLD.amount_crypto OR
+    NEW.token IS DISTINCT FROM OLD.token
+  ) THEN
+    RAISE EXCEPTION 'Escrow deposit details cannot be changed once verified or refunded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,184 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - DISPUTE OPENING
+-- A trade is disputed only together with an open dispute
+-- row, through open_p2p_dispute. Parties can no longer set
+-- a trade to disputed themselves, or insert disputes that
+-- are already assigned, decided or closed.
+-- =====================================================
+
+-- =====================================================
+-- OPEN DISPUTE (Parties)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.open_p2p_dispute(
+  p_trade_id UUID,
+  p_category TEXT,
+  p_reason TEXT,
+  p_evidence_urls TEXT[] DEFAULT '{}'
+) RETURNS UUID AS $$
+DECLARE
+  v_trade RECORD;
+  v_dispute_id UUID;
+BEGIN
+  SELECT * INTO v_trade
+  FROM public.p2p_fiat_trades
+  WHERE id = p_trade_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_trade.seller_id, v_trade.buyer_id) THEN
+    RAISE EXCEPTION 'Trade % not found', p_trade_id;
+  END IF;
+
+  IF v_trade.status NOT IN ('pending', 'payment_sent') THEN
+    RAISE EXCEPTION 'Trade can no longer be disputed';
+  END IF;
+
+  INSERT INTO public.p2p_fiat_disputes (trade_id, opened_by, reason, category, evidence_urls, status)
+  VALUES (p_trade_id, auth.uid(), TRIM(p_reason), p_category, COALESCE(p_evidence_urls, '{}'), 'open')
+  RETURNING id INTO v_dispute_id;
+
+  -- Lets protect_trade_escrow accept this transition, for this
+  -- transaction only
+  PERFORM set_config('p2p.opening_dispute', p_trade_id::text, true);
+
+  UPDATE public.p2p_fiat_trades
+  SET
+    status = 'disputed',
+    dispute_id = v_dispute_id,
+    updated_at = NOW()
+  WHERE id = p_trade_id;
+
+  PERFORM set_config('p2p.opening_dispute', '', true);
+
+  INSERT INTO public.p2p_audit_log (user_id, action, entity_type, entity_id, details)
+  VALUES (auth.uid(), 'open_dispute', 'dispute', v_dispute_id, jsonb_build_object(
+    'trade_id', p_trade_id,
+    'category', p_category,
+    'evidence_urls', p_evidence_urls
+  ));
+
+  RETURN v_dispute_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_p2p_dispute(UUID, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_p2p_dispute(UUID, TEXT, TEXT, TEXT[]) TO authenticated;
+
+-- =====================================================
+-- DIRECT INSERTS
+-- Only fresh, unassigned disputes; the trade itself still
+-- changes only through open_p2p_dispute
+-- =====================================================
+DROP POLICY IF EXISTS "disputes_parties_insert" ON public.p2p_fiat_disputes;
+
+CREATE POLICY "disputes_parties_insert" ON public.p2p_fiat_disputes
+  FOR INSERT WITH CHECK (
+    opened_by = auth.uid() AND
+    status = 'open' AND
+    assigned_moderator_id IS NULL AND
+    assigned_at IS NULL AND
+    decision IS NULL AND
+    decision_reasoning IS NULL AND
+    resolved_at IS NULL AND
+    EXISTS (
+      SELECT 1 FROM public.p2p_fiat_trades t
+      WHERE t.id = trade_id AND (t.seller_id = auth.uid() OR t.buyer_id = auth.uid())
+    )
+  );
+
+-- =====================================================
+-- TRADE PROTECTION
+-- Replaces the 022 version: parties can no longer set a
+-- trade to disputed or change its dispute_id
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.protect_trade_escrow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_offer RECORD;
+BEGIN
+  -- open_p2p_dispute flags its own transaction
+  IF auth.role() = 'service_role' OR current_setting('p2p.opening_dispute', true) = NEW.id::text THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Carve the trade out of the offer's verified deposit
+    SELECT * INTO v_offer
+    FROM public.p2p_fiat_offers
+    WHERE id = NEW.offer_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_offer.status <> 'open' OR v_offer.escrow_verified_at IS NULL THEN
+      RAISE EXCEPTION 'Offer is not available';
+    END IF;
+
+    IF NEW.seller_id IS DISTINCT FROM v_offer.seller_id OR NEW.buyer_id = v_offer.seller_id THEN
+      RAISE EXCEPTION 'Invalid trade parties';
+    END IF;
+
+    IF NEW.crypto_amount > v_offer.remaining_amount
+      OR NEW.crypto_amount < COALESCE(v_offer.min_order_amount, 0)
+      OR NEW.crypto_amount > COALESCE(v_offer.max_order_amount, v_offer.amount_crypto) THEN
+      RAISE EXCEPTION 'Invalid trade amount';
+    END IF;
+
+    NEW.fiat_amount := NEW.crypto_amount * v_offer.fiat_amount / v_offer.amount_crypto;
+    NEW.price_per_unit := v_offer.price_per_unit;
+    NEW.escrow_locked_amount := NEW.crypto_amount;
+    NEW.escrow_locked_at := NOW();
+    NEW.escrow_release_tx_hash := NULL;
+    NEW.escrow_released_at := NULL;
+    NEW.escrow_settlement_type := NULL;
+    NEW.escrow_settlement_status := NULL;
+    NEW.escrow_settlement_error := NULL;
+    NEW.status := 'pending';
+    NEW.payment_deadline := NOW() + make_interval(mins => v_offer.time_limit_minutes);
+    NEW.buyer_marked_paid_at := NULL;
+    NEW.seller_confirmed_at := NULL;
+    NEW.completed_at := NULL;
+    NEW.dispute_id := NULL;
+
+    UPDATE public.p2p_fiat_offers
+    SET
+      remaining_amount = remaining_amount - NEW.crypto_amount,
+      status = CASE WHEN remaining_amount - NEW.crypto_amount = 0 THEN 'locked' ELSE status END,
+      updated_at = NOW()
+    WHERE id = NEW.offer_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.offer_id IS DISTINCT FROM OLD.offer_id OR
+    NEW.seller_id IS DISTINCT FROM OLD.seller_id OR
+    NEW.buyer_id IS DISTINCT FROM OLD.buyer_id OR
+    NEW.buyer_wallet IS DISTINCT FROM OLD.buyer_wallet OR
+    NEW.crypto_amount IS DISTINCT FROM OLD.crypto_amount OR
+    NEW.fiat_amount IS DISTINCT FROM OLD.fiat_amount OR
+    NEW.price_per_unit IS DISTINCT FROM OLD.price_per_unit OR
+    NEW.escrow_locked_amount IS DISTINCT FROM OLD.escrow_locked_amount OR
+    NEW.escrow_locked_at IS DISTINCT FROM OLD.escrow_locked_at OR
+    NEW.escrow_release_tx_hash IS DISTINCT FROM OLD.escrow_release_tx_hash OR
+    NEW.escrow_released_at IS DISTINCT FROM OLD.escrow_released_at OR
+    NEW.escrow_settlement_type IS DISTINCT FROM OLD.escrow_settlement_type OR
+    NEW.escrow_settlement_status IS DISTINCT FROM OLD.escrow_settlement_status OR
+    NEW.escrow_settlement_error IS DISTINCT FROM OLD.escrow_settlement_error OR
+    NEW.payment_deadline IS DISTINCT FROM OLD.payment_deadline OR
+    NEW.seller_confirmed_at IS DISTINCT FROM OLD.seller_confirmed_at OR
+    NEW.completed_at IS DISTINCT FROM OLD.completed_at OR
+    NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by OR
+    NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason OR
+    NEW.dispute_id IS DISTINCT FROM OLD.dispute_id
+  THEN
+    RAISE EXCEPTION 'Trade escrow details can only be changed by the platform';
+  END IF;
+
+  -- The buyer may only mark the payment sent; disputes are opened through
+  -- open_p2p_dispute and every other status is set by the backend
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    OLD.status = 'pending' AND NEW.status = 'payment_sent' AND auth.uid() = OLD.buyer_id
+  ) THEN
+    RAISE EXCEPTION 'Invalid trade status change';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,34 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - SELLER CONFIRMATION DEADLINE
+-- cancel_expired_trades opens a dispute once the seller
+-- misses confirmation_deadline, so the deadline is set here
+-- when the buyer marks the payment sent, never by a party
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.pin_trade_confirmation_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'payment_sent' THEN
+    NEW.buyer_marked_paid_at := NOW();
+    NEW.confirmation_deadline := NOW() + INTERVAL '60 minutes';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.confirmation_deadline IS DISTINCT FROM OLD.confirmation_deadline OR
+    NEW.buyer_marked_paid_at IS DISTINCT FROM OLD.buyer_marked_paid_at
+  THEN
+    RAISE EXCEPTION 'Trade deadlines can only be changed by the platform';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS pin_trade_confirmation_deadline ON public.p2p_fiat_trades;
+CREATE TRIGGER pin_trade_confirmation_deadline
+  BEFORE UPDATE ON public.p2p_fiat_trades
+  FOR EACH ROW EXECUTE FUNCTION public.pin_trade_confirmation_deadline();
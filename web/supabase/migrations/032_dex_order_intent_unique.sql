@@ -0,0 +1,14 @@
+-- =====================================================
+-- DEX ORDERS - ONE ORDER PER SIGNED INTENT
+-- The same signature verifies in upper- and lower-case hex,
+-- so a unique signature text did not stop a replayed intent.
+-- The intent message names the owner and nonce; it is now
+-- unique, and signatures are stored lower-case.
+-- =====================================================
+
+UPDATE public.dex_orders
+SET signature = LOWER(signature)
+WHERE signature <> LOWER(signature);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dex_orders_intent
+  ON public.dex_orders(md5(message));
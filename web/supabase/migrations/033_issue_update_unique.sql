@@ -0,0 +1,15 @@
+-- =====================================================
+-- CITIZEN ISSUE TRACKER - ONE ROW PER SIGNED UPDATE
+-- The same signature verifies in upper- and lower-case hex
+-- and the actor address has several SS58 encodings, so a
+-- unique signature text did not stop a replayed update.
+-- The signed message holds the issue and issued_at; an
+-- issue takes one update per millisecond.
+-- =====================================================
+
+UPDATE public.citizen_issue_updates
+SET signature = LOWER(signature)
+WHERE signature <> LOWER(signature);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_issue_updates_signed
+  ON public.citizen_issue_updates(issue_id, issued_at);
@@ -0,0 +1,28 @@
+-- =====================================================
+-- P2P FIAT SYSTEM - ESCROW TRANSFER SUBMISSIONS
+-- Every transfer the backend signs from the escrow account
+-- (trade settlements, offer and deposit refunds) is recorded
+-- here before it is broadcast. A transfer whose outcome the
+-- node never reported stays unresolved until the backend
+-- finds it in a finalized block or it expires, so it is
+-- neither signed again nor completed twice.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.p2p_escrow_submissions (
+  tx_hash TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('settle_trade', 'refund_offer', 'refund_deposit')),
+  entity_id UUID NOT NULL,
+  -- Finalized block when signed; the transfer is mortal from there
+  from_block BIGINT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  outcome TEXT CHECK (outcome IN ('included', 'failed')),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_escrow_submissions_unresolved
+  ON public.p2p_escrow_submissions(created_at)
+  WHERE resolved_at IS NULL;
+
+-- Backend only: no policies, so only the service role can read or write
+ALTER TABLE public.p2p_escrow_submissions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,18 @@
+-- =====================================================
+-- CITIZENSHIP NULLIFIERS
+-- The backend keys each applicant's identity digest with
+-- its CITIZENSHIP_NULLIFIER_KEY (POST /api/citizenship/nullifier)
+-- and binds the nullifier to one wallet here, so an identity
+-- held by a pending or approved citizen cannot apply again
+-- from another wallet.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.citizenship_nullifiers (
+  nullifier_hash TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Backend only: no policies, so only the service role can read or write
+ALTER TABLE public.citizenship_nullifiers ENABLE ROW LEVEL SECURITY;